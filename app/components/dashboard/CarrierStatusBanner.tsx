@@ -0,0 +1,59 @@
+import { Banner, Text } from "@shopify/polaris";
+import type { CircuitState } from "~/services/carriers/carrier.circuit-breaker";
+import { getCarrierDefinition } from "~/services/carriers/carrier.registry";
+
+/**
+ * Degraded carrier as sent to the dashboard (dates as strings)
+ */
+export interface DegradedCarrier {
+  carrier: string;
+  state: CircuitState;
+  openedAt: string | Date | null;
+}
+
+interface CarrierStatusBannerProps {
+  degradedCarriers: DegradedCarrier[];
+}
+
+export function CarrierStatusBanner({ degradedCarriers }: CarrierStatusBannerProps) {
+  if (degradedCarriers.length === 0) {
+    return null;
+  }
+
+  const formatTime = (date: string | Date) => {
+    return new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(typeof date === "string" ? new Date(date) : date);
+  };
+
+  const names = degradedCarriers.map(
+    (entry) => getCarrierDefinition(entry.carrier)?.displayName ?? entry.carrier
+  );
+  const title =
+    names.length === 1
+      ? `${names[0]} API degraded`
+      : `Carrier APIs degraded: ${names.join(", ")}`;
+
+  return (
+    <Banner title={title} tone="warning">
+      <Text as="p" variant="bodyMd">
+        {degradedCarriers.map((entry, index) => (
+          <span key={entry.carrier}>
+            {index > 0 && " "}
+            {names[index]} has been failing since{" "}
+            {entry.openedAt ? formatTime(entry.openedAt) : "recently"}
+            {entry.state === "half_open" ? " and is being rechecked." : "."}
+          </span>
+        ))}
+      </Text>
+      <Text as="p" variant="bodyMd">
+        Tracking updates for affected shipments are paused and resume automatically once
+        the carrier recovers. Shipments are not flagged as delayed just because updates
+        are missing.
+      </Text>
+    </Banner>
+  );
+}
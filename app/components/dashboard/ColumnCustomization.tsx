@@ -29,6 +29,8 @@ export const ALL_COLUMNS: ColumnConfig[] = [
   { key: "shipDate", title: "Ship Date", sortable: true },
   { key: "expectedDeliveryDate", title: "Expected Delivery", sortable: true },
   { key: "daysDelayed", title: "Days Delayed", sortable: true },
+  { key: "riskScore", title: "Delay Risk", sortable: true },
+  { key: "delaySeverity", title: "Severity", sortable: true },
   { key: "orderValue", title: "Order Value", sortable: true },
 ];
 
@@ -13,12 +13,25 @@ import {
 } from "@shopify/polaris";
 import { XSmallIcon } from "@shopify/polaris-icons";
 import { useState, useCallback, useMemo } from "react";
-import type { CarrierType, DelayStatus } from "~/lib/validation";
+import type {
+  CarrierType,
+  DelaySeverityType,
+  DelayStatus,
+  ExceptionCategoryType,
+  TrackingStatusType,
+} from "~/lib/validation";
+import { CARRIER_DEFINITIONS } from "~/services/carriers/carrier.registry";
+import { TRACKING_STATUSES, TRACKING_STATUS_LABELS } from "~/lib/tracking-status";
+import { DELAY_SEVERITIES, formatDelaySeverity } from "~/lib/delay-rules";
+import { EXCEPTION_CATEGORIES, EXCEPTION_CATEGORY_LABELS } from "~/lib/exception-taxonomy";
 
 export interface FilterValues {
   carrier?: CarrierType[];
   serviceLevel?: string;
   delayStatus?: DelayStatus;
+  trackingStatus?: TrackingStatusType;
+  severity?: DelaySeverityType;
+  exceptionCategory?: ExceptionCategoryType;
   orderValueMin?: number;
   orderValueMax?: number;
   shipDateFrom?: string;
@@ -34,19 +47,37 @@ interface FilterBarProps {
   serviceLevels?: string[];
 }
 
-const CARRIER_OPTIONS = [
-  { label: "UPS", value: "UPS" },
-  { label: "FedEx", value: "FEDEX" },
-  { label: "USPS", value: "USPS" },
+const CARRIER_OPTIONS: Array<{ label: string; value: CarrierType }> = [
+  ...CARRIER_DEFINITIONS.map((definition) => ({
+    label: definition.shortName,
+    value: definition.carrier,
+  })),
   { label: "Unknown", value: "UNKNOWN" },
-] as const;
+];
 
 const DELAY_STATUS_OPTIONS = [
   { label: "Delayed", value: "delayed" },
+  { label: "At Risk", value: "at_risk" },
   { label: "On Time", value: "on_time" },
   { label: "Pending", value: "pending" },
 ] as const;
 
+const TRACKING_STATUS_OPTIONS = TRACKING_STATUSES.map((status) => ({
+  label: TRACKING_STATUS_LABELS[status],
+  value: status,
+}));
+
+// Most severe first
+const SEVERITY_OPTIONS = [...DELAY_SEVERITIES].reverse().map((severity) => ({
+  label: formatDelaySeverity(severity),
+  value: severity,
+}));
+
+const EXCEPTION_CATEGORY_OPTIONS = EXCEPTION_CATEGORIES.map((category) => ({
+  label: EXCEPTION_CATEGORY_LABELS[category],
+  value: category,
+}));
+
 export function FilterBar({
   filters,
   onFiltersChange,
@@ -61,6 +92,9 @@ export function FilterBar({
   const [locationPopoverActive, setLocationPopoverActive] = useState(false);
   const [serviceLevelPopoverActive, setServiceLevelPopoverActive] = useState(false);
   const [delayStatusPopoverActive, setDelayStatusPopoverActive] = useState(false);
+  const [trackingStatusPopoverActive, setTrackingStatusPopoverActive] = useState(false);
+  const [severityPopoverActive, setSeverityPopoverActive] = useState(false);
+  const [exceptionCategoryPopoverActive, setExceptionCategoryPopoverActive] = useState(false);
 
   // Date picker state
   const [{ month, year }, setDate] = useState({
@@ -74,6 +108,9 @@ export function FilterBar({
     if (filters.carrier && filters.carrier.length > 0) count++;
     if (filters.serviceLevel) count++;
     if (filters.delayStatus) count++;
+    if (filters.trackingStatus) count++;
+    if (filters.severity) count++;
+    if (filters.exceptionCategory) count++;
     if (filters.orderValueMin !== undefined || filters.orderValueMax !== undefined) count++;
     if (filters.shipDateFrom || filters.shipDateTo) count++;
     if (filters.locationId) count++;
@@ -103,6 +140,36 @@ export function FilterBar({
     [filters, onFiltersChange]
   );
 
+  const handleTrackingStatusChange = useCallback(
+    (selected: string[]) => {
+      onFiltersChange({
+        ...filters,
+        trackingStatus: selected[0] as TrackingStatusType | undefined,
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
+  const handleSeverityChange = useCallback(
+    (selected: string[]) => {
+      onFiltersChange({
+        ...filters,
+        severity: selected[0] as DelaySeverityType | undefined,
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
+  const handleExceptionCategoryChange = useCallback(
+    (selected: string[]) => {
+      onFiltersChange({
+        ...filters,
+        exceptionCategory: selected[0] as ExceptionCategoryType | undefined,
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
   const handleServiceLevelChange = useCallback(
     (value: string) => {
       onFiltersChange({
@@ -171,6 +238,18 @@ export function FilterBar({
     onFiltersChange({ ...filters, delayStatus: undefined });
   }, [filters, onFiltersChange]);
 
+  const removeTrackingStatusFilter = useCallback(() => {
+    onFiltersChange({ ...filters, trackingStatus: undefined });
+  }, [filters, onFiltersChange]);
+
+  const removeSeverityFilter = useCallback(() => {
+    onFiltersChange({ ...filters, severity: undefined });
+  }, [filters, onFiltersChange]);
+
+  const removeExceptionCategoryFilter = useCallback(() => {
+    onFiltersChange({ ...filters, exceptionCategory: undefined });
+  }, [filters, onFiltersChange]);
+
   const removeServiceLevelFilter = useCallback(() => {
     onFiltersChange({ ...filters, serviceLevel: undefined });
   }, [filters, onFiltersChange]);
@@ -212,6 +291,30 @@ export function FilterBar({
       });
     }
 
+    if (filters.trackingStatus) {
+      applied.push({
+        key: "trackingStatus",
+        label: `Tracking: ${TRACKING_STATUS_LABELS[filters.trackingStatus]}`,
+        onRemove: removeTrackingStatusFilter,
+      });
+    }
+
+    if (filters.severity) {
+      applied.push({
+        key: "severity",
+        label: `Severity: ${formatDelaySeverity(filters.severity)}`,
+        onRemove: removeSeverityFilter,
+      });
+    }
+
+    if (filters.exceptionCategory) {
+      applied.push({
+        key: "exceptionCategory",
+        label: `Category: ${EXCEPTION_CATEGORY_LABELS[filters.exceptionCategory]}`,
+        onRemove: removeExceptionCategoryFilter,
+      });
+    }
+
     if (filters.serviceLevel) {
       applied.push({
         key: "serviceLevel",
@@ -267,6 +370,9 @@ export function FilterBar({
     locations,
     removeCarrierFilter,
     removeDelayStatusFilter,
+    removeTrackingStatusFilter,
+    removeSeverityFilter,
+    removeExceptionCategoryFilter,
     removeServiceLevelFilter,
     removeOrderValueFilter,
     removeDateFilter,
@@ -299,6 +405,27 @@ export function FilterBar({
     return "Status";
   };
 
+  const getTrackingStatusButtonLabel = () => {
+    if (filters.trackingStatus) {
+      return "Tracking (1)";
+    }
+    return "Tracking";
+  };
+
+  const getSeverityButtonLabel = () => {
+    if (filters.severity) {
+      return "Severity (1)";
+    }
+    return "Severity";
+  };
+
+  const getExceptionCategoryButtonLabel = () => {
+    if (filters.exceptionCategory) {
+      return "Category (1)";
+    }
+    return "Category";
+  };
+
   const getServiceLevelButtonLabel = () => {
     if (filters.serviceLevel) {
       return "Service Level (1)";
@@ -389,6 +516,84 @@ export function FilterBar({
           </Box>
         </Popover>
 
+        {/* Tracking Status Filter */}
+        <Popover
+          active={trackingStatusPopoverActive}
+          activator={
+            <Button
+              onClick={() => setTrackingStatusPopoverActive(!trackingStatusPopoverActive)}
+              disclosure={trackingStatusPopoverActive ? "up" : "down"}
+              size="slim"
+            >
+              {getTrackingStatusButtonLabel()}
+            </Button>
+          }
+          onClose={() => setTrackingStatusPopoverActive(false)}
+          preferredAlignment="left"
+        >
+          <Box padding="300" minWidth="200px">
+            <ChoiceList
+              title="Tracking Status"
+              titleHidden
+              choices={TRACKING_STATUS_OPTIONS}
+              selected={filters.trackingStatus ? [filters.trackingStatus] : []}
+              onChange={handleTrackingStatusChange}
+            />
+          </Box>
+        </Popover>
+
+        {/* Delay Severity Filter */}
+        <Popover
+          active={severityPopoverActive}
+          activator={
+            <Button
+              onClick={() => setSeverityPopoverActive(!severityPopoverActive)}
+              disclosure={severityPopoverActive ? "up" : "down"}
+              size="slim"
+            >
+              {getSeverityButtonLabel()}
+            </Button>
+          }
+          onClose={() => setSeverityPopoverActive(false)}
+          preferredAlignment="left"
+        >
+          <Box padding="300" minWidth="200px">
+            <ChoiceList
+              title="Severity"
+              titleHidden
+              choices={SEVERITY_OPTIONS}
+              selected={filters.severity ? [filters.severity] : []}
+              onChange={handleSeverityChange}
+            />
+          </Box>
+        </Popover>
+
+        {/* Exception Category Filter */}
+        <Popover
+          active={exceptionCategoryPopoverActive}
+          activator={
+            <Button
+              onClick={() => setExceptionCategoryPopoverActive(!exceptionCategoryPopoverActive)}
+              disclosure={exceptionCategoryPopoverActive ? "up" : "down"}
+              size="slim"
+            >
+              {getExceptionCategoryButtonLabel()}
+            </Button>
+          }
+          onClose={() => setExceptionCategoryPopoverActive(false)}
+          preferredAlignment="left"
+        >
+          <Box padding="300" minWidth="200px">
+            <ChoiceList
+              title="Exception Category"
+              titleHidden
+              choices={EXCEPTION_CATEGORY_OPTIONS}
+              selected={filters.exceptionCategory ? [filters.exceptionCategory] : []}
+              onChange={handleExceptionCategoryChange}
+            />
+          </Box>
+        </Popover>
+
         {/* Service Level Filter */}
         {serviceLevels.length > 0 && (
           <Popover
@@ -24,6 +24,19 @@ import {
 import { useFetcher } from "@remix-run/react";
 import { useEffect } from "react";
 import { format, parseISO } from "date-fns";
+import type {
+  DelaySeverity,
+  ExceptionCategory,
+  NotificationChannel,
+  TrackingStatus,
+} from "@prisma/client";
+import { getCarrierDefinition } from "~/services/carriers/carrier.registry";
+import { TRACKING_STATUS_LABELS } from "~/lib/tracking-status";
+import { getRiskLevel, isAtRisk, type RiskFactor } from "~/lib/delay-risk";
+import { describeAction, formatDelaySeverity, type DelayRuleAction } from "~/lib/delay-rules";
+import { EXCEPTION_CATEGORY_LABELS } from "~/lib/exception-taxonomy";
+import { NOTIFICATION_CHANNEL_LABELS } from "~/lib/notification-templates";
+import { AUTOMATION_SENDER } from "~/lib/notification-automation";
 
 /**
  * Shape of shipping address stored in Shipment.shippingAddress
@@ -44,11 +57,31 @@ interface ShippingAddress {
   company?: string | null;
 }
 
+/**
+ * Package of a multi-package shipment from the API
+ */
+interface ShipmentPackage {
+  id: string;
+  trackingNumber: string;
+  carrier: string;
+  currentStatus: string;
+  trackingStatus: TrackingStatus;
+  expectedDeliveryDate: string | null;
+  isDelayed: boolean;
+  daysDelayed: number;
+  lastScanLocation: string | null;
+  lastScanTime: string | null;
+  carrierExceptionReason: string | null;
+  isDelivered: boolean;
+  deliveredAt: string | null;
+}
+
 /**
  * Tracking event from the API
  */
 interface TrackingEvent {
   id: string;
+  packageId: string | null;
   eventTimestamp: string;
   eventType: string;
   eventDescription: string;
@@ -64,8 +97,11 @@ interface NotificationLogEntry {
   id: string;
   sentAt: string;
   sentBy: string;
-  recipientEmail: string;
-  emailSubject: string;
+  channel: NotificationChannel;
+  recipientEmail: string | null;
+  recipientPhone: string | null;
+  emailSubject: string | null;
+  bodyPreview: string;
   status: "SENT" | "FAILED";
 }
 
@@ -80,6 +116,17 @@ interface ResolutionLogEntry {
   notes: string | null;
 }
 
+/**
+ * Delay rule match from the API
+ */
+interface DelayRuleLogEntry {
+  id: string;
+  matchedAt: string;
+  ruleName: string;
+  actions: DelayRuleAction[];
+  isDelayed: boolean;
+}
+
 /**
  * Full shipment detail response from API
  */
@@ -97,14 +144,19 @@ interface ShipmentDetail {
   expectedDeliveryDate: string | null;
   expectedDeliverySource: string;
   currentStatus: string;
+  trackingStatus: TrackingStatus;
   isDelayed: boolean;
   delayFlaggedAt: string | null;
   daysDelayed: number;
+  delaySeverity: DelaySeverity | null;
+  riskScore: number | null;
+  riskFactors: RiskFactor[] | null;
   lastCarrierStatus: string | null;
   lastScanLocation: string | null;
   lastScanTime: string | null;
   carrierExceptionCode: string | null;
   carrierExceptionReason: string | null;
+  exceptionCategory: ExceptionCategory | null;
   rescheduledDeliveryDate: string | null;
   isResolved: boolean;
   resolvedAt: string | null;
@@ -117,9 +169,11 @@ interface ShipmentDetail {
   orderValue: string | null;
   shopifyOrderId: string;
   fulfillmentLocationName: string | null;
+  packages: ShipmentPackage[];
   trackingEvents: TrackingEvent[];
   notificationLogs: NotificationLogEntry[];
   resolutionLogs: ResolutionLogEntry[];
+  delayRuleLogs: DelayRuleLogEntry[];
 }
 
 interface ShipmentDetailPanelProps {
@@ -211,6 +265,18 @@ function getEventIcon(eventType: string): typeof DeliveryIcon {
   return DeliveryIcon;
 }
 
+/**
+ * Get the status badge for a package
+ */
+function getPackageBadge(pkg: ShipmentPackage): React.ReactNode {
+  if (pkg.isDelivered) return <Badge tone="success">Delivered</Badge>;
+  if (pkg.isDelayed) return <Badge tone="critical">Delayed</Badge>;
+  if (pkg.currentStatus === "pending" && !pkg.lastScanTime) {
+    return <Badge tone="attention">Pending Pickup</Badge>;
+  }
+  return <Badge tone="success">On Time</Badge>;
+}
+
 /**
  * Format event location
  */
@@ -272,6 +338,9 @@ export function ShipmentDetailPanel({
   }
 
   const addressLines = formatAddress(shipment.shippingAddress);
+  const packageTrackingNumbers = new Map(
+    shipment.packages.map((pkg) => [pkg.id, pkg.trackingNumber])
+  );
 
   return (
     <Card>
@@ -289,6 +358,7 @@ export function ShipmentDetailPanel({
             {shipment.isDelayed && !shipment.isResolved && (
               <Badge tone="critical">Delayed</Badge>
             )}
+            {isAtRisk(shipment) && <Badge tone="warning">At Risk</Badge>}
           </InlineStack>
           <Button variant="plain" icon={XIcon} onClick={onClose} accessibilityLabel="Close" />
         </InlineStack>
@@ -353,7 +423,7 @@ export function ShipmentDetailPanel({
                     Carrier:
                   </Text>
                   <Text as="span" variant="bodySm">
-                    {shipment.carrier === "FEDEX" ? "FedEx" : shipment.carrier}
+                    {getCarrierDefinition(shipment.carrier)?.shortName ?? shipment.carrier}
                   </Text>
                 </InlineStack>
                 {shipment.serviceLevel && (
@@ -366,6 +436,14 @@ export function ShipmentDetailPanel({
                     </Text>
                   </InlineStack>
                 )}
+                <InlineStack gap="200">
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    Tracking:
+                  </Text>
+                  <Text as="span" variant="bodySm">
+                    {TRACKING_STATUS_LABELS[shipment.trackingStatus]}
+                  </Text>
+                </InlineStack>
                 <InlineStack gap="200">
                   <Text as="span" variant="bodySm" tone="subdued">
                     Status:
@@ -404,9 +482,62 @@ export function ShipmentDetailPanel({
                     </Text>
                   </InlineStack>
                 )}
+                {shipment.exceptionCategory && (
+                  <InlineStack gap="200">
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      Category:
+                    </Text>
+                    <Text as="span" variant="bodySm">
+                      {EXCEPTION_CATEGORY_LABELS[shipment.exceptionCategory]}
+                    </Text>
+                  </InlineStack>
+                )}
               </BlockStack>
             </BlockStack>
 
+            {/* Packages (multi-package shipments only) */}
+            {shipment.packages.length > 0 && (
+              <BlockStack gap="200">
+                <Text as="h3" variant="headingSm">
+                  Packages ({shipment.packages.length})
+                </Text>
+                <BlockStack gap="300">
+                  {shipment.packages.map((pkg) => (
+                    <BlockStack key={pkg.id} gap="100">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Text as="span" variant="bodySm" fontWeight="semibold">
+                          {pkg.trackingNumber}
+                        </Text>
+                        {getPackageBadge(pkg)}
+                      </InlineStack>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {getCarrierDefinition(pkg.carrier)?.shortName ?? pkg.carrier} ·{" "}
+                        {TRACKING_STATUS_LABELS[pkg.trackingStatus]}
+                        {pkg.lastScanLocation ? ` · ${pkg.lastScanLocation}` : ""}
+                      </Text>
+                      {pkg.isDelivered && pkg.deliveredAt ? (
+                        <Text as="p" variant="bodySm" tone="success">
+                          Delivered {formatDateTime(pkg.deliveredAt)}
+                        </Text>
+                      ) : (
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          Expected {formatDate(pkg.expectedDeliveryDate)}
+                          {pkg.isDelayed && pkg.daysDelayed > 0
+                            ? ` · ${pkg.daysDelayed} ${pkg.daysDelayed === 1 ? "day" : "days"} late`
+                            : ""}
+                        </Text>
+                      )}
+                      {pkg.carrierExceptionReason && (
+                        <Text as="p" variant="bodySm" tone="critical">
+                          {pkg.carrierExceptionReason}
+                        </Text>
+                      )}
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              </BlockStack>
+            )}
+
             {/* Delivery Dates */}
             <BlockStack gap="200">
               <Text as="h3" variant="headingSm">
@@ -459,8 +590,44 @@ export function ShipmentDetailPanel({
                     </Text>
                   </InlineStack>
                 )}
+                {shipment.isDelayed && shipment.delaySeverity && (
+                  <InlineStack gap="200">
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      Severity:
+                    </Text>
+                    <Badge tone={shipment.delaySeverity === "CRITICAL" ? "critical" : "warning"}>
+                      {formatDelaySeverity(shipment.delaySeverity)}
+                    </Badge>
+                  </InlineStack>
+                )}
               </BlockStack>
             </BlockStack>
+
+            {/* Delay Risk (while in transit and on time) */}
+            {shipment.riskScore !== null && !shipment.isDelayed && !shipment.isDelivered && (
+              <BlockStack gap="200">
+                <Text as="h3" variant="headingSm">
+                  Delay Risk
+                </Text>
+                <InlineStack gap="200">
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    Score:
+                  </Text>
+                  <Text
+                    as="span"
+                    variant="bodySm"
+                    tone={getRiskLevel(shipment.riskScore) === "HIGH" ? "critical" : undefined}
+                  >
+                    {`${shipment.riskScore} / 100`}
+                  </Text>
+                </InlineStack>
+                {(shipment.riskFactors ?? []).map((factor) => (
+                  <Text as="p" variant="bodySm" tone="subdued" key={factor.code}>
+                    {`${factor.description} (+${factor.points})`}
+                  </Text>
+                ))}
+              </BlockStack>
+            )}
           </BlockStack>
 
           {/* Right column: Timeline & History */}
@@ -491,6 +658,11 @@ export function ShipmentDetailPanel({
                             {formatDateTime(event.eventTimestamp)}
                           </Text>
                         </InlineStack>
+                        {packageTrackingNumbers.get(event.packageId ?? "") && (
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            Package {packageTrackingNumbers.get(event.packageId ?? "")}
+                          </Text>
+                        )}
                         {formatEventLocation(event) && (
                           <InlineStack gap="100">
                             <Icon source={LocationIcon} tone="subdued" />
@@ -525,13 +697,44 @@ export function ShipmentDetailPanel({
                         <Badge tone={log.status === "SENT" ? "success" : "critical"}>
                           {log.status}
                         </Badge>
-                        <Text as="span" variant="bodySm">
-                          {log.emailSubject}
+                        <Badge>{NOTIFICATION_CHANNEL_LABELS[log.channel]}</Badge>
+                        <Text as="span" variant="bodySm" truncate>
+                          {log.emailSubject ?? log.bodyPreview}
                         </Text>
                       </InlineStack>
                       <Text as="p" variant="bodySm" tone="subdued">
-                        Sent to {log.recipientEmail} on {formatDateTime(log.sentAt)} by{" "}
-                        {log.sentBy}
+                        Sent to {log.recipientPhone ?? log.recipientEmail} on{" "}
+                        {formatDateTime(log.sentAt)}{" "}
+                        {log.sentBy === AUTOMATION_SENDER ? "automatically" : `by ${log.sentBy}`}
+                      </Text>
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+
+            <Divider />
+
+            {/* Delay Rules Applied */}
+            <BlockStack gap="200">
+              <Text as="h3" variant="headingSm">
+                Delay Rules Applied
+              </Text>
+              {shipment.delayRuleLogs.length === 0 ? (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  No delay rules matched
+                </Text>
+              ) : (
+                <BlockStack gap="200">
+                  {shipment.delayRuleLogs.map((log) => (
+                    <BlockStack key={log.id} gap="100">
+                      <Text as="p" variant="bodySm" fontWeight="semibold">
+                        {log.ruleName}
+                      </Text>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {`${log.actions.map(describeAction).join(", ")} · matched on ${formatDateTime(log.matchedAt)}${
+                          log.isDelayed ? " (flagged as delayed)" : ""
+                        }`}
                       </Text>
                     </BlockStack>
                   ))}
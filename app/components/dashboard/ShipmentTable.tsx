@@ -14,6 +14,14 @@ import {
 import { useCallback, useState, useMemo } from "react";
 import { format, parseISO } from "date-fns";
 import type { ShipmentListItem } from "~/lib/validation";
+import {
+  buildCarrierTrackingUrl,
+  getCarrierDefinition,
+} from "~/services/carriers/carrier.registry";
+import { PROBLEM_TRACKING_STATUSES, TRACKING_STATUS_LABELS } from "~/lib/tracking-status";
+import { getRiskLevel, isAtRisk } from "~/lib/delay-risk";
+import { formatDelaySeverity } from "~/lib/delay-rules";
+import { EXCEPTION_CATEGORY_LABELS } from "~/lib/exception-taxonomy";
 import { ShipmentDetailPanel } from "./ShipmentDetailPanel";
 import { ALL_COLUMNS, type ColumnConfig } from "./ColumnCustomization";
 import { SendNotificationModal } from "../notifications/SendNotificationModal";
@@ -38,16 +46,7 @@ interface ShipmentTableProps {
  * Get carrier tracking URL based on carrier and tracking number
  */
 function getCarrierTrackingUrl(carrier: string, trackingNumber: string): string {
-  switch (carrier.toUpperCase()) {
-    case "UPS":
-      return `https://www.ups.com/track?tracknum=${encodeURIComponent(trackingNumber)}`;
-    case "FEDEX":
-      return `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(trackingNumber)}`;
-    case "USPS":
-      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodeURIComponent(trackingNumber)}`;
-    default:
-      return "";
-  }
+  return buildCarrierTrackingUrl(carrier, trackingNumber) ?? "";
 }
 
 /**
@@ -63,18 +62,11 @@ function getShopifyOrderUrl(shopifyOrderId: string): string {
  * Format carrier name for display
  */
 function formatCarrier(carrier: string): string {
-  switch (carrier.toUpperCase()) {
-    case "UPS":
-      return "UPS";
-    case "FEDEX":
-      return "FedEx";
-    case "USPS":
-      return "USPS";
-    case "UNKNOWN":
-      return "Unknown";
-    default:
-      return carrier;
+  if (carrier.toUpperCase() === "UNKNOWN") {
+    return "Unknown";
   }
+
+  return getCarrierDefinition(carrier)?.shortName ?? carrier;
 }
 
 /**
@@ -92,6 +84,15 @@ function getStatusBadge(shipment: ShipmentListItem): React.ReactNode {
     );
   }
 
+  // Mistyped tracking number badge (failed the carrier check digit, so not polled)
+  if (shipment.trackingNumberInvalid) {
+    badges.push(
+      <Badge key="invalid-tracking" tone="critical">
+        Invalid Tracking #
+      </Badge>
+    );
+  }
+
   // Duplicate tracking warning badge
   if (shipment.isDuplicateTracking) {
     badges.push(
@@ -101,6 +102,26 @@ function getStatusBadge(shipment: ShipmentListItem): React.ReactNode {
     );
   }
 
+  // Per-package progress for multi-package shipments
+  if (shipment.packages.length > 0 && !shipment.isDelivered) {
+    const delivered = shipment.packages.filter((pkg) => pkg.isDelivered).length;
+    const delayed = shipment.packages.filter((pkg) => pkg.isDelayed && !pkg.isDelivered).length;
+    badges.push(
+      <Badge key="packages" tone={delayed > 0 ? "warning" : undefined}>
+        {`${delivered} of ${shipment.packages.length} delivered${delayed > 0 ? `, ${delayed} delayed` : ""}`}
+      </Badge>
+    );
+  }
+
+  // Tracking problems the carrier reported (attempted delivery, returned, lost, ...)
+  if (!shipment.isDelivered && PROBLEM_TRACKING_STATUSES.includes(shipment.trackingStatus)) {
+    badges.push(
+      <Badge key="tracking" tone="warning">
+        {TRACKING_STATUS_LABELS[shipment.trackingStatus]}
+      </Badge>
+    );
+  }
+
   // Status badge
   if (shipment.isDelivered) {
     badges.push(<Badge key="status" tone="success">Delivered</Badge>);
@@ -108,6 +129,8 @@ function getStatusBadge(shipment: ShipmentListItem): React.ReactNode {
     badges.push(<Badge key="status" tone="info">Resolved</Badge>);
   } else if (shipment.isDelayed) {
     badges.push(<Badge key="status" tone="critical">Delayed</Badge>);
+  } else if (isAtRisk(shipment)) {
+    badges.push(<Badge key="status" tone="warning">At Risk</Badge>);
   } else if (shipment.currentStatus === "pending" && !shipment.lastScanTime) {
     badges.push(<Badge key="status" tone="attention">Pending Pickup</Badge>);
   } else {
@@ -135,6 +158,43 @@ function formatDaysDelayed(days: number, isDelayed: boolean): React.ReactNode {
   );
 }
 
+/**
+ * Format delay risk display (only scored while in transit and on time)
+ */
+function formatRiskScore(shipment: ShipmentListItem): React.ReactNode {
+  if (shipment.riskScore === null || shipment.isDelayed || shipment.isDelivered) {
+    return <Text as="span">—</Text>;
+  }
+  const level = getRiskLevel(shipment.riskScore);
+  const tone = level === "HIGH" ? "critical" : level === "MEDIUM" ? "caution" : "subdued";
+  return (
+    <Text as="span" tone={tone}>
+      {shipment.riskScore}
+    </Text>
+  );
+}
+
+/**
+ * Format delay severity display, with the exception category behind the delay
+ */
+function formatSeverity(shipment: ShipmentListItem): React.ReactNode {
+  if (!shipment.isDelayed || !shipment.delaySeverity) {
+    return <Text as="span">—</Text>;
+  }
+  return (
+    <InlineStack gap="100" blockAlign="center" wrap={false}>
+      <Badge tone={shipment.delaySeverity === "CRITICAL" ? "critical" : "warning"}>
+        {formatDelaySeverity(shipment.delaySeverity)}
+      </Badge>
+      {shipment.exceptionCategory && (
+        <Text as="span" tone="subdued">
+          {EXCEPTION_CATEGORY_LABELS[shipment.exceptionCategory]}
+        </Text>
+      )}
+    </InlineStack>
+  );
+}
+
 /**
  * Format date for display
  */
@@ -183,14 +243,26 @@ function renderCellValue(
           {getStatusBadge(shipment)}
         </InlineStack>
       );
-    case "trackingNumber":
-      return trackingUrl ? (
+    case "trackingNumber": {
+      const trackingLink = trackingUrl ? (
         <Link url={trackingUrl} external removeUnderline>
           {shipment.trackingNumber}
         </Link>
       ) : (
         <Text as="span">{shipment.trackingNumber}</Text>
       );
+      if (shipment.packages.length <= 1) {
+        return trackingLink;
+      }
+      return (
+        <InlineStack gap="100" blockAlign="center">
+          {trackingLink}
+          <Text as="span" tone="subdued">
+            +{shipment.packages.length - 1} more
+          </Text>
+        </InlineStack>
+      );
+    }
     case "carrier":
       return <Text as="span">{formatCarrier(shipment.carrier)}</Text>;
     case "serviceLevel":
@@ -203,6 +275,10 @@ function renderCellValue(
       return <Text as="span">{formatDate(shipment.expectedDeliveryDate)}</Text>;
     case "daysDelayed":
       return formatDaysDelayed(shipment.daysDelayed, shipment.isDelayed);
+    case "riskScore":
+      return formatRiskScore(shipment);
+    case "delaySeverity":
+      return formatSeverity(shipment);
     case "orderValue":
       return <Text as="span">{formatCurrency(shipment.orderValue)}</Text>;
     default:
@@ -6,16 +6,16 @@ import {
   Text,
   Badge,
 } from "@shopify/polaris";
+import {
+  CARRIER_DEFINITIONS,
+  type SupportedCarrier,
+} from "~/services/carriers/carrier.registry";
 
 export interface SummaryData {
   totalActive: number;
   delayed: number;
   deliveredToday: number;
-  avgDeliveryTimeByCarrier: {
-    UPS: number | null;
-    FEDEX: number | null;
-    USPS: number | null;
-  };
+  avgDeliveryTimeByCarrier: Record<SupportedCarrier, number | null>;
 }
 
 interface SummaryCardsProps {
@@ -29,10 +29,9 @@ export function SummaryCards({ data }: SummaryCardsProps) {
     return `${days.toFixed(1)} days`;
   };
 
-  const hasAvgData =
-    data.avgDeliveryTimeByCarrier.UPS !== null ||
-    data.avgDeliveryTimeByCarrier.FEDEX !== null ||
-    data.avgDeliveryTimeByCarrier.USPS !== null;
+  const hasAvgData = CARRIER_DEFINITIONS.some(
+    (definition) => data.avgDeliveryTimeByCarrier[definition.carrier] != null
+  );
 
   return (
     <Layout>
@@ -96,31 +95,17 @@ export function SummaryCards({ data }: SummaryCardsProps) {
               Average Delivery Time by Carrier
             </Text>
             {hasAvgData ? (
-              <InlineStack gap="800" wrap={false}>
-                <BlockStack gap="100">
-                  <Text variant="headingMd" as="p">
-                    {formatAvgTime(data.avgDeliveryTimeByCarrier.UPS)}
-                  </Text>
-                  <Text variant="bodySm" as="p" tone="subdued">
-                    UPS
-                  </Text>
-                </BlockStack>
-                <BlockStack gap="100">
-                  <Text variant="headingMd" as="p">
-                    {formatAvgTime(data.avgDeliveryTimeByCarrier.FEDEX)}
-                  </Text>
-                  <Text variant="bodySm" as="p" tone="subdued">
-                    FedEx
-                  </Text>
-                </BlockStack>
-                <BlockStack gap="100">
-                  <Text variant="headingMd" as="p">
-                    {formatAvgTime(data.avgDeliveryTimeByCarrier.USPS)}
-                  </Text>
-                  <Text variant="bodySm" as="p" tone="subdued">
-                    USPS
-                  </Text>
-                </BlockStack>
+              <InlineStack gap="600">
+                {CARRIER_DEFINITIONS.map((definition) => (
+                  <BlockStack gap="100" key={definition.carrier}>
+                    <Text variant="headingMd" as="p">
+                      {formatAvgTime(data.avgDeliveryTimeByCarrier[definition.carrier] ?? null)}
+                    </Text>
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      {definition.shortName}
+                    </Text>
+                  </BlockStack>
+                ))}
               </InlineStack>
             ) : (
               <Text variant="bodyMd" as="p" tone="subdued">
@@ -1,7 +1,7 @@
 import { Tabs } from "@shopify/polaris";
 import { useCallback } from "react";
 
-export type TabId = "all" | "delayed" | "pending" | "resolved" | "delivered";
+export type TabId = "all" | "delayed" | "at_risk" | "pending" | "resolved" | "delivered";
 
 interface TabNavProps {
   selected: TabId;
@@ -9,6 +9,7 @@ interface TabNavProps {
   counts: {
     all: number;
     delayed: number;
+    at_risk: number;
     pending: number;
     resolved: number;
     delivered: number;
@@ -18,6 +19,7 @@ interface TabNavProps {
 const tabConfigs: { id: TabId; content: string }[] = [
   { id: "all", content: "All Shipments" },
   { id: "delayed", content: "Delayed" },
+  { id: "at_risk", content: "At Risk" },
   { id: "pending", content: "Pending Pickup" },
   { id: "resolved", content: "Resolved" },
   { id: "delivered", content: "Delivered" },
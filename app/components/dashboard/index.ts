@@ -10,3 +10,4 @@ export {
   type ColumnConfig,
 } from "./ColumnCustomization";
 export { BulkActionBar } from "./BulkActionBar";
+export { CarrierStatusBanner, type DegradedCarrier } from "./CarrierStatusBanner";
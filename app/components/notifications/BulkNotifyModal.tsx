@@ -1,8 +1,10 @@
 /**
  * Bulk Notify Modal Component
  *
- * Modal for sending delay notifications to multiple customers at once.
- * Enqueues notification jobs that run in the background.
+ * Modal for sending delay notifications to multiple customers at once, by
+ * email, SMS or both. Enqueues notification jobs that run in the background.
+ * Each email uses the template that fits its shipment unless one is chosen
+ * for all of them.
  */
 
 import {
@@ -11,9 +13,33 @@ import {
   Banner,
   Text,
   Checkbox,
+  ChoiceList,
+  Select,
 } from "@shopify/polaris";
 import { useFetcher } from "@remix-run/react";
 import { useState, useEffect, useCallback } from "react";
+import type { NotificationChannel } from "@prisma/client";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_CHANNEL_LABELS } from "~/lib/notification-templates";
+import {
+  NOTIFICATION_SCENARIOS,
+  NOTIFICATION_SCENARIO_LABELS,
+} from "~/lib/notification-scenarios";
+
+const CHANNEL_CHOICES = NOTIFICATION_CHANNELS.map((channel) => ({
+  label: NOTIFICATION_CHANNEL_LABELS[channel],
+  value: channel,
+}));
+
+/** Empty value: each shipment gets the template that fits it */
+const AUTOMATIC_SCENARIO = "";
+
+const SCENARIO_OPTIONS = [
+  { label: "Automatic (by shipment)", value: AUTOMATIC_SCENARIO },
+  ...NOTIFICATION_SCENARIOS.map((scenario) => ({
+    label: NOTIFICATION_SCENARIO_LABELS[scenario],
+    value: scenario,
+  })),
+];
 
 interface BulkNotifyModalProps {
   /** Array of shipment IDs to notify */
@@ -38,16 +64,21 @@ export function BulkNotifyModal({
     error?: string;
     queuedCount?: number;
     skippedCount?: number;
+    noPhoneCount?: number;
     message?: string;
   }>();
 
   // Form state
   const [skipAlreadyNotified, setSkipAlreadyNotified] = useState(true);
+  const [channels, setChannels] = useState<NotificationChannel[]>(["EMAIL"]);
+  const [scenario, setScenario] = useState(AUTOMATIC_SCENARIO);
 
   // Reset form when modal opens
   useEffect(() => {
     if (open) {
       setSkipAlreadyNotified(true);
+      setChannels(["EMAIL"]);
+      setScenario(AUTOMATIC_SCENARIO);
     }
   }, [open]);
 
@@ -64,6 +95,8 @@ export function BulkNotifyModal({
       JSON.stringify({
         shipmentIds,
         skipAlreadyNotified,
+        channels,
+        scenario: scenario === AUTOMATIC_SCENARIO ? undefined : scenario,
       }),
       {
         method: "POST",
@@ -71,11 +104,13 @@ export function BulkNotifyModal({
         encType: "application/json",
       }
     );
-  }, [shipmentIds, skipAlreadyNotified, fetcher]);
+  }, [shipmentIds, skipAlreadyNotified, channels, scenario, fetcher]);
 
   // Handle close with cleanup
   const handleClose = useCallback(() => {
     setSkipAlreadyNotified(true);
+    setChannels(["EMAIL"]);
+    setScenario(AUTOMATIC_SCENARIO);
     onClose();
   }, [onClose]);
 
@@ -92,6 +127,7 @@ export function BulkNotifyModal({
         content: isSubmitting ? "Queueing..." : `Send ${count} Notification${count === 1 ? "" : "s"}`,
         onAction: handleSubmit,
         loading: isSubmitting,
+        disabled: channels.length === 0,
       }}
       secondaryActions={[
         {
@@ -106,9 +142,9 @@ export function BulkNotifyModal({
           {/* Info about bulk notification */}
           <Banner tone="info">
             <p>
-              Notification emails will be queued for delivery using each shipment's
-              configured template. Emails are sent in the background and may take
-              a few minutes to complete.
+              Notifications will be queued for delivery using the configured
+              templates. They are sent in the background and may take a few
+              minutes to complete.
             </p>
           </Banner>
 
@@ -127,10 +163,34 @@ export function BulkNotifyModal({
                 {fetcher.data.skippedCount && fetcher.data.skippedCount > 0 && (
                   <> {fetcher.data.skippedCount} skipped (already notified).</>
                 )}
+                {fetcher.data.noPhoneCount && fetcher.data.noPhoneCount > 0 && (
+                  <> {fetcher.data.noPhoneCount} not texted (no valid phone number).</>
+                )}
               </p>
             </Banner>
           )}
 
+          {/* Channel picker */}
+          <ChoiceList
+            title="Send by"
+            allowMultiple
+            choices={CHANNEL_CHOICES}
+            selected={channels}
+            onChange={(selected) => setChannels(selected as NotificationChannel[])}
+            error={channels.length === 0 ? "Choose at least one channel" : undefined}
+          />
+
+          {/* Email template */}
+          {channels.includes("EMAIL") && (
+            <Select
+              label="Email template"
+              options={SCENARIO_OPTIONS}
+              value={scenario}
+              onChange={setScenario}
+              helpText="Automatic picks each shipment's template from its delay reason and status"
+            />
+          )}
+
           {/* Option to skip already notified */}
           <Checkbox
             label="Skip shipments that have already been notified"
@@ -141,9 +201,10 @@ export function BulkNotifyModal({
 
           {/* Summary */}
           <Text as="p" variant="bodySm" tone="subdued">
-            This will send delay notification emails to the customers of {count} selected
-            shipment{count === 1 ? "" : "s"}. Each email will use the merchant's configured
-            notification template.
+            This will send delay notifications to the customers of {count} selected
+            shipment{count === 1 ? "" : "s"}. Each email or SMS will use the merchant's
+            configured notification templates; SMS is only sent to customers with a valid
+            phone number.
           </Text>
         </BlockStack>
       </Modal.Section>
@@ -1,8 +1,11 @@
 /**
  * Send Notification Modal Component
  *
- * Modal for sending delay notification emails to customers.
- * Displays pre-filled template that can be edited before sending.
+ * Modal for sending delay notifications to customers by email or SMS.
+ * Displays pre-filled templates that can be edited before sending. The email
+ * template is picked from the shipment's delay reason and status, and can be
+ * swapped for another scenario's; both are translated for the customer's
+ * locale when the merchant has a translation.
  */
 
 import {
@@ -15,17 +18,43 @@ import {
   Box,
   Spinner,
   Card,
+  ChoiceList,
+  Select,
 } from "@shopify/polaris";
 import { useFetcher } from "@remix-run/react";
 import { useState, useEffect, useCallback } from "react";
+import type { NotificationChannel } from "@prisma/client";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  SMS_MAX_LENGTH,
+  countSmsSegments,
+  validateRenderedMessage,
+} from "~/lib/notification-templates";
+import {
+  NOTIFICATION_SCENARIOS,
+  NOTIFICATION_SCENARIO_LABELS,
+  type NotificationScenario,
+} from "~/lib/notification-scenarios";
+import { getLocaleLabel } from "~/lib/notification-locales";
+import { normalizePhoneNumber } from "~/lib/phone";
 
 /**
  * Notification data returned from the prepare endpoint
  */
 interface NotificationData {
+  /** Scenario of the email template */
+  scenario: NotificationScenario;
+  /** Scenario that fits the shipment best */
+  suggestedScenario: NotificationScenario;
+  /** Locale the email was rendered in */
+  locale: string;
   recipientEmail: string;
   subject: string;
   body: string;
+  /** Customer's phone number in E.164, or null if none is on file */
+  recipientPhone: string | null;
+  smsBody: string;
   shipment: {
     id: string;
     orderNumber: string;
@@ -61,14 +90,19 @@ export function SendNotificationModal({
   }>();
 
   // Form state
+  const [channel, setChannel] = useState<NotificationChannel>("EMAIL");
   const [recipientEmail, setRecipientEmail] = useState("");
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
+  const [recipientPhone, setRecipientPhone] = useState("");
+  const [smsBody, setSmsBody] = useState("");
 
   // Validation state
   const [emailError, setEmailError] = useState<string | undefined>();
   const [subjectError, setSubjectError] = useState<string | undefined>();
   const [bodyError, setBodyError] = useState<string | undefined>();
+  const [phoneError, setPhoneError] = useState<string | undefined>();
+  const [smsBodyError, setSmsBodyError] = useState<string | undefined>();
 
   // Load notification data when modal opens
   useEffect(() => {
@@ -84,10 +118,14 @@ export function SendNotificationModal({
       setRecipientEmail(data.notification.recipientEmail);
       setSubject(data.notification.subject);
       setBody(data.notification.body);
+      setRecipientPhone(data.notification.recipientPhone ?? "");
+      setSmsBody(data.notification.smsBody);
       // Clear any previous errors
       setEmailError(undefined);
       setSubjectError(undefined);
       setBodyError(undefined);
+      setPhoneError(undefined);
+      setSmsBodyError(undefined);
     }
   }, [loadFetcher.data]);
 
@@ -130,30 +168,102 @@ export function SendNotificationModal({
   }, []);
 
   // Validate body
-  const validateBody = useCallback((content: string): boolean => {
-    if (!content.trim()) {
-      setBodyError("Body is required");
+  const validateBody = useCallback(
+    (content: string, shipment: NotificationData["shipment"]): boolean => {
+      if (!content.trim()) {
+        setBodyError("Body is required");
+        return false;
+      }
+      if (content.length > 10000) {
+        setBodyError("Body is too long (max 10,000 characters)");
+        return false;
+      }
+      // The rendered message must still identify the shipment
+      if (!validateRenderedMessage(content, shipment).isValid) {
+        setBodyError(
+          `Body must include the order number (${shipment.orderNumber}) and tracking number (${shipment.trackingNumber})`
+        );
+        return false;
+      }
+      setBodyError(undefined);
+      return true;
+    },
+    []
+  );
+
+  // Validate phone number
+  const validatePhone = useCallback((phone: string): boolean => {
+    if (!phone.trim()) {
+      setPhoneError("Phone number is required");
       return false;
     }
-    if (content.length > 10000) {
-      setBodyError("Body is too long (max 10,000 characters)");
+    if (!normalizePhoneNumber(phone)) {
+      setPhoneError("Invalid phone number (include the country code for numbers outside the US)");
       return false;
     }
-    // Check for required template variables
-    if (!content.includes("{tracking_number}") && !content.includes("{order_number}")) {
-      setBodyError("Body must include {tracking_number} or {order_number}");
+    setPhoneError(undefined);
+    return true;
+  }, []);
+
+  // Validate SMS message
+  const validateSmsBody = useCallback((content: string): boolean => {
+    if (!content.trim()) {
+      setSmsBodyError("Message is required");
       return false;
     }
-    setBodyError(undefined);
+    if (content.length > SMS_MAX_LENGTH) {
+      setSmsBodyError(`Message is too long (max ${SMS_MAX_LENGTH} characters)`);
+      return false;
+    }
+    setSmsBodyError(undefined);
     return true;
   }, []);
 
+  // Re-render the email with another scenario's template
+  const handleScenarioChange = useCallback(
+    (scenario: string) => {
+      loadFetcher.load(`/api/shipments/${shipmentId}/notify?scenario=${scenario}`);
+    },
+    [shipmentId, loadFetcher]
+  );
+
+  const notification =
+    loadFetcher.data && "notification" in loadFetcher.data
+      ? loadFetcher.data.notification
+      : null;
+
   // Handle send
   const handleSend = useCallback(() => {
+    if (!notification) {
+      return;
+    }
+
+    if (channel === "SMS") {
+      const isPhoneValid = validatePhone(recipientPhone);
+      const isSmsBodyValid = validateSmsBody(smsBody);
+      if (!isPhoneValid || !isSmsBodyValid) {
+        return;
+      }
+
+      sendFetcher.submit(
+        {
+          channel,
+          recipientPhone,
+          body: smsBody,
+        },
+        {
+          method: "POST",
+          action: `/api/shipments/${shipmentId}/notify`,
+          encType: "application/json",
+        }
+      );
+      return;
+    }
+
     // Validate all fields
     const isEmailValid = validateEmail(recipientEmail);
     const isSubjectValid = validateSubject(subject);
-    const isBodyValid = validateBody(body);
+    const isBodyValid = validateBody(body, notification.shipment);
 
     if (!isEmailValid || !isSubjectValid || !isBodyValid) {
       return;
@@ -162,6 +272,7 @@ export function SendNotificationModal({
     // Send the notification
     sendFetcher.submit(
       {
+        channel,
         recipientEmail,
         subject,
         body,
@@ -174,23 +285,34 @@ export function SendNotificationModal({
     );
   }, [
     shipmentId,
+    notification,
+    channel,
     recipientEmail,
     subject,
     body,
+    recipientPhone,
+    smsBody,
     validateEmail,
     validateSubject,
     validateBody,
+    validatePhone,
+    validateSmsBody,
     sendFetcher,
   ]);
 
   // Handle close with cleanup
   const handleClose = useCallback(() => {
+    setChannel("EMAIL");
     setRecipientEmail("");
     setSubject("");
     setBody("");
+    setRecipientPhone("");
+    setSmsBody("");
     setEmailError(undefined);
     setSubjectError(undefined);
     setBodyError(undefined);
+    setPhoneError(undefined);
+    setSmsBodyError(undefined);
     onClose();
   }, [onClose]);
 
@@ -199,10 +321,22 @@ export function SendNotificationModal({
   const isSending = sendFetcher.state === "submitting";
   const loadError = loadFetcher.data && "error" in loadFetcher.data ? loadFetcher.data.error : null;
   const sendError = sendFetcher.data?.error;
-  const notification =
-    loadFetcher.data && "notification" in loadFetcher.data
-      ? loadFetcher.data.notification
-      : null;
+  const smsSegments = countSmsSegments(smsBody);
+  const channelChoices = NOTIFICATION_CHANNELS.map((value) => ({
+    label: NOTIFICATION_CHANNEL_LABELS[value],
+    value,
+    helpText:
+      value === "SMS" && notification && !notification.recipientPhone
+        ? "No valid phone number on file for this customer"
+        : undefined,
+  }));
+  const scenarioOptions = NOTIFICATION_SCENARIOS.map((value) => ({
+    label:
+      value === notification?.suggestedScenario
+        ? `${NOTIFICATION_SCENARIO_LABELS[value]} (suggested)`
+        : NOTIFICATION_SCENARIO_LABELS[value],
+    value,
+  }));
 
   return (
     <Modal
@@ -287,71 +421,151 @@ export function SendNotificationModal({
                       {notification.shipment.trackingNumber}
                     </Text>
                   </BlockStack>
+                  <BlockStack gap="100">
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      Email language
+                    </Text>
+                    <Text as="span" variant="bodyMd">
+                      {getLocaleLabel(notification.locale)}
+                    </Text>
+                  </BlockStack>
                 </InlineStack>
               </BlockStack>
             </Card>
 
-            {/* Email Form */}
-            <TextField
-              label="Recipient Email"
-              type="email"
-              value={recipientEmail}
-              onChange={setRecipientEmail}
-              error={emailError}
-              autoComplete="email"
-              helpText="The customer's email address"
+            {/* Channel Picker */}
+            <ChoiceList
+              title="Send by"
+              choices={channelChoices}
+              selected={[channel]}
+              onChange={(selected) => setChannel(selected[0] as NotificationChannel)}
             />
 
-            <TextField
-              label="Subject"
-              value={subject}
-              onChange={setSubject}
-              error={subjectError}
-              autoComplete="off"
-              maxLength={200}
-              showCharacterCount
-            />
+            {channel === "EMAIL" ? (
+              <>
+                {/* Email Form */}
+                <Select
+                  label="Template"
+                  options={scenarioOptions}
+                  value={notification.scenario}
+                  onChange={handleScenarioChange}
+                  helpText="Suggested from the shipment's delay reason and status. Switching templates replaces your edits."
+                />
 
-            <TextField
-              label="Message"
-              value={body}
-              onChange={setBody}
-              error={bodyError}
-              multiline={10}
-              autoComplete="off"
-              maxLength={10000}
-              helpText="You can customize this message. Variables like {tracking_number} will be replaced with actual values."
-            />
+                <TextField
+                  label="Recipient Email"
+                  type="email"
+                  value={recipientEmail}
+                  onChange={setRecipientEmail}
+                  error={emailError}
+                  autoComplete="email"
+                  helpText="The customer's email address"
+                />
 
-            {/* Preview */}
-            <Card>
-              <BlockStack gap="200">
-                <Text as="h3" variant="headingSm">
-                  Email Preview
-                </Text>
-                <Box
-                  padding="400"
-                  background="bg-surface-secondary"
-                  borderRadius="200"
-                >
+                <TextField
+                  label="Subject"
+                  value={subject}
+                  onChange={setSubject}
+                  error={subjectError}
+                  autoComplete="off"
+                  maxLength={200}
+                  showCharacterCount
+                />
+
+                <TextField
+                  label="Message"
+                  value={body}
+                  onChange={setBody}
+                  error={bodyError}
+                  multiline={10}
+                  autoComplete="off"
+                  maxLength={10000}
+                  helpText="You can customize this message. Variables like {tracking_number} will be replaced with actual values."
+                />
+
+                {/* Preview */}
+                <Card>
                   <BlockStack gap="200">
-                    <Text as="p" variant="bodySm" tone="subdued">
-                      <strong>To:</strong> {recipientEmail}
+                    <Text as="h3" variant="headingSm">
+                      Email Preview
                     </Text>
-                    <Text as="p" variant="bodySm" tone="subdued">
-                      <strong>Subject:</strong> {subject}
+                    <Box
+                      padding="400"
+                      background="bg-surface-secondary"
+                      borderRadius="200"
+                    >
+                      <BlockStack gap="200">
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          <strong>To:</strong> {recipientEmail}
+                        </Text>
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          <strong>Subject:</strong> {subject}
+                        </Text>
+                        <Box paddingBlockStart="200">
+                          <Text as="p" variant="bodySm">
+                            <pre style={{ whiteSpace: "pre-wrap", fontFamily: "inherit", margin: 0 }}>
+                              {body}
+                            </pre>
+                          </Text>
+                        </Box>
+                      </BlockStack>
+                    </Box>
+                  </BlockStack>
+                </Card>
+              </>
+            ) : (
+              <>
+                {/* SMS Form */}
+                <TextField
+                  label="Recipient Phone"
+                  type="tel"
+                  value={recipientPhone}
+                  onChange={setRecipientPhone}
+                  error={phoneError}
+                  autoComplete="tel"
+                  helpText="The customer's phone number, with country code (e.g. +1 415 555 0123)"
+                />
+
+                <TextField
+                  label="Text Message"
+                  value={smsBody}
+                  onChange={setSmsBody}
+                  error={smsBodyError}
+                  multiline={4}
+                  autoComplete="off"
+                  maxLength={SMS_MAX_LENGTH}
+                  showCharacterCount
+                  helpText={`Sent as ${smsSegments} SMS${smsSegments === 1 ? "" : " segments"}. Messages over 160 characters are sent and billed as several.`}
+                />
+
+                {/* Preview */}
+                <Card>
+                  <BlockStack gap="200">
+                    <Text as="h3" variant="headingSm">
+                      SMS Preview
                     </Text>
-                    <Box paddingBlockStart="200">
-                      <Text as="p" variant="bodySm">
-                        <pre style={{ whiteSpace: "pre-wrap", fontFamily: "inherit", margin: 0 }}>
-                          {body}
-                        </pre>
-                      </Text>
+                    <Box
+                      padding="400"
+                      background="bg-surface-secondary"
+                      borderRadius="200"
+                    >
+                      <BlockStack gap="200">
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          <strong>To:</strong> {recipientPhone}
+                        </Text>
+                        <Box paddingBlockStart="200">
+                          <Text as="p" variant="bodySm">
+                            <pre style={{ whiteSpace: "pre-wrap", fontFamily: "inherit", margin: 0 }}>
+                              {smsBody}
+                            </pre>
+                          </Text>
+                        </Box>
+                      </BlockStack>
                     </Box>
                   </BlockStack>
-                </Box>
-              </BlockStack>
-            </Card>
+                </Card>
+              </>
+            )}
           </BlockStack>
         )}
       </Modal.Section>
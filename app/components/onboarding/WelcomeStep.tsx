@@ -20,6 +20,15 @@ import {
   EmailIcon,
   ChartVerticalIcon,
 } from "@shopify/polaris-icons";
+import { CARRIER_DEFINITIONS } from "~/services/carriers/carrier.registry";
+
+/**
+ * Supported carriers as prose, e.g. "UPS, FedEx, and USPS".
+ */
+const CARRIER_NAMES = CARRIER_DEFINITIONS.map((definition) => definition.shortName);
+const SUPPORTED_CARRIERS_TEXT = `${CARRIER_NAMES.slice(0, -1).join(", ")}, and ${
+  CARRIER_NAMES[CARRIER_NAMES.length - 1]
+}`;
 
 interface WelcomeStepProps {
   onNext: () => void;
@@ -63,8 +72,8 @@ export function WelcomeStep({ onNext }: WelcomeStepProps) {
 
         <Text as="p" variant="bodyMd">
           DelayGuard monitors your shipments for delays and enables you to proactively
-          notify customers before they ask "Where's my order?" We track packages from
-          UPS, FedEx, and USPS automatically.
+          notify customers before they ask "Where's my order?" We track packages from{" "}
+          {SUPPORTED_CARRIERS_TEXT} automatically.
         </Text>
 
         <BlockStack gap="400">
@@ -0,0 +1,223 @@
+/**
+ * Automatic Notification Settings Component
+ *
+ * Opt-in rules for notifying customers automatically once a shipment is
+ * flagged as delayed (see notification-automation.ts).
+ */
+
+import {
+  Card,
+  BlockStack,
+  TextField,
+  Text,
+  Button,
+  InlineStack,
+  Checkbox,
+  ChoiceList,
+  Banner,
+} from "@shopify/polaris";
+import { useCallback } from "react";
+import type { DelayReason, ExceptionCategory, NotificationChannel } from "@prisma/client";
+import { CARRIER_DEFINITIONS, type SupportedCarrier } from "~/services/carriers/carrier.registry";
+import {
+  DELAY_REASONS,
+  DELAY_REASON_LABELS,
+  EXCEPTION_CATEGORIES,
+  EXCEPTION_CATEGORY_LABELS,
+} from "~/lib/exception-taxonomy";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_CHANNEL_LABELS } from "~/lib/notification-templates";
+import {
+  MAX_SEND_DELAY_HOURS,
+  type AutoNotificationSettings as AutoNotificationRules,
+} from "~/lib/notification-automation";
+
+const REASON_CHOICES = DELAY_REASONS.map((reason) => ({
+  label: DELAY_REASON_LABELS[reason],
+  value: reason,
+}));
+
+const EXCEPTION_CATEGORY_CHOICES = EXCEPTION_CATEGORIES.map((category) => ({
+  label: EXCEPTION_CATEGORY_LABELS[category],
+  value: category,
+}));
+
+const CARRIER_CHOICES = CARRIER_DEFINITIONS.map((definition) => ({
+  label: definition.shortName,
+  value: definition.carrier,
+}));
+
+const CHANNEL_CHOICES = NOTIFICATION_CHANNELS.map((channel) => ({
+  label: NOTIFICATION_CHANNEL_LABELS[channel],
+  value: channel,
+}));
+
+interface AutoNotificationSettingsProps {
+  autoNotifications: AutoNotificationRules;
+  onChange: (autoNotifications: AutoNotificationRules) => void;
+  onSave: () => void;
+  isSaving?: boolean;
+  hasChanges?: boolean;
+}
+
+export function AutoNotificationSettings({
+  autoNotifications,
+  onChange,
+  onSave,
+  isSaving = false,
+  hasChanges = false,
+}: AutoNotificationSettingsProps) {
+  const update = useCallback(
+    (changes: Partial<AutoNotificationRules>) => {
+      onChange({ ...autoNotifications, ...changes });
+    },
+    [autoNotifications, onChange]
+  );
+
+  // Whole days, 0-30
+  const handleMinDaysChange = useCallback(
+    (value: string) => {
+      const days = parseInt(value, 10);
+      if (isNaN(days) || days < 0 || days > 30) return;
+      update({ minDaysDelayed: days });
+    },
+    [update]
+  );
+
+  const handleSendDelayChange = useCallback(
+    (value: string) => {
+      const hours = parseFloat(value);
+      if (isNaN(hours) || hours < 0 || hours > MAX_SEND_DELAY_HOURS) return;
+      update({ sendDelayHours: hours });
+    },
+    [update]
+  );
+
+  // An empty threshold notifies orders of any value
+  const handleMinOrderValueChange = useCallback(
+    (value: string) => {
+      if (value.trim() === "") {
+        update({ minOrderValue: null });
+        return;
+      }
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount < 0) return;
+      update({ minOrderValue: amount });
+    },
+    [update]
+  );
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Automatic Notifications
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Notify customers without lifting a finger when their shipment is flagged as delayed.
+            Each shipment is notified automatically at most once, and never after you've
+            notified the customer yourself.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Send delay notifications automatically"
+          checked={autoNotifications.enabled}
+          onChange={(enabled) => update({ enabled })}
+        />
+
+        {autoNotifications.enabled && (
+          <BlockStack gap="400">
+            <InlineStack gap="400">
+              <TextField
+                label="Minimum days delayed"
+                type="number"
+                value={String(autoNotifications.minDaysDelayed)}
+                onChange={handleMinDaysChange}
+                autoComplete="off"
+                min={0}
+                max={30}
+                suffix="days"
+                helpText="0 notifies as soon as the shipment is flagged"
+              />
+              <TextField
+                label="Wait before sending"
+                type="number"
+                value={String(autoNotifications.sendDelayHours)}
+                onChange={handleSendDelayChange}
+                autoComplete="off"
+                min={0}
+                max={MAX_SEND_DELAY_HOURS}
+                suffix="hours"
+                helpText="Not sent if the shipment is delivered or resolved in the meantime"
+              />
+              <TextField
+                label="Minimum order value"
+                type="number"
+                value={autoNotifications.minOrderValue === null ? "" : String(autoNotifications.minOrderValue)}
+                onChange={handleMinOrderValueChange}
+                autoComplete="off"
+                min={0}
+                prefix="$"
+                placeholder="Any"
+              />
+            </InlineStack>
+
+            <InlineStack gap="800" blockAlign="start">
+              <ChoiceList
+                title="Delay reasons"
+                allowMultiple
+                choices={REASON_CHOICES}
+                selected={autoNotifications.reasons}
+                onChange={(reasons) => update({ reasons: reasons as DelayReason[] })}
+              />
+              <ChoiceList
+                title="Carrier exceptions"
+                allowMultiple
+                choices={EXCEPTION_CATEGORY_CHOICES}
+                selected={autoNotifications.exceptionCategories}
+                onChange={(categories) =>
+                  update({ exceptionCategories: categories as ExceptionCategory[] })
+                }
+              />
+              <ChoiceList
+                title="Carriers"
+                allowMultiple
+                choices={CARRIER_CHOICES}
+                selected={autoNotifications.carriers}
+                onChange={(carriers) => update({ carriers: carriers as SupportedCarrier[] })}
+              />
+              <ChoiceList
+                title="Send by"
+                allowMultiple
+                choices={CHANNEL_CHOICES}
+                selected={autoNotifications.channels}
+                onChange={(channels) => update({ channels: channels as NotificationChannel[] })}
+                error={autoNotifications.channels.length === 0 ? "Select at least one channel" : undefined}
+              />
+            </InlineStack>
+
+            <Banner tone="info">
+              <p>
+                Leave delay reasons, carrier exceptions or carriers unselected to notify for any.
+                Carrier exceptions only narrow down carrier exception delays. SMS is only sent to
+                customers with a valid phone number.
+              </p>
+            </Banner>
+          </BlockStack>
+        )}
+
+        <InlineStack align="end">
+          <Button
+            variant="primary"
+            onClick={onSave}
+            loading={isSaving}
+            disabled={!hasChanges || autoNotifications.channels.length === 0}
+          >
+            Save Automation
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * Carrier Accounts Component
+ *
+ * Allows merchants to:
+ * - Use their own carrier API credentials instead of DelayGuard's
+ * - Test a carrier connection before or after saving
+ * - Remove their credentials to go back to DelayGuard's accounts
+ */
+
+import {
+  Card,
+  BlockStack,
+  TextField,
+  Text,
+  Button,
+  InlineStack,
+  Badge,
+  Banner,
+  Divider,
+} from "@shopify/polaris";
+import { useState, useCallback } from "react";
+import type { SupportedCarrier } from "~/services/carriers/carrier.registry";
+import { CARRIER_DEFINITIONS } from "~/services/carriers/carrier.registry";
+import type { CarrierCredentialStatus } from "~/services/carrier-credentials.service";
+
+/**
+ * Carrier credential status for JSON responses (dates as strings)
+ */
+export interface SerializedCarrierCredentialStatus
+  extends Omit<CarrierCredentialStatus, "updatedAt" | "lastTestedAt"> {
+  updatedAt: string | Date | null;
+  lastTestedAt: string | Date | null;
+}
+
+/**
+ * Outcome of the last "Test connection" click
+ */
+export interface CarrierConnectionTest {
+  carrier: SupportedCarrier;
+  ok: boolean;
+  message: string;
+}
+
+interface CarrierAccountsProps {
+  carrierCredentials: SerializedCarrierCredentialStatus[];
+  encryptionConfigured: boolean;
+  onSave: (carrier: SupportedCarrier, credentials: Record<string, string>) => void;
+  onDelete: (carrier: SupportedCarrier) => void;
+  /** Tests the entered credentials, or the saved ones when none are given */
+  onTest: (carrier: SupportedCarrier, credentials?: Record<string, string>) => void;
+  /** Carrier with a request in flight */
+  busyCarrier?: SupportedCarrier | null;
+  lastTest?: CarrierConnectionTest | null;
+  error?: string | null;
+}
+
+export function CarrierAccounts({
+  carrierCredentials,
+  encryptionConfigured,
+  onSave,
+  onDelete,
+  onTest,
+  busyCarrier = null,
+  lastTest = null,
+  error = null,
+}: CarrierAccountsProps) {
+  const [editingCarrier, setEditingCarrier] = useState<SupportedCarrier | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Format date for display (accepts Date or ISO string)
+  const formatDate = (date: Date | string) => {
+    return new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(typeof date === "string" ? new Date(date) : date);
+  };
+
+  const handleEdit = useCallback((carrier: SupportedCarrier) => {
+    setEditingCarrier(carrier);
+    setValues({});
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setEditingCarrier(null);
+    setValues({});
+  }, []);
+
+  const handleSave = useCallback(
+    (carrier: SupportedCarrier) => {
+      onSave(carrier, values);
+      setEditingCarrier(null);
+      setValues({});
+    },
+    [onSave, values]
+  );
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Carrier Accounts
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Track shipments with your own carrier API accounts, for example to use
+            your negotiated rate limits. Carriers without your own credentials use
+            DelayGuard's accounts, and so does tracking while your credentials are
+            rejected.
+          </Text>
+        </BlockStack>
+
+        {!encryptionConfigured && (
+          <Banner tone="warning">
+            <p>
+              Credential storage is not configured on this server, so carrier
+              credentials cannot be saved.
+            </p>
+          </Banner>
+        )}
+
+        {error && (
+          <Banner title="Error" tone="critical">
+            <p>{error}</p>
+          </Banner>
+        )}
+
+        {CARRIER_DEFINITIONS.map((definition, index) => {
+          const status = carrierCredentials.find((entry) => entry.carrier === definition.carrier);
+          const isEditing = editingCarrier === definition.carrier;
+          const isBusy = busyCarrier === definition.carrier;
+          const test = lastTest?.carrier === definition.carrier ? lastTest : null;
+          const allFieldsFilled = definition.credentialFields.every(
+            (field) => (values[field.key] ?? "").trim() !== ""
+          );
+
+          return (
+            <BlockStack gap="300" key={definition.carrier}>
+              {index > 0 && <Divider />}
+
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h3" variant="headingSm">
+                    {definition.displayName}
+                  </Text>
+                  {status?.configured ? (
+                    <Badge tone="success">Your account</Badge>
+                  ) : (
+                    <Badge>DelayGuard account</Badge>
+                  )}
+                  {status?.configured && status.lastTestOk === false && (
+                    <Badge tone="critical">Last test failed</Badge>
+                  )}
+                </InlineStack>
+
+                {!isEditing && (
+                  <InlineStack gap="200">
+                    {status?.configured && (
+                      <>
+                        <Button onClick={() => onTest(definition.carrier)} loading={isBusy}>
+                          Test connection
+                        </Button>
+                        <Button
+                          tone="critical"
+                          variant="plain"
+                          onClick={() => onDelete(definition.carrier)}
+                          disabled={isBusy}
+                        >
+                          Remove
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      onClick={() => handleEdit(definition.carrier)}
+                      disabled={!encryptionConfigured || isBusy}
+                    >
+                      {status?.configured ? "Replace" : "Add credentials"}
+                    </Button>
+                  </InlineStack>
+                )}
+              </InlineStack>
+
+              {status?.configured && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {status.hint ? `Account ${status.hint}. ` : ""}
+                  {status.lastTestedAt
+                    ? `Last tested ${formatDate(status.lastTestedAt)}.`
+                    : "Not tested yet."}
+                </Text>
+              )}
+
+              {test && (
+                <Banner tone={test.ok ? "success" : "critical"}>
+                  <p>{test.message}</p>
+                </Banner>
+              )}
+
+              {isEditing && (
+                <BlockStack gap="200">
+                  {definition.credentialFields.map((field) => (
+                    <TextField
+                      key={field.key}
+                      label={field.label}
+                      type={field.secret ? "password" : "text"}
+                      value={values[field.key] ?? ""}
+                      onChange={(value) => setValues((prev) => ({ ...prev, [field.key]: value }))}
+                      autoComplete="off"
+                    />
+                  ))}
+                  <InlineStack align="end" gap="200">
+                    <Button onClick={handleCancel}>Cancel</Button>
+                    <Button
+                      onClick={() => onTest(definition.carrier, values)}
+                      loading={isBusy}
+                      disabled={!allFieldsFilled}
+                    >
+                      Test connection
+                    </Button>
+                    <Button
+                      variant="primary"
+                      onClick={() => handleSave(definition.carrier)}
+                      disabled={!allFieldsFilled || isBusy}
+                    >
+                      Save
+                    </Button>
+                  </InlineStack>
+                </BlockStack>
+              )}
+            </BlockStack>
+          );
+        })}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
   Badge,
 } from "@shopify/polaris";
 import { useCallback, useMemo } from "react";
+import { CARRIER_DEFINITIONS } from "~/services/carriers/carrier.registry";
 
 /**
  * Available columns with labels and descriptions
@@ -27,12 +28,18 @@ import { useCallback, useMemo } from "react";
 const AVAILABLE_COLUMNS = [
   { key: "orderNumber", label: "Order #", description: "Shopify order number" },
   { key: "trackingNumber", label: "Tracking #", description: "Carrier tracking number" },
-  { key: "carrier", label: "Carrier", description: "UPS, FedEx, USPS" },
+  {
+    key: "carrier",
+    label: "Carrier",
+    description: CARRIER_DEFINITIONS.map((definition) => definition.shortName).join(", "),
+  },
   { key: "serviceLevel", label: "Service Level", description: "Ground, Priority, etc." },
   { key: "customerName", label: "Customer Name", description: "Recipient name" },
   { key: "shipDate", label: "Ship Date", description: "When shipment was created" },
   { key: "expectedDeliveryDate", label: "Expected Delivery", description: "Estimated delivery date" },
   { key: "daysDelayed", label: "Days Delayed", description: "Days past expected delivery" },
+  { key: "riskScore", label: "Delay Risk", description: "Risk of missing the expected delivery date" },
+  { key: "delaySeverity", label: "Severity", description: "Delay severity and exception category" },
   { key: "orderValue", label: "Order Value", description: "Total order amount" },
   { key: "currentStatus", label: "Status", description: "Current shipment status" },
   { key: "lastScanLocation", label: "Last Location", description: "Last scan location" },
@@ -51,6 +58,8 @@ const SORTABLE_COLUMNS = [
   { value: "shipDate", label: "Ship Date" },
   { value: "expectedDeliveryDate", label: "Expected Delivery" },
   { value: "daysDelayed", label: "Days Delayed" },
+  { value: "riskScore", label: "Delay Risk" },
+  { value: "delaySeverity", label: "Severity" },
   { value: "orderValue", label: "Order Value" },
   { value: "currentStatus", label: "Status" },
   { value: "createdAt", label: "Created Date" },
@@ -0,0 +1,582 @@
+/**
+ * Delay Rules Component
+ *
+ * Editor for the merchant's delay rules (see delay-rules.ts), with a tester
+ * that runs the rules against a sample shipment before they're saved.
+ */
+
+import {
+  BlockStack,
+  TextField,
+  Text,
+  Box,
+  Button,
+  InlineStack,
+  Select,
+  Checkbox,
+  ChoiceList,
+  Tag,
+  Icon,
+  Banner,
+  Badge,
+} from "@shopify/polaris";
+import { DeleteIcon, ArrowUpIcon, ArrowDownIcon } from "@shopify/polaris-icons";
+import { useState, useCallback, useMemo } from "react";
+import type { DelaySeverity, ExceptionCategory } from "@prisma/client";
+import {
+  DEFAULT_DELIVERY_WINDOWS,
+  getServiceLevelLabel,
+} from "~/services/delay-detection.service";
+import { CARRIER_DEFINITIONS } from "~/services/carriers/carrier.registry";
+import { TRACKING_STATUSES, TRACKING_STATUS_LABELS } from "~/lib/tracking-status";
+import { EXCEPTION_CATEGORIES, EXCEPTION_CATEGORY_LABELS } from "~/lib/exception-taxonomy";
+import {
+  DELAY_RULE_FIELDS,
+  DELAY_RULE_OPERATORS,
+  DELAY_SEVERITIES,
+  DelayRuleSchema,
+  FIELD_TYPE_OPERATORS,
+  MAX_DELAY_RULES,
+  applyDelayRules,
+  describeAction,
+  describeCondition,
+  formatDelaySeverity,
+  isValidCondition,
+  type DelayRule,
+  type DelayRuleAction,
+  type DelayRuleCondition,
+  type DelayRuleContext,
+  type DelayRuleField,
+  type DelayRuleOperator,
+} from "~/lib/delay-rules";
+
+interface DelayRulesProps {
+  delayRules: DelayRule[];
+  onChange: (delayRules: DelayRule[]) => void;
+}
+
+type ActionType = DelayRuleAction["type"];
+
+/**
+ * Choices for fields with a fixed set of values
+ */
+const FIELD_OPTIONS: Partial<Record<DelayRuleField, Array<{ label: string; value: string }>>> = {
+  carrier: [
+    ...CARRIER_DEFINITIONS.map((definition) => ({ label: definition.shortName, value: definition.carrier })),
+    { label: "Unknown", value: "UNKNOWN" },
+  ],
+  serviceLevel: Object.keys(DEFAULT_DELIVERY_WINDOWS).map((key) => ({
+    label: getServiceLevelLabel(key),
+    value: key,
+  })),
+  trackingStatus: TRACKING_STATUSES.map((status) => ({
+    label: TRACKING_STATUS_LABELS[status],
+    value: status,
+  })),
+  exceptionCategory: EXCEPTION_CATEGORIES.map((category) => ({
+    label: EXCEPTION_CATEGORY_LABELS[category],
+    value: category,
+  })),
+};
+
+const FIELD_SELECT_OPTIONS = Object.entries(DELAY_RULE_FIELDS).map(([value, field]) => ({
+  label: field.label,
+  value,
+}));
+
+const ACTION_OPTIONS: Array<{ label: string; value: ActionType }> = [
+  { label: "Flag after a number of hours", value: "set_grace_hours" },
+  { label: "Set the delay's severity", value: "set_severity" },
+  { label: "Ignore carrier exceptions", value: "ignore_exception" },
+  { label: "Never flag as delayed", value: "ignore" },
+];
+
+const SEVERITY_OPTIONS = DELAY_SEVERITIES.map((severity) => ({
+  label: formatDelaySeverity(severity),
+  value: severity,
+}));
+
+const DEFAULT_TEST_CONTEXT: DelayRuleContext = {
+  orderValue: 100,
+  isTestData: false,
+  carrier: "USPS",
+  serviceLevel: "usps_priority_mail",
+  trackingStatus: "IN_TRANSIT",
+  carrierStatus: null,
+  exceptionCode: null,
+  exceptionCategory: null,
+};
+
+/**
+ * The operators a field can use, as select options
+ */
+function getOperatorOptions(field: DelayRuleField) {
+  return FIELD_TYPE_OPERATORS[DELAY_RULE_FIELDS[field].type].map((operator) => ({
+    label: DELAY_RULE_OPERATORS[operator],
+    value: operator,
+  }));
+}
+
+/**
+ * Build a condition from the form's inputs, or null if they aren't valid
+ */
+function buildCondition(
+  field: DelayRuleField,
+  operator: DelayRuleOperator,
+  textValue: string,
+  listValue: string[]
+): DelayRuleCondition | null {
+  const { type } = DELAY_RULE_FIELDS[field];
+  let value: DelayRuleCondition["value"];
+  if (type === "boolean") {
+    value = textValue === "true";
+  } else if (type === "number") {
+    value = parseFloat(textValue);
+    if (isNaN(value)) return null;
+  } else if (operator === "in") {
+    value = FIELD_OPTIONS[field]
+      ? listValue
+      : textValue.split(",").map((option) => option.trim()).filter(Boolean);
+    if (value.length === 0) return null;
+  } else {
+    value = textValue.trim();
+    if (!value) return null;
+  }
+
+  const condition = { field, operator, value };
+  return isValidCondition(condition) ? condition : null;
+}
+
+/**
+ * Create an ID for a new rule
+ */
+function createRuleId(): string {
+  return `rule-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function DelayRules({ delayRules, onChange }: DelayRulesProps) {
+  const [newName, setNewName] = useState("");
+  const [newConditions, setNewConditions] = useState<DelayRuleCondition[]>([]);
+  const [newActions, setNewActions] = useState<DelayRuleAction[]>([]);
+  const [conditionField, setConditionField] = useState<DelayRuleField>("orderValue");
+  const [conditionOperator, setConditionOperator] = useState<DelayRuleOperator>("greater_than");
+  const [conditionValue, setConditionValue] = useState("");
+  const [conditionValues, setConditionValues] = useState<string[]>([]);
+  const [actionType, setActionType] = useState<ActionType>("set_grace_hours");
+  const [actionHours, setActionHours] = useState("24");
+  const [actionSeverity, setActionSeverity] = useState<DelaySeverity>("MEDIUM");
+  const [ruleError, setRuleError] = useState<string | undefined>();
+  const [testContext, setTestContext] = useState<DelayRuleContext>(DEFAULT_TEST_CONTEXT);
+
+  const fieldOptions = FIELD_OPTIONS[conditionField];
+  const fieldType = DELAY_RULE_FIELDS[conditionField].type;
+
+  // Reset the operator and value when the field changes
+  const handleConditionFieldChange = useCallback((value: string) => {
+    const field = value as DelayRuleField;
+    const type = DELAY_RULE_FIELDS[field].type;
+    setConditionField(field);
+    setConditionOperator(FIELD_TYPE_OPERATORS[type][0]);
+    setConditionValue(type === "boolean" ? "true" : (FIELD_OPTIONS[field]?.[0]?.value ?? ""));
+    setConditionValues([]);
+  }, []);
+
+  const handleAddCondition = useCallback(() => {
+    const condition = buildCondition(conditionField, conditionOperator, conditionValue, conditionValues);
+    if (!condition) {
+      setRuleError("Enter a value for the condition");
+      return;
+    }
+    setRuleError(undefined);
+    setNewConditions((prev) => [...prev, condition]);
+    if (!fieldOptions && fieldType !== "boolean") {
+      setConditionValue("");
+    }
+    setConditionValues([]);
+  }, [conditionField, conditionOperator, conditionValue, conditionValues, fieldOptions, fieldType]);
+
+  const handleAddAction = useCallback(() => {
+    let action: DelayRuleAction;
+    if (actionType === "set_grace_hours") {
+      const hours = parseInt(actionHours, 10);
+      if (isNaN(hours) || hours < 0 || hours > 720) {
+        setRuleError("Hours must be between 0 and 720");
+        return;
+      }
+      action = { type: "set_grace_hours", hours };
+    } else if (actionType === "set_severity") {
+      action = { type: "set_severity", severity: actionSeverity };
+    } else {
+      action = { type: actionType };
+    }
+    setRuleError(undefined);
+    // One action of each type
+    setNewActions((prev) => [...prev.filter((existing) => existing.type !== action.type), action]);
+  }, [actionType, actionHours, actionSeverity]);
+
+  const handleSaveRule = useCallback(() => {
+    const parsed = DelayRuleSchema.safeParse({
+      id: createRuleId(),
+      name: newName,
+      enabled: true,
+      conditions: newConditions,
+      actions: newActions,
+    });
+    if (!parsed.success) {
+      setRuleError("A rule needs a name, at least one condition and at least one action");
+      return;
+    }
+    setRuleError(undefined);
+    onChange([...delayRules, parsed.data]);
+    setNewName("");
+    setNewConditions([]);
+    setNewActions([]);
+  }, [newName, newConditions, newActions, delayRules, onChange]);
+
+  const handleToggleRule = useCallback(
+    (index: number, enabled: boolean) => {
+      onChange(delayRules.map((rule, i) => (i === index ? { ...rule, enabled } : rule)));
+    },
+    [delayRules, onChange]
+  );
+
+  const handleMoveRule = useCallback(
+    (index: number, offset: -1 | 1) => {
+      const target = index + offset;
+      if (target < 0 || target >= delayRules.length) return;
+      const reordered = [...delayRules];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      onChange(reordered);
+    },
+    [delayRules, onChange]
+  );
+
+  const handleRemoveRule = useCallback(
+    (index: number) => {
+      onChange(delayRules.filter((_, i) => i !== index));
+    },
+    [delayRules, onChange]
+  );
+
+  const updateTestContext = useCallback((changes: Partial<DelayRuleContext>) => {
+    setTestContext((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  // Run the rules against the sample shipment
+  const testOutcome = useMemo(() => applyDelayRules(delayRules, testContext), [delayRules, testContext]);
+
+  return (
+    <BlockStack gap="300">
+      <Text as="h3" variant="headingSm">
+        Delay Rules
+      </Text>
+      <Text as="p" variant="bodySm" tone="subdued">
+        Change how shipments are flagged, such as flagging high-value orders sooner or never flagging test data.
+        Rules are checked in order; when several change the hours or severity, the first one wins.
+      </Text>
+
+      {delayRules.length > 0 ? (
+        <BlockStack gap="200">
+          {delayRules.map((rule, index) => (
+            <Box
+              key={rule.id}
+              padding="300"
+              background="bg-surface-secondary"
+              borderRadius="200"
+            >
+              <InlineStack align="space-between" blockAlign="start" wrap={false}>
+                <BlockStack gap="100">
+                  <Checkbox
+                    label={rule.name}
+                    checked={rule.enabled}
+                    onChange={(checked) => handleToggleRule(index, checked)}
+                  />
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {`If ${rule.conditions.map(describeCondition).join(" and ")}: ${rule.actions
+                      .map(describeAction)
+                      .join(", ")}`}
+                  </Text>
+                </BlockStack>
+                <InlineStack gap="100" wrap={false}>
+                  <Button
+                    variant="plain"
+                    icon={<Icon source={ArrowUpIcon} />}
+                    onClick={() => handleMoveRule(index, -1)}
+                    disabled={index === 0}
+                    accessibilityLabel={`Move ${rule.name} up`}
+                  />
+                  <Button
+                    variant="plain"
+                    icon={<Icon source={ArrowDownIcon} />}
+                    onClick={() => handleMoveRule(index, 1)}
+                    disabled={index === delayRules.length - 1}
+                    accessibilityLabel={`Move ${rule.name} down`}
+                  />
+                  <Button
+                    variant="plain"
+                    tone="critical"
+                    icon={<Icon source={DeleteIcon} />}
+                    onClick={() => handleRemoveRule(index)}
+                    accessibilityLabel={`Remove ${rule.name}`}
+                  />
+                </InlineStack>
+              </InlineStack>
+            </Box>
+          ))}
+        </BlockStack>
+      ) : (
+        <Box
+          padding="400"
+          background="bg-surface-secondary"
+          borderRadius="200"
+        >
+          <Text as="p" variant="bodySm" tone="subdued" alignment="center">
+            No delay rules. Every shipment uses the delay threshold above.
+          </Text>
+        </Box>
+      )}
+
+      {/* New Rule */}
+      <Box padding="300" borderWidth="025" borderColor="border" borderRadius="200">
+        <BlockStack gap="300">
+          <TextField
+            label="Rule name"
+            value={newName}
+            onChange={setNewName}
+            placeholder="High-value orders"
+            autoComplete="off"
+            maxLength={100}
+          />
+
+          <InlineStack gap="200" blockAlign="end">
+            <Select
+              label="When"
+              options={FIELD_SELECT_OPTIONS}
+              value={conditionField}
+              onChange={handleConditionFieldChange}
+            />
+            <Select
+              label="Comparison"
+              labelHidden
+              options={getOperatorOptions(conditionField)}
+              value={conditionOperator}
+              onChange={(value) => setConditionOperator(value as DelayRuleOperator)}
+            />
+            {fieldType === "boolean" ? (
+              <Select
+                label="Value"
+                labelHidden
+                options={[
+                  { label: "Yes", value: "true" },
+                  { label: "No", value: "false" },
+                ]}
+                value={conditionValue || "true"}
+                onChange={setConditionValue}
+              />
+            ) : fieldOptions && conditionOperator !== "in" ? (
+              <Select
+                label="Value"
+                labelHidden
+                options={fieldOptions}
+                value={conditionValue || fieldOptions[0].value}
+                onChange={setConditionValue}
+              />
+            ) : fieldOptions ? null : (
+              <TextField
+                label="Value"
+                labelHidden
+                type={fieldType === "number" ? "number" : "text"}
+                value={conditionValue}
+                onChange={setConditionValue}
+                placeholder={conditionOperator === "in" ? "Separate values with commas" : undefined}
+                autoComplete="off"
+              />
+            )}
+            <Button onClick={handleAddCondition}>Add condition</Button>
+          </InlineStack>
+          {fieldOptions && conditionOperator === "in" && (
+            <ChoiceList
+              title="Values"
+              titleHidden
+              allowMultiple
+              choices={fieldOptions}
+              selected={conditionValues}
+              onChange={setConditionValues}
+            />
+          )}
+          {newConditions.length > 0 && (
+            <InlineStack gap="200">
+              {newConditions.map((condition, index) => (
+                <Tag
+                  key={`${condition.field}-${index}`}
+                  onRemove={() => setNewConditions((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  {describeCondition(condition)}
+                </Tag>
+              ))}
+            </InlineStack>
+          )}
+
+          <InlineStack gap="200" blockAlign="end">
+            <Select
+              label="Then"
+              options={ACTION_OPTIONS}
+              value={actionType}
+              onChange={(value) => setActionType(value as ActionType)}
+            />
+            {actionType === "set_grace_hours" && (
+              <TextField
+                label="Hours after expected delivery"
+                type="number"
+                value={actionHours}
+                onChange={setActionHours}
+                autoComplete="off"
+                min={0}
+                max={720}
+              />
+            )}
+            {actionType === "set_severity" && (
+              <Select
+                label="Severity"
+                options={SEVERITY_OPTIONS}
+                value={actionSeverity}
+                onChange={(value) => setActionSeverity(value as DelaySeverity)}
+              />
+            )}
+            <Button onClick={handleAddAction}>Add action</Button>
+          </InlineStack>
+          {newActions.length > 0 && (
+            <InlineStack gap="200">
+              {newActions.map((action) => (
+                <Tag
+                  key={action.type}
+                  onRemove={() => setNewActions((prev) => prev.filter((existing) => existing.type !== action.type))}
+                >
+                  {describeAction(action)}
+                </Tag>
+              ))}
+            </InlineStack>
+          )}
+
+          {ruleError && (
+            <Text as="p" variant="bodySm" tone="critical">
+              {ruleError}
+            </Text>
+          )}
+
+          <InlineStack align="end">
+            <Button
+              onClick={handleSaveRule}
+              disabled={
+                !newName.trim() ||
+                newConditions.length === 0 ||
+                newActions.length === 0 ||
+                delayRules.length >= MAX_DELAY_RULES
+              }
+            >
+              Add rule
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      </Box>
+
+      {/* Rule Tester */}
+      {delayRules.length > 0 && (
+        <BlockStack gap="200">
+          <Text as="h4" variant="headingXs">
+            Test your rules
+          </Text>
+          <InlineStack gap="200" blockAlign="end">
+            <TextField
+              label="Order value"
+              type="number"
+              value={testContext.orderValue === null ? "" : String(testContext.orderValue)}
+              onChange={(value) => {
+                const orderValue = parseFloat(value);
+                updateTestContext({ orderValue: isNaN(orderValue) ? null : orderValue });
+              }}
+              autoComplete="off"
+            />
+            <Select
+              label="Carrier"
+              options={FIELD_OPTIONS.carrier ?? []}
+              value={testContext.carrier}
+              onChange={(carrier) => updateTestContext({ carrier })}
+            />
+            <Select
+              label="Service level"
+              options={[{ label: "None", value: "" }, ...(FIELD_OPTIONS.serviceLevel ?? [])]}
+              value={testContext.serviceLevel ?? ""}
+              onChange={(serviceLevel) => updateTestContext({ serviceLevel: serviceLevel || null })}
+            />
+            <Select
+              label="Tracking status"
+              options={FIELD_OPTIONS.trackingStatus ?? []}
+              value={testContext.trackingStatus}
+              onChange={(trackingStatus) => updateTestContext({ trackingStatus })}
+            />
+          </InlineStack>
+          <InlineStack gap="200" blockAlign="end">
+            <TextField
+              label="Carrier status"
+              value={testContext.carrierStatus ?? ""}
+              onChange={(carrierStatus) => updateTestContext({ carrierStatus: carrierStatus || null })}
+              placeholder="Notice Left (No Authorized Recipient Available)"
+              autoComplete="off"
+            />
+            <TextField
+              label="Exception code"
+              value={testContext.exceptionCode ?? ""}
+              onChange={(exceptionCode) => updateTestContext({ exceptionCode: exceptionCode || null })}
+              autoComplete="off"
+            />
+            <Select
+              label="Exception category"
+              options={[{ label: "None", value: "" }, ...(FIELD_OPTIONS.exceptionCategory ?? [])]}
+              value={testContext.exceptionCategory ?? ""}
+              onChange={(exceptionCategory) =>
+                updateTestContext({ exceptionCategory: (exceptionCategory || null) as ExceptionCategory | null })
+              }
+            />
+            <Checkbox
+              label="Test data"
+              checked={testContext.isTestData}
+              onChange={(isTestData) => updateTestContext({ isTestData })}
+            />
+          </InlineStack>
+
+          <Banner tone={testOutcome.matchedRules.length > 0 ? "info" : undefined}>
+            {testOutcome.matchedRules.length > 0 ? (
+              <BlockStack gap="100">
+                <InlineStack gap="100">
+                  {testOutcome.matchedRules.map((rule) => (
+                    <Badge key={rule.ruleId}>{rule.ruleName}</Badge>
+                  ))}
+                </InlineStack>
+                <Text as="p" variant="bodySm">
+                  {testOutcome.ignore
+                    ? "This shipment would never be flagged as delayed."
+                    : [
+                        testOutcome.graceHours !== null
+                          ? `Flagged ${testOutcome.graceHours} ${testOutcome.graceHours === 1 ? "hour" : "hours"} after expected delivery.`
+                          : "Flagged after your delay threshold.",
+                        testOutcome.ignoreException ? "Carrier exceptions alone won't flag it." : null,
+                        testOutcome.severity
+                          ? `Delays are ${testOutcome.severity.toLowerCase()} severity.`
+                          : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" ")}
+                </Text>
+              </BlockStack>
+            ) : (
+              <Text as="p" variant="bodySm">
+                No rules match this shipment.
+              </Text>
+            )}
+          </Banner>
+        </BlockStack>
+      )}
+    </BlockStack>
+  );
+}
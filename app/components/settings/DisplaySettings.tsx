@@ -157,7 +157,7 @@ export function DisplaySettings({
             options={TIMEZONE_OPTIONS}
             value={timezone}
             onChange={handleTimezoneChange}
-            helpText="All dates and times will be displayed in this timezone"
+            helpText="Dates and times are shown in this timezone. It also sets when today's deliveries are counted from and, when a destination's timezone is unknown, when a delivery day ends."
           />
           <Text as="p" variant="bodySm" tone="subdued">
             Current time in selected timezone: <strong>{currentTimePreview}</strong>
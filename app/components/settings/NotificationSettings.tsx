@@ -1,8 +1,12 @@
 /**
  * Notification Settings Component
  *
- * Allows merchants to customize their notification email template.
- * Provides subject and body fields with variable reference and live preview.
+ * Allows merchants to customize their library of notification email
+ * templates, one per scenario (generic delay, weather, lost package, ...),
+ * and the shorter SMS variant, and to translate them for customers who order
+ * in other languages. Provides subject and body fields with variable and
+ * syntax reference, per-template validation (syntax errors point to their
+ * line and column) and live preview.
  */
 
 import {
@@ -16,141 +20,333 @@ import {
   InlineStack,
   Collapsible,
   Icon,
+  Select,
 } from "@shopify/polaris";
 import { InfoIcon } from "@shopify/polaris-icons";
 import { useState, useCallback, useMemo } from "react";
 import {
   TEMPLATE_VARIABLES,
+  LINE_ITEM_VARIABLES,
   REQUIRED_TEMPLATE_VARIABLES,
-  validateTemplate,
+  EMAIL_SUBJECT_MAX_LENGTH,
+  EMAIL_BODY_MAX_LENGTH,
+  validateNotificationTemplate,
   renderTemplate,
-  type TemplateContext,
+  buildTemplateContext,
+  countSmsSegments,
+  describeTemplateErrors,
+  validateTemplateSyntax,
 } from "~/lib/notification-templates";
+import { TEMPLATE_HELPERS } from "~/lib/template-engine";
+import {
+  NOTIFICATION_SCENARIOS,
+  NOTIFICATION_SCENARIO_LABELS,
+  NOTIFICATION_SCENARIO_DESCRIPTIONS,
+  type NotificationScenario,
+  type NotificationTemplate,
+  type ScenarioTemplates,
+} from "~/lib/notification-scenarios";
+import {
+  TRANSLATION_LOCALES,
+  findTranslation,
+  getLocaleFallbackChain,
+  getLocaleLabel,
+  type TemplateTranslations,
+} from "~/lib/notification-locales";
+import { SMS_TEMPLATE_MAX_LENGTH } from "~/lib/validation";
 
 /**
- * Sample data for template preview
+ * Sample shipment for template preview
  */
-const SAMPLE_CONTEXT: TemplateContext = {
-  customerFirstName: "John",
-  customerFullName: "John Smith",
+const SAMPLE_SHIPMENT = {
+  customerName: "John Smith",
   orderNumber: "#1001",
   trackingNumber: "1Z999AA10123456784",
-  carrierName: "UPS",
-  carrierStatus: "In Transit - Delayed",
-  trackingUrl: "https://www.ups.com/track?tracknum=1Z999AA10123456784",
-  expectedDeliveryDate: "Friday, February 7, 2026",
-  shopName: "Your Store",
+  carrier: "UPS",
+  currentStatus: "in_transit",
+  lastCarrierStatus: "In Transit - Delayed",
+  expectedDeliveryDate: new Date("2026-02-07T12:00:00Z"),
+  exceptionCategory: "WEATHER" as const,
+  lineItems: [
+    { title: "Classic T-Shirt", variantTitle: "Large", quantity: 2 },
+    { title: "Coffee Mug", variantTitle: null, quantity: 1 },
+  ],
+  shippingAddress: { city: "Portland" },
+  daysDelayed: 2,
+  lastScanLocation: "Louisville, KY",
+  orderStatusUrl: "https://your-store.myshopify.com/orders/example",
 };
+const SAMPLE_SHOP_DOMAIN = "your-store.myshopify.com";
+
+const EMPTY_TEMPLATE: NotificationTemplate = { subject: "", body: "" };
+
+/**
+ * Template language examples for the syntax reference
+ */
+const SYNTAX_EXAMPLES = [
+  {
+    example: "{#if expected_delivery_date}Arriving {expected_delivery_date}{#else}We'll share a new date soon{/if}",
+    description: "Text shown only when a variable is set, with optional {#else} text",
+  },
+  {
+    example: "{#if days_delayed > 3}...{/if}",
+    description: 'Compare with a number (== != > >= < <=) or "text" (== !=). {#unless} is the opposite of {#if}',
+  },
+  {
+    example: "{#each line_items}{quantity} x {title}{/each}",
+    description: `Repeat for each item, with ${LINE_ITEM_VARIABLES.join(", ")}`,
+  },
+  {
+    example: '{expected_delivery_date | date: "short"}',
+    description: "Pass a variable through a helper (below); helpers can be chained with |",
+  },
+];
+
+type LibraryValidation = Partial<
+  Record<NotificationScenario, ReturnType<typeof validateNotificationTemplate>>
+>;
 
 interface NotificationSettingsProps {
-  subject: string;
-  body: string;
-  onChange: (subject: string, body: string) => void;
+  templates: ScenarioTemplates;
+  onChange: (templates: ScenarioTemplates) => void;
+  smsBody: string;
+  onSmsBodyChange: (smsBody: string) => void;
+  /** Locale the templates are written in */
+  templateLocale: string;
+  onTemplateLocaleChange: (templateLocale: string) => void;
+  translations: TemplateTranslations;
+  onTranslationsChange: (translations: TemplateTranslations) => void;
+  discountCode: string;
+  onDiscountCodeChange: (discountCode: string) => void;
   onSave: () => void;
   isSaving?: boolean;
   hasChanges?: boolean;
 }
 
 export function NotificationSettings({
-  subject,
-  body,
+  templates,
   onChange,
+  smsBody,
+  onSmsBodyChange,
+  templateLocale,
+  onTemplateLocaleChange,
+  translations,
+  onTranslationsChange,
+  discountCode,
+  onDiscountCodeChange,
   onSave,
   isSaving = false,
   hasChanges = false,
 }: NotificationSettingsProps) {
   const [showVariables, setShowVariables] = useState(false);
-  const [subjectError, setSubjectError] = useState<string | undefined>();
-  const [bodyError, setBodyError] = useState<string | undefined>();
+  const [scenario, setScenario] = useState<NotificationScenario>("DELAY");
+  // Translation being edited; null edits the templates themselves
+  const [language, setLanguage] = useState<string | null>(null);
 
-  // Validate on change
-  const handleSubjectChange = useCallback(
-    (value: string) => {
-      // Subject validation - check for required variables
-      if (!value.trim()) {
-        setSubjectError("Subject is required");
-      } else if (value.length > 200) {
-        setSubjectError("Subject is too long (max 200 characters)");
-      } else if (!value.includes("{order_number}")) {
-        // Subject should at least have order number for context
-        setSubjectError(undefined); // Warning, not error for subject
+  const translation = language ? translations[language] : undefined;
+
+  // What a customer in the edited language gets when a template isn't
+  // translated: the language's own translation ("fr" for "fr-CA"), or the
+  // untranslated template
+  const getFallbackTemplate = useCallback(
+    (value: NotificationScenario): NotificationTemplate => {
+      const parentLocale = language ? getLocaleFallbackChain(language)[1] : undefined;
+      return (
+        findTranslation(
+          { templateTranslations: translations },
+          parentLocale,
+          (candidate) => candidate.templates[value]
+        )?.value ?? templates[value]
+      );
+    },
+    [language, translations, templates]
+  );
+  const fallbackSmsBody = useMemo(() => {
+    const parentLocale = language ? getLocaleFallbackChain(language)[1] : undefined;
+    return (
+      findTranslation({ templateTranslations: translations }, parentLocale, (candidate) => candidate.smsBody)
+        ?.value ?? smsBody
+    );
+  }, [language, translations, smsBody]);
+
+  // The fields being edited are empty for untranslated templates
+  const edited = translation ? (translation.templates[scenario] ?? EMPTY_TEMPLATE) : templates[scenario];
+  const editedSmsBody = translation ? (translation.smsBody ?? "") : smsBody;
+  const { subject, body } = edited;
+
+  const setTemplate = useCallback(
+    (template: NotificationTemplate) => {
+      if (!language || !translation) {
+        onChange({ ...templates, [scenario]: template });
+        return;
+      }
+
+      // Clearing both fields removes the template from the translation
+      const translated = { ...translation.templates };
+      if (template.subject || template.body) {
+        translated[scenario] = template;
       } else {
-        setSubjectError(undefined);
+        delete translated[scenario];
       }
-      onChange(value, body);
+      onTranslationsChange({ ...translations, [language]: { ...translation, templates: translated } });
     },
-    [body, onChange]
+    [language, translation, translations, templates, scenario, onChange, onTranslationsChange]
+  );
+
+  const handleSubjectChange = useCallback(
+    (value: string) => setTemplate({ subject: value, body }),
+    [setTemplate, body]
   );
 
   const handleBodyChange = useCallback(
+    (value: string) => setTemplate({ subject, body: value }),
+    [setTemplate, subject]
+  );
+
+  const handleSmsBodyChange = useCallback(
     (value: string) => {
-      // Body validation - must contain required variables
-      const bodyValidation = validateTemplate(value);
-      if (!value.trim()) {
-        setBodyError("Body is required");
-      } else if (value.length > 10000) {
-        setBodyError("Body is too long (max 10,000 characters)");
-      } else if (!bodyValidation.isValid) {
-        setBodyError(
-          `Body must include: ${bodyValidation.missingVariables.join(", ")}`
-        );
-      } else {
-        setBodyError(undefined);
+      if (language && translation) {
+        onTranslationsChange({
+          ...translations,
+          [language]: { ...translation, smsBody: value || null },
+        });
+        return;
       }
-      onChange(subject, value);
+      onSmsBodyChange(value);
+    },
+    [language, translation, translations, onTranslationsChange, onSmsBodyChange]
+  );
+
+  const handleAddLanguage = useCallback(
+    (locale: string) => {
+      if (!locale) return;
+      onTranslationsChange({ ...translations, [locale]: { templates: {}, smsBody: null } });
+      setLanguage(locale);
     },
-    [subject, onChange]
+    [translations, onTranslationsChange]
   );
 
-  // Compute combined validation status
-  const validationResult = useMemo(() => {
-    const subjectValid = subject.trim().length > 0 && subject.length <= 200;
-    const bodyValidation = validateTemplate(body);
-    const bodyValid = body.trim().length > 0 && body.length <= 10000 && bodyValidation.isValid;
+  const handleRemoveLanguage = useCallback(() => {
+    if (!language) return;
+    const { [language]: _removed, ...rest } = translations;
+    onTranslationsChange(rest);
+    setLanguage(null);
+  }, [language, translations, onTranslationsChange]);
+
+  // Validate every template and translation: all of them must be valid to save.
+  // Untranslated templates (empty fields) are skipped.
+  const validationByLanguage = useMemo((): Record<string, LibraryValidation> => {
+    const validateLibrary = (library: Partial<ScenarioTemplates>) =>
+      Object.fromEntries(
+        NOTIFICATION_SCENARIOS.flatMap((value) => {
+          const template = library[value];
+          return template ? [[value, validateNotificationTemplate(template)]] : [];
+        })
+      ) as LibraryValidation;
+
     return {
-      isValid: subjectValid && bodyValid,
-      subjectValid,
-      bodyValid,
-      missingVariables: bodyValidation.missingVariables,
+      default: validateLibrary(templates),
+      ...Object.fromEntries(
+        Object.entries(translations).map(([locale, value]) => [locale, validateLibrary(value.templates)])
+      ),
     };
-  }, [subject, body]);
-
-  // Render preview with sample data
-  const previewSubject = useMemo(() => {
-    try {
-      return renderTemplate(subject, SAMPLE_CONTEXT);
-    } catch {
-      return subject;
-    }
-  }, [subject]);
+  }, [templates, translations]);
+
+  const getInvalidScenarios = (key: string) =>
+    NOTIFICATION_SCENARIOS.filter((value) => validationByLanguage[key]?.[value]?.isValid === false);
+  const isSmsBodyValid = (value: string, required: boolean) =>
+    (!required || value.trim().length > 0) &&
+    value.length <= SMS_TEMPLATE_MAX_LENGTH &&
+    validateTemplateSyntax(value).length === 0;
+
+  const languageKeys = ["default", ...Object.keys(translations)];
+  const invalidTemplates = languageKeys.flatMap((key) =>
+    getInvalidScenarios(key).map((value) =>
+      key === "default"
+        ? NOTIFICATION_SCENARIO_LABELS[value]
+        : `${NOTIFICATION_SCENARIO_LABELS[value]} (${getLocaleLabel(key)})`
+    )
+  );
+  const isValid =
+    invalidTemplates.length === 0 &&
+    isSmsBodyValid(smsBody, true) &&
+    Object.values(translations).every((value) => isSmsBodyValid(value.smsBody ?? "", false));
+
+  const validation = validationByLanguage[language ?? "default"]?.[scenario] ?? {
+    subjectError: undefined,
+    bodyError: undefined,
+  };
+  let smsBodyError: string | undefined;
+  if (!language && !smsBody.trim()) {
+    smsBodyError = "SMS message is required";
+  } else if (editedSmsBody.length > SMS_TEMPLATE_MAX_LENGTH) {
+    smsBodyError = `SMS message is too long (max ${SMS_TEMPLATE_MAX_LENGTH} characters)`;
+  } else {
+    smsBodyError = describeTemplateErrors(validateTemplateSyntax(editedSmsBody)) || undefined;
+  }
 
-  const previewBody = useMemo(() => {
-    try {
-      return renderTemplate(body, SAMPLE_CONTEXT);
-    } catch {
-      return body;
+  const invalidScenarios = getInvalidScenarios(language ?? "default");
+  const scenarioOptions = NOTIFICATION_SCENARIOS.map((value) => {
+    let label: string = NOTIFICATION_SCENARIO_LABELS[value];
+    if (invalidScenarios.includes(value)) {
+      label += " (needs attention)";
+    } else if (translation && !translation.templates[value]) {
+      label += " (not translated)";
     }
-  }, [body]);
+    return { label, value };
+  });
+
+  const languageOptions = [
+    { label: `${getLocaleLabel(templateLocale)} (original)`, value: "" },
+    ...Object.keys(translations).map((locale) => ({
+      label:
+        getInvalidScenarios(locale).length > 0
+          ? `${getLocaleLabel(locale)} (needs attention)`
+          : getLocaleLabel(locale),
+      value: locale,
+    })),
+  ];
+  const addLanguageOptions = [
+    { label: "Add a translation", value: "" },
+    ...TRANSLATION_LOCALES.filter((locale) => !translations[locale] && locale !== templateLocale).map(
+      (locale) => ({ label: getLocaleLabel(locale), value: locale })
+    ),
+  ];
+  const templateLocaleOptions = [
+    ...new Set<string>([templateLocale, ...TRANSLATION_LOCALES]),
+  ].map((locale) => ({ label: getLocaleLabel(locale), value: locale }));
+
+  // Render preview with sample data, formatted for the edited language
+  const previewContext = useMemo(
+    () => buildTemplateContext(SAMPLE_SHIPMENT, SAMPLE_SHOP_DOMAIN, language ?? templateLocale, discountCode),
+    [language, templateLocale, discountCode]
+  );
+  const previewTemplate = subject || body ? edited : getFallbackTemplate(scenario);
+  const previewSubject = renderTemplate(previewTemplate.subject, previewContext);
+  const previewBody = renderTemplate(previewTemplate.body, previewContext);
+  const previewSms = renderTemplate(editedSmsBody || fallbackSmsBody, previewContext);
 
   const toggleVariables = useCallback(() => {
     setShowVariables((prev) => !prev);
   }, []);
 
   const handleSave = useCallback(() => {
-    if (validationResult.isValid) {
+    if (isValid) {
       onSave();
     }
-  }, [validationResult.isValid, onSave]);
+  }, [isValid, onSave]);
 
   return (
     <Card>
       <BlockStack gap="400">
         <BlockStack gap="200">
           <Text as="h2" variant="headingMd">
-            Notification Email Template
+            Notification Email Templates
           </Text>
           <Text as="p" variant="bodySm" tone="subdued">
-            Customize the email that's sent to customers when you notify them of a shipment delay.
+            Customize the emails that are sent to customers when you notify them of a shipment
+            delay. The template is picked from the shipment's delay reason and status, and you can
+            choose another one when sending.
           </Text>
         </BlockStack>
 
@@ -161,7 +357,7 @@ export function NotificationSettings({
             onClick={toggleVariables}
             icon={<Icon source={InfoIcon} />}
           >
-            {showVariables ? "Hide" : "Show"} available variables
+            {showVariables ? "Hide" : "Show"} available variables and syntax
           </Button>
           <Collapsible open={showVariables} id="template-variables">
             <Box paddingBlockStart="300">
@@ -208,21 +404,105 @@ export function NotificationSettings({
                       })}
                     </BlockStack>
                   </Box>
+                  <Text as="h3" variant="headingSm">
+                    Conditions, Lists and Helpers
+                  </Text>
+                  <Box
+                    background="bg-surface-secondary"
+                    padding="300"
+                    borderRadius="200"
+                  >
+                    <BlockStack gap="200">
+                      {SYNTAX_EXAMPLES.map(({ example, description }) => (
+                        <BlockStack key={example} gap="050">
+                          <Text as="span" variant="bodyMd">
+                            <code>{example}</code>
+                          </Text>
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {description}
+                          </Text>
+                        </BlockStack>
+                      ))}
+                      {Object.entries(TEMPLATE_HELPERS).map(([helper, { description }]) => (
+                        <InlineStack key={helper} gap="200" blockAlign="center">
+                          <Box minWidth="200px">
+                            <Text as="span" variant="bodyMd">
+                              <code>| {helper}</code>
+                            </Text>
+                          </Box>
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {description}
+                          </Text>
+                        </InlineStack>
+                      ))}
+                    </BlockStack>
+                  </Box>
                 </BlockStack>
               </Card>
             </Box>
           </Collapsible>
         </Box>
 
+        {/* Language Picker */}
+        <InlineStack gap="400" blockAlign="end">
+          <Select
+            label="Language"
+            options={languageOptions}
+            value={language ?? ""}
+            onChange={(value) => setLanguage(value || null)}
+          />
+          <Select
+            label="Add a translation"
+            labelHidden
+            options={addLanguageOptions}
+            value=""
+            onChange={handleAddLanguage}
+          />
+          {language && (
+            <Button variant="plain" tone="critical" onClick={handleRemoveLanguage}>
+              Remove translation
+            </Button>
+          )}
+        </InlineStack>
+
+        {language ? (
+          <Text as="p" variant="bodySm" tone="subdued">
+            Sent to customers who order in {getLocaleLabel(language)}. Templates you leave empty
+            fall back to{" "}
+            {getLocaleFallbackChain(language)[1] && translations[getLocaleFallbackChain(language)[1]]
+              ? `the ${getLocaleLabel(getLocaleFallbackChain(language)[1])} translation, then `
+              : ""}
+            the {getLocaleLabel(templateLocale)} original.
+          </Text>
+        ) : (
+          <Select
+            label="Templates are written in"
+            options={templateLocaleOptions}
+            value={templateLocale}
+            onChange={onTemplateLocaleChange}
+            helpText="Sent to customers without a translation in their language. Dates are formatted for this language."
+          />
+        )}
+
+        {/* Template Picker */}
+        <Select
+          label="Template"
+          options={scenarioOptions}
+          value={scenario}
+          onChange={(value) => setScenario(value as NotificationScenario)}
+          helpText={`Used for: ${NOTIFICATION_SCENARIO_DESCRIPTIONS[scenario]}`}
+        />
+
         {/* Subject Field */}
         <TextField
           label="Email Subject"
           value={subject}
           onChange={handleSubjectChange}
-          error={subjectError}
+          error={validation.subjectError}
           autoComplete="off"
-          maxLength={200}
+          maxLength={EMAIL_SUBJECT_MAX_LENGTH}
           showCharacterCount
+          placeholder={language ? getFallbackTemplate(scenario).subject : undefined}
           helpText="The subject line for notification emails"
         />
 
@@ -231,19 +511,22 @@ export function NotificationSettings({
           label="Email Body"
           value={body}
           onChange={handleBodyChange}
-          error={bodyError}
+          error={validation.bodyError}
           multiline={12}
           autoComplete="off"
-          maxLength={10000}
-          helpText={`Must include ${REQUIRED_TEMPLATE_VARIABLES.join(" and ")}`}
+          maxLength={EMAIL_BODY_MAX_LENGTH}
+          placeholder={language ? getFallbackTemplate(scenario).body : undefined}
+          helpText={
+            language
+              ? `Must include ${REQUIRED_TEMPLATE_VARIABLES.join(" and ")}. Leave the subject and body empty to use the fallback.`
+              : `Must include ${REQUIRED_TEMPLATE_VARIABLES.join(" and ")}`
+          }
         />
 
         {/* Validation Warning */}
-        {!validationResult.isValid && validationResult.missingVariables.length > 0 && (
+        {invalidTemplates.length > 0 && (
           <Banner tone="warning">
-            <p>
-              Your template is missing required variables: {validationResult.missingVariables.join(", ")}
-            </p>
+            <p>Fix these templates before saving: {invalidTemplates.join(", ")}</p>
           </Banner>
         )}
 
@@ -254,7 +537,9 @@ export function NotificationSettings({
               Email Preview
             </Text>
             <Text as="p" variant="bodySm" tone="subdued">
-              Preview with sample data
+              {NOTIFICATION_SCENARIO_LABELS[scenario]} template in{" "}
+              {getLocaleLabel(language ?? templateLocale)} with sample data
+              {language && !subject && !body ? " (not translated: showing the fallback)" : ""}
             </Text>
             <Box
               padding="400"
@@ -304,15 +589,76 @@ export function NotificationSettings({
           </BlockStack>
         </Card>
 
+        {/* SMS Template */}
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            SMS Message
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            A shorter version of the notification, sent when you notify customers by SMS. Uses the
+            same variables as the email.
+          </Text>
+        </BlockStack>
+
+        <TextField
+          label="SMS Message"
+          value={editedSmsBody}
+          onChange={handleSmsBodyChange}
+          error={smsBodyError}
+          multiline={3}
+          autoComplete="off"
+          maxLength={SMS_TEMPLATE_MAX_LENGTH}
+          showCharacterCount
+          placeholder={language ? fallbackSmsBody : undefined}
+          helpText={
+            language
+              ? "Leave empty to use the fallback. Messages over 160 characters are sent as multiple SMS segments"
+              : "Messages over 160 characters are sent as multiple SMS segments"
+          }
+        />
+
+        <Card>
+          <BlockStack gap="300">
+            <InlineStack align="space-between" blockAlign="center">
+              <Text as="h3" variant="headingSm">
+                SMS Preview
+              </Text>
+              <Text as="span" variant="bodySm" tone="subdued">
+                {countSmsSegments(previewSms)} segment(s) with sample data
+              </Text>
+            </InlineStack>
+            <Box
+              padding="300"
+              background="bg-surface-secondary"
+              borderRadius="200"
+            >
+              <Text as="p" variant="bodySm">
+                <span style={{ whiteSpace: "pre-wrap" }}>{previewSms}</span>
+              </Text>
+            </Box>
+          </BlockStack>
+        </Card>
+
+        {/* Discount Code */}
+        <TextField
+          label="Discount code"
+          value={discountCode}
+          onChange={onDiscountCodeChange}
+          autoComplete="off"
+          maxLength={50}
+          placeholder="SORRY10"
+          helpText="Shown in templates that use {discount_code}, to thank customers for their patience. Create the code in Shopify first."
+        />
+
         {/* Save Button */}
         <InlineStack align="end">
           <Button
             variant="primary"
             onClick={handleSave}
             loading={isSaving}
-            disabled={!hasChanges || !validationResult.isValid}
+            disabled={!hasChanges || !isValid}
           >
-            Save Template
+            Save Templates
           </Button>
         </InlineStack>
       </BlockStack>
@@ -341,8 +687,22 @@ function getVariableDescription(variable: string): string {
       return "Link to track the package";
     case "{expected_delivery_date}":
       return "Expected delivery date";
+    case "{delay_reason}":
+      return "Why the shipment is delayed (e.g., weather delay)";
     case "{shop_name}":
       return "Your store name";
+    case "{line_items}":
+      return "Items in the shipment, one per line (2 x T-Shirt (Large))";
+    case "{shipping_city}":
+      return "City the order ships to";
+    case "{days_delayed}":
+      return "Days past the expected delivery date";
+    case "{last_scan_location}":
+      return "Where the carrier last scanned the package";
+    case "{discount_code}":
+      return "Your discount code (set below)";
+    case "{order_status_url}":
+      return "Link to the order status page";
     default:
       return "";
   }
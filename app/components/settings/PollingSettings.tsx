@@ -4,6 +4,11 @@
  * Allows merchants to configure:
  * - Delay threshold (hours after expected delivery to flag as delayed)
  * - Default delivery windows by service level
+ * - Delivery windows by zone (origin location, destination and service level)
+ * - Delivery windows suggested from past transit times
+ * - Blackout dates with no deliveries (on top of carrier holidays)
+ * - Stalled shipment detection (no scans, labels never picked up)
+ * - Delay rules that change how specific shipments are flagged
  */
 
 import {
@@ -19,6 +24,8 @@ import {
   Popover,
   Icon,
   Banner,
+  Tag,
+  Checkbox,
 } from "@shopify/polaris";
 import { PlusCircleIcon, DeleteIcon, EditIcon } from "@shopify/polaris-icons";
 import { useState, useCallback, useMemo } from "react";
@@ -26,11 +33,44 @@ import {
   DEFAULT_DELIVERY_WINDOWS,
   getServiceLevelLabel,
 } from "~/services/delay-detection.service";
+import type { MerchantSettings } from "~/lib/validation";
+import {
+  LEARNED_WINDOW_PERCENTILES,
+  applyDeliveryWindowSuggestions,
+  getDeliveryWindowSuggestions,
+  type DeliveryWindowSuggestion,
+  type LearnedWindowPercentile,
+  type TransitTimeSummary,
+} from "~/lib/transit-times";
+import type { ZoneDeliveryWindow } from "~/lib/zone-windows";
+import { ZoneDeliveryWindows, type FulfillmentLocationOption } from "./ZoneDeliveryWindows";
+import type { DelayRule } from "~/lib/delay-rules";
+import { DelayRules } from "./DelayRules";
+
+type StallDetectionSettings = MerchantSettings["stallDetection"];
+type LearnedDeliveryWindowsSettings = MerchantSettings["learnedDeliveryWindows"];
 
 interface PollingSettingsProps {
   delayThresholdHours: number;
   deliveryWindows: Record<string, number>;
-  onChange: (delayThresholdHours: number, deliveryWindows: Record<string, number>) => void;
+  blackoutDates: string[];
+  onChange: (
+    delayThresholdHours: number,
+    deliveryWindows: Record<string, number>,
+    blackoutDates: string[]
+  ) => void;
+  stallDetection: StallDetectionSettings;
+  onStallDetectionChange: (stallDetection: StallDetectionSettings) => void;
+  zoneDeliveryWindows: ZoneDeliveryWindow[];
+  /** Fulfillment locations the merchant has shipped from */
+  locations: FulfillmentLocationOption[];
+  onZoneDeliveryWindowsChange: (zoneDeliveryWindows: ZoneDeliveryWindow[]) => void;
+  delayRules: DelayRule[];
+  onDelayRulesChange: (delayRules: DelayRule[]) => void;
+  /** Past transit times by service level (from the daily transit stats job) */
+  transitTimes: TransitTimeSummary[];
+  learnedDeliveryWindows: LearnedDeliveryWindowsSettings;
+  onLearnedDeliveryWindowsChange: (learnedDeliveryWindows: LearnedDeliveryWindowsSettings) => void;
   onSave: () => void;
   isSaving?: boolean;
   hasChanges?: boolean;
@@ -39,7 +79,18 @@ interface PollingSettingsProps {
 export function PollingSettings({
   delayThresholdHours,
   deliveryWindows,
+  blackoutDates,
   onChange,
+  stallDetection,
+  onStallDetectionChange,
+  zoneDeliveryWindows,
+  locations,
+  onZoneDeliveryWindowsChange,
+  delayRules,
+  onDelayRulesChange,
+  transitTimes,
+  learnedDeliveryWindows,
+  onLearnedDeliveryWindowsChange,
   onSave,
   isSaving = false,
   hasChanges = false,
@@ -49,6 +100,9 @@ export function PollingSettings({
   const [editingKey, setEditingKey] = useState<string | null>(null);
   const [newServiceLevel, setNewServiceLevel] = useState("");
   const [newDays, setNewDays] = useState("5");
+  const [newBlackoutDate, setNewBlackoutDate] = useState("");
+  const [newStallServiceLevel, setNewStallServiceLevel] = useState("");
+  const [newStallDays, setNewStallDays] = useState("2");
 
   // Validate delay threshold
   const handleThresholdChange = useCallback(
@@ -67,9 +121,9 @@ export function PollingSettings({
         return;
       }
       setThresholdError(undefined);
-      onChange(numValue, deliveryWindows);
+      onChange(numValue, deliveryWindows, blackoutDates);
     },
-    [deliveryWindows, onChange]
+    [deliveryWindows, blackoutDates, onChange]
   );
 
   // Get available service levels that aren't already overridden
@@ -93,19 +147,19 @@ export function PollingSettings({
       ...deliveryWindows,
       [newServiceLevel]: days,
     };
-    onChange(delayThresholdHours, updatedWindows);
+    onChange(delayThresholdHours, updatedWindows, blackoutDates);
     setShowAddWindow(false);
     setNewServiceLevel("");
     setNewDays("5");
-  }, [newServiceLevel, newDays, deliveryWindows, delayThresholdHours, onChange]);
+  }, [newServiceLevel, newDays, deliveryWindows, delayThresholdHours, blackoutDates, onChange]);
 
   // Handle removing a delivery window override
   const handleRemoveWindow = useCallback(
     (key: string) => {
       const { [key]: _removed, ...rest } = deliveryWindows;
-      onChange(delayThresholdHours, rest);
+      onChange(delayThresholdHours, rest, blackoutDates);
     },
-    [deliveryWindows, delayThresholdHours, onChange]
+    [deliveryWindows, delayThresholdHours, blackoutDates, onChange]
   );
 
   // Handle updating a delivery window
@@ -116,12 +170,138 @@ export function PollingSettings({
         ...deliveryWindows,
         [key]: days,
       };
-      onChange(delayThresholdHours, updatedWindows);
+      onChange(delayThresholdHours, updatedWindows, blackoutDates);
       setEditingKey(null);
     },
-    [deliveryWindows, delayThresholdHours, onChange]
+    [deliveryWindows, delayThresholdHours, blackoutDates, onChange]
+  );
+
+  // Handle adding a blackout date (kept sorted, no duplicates)
+  const handleAddBlackoutDate = useCallback(() => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newBlackoutDate)) return;
+    if (!blackoutDates.includes(newBlackoutDate)) {
+      onChange(
+        delayThresholdHours,
+        deliveryWindows,
+        [...blackoutDates, newBlackoutDate].sort()
+      );
+    }
+    setNewBlackoutDate("");
+  }, [newBlackoutDate, blackoutDates, delayThresholdHours, deliveryWindows, onChange]);
+
+  // Handle removing a blackout date
+  const handleRemoveBlackoutDate = useCallback(
+    (date: string) => {
+      onChange(
+        delayThresholdHours,
+        deliveryWindows,
+        blackoutDates.filter((existing) => existing !== date)
+      );
+    },
+    [blackoutDates, delayThresholdHours, deliveryWindows, onChange]
+  );
+
+  // Handle changing a stall threshold (whole business days, 1-30)
+  const handleStallDaysChange = useCallback(
+    (field: "noScanDays" | "pickupDays", value: string) => {
+      const days = parseInt(value, 10);
+      if (isNaN(days) || days < 1 || days > 30) return;
+      onStallDetectionChange({ ...stallDetection, [field]: days });
+    },
+    [stallDetection, onStallDetectionChange]
+  );
+
+  // Service levels without a no-scan threshold override
+  const availableStallServiceLevels = useMemo(() => {
+    const existingKeys = new Set(Object.keys(stallDetection.serviceLevelNoScanDays));
+    return Object.keys(DEFAULT_DELIVERY_WINDOWS)
+      .filter((key) => !existingKeys.has(key))
+      .map((key) => ({
+        label: getServiceLevelLabel(key),
+        value: key,
+      }));
+  }, [stallDetection.serviceLevelNoScanDays]);
+
+  // Handle adding a no-scan threshold override
+  const handleAddStallOverride = useCallback(() => {
+    const days = parseInt(newStallDays, 10);
+    if (!newStallServiceLevel || isNaN(days) || days < 1 || days > 30) return;
+    onStallDetectionChange({
+      ...stallDetection,
+      serviceLevelNoScanDays: {
+        ...stallDetection.serviceLevelNoScanDays,
+        [newStallServiceLevel]: days,
+      },
+    });
+    setNewStallServiceLevel("");
+    setNewStallDays("2");
+  }, [newStallServiceLevel, newStallDays, stallDetection, onStallDetectionChange]);
+
+  // Handle removing a no-scan threshold override
+  const handleRemoveStallOverride = useCallback(
+    (key: string) => {
+      const { [key]: _removed, ...rest } = stallDetection.serviceLevelNoScanDays;
+      onStallDetectionChange({ ...stallDetection, serviceLevelNoScanDays: rest });
+    },
+    [stallDetection, onStallDetectionChange]
+  );
+
+  // Suggestions against the windows being edited, so applied ones drop out
+  const windowSuggestions = useMemo(
+    () => getDeliveryWindowSuggestions(transitTimes, { deliveryWindows, learnedDeliveryWindows }),
+    [transitTimes, deliveryWindows, learnedDeliveryWindows]
   );
 
+  // Handle applying delivery window suggestions as overrides
+  const handleApplySuggestions = useCallback(
+    (suggestions: DeliveryWindowSuggestion[]) => {
+      onChange(
+        delayThresholdHours,
+        applyDeliveryWindowSuggestions(deliveryWindows, suggestions),
+        blackoutDates
+      );
+    },
+    [deliveryWindows, delayThresholdHours, blackoutDates, onChange]
+  );
+
+  // Build table rows for suggested delivery windows
+  const suggestionRows = useMemo(() => {
+    return windowSuggestions.map((suggestion) => {
+      const key = suggestion.serviceLevel;
+      const slowestLane = transitTimes.find((summary) => summary.serviceLevel === key)?.lanes[0];
+
+      return [
+        <BlockStack key={`${key}-label`} gap="100">
+          <Text as="span" variant="bodyMd">
+            {getServiceLevelLabel(key)}
+          </Text>
+          {slowestLane && (
+            <Text as="span" variant="bodySm" tone="subdued">
+              {`Slowest: ${slowestLane.originLocationName ?? "Unknown origin"} to ${slowestLane.destinationRegion ?? "unknown region"}, 90% within ${slowestLane.p90Days} days`}
+            </Text>
+          )}
+        </BlockStack>,
+        <Text key={`${key}-samples`} as="span" variant="bodyMd" tone="subdued">
+          {suggestion.sampleSize}
+        </Text>,
+        <Text key={`${key}-current`} as="span" variant="bodyMd">
+          {suggestion.currentDays} {suggestion.currentDays === 1 ? "day" : "days"}
+        </Text>,
+        <Text key={`${key}-suggested`} as="span" variant="bodyMd" fontWeight="semibold">
+          {suggestion.suggestedDays} {suggestion.suggestedDays === 1 ? "day" : "days"}
+        </Text>,
+        <Text key={`${key}-flagged`} as="span" variant="bodyMd">
+          {`${suggestion.flaggedAtCurrent} → ${suggestion.flaggedAtSuggested}`}
+        </Text>,
+        <Button key={`${key}-apply`} size="slim" onClick={() => handleApplySuggestions([suggestion])}>
+          Apply
+        </Button>,
+      ];
+    });
+  }, [windowSuggestions, transitTimes, handleApplySuggestions]);
+
+  const transitTimesComputedAt = transitTimes[0]?.computedAt;
+
   // Build table rows for delivery window overrides
   const windowRows = useMemo(() => {
     return Object.entries(deliveryWindows).map(([key, days]) => {
@@ -304,6 +484,213 @@ export function PollingSettings({
           </Banner>
         </BlockStack>
 
+        {/* Zone Delivery Windows */}
+        <ZoneDeliveryWindows
+          zoneDeliveryWindows={zoneDeliveryWindows}
+          locations={locations}
+          onChange={onZoneDeliveryWindowsChange}
+        />
+
+        {/* Suggested Delivery Windows */}
+        <BlockStack gap="300">
+          <InlineStack align="space-between" blockAlign="center">
+            <Text as="h3" variant="headingSm">
+              Suggested Delivery Windows
+            </Text>
+            {windowSuggestions.length > 1 && (
+              <Button variant="plain" onClick={() => handleApplySuggestions(windowSuggestions)}>
+                Apply all
+              </Button>
+            )}
+          </InlineStack>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Based on how many business days your delivered shipments took over the last 180 days.
+            {transitTimesComputedAt &&
+              ` Last updated ${new Date(transitTimesComputedAt).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+              })}.`}
+          </Text>
+
+          <InlineStack gap="400" blockAlign="start">
+            <Select
+              label="Window covers"
+              options={LEARNED_WINDOW_PERCENTILES.map((percentile) => ({
+                label: `${percentile}% of past shipments`,
+                value: String(percentile),
+              }))}
+              value={String(learnedDeliveryWindows.percentile)}
+              onChange={(value) =>
+                onLearnedDeliveryWindowsChange({
+                  ...learnedDeliveryWindows,
+                  percentile: Number(value) as LearnedWindowPercentile,
+                })
+              }
+            />
+            <TextField
+              label="Minimum shipments"
+              type="number"
+              value={String(learnedDeliveryWindows.minSamples)}
+              onChange={(value) => {
+                const minSamples = parseInt(value, 10);
+                if (isNaN(minSamples) || minSamples < 5 || minSamples > 1000) return;
+                onLearnedDeliveryWindowsChange({ ...learnedDeliveryWindows, minSamples });
+              }}
+              autoComplete="off"
+              min={5}
+              max={1000}
+              helpText="Delivered shipments a service level needs before it gets a suggestion"
+            />
+          </InlineStack>
+          <Checkbox
+            label="Apply suggestions automatically"
+            helpText="Updates your overrides each night as transit times change. Carrier-provided delivery dates still take precedence."
+            checked={learnedDeliveryWindows.autoApply}
+            onChange={(autoApply) =>
+              onLearnedDeliveryWindowsChange({ ...learnedDeliveryWindows, autoApply })
+            }
+          />
+
+          {windowSuggestions.length > 0 ? (
+            <DataTable
+              columnContentTypes={["text", "numeric", "text", "text", "text", "text"]}
+              headings={["Service Level", "Shipments", "Current", "Suggested", "Would flag", ""]}
+              rows={suggestionRows}
+              footerContent="Would flag: past shipments delivered after the current window, and after the suggested one."
+            />
+          ) : (
+            <Box
+              padding="400"
+              background="bg-surface-secondary"
+              borderRadius="200"
+            >
+              <Text as="p" variant="bodySm" tone="subdued" alignment="center">
+                {transitTimes.length > 0
+                  ? "Your delivery windows match how long your shipments take."
+                  : "No suggestions yet. They appear once your shipments have been delivered and analyzed overnight."}
+              </Text>
+            </Box>
+          )}
+        </BlockStack>
+
+        {/* Blackout Dates */}
+        <BlockStack gap="300">
+          <Text as="h3" variant="headingSm">
+            Blackout Dates
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Carrier holidays (such as Thanksgiving and Christmas) are already skipped when counting business days.
+            Add dates your shipments don't move, like warehouse closures, so they aren't counted either.
+          </Text>
+
+          <InlineStack gap="200" blockAlign="end">
+            <TextField
+              label="Blackout date"
+              type="date"
+              value={newBlackoutDate}
+              onChange={setNewBlackoutDate}
+              autoComplete="off"
+            />
+            <Button onClick={handleAddBlackoutDate} disabled={!newBlackoutDate}>
+              Add date
+            </Button>
+          </InlineStack>
+
+          {blackoutDates.length > 0 ? (
+            <InlineStack gap="200">
+              {blackoutDates.map((date) => (
+                <Tag key={date} onRemove={() => handleRemoveBlackoutDate(date)}>
+                  {date}
+                </Tag>
+              ))}
+            </InlineStack>
+          ) : (
+            <Text as="p" variant="bodySm" tone="subdued">
+              No blackout dates.
+            </Text>
+          )}
+        </BlockStack>
+
+        {/* Stalled Shipments */}
+        <BlockStack gap="300">
+          <Text as="h3" variant="headingSm">
+            Stalled Shipments
+          </Text>
+          <Checkbox
+            label="Flag shipments the carrier has stopped scanning"
+            helpText="Catches stuck packages before their expected delivery date passes. Days are business days, skipping holidays and blackout dates."
+            checked={stallDetection.enabled}
+            onChange={(enabled) => onStallDetectionChange({ ...stallDetection, enabled })}
+          />
+
+          {stallDetection.enabled && (
+            <BlockStack gap="300">
+              <InlineStack gap="400">
+                <TextField
+                  label="Days without a scan"
+                  type="number"
+                  value={String(stallDetection.noScanDays)}
+                  onChange={(value) => handleStallDaysChange("noScanDays", value)}
+                  autoComplete="off"
+                  min={1}
+                  max={30}
+                  helpText="In-transit shipments with no new scan (default: 3 days)"
+                />
+                <TextField
+                  label="Days waiting for pickup"
+                  type="number"
+                  value={String(stallDetection.pickupDays)}
+                  onChange={(value) => handleStallDaysChange("pickupDays", value)}
+                  autoComplete="off"
+                  min={1}
+                  max={30}
+                  helpText="Labels created but not yet scanned by the carrier (default: 2 days)"
+                />
+              </InlineStack>
+
+              <Text as="p" variant="bodySm" tone="subdued">
+                Set a different number of days without a scan for specific service levels, such as a shorter one for overnight services.
+              </Text>
+              <InlineStack gap="200" blockAlign="end">
+                <Select
+                  label="Service Level"
+                  options={[
+                    { label: "Select a service level...", value: "" },
+                    ...availableStallServiceLevels,
+                  ]}
+                  value={newStallServiceLevel}
+                  onChange={setNewStallServiceLevel}
+                />
+                <TextField
+                  label="Days without a scan"
+                  type="number"
+                  value={newStallDays}
+                  onChange={setNewStallDays}
+                  autoComplete="off"
+                  min={1}
+                  max={30}
+                />
+                <Button onClick={handleAddStallOverride} disabled={!newStallServiceLevel}>
+                  Add
+                </Button>
+              </InlineStack>
+
+              {Object.keys(stallDetection.serviceLevelNoScanDays).length > 0 && (
+                <InlineStack gap="200">
+                  {Object.entries(stallDetection.serviceLevelNoScanDays).map(([key, days]) => (
+                    <Tag key={key} onRemove={() => handleRemoveStallOverride(key)}>
+                      {`${getServiceLevelLabel(key)}: ${days} ${days === 1 ? "day" : "days"}`}
+                    </Tag>
+                  ))}
+                </InlineStack>
+              )}
+            </BlockStack>
+          )}
+        </BlockStack>
+
+        {/* Delay Rules */}
+        <DelayRules delayRules={delayRules} onChange={onDelayRulesChange} />
+
         {/* Save Button */}
         <InlineStack align="end">
           <Button
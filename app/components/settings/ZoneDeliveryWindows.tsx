@@ -0,0 +1,320 @@
+/**
+ * Zone Delivery Windows Component
+ *
+ * Editor for the merchant's zone matrix: delivery windows by fulfillment
+ * location, destination state or ZIP3 and service level. The matrix can be
+ * exported to and imported from CSV to edit it in a spreadsheet.
+ */
+
+import {
+  BlockStack,
+  TextField,
+  Text,
+  Box,
+  Button,
+  InlineStack,
+  DataTable,
+  Select,
+  Icon,
+  Banner,
+} from "@shopify/polaris";
+import { DeleteIcon, ExportIcon, ImportIcon } from "@shopify/polaris-icons";
+import { useState, useCallback, useMemo, useRef, type ChangeEvent } from "react";
+import {
+  DEFAULT_DELIVERY_WINDOWS,
+  getServiceLevelLabel,
+} from "~/services/delay-detection.service";
+import {
+  MAX_ZONE_WINDOWS,
+  generateZoneCSV,
+  normalizeZoneDestination,
+  parseZoneCSV,
+  upsertZoneDeliveryWindow,
+  type ZoneCSVError,
+  type ZoneDeliveryWindow,
+} from "~/lib/zone-windows";
+
+/**
+ * A fulfillment location shipments have been sent from
+ */
+export interface FulfillmentLocationOption {
+  id: string;
+  name: string;
+}
+
+interface ZoneDeliveryWindowsProps {
+  zoneDeliveryWindows: ZoneDeliveryWindow[];
+  /** Fulfillment locations to pick origins from */
+  locations: FulfillmentLocationOption[];
+  onChange: (zoneDeliveryWindows: ZoneDeliveryWindow[]) => void;
+}
+
+/** Import errors listed before the rest are summarized */
+const MAX_LISTED_ERRORS = 5;
+
+const ANY_LOCATION_VALUE = "";
+
+export function ZoneDeliveryWindows({
+  zoneDeliveryWindows,
+  locations,
+  onChange,
+}: ZoneDeliveryWindowsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newOrigin, setNewOrigin] = useState(ANY_LOCATION_VALUE);
+  const [newDestination, setNewDestination] = useState("");
+  const [newServiceLevel, setNewServiceLevel] = useState("");
+  const [newDays, setNewDays] = useState("5");
+  const [destinationError, setDestinationError] = useState<string | undefined>();
+  const [importResult, setImportResult] = useState<{
+    imported: number;
+    errors: ZoneCSVError[];
+  } | null>(null);
+
+  const locationNames = useMemo(
+    () => new Map(locations.map((location) => [location.id, location.name])),
+    [locations]
+  );
+
+  const serviceLevelOptions = useMemo(
+    () =>
+      Object.keys(DEFAULT_DELIVERY_WINDOWS).map((key) => ({
+        label: getServiceLevelLabel(key),
+        value: key,
+      })),
+    []
+  );
+
+  // Handle adding a zone window (replaces one for the same lane)
+  const handleAddZone = useCallback(() => {
+    const destination = normalizeZoneDestination(newDestination);
+    if (!destination) {
+      setDestinationError('Enter a state ("US-CA" or "CA") or ZIP3 ("945")');
+      return;
+    }
+    const days = parseInt(newDays, 10);
+    if (!newServiceLevel || isNaN(days) || days < 1 || days > 60) return;
+
+    setDestinationError(undefined);
+    onChange(
+      upsertZoneDeliveryWindow(zoneDeliveryWindows, {
+        originLocationId: newOrigin === ANY_LOCATION_VALUE ? null : newOrigin,
+        destination,
+        serviceLevel: newServiceLevel,
+        days,
+      })
+    );
+    setNewDestination("");
+  }, [newOrigin, newDestination, newServiceLevel, newDays, zoneDeliveryWindows, onChange]);
+
+  // Handle removing a zone window
+  const handleRemoveZone = useCallback(
+    (index: number) => {
+      onChange(zoneDeliveryWindows.filter((_, i) => i !== index));
+    },
+    [zoneDeliveryWindows, onChange]
+  );
+
+  // Download the matrix as CSV
+  const handleExport = useCallback(() => {
+    const blob = new Blob([generateZoneCSV(zoneDeliveryWindows)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "zone-delivery-windows.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [zoneDeliveryWindows]);
+
+  // Replace the matrix with an imported CSV's valid rows
+  const handleImport = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      const { zones, errors } = parseZoneCSV(await file.text(), Object.keys(DEFAULT_DELIVERY_WINDOWS));
+      if (zones.length > MAX_ZONE_WINDOWS) {
+        setImportResult({
+          imported: 0,
+          errors: [
+            {
+              line: 1,
+              message: `The file has ${zones.length} zones; the most you can have is ${MAX_ZONE_WINDOWS}`,
+            },
+          ],
+        });
+        return;
+      }
+      if (zones.length > 0) {
+        onChange(zones);
+      }
+      setImportResult({ imported: zones.length, errors });
+    },
+    [onChange]
+  );
+
+  // Build table rows for zone windows, in the order they were added
+  const zoneRows = useMemo(() => {
+    return zoneDeliveryWindows.map((zone, index) => {
+      const key = `${zone.originLocationId ?? "any"}-${zone.destination}-${zone.serviceLevel}`;
+      return [
+        <Text key={`${key}-origin`} as="span" variant="bodyMd">
+          {zone.originLocationId === null
+            ? "Any location"
+            : (locationNames.get(zone.originLocationId) ?? zone.originLocationId)}
+        </Text>,
+        <Text key={`${key}-destination`} as="span" variant="bodyMd">
+          {zone.destination}
+        </Text>,
+        <Text key={`${key}-service`} as="span" variant="bodyMd">
+          {getServiceLevelLabel(zone.serviceLevel)}
+        </Text>,
+        <Text key={`${key}-days`} as="span" variant="bodyMd" fontWeight="semibold">
+          {zone.days} {zone.days === 1 ? "day" : "days"}
+        </Text>,
+        <Button
+          key={`${key}-remove`}
+          variant="plain"
+          tone="critical"
+          icon={<Icon source={DeleteIcon} />}
+          onClick={() => handleRemoveZone(index)}
+          accessibilityLabel={`Remove ${zone.destination} ${getServiceLevelLabel(zone.serviceLevel)} zone`}
+        />,
+      ];
+    });
+  }, [zoneDeliveryWindows, locationNames, handleRemoveZone]);
+
+  return (
+    <BlockStack gap="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <Text as="h3" variant="headingSm">
+          Zone Delivery Windows
+        </Text>
+        <InlineStack gap="200">
+          <Button
+            variant="plain"
+            icon={<Icon source={ImportIcon} />}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import CSV
+          </Button>
+          <Button
+            variant="plain"
+            icon={<Icon source={ExportIcon} />}
+            onClick={handleExport}
+            disabled={zoneDeliveryWindows.length === 0}
+          >
+            Export CSV
+          </Button>
+        </InlineStack>
+      </InlineStack>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        hidden
+        onChange={handleImport}
+      />
+
+      <Text as="p" variant="bodySm" tone="subdued">
+        Set delivery windows by where shipments leave from and go to, such as a shorter window for nearby states.
+        Zone windows take precedence over service level overrides. When several match, a ZIP3 beats a state, and a
+        specific location beats any location.
+      </Text>
+
+      {importResult && (
+        <Banner
+          tone={importResult.errors.length > 0 ? "warning" : "success"}
+          title={
+            importResult.imported > 0
+              ? `Imported ${importResult.imported} ${importResult.imported === 1 ? "zone" : "zones"}. Save to apply them.`
+              : "No zones were imported"
+          }
+          onDismiss={() => setImportResult(null)}
+        >
+          {importResult.errors.length > 0 && (
+            <BlockStack gap="100">
+              {importResult.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                <Text key={`${error.line}-${error.message}`} as="p" variant="bodySm">
+                  {`Line ${error.line}: ${error.message}`}
+                </Text>
+              ))}
+              {importResult.errors.length > MAX_LISTED_ERRORS && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {`And ${importResult.errors.length - MAX_LISTED_ERRORS} more rows skipped`}
+                </Text>
+              )}
+            </BlockStack>
+          )}
+        </Banner>
+      )}
+
+      <InlineStack gap="200" blockAlign="end">
+        <Select
+          label="Ships from"
+          options={[
+            { label: "Any location", value: ANY_LOCATION_VALUE },
+            ...locations.map((location) => ({ label: location.name, value: location.id })),
+          ]}
+          value={newOrigin}
+          onChange={setNewOrigin}
+        />
+        <TextField
+          label="Destination"
+          value={newDestination}
+          onChange={(value) => {
+            setNewDestination(value);
+            setDestinationError(undefined);
+          }}
+          error={destinationError}
+          placeholder="US-CA or 945"
+          autoComplete="off"
+        />
+        <Select
+          label="Service Level"
+          options={[{ label: "Select a service level...", value: "" }, ...serviceLevelOptions]}
+          value={newServiceLevel}
+          onChange={setNewServiceLevel}
+        />
+        <TextField
+          label="Business Days"
+          type="number"
+          value={newDays}
+          onChange={setNewDays}
+          autoComplete="off"
+          min={1}
+          max={60}
+        />
+        <Button
+          onClick={handleAddZone}
+          disabled={
+            !newDestination ||
+            !newServiceLevel ||
+            zoneDeliveryWindows.length >= MAX_ZONE_WINDOWS
+          }
+        >
+          Add
+        </Button>
+      </InlineStack>
+
+      {zoneDeliveryWindows.length > 0 ? (
+        <DataTable
+          columnContentTypes={["text", "text", "text", "text", "text"]}
+          headings={["Ships From", "Destination", "Service Level", "Window", ""]}
+          rows={zoneRows}
+        />
+      ) : (
+        <Box
+          padding="400"
+          background="bg-surface-secondary"
+          borderRadius="200"
+        >
+          <Text as="p" variant="bodySm" tone="subdued" alignment="center">
+            No zone delivery windows. Add one above or import a CSV with columns origin_location_id, destination,
+            service_level and days.
+          </Text>
+        </Box>
+      )}
+    </BlockStack>
+  );
+}
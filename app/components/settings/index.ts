@@ -5,8 +5,14 @@
  */
 
 export { NotificationSettings } from "./NotificationSettings";
+export { AutoNotificationSettings } from "./AutoNotificationSettings";
 export { PollingSettings } from "./PollingSettings";
+export { ZoneDeliveryWindows } from "./ZoneDeliveryWindows";
+export type { FulfillmentLocationOption } from "./ZoneDeliveryWindows";
+export { DelayRules } from "./DelayRules";
 export { DashboardPreferences } from "./DashboardPreferences";
 export { DisplaySettings } from "./DisplaySettings";
 export { AccountBilling } from "./AccountBilling";
 export type { BillingInfo, PlanInfo, SerializedBillingInfo, SerializedUsageInfo } from "./AccountBilling";
+export { CarrierAccounts } from "./CarrierAccounts";
+export type { CarrierConnectionTest, SerializedCarrierCredentialStatus } from "./CarrierAccounts";
@@ -1,9 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
+  calculateDeferredPollAt,
   calculateNextPollAt,
   calculatePollPriority,
   createCarrierPollJobData,
   createCarrierPollJobId,
+  createCarrierPushJobData,
+  hasActivePushSubscription,
   POLL_INTERVALS,
   POLL_PRIORITY,
   CARRIER_POLL_JOB_NAME,
@@ -48,6 +51,7 @@ describe("carrier-poll.job", () => {
       expect(POLL_INTERVALS.PAST_DUE).toBe(2);
       expect(POLL_INTERVALS.RESCHEDULED).toBe(4);
       expect(POLL_INTERVALS.UNKNOWN).toBe(6);
+      expect(POLL_INTERVALS.PUSH_SAFETY_NET).toBe(12);
     });
 
     it("should have correct poll priorities", () => {
@@ -72,6 +76,27 @@ describe("carrier-poll.job", () => {
     });
   });
 
+  describe("createCarrierPushJobData", () => {
+    it("should create job data with the carrier and raw payload", () => {
+      const payload = { trackingNumber: "1Z999AA10123456784" };
+      expect(createCarrierPushJobData("UPS", payload)).toEqual({ carrier: "UPS", payload });
+    });
+  });
+
+  describe("hasActivePushSubscription", () => {
+    const now = new Date("2026-02-04T12:00:00Z");
+
+    it("should be active within 24 hours of the last push", () => {
+      expect(hasActivePushSubscription({ lastPushAt: new Date("2026-02-03T13:00:00Z") }, now)).toBe(true);
+    });
+
+    it("should be inactive without a recent push", () => {
+      expect(hasActivePushSubscription({ lastPushAt: new Date("2026-02-03T11:00:00Z") }, now)).toBe(false);
+      expect(hasActivePushSubscription({ lastPushAt: null }, now)).toBe(false);
+      expect(hasActivePushSubscription({}, now)).toBe(false);
+    });
+  });
+
   describe("calculateNextPollAt", () => {
     const merchant = { randomPollOffset: 15 }; // 15 minute offset
 
@@ -278,6 +303,56 @@ describe("carrier-poll.job", () => {
       });
     });
 
+    describe("active push subscription", () => {
+      it("should back off to the safety net interval", () => {
+        const shipment = {
+          isDelivered: false,
+          isArchived: false,
+          expectedDeliveryDate: new Date("2026-02-05T12:00:00Z"),
+          rescheduledDeliveryDate: null,
+          lastPushAt: new Date("2026-02-04T09:00:00Z"),
+        };
+        const now = new Date("2026-02-04T12:00:00Z");
+
+        const result = calculateNextPollAt(shipment, merchant, now);
+
+        // 12 hours (PUSH_SAFETY_NET) + 15 min offset
+        expect(result?.toISOString()).toBe("2026-02-05T00:15:00.000Z");
+      });
+
+      it("should keep polling past-due shipments at the past due interval", () => {
+        const shipment = {
+          isDelivered: false,
+          isArchived: false,
+          expectedDeliveryDate: new Date("2026-02-02T12:00:00Z"),
+          rescheduledDeliveryDate: null,
+          lastPushAt: new Date("2026-02-04T09:00:00Z"),
+        };
+        const now = new Date("2026-02-04T12:00:00Z");
+
+        const result = calculateNextPollAt(shipment, merchant, now);
+
+        // 2 hours (PAST_DUE) + 15 min offset
+        expect(result?.toISOString()).toBe("2026-02-04T14:15:00.000Z");
+      });
+
+      it("should resume normal intervals once pushes stop", () => {
+        const shipment = {
+          isDelivered: false,
+          isArchived: false,
+          expectedDeliveryDate: null,
+          rescheduledDeliveryDate: null,
+          lastPushAt: new Date("2026-02-02T12:00:00Z"),
+        };
+        const now = new Date("2026-02-04T12:00:00Z");
+
+        const result = calculateNextPollAt(shipment, merchant, now);
+
+        // 6 hours (UNKNOWN) + 15 min offset
+        expect(result?.toISOString()).toBe("2026-02-04T18:15:00.000Z");
+      });
+    });
+
     describe("merchant offset", () => {
       it("should add merchant random offset to poll time", () => {
         const shipment = {
@@ -333,6 +408,19 @@ describe("carrier-poll.job", () => {
     });
   });
 
+  describe("calculateDeferredPollAt", () => {
+    it("should spread deferred polls over 15 to 29 minutes by merchant offset", () => {
+      const now = new Date("2026-02-04T12:00:00Z");
+
+      expect(calculateDeferredPollAt({ randomPollOffset: 0 }, now)).toEqual(
+        new Date("2026-02-04T12:15:00Z")
+      );
+      expect(calculateDeferredPollAt({ randomPollOffset: 44 }, now)).toEqual(
+        new Date("2026-02-04T12:29:00Z")
+      );
+    });
+  });
+
   describe("calculatePollPriority", () => {
     describe("priority levels", () => {
       it("should return URGENT priority for past due shipments", () => {
@@ -6,8 +6,13 @@
  */
 
 import type { JobsOptions } from "bullmq";
-import type { CarrierPollJobData } from "./types";
-import type { Shipment, Merchant } from "@prisma/client";
+import type {
+  CarrierPollBatchJobData,
+  CarrierPollJobData,
+  CarrierPushJobData,
+} from "./types";
+import type { Carrier, Shipment, Merchant } from "@prisma/client";
+import { createHash } from "node:crypto";
 import { differenceInCalendarDays, addHours, addMinutes } from "date-fns";
 
 /**
@@ -15,6 +20,30 @@ import { differenceInCalendarDays, addHours, addMinutes } from "date-fns";
  */
 export const CARRIER_POLL_JOB_NAME = "poll";
 
+/**
+ * Job name for batched carrier poll jobs (one job per carrier batch)
+ */
+export const CARRIER_POLL_BATCH_JOB_NAME = "poll-batch";
+
+/**
+ * Job name for carrier push notification jobs (one job per notification)
+ */
+export const CARRIER_PUSH_JOB_NAME = "push";
+
+/**
+ * How long after its last push notification a shipment counts as having an
+ * active carrier subscription, in hours
+ */
+export const PUSH_SUBSCRIPTION_ACTIVE_HOURS = 24;
+
+/**
+ * Whether the poll scheduler groups due shipments by carrier into batch jobs.
+ * Enabled with CARRIER_POLL_BATCHING=true; off by default.
+ */
+export function isCarrierPollBatchingEnabled(): boolean {
+  return process.env.CARRIER_POLL_BATCHING === "true";
+}
+
 /**
  * Default job options for carrier poll jobs
  */
@@ -64,6 +93,39 @@ export function createCarrierPollJobId(shipmentId: string): string {
   return `poll-${shipmentId}`;
 }
 
+/**
+ * Create job data for a batched carrier poll job
+ */
+export function createCarrierPollBatchJobData(
+  carrier: Carrier,
+  shipmentIds: string[]
+): CarrierPollBatchJobData {
+  return {
+    carrier,
+    shipmentIds,
+  };
+}
+
+/**
+ * Create the job ID for a batched carrier poll job.
+ * Derived from the shipment IDs so an unchanged batch is deduplicated
+ * across scheduler runs like single poll jobs are.
+ */
+export function createCarrierPollBatchJobId(carrier: Carrier, shipmentIds: string[]): string {
+  const digest = createHash("sha1").update([...shipmentIds].sort().join(",")).digest("hex");
+  return `poll-batch-${carrier}-${digest}`;
+}
+
+/**
+ * Create job data for a carrier push job
+ */
+export function createCarrierPushJobData(carrier: Carrier, payload: unknown): CarrierPushJobData {
+  return {
+    carrier,
+    payload,
+  };
+}
+
 /**
  * Poll interval configuration in hours based on delivery proximity
  */
@@ -80,8 +142,17 @@ export const POLL_INTERVALS = {
   RESCHEDULED: 4,
   /** Default when expected delivery is unknown */
   UNKNOWN: 6,
+  /** Safety net while the carrier pushes updates for the shipment */
+  PUSH_SAFETY_NET: 12,
 } as const;
 
+/**
+ * How long to defer a poll whose carrier request was not sent (circuit
+ * breaker open or rate limit reached), in minutes. Part of the merchant's
+ * poll offset is added so deferred polls do not all reach the carrier at once.
+ */
+export const CARRIER_DEFER_MINUTES = 15;
+
 /**
  * Priority levels for poll jobs
  * Lower number = higher priority in BullMQ
@@ -108,6 +179,8 @@ export const POLL_PRIORITY = {
  * - Expected 2-5 days: every 6 hours
  * - Expected 6+ days: every 8 hours
  * - Unknown expected date: every 6 hours
+ * - Carrier pushed an update in the last 24 hours: every 12 hours, unless past due
+ *   (a shipment turns late without any new scan, so past-due polling is kept)
  *
  * A random merchant offset (0-239 minutes) is added to prevent thundering herd.
  *
@@ -120,7 +193,8 @@ export function calculateNextPollAt(
   shipment: Pick<
     Shipment,
     "isDelivered" | "isArchived" | "expectedDeliveryDate" | "rescheduledDeliveryDate"
-  >,
+  > &
+    Partial<Pick<Shipment, "lastPushAt">>,
   merchant: Pick<Merchant, "randomPollOffset">,
   now: Date = new Date()
 ): Date | null {
@@ -132,11 +206,13 @@ export function calculateNextPollAt(
   let intervalHours: number;
 
   const expected = shipment.expectedDeliveryDate;
-  if (!expected) {
+  const isPastDue = expected ? differenceInCalendarDays(expected, now) < 0 : false;
+  if (!isPastDue && hasActivePushSubscription(shipment, now)) {
+    intervalHours = POLL_INTERVALS.PUSH_SAFETY_NET;
+  } else if (!expected) {
     intervalHours = POLL_INTERVALS.UNKNOWN;
   } else {
     const daysUntil = differenceInCalendarDays(expected, now);
-    const isPastDue = daysUntil < 0;
 
     if (isPastDue) {
       // Check if carrier has rescheduled to a future date
@@ -160,6 +236,35 @@ export function calculateNextPollAt(
   return addMinutes(addHours(now, intervalHours), offsetMinutes);
 }
 
+/**
+ * Calculate when to retry a poll that was deferred because its carrier
+ * request was not sent: 15 to 29 minutes from now, depending on the
+ * merchant's poll offset.
+ */
+export function calculateDeferredPollAt(
+  merchant: Pick<Merchant, "randomPollOffset">,
+  now: Date = new Date()
+): Date {
+  return addMinutes(
+    now,
+    CARRIER_DEFER_MINUTES + (merchant.randomPollOffset % CARRIER_DEFER_MINUTES)
+  );
+}
+
+/**
+ * Whether the carrier pushed an update for the shipment recently enough that
+ * its subscription is considered active.
+ */
+export function hasActivePushSubscription(
+  shipment: Partial<Pick<Shipment, "lastPushAt">>,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!shipment.lastPushAt &&
+    shipment.lastPushAt > addHours(now, -PUSH_SUBSCRIPTION_ACTIVE_HOURS)
+  );
+}
+
 /**
  * Calculate the priority for a poll job.
  * Past-due shipments get higher priority.
@@ -213,3 +318,31 @@ export interface CarrierPollJobResult {
   /** Reason for skip */
   skipReason?: string;
 }
+
+/**
+ * Carrier push job result type (stored in job.returnvalue)
+ */
+export interface CarrierPushJobResult {
+  /** Carrier that sent the notification */
+  carrier: Carrier;
+  /** Per-shipment results for shipments matching a pushed tracking number */
+  results: CarrierPollJobResult[];
+  /** Pushed tracking numbers that matched no active shipment */
+  unmatchedCount: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Batched carrier poll job result type (stored in job.returnvalue)
+ */
+export interface CarrierPollBatchJobResult {
+  /** Carrier the batch was polled through */
+  carrier: Carrier;
+  /** Per-shipment results, in job order */
+  results: CarrierPollJobResult[];
+  /** Number of shipments whose poll failed */
+  failedCount: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+}
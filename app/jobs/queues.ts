@@ -21,6 +21,9 @@ export const QUEUE_SEND_NOTIFICATION = "send-notification";
 /** Queue for data cleanup - archives delivered, purges uninstalled merchant data */
 export const QUEUE_DATA_CLEANUP = "data-cleanup";
 
+/** Queue for transit stats - learns transit times from delivered shipments daily */
+export const QUEUE_TRANSIT_STATS = "transit-stats";
+
 /** All queue names for iteration */
 export const ALL_QUEUES = [
   QUEUE_POLL_SCHEDULER,
@@ -28,6 +31,7 @@ export const ALL_QUEUES = [
   QUEUE_FULFILLMENT_SYNC,
   QUEUE_SEND_NOTIFICATION,
   QUEUE_DATA_CLEANUP,
+  QUEUE_TRANSIT_STATS,
 ] as const;
 
 export type QueueName = (typeof ALL_QUEUES)[number];
@@ -42,6 +46,7 @@ export const QUEUE_CONCURRENCY: Record<QueueName, number> = {
   [QUEUE_FULFILLMENT_SYNC]: 3,
   [QUEUE_SEND_NOTIFICATION]: 5,
   [QUEUE_DATA_CLEANUP]: 2,
+  [QUEUE_TRANSIT_STATS]: 1,
 };
 
 /**
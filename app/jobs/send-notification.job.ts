@@ -9,17 +9,34 @@
 import { z } from "zod";
 import { QUEUE_SEND_NOTIFICATION, JOB_ID_PREFIX } from "./queues";
 import { getQueue } from "~/queue.server";
+import { SMS_MAX_LENGTH } from "~/lib/notification-templates";
+import { AUTOMATION_SENDER } from "~/lib/notification-automation";
 
 /**
- * Schema for validating send notification job data
+ * Staff member's email, or "automation" for automated notifications
  */
-export const SendNotificationJobDataSchema = z.object({
-  shipmentId: z.string().cuid(),
-  recipientEmail: z.string().email(),
-  subject: z.string().min(1).max(200),
-  body: z.string().min(1).max(10000),
-  sentBy: z.string().email(),
-});
+const SentBySchema = z.union([z.string().email(), z.literal(AUTOMATION_SENDER)]);
+
+/**
+ * Schema for validating send notification job data (one job per channel)
+ */
+export const SendNotificationJobDataSchema = z.discriminatedUnion("channel", [
+  z.object({
+    channel: z.literal("EMAIL"),
+    shipmentId: z.string().cuid(),
+    recipientEmail: z.string().email(),
+    subject: z.string().min(1).max(200),
+    body: z.string().min(1).max(10000),
+    sentBy: SentBySchema,
+  }),
+  z.object({
+    channel: z.literal("SMS"),
+    shipmentId: z.string().cuid(),
+    recipientPhone: z.string().regex(/^\+[1-9]\d{7,14}$/, "Phone number must be in E.164 format"),
+    body: z.string().min(1).max(SMS_MAX_LENGTH),
+    sentBy: SentBySchema,
+  }),
+]);
 
 export type SendNotificationJobData = z.infer<typeof SendNotificationJobDataSchema>;
 
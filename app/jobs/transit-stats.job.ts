@@ -0,0 +1,63 @@
+/**
+ * Transit Stats Job Definition
+ *
+ * This file defines the job configuration for the transit stats worker.
+ * The transit stats job runs daily to:
+ * 1. Recompute each merchant's transit time percentiles from delivered shipments
+ * 2. Apply suggested delivery windows for merchants who opted in
+ *
+ * The actual processing logic is in worker/transit-stats.worker.ts
+ */
+
+import type { JobsOptions } from "bullmq";
+
+/**
+ * Job name for transit stats jobs
+ */
+export const TRANSIT_STATS_JOB_NAME = "transit-stats";
+
+/**
+ * Default job options for transit stats jobs
+ */
+export const TRANSIT_STATS_JOB_OPTIONS: JobsOptions = {
+  // Retry a couple times for transient database errors
+  attempts: 3,
+  backoff: {
+    type: "exponential",
+    delay: 5000, // Start with 5 seconds
+  },
+  removeOnComplete: {
+    age: 24 * 60 * 60, // 24 hours
+    count: 30, // Keep last 30 runs
+  },
+  removeOnFail: {
+    age: 7 * 24 * 60 * 60, // Keep failed for 7 days
+    count: 100,
+  },
+};
+
+/**
+ * Repeatable job configuration
+ * Runs daily at 4:00 AM UTC, after data cleanup
+ */
+export const TRANSIT_STATS_REPEAT_OPTIONS = {
+  pattern: "0 4 * * *", // Cron: every day at 4:00 AM UTC
+};
+
+/**
+ * Transit stats job result type
+ */
+export interface TransitStatsJobResult {
+  /** Number of merchants whose stats were recomputed */
+  merchantsProcessed: number;
+  /** Number of delivered shipments measured */
+  shipmentsMeasured: number;
+  /** Number of lanes stored */
+  lanesStored: number;
+  /** Number of delivery windows applied automatically */
+  windowsApplied: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Any errors encountered (processing continues on error) */
+  errors?: string[];
+}
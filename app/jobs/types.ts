@@ -6,6 +6,8 @@
  * and the worker process (which processes jobs).
  */
 
+import type { Carrier } from "@prisma/client";
+
 /**
  * Poll scheduler job data
  * The scheduler job doesn't need any input data
@@ -21,6 +23,24 @@ export interface CarrierPollJobData {
   shipmentId: string;
 }
 
+/**
+ * Batched carrier poll job data
+ * Shipments of one carrier polled together through the carrier's batch endpoint
+ */
+export interface CarrierPollBatchJobData {
+  carrier: Carrier;
+  shipmentIds: string[];
+}
+
+/**
+ * Carrier push job data
+ * A verified carrier push notification, parsed by the carrier's adapter in the worker
+ */
+export interface CarrierPushJobData {
+  carrier: Carrier;
+  payload: unknown;
+}
+
 /**
  * Fulfillment sync job data
  */
@@ -31,16 +51,31 @@ export interface FulfillmentSyncJobData {
 }
 
 /**
- * Send notification job data
+ * A rendered notification for one channel
  */
-export interface SendNotificationJobData {
+export type NotificationJobMessage =
+  | {
+      /** Jobs queued before SMS notifications existed have no channel */
+      channel?: "EMAIL";
+      recipientEmail: string;
+      subject: string;
+      body: string;
+    }
+  | {
+      channel: "SMS";
+      /** E.164 phone number */
+      recipientPhone: string;
+      body: string;
+    };
+
+/**
+ * Send notification job data (one job per channel)
+ */
+export type SendNotificationJobData = NotificationJobMessage & {
   shipmentId: string;
-  recipientEmail: string;
-  subject: string;
-  body: string;
-  /** Email address of staff member who triggered the notification */
+  /** Email address of staff member who triggered the notification, or "automation" */
   sentBy: string;
-}
+};
 
 /**
  * Data cleanup job data
@@ -50,12 +85,23 @@ export interface DataCleanupJobData {
   // No data needed
 }
 
+/**
+ * Transit stats job data
+ * The transit stats job doesn't need any input data
+ */
+export interface TransitStatsJobData {
+  // No data needed
+}
+
 /**
  * Union type for all job data types
  */
 export type JobData =
   | PollSchedulerJobData
   | CarrierPollJobData
+  | CarrierPollBatchJobData
+  | CarrierPushJobData
   | FulfillmentSyncJobData
   | SendNotificationJobData
-  | DataCleanupJobData;
+  | DataCleanupJobData
+  | TransitStatsJobData;
@@ -7,7 +7,10 @@ import {
   calculateExpectedDeliveryDate,
   isPastDeadline,
   calculateDaysDelayed,
+  businessDaysInTransit,
+  businessDaysSince,
 } from "../business-days";
+import { MAJOR_CARRIER_HOLIDAYS, US_FEDERAL_HOLIDAYS } from "../holidays";
 
 /**
  * Helper to create a UTC date at midnight
@@ -16,6 +19,9 @@ function utcDate(dateStr: string): Date {
   return new Date(dateStr + "T00:00:00.000Z");
 }
 
+const UPS_CALENDAR = { holidays: MAJOR_CARRIER_HOLIDAYS, blackoutDates: [] };
+const USPS_CALENDAR = { holidays: US_FEDERAL_HOLIDAYS, blackoutDates: [] };
+
 describe("business-days", () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -273,4 +279,190 @@ describe("business-days", () => {
       expect(calculateDaysDelayed(expected)).toBe(5);
     });
   });
+
+  describe("holiday calendars", () => {
+    it("should not count holidays as business days", () => {
+      // Thanksgiving 2026 (Thursday)
+      expect(isBusinessDay(utcDate("2026-11-26"), UPS_CALENDAR)).toBe(false);
+      expect(isBusinessDay(utcDate("2026-11-26"))).toBe(true);
+    });
+
+    it("should skip Thanksgiving and Christmas when adding business days", () => {
+      // Wednesday before Thanksgiving + 2 = Monday (Thursday is a holiday)
+      expect(addBusinessDays(utcDate("2026-11-25"), 2, UPS_CALENDAR).toISOString()).toBe(
+        "2026-11-30T00:00:00.000Z"
+      );
+      // Wednesday Dec 23 + 3 = Tuesday Dec 29 (Christmas on Friday)
+      expect(calculateExpectedDeliveryDate(utcDate("2026-12-23"), 3, UPS_CALENDAR).toISOString()).toBe(
+        "2026-12-29T00:00:00.000Z"
+      );
+    });
+
+    it("should follow each carrier's schedule", () => {
+      // Columbus Day 2026 is Monday Oct 12: USPS skips it, UPS delivers
+      const friday = utcDate("2026-10-09");
+
+      expect(addBusinessDays(friday, 1, USPS_CALENDAR).toISOString()).toBe("2026-10-13T00:00:00.000Z");
+      expect(addBusinessDays(friday, 1, UPS_CALENDAR).toISOString()).toBe("2026-10-12T00:00:00.000Z");
+    });
+
+    it("should skip merchant blackout dates", () => {
+      const calendar = { holidays: [], blackoutDates: ["2026-02-03", "2026-02-04"] };
+
+      expect(addBusinessDays(utcDate("2026-02-02"), 1, calendar).toISOString()).toBe(
+        "2026-02-05T00:00:00.000Z"
+      );
+      expect(differenceInBusinessDays(utcDate("2026-02-02"), utcDate("2026-02-06"), calendar)).toBe(2);
+      expect(nextBusinessDay(utcDate("2026-02-03"), calendar).toISOString()).toBe(
+        "2026-02-05T00:00:00.000Z"
+      );
+    });
+
+    it("should start the grace period after holidays following the expected date", () => {
+      // Due the day before Thanksgiving: grace runs from Friday
+      const expected = utcDate("2026-11-25");
+
+      expect(isPastDeadline(expected, 8, new Date("2026-11-27T06:00:00Z"), UPS_CALENDAR)).toBe(false);
+      expect(isPastDeadline(expected, 8, new Date("2026-11-27T09:00:00Z"), UPS_CALENDAR)).toBe(true);
+      expect(isPastDeadline(expected, 8, new Date("2026-11-26T09:00:00Z"))).toBe(true);
+    });
+
+    it("should not count holidays as days delayed", () => {
+      const expected = utcDate("2026-11-25");
+      const now = new Date("2026-11-28T12:00:00Z");
+
+      expect(calculateDaysDelayed(expected, now, UPS_CALENDAR)).toBe(2);
+      expect(calculateDaysDelayed(expected, now)).toBe(3);
+    });
+  });
+
+  describe("businessDaysSince", () => {
+    it("should count full business days after the event's day", () => {
+      const scannedWednesday = new Date("2026-02-04T15:00:00Z");
+
+      expect(businessDaysSince(scannedWednesday, new Date("2026-02-04T20:00:00Z"))).toBe(0);
+      expect(businessDaysSince(scannedWednesday, new Date("2026-02-05T20:00:00Z"))).toBe(0);
+      expect(businessDaysSince(scannedWednesday, new Date("2026-02-06T09:00:00Z"))).toBe(1);
+    });
+
+    it("should skip weekends", () => {
+      // Scanned Friday, now Thursday = Mon, Tue, Wed
+      expect(
+        businessDaysSince(new Date("2026-02-06T15:00:00Z"), new Date("2026-02-12T09:00:00Z"))
+      ).toBe(3);
+    });
+
+    it("should skip holidays in the calendar", () => {
+      // Scanned Friday before Memorial Day (May 25, 2026), now Thursday
+      const since = new Date("2026-05-22T15:00:00Z");
+      const now = new Date("2026-05-28T09:00:00Z");
+
+      expect(businessDaysSince(since, now)).toBe(3);
+      expect(businessDaysSince(since, now, UPS_CALENDAR)).toBe(2);
+    });
+
+    it("should read both days in the timezone", () => {
+      // 7pm Monday in Los Angeles is Tuesday in UTC; now is Wednesday morning
+      const since = new Date("2026-02-10T03:00:00Z");
+      const now = new Date("2026-02-11T18:00:00Z");
+
+      expect(businessDaysSince(since, now)).toBe(0);
+      expect(businessDaysSince(since, now, undefined, "America/Los_Angeles")).toBe(1);
+    });
+  });
+
+  describe("businessDaysInTransit", () => {
+    it("should match the window the delivery day fits in", () => {
+      const shippedMonday = new Date("2026-02-02T15:00:00Z");
+
+      expect(businessDaysInTransit(shippedMonday, new Date("2026-02-02T20:00:00Z"))).toBe(0);
+      expect(businessDaysInTransit(shippedMonday, new Date("2026-02-04T10:00:00Z"))).toBe(2);
+      // Delivered Monday of the next week
+      expect(businessDaysInTransit(shippedMonday, new Date("2026-02-09T10:00:00Z"))).toBe(5);
+    });
+
+    it("should count weekend shipments from the next business day", () => {
+      const shippedSaturday = new Date("2026-02-07T15:00:00Z");
+
+      expect(businessDaysInTransit(shippedSaturday, new Date("2026-02-09T10:00:00Z"))).toBe(0);
+      expect(businessDaysInTransit(shippedSaturday, new Date("2026-02-10T10:00:00Z"))).toBe(1);
+      expect(
+        calculateExpectedDeliveryDate(shippedSaturday, 1).toISOString().slice(0, 10)
+      ).toBe("2026-02-10");
+    });
+
+    it("should skip holidays in the calendar", () => {
+      // Shipped Friday before Memorial Day (May 25, 2026), delivered Wednesday
+      const shipDate = new Date("2026-05-22T15:00:00Z");
+      const deliveredAt = new Date("2026-05-27T15:00:00Z");
+
+      expect(businessDaysInTransit(shipDate, deliveredAt)).toBe(3);
+      expect(businessDaysInTransit(shipDate, deliveredAt, UPS_CALENDAR)).toBe(2);
+    });
+
+    it("should read both days in the timezone", () => {
+      // Delivered 7pm Tuesday in Los Angeles, already Wednesday in UTC
+      const shipDate = new Date("2026-02-02T18:00:00Z");
+      const deliveredAt = new Date("2026-02-04T03:00:00Z");
+
+      expect(businessDaysInTransit(shipDate, deliveredAt)).toBe(2);
+      expect(businessDaysInTransit(shipDate, deliveredAt, undefined, "America/Los_Angeles")).toBe(1);
+    });
+  });
+
+  describe("timezones", () => {
+    const LOS_ANGELES = "America/Los_Angeles";
+
+    it("should read the ship date's day in the timezone", () => {
+      // 7pm Friday in Los Angeles is already Saturday in UTC
+      const shipDate = new Date("2026-02-07T03:00:00Z");
+
+      expect(calculateExpectedDeliveryDate(shipDate, 1, undefined, LOS_ANGELES).toISOString()).toBe(
+        "2026-02-09T00:00:00.000Z"
+      );
+      expect(calculateExpectedDeliveryDate(shipDate, 1).toISOString()).toBe("2026-02-10T00:00:00.000Z");
+    });
+
+    it("should end the delivery day at local midnight", () => {
+      const expected = utcDate("2026-02-06");
+      // 4pm Friday in Los Angeles, already past the UTC deadline with no grace
+      const afternoon = new Date("2026-02-07T00:00:00Z");
+
+      expect(isPastDeadline(expected, 0, afternoon)).toBe(true);
+      expect(isPastDeadline(expected, 0, afternoon, undefined, LOS_ANGELES)).toBe(false);
+      // Local midnight (08:00Z) + 8 hours grace
+      expect(isPastDeadline(expected, 8, new Date("2026-02-07T15:59:00Z"), undefined, LOS_ANGELES)).toBe(false);
+      expect(isPastDeadline(expected, 8, new Date("2026-02-07T16:01:00Z"), undefined, LOS_ANGELES)).toBe(true);
+    });
+
+    it("should count grace hours across the spring DST change", () => {
+      // Delivery day Saturday Mar 7 ends at 08:00Z; DST starts Sunday at 2am
+      const expected = utcDate("2026-03-07");
+
+      expect(isPastDeadline(expected, 8, new Date("2026-03-08T15:59:00Z"), undefined, LOS_ANGELES)).toBe(false);
+      expect(isPastDeadline(expected, 8, new Date("2026-03-08T16:01:00Z"), undefined, LOS_ANGELES)).toBe(true);
+
+      // Delivery day Sunday Mar 8 ends at local midnight, 07:00Z on Mar 9 (PDT)
+      const dstDay = utcDate("2026-03-08");
+      expect(isPastDeadline(dstDay, 8, new Date("2026-03-09T14:59:00Z"), undefined, LOS_ANGELES)).toBe(false);
+      expect(isPastDeadline(dstDay, 8, new Date("2026-03-09T15:01:00Z"), undefined, LOS_ANGELES)).toBe(true);
+    });
+
+    it("should count grace hours across the fall DST change", () => {
+      // Delivery day Sunday Nov 1 (DST ends at 2am) ends at 08:00Z Nov 2 (PST)
+      const expected = utcDate("2026-11-01");
+
+      expect(isPastDeadline(expected, 8, new Date("2026-11-02T15:59:00Z"), undefined, LOS_ANGELES)).toBe(false);
+      expect(isPastDeadline(expected, 8, new Date("2026-11-02T16:01:00Z"), undefined, LOS_ANGELES)).toBe(true);
+    });
+
+    it("should count days delayed from the local date", () => {
+      const expected = utcDate("2026-02-06");
+      // 5pm Saturday in Los Angeles, Sunday in UTC
+      const now = new Date("2026-02-08T01:00:00Z");
+
+      expect(calculateDaysDelayed(expected, now, undefined, LOS_ANGELES)).toBe(1);
+      expect(calculateDaysDelayed(expected, now)).toBe(2);
+    });
+  });
 });
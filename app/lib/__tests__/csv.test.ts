@@ -62,6 +62,7 @@ describe("csv", () => {
       shipDate: new Date("2026-02-01T00:00:00Z"),
       expectedDeliveryDate: new Date("2026-02-05T00:00:00Z"),
       currentStatus: "in_transit",
+      trackingStatus: "IN_TRANSIT",
       isDelayed: false,
       daysDelayed: 0,
       isDelivered: false,
@@ -134,6 +135,14 @@ describe("csv", () => {
       expect(unknownCsv).toContain("Unknown");
     });
 
+    it("should export the tracking status label", () => {
+      const csv = generateCSV([{ ...mockShipment, trackingStatus: "OUT_FOR_DELIVERY" }]);
+      const lines = csv.split("\r\n");
+
+      expect(lines[0]).toContain("Tracking Status");
+      expect(lines[1]).toContain("Out for delivery");
+    });
+
     it("should format boolean values as Yes/No", () => {
       const delayedShipment = { ...mockShipment, isDelayed: true, daysDelayed: 2 };
       const deliveredShipment = { ...mockShipment, isDelivered: true };
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { AT_RISK_SCORE, getRiskLevel, isAtRisk } from "../delay-risk";
+
+describe("delay-risk", () => {
+  describe("getRiskLevel", () => {
+    it("should map scores to levels", () => {
+      expect(getRiskLevel(0)).toBe("LOW");
+      expect(getRiskLevel(24)).toBe("LOW");
+      expect(getRiskLevel(25)).toBe("MEDIUM");
+      expect(getRiskLevel(AT_RISK_SCORE - 1)).toBe("MEDIUM");
+      expect(getRiskLevel(AT_RISK_SCORE)).toBe("HIGH");
+      expect(getRiskLevel(100)).toBe("HIGH");
+    });
+  });
+
+  describe("isAtRisk", () => {
+    const shipment = { riskScore: AT_RISK_SCORE, isDelayed: false, isDelivered: false };
+
+    it("should flag high scores on shipments still on time", () => {
+      expect(isAtRisk(shipment)).toBe(true);
+    });
+
+    it("should not flag low, missing or superseded scores", () => {
+      expect(isAtRisk({ ...shipment, riskScore: AT_RISK_SCORE - 1 })).toBe(false);
+      expect(isAtRisk({ ...shipment, riskScore: null })).toBe(false);
+      expect(isAtRisk({ ...shipment, isDelayed: true })).toBe(false);
+      expect(isAtRisk({ ...shipment, isDelivered: true })).toBe(false);
+    });
+  });
+});
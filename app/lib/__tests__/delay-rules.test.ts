@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  DelayRuleSchema,
+  applyDelayRules,
+  describeAction,
+  describeCondition,
+  getHighestSeverity,
+  isValidCondition,
+  matchesCondition,
+  type DelayRule,
+  type DelayRuleContext,
+} from "../delay-rules";
+import { MerchantSettingsSchema } from "../validation";
+
+const context = (overrides: Partial<DelayRuleContext> = {}): DelayRuleContext => ({
+  orderValue: 120,
+  isTestData: false,
+  carrier: "USPS",
+  serviceLevel: "usps_priority_mail",
+  trackingStatus: "IN_TRANSIT",
+  carrierStatus: "In Transit to Next Facility",
+  exceptionCode: null,
+  exceptionCategory: null,
+  ...overrides,
+});
+
+const rule = (overrides: Partial<DelayRule> = {}): DelayRule => ({
+  id: "rule-1",
+  name: "Rule",
+  enabled: true,
+  conditions: [{ field: "carrier", operator: "equals", value: "USPS" }],
+  actions: [{ type: "ignore" }],
+  ...overrides,
+});
+
+describe("delay-rules", () => {
+  describe("matchesCondition", () => {
+    it("should compare numbers", () => {
+      expect(matchesCondition({ field: "orderValue", operator: "greater_than", value: 100 }, context())).toBe(true);
+      expect(matchesCondition({ field: "orderValue", operator: "greater_than", value: 120 }, context())).toBe(false);
+      expect(matchesCondition({ field: "orderValue", operator: "at_least", value: 120 }, context())).toBe(true);
+      expect(matchesCondition({ field: "orderValue", operator: "less_than", value: 120 }, context())).toBe(false);
+      expect(matchesCondition({ field: "orderValue", operator: "at_most", value: 120 }, context())).toBe(true);
+      expect(matchesCondition({ field: "orderValue", operator: "equals", value: 120 }, context())).toBe(true);
+    });
+
+    it("should compare text ignoring case and spaces", () => {
+      expect(matchesCondition({ field: "carrier", operator: "equals", value: " usps " }, context())).toBe(true);
+      expect(matchesCondition({ field: "carrier", operator: "not_equals", value: "UPS" }, context())).toBe(true);
+      expect(matchesCondition({ field: "carrier", operator: "in", value: ["UPS", "usps"] }, context())).toBe(true);
+      expect(
+        matchesCondition({ field: "carrierStatus", operator: "contains", value: "next facility" }, context())
+      ).toBe(true);
+    });
+
+    it("should check booleans with is", () => {
+      expect(matchesCondition({ field: "isTestData", operator: "is", value: false }, context())).toBe(true);
+      expect(
+        matchesCondition({ field: "isTestData", operator: "is", value: true }, context({ isTestData: false }))
+      ).toBe(false);
+    });
+
+    it("should only let missing values meet does not equal", () => {
+      const noValues = context({ orderValue: null, exceptionCode: null });
+      expect(matchesCondition({ field: "orderValue", operator: "less_than", value: 50 }, noValues)).toBe(false);
+      expect(matchesCondition({ field: "exceptionCode", operator: "contains", value: "X" }, noValues)).toBe(false);
+      expect(matchesCondition({ field: "exceptionCode", operator: "not_equals", value: "X" }, noValues)).toBe(true);
+    });
+  });
+
+  describe("applyDelayRules", () => {
+    it("should report every matching rule and combine their actions", () => {
+      const outcome = applyDelayRules(
+        [
+          rule({ id: "a", actions: [{ type: "ignore_exception" }] }),
+          rule({ id: "b", conditions: [{ field: "carrier", operator: "equals", value: "UPS" }] }),
+          rule({ id: "c", actions: [{ type: "set_severity", severity: "LOW" }] }),
+        ],
+        context()
+      );
+
+      expect(outcome.matchedRules.map((matched) => matched.ruleId)).toEqual(["a", "c"]);
+      expect(outcome).toMatchObject({ ignore: false, ignoreException: true, graceHours: null, severity: "LOW" });
+    });
+
+    it("should take grace hours and severity from the first rule that sets them", () => {
+      const outcome = applyDelayRules(
+        [
+          rule({ id: "a", actions: [{ type: "set_grace_hours", hours: 4 }] }),
+          rule({
+            id: "b",
+            actions: [
+              { type: "set_grace_hours", hours: 48 },
+              { type: "set_severity", severity: "CRITICAL" },
+            ],
+          }),
+          rule({ id: "c", actions: [{ type: "set_severity", severity: "LOW" }] }),
+        ],
+        context()
+      );
+
+      expect(outcome.graceHours).toBe(4);
+      expect(outcome.severity).toBe("CRITICAL");
+    });
+
+    it("should require every condition and skip disabled rules", () => {
+      const twoConditions = rule({
+        conditions: [
+          { field: "carrier", operator: "equals", value: "USPS" },
+          { field: "orderValue", operator: "greater_than", value: 200 },
+        ],
+      });
+
+      expect(applyDelayRules([twoConditions], context()).ignore).toBe(false);
+      expect(applyDelayRules([twoConditions], context({ orderValue: 250 })).ignore).toBe(true);
+      expect(applyDelayRules([rule({ enabled: false })], context()).matchedRules).toEqual([]);
+    });
+  });
+
+  describe("isValidCondition", () => {
+    it("should require an operator the field's type supports", () => {
+      expect(isValidCondition({ field: "orderValue", operator: "greater_than", value: 1 })).toBe(true);
+      expect(isValidCondition({ field: "orderValue", operator: "contains", value: "1" })).toBe(false);
+      expect(isValidCondition({ field: "carrier", operator: "greater_than", value: 1 })).toBe(false);
+      expect(isValidCondition({ field: "isTestData", operator: "equals", value: true })).toBe(false);
+    });
+
+    it("should require a value that fits the operator", () => {
+      expect(isValidCondition({ field: "orderValue", operator: "equals", value: "100" })).toBe(false);
+      expect(isValidCondition({ field: "carrier", operator: "equals", value: 1 })).toBe(false);
+      expect(isValidCondition({ field: "carrier", operator: "in", value: "USPS" })).toBe(false);
+      expect(isValidCondition({ field: "carrier", operator: "in", value: ["USPS"] })).toBe(true);
+      expect(isValidCondition({ field: "isTestData", operator: "is", value: "true" })).toBe(false);
+    });
+  });
+
+  describe("DelayRuleSchema", () => {
+    it("should accept a valid rule and default enabled", () => {
+      const { enabled: _enabled, ...withoutEnabled } = rule();
+      const parsed = DelayRuleSchema.parse(withoutEnabled);
+      expect(parsed.enabled).toBe(true);
+    });
+
+    it("should reject mismatched conditions, missing actions and invalid grace hours", () => {
+      expect(
+        DelayRuleSchema.safeParse(
+          rule({ conditions: [{ field: "orderValue", operator: "contains", value: "1" }] })
+        ).success
+      ).toBe(false);
+      expect(DelayRuleSchema.safeParse(rule({ actions: [] })).success).toBe(false);
+      expect(
+        DelayRuleSchema.safeParse(rule({ actions: [{ type: "set_grace_hours", hours: -1 }] })).success
+      ).toBe(false);
+    });
+
+    it("should be accepted in merchant settings", () => {
+      expect(MerchantSettingsSchema.safeParse({ delayRules: [rule()] }).success).toBe(true);
+      expect(MerchantSettingsSchema.parse({}).delayRules).toEqual([]);
+    });
+  });
+
+  describe("getHighestSeverity", () => {
+    it("should return the most severe severity", () => {
+      expect(getHighestSeverity(["LOW", null, "CRITICAL", "MEDIUM"])).toBe("CRITICAL");
+      expect(getHighestSeverity(["LOW", undefined, "MEDIUM"])).toBe("MEDIUM");
+      expect(getHighestSeverity([null, undefined])).toBeNull();
+    });
+  });
+
+  describe("describeCondition and describeAction", () => {
+    it("should describe conditions", () => {
+      expect(describeCondition({ field: "orderValue", operator: "greater_than", value: 200 })).toBe(
+        "Order value is greater than 200"
+      );
+      expect(describeCondition({ field: "carrier", operator: "in", value: ["UPS", "FEDEX"] })).toBe(
+        "Carrier is one of UPS, FEDEX"
+      );
+      expect(describeCondition({ field: "isTestData", operator: "is", value: true })).toBe("Test data");
+      expect(describeCondition({ field: "isTestData", operator: "is", value: false })).toBe("Not test data");
+    });
+
+    it("should describe actions", () => {
+      expect(describeAction({ type: "ignore" })).toBe("Never flag");
+      expect(describeAction({ type: "set_grace_hours", hours: 1 })).toBe("Flag after 1 hour");
+      expect(describeAction({ type: "set_grace_hours", hours: 48 })).toBe("Flag after 48 hours");
+      expect(describeAction({ type: "set_severity", severity: "CRITICAL" })).toBe("Critical severity");
+    });
+  });
+});
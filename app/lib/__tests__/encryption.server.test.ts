@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { decryptSecret, encryptSecret, isEncryptionConfigured } from "../encryption.server";
+
+const TEST_KEY = Buffer.alloc(32, 7).toString("base64");
+
+describe("encryption.server", () => {
+  beforeEach(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = TEST_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+  });
+
+  it("should round-trip a secret", () => {
+    const encrypted = encryptSecret('{"clientId":"abc","clientSecret":"s3cret"}');
+
+    expect(encrypted.startsWith("v1.")).toBe(true);
+    expect(encrypted).not.toContain("s3cret");
+    expect(decryptSecret(encrypted)).toBe('{"clientId":"abc","clientSecret":"s3cret"}');
+  });
+
+  it("should use a fresh IV for every encryption", () => {
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"));
+  });
+
+  it("should reject tampered values", () => {
+    const [version, iv, tag, ciphertext] = encryptSecret("secret").split(".");
+    const tampered = Buffer.from(ciphertext, "base64");
+    tampered[0] ^= 1;
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString("base64")].join("."))).toThrow();
+    expect(() => decryptSecret("not-encrypted")).toThrow("Unrecognized encrypted value format");
+  });
+
+  it("should reject values encrypted with another key", () => {
+    const encrypted = encryptSecret("secret");
+    process.env.CREDENTIALS_ENCRYPTION_KEY = Buffer.alloc(32, 9).toString("base64");
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it("should report whether a valid key is configured", () => {
+    expect(isEncryptionConfigured()).toBe(true);
+
+    process.env.CREDENTIALS_ENCRYPTION_KEY = Buffer.alloc(16).toString("base64");
+    expect(isEncryptionConfigured()).toBe(false);
+
+    delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+    expect(isEncryptionConfigured()).toBe(false);
+    expect(() => encryptSecret("secret")).toThrow("CREDENTIALS_ENCRYPTION_KEY");
+  });
+});
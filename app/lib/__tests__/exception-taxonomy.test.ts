@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DELAY_REASON,
+  EXCEPTION_CATEGORIES,
+  EXCEPTION_CATEGORY_LABELS,
+  deriveDelaySeverity,
+  getCustomerDelayReason,
+  normalizeExceptionCategory,
+} from "../exception-taxonomy";
+
+const baseInput = {
+  codeCategory: null,
+  reason: null,
+  description: null,
+  isException: true,
+  status: "EXCEPTION" as const,
+};
+
+describe("exception-taxonomy", () => {
+  describe("EXCEPTION_CATEGORIES", () => {
+    it("should list every labelled category", () => {
+      expect(EXCEPTION_CATEGORIES).toHaveLength(Object.keys(EXCEPTION_CATEGORY_LABELS).length);
+      expect(EXCEPTION_CATEGORIES).toContain("WEATHER");
+    });
+  });
+
+  describe("normalizeExceptionCategory", () => {
+    it("should return null when there is no exception", () => {
+      expect(
+        normalizeExceptionCategory({ ...baseInput, isException: false, status: "IN_TRANSIT", reason: "Weather delay" })
+      ).toBeNull();
+    });
+
+    it("should prefer the mapped carrier code over keywords", () => {
+      expect(
+        normalizeExceptionCategory({ ...baseInput, codeCategory: "RECIPIENT_UNAVAILABLE", reason: "Delayed" })
+      ).toBe("RECIPIENT_UNAVAILABLE");
+    });
+
+    it("should match the reason ahead of the status description", () => {
+      expect(
+        normalizeExceptionCategory({
+          ...baseInput,
+          reason: "Severe weather in the area",
+          description: "Incorrect address",
+        })
+      ).toBe("WEATHER");
+      expect(normalizeExceptionCategory({ ...baseInput, description: "Incorrect address" })).toBe("ADDRESS_ISSUE");
+    });
+
+    it("should let more specific categories win", () => {
+      expect(normalizeExceptionCategory({ ...baseInput, reason: "Held for customs clearance" })).toBe("CUSTOMS");
+      expect(
+        normalizeExceptionCategory({
+          ...baseInput,
+          reason: "Delivery attempted - no authorized recipient available",
+        })
+      ).toBe("RECIPIENT_UNAVAILABLE");
+      expect(normalizeExceptionCategory({ ...baseInput, reason: "Package damaged, delivery delayed" })).toBe(
+        "DAMAGED"
+      );
+    });
+
+    it("should fall back to the status category, then OTHER", () => {
+      expect(
+        normalizeExceptionCategory({ ...baseInput, isException: false, status: "DELIVERY_ATTEMPTED" })
+      ).toBe("DELIVERY_ATTEMPTED");
+      expect(normalizeExceptionCategory({ ...baseInput, status: "LOST" })).toBe("LOST");
+      expect(normalizeExceptionCategory({ ...baseInput, reason: "Code 17" })).toBe("OTHER");
+    });
+  });
+
+  describe("getCustomerDelayReason", () => {
+    it("should describe the category for customers", () => {
+      expect(getCustomerDelayReason("WEATHER")).toBe("weather delay");
+      expect(getCustomerDelayReason("CUSTOMS")).toBe("customs delay");
+    });
+
+    it("should use the default reason without a category", () => {
+      expect(getCustomerDelayReason(null)).toBe(DEFAULT_DELAY_REASON);
+      expect(getCustomerDelayReason(undefined)).toBe(DEFAULT_DELAY_REASON);
+    });
+  });
+
+  describe("deriveDelaySeverity", () => {
+    it("should default to LOW", () => {
+      expect(
+        deriveDelaySeverity({ exceptionCategory: null, delayReason: "PAST_EXPECTED_DELIVERY", daysDelayed: 1 })
+      ).toBe("LOW");
+      expect(
+        deriveDelaySeverity({ exceptionCategory: "WEATHER", delayReason: "CARRIER_EXCEPTION", daysDelayed: 0 })
+      ).toBe("LOW");
+    });
+
+    it("should take the category's severity", () => {
+      expect(
+        deriveDelaySeverity({ exceptionCategory: "LOST", delayReason: "CARRIER_EXCEPTION", daysDelayed: 0 })
+      ).toBe("CRITICAL");
+      expect(
+        deriveDelaySeverity({ exceptionCategory: "ADDRESS_ISSUE", delayReason: "CARRIER_EXCEPTION", daysDelayed: 0 })
+      ).toBe("MEDIUM");
+    });
+
+    it("should raise stalled shipments to MEDIUM", () => {
+      expect(
+        deriveDelaySeverity({ exceptionCategory: null, delayReason: "STALLED_NO_SCANS", daysDelayed: 0 })
+      ).toBe("MEDIUM");
+    });
+
+    it("should raise severity with days delayed", () => {
+      expect(
+        deriveDelaySeverity({ exceptionCategory: "WEATHER", delayReason: "CARRIER_EXCEPTION", daysDelayed: 2 })
+      ).toBe("MEDIUM");
+      expect(
+        deriveDelaySeverity({ exceptionCategory: "CUSTOMS", delayReason: "PAST_EXPECTED_DELIVERY", daysDelayed: 5 })
+      ).toBe("CRITICAL");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  CANADIAN_STATUTORY_HOLIDAYS,
+  MAJOR_CARRIER_HOLIDAYS,
+  US_FEDERAL_HOLIDAYS,
+  getCanadianHolidays,
+  getFederalHoliday,
+  getFederalHolidays,
+  isHoliday,
+} from "../holidays";
+
+/**
+ * Helper to create a UTC date at midnight
+ */
+function utcDate(dateStr: string): Date {
+  return new Date(dateStr + "T00:00:00.000Z");
+}
+
+describe("holidays", () => {
+  describe("getFederalHolidays", () => {
+    it("should list the observed federal holidays of a year", () => {
+      expect(getFederalHolidays(2026)).toEqual([
+        { holiday: "new_years_day", date: "2026-01-01" },
+        { holiday: "mlk_day", date: "2026-01-19" },
+        { holiday: "presidents_day", date: "2026-02-16" },
+        { holiday: "memorial_day", date: "2026-05-25" },
+        { holiday: "juneteenth", date: "2026-06-19" },
+        // July 4, 2026 is a Saturday
+        { holiday: "independence_day", date: "2026-07-03" },
+        { holiday: "labor_day", date: "2026-09-07" },
+        { holiday: "columbus_day", date: "2026-10-12" },
+        { holiday: "veterans_day", date: "2026-11-11" },
+        { holiday: "thanksgiving", date: "2026-11-26" },
+        { holiday: "christmas_day", date: "2026-12-25" },
+      ]);
+    });
+
+    it("should observe Sunday holidays on Monday", () => {
+      // June 19, 2022 was a Sunday
+      expect(getFederalHolidays(2022)).toContainEqual({ holiday: "juneteenth", date: "2022-06-20" });
+    });
+
+    it("should observe a Saturday New Year's Day on December 31 of the previous year", () => {
+      // January 1, 2028 is a Saturday
+      expect(getFederalHolidays(2027)).toContainEqual({ holiday: "new_years_day", date: "2027-12-31" });
+      expect(getFederalHolidays(2028).map(({ holiday }) => holiday)).not.toContain("new_years_day");
+    });
+  });
+
+  describe("getCanadianHolidays", () => {
+    it("should list the observed statutory holidays of a year", () => {
+      expect(getCanadianHolidays(2026)).toEqual([
+        { holiday: "ca_new_years_day", date: "2026-01-01" },
+        { holiday: "good_friday", date: "2026-04-03" },
+        { holiday: "victoria_day", date: "2026-05-18" },
+        { holiday: "canada_day", date: "2026-07-01" },
+        { holiday: "ca_labour_day", date: "2026-09-07" },
+        { holiday: "truth_and_reconciliation_day", date: "2026-09-30" },
+        { holiday: "ca_thanksgiving", date: "2026-10-12" },
+        { holiday: "remembrance_day", date: "2026-11-11" },
+        { holiday: "ca_christmas_day", date: "2026-12-25" },
+        // December 26, 2026 is a Saturday
+        { holiday: "boxing_day", date: "2026-12-28" },
+      ]);
+    });
+
+    it("should observe weekend holidays on the following weekdays", () => {
+      // July 1, 2028 is a Saturday
+      expect(getCanadianHolidays(2028)).toContainEqual({ holiday: "canada_day", date: "2028-07-03" });
+      // December 25, 2027 is a Saturday and December 26 a Sunday
+      expect(getCanadianHolidays(2027)).toContainEqual({ holiday: "ca_christmas_day", date: "2027-12-27" });
+      expect(getCanadianHolidays(2027)).toContainEqual({ holiday: "boxing_day", date: "2027-12-28" });
+    });
+  });
+
+  describe("getFederalHoliday", () => {
+    it("should return the holiday observed on a date", () => {
+      expect(getFederalHoliday(utcDate("2026-11-26"))).toBe("thanksgiving");
+      expect(getFederalHoliday(new Date("2026-12-25T18:30:00.000Z"))).toBe("christmas_day");
+      expect(getFederalHoliday(utcDate("2026-11-27"))).toBeNull();
+    });
+  });
+
+  describe("isHoliday", () => {
+    it("should only count holidays the calendar observes", () => {
+      const ups = { holidays: MAJOR_CARRIER_HOLIDAYS, blackoutDates: [] };
+      const usps = { holidays: US_FEDERAL_HOLIDAYS, blackoutDates: [] };
+
+      // Columbus Day: USPS closed, UPS delivering
+      expect(isHoliday(utcDate("2026-10-12"), usps)).toBe(true);
+      expect(isHoliday(utcDate("2026-10-12"), ups)).toBe(false);
+      expect(isHoliday(utcDate("2026-11-26"), ups)).toBe(true);
+    });
+
+    it("should count Canadian holidays for Canadian carriers", () => {
+      const canadaPost = { holidays: CANADIAN_STATUTORY_HOLIDAYS, blackoutDates: [] };
+      const usps = { holidays: US_FEDERAL_HOLIDAYS, blackoutDates: [] };
+
+      expect(isHoliday(utcDate("2026-07-01"), canadaPost)).toBe(true);
+      expect(isHoliday(utcDate("2026-07-03"), canadaPost)).toBe(false);
+      // Canadian Thanksgiving falls on Columbus Day
+      expect(isHoliday(utcDate("2026-10-12"), canadaPost)).toBe(true);
+      expect(isHoliday(utcDate("2026-10-12"), usps)).toBe(true);
+      expect(getFederalHoliday(utcDate("2026-10-12"))).toBe("columbus_day");
+    });
+
+    it("should include blackout dates", () => {
+      const calendar = { holidays: [], blackoutDates: ["2026-11-27"] };
+
+      expect(isHoliday(utcDate("2026-11-27"), calendar)).toBe(true);
+      expect(isHoliday(utcDate("2026-11-26"), calendar)).toBe(false);
+    });
+  });
+});
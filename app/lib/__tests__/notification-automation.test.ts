@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  AutoNotificationSettingsSchema,
+  getAutoNotificationSkipReason,
+  type AutoNotificationContext,
+  type AutoNotificationSettings,
+} from "../notification-automation";
+import { MerchantSettingsSchema } from "../validation";
+
+const rules = (overrides: Partial<AutoNotificationSettings> = {}): AutoNotificationSettings => ({
+  ...AutoNotificationSettingsSchema.parse({ enabled: true }),
+  ...overrides,
+});
+
+const context = (overrides: Partial<AutoNotificationContext> = {}): AutoNotificationContext => ({
+  isDelayed: true,
+  daysDelayed: 2,
+  delayReason: "CARRIER_EXCEPTION",
+  exceptionCategory: "WEATHER",
+  carrier: "UPS",
+  orderValue: 120,
+  notificationSent: false,
+  autoNotified: false,
+  ...overrides,
+});
+
+describe("notification-automation", () => {
+  describe("AutoNotificationSettingsSchema", () => {
+    it("should be off by default and notify by email", () => {
+      const settings = MerchantSettingsSchema.parse({});
+
+      expect(settings.autoNotifications).toEqual({
+        enabled: false,
+        minDaysDelayed: 0,
+        reasons: [],
+        exceptionCategories: [],
+        carriers: [],
+        minOrderValue: null,
+        sendDelayHours: 0,
+        channels: ["EMAIL"],
+      });
+    });
+
+    it("should reject unknown reasons and carriers, and no channels", () => {
+      expect(AutoNotificationSettingsSchema.safeParse({ reasons: ["ALIENS"] }).success).toBe(false);
+      expect(AutoNotificationSettingsSchema.safeParse({ reasons: ["WEATHER"] }).success).toBe(false);
+      expect(AutoNotificationSettingsSchema.safeParse({ exceptionCategories: ["ALIENS"] }).success).toBe(
+        false
+      );
+      expect(AutoNotificationSettingsSchema.safeParse({ carriers: ["UNKNOWN"] }).success).toBe(false);
+      expect(AutoNotificationSettingsSchema.safeParse({ channels: [] }).success).toBe(false);
+      expect(AutoNotificationSettingsSchema.safeParse({ sendDelayHours: 169 }).success).toBe(false);
+    });
+  });
+
+  describe("getAutoNotificationSkipReason", () => {
+    it("should notify delayed shipments when every rule matches", () => {
+      expect(getAutoNotificationSkipReason(rules(), context())).toBeNull();
+      expect(
+        getAutoNotificationSkipReason(
+          rules({
+            minDaysDelayed: 2,
+            reasons: ["CARRIER_EXCEPTION"],
+            exceptionCategories: ["WEATHER"],
+            carriers: ["UPS"],
+            minOrderValue: 100,
+          }),
+          context()
+        )
+      ).toBeNull();
+    });
+
+    it("should skip when automation is off or the shipment isn't delayed", () => {
+      expect(getAutoNotificationSkipReason(rules({ enabled: false }), context())).toBe(
+        "Automatic notifications are off"
+      );
+      expect(getAutoNotificationSkipReason(rules(), context({ isDelayed: false }))).toBe(
+        "Shipment is not delayed"
+      );
+    });
+
+    it("should notify each shipment at most once, and not after a manual notification", () => {
+      expect(getAutoNotificationSkipReason(rules(), context({ autoNotified: true }))).toBe(
+        "Shipment was already notified automatically"
+      );
+      expect(getAutoNotificationSkipReason(rules(), context({ notificationSent: true }))).toBe(
+        "Customer was already notified"
+      );
+    });
+
+    it("should wait until the shipment has been delayed long enough", () => {
+      expect(getAutoNotificationSkipReason(rules({ minDaysDelayed: 3 }), context())).toBe(
+        "Delayed 2 of 3 days"
+      );
+    });
+
+    it("should match delay reasons, including delays without a carrier exception", () => {
+      const pastDue = context({ delayReason: "PAST_EXPECTED_DELIVERY", exceptionCategory: null });
+      const stalled = context({ delayReason: "STALLED_NO_SCANS", exceptionCategory: null });
+
+      expect(getAutoNotificationSkipReason(rules({ reasons: ["PAST_EXPECTED_DELIVERY"] }), pastDue)).toBeNull();
+      expect(getAutoNotificationSkipReason(rules({ reasons: ["STALLED_NO_SCANS"] }), stalled)).toBeNull();
+      expect(getAutoNotificationSkipReason(rules({ reasons: ["PAST_EXPECTED_DELIVERY"] }), context())).toBe(
+        "Delay reason doesn't match"
+      );
+      expect(
+        getAutoNotificationSkipReason(rules({ reasons: ["CARRIER_EXCEPTION"] }), context({ delayReason: null }))
+      ).toBe("Delay reason doesn't match");
+    });
+
+    it("should only check exception categories for carrier exception delays", () => {
+      const customsOnly = rules({ exceptionCategories: ["CUSTOMS"] });
+
+      expect(getAutoNotificationSkipReason(customsOnly, context())).toBe("Exception category doesn't match");
+      expect(getAutoNotificationSkipReason(customsOnly, context({ exceptionCategory: "CUSTOMS" }))).toBeNull();
+      expect(
+        getAutoNotificationSkipReason(
+          customsOnly,
+          context({ delayReason: "PAST_EXPECTED_DELIVERY", exceptionCategory: null })
+        )
+      ).toBeNull();
+    });
+
+    it("should match carriers", () => {
+      expect(getAutoNotificationSkipReason(rules({ carriers: ["FEDEX", "USPS"] }), context())).toBe(
+        "Carrier doesn't match"
+      );
+    });
+
+    it("should skip orders below the value threshold or without a value", () => {
+      expect(getAutoNotificationSkipReason(rules({ minOrderValue: 150 }), context())).toBe(
+        "Order value is below the threshold"
+      );
+      expect(
+        getAutoNotificationSkipReason(rules({ minOrderValue: 0 }), context({ orderValue: null }))
+      ).toBe("Order value is below the threshold");
+      expect(getAutoNotificationSkipReason(rules({ minOrderValue: 120 }), context())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  findTranslation,
+  getFormattingLocale,
+  getLocaleFallbackChain,
+  getLocaleLabel,
+  normalizeLocale,
+} from "../notification-locales";
+import { selectNotificationTemplate, selectSmsTemplate } from "../notification-templates";
+import { MerchantSettingsSchema } from "../validation";
+
+const settings = MerchantSettingsSchema.parse({
+  templateTranslations: {
+    fr: {
+      templates: {
+        DELAY: { subject: "Retard {order_number}", body: "fr {order_number} {tracking_number}" },
+        WEATHER: { subject: "Météo {order_number}", body: "fr météo {order_number} {tracking_number}" },
+      },
+      smsBody: "fr sms {order_number}",
+    },
+    "fr-CA": {
+      templates: {
+        DELAY: { subject: "Retard (CA) {order_number}", body: "fr-CA {order_number} {tracking_number}" },
+      },
+    },
+  },
+});
+
+const shipment = {
+  isDelayed: true,
+  isDelivered: false,
+  delayFlaggedAt: new Date("2026-02-08T12:00:00Z"),
+  riskScore: null,
+  exceptionCategory: null,
+  trackingStatus: "IN_TRANSIT" as const,
+  rescheduledDeliveryDate: null,
+};
+
+describe("notification-locales", () => {
+  describe("normalizeLocale", () => {
+    it("should canonicalize Shopify locales", () => {
+      expect(normalizeLocale("fr")).toBe("fr");
+      expect(normalizeLocale("fr-ca")).toBe("fr-CA");
+      expect(normalizeLocale("pt_BR")).toBe("pt-BR");
+      expect(normalizeLocale("zh-hant-tw")).toBe("zh-Hant-TW");
+    });
+
+    it("should reject empty and invalid locales", () => {
+      expect(normalizeLocale(null)).toBeNull();
+      expect(normalizeLocale(" ")).toBeNull();
+      expect(normalizeLocale("not a locale")).toBeNull();
+    });
+  });
+
+  describe("getLocaleFallbackChain", () => {
+    it("should go from the most to the least specific locale", () => {
+      expect(getLocaleFallbackChain("fr-CA")).toEqual(["fr-CA", "fr"]);
+      expect(getLocaleFallbackChain("zh-Hant-TW")).toEqual(["zh-Hant-TW", "zh-Hant", "zh"]);
+      expect(getLocaleFallbackChain("de")).toEqual(["de"]);
+      expect(getLocaleFallbackChain(undefined)).toEqual([]);
+    });
+  });
+
+  describe("findTranslation", () => {
+    it("should find the most specific translation with a value", () => {
+      expect(findTranslation(settings, "fr-CA", (t) => t.templates.DELAY)?.locale).toBe("fr-CA");
+      expect(findTranslation(settings, "fr-CA", (t) => t.templates.WEATHER)?.locale).toBe("fr");
+      expect(findTranslation(settings, "fr-CA", (t) => t.smsBody)?.value).toBe("fr sms {order_number}");
+    });
+
+    it("should find nothing for untranslated locales", () => {
+      expect(findTranslation(settings, "de-DE", (t) => t.templates.DELAY)).toBeNull();
+      expect(findTranslation(settings, "fr", (t) => t.templates.LOST)).toBeNull();
+    });
+  });
+
+  describe("getFormattingLocale", () => {
+    it("should format in the customer's locale when it's in the template's language", () => {
+      expect(getFormattingLocale("fr", "fr-CA")).toBe("fr-CA");
+      expect(getFormattingLocale("en-US", "en-GB")).toBe("en-GB");
+    });
+
+    it("should format in the template's locale otherwise", () => {
+      expect(getFormattingLocale("en-US", "fr-CA")).toBe("en-US");
+      expect(getFormattingLocale("en-US", null)).toBe("en-US");
+    });
+  });
+
+  describe("getLocaleLabel", () => {
+    it("should name locales in English", () => {
+      expect(getLocaleLabel("fr")).toBe("French");
+      expect(getLocaleLabel("fr-CA")).toBe("Canadian French");
+    });
+  });
+
+  describe("selectNotificationTemplate", () => {
+    it("should pick the translation for the customer's locale", () => {
+      const template = selectNotificationTemplate(settings, { ...shipment, customerLocale: "fr-CA" });
+
+      expect(template).toEqual({
+        scenario: "DELAY",
+        subject: "Retard (CA) {order_number}",
+        body: "fr-CA {order_number} {tracking_number}",
+        locale: "fr-CA",
+      });
+    });
+
+    it("should fall back to the language, then to the original template", () => {
+      const weather = { ...shipment, exceptionCategory: "WEATHER" as const, customerLocale: "fr-CA" };
+      expect(selectNotificationTemplate(settings, weather).subject).toBe("Météo {order_number}");
+
+      const lost = selectNotificationTemplate(settings, { ...shipment, customerLocale: "fr-CA" }, "LOST");
+      expect(lost.subject).toBe(settings.scenarioTemplates.LOST.subject);
+      expect(lost.locale).toBe("en-US");
+    });
+
+    it("should use the original templates for customers without a locale", () => {
+      expect(selectNotificationTemplate(settings, { ...shipment, customerLocale: null }).subject).toBe(
+        settings.notificationTemplate.subject
+      );
+    });
+  });
+
+  describe("selectSmsTemplate", () => {
+    it("should pick the most specific SMS translation", () => {
+      expect(selectSmsTemplate(settings, "fr-CA")).toEqual({
+        body: "fr sms {order_number}",
+        locale: "fr-CA",
+      });
+      expect(selectSmsTemplate(settings, "de")).toEqual({
+        body: settings.smsTemplate.body,
+        locale: "en-US",
+      });
+    });
+  });
+
+  describe("templateTranslations schema", () => {
+    it("should reject locales that aren't canonical", () => {
+      const result = MerchantSettingsSchema.safeParse({
+        templateTranslations: { fr_CA: { templates: {} } },
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
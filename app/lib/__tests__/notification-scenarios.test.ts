@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  NOTIFICATION_SCENARIOS,
+  getScenarioTemplate,
+  getScenarioTemplates,
+  selectNotificationScenario,
+  toTemplateSettings,
+  type NotificationScenarioInput,
+} from "../notification-scenarios";
+import { validateTemplate } from "../notification-templates";
+import { MerchantSettingsSchema } from "../validation";
+
+const shipment = (overrides: Partial<NotificationScenarioInput> = {}): NotificationScenarioInput => ({
+  isDelayed: true,
+  isDelivered: false,
+  delayFlaggedAt: new Date("2026-02-08T12:00:00Z"),
+  riskScore: null,
+  exceptionCategory: null,
+  trackingStatus: "IN_TRANSIT",
+  rescheduledDeliveryDate: null,
+  ...overrides,
+});
+
+describe("notification-scenarios", () => {
+  describe("selectNotificationScenario", () => {
+    it("should pick the generic delay template for delays without a reason", () => {
+      expect(selectNotificationScenario(shipment())).toBe("DELAY");
+    });
+
+    it("should pick the template of the delay reason", () => {
+      expect(selectNotificationScenario(shipment({ exceptionCategory: "WEATHER" }))).toBe("WEATHER");
+      expect(selectNotificationScenario(shipment({ exceptionCategory: "ADDRESS_ISSUE" }))).toBe(
+        "ADDRESS_ISSUE"
+      );
+      expect(selectNotificationScenario(shipment({ exceptionCategory: "LOST" }))).toBe("LOST");
+    });
+
+    it("should pick the carrier exception template for other reasons", () => {
+      expect(selectNotificationScenario(shipment({ exceptionCategory: "DAMAGED" }))).toBe(
+        "CARRIER_EXCEPTION"
+      );
+    });
+
+    it("should pick the lost template from the tracking status", () => {
+      expect(selectNotificationScenario(shipment({ trackingStatus: "LOST" }))).toBe("LOST");
+    });
+
+    it("should prefer a new delivery date to a generic carrier exception", () => {
+      const rescheduledDeliveryDate = new Date("2026-02-12T12:00:00Z");
+
+      expect(selectNotificationScenario(shipment({ rescheduledDeliveryDate }))).toBe("RESCHEDULED");
+      expect(
+        selectNotificationScenario(shipment({ rescheduledDeliveryDate, exceptionCategory: "DAMAGED" }))
+      ).toBe("RESCHEDULED");
+      expect(
+        selectNotificationScenario(shipment({ rescheduledDeliveryDate, exceptionCategory: "WEATHER" }))
+      ).toBe("WEATHER");
+    });
+
+    it("should pick the at-risk template for shipments at risk that aren't delayed", () => {
+      expect(
+        selectNotificationScenario(shipment({ isDelayed: false, delayFlaggedAt: null, riskScore: 60 }))
+      ).toBe("AT_RISK");
+    });
+
+    it("should apologize for delivered shipments that were delayed", () => {
+      expect(
+        selectNotificationScenario(
+          shipment({ isDelivered: true, isDelayed: false, exceptionCategory: "WEATHER" })
+        )
+      ).toBe("DELIVERED_AFTER_DELAY");
+      expect(
+        selectNotificationScenario(shipment({ isDelivered: true, isDelayed: false, delayFlaggedAt: null }))
+      ).toBe("DELAY");
+    });
+  });
+
+  describe("ScenarioTemplatesSchema", () => {
+    it("should default every scenario to a template with the required variables", () => {
+      const templates = getScenarioTemplates(MerchantSettingsSchema.parse({}));
+
+      for (const scenario of NOTIFICATION_SCENARIOS) {
+        expect(templates[scenario].subject).not.toBe("");
+        expect(validateTemplate(templates[scenario].body).isValid).toBe(true);
+      }
+    });
+
+    it("should keep defaults for scenarios that weren't customized", () => {
+      const settings = MerchantSettingsSchema.parse({
+        scenarioTemplates: { WEATHER: { subject: "Storm delay #{order_number}" } },
+      });
+
+      expect(settings.scenarioTemplates.WEATHER.subject).toBe("Storm delay #{order_number}");
+      expect(settings.scenarioTemplates.WEATHER.body).toContain("Severe weather");
+      expect(settings.scenarioTemplates.LOST.subject).toBe("An update on your order #{order_number}");
+    });
+  });
+
+  describe("getScenarioTemplate", () => {
+    it("should read the delay and at-risk templates from their own settings keys", () => {
+      const settings = MerchantSettingsSchema.parse({
+        notificationTemplate: { subject: "Delayed", body: "{order_number} {tracking_number}" },
+        atRiskNotificationTemplate: { subject: "At risk", body: "{order_number} {tracking_number}" },
+      });
+
+      expect(getScenarioTemplate(settings, "DELAY").subject).toBe("Delayed");
+      expect(getScenarioTemplate(settings, "AT_RISK").subject).toBe("At risk");
+      expect(getScenarioTemplate(settings, "WEATHER")).toBe(settings.scenarioTemplates.WEATHER);
+    });
+  });
+
+  describe("toTemplateSettings", () => {
+    it("should round-trip a template library through settings", () => {
+      const settings = MerchantSettingsSchema.parse({});
+      const templates = getScenarioTemplates(settings);
+      templates.LOST = { subject: "Lost", body: "{order_number} {tracking_number}" };
+
+      const saved = MerchantSettingsSchema.parse(toTemplateSettings(templates));
+
+      expect(getScenarioTemplates(saved)).toEqual(templates);
+      expect(saved.notificationTemplate).toEqual(settings.notificationTemplate);
+    });
+  });
+});
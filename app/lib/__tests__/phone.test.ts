@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { isE164PhoneNumber, normalizePhoneNumber } from "../phone";
+
+describe("phone", () => {
+  describe("isE164PhoneNumber", () => {
+    it("should accept E.164 numbers", () => {
+      expect(isE164PhoneNumber("+14155550123")).toBe(true);
+      expect(isE164PhoneNumber("+447911123456")).toBe(true);
+    });
+
+    it("should reject numbers without a plus sign, with formatting or a leading zero", () => {
+      expect(isE164PhoneNumber("14155550123")).toBe(false);
+      expect(isE164PhoneNumber("+1 415 555 0123")).toBe(false);
+      expect(isE164PhoneNumber("+0123456789")).toBe(false);
+    });
+  });
+
+  describe("normalizePhoneNumber", () => {
+    it("should return null for missing numbers", () => {
+      expect(normalizePhoneNumber(null)).toBeNull();
+      expect(normalizePhoneNumber(undefined)).toBeNull();
+      expect(normalizePhoneNumber("")).toBeNull();
+    });
+
+    it("should strip formatting from international numbers", () => {
+      expect(normalizePhoneNumber("+1 (415) 555-0123")).toBe("+14155550123");
+      expect(normalizePhoneNumber("+44 7911 123.456")).toBe("+447911123456");
+    });
+
+    it("should treat a 00 prefix as international", () => {
+      expect(normalizePhoneNumber("0044 7911 123456", "US")).toBe("+447911123456");
+    });
+
+    it("should default national numbers to the US", () => {
+      expect(normalizePhoneNumber("(415) 555-0123")).toBe("+14155550123");
+      expect(normalizePhoneNumber("1-415-555-0123")).toBe("+14155550123");
+    });
+
+    it("should require 10 digits for North American numbers", () => {
+      expect(normalizePhoneNumber("555-0123", "US")).toBeNull();
+      expect(normalizePhoneNumber("416 555 0123", "CA")).toBe("+14165550123");
+    });
+
+    it("should drop the trunk prefix of national numbers in other countries", () => {
+      expect(normalizePhoneNumber("07911 123456", "GB")).toBe("+447911123456");
+      expect(normalizePhoneNumber("0412 345 678", "au")).toBe("+61412345678");
+    });
+
+    it("should ignore extensions", () => {
+      expect(normalizePhoneNumber("415-555-0123 ext. 12")).toBe("+14155550123");
+      expect(normalizePhoneNumber("415-555-0123 x12")).toBe("+14155550123");
+    });
+
+    it("should reject national numbers from countries without a known calling code", () => {
+      expect(normalizePhoneNumber("0123 456 789", "ZZ")).toBeNull();
+      expect(normalizePhoneNumber("+81 90 1234 5678", "ZZ")).toBe("+819012345678");
+    });
+
+    it("should reject numbers with letters", () => {
+      expect(normalizePhoneNumber("call me", "US")).toBeNull();
+      expect(normalizePhoneNumber("1-800-FLOWERS", "US")).toBeNull();
+    });
+  });
+});
@@ -68,6 +68,83 @@ describe("MerchantSettingsSchema validation", () => {
     });
   });
 
+  describe("stallDetection", () => {
+    it("should provide defaults when not provided", () => {
+      expect(MerchantSettingsSchema.parse({}).stallDetection).toEqual({
+        enabled: true,
+        noScanDays: 3,
+        serviceLevelNoScanDays: {},
+        pickupDays: 2,
+      });
+    });
+
+    it("should accept per-service-level thresholds", () => {
+      const settings = MerchantSettingsSchema.parse({
+        stallDetection: { serviceLevelNoScanDays: { fedex_priority_overnight: 1 } },
+      });
+      expect(settings.stallDetection.serviceLevelNoScanDays.fedex_priority_overnight).toBe(1);
+      expect(settings.stallDetection.noScanDays).toBe(3);
+    });
+
+    it("should reject thresholds outside 1-30 business days", () => {
+      expect(() => MerchantSettingsSchema.parse({ stallDetection: { noScanDays: 0 } })).toThrow();
+      expect(() => MerchantSettingsSchema.parse({ stallDetection: { pickupDays: 31 } })).toThrow();
+      expect(() =>
+        MerchantSettingsSchema.parse({ stallDetection: { serviceLevelNoScanDays: { ups_ground: 1.5 } } })
+      ).toThrow();
+    });
+  });
+
+  describe("learnedDeliveryWindows", () => {
+    it("should provide defaults when not provided", () => {
+      expect(MerchantSettingsSchema.parse({}).learnedDeliveryWindows).toEqual({
+        percentile: 90,
+        minSamples: 20,
+        autoApply: false,
+      });
+    });
+
+    it("should only accept the 75th, 90th and 95th percentiles", () => {
+      expect(
+        MerchantSettingsSchema.parse({ learnedDeliveryWindows: { percentile: 95 } })
+          .learnedDeliveryWindows.percentile
+      ).toBe(95);
+      expect(() =>
+        MerchantSettingsSchema.parse({ learnedDeliveryWindows: { percentile: 80 } })
+      ).toThrow();
+    });
+
+    it("should reject minimum samples below 5", () => {
+      expect(() =>
+        MerchantSettingsSchema.parse({ learnedDeliveryWindows: { minSamples: 4 } })
+      ).toThrow();
+    });
+  });
+
+  describe("zoneDeliveryWindows", () => {
+    it("should default to no zones and to any origin", () => {
+      expect(MerchantSettingsSchema.parse({}).zoneDeliveryWindows).toEqual([]);
+      expect(
+        MerchantSettingsSchema.parse({
+          zoneDeliveryWindows: [{ destination: "945", serviceLevel: "ups_ground", days: 2 }],
+        }).zoneDeliveryWindows[0].originLocationId
+      ).toBeNull();
+    });
+
+    it("should only accept states and ZIP3 destinations", () => {
+      const parse = (destination: string) =>
+        MerchantSettingsSchema.safeParse({
+          zoneDeliveryWindows: [{ destination, serviceLevel: "ups_ground", days: 2 }],
+        }).success;
+
+      expect(parse("US-CA")).toBe(true);
+      expect(parse("NSW")).toBe(true);
+      expect(parse("945")).toBe(true);
+      expect(parse("us-ca")).toBe(false);
+      expect(parse("94105")).toBe(false);
+    });
+  });
+
   describe("columnVisibility", () => {
     it("should accept custom column visibility array", () => {
       const customColumns = ["orderNumber", "trackingNumber", "carrier"];
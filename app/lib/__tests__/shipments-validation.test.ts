@@ -92,6 +92,7 @@ describe("Shipments Query Parameter Validation", () => {
         carrier: "UPS",
         serviceLevel: "ground",
         delayStatus: "delayed",
+        trackingStatus: "OUT_FOR_DELIVERY",
         orderValueMin: "10",
         orderValueMax: "100",
         shipDateFrom: "2026-01-01",
@@ -107,6 +108,7 @@ describe("Shipments Query Parameter Validation", () => {
       expect(result.carrier).toBe("UPS");
       expect(result.serviceLevel).toBe("ground");
       expect(result.delayStatus).toBe("delayed");
+      expect(result.trackingStatus).toBe("OUT_FOR_DELIVERY");
       expect(result.orderValueMin).toBe(10);
       expect(result.orderValueMax).toBe(100);
       expect(result.shipDateFrom).toBe("2026-01-01");
@@ -132,6 +134,12 @@ describe("Shipments Query Parameter Validation", () => {
       expect(result.orderValueMax).toBe(199.99);
     });
 
+    it("should reject unknown tracking statuses", () => {
+      expect(() =>
+        ShipmentsQueryParamsSchema.parse({ trackingStatus: "in_transit" })
+      ).toThrow();
+    });
+
     it("should enforce page minimum of 1", () => {
       expect(() =>
         ShipmentsQueryParamsSchema.parse({ page: "0" })
@@ -180,7 +188,7 @@ describe("Shipments Query Parameter Validation", () => {
     });
 
     it("should accept all carrier values", () => {
-      for (const carrier of ["UPS", "FEDEX", "USPS", "UNKNOWN"]) {
+      for (const carrier of ["UPS", "FEDEX", "USPS", "DHL", "CANADA_POST", "PUROLATOR", "UNKNOWN"]) {
         const result = ShipmentsQueryParamsSchema.parse({ carrier });
         expect(result.carrier).toBe(carrier);
       }
@@ -188,7 +196,7 @@ describe("Shipments Query Parameter Validation", () => {
 
     it("should reject invalid carrier values", () => {
       expect(() =>
-        ShipmentsQueryParamsSchema.parse({ carrier: "DHL" })
+        ShipmentsQueryParamsSchema.parse({ carrier: "ONTRAC" })
       ).toThrow();
     });
   });
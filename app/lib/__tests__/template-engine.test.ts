@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatTemplateError,
+  MAX_LIST_ITEMS,
+  MAX_NESTING_DEPTH,
+  MAX_RENDER_STEPS,
+  parseTemplate,
+  renderTemplateSource,
+  TemplateRenderError,
+  TemplateSyntaxError,
+  validateTemplateSource,
+  type TemplateScope,
+  type TemplateSyntax,
+} from "../template-engine";
+
+const syntax: TemplateSyntax = {
+  variables: ["name", "order_number", "delivery_date", "days_delayed", "carrier", "items", "code"],
+  listFields: { items: ["title", "quantity"] },
+};
+
+const scope: TemplateScope = {
+  name: "Jane",
+  order_number: "#1001",
+  delivery_date: new Date("2026-02-10T12:00:00Z"),
+  days_delayed: 3,
+  carrier: "UPS",
+  items: {
+    items: [
+      { title: "T-Shirt", quantity: 2 },
+      { title: "Mug", quantity: 1 },
+    ],
+    text: "2 x T-Shirt\n1 x Mug",
+  },
+  code: "",
+};
+
+const render = (source: string, values: TemplateScope = scope) =>
+  renderTemplateSource(source, values, { locale: "en-US", fallbacks: { code: "none" } });
+
+describe("template-engine", () => {
+  describe("variables", () => {
+    it("should substitute variables and keep other text as written", () => {
+      expect(render("Hi {name}, order {order_number}")).toBe("Hi Jane, order #1001");
+      expect(render("{ name } {} {Name} {1} $&")).toBe("{ name } {} {Name} {1} $&");
+    });
+
+    it("should leave unknown variables as written", () => {
+      expect(render("Hi {first_name}")).toBe("Hi {first_name}");
+    });
+
+    it("should only look up the scope's own variables", () => {
+      expect(render("{constructor} {to_string}")).toBe("{constructor} {to_string}");
+    });
+
+    it("should format dates, numbers and lists", () => {
+      expect(render("{delivery_date}")).toBe("Tuesday, February 10, 2026");
+      expect(render("{days_delayed} days")).toBe("3 days");
+      expect(render("{items}")).toBe("2 x T-Shirt\n1 x Mug");
+    });
+
+    it("should use the fallback for empty variables without helpers", () => {
+      expect(render("Code: {code}")).toBe("Code: none");
+      expect(render("Code: {code | upper}")).toBe("Code: ");
+    });
+  });
+
+  describe("helpers", () => {
+    it("should format dates", () => {
+      expect(render('{delivery_date | date: "short"}')).toBe("2/10/2026");
+      expect(render("{delivery_date | date: 'long'}")).toBe("February 10, 2026");
+      expect(render('{delivery_date | date: "weekday"}')).toBe("Tuesday");
+      expect(
+        renderTemplateSource('{delivery_date | date: "long"}', scope, { locale: "fr-CA" })
+      ).toBe("10 février 2026");
+    });
+
+    it("should show a default for empty variables", () => {
+      expect(render('{code | default: "WELCOME10"}')).toBe("WELCOME10");
+      expect(render('{name | default: "there"}')).toBe("Jane");
+    });
+
+    it("should change case, chaining helpers left to right", () => {
+      expect(render("{carrier | lower | capitalize}")).toBe("Ups");
+      expect(render('{code | default: "soon" | upper}')).toBe("SOON");
+    });
+  });
+
+  describe("conditionals", () => {
+    it("should test whether a variable is set", () => {
+      expect(render("{#if delivery_date}By {delivery_date | date: \"short\"}{/if}")).toBe("By 2/10/2026");
+      expect(render("{#if code}Use {code}{#else}No code{/if}")).toBe("No code");
+      expect(render("{#unless code}No code{/unless}")).toBe("No code");
+    });
+
+    it("should compare with numbers and text", () => {
+      expect(render("{#if days_delayed > 2}late{#else}soon{/if}")).toBe("late");
+      expect(render("{#if days_delayed <= 2}soon{#else}late{/if}")).toBe("late");
+      expect(render("{#if items >= 2}several{/if}")).toBe("several");
+      expect(render('{#if carrier == "UPS"}brown{/if}{#if carrier != "UPS"}other{/if}')).toBe("brown");
+    });
+
+    it("should nest blocks", () => {
+      expect(render("{#if name}{#if code}a{#else}b{/if}{/if}")).toBe("b");
+    });
+  });
+
+  describe("each", () => {
+    it("should render once per item with the item's fields", () => {
+      expect(render("{#each items}- {quantity} x {title} for {name}\n{/each}")).toBe(
+        "- 2 x T-Shirt for Jane\n- 1 x Mug for Jane\n"
+      );
+    });
+
+    it("should render {#else} for empty lists", () => {
+      expect(render("{#each items}{title}{#else}nothing{/each}", { items: { items: [], text: "" } })).toBe(
+        "nothing"
+      );
+    });
+
+    it("should stop rendering nested lists that would take too long", () => {
+      const items = Array.from({ length: MAX_LIST_ITEMS }, () => ({ title: "" }));
+      const source = "{#each items}".repeat(4) + "{/each}".repeat(4);
+
+      expect(() => render(source, { items: { items, text: "" } })).toThrow(TemplateRenderError);
+      expect(() => render(source, { items: { items, text: "" } })).toThrow(
+        `over ${MAX_RENDER_STEPS.toLocaleString("en-US")} steps`
+      );
+    });
+
+    it("should cap the items rendered", () => {
+      const items = Array.from({ length: MAX_LIST_ITEMS + 5 }, () => ({ title: "x" }));
+      expect(render("{#each items}{title}{/each}", { items: { items, text: "" } })).toHaveLength(
+        MAX_LIST_ITEMS
+      );
+    });
+  });
+
+  describe("parseTemplate", () => {
+    const syntaxError = (source: string) => {
+      try {
+        parseTemplate(source);
+      } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          return { message: error.message, line: error.line, column: error.column };
+        }
+        throw error;
+      }
+      return null;
+    };
+
+    it("should report the position of unclosed tags and quotes", () => {
+      expect(syntaxError("Hi\n  {name")).toEqual({ message: 'Unclosed tag: add "}"', line: 2, column: 3 });
+      expect(syntaxError('{code | default: "x}')).toEqual({ message: "Unclosed quote", line: 1, column: 18 });
+    });
+
+    it("should report unbalanced blocks", () => {
+      expect(syntaxError("{#if name}hi")).toEqual({
+        message: "Unclosed {#if}: add {/if}",
+        line: 1,
+        column: 1,
+      });
+      expect(syntaxError("hi{/if}")?.message).toBe("{/if} has no matching {#if}");
+      expect(syntaxError("{#if name}\n{#each items}{/if}")).toEqual({
+        message: "Expected {/each} to close the {#each} at line 2, column 1",
+        line: 2,
+        column: 16,
+      });
+      expect(syntaxError("{#else}")?.message).toBe("{#else} must be inside an {#if}, {#unless} or {#each} block");
+      expect(syntaxError("{#if name}{#else}{#else}{/if}")?.column).toBe(20);
+    });
+
+    it("should report malformed tags", () => {
+      expect(syntaxError("{name upper}")?.message).toBe('Unexpected "upper"');
+      expect(syntaxError("{#while name}")?.message).toBe('Unknown block "#while"');
+      expect(syntaxError("{#if days_delayed >}")?.message).toBe('Expected a number or "text" after >');
+      expect(syntaxError("{name | default: }")?.message).toBe('Expected "text" after default:');
+    });
+
+    it("should limit nesting", () => {
+      const source = "{#if name}".repeat(MAX_NESTING_DEPTH + 1) + "{/if}".repeat(MAX_NESTING_DEPTH + 1);
+      expect(syntaxError(source)?.message).toBe(`Blocks can't be nested more than ${MAX_NESTING_DEPTH} deep`);
+    });
+  });
+
+  describe("validateTemplateSource", () => {
+    it("should accept valid templates", () => {
+      expect(
+        validateTemplateSource(
+          '{#if delivery_date}{delivery_date | date: "short"}{/if}{#each items}{title}{/each}{code | default: "-"}',
+          syntax
+        )
+      ).toEqual([]);
+    });
+
+    it("should report unknown variables and helpers with their positions", () => {
+      const errors = validateTemplateSource("Hi {nmae},\n{#if dayz > 1}{name | shout}{/if}", syntax);
+      expect(errors.map(formatTemplateError)).toEqual([
+        'Line 1, column 4: Unknown variable "nmae"',
+        'Line 2, column 6: Unknown variable "dayz"',
+        'Line 2, column 23: Unknown helper "shout"',
+      ]);
+    });
+
+    it("should check helper arguments", () => {
+      expect(validateTemplateSource("{name | default}", syntax)[0].message).toBe(
+        'default needs a value, like default: "..."'
+      );
+      expect(validateTemplateSource('{name | upper: "x"}', syntax)[0].message).toBe("upper doesn't take a value");
+      expect(validateTemplateSource('{delivery_date | date: "soon"}', syntax)[0].message).toContain(
+        'Unknown date format "soon"'
+      );
+    });
+
+    it("should only allow list fields inside {#each}", () => {
+      expect(validateTemplateSource("{#each items}{title}{/each}", syntax)).toEqual([]);
+      expect(validateTemplateSource("{title}", syntax)[0].message).toBe('Unknown variable "title"');
+      expect(validateTemplateSource("{#each name}{/each}", syntax)[0].message).toBe("{#each} needs a list: items");
+    });
+
+    it("should reject {#each} inside another {#each}", () => {
+      const errors = validateTemplateSource("{#each items}\n{#if name}{#each items}{title}{/each}{/if}{/each}", syntax);
+      expect(errors.map(formatTemplateError)).toEqual([
+        "Line 2, column 11: {#each} can't be inside another {#each}",
+      ]);
+      expect(validateTemplateSource("{#each items}{title}{/each}{#each items}{quantity}{/each}", syntax)).toEqual([]);
+    });
+
+    it("should only order-compare numbers", () => {
+      expect(validateTemplateSource('{#if carrier > "A"}{/if}', syntax)[0].message).toBe("> compares numbers");
+    });
+
+    it("should report the first syntax error only", () => {
+      expect(validateTemplateSource("{#if name}{nope", syntax)).toEqual([
+        { message: 'Unclosed tag: add "}"', index: 10, line: 1, column: 11 },
+      ]);
+    });
+  });
+});
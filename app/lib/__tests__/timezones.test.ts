@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TIME_ZONE,
+  getAddressRegion,
+  getAddressTimeZone,
+  getDayRangeInTimeZone,
+  getDeliveryTimeZone,
+  getTimeZoneOffsetMs,
+  startOfDayInTimeZone,
+  toCalendarDay,
+} from "../timezones";
+
+const LOS_ANGELES = "America/Los_Angeles";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("timezones", () => {
+  describe("getTimeZoneOffsetMs", () => {
+    it("should follow daylight saving time", () => {
+      expect(getTimeZoneOffsetMs(new Date("2026-01-15T12:00:00Z"), LOS_ANGELES)).toBe(-8 * HOUR_MS);
+      expect(getTimeZoneOffsetMs(new Date("2026-07-15T12:00:00Z"), LOS_ANGELES)).toBe(-7 * HOUR_MS);
+      expect(getTimeZoneOffsetMs(new Date("2026-07-15T12:00:00Z"), "UTC")).toBe(0);
+    });
+  });
+
+  describe("toCalendarDay", () => {
+    it("should return the local calendar day of an instant", () => {
+      // 7pm Feb 4 in Los Angeles
+      expect(toCalendarDay(new Date("2026-02-05T03:00:00Z"), LOS_ANGELES).toISOString()).toBe(
+        "2026-02-04T00:00:00.000Z"
+      );
+      // 11am Feb 5 in Tokyo
+      expect(toCalendarDay(new Date("2026-02-05T02:00:00Z"), "Asia/Tokyo").toISOString()).toBe(
+        "2026-02-05T00:00:00.000Z"
+      );
+    });
+  });
+
+  describe("startOfDayInTimeZone", () => {
+    it("should return local midnight on both sides of the spring DST change", () => {
+      // DST starts at 2am on Sunday, March 8, 2026
+      expect(startOfDayInTimeZone(new Date("2026-03-08T00:00:00Z"), LOS_ANGELES).toISOString()).toBe(
+        "2026-03-08T08:00:00.000Z"
+      );
+      expect(startOfDayInTimeZone(new Date("2026-03-09T00:00:00Z"), LOS_ANGELES).toISOString()).toBe(
+        "2026-03-09T07:00:00.000Z"
+      );
+    });
+
+    it("should return local midnight on both sides of the fall DST change", () => {
+      // DST ends at 2am on Sunday, November 1, 2026
+      expect(startOfDayInTimeZone(new Date("2026-11-01T00:00:00Z"), LOS_ANGELES).toISOString()).toBe(
+        "2026-11-01T07:00:00.000Z"
+      );
+      expect(startOfDayInTimeZone(new Date("2026-11-02T00:00:00Z"), LOS_ANGELES).toISOString()).toBe(
+        "2026-11-02T08:00:00.000Z"
+      );
+    });
+  });
+
+  describe("getDayRangeInTimeZone", () => {
+    it("should cover a regular local day", () => {
+      const { start, end } = getDayRangeInTimeZone(new Date("2026-02-05T03:00:00Z"), LOS_ANGELES);
+
+      expect(start.toISOString()).toBe("2026-02-04T08:00:00.000Z");
+      expect(end.toISOString()).toBe("2026-02-05T07:59:59.999Z");
+    });
+
+    it("should cover 23 and 25 hour days at DST changes", () => {
+      const spring = getDayRangeInTimeZone(new Date("2026-03-08T20:00:00Z"), LOS_ANGELES);
+      const fall = getDayRangeInTimeZone(new Date("2026-11-01T20:00:00Z"), LOS_ANGELES);
+
+      expect(spring.end.getTime() + 1 - spring.start.getTime()).toBe(23 * HOUR_MS);
+      expect(fall.end.getTime() + 1 - fall.start.getTime()).toBe(25 * HOUR_MS);
+    });
+  });
+
+  describe("getAddressRegion", () => {
+    it("should read upper-cased codes from either address format", () => {
+      expect(getAddressRegion({ province_code: "ca", country_code: "us" })).toEqual({
+        country: "US",
+        province: "CA",
+      });
+      expect(getAddressRegion({ provinceCode: "ON", countryCode: null })).toEqual({
+        country: null,
+        province: "ON",
+      });
+    });
+
+    it("should return null without a province code", () => {
+      expect(getAddressRegion(null)).toBeNull();
+      expect(getAddressRegion({ countryCode: "US" })).toBeNull();
+    });
+  });
+
+  describe("getAddressTimeZone", () => {
+    it("should map US states and Canadian provinces", () => {
+      expect(getAddressTimeZone({ province_code: "CA", country_code: "US" })).toBe(LOS_ANGELES);
+      expect(getAddressTimeZone({ province_code: "ny", country_code: "us" })).toBe("America/New_York");
+      expect(getAddressTimeZone({ province_code: "ON", country_code: "CA" })).toBe("America/Toronto");
+    });
+
+    it("should read stored shipment addresses", () => {
+      expect(getAddressTimeZone({ provinceCode: "CA", countryCode: "US" })).toBe(LOS_ANGELES);
+      expect(getAddressTimeZone({ provinceCode: "BC", countryCode: "CA" })).toBe("America/Vancouver");
+    });
+
+    it("should return null when the timezone can't be determined", () => {
+      expect(getAddressTimeZone(null)).toBeNull();
+      expect(getAddressTimeZone({ country_code: "US" })).toBeNull();
+      expect(getAddressTimeZone({ province_code: "BY", country_code: "DE" })).toBeNull();
+    });
+  });
+
+  describe("getDeliveryTimeZone", () => {
+    it("should prefer the destination, then the merchant's timezone", () => {
+      expect(getDeliveryTimeZone({ province_code: "WA", country_code: "US" }, "America/Chicago")).toBe(
+        LOS_ANGELES
+      );
+      expect(getDeliveryTimeZone(null, "America/Chicago")).toBe("America/Chicago");
+      expect(getDeliveryTimeZone(null, "Not/AZone")).toBe(DEFAULT_TIME_ZONE);
+    });
+  });
+});
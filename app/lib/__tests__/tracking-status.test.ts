@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  TRACKING_STATUSES,
+  TRACKING_STATUS_LABELS,
+  normalizeTrackingStatus,
+  trackingStatusFromShopify,
+} from "../tracking-status";
+
+const baseInput = {
+  codeStatus: null,
+  description: null,
+  isDelivered: false,
+  isException: false,
+  hasEvents: true,
+};
+
+describe("tracking-status", () => {
+  describe("TRACKING_STATUSES", () => {
+    it("should list every labelled status in journey order", () => {
+      expect(TRACKING_STATUSES[0]).toBe("LABEL_CREATED");
+      expect(TRACKING_STATUSES).toHaveLength(Object.keys(TRACKING_STATUS_LABELS).length);
+    });
+  });
+
+  describe("normalizeTrackingStatus", () => {
+    it("should return DELIVERED whenever the carrier reports delivery", () => {
+      expect(
+        normalizeTrackingStatus({
+          ...baseInput,
+          codeStatus: "IN_TRANSIT",
+          description: "Available for pickup",
+          isDelivered: true,
+        })
+      ).toBe("DELIVERED");
+    });
+
+    it("should not report DELIVERED from a code when the carrier says not delivered", () => {
+      expect(
+        normalizeTrackingStatus({ ...baseInput, codeStatus: "DELIVERED", description: "Arrived at facility" })
+      ).toBe("IN_TRANSIT");
+    });
+
+    it("should prefer specific description keywords over a coarse carrier code", () => {
+      expect(
+        normalizeTrackingStatus({ ...baseInput, codeStatus: "IN_TRANSIT", description: "Out For Delivery Today" })
+      ).toBe("OUT_FOR_DELIVERY");
+      expect(
+        normalizeTrackingStatus({ ...baseInput, codeStatus: "EXCEPTION", description: "Returned to shipper" })
+      ).toBe("RETURNED_TO_SENDER");
+    });
+
+    it("should use the carrier code ahead of the exception flag", () => {
+      expect(
+        normalizeTrackingStatus({ ...baseInput, codeStatus: "IN_TRANSIT", isException: true, description: "Weather delay" })
+      ).toBe("IN_TRANSIT");
+    });
+
+    it("should fall back to EXCEPTION when the carrier flags one without a code", () => {
+      expect(
+        normalizeTrackingStatus({ ...baseInput, isException: true, description: "Weather delay" })
+      ).toBe("EXCEPTION");
+    });
+
+    it("should match broad journey keywords when nothing else applies", () => {
+      expect(normalizeTrackingStatus({ ...baseInput, description: "Shipment information received" })).toBe(
+        "LABEL_CREATED"
+      );
+      expect(normalizeTrackingStatus({ ...baseInput, description: "Picked up" })).toBe("PICKED_UP");
+    });
+
+    it("should fall back on whether any scan exists", () => {
+      expect(normalizeTrackingStatus({ ...baseInput, description: "Status update" })).toBe("IN_TRANSIT");
+      expect(normalizeTrackingStatus({ ...baseInput, hasEvents: false })).toBe("LABEL_CREATED");
+    });
+  });
+
+  describe("trackingStatusFromShopify", () => {
+    it("should map known Shopify shipment statuses", () => {
+      expect(trackingStatusFromShopify("label_printed")).toBe("LABEL_CREATED");
+      expect(trackingStatusFromShopify("out_for_delivery")).toBe("OUT_FOR_DELIVERY");
+      expect(trackingStatusFromShopify("attempted_delivery")).toBe("DELIVERY_ATTEMPTED");
+      expect(trackingStatusFromShopify("failure")).toBe("EXCEPTION");
+    });
+
+    it("should return null for missing or unknown statuses", () => {
+      expect(trackingStatusFromShopify(null)).toBeNull();
+      expect(trackingStatusFromShopify("picked_up")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDeliveryWindowSuggestions,
+  countDeliveredAfterWindow,
+  countTransitSamples,
+  getDeliveryWindowSuggestions,
+  getTransitPercentile,
+  mergeTransitDayCounts,
+  type TransitTimeSummary,
+} from "../transit-times";
+import { DEFAULT_MERCHANT_SETTINGS } from "../validation";
+
+// 20 shipments: 2 days x4, 3 days x10, 4 days x4, 6 days x2
+const COUNTS = { "2": 4, "3": 10, "4": 4, "6": 2 };
+
+const createSummary = (overrides: Partial<TransitTimeSummary> = {}): TransitTimeSummary => ({
+  serviceLevel: "ups_ground",
+  carrier: "UPS",
+  defaultDays: 5,
+  sampleSize: 20,
+  transitDayCounts: COUNTS,
+  lanes: [],
+  computedAt: "2026-02-04T04:00:00.000Z",
+  ...overrides,
+});
+
+describe("transit-times", () => {
+  describe("getTransitPercentile", () => {
+    it("should use the nearest rank", () => {
+      expect(getTransitPercentile(COUNTS, 50)).toBe(3);
+      expect(getTransitPercentile(COUNTS, 70)).toBe(3);
+      expect(getTransitPercentile(COUNTS, 75)).toBe(4);
+      expect(getTransitPercentile(COUNTS, 90)).toBe(4);
+      expect(getTransitPercentile(COUNTS, 95)).toBe(6);
+      expect(getTransitPercentile(COUNTS, 100)).toBe(6);
+    });
+
+    it("should sort days numerically", () => {
+      expect(getTransitPercentile({ "10": 1, "9": 1 }, 50)).toBe(9);
+    });
+
+    it("should return null without shipments", () => {
+      expect(getTransitPercentile({}, 90)).toBeNull();
+    });
+  });
+
+  describe("countDeliveredAfterWindow", () => {
+    it("should count shipments that took longer than the window", () => {
+      expect(countDeliveredAfterWindow(COUNTS, 5)).toBe(2);
+      expect(countDeliveredAfterWindow(COUNTS, 3)).toBe(6);
+      expect(countDeliveredAfterWindow(COUNTS, 6)).toBe(0);
+    });
+  });
+
+  describe("mergeTransitDayCounts", () => {
+    it("should add up counts by day", () => {
+      const merged = mergeTransitDayCounts([{ "2": 1, "3": 2 }, { "3": 1, "5": 4 }]);
+
+      expect(merged).toEqual({ "2": 1, "3": 3, "5": 4 });
+      expect(countTransitSamples(merged)).toBe(8);
+    });
+  });
+
+  describe("getDeliveryWindowSuggestions", () => {
+    it("should suggest the chosen percentile with a flagging preview", () => {
+      const suggestions = getDeliveryWindowSuggestions([createSummary()], DEFAULT_MERCHANT_SETTINGS);
+
+      expect(suggestions).toEqual([
+        {
+          serviceLevel: "ups_ground",
+          currentDays: 5,
+          suggestedDays: 4,
+          sampleSize: 20,
+          flaggedAtCurrent: 2,
+          flaggedAtSuggested: 2,
+        },
+      ]);
+    });
+
+    it("should compare against the merchant's override", () => {
+      const [suggestion] = getDeliveryWindowSuggestions([createSummary()], {
+        deliveryWindows: { ups_ground: 3 },
+        learnedDeliveryWindows: { percentile: 95, minSamples: 20, autoApply: false },
+      });
+
+      expect(suggestion).toMatchObject({
+        currentDays: 3,
+        suggestedDays: 6,
+        flaggedAtCurrent: 6,
+        flaggedAtSuggested: 0,
+      });
+    });
+
+    it("should skip service levels without enough shipments or already matching", () => {
+      const suggestions = getDeliveryWindowSuggestions(
+        [createSummary({ sampleSize: 19 }), createSummary({ serviceLevel: "ups_2nd_day_air", defaultDays: 4 })],
+        DEFAULT_MERCHANT_SETTINGS
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it("should never suggest a window under one business day", () => {
+      const [suggestion] = getDeliveryWindowSuggestions(
+        [createSummary({ transitDayCounts: { "0": 20 } })],
+        DEFAULT_MERCHANT_SETTINGS
+      );
+
+      expect(suggestion.suggestedDays).toBe(1);
+    });
+  });
+
+  describe("applyDeliveryWindowSuggestions", () => {
+    it("should set suggested windows, keeping other overrides", () => {
+      const windows = applyDeliveryWindowSuggestions({ ups_ground: 3, fedex_ground: 4 }, [
+        {
+          serviceLevel: "ups_ground",
+          currentDays: 3,
+          suggestedDays: 5,
+          sampleSize: 20,
+          flaggedAtCurrent: 6,
+          flaggedAtSuggested: 1,
+        },
+      ]);
+
+      expect(windows).toEqual({ ups_ground: 5, fedex_ground: 4 });
+    });
+  });
+});
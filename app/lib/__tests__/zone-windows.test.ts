@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import {
+  findZoneDeliveryWindow,
+  generateZoneCSV,
+  getAddressZip3,
+  normalizeZoneDestination,
+  normalizeZoneServiceLevel,
+  parseZoneCSV,
+  upsertZoneDeliveryWindow,
+  type ZoneDeliveryWindow,
+} from "../zone-windows";
+import { MerchantSettingsSchema } from "../validation";
+
+const zone = (overrides: Partial<ZoneDeliveryWindow> = {}): ZoneDeliveryWindow => ({
+  originLocationId: null,
+  destination: "US-CA",
+  serviceLevel: "usps_ground_advantage",
+  days: 3,
+  ...overrides,
+});
+
+const SERVICE_LEVELS = ["ups_ground", "ups_2nd_day_air", "fedex_ground", "usps_ground_advantage", "ground"];
+
+// San Francisco, as stored on Shipment.shippingAddress
+const SF_ADDRESS = { provinceCode: "CA", countryCode: "US", zip: "94105" };
+
+describe("zone-windows", () => {
+  describe("getAddressZip3", () => {
+    it("should take the first three digits of US ZIP codes", () => {
+      expect(getAddressZip3(SF_ADDRESS)).toBe("941");
+      expect(getAddressZip3({ country_code: "US", zip: "94105-1234" })).toBe("941");
+      expect(getAddressZip3({ zip: " 02134 " })).toBe("021");
+    });
+
+    it("should return null for other countries and malformed ZIP codes", () => {
+      expect(getAddressZip3({ provinceCode: "ON", countryCode: "CA", zip: "12345" })).toBeNull();
+      expect(getAddressZip3({ zip: "M5V 2T6" })).toBeNull();
+      expect(getAddressZip3({ zip: null })).toBeNull();
+      expect(getAddressZip3(null)).toBeNull();
+    });
+  });
+
+  describe("normalizeZoneDestination", () => {
+    it("should upper-case and strip spaces", () => {
+      expect(normalizeZoneDestination(" us-ca ")).toBe("US-CA");
+      expect(normalizeZoneDestination("on")).toBe("ON");
+      expect(normalizeZoneDestination("945")).toBe("945");
+    });
+
+    it("should reject anything but a state or ZIP3", () => {
+      expect(normalizeZoneDestination("94105")).toBeNull();
+      expect(normalizeZoneDestination("California")).toBeNull();
+      expect(normalizeZoneDestination("")).toBeNull();
+    });
+  });
+
+  describe("findZoneDeliveryWindow", () => {
+    const lane = { originLocationId: "loc-1", shippingAddress: SF_ADDRESS };
+
+    it("should match on service level, origin and destination", () => {
+      const match = zone({ originLocationId: "loc-1" });
+      expect(findZoneDeliveryWindow([match], "usps_ground_advantage", lane)).toBe(match);
+      expect(findZoneDeliveryWindow([match], "usps_priority_mail", lane)).toBeNull();
+      expect(
+        findZoneDeliveryWindow([match], "usps_ground_advantage", { ...lane, originLocationId: "loc-2" })
+      ).toBeNull();
+      expect(
+        findZoneDeliveryWindow([match], "usps_ground_advantage", {
+          ...lane,
+          shippingAddress: { provinceCode: "NY", countryCode: "US", zip: "10001" },
+        })
+      ).toBeNull();
+    });
+
+    it("should prefer ZIP3 over country and state over state alone", () => {
+      const state = zone({ destination: "CA", days: 5 });
+      const countryState = zone({ destination: "US-CA", days: 4 });
+      const zip3 = zone({ destination: "941", days: 2 });
+
+      expect(findZoneDeliveryWindow([state, countryState, zip3], "usps_ground_advantage", lane)).toBe(zip3);
+      expect(findZoneDeliveryWindow([state, countryState], "usps_ground_advantage", lane)).toBe(countryState);
+    });
+
+    it("should prefer a specific origin for the same destination", () => {
+      const anyOrigin = zone({ days: 4 });
+      const fromLoc1 = zone({ originLocationId: "loc-1", days: 2 });
+      expect(findZoneDeliveryWindow([anyOrigin, fromLoc1], "usps_ground_advantage", lane)).toBe(fromLoc1);
+    });
+
+    it("should prefer a more specific destination over a specific origin", () => {
+      const zip3 = zone({ destination: "941", days: 2 });
+      const fromLoc1 = zone({ originLocationId: "loc-1", days: 4 });
+      expect(findZoneDeliveryWindow([fromLoc1, zip3], "usps_ground_advantage", lane)).toBe(zip3);
+    });
+
+    it("should not match a country-qualified state in another country", () => {
+      const canadaOntario = { provinceCode: "ON", countryCode: "CA" };
+      expect(
+        findZoneDeliveryWindow([zone({ destination: "US-ON" })], "usps_ground_advantage", {
+          originLocationId: null,
+          shippingAddress: canadaOntario,
+        })
+      ).toBeNull();
+    });
+
+    it("should return null without a service level", () => {
+      expect(findZoneDeliveryWindow([zone()], null, lane)).toBeNull();
+    });
+  });
+
+  describe("upsertZoneDeliveryWindow", () => {
+    it("should replace a window for the same lane and service level", () => {
+      const zones = [zone({ days: 3 }), zone({ destination: "945" })];
+      const updated = upsertZoneDeliveryWindow(zones, zone({ days: 6 }));
+
+      expect(updated).toHaveLength(2);
+      expect(updated[0].days).toBe(6);
+    });
+
+    it("should append a new lane", () => {
+      expect(upsertZoneDeliveryWindow([zone()], zone({ originLocationId: "loc-1" }))).toHaveLength(2);
+    });
+  });
+
+  describe("normalizeZoneServiceLevel", () => {
+    it("should key service levels like delay detection does", () => {
+      expect(normalizeZoneServiceLevel("UPS Ground", SERVICE_LEVELS)).toBe("ups_ground");
+      expect(normalizeZoneServiceLevel(" USPS Ground Advantage™ ", SERVICE_LEVELS)).toBe("usps_ground_advantage");
+      expect(normalizeZoneServiceLevel("ups-2nd-day-air", SERVICE_LEVELS)).toBe("ups_2nd_day_air");
+      expect(normalizeZoneServiceLevel("Ground", SERVICE_LEVELS)).toBe("ground");
+    });
+
+    it("should add the carrier prefix when only one carrier has the level", () => {
+      expect(normalizeZoneServiceLevel("2nd Day Air", SERVICE_LEVELS)).toBe("ups_2nd_day_air");
+      expect(normalizeZoneServiceLevel("Ground Advantage", SERVICE_LEVELS)).toBe("usps_ground_advantage");
+    });
+
+    it("should return null for unknown service levels", () => {
+      expect(normalizeZoneServiceLevel("Teleport", SERVICE_LEVELS)).toBeNull();
+      expect(normalizeZoneServiceLevel("", SERVICE_LEVELS)).toBeNull();
+    });
+  });
+
+  describe("CSV import and export", () => {
+    it("should round-trip the zone matrix", () => {
+      const zones = [zone(), zone({ originLocationId: "gid,1", destination: "945", days: 2 })];
+      const csv = generateZoneCSV(zones);
+
+      expect(csv.split("\n")[0]).toBe("origin_location_id,destination,service_level,days");
+      expect(csv).toContain("*,US-CA,usps_ground_advantage,3");
+      expect(parseZoneCSV(csv, SERVICE_LEVELS)).toEqual({ zones, errors: [] });
+    });
+
+    it("should accept columns in any order, a blank origin and CRLF line endings", () => {
+      const csv = "days,Service_Level,destination,origin_location_id\r\n4,UPS_GROUND, us-ny ,\r\n";
+
+      expect(parseZoneCSV(csv, SERVICE_LEVELS).zones).toEqual([
+        { originLocationId: null, destination: "US-NY", serviceLevel: "ups_ground", days: 4 },
+      ]);
+    });
+
+    it("should skip invalid rows with their line numbers", () => {
+      const csv = [
+        "origin_location_id,destination,service_level,days",
+        "*,California,ups_ground,3",
+        "*,US-CA,,3",
+        "*,US-CA,ups_ground,0",
+        "*,US-CA,ups_ground,2.5",
+        "*,US-NV,ups_ground,3",
+      ].join("\n");
+
+      const { zones, errors } = parseZoneCSV(csv, SERVICE_LEVELS);
+
+      expect(zones).toHaveLength(1);
+      expect(errors.map((error) => error.line)).toEqual([2, 3, 4, 5]);
+      expect(errors[0].message).toContain("Invalid destination");
+    });
+
+    it("should normalize service levels and skip unknown ones", () => {
+      const csv = [
+        "origin_location_id,destination,service_level,days",
+        "*,US-CA,UPS Ground,3",
+        "*,US-CA,2nd Day Air,2",
+        "*,US-CA,Pony Express,9",
+      ].join("\n");
+
+      const { zones, errors } = parseZoneCSV(csv, SERVICE_LEVELS);
+
+      expect(zones.map((zone) => zone.serviceLevel)).toEqual(["ups_ground", "ups_2nd_day_air"]);
+      expect(errors).toEqual([
+        {
+          line: 4,
+          message: 'Unknown service level "Pony Express": use one from the service level list, like "ups_ground"',
+        },
+      ]);
+    });
+
+    it("should report missing columns", () => {
+      expect(parseZoneCSV("destination,days\nUS-CA,3", SERVICE_LEVELS).errors).toEqual([
+        { line: 1, message: "Missing column: origin_location_id, service_level" },
+      ]);
+    });
+
+    it("should report an empty file", () => {
+      expect(parseZoneCSV("\n", SERVICE_LEVELS).errors[0].message).toBe("The file is empty");
+    });
+
+    it("should keep the last row for a repeated lane", () => {
+      const csv = "origin_location_id,destination,service_level,days\n*,945,ups_ground,3\n*,945,ups_ground,5";
+      expect(parseZoneCSV(csv, SERVICE_LEVELS).zones).toEqual([
+        { originLocationId: null, destination: "945", serviceLevel: "ups_ground", days: 5 },
+      ]);
+    });
+
+    it("should produce windows the settings schema accepts", () => {
+      const { zones } = parseZoneCSV(generateZoneCSV([zone(), zone({ destination: "ON" })]), SERVICE_LEVELS);
+      expect(MerchantSettingsSchema.safeParse({ zoneDeliveryWindows: zones }).success).toBe(true);
+    });
+  });
+});
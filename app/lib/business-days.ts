@@ -3,13 +3,14 @@
  *
  * Provides functions for calculating business days between dates,
  * adding business days to dates, and checking if a date is a business day.
- * Business days exclude weekends (Saturday and Sunday).
+ * Business days exclude weekends (Saturday and Sunday) and, when a holiday
+ * calendar is given, the carrier's holidays and merchant blackout dates
+ * (see holidays.ts).
  *
- * Note: This implementation does not account for federal holidays.
- * For most shipping calculations, this is acceptable as carriers
- * have their own holiday schedules.
- *
- * All functions work in UTC to avoid timezone issues.
+ * Calendar days are Dates at UTC midnight. Functions that turn an instant
+ * into a day, or a day into a deadline, take an optional IANA timezone so
+ * days follow the delivery address's clock (see timezones.ts); without one
+ * they work in UTC.
  */
 
 import {
@@ -18,6 +19,8 @@ import {
   isBefore,
   isEqual,
 } from "date-fns";
+import { isHoliday, type HolidayCalendar } from "./holidays";
+import { startOfDayInTimeZone, toCalendarDay } from "./timezones";
 
 /**
  * Get the UTC day of week (0 = Sunday, 6 = Saturday)
@@ -44,19 +47,28 @@ function startOfDayUTC(date: Date): Date {
 }
 
 /**
- * Check if a given date is a business day (Monday-Friday) in UTC.
+ * Get the calendar day of an instant in a timezone (UTC if none).
+ */
+function calendarDayOf(date: Date, timeZone?: string): Date {
+  return timeZone ? toCalendarDay(date, timeZone) : startOfDayUTC(date);
+}
+
+/**
+ * Check if a given date is a business day (Monday-Friday, not a holiday) in UTC.
  */
-export function isBusinessDay(date: Date): boolean {
-  return !isWeekendUTC(date);
+export function isBusinessDay(date: Date, calendar?: HolidayCalendar): boolean {
+  return !isWeekendUTC(date) && !(calendar && isHoliday(date, calendar));
 }
 
 /**
  * Add a specified number of business days to a date.
- * If the starting date is a weekend, it first moves to the next business day
- * before starting to count.
+ * If the starting date is not a business day, it first moves to the next
+ * business day before starting to count.
  *
  * @param startDate - The starting date
  * @param businessDays - Number of business days to add (must be >= 0)
+ * @param calendar - Holidays to skip besides weekends (optional)
+ * @param timeZone - Timezone the start date's day is read in (optional, UTC if omitted)
  * @returns The resulting date after adding business days
  *
  * @example
@@ -66,27 +78,32 @@ export function isBusinessDay(date: Date): boolean {
  * // Monday + 5 business days = Monday (next week)
  * addBusinessDays(new Date('2026-02-02'), 5) // Monday -> Monday
  */
-export function addBusinessDays(startDate: Date, businessDays: number): Date {
+export function addBusinessDays(
+  startDate: Date,
+  businessDays: number,
+  calendar?: HolidayCalendar,
+  timeZone?: string
+): Date {
   if (businessDays < 0) {
     throw new Error("businessDays must be non-negative");
   }
 
   if (businessDays === 0) {
-    return startOfDayUTC(startDate);
+    return calendarDayOf(startDate, timeZone);
   }
 
-  let currentDate = startOfDayUTC(startDate);
+  let currentDate = calendarDayOf(startDate, timeZone);
   let daysToAdd = businessDays;
 
-  // If starting on a weekend, move to next business day without counting it
-  while (isWeekendUTC(currentDate)) {
+  // If starting on a weekend or holiday, move to next business day without counting it
+  while (!isBusinessDay(currentDate, calendar)) {
     currentDate = addDays(currentDate, 1);
   }
 
   // Now add the required number of business days
   while (daysToAdd > 0) {
     currentDate = addDays(currentDate, 1);
-    if (isBusinessDay(currentDate)) {
+    if (isBusinessDay(currentDate, calendar)) {
       daysToAdd--;
     }
   }
@@ -100,13 +117,18 @@ export function addBusinessDays(startDate: Date, businessDays: number): Date {
  *
  * @param startDate - The start date
  * @param endDate - The end date
+ * @param calendar - Holidays to skip besides weekends (optional)
  * @returns Number of business days between the dates
  *
  * @example
  * // Monday to Friday = 4 business days (Mon, Tue, Wed, Thu)
  * differenceInBusinessDays(new Date('2026-02-02'), new Date('2026-02-06'))
  */
-export function differenceInBusinessDays(startDate: Date, endDate: Date): number {
+export function differenceInBusinessDays(
+  startDate: Date,
+  endDate: Date,
+  calendar?: HolidayCalendar
+): number {
   const start = startOfDayUTC(startDate);
   const end = startOfDayUTC(endDate);
 
@@ -123,7 +145,7 @@ export function differenceInBusinessDays(startDate: Date, endDate: Date): number
   let current = from;
 
   while (isBefore(current, to)) {
-    if (isBusinessDay(current)) {
+    if (isBusinessDay(current, calendar)) {
       businessDays++;
     }
     current = addDays(current, 1);
@@ -137,11 +159,12 @@ export function differenceInBusinessDays(startDate: Date, endDate: Date): number
  * If the given date is a business day, returns that date.
  *
  * @param date - The starting date
+ * @param calendar - Holidays to skip besides weekends (optional)
  * @returns The next business day (or the same day if it's a business day)
  */
-export function nextBusinessDay(date: Date): Date {
+export function nextBusinessDay(date: Date, calendar?: HolidayCalendar): Date {
   let current = startOfDayUTC(date);
-  while (!isBusinessDay(current)) {
+  while (!isBusinessDay(current, calendar)) {
     current = addDays(current, 1);
   }
   return current;
@@ -153,36 +176,72 @@ export function nextBusinessDay(date: Date): Date {
  *
  * @param shipDate - The date the package was shipped
  * @param businessDays - Number of business days for delivery
+ * @param calendar - The carrier's holidays and merchant blackout dates (optional)
+ * @param timeZone - Timezone the ship date's day is read in (optional, UTC if omitted)
  * @returns The expected delivery date
  *
  * @example
  * // Shipped Monday, 5 business day delivery = delivery by end of next Monday
  * calculateExpectedDeliveryDate(new Date('2026-02-02'), 5)
  */
-export function calculateExpectedDeliveryDate(shipDate: Date, businessDays: number): Date {
-  return addBusinessDays(shipDate, businessDays);
+export function calculateExpectedDeliveryDate(
+  shipDate: Date,
+  businessDays: number,
+  calendar?: HolidayCalendar,
+  timeZone?: string
+): Date {
+  return addBusinessDays(shipDate, businessDays, calendar, timeZone);
+}
+
+/**
+ * Count the calendar's holidays after one day, up to and including another.
+ */
+function countHolidaysBetween(after: Date, through: Date, calendar: HolidayCalendar): number {
+  let count = 0;
+  for (let day = addDays(after, 1); !isBefore(through, day); day = addDays(day, 1)) {
+    if (isHoliday(day, calendar)) {
+      count++;
+    }
+  }
+  return count;
 }
 
 /**
  * Check if a shipment is past its expected delivery date plus grace period.
  * This is used for delay detection when no carrier exception is present.
  *
+ * Holidays right after the expected delivery date don't use up the grace
+ * period: a package due the day before Thanksgiving gets its grace hours
+ * from the Friday.
+ *
+ * With a timezone, the expected delivery day ends at local midnight, so a
+ * West Coast package isn't past its deadline in the afternoon of its
+ * delivery day. Grace hours are elapsed hours, across DST changes too.
+ *
  * @param expectedDeliveryDate - The expected delivery date
  * @param graceHours - Hours of grace period after expected delivery (default: 8)
  * @param now - Current date/time (optional, defaults to now)
+ * @param calendar - The carrier's holidays and merchant blackout dates (optional)
+ * @param timeZone - Timezone the delivery day ends in (optional, UTC if omitted)
  * @returns Whether the shipment is past the deadline
  */
 export function isPastDeadline(
   expectedDeliveryDate: Date,
   graceHours: number = 8,
-  now: Date = new Date()
+  now: Date = new Date(),
+  calendar?: HolidayCalendar,
+  timeZone?: string
 ): boolean {
-  // Calculate deadline: end of expected delivery day + grace hours (in UTC)
-  const deadline = new Date(expectedDeliveryDate);
-  // Set to end of day in UTC (23:59:59.999)
-  deadline.setUTCHours(23, 59, 59, 999);
-  // Add grace hours
-  deadline.setTime(deadline.getTime() + graceHours * 60 * 60 * 1000);
+  let lastDay = startOfDayUTC(expectedDeliveryDate);
+  // Skip holidays following the expected delivery day
+  while (calendar && isHoliday(addDays(lastDay, 1), calendar)) {
+    lastDay = addDays(lastDay, 1);
+  }
+
+  // Calculate deadline: end of the day (23:59:59.999 local) + grace hours
+  const nextDay = addDays(lastDay, 1);
+  const endOfDay = (timeZone ? startOfDayInTimeZone(nextDay, timeZone) : nextDay).getTime() - 1;
+  const deadline = new Date(endOfDay + graceHours * 60 * 60 * 1000);
 
   return now > deadline;
 }
@@ -193,15 +252,76 @@ export function isPastDeadline(
  *
  * @param expectedDeliveryDate - The expected delivery date
  * @param now - Current date (optional, defaults to now)
- * @returns Number of calendar days delayed (0 if not delayed)
+ * @param calendar - Holidays not counted as days delayed (optional)
+ * @param timeZone - Timezone today's date is read in (optional, UTC if omitted)
+ * @returns Number of calendar days delayed, less holidays (0 if not delayed)
  */
 export function calculateDaysDelayed(
   expectedDeliveryDate: Date,
-  now: Date = new Date()
+  now: Date = new Date(),
+  calendar?: HolidayCalendar,
+  timeZone?: string
 ): number {
   const expected = startOfDayUTC(expectedDeliveryDate);
-  const current = startOfDayUTC(now);
+  const current = calendarDayOf(now, timeZone);
 
   const diff = differenceInCalendarDays(current, expected);
-  return Math.max(0, diff);
+  if (diff <= 0) {
+    return 0;
+  }
+  return calendar ? diff - countHolidaysBetween(expected, current, calendar) : diff;
+}
+
+/**
+ * Count the full business days that have passed since the day of an event,
+ * excluding that day and today.
+ *
+ * @param since - When the event happened
+ * @param now - Current date (optional, defaults to now)
+ * @param calendar - Holidays to skip besides weekends (optional)
+ * @param timeZone - Timezone both days are read in (optional, UTC if omitted)
+ * @returns Number of business days passed (0 if the event was today or yesterday)
+ *
+ * @example
+ * // Scanned Friday, now Thursday = 3 business days (Mon, Tue, Wed)
+ * businessDaysSince(new Date('2026-02-06T15:00:00Z'), new Date('2026-02-12T09:00:00Z'))
+ */
+export function businessDaysSince(
+  since: Date,
+  now: Date = new Date(),
+  calendar?: HolidayCalendar,
+  timeZone?: string
+): number {
+  const dayAfter = addDays(calendarDayOf(since, timeZone), 1);
+  const today = calendarDayOf(now, timeZone);
+  return Math.max(0, differenceInBusinessDays(dayAfter, today, calendar));
+}
+
+/**
+ * Business days a delivered shipment spent in transit: the smallest window
+ * (as used by calculateExpectedDeliveryDate) its delivery day fits in. A
+ * shipment shipped Monday and delivered Wednesday took 2 days; one shipped
+ * Saturday counts from Monday.
+ *
+ * @param shipDate - When the shipment was shipped
+ * @param deliveredAt - When it was delivered
+ * @param calendar - Holidays to skip besides weekends (optional)
+ * @param timeZone - Timezone both days are read in (optional, UTC if omitted)
+ * @returns Business days in transit (0 if delivered on the ship day)
+ */
+export function businessDaysInTransit(
+  shipDate: Date,
+  deliveredAt: Date,
+  calendar?: HolidayCalendar,
+  timeZone?: string
+): number {
+  let firstDay = calendarDayOf(shipDate, timeZone);
+  while (!isBusinessDay(firstDay, calendar)) {
+    firstDay = addDays(firstDay, 1);
+  }
+  const deliveryDay = calendarDayOf(deliveredAt, timeZone);
+  return Math.max(
+    0,
+    differenceInBusinessDays(addDays(firstDay, 1), addDays(deliveryDay, 1), calendar)
+  );
 }
@@ -5,6 +5,9 @@
  */
 
 import { format, parseISO } from "date-fns";
+import type { TrackingStatus } from "@prisma/client";
+import { getCarrierDefinition } from "~/services/carriers/carrier.registry";
+import { TRACKING_STATUS_LABELS } from "./tracking-status";
 
 /**
  * Shipment data structure for CSV export
@@ -21,6 +24,7 @@ export interface ShipmentExportData {
   shipDate: Date;
   expectedDeliveryDate: Date | null;
   currentStatus: string;
+  trackingStatus: TrackingStatus;
   isDelayed: boolean;
   daysDelayed: number;
   isDelivered: boolean;
@@ -61,6 +65,7 @@ const CSV_COLUMNS: Array<{
   { header: "Ship Date", getValue: (s) => formatDate(s.shipDate) },
   { header: "Expected Delivery", getValue: (s) => formatDate(s.expectedDeliveryDate) },
   { header: "Current Status", getValue: (s) => s.currentStatus },
+  { header: "Tracking Status", getValue: (s) => TRACKING_STATUS_LABELS[s.trackingStatus] ?? s.trackingStatus },
   { header: "Delayed", getValue: (s) => s.isDelayed ? "Yes" : "No" },
   { header: "Days Delayed", getValue: (s) => s.isDelayed ? String(s.daysDelayed) : "0" },
   { header: "Delivered", getValue: (s) => s.isDelivered ? "Yes" : "No" },
@@ -81,18 +86,11 @@ const CSV_COLUMNS: Array<{
  * Format carrier name for display
  */
 function formatCarrier(carrier: string): string {
-  switch (carrier.toUpperCase()) {
-    case "UPS":
-      return "UPS";
-    case "FEDEX":
-      return "FedEx";
-    case "USPS":
-      return "USPS";
-    case "UNKNOWN":
-      return "Unknown";
-    default:
-      return carrier;
+  if (carrier.toUpperCase() === "UNKNOWN") {
+    return "Unknown";
   }
+
+  return getCarrierDefinition(carrier)?.shortName ?? carrier;
 }
 
 /**
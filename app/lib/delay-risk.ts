@@ -0,0 +1,68 @@
+/**
+ * Delay Risk Levels
+ *
+ * Client-safe constants and helpers for the delay risk score stored on
+ * Shipment.riskScore (computed by delay-risk.service.ts).
+ */
+
+/**
+ * Score at or above which an undelivered, not yet delayed shipment is "at risk".
+ */
+export const AT_RISK_SCORE = 50;
+
+/**
+ * Score at or above which a shipment's risk is shown as medium.
+ */
+export const MEDIUM_RISK_SCORE = 25;
+
+export type RiskLevel = "LOW" | "MEDIUM" | "HIGH";
+
+/**
+ * Signals that contribute to the risk score.
+ */
+export type RiskFactorCode =
+  | "NO_RECENT_SCAN" // Time since the last scan (or since the label was created)
+  | "SLOW_SCAN_CADENCE" // Current gap between scans is much longer than usual
+  | "OUTSIDE_DESTINATION" // Still outside the destination state close to the deadline
+  | "LANE_EXCEPTIONS" // Recent shipments on the same lane had exceptions or delays
+  | "DEADLINE_NEAR"; // Few business days left until expected delivery
+
+/**
+ * One signal's contribution to a risk score.
+ */
+export interface RiskFactor {
+  code: RiskFactorCode;
+  points: number;
+  /** Human-readable explanation shown to merchants */
+  description: string;
+}
+
+/**
+ * Get the risk level of a score.
+ */
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= AT_RISK_SCORE) {
+    return "HIGH";
+  }
+  if (score >= MEDIUM_RISK_SCORE) {
+    return "MEDIUM";
+  }
+  return "LOW";
+}
+
+/**
+ * Check whether a shipment counts as at risk: scored high and not already
+ * delayed or delivered.
+ */
+export function isAtRisk(shipment: {
+  riskScore: number | null;
+  isDelayed: boolean;
+  isDelivered: boolean;
+}): boolean {
+  return (
+    shipment.riskScore !== null &&
+    shipment.riskScore >= AT_RISK_SCORE &&
+    !shipment.isDelayed &&
+    !shipment.isDelivered
+  );
+}
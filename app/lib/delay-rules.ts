@@ -0,0 +1,336 @@
+/**
+ * Delay Rules
+ *
+ * Client-safe model and matcher for merchants' custom delay rules. A rule has
+ * conditions on the shipment and its carrier status, all of which must match,
+ * and actions that change how evaluateDelay treats the shipment:
+ * - ignore: never flag it as delayed
+ * - ignore_exception: a carrier exception alone doesn't flag it
+ * - set_grace_hours: hours after expected delivery before flagging, in place
+ *   of the merchant's delay threshold, and after a carrier exception scan
+ *   before flagging the exception
+ * - set_severity: severity of the delay when flagged
+ *
+ * Rules are checked in order. Every matching rule is reported, but for grace
+ * hours and severity the first matching rule that sets them wins.
+ *
+ * Examples:
+ * - Flag high-value orders after 4 hours: order value > 200 → grace 4 hours
+ * - Never flag test data: test data is true → ignore
+ * - USPS "Notice Left" only after 2 days: carrier is USPS, carrier status
+ *   contains "notice left" → grace 48 hours
+ */
+
+import { z } from "zod";
+import type { DelaySeverity, ExceptionCategory } from "@prisma/client";
+
+/**
+ * Delay severities, least severe first
+ */
+export const DELAY_SEVERITIES = ["LOW", "MEDIUM", "CRITICAL"] as const satisfies readonly DelaySeverity[];
+
+/**
+ * Most delay rules a merchant can have
+ */
+export const MAX_DELAY_RULES = 50;
+
+type FieldType = "number" | "boolean" | "enum" | "text";
+
+/**
+ * Shipment fields rule conditions can check
+ */
+export const DELAY_RULE_FIELDS = {
+  orderValue: { label: "Order value", type: "number" },
+  isTestData: { label: "Test data", type: "boolean" },
+  carrier: { label: "Carrier", type: "enum" },
+  serviceLevel: { label: "Service level", type: "enum" },
+  trackingStatus: { label: "Tracking status", type: "enum" },
+  carrierStatus: { label: "Carrier status", type: "text" },
+  exceptionCode: { label: "Exception code", type: "text" },
+  exceptionCategory: { label: "Exception category", type: "enum" },
+} as const satisfies Record<string, { label: string; type: FieldType }>;
+
+export type DelayRuleField = keyof typeof DELAY_RULE_FIELDS;
+
+/**
+ * Comparisons, with their labels
+ */
+export const DELAY_RULE_OPERATORS = {
+  is: "is",
+  equals: "equals",
+  not_equals: "does not equal",
+  in: "is one of",
+  contains: "contains",
+  greater_than: "is greater than",
+  at_least: "is at least",
+  less_than: "is less than",
+  at_most: "is at most",
+} as const;
+
+export type DelayRuleOperator = keyof typeof DELAY_RULE_OPERATORS;
+
+/**
+ * Operators each field type can use
+ */
+export const FIELD_TYPE_OPERATORS: Record<FieldType, readonly DelayRuleOperator[]> = {
+  number: ["greater_than", "at_least", "less_than", "at_most", "equals"],
+  boolean: ["is"],
+  enum: ["equals", "not_equals", "in"],
+  text: ["equals", "not_equals", "in", "contains"],
+};
+
+const FIELD_KEYS = Object.keys(DELAY_RULE_FIELDS) as [DelayRuleField, ...DelayRuleField[]];
+const OPERATOR_KEYS = Object.keys(DELAY_RULE_OPERATORS) as [DelayRuleOperator, ...DelayRuleOperator[]];
+
+const DelayRuleConditionSchema = z
+  .object({
+    field: z.enum(FIELD_KEYS),
+    operator: z.enum(OPERATOR_KEYS),
+    value: z.union([
+      z.number(),
+      z.boolean(),
+      z.string().trim().min(1).max(200),
+      z.array(z.string().trim().min(1).max(200)).min(1).max(50),
+    ]),
+  })
+  .refine((condition) => isValidCondition(condition), {
+    message: "The comparison or value doesn't fit the field",
+  });
+
+const DelayRuleActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ignore") }),
+  z.object({ type: z.literal("ignore_exception") }),
+  z.object({ type: z.literal("set_grace_hours"), hours: z.number().min(0).max(720) }),
+  z.object({ type: z.literal("set_severity"), severity: z.enum(DELAY_SEVERITIES) }),
+]);
+
+/**
+ * A merchant's delay rule, as stored in MerchantSettings.delayRules
+ */
+export const DelayRuleSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  conditions: z.array(DelayRuleConditionSchema).min(1).max(10),
+  actions: z.array(DelayRuleActionSchema).min(1).max(4),
+});
+
+export type DelayRule = z.infer<typeof DelayRuleSchema>;
+export type DelayRuleCondition = DelayRule["conditions"][number];
+export type DelayRuleAction = DelayRule["actions"][number];
+
+/**
+ * What rule conditions are checked against
+ */
+export interface DelayRuleContext {
+  orderValue: number | null;
+  isTestData: boolean;
+  carrier: string;
+  /** Normalized service level key (see normalizeServiceLevel) */
+  serviceLevel: string | null;
+  trackingStatus: string;
+  /** Carrier's status text, e.g. "Notice Left (No Authorized Recipient Available)" */
+  carrierStatus: string | null;
+  exceptionCode: string | null;
+  /** Normalized exception category (see exception-taxonomy.ts) */
+  exceptionCategory: ExceptionCategory | null;
+}
+
+/**
+ * A rule that matched a shipment
+ */
+export interface MatchedDelayRule {
+  ruleId: string;
+  ruleName: string;
+  actions: DelayRuleAction[];
+}
+
+/**
+ * The combined effect of a merchant's rules on a shipment
+ */
+export interface DelayRuleOutcome {
+  matchedRules: MatchedDelayRule[];
+  ignore: boolean;
+  ignoreException: boolean;
+  /** Replaces the delay threshold, or null to keep it */
+  graceHours: number | null;
+  severity: DelaySeverity | null;
+}
+
+/**
+ * Whether a condition's operator and value fit its field.
+ */
+export function isValidCondition(condition: {
+  field: DelayRuleField;
+  operator: DelayRuleOperator;
+  value: unknown;
+}): boolean {
+  const { type } = DELAY_RULE_FIELDS[condition.field];
+  if (!FIELD_TYPE_OPERATORS[type].includes(condition.operator)) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case "is":
+      return typeof condition.value === "boolean";
+    case "in":
+      return Array.isArray(condition.value);
+    case "equals":
+    case "not_equals":
+      return type === "number" ? typeof condition.value === "number" : typeof condition.value === "string";
+    case "contains":
+      return typeof condition.value === "string";
+    default:
+      return typeof condition.value === "number";
+  }
+}
+
+/**
+ * Compare strings ignoring case and surrounding spaces.
+ */
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Whether a shipment meets a condition. Missing values (no order value, no
+ * exception code) only meet "does not equal".
+ */
+export function matchesCondition(condition: DelayRuleCondition, context: DelayRuleContext): boolean {
+  const actual = context[condition.field];
+  const { operator, value } = condition;
+
+  if (operator === "is") {
+    return actual === value;
+  }
+  if (actual === null) {
+    return operator === "not_equals";
+  }
+
+  if (typeof actual === "number") {
+    if (typeof value !== "number") return false;
+    switch (operator) {
+      case "greater_than":
+        return actual > value;
+      case "at_least":
+        return actual >= value;
+      case "less_than":
+        return actual < value;
+      case "at_most":
+        return actual <= value;
+      case "equals":
+        return actual === value;
+      default:
+        return false;
+    }
+  }
+
+  if (typeof actual !== "string") {
+    return false;
+  }
+  const text = normalizeText(actual);
+  switch (operator) {
+    case "equals":
+      return typeof value === "string" && text === normalizeText(value);
+    case "not_equals":
+      return typeof value === "string" && text !== normalizeText(value);
+    case "in":
+      return Array.isArray(value) && value.some((option) => text === normalizeText(option));
+    case "contains":
+      return typeof value === "string" && text.includes(normalizeText(value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a merchant's enabled rules to a shipment.
+ *
+ * @param rules - The merchant's rules, in order
+ * @param context - The shipment's fields and carrier status
+ */
+export function applyDelayRules(rules: readonly DelayRule[], context: DelayRuleContext): DelayRuleOutcome {
+  const outcome: DelayRuleOutcome = {
+    matchedRules: [],
+    ignore: false,
+    ignoreException: false,
+    graceHours: null,
+    severity: null,
+  };
+
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.conditions.every((condition) => matchesCondition(condition, context))) {
+      continue;
+    }
+
+    outcome.matchedRules.push({ ruleId: rule.id, ruleName: rule.name, actions: rule.actions });
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case "ignore":
+          outcome.ignore = true;
+          break;
+        case "ignore_exception":
+          outcome.ignoreException = true;
+          break;
+        case "set_grace_hours":
+          outcome.graceHours ??= action.hours;
+          break;
+        case "set_severity":
+          outcome.severity ??= action.severity;
+          break;
+      }
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * The most severe of some delays' severities, or null if none has one.
+ */
+export function getHighestSeverity(
+  severities: ReadonlyArray<DelaySeverity | null | undefined>
+): DelaySeverity | null {
+  let highest: DelaySeverity | null = null;
+  for (const severity of severities) {
+    if (severity && (!highest || DELAY_SEVERITIES.indexOf(severity) > DELAY_SEVERITIES.indexOf(highest))) {
+      highest = severity;
+    }
+  }
+  return highest;
+}
+
+/**
+ * Display label for a delay severity, e.g. "Critical".
+ */
+export function formatDelaySeverity(severity: DelaySeverity): string {
+  return `${severity.charAt(0)}${severity.slice(1).toLowerCase()}`;
+}
+
+/**
+ * Describe a condition, e.g. "Order value is greater than 200".
+ */
+export function describeCondition(condition: DelayRuleCondition): string {
+  const field = DELAY_RULE_FIELDS[condition.field].label;
+  if (condition.operator === "is") {
+    return condition.value ? field : `Not ${field.toLowerCase()}`;
+  }
+  const value = Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value);
+  return `${field} ${DELAY_RULE_OPERATORS[condition.operator]} ${value}`;
+}
+
+/**
+ * Describe an action, e.g. "Flag after 4 hours".
+ */
+export function describeAction(action: DelayRuleAction): string {
+  switch (action.type) {
+    case "ignore":
+      return "Never flag";
+    case "ignore_exception":
+      return "Ignore carrier exceptions";
+    case "set_grace_hours":
+      return `Flag after ${action.hours} ${action.hours === 1 ? "hour" : "hours"}`;
+    case "set_severity":
+      return `${formatDelaySeverity(action.severity)} severity`;
+  }
+}
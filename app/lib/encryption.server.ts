@@ -0,0 +1,86 @@
+/**
+ * Secret Encryption
+ *
+ * AES-256-GCM encryption for secrets stored in the database, such as
+ * merchant carrier API credentials. The key comes from the
+ * CREDENTIALS_ENCRYPTION_KEY environment variable (32 bytes, base64 encoded).
+ *
+ * Encrypted values are stored as "v1.<iv>.<auth tag>.<ciphertext>" with each
+ * part base64 encoded, so the format can change without a data migration.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+/**
+ * Version prefix of the current encrypted value format.
+ */
+const FORMAT_VERSION = "v1";
+
+/**
+ * AES-256-GCM initialization vector length in bytes.
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Get the encryption key from the environment.
+ */
+function getKey(): Buffer {
+  const encodedKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!encodedKey) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY environment variable is required");
+  }
+
+  const key = Buffer.from(encodedKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+  }
+
+  return key;
+}
+
+/**
+ * Whether a secret encryption key is configured.
+ */
+export function isEncryptionConfigured(): boolean {
+  try {
+    getKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypt a secret for storage.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(".");
+}
+
+/**
+ * Decrypt a stored secret.
+ * Throws when the value is malformed, was encrypted with another key, or was tampered with.
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, authTag, ciphertext] = encrypted.split(".");
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Unrecognized encrypted value format");
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,247 @@
+/**
+ * Exception Taxonomy
+ *
+ * Carrier-independent categories for carrier exceptions, stored in
+ * Shipment.exceptionCategory beside the raw carrier code and reason. Each
+ * carrier adapter maps the exception codes it knows precisely to a category,
+ * and the reason and status descriptions are matched against the keywords
+ * below for the rest (most carriers describe a problem better than they code it).
+ *
+ * Delays also get a severity: a merchant delay rule can set one (see
+ * delay-rules.ts), otherwise it is derived from the exception category, why
+ * the shipment was flagged and how late it is (see deriveDelaySeverity).
+ *
+ * This module is client-safe: dashboard filters, badges and template
+ * previews read from it.
+ */
+
+import type { DelayReason, DelaySeverity, ExceptionCategory, TrackingStatus } from "@prisma/client";
+import { getHighestSeverity } from "./delay-rules";
+
+/**
+ * Display labels for every exception category.
+ * Keyed by category so a new ExceptionCategory value fails type-checking until it is labelled.
+ */
+export const EXCEPTION_CATEGORY_LABELS: Record<ExceptionCategory, string> = {
+  WEATHER: "Weather",
+  ADDRESS_ISSUE: "Address issue",
+  CUSTOMS: "Customs",
+  DAMAGED: "Damaged",
+  LOST: "Lost",
+  HELD_AT_FACILITY: "Held at facility",
+  DELIVERY_ATTEMPTED: "Delivery attempted",
+  RECIPIENT_UNAVAILABLE: "Recipient unavailable",
+  REFUSED: "Refused",
+  RETURNED_TO_SENDER: "Returned to sender",
+  CARRIER_DELAY: "Carrier delay",
+  OTHER: "Other",
+};
+
+/**
+ * All exception categories.
+ */
+export const EXCEPTION_CATEGORIES = Object.keys(EXCEPTION_CATEGORY_LABELS) as ExceptionCategory[];
+
+/**
+ * Display labels for every delay reason (see evaluateDelay).
+ */
+export const DELAY_REASON_LABELS: Record<DelayReason, string> = {
+  CARRIER_EXCEPTION: "Carrier exception",
+  PAST_EXPECTED_DELIVERY: "Past expected delivery",
+  STALLED_NO_SCANS: "No carrier scans",
+  LABEL_NOT_PICKED_UP: "Label not picked up",
+};
+
+export const DELAY_REASONS = Object.keys(DELAY_REASON_LABELS) as DelayReason[];
+
+/**
+ * How each category reads in customer messages ({delay_reason}).
+ */
+const CUSTOMER_DELAY_REASONS: Record<ExceptionCategory, string> = {
+  WEATHER: "weather delay",
+  ADDRESS_ISSUE: "problem with the delivery address",
+  CUSTOMS: "customs delay",
+  DAMAGED: "package damaged in transit",
+  LOST: "package the carrier can't locate",
+  HELD_AT_FACILITY: "package held at a carrier facility",
+  DELIVERY_ATTEMPTED: "missed delivery attempt",
+  RECIPIENT_UNAVAILABLE: "missed delivery (no one was available)",
+  REFUSED: "refused delivery",
+  RETURNED_TO_SENDER: "package being returned to us",
+  CARRIER_DELAY: "carrier delay",
+  OTHER: "shipping delay",
+};
+
+/**
+ * {delay_reason} for delays the carrier hasn't explained.
+ */
+export const DEFAULT_DELAY_REASON = "shipping delay";
+
+/**
+ * Reason and status keywords for each category, checked in order so the
+ * more specific categories win (e.g. "Held for customs clearance" is customs,
+ * "Delivery attempted - no authorized recipient" is recipient unavailable).
+ */
+const EXCEPTION_CATEGORY_KEYWORDS: Array<[ExceptionCategory, string[]]> = [
+  ["LOST", ["lost", "missing", "unable to locate", "cannot be located"]],
+  ["DAMAGED", ["damage"]],
+  [
+    "RETURNED_TO_SENDER",
+    ["return to sender", "returned to sender", "return to shipper", "returned to shipper", "being returned"],
+  ],
+  ["REFUSED", ["refused", "rejected by recipient", "declined by recipient"]],
+  ["CUSTOMS", ["customs", "clearance", "import duties", "duties and taxes"]],
+  [
+    "WEATHER",
+    ["weather", "storm", "snow", "hurricane", "flood", "tornado", "wildfire", "natural disaster"],
+  ],
+  ["ADDRESS_ISSUE", ["address", "no such number", "moved, left no", "insufficient address"]],
+  [
+    "RECIPIENT_UNAVAILABLE",
+    [
+      "recipient not available",
+      "no authorized recipient",
+      "receiver was not available",
+      "customer not available",
+      "recipient not in",
+      "business closed",
+      "no one available",
+    ],
+  ],
+  ["DELIVERY_ATTEMPTED", ["attempted", "delivery attempt", "notice left", "notice card", "unable to deliver"]],
+  ["HELD_AT_FACILITY", ["held", "on hold", "hold at", "awaiting"]],
+  ["CARRIER_DELAY", ["delay", "arriving late", "running late", "missed connection", "mechanical", "operational"]],
+];
+
+/**
+ * Categories implied by a tracking status when nothing more specific is known.
+ */
+const STATUS_CATEGORIES: Partial<Record<TrackingStatus, ExceptionCategory>> = {
+  DELIVERY_ATTEMPTED: "DELIVERY_ATTEMPTED",
+  LOST: "LOST",
+  RETURNED_TO_SENDER: "RETURNED_TO_SENDER",
+  EXCEPTION: "OTHER",
+};
+
+/**
+ * Find the first category whose keywords appear in a description.
+ */
+function matchCategoryKeywords(description: string | null | undefined): ExceptionCategory | null {
+  if (!description) {
+    return null;
+  }
+
+  const lowerDescription = description.toLowerCase();
+  for (const [category, phrases] of EXCEPTION_CATEGORY_KEYWORDS) {
+    if (phrases.some((phrase) => lowerDescription.includes(phrase))) {
+      return category;
+    }
+  }
+  return null;
+}
+
+/**
+ * Inputs for categorizing a carrier exception.
+ */
+export interface ExceptionCategoryInput {
+  /** Category mapped from the carrier's exception code, if the code is known */
+  codeCategory?: ExceptionCategory | null;
+  /** Carrier's exception reason */
+  reason: string | null | undefined;
+  /** Carrier's status description for the latest scan */
+  description: string | null | undefined;
+  /** Whether the carrier reports an exception */
+  isException: boolean;
+  /** Normalized tracking status (see normalizeTrackingStatus) */
+  status: TrackingStatus;
+}
+
+/**
+ * Resolve the exception category for a carrier status, or null if the
+ * shipment has no exception.
+ *
+ * Precedence: the mapped carrier code, keywords in the exception reason,
+ * then in the status description, the tracking status, and finally OTHER
+ * for exceptions nothing explains.
+ */
+export function normalizeExceptionCategory(input: ExceptionCategoryInput): ExceptionCategory | null {
+  const statusCategory = STATUS_CATEGORIES[input.status];
+  if (!input.isException && !statusCategory) {
+    return null;
+  }
+
+  return (
+    input.codeCategory ??
+    matchCategoryKeywords(input.reason) ??
+    matchCategoryKeywords(input.description) ??
+    statusCategory ??
+    "OTHER"
+  );
+}
+
+/**
+ * Describe why a shipment is delayed for customer messages, e.g. "weather delay".
+ */
+export function getCustomerDelayReason(category: ExceptionCategory | null | undefined): string {
+  return category ? CUSTOMER_DELAY_REASONS[category] : DEFAULT_DELAY_REASON;
+}
+
+/**
+ * Severity of each exception category on its own. Packages that may never
+ * arrive are critical; problems the merchant or customer must act on are
+ * medium; problems that resolve themselves are low.
+ */
+const CATEGORY_SEVERITY: Record<ExceptionCategory, DelaySeverity> = {
+  WEATHER: "LOW",
+  ADDRESS_ISSUE: "MEDIUM",
+  CUSTOMS: "MEDIUM",
+  DAMAGED: "CRITICAL",
+  LOST: "CRITICAL",
+  HELD_AT_FACILITY: "MEDIUM",
+  DELIVERY_ATTEMPTED: "LOW",
+  RECIPIENT_UNAVAILABLE: "LOW",
+  REFUSED: "MEDIUM",
+  RETURNED_TO_SENDER: "CRITICAL",
+  CARRIER_DELAY: "LOW",
+  OTHER: "LOW",
+};
+
+/**
+ * Business days delayed at which a delay is at least this severe.
+ */
+export const SEVERITY_DAYS_DELAYED: Record<Exclude<DelaySeverity, "LOW">, number> = {
+  MEDIUM: 2,
+  CRITICAL: 5,
+};
+
+/**
+ * Inputs for deriving a delay's severity.
+ */
+export interface DelaySeverityInput {
+  exceptionCategory: ExceptionCategory | null;
+  delayReason: DelayReason;
+  daysDelayed: number;
+}
+
+/**
+ * Derive a delay's severity: the most severe of its exception category's
+ * severity, MEDIUM for shipments the carrier has stopped scanning, and the
+ * severity reached by its days delayed (see SEVERITY_DAYS_DELAYED).
+ */
+export function deriveDelaySeverity(input: DelaySeverityInput): DelaySeverity {
+  const severities: DelaySeverity[] = [];
+
+  if (input.exceptionCategory) {
+    severities.push(CATEGORY_SEVERITY[input.exceptionCategory]);
+  }
+  if (input.delayReason === "STALLED_NO_SCANS" || input.delayReason === "LABEL_NOT_PICKED_UP") {
+    severities.push("MEDIUM");
+  }
+  if (input.daysDelayed >= SEVERITY_DAYS_DELAYED.CRITICAL) {
+    severities.push("CRITICAL");
+  } else if (input.daysDelayed >= SEVERITY_DAYS_DELAYED.MEDIUM) {
+    severities.push("MEDIUM");
+  }
+
+  return getHighestSeverity(severities) ?? "LOW";
+}
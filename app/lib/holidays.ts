@@ -0,0 +1,319 @@
+/**
+ * Holiday Calendars
+ *
+ * Built-in US federal and Canadian statutory holidays, and the calendars
+ * used for business day calculations. A calendar combines the built-in
+ * holidays a carrier does not deliver on with merchant-defined blackout dates
+ * (e.g. warehouse closures).
+ *
+ * US holidays falling on a weekend are observed on the nearest weekday
+ * (Saturday -> Friday, Sunday -> Monday), and Canadian ones on the following
+ * weekday, as carriers observe them.
+ *
+ * All dates are UTC calendar days, formatted as YYYY-MM-DD.
+ */
+
+/**
+ * Built-in US federal holidays.
+ */
+export type FederalHoliday =
+  | "new_years_day"
+  | "mlk_day"
+  | "presidents_day"
+  | "memorial_day"
+  | "juneteenth"
+  | "independence_day"
+  | "labor_day"
+  | "columbus_day"
+  | "veterans_day"
+  | "thanksgiving"
+  | "christmas_day";
+
+/**
+ * Built-in Canadian statutory holidays. Holidays the US also has are
+ * prefixed with ca_, as they're observed differently.
+ */
+export type CanadianHoliday =
+  | "ca_new_years_day"
+  | "good_friday"
+  | "victoria_day"
+  | "canada_day"
+  | "ca_labour_day"
+  | "truth_and_reconciliation_day"
+  | "ca_thanksgiving"
+  | "remembrance_day"
+  | "ca_christmas_day"
+  | "boxing_day";
+
+/**
+ * Built-in holidays.
+ */
+export type Holiday = FederalHoliday | CanadianHoliday;
+
+/**
+ * Every US federal holiday (the USPS non-delivery schedule).
+ */
+export const US_FEDERAL_HOLIDAYS: readonly FederalHoliday[] = [
+  "new_years_day",
+  "mlk_day",
+  "presidents_day",
+  "memorial_day",
+  "juneteenth",
+  "independence_day",
+  "labor_day",
+  "columbus_day",
+  "veterans_day",
+  "thanksgiving",
+  "christmas_day",
+];
+
+/**
+ * Holidays private carriers (UPS, FedEx, DHL) do not deliver on.
+ */
+export const MAJOR_CARRIER_HOLIDAYS: readonly FederalHoliday[] = [
+  "new_years_day",
+  "memorial_day",
+  "independence_day",
+  "labor_day",
+  "thanksgiving",
+  "christmas_day",
+];
+
+/**
+ * Every Canadian federal statutory holiday (Canada Post and Purolator don't
+ * deliver on them).
+ */
+export const CANADIAN_STATUTORY_HOLIDAYS: readonly CanadianHoliday[] = [
+  "ca_new_years_day",
+  "good_friday",
+  "victoria_day",
+  "canada_day",
+  "ca_labour_day",
+  "truth_and_reconciliation_day",
+  "ca_thanksgiving",
+  "remembrance_day",
+  "ca_christmas_day",
+  "boxing_day",
+];
+
+/**
+ * Display names for built-in holidays.
+ */
+export const HOLIDAY_LABELS: Record<Holiday, string> = {
+  new_years_day: "New Year's Day",
+  mlk_day: "Martin Luther King Jr. Day",
+  presidents_day: "Presidents' Day",
+  memorial_day: "Memorial Day",
+  juneteenth: "Juneteenth",
+  independence_day: "Independence Day",
+  labor_day: "Labor Day",
+  columbus_day: "Columbus Day",
+  veterans_day: "Veterans Day",
+  thanksgiving: "Thanksgiving Day",
+  christmas_day: "Christmas Day",
+  ca_new_years_day: "New Year's Day",
+  good_friday: "Good Friday",
+  victoria_day: "Victoria Day",
+  canada_day: "Canada Day",
+  ca_labour_day: "Labour Day",
+  truth_and_reconciliation_day: "National Day for Truth and Reconciliation",
+  ca_thanksgiving: "Thanksgiving Day",
+  remembrance_day: "Remembrance Day",
+  ca_christmas_day: "Christmas Day",
+  boxing_day: "Boxing Day",
+};
+
+/**
+ * Days with no deliveries besides weekends.
+ */
+export interface HolidayCalendar {
+  /** Built-in holidays observed */
+  holidays: readonly Holiday[];
+  /** Additional non-delivery dates (YYYY-MM-DD) */
+  blackoutDates: readonly string[];
+}
+
+/**
+ * A holiday on a specific date.
+ */
+export interface HolidayDate {
+  holiday: Holiday;
+  /** Observed date (YYYY-MM-DD) */
+  date: string;
+}
+
+/**
+ * Format a date as a UTC YYYY-MM-DD key.
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The nth weekday (0 = Sunday) of a month, e.g. the 4th Thursday of November.
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(Date.UTC(year, month, 1));
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return new Date(Date.UTC(year, month, 1 + offset + (n - 1) * 7));
+}
+
+/**
+ * The last weekday (0 = Sunday) of a month.
+ */
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return new Date(Date.UTC(year, month, last.getUTCDate() - offset));
+}
+
+/**
+ * Move a fixed-date holiday falling on a weekend to its observed weekday.
+ */
+function observed(year: number, month: number, day: number): Date {
+  const date = new Date(Date.UTC(year, month, day));
+  const weekday = date.getUTCDay();
+  if (weekday === 6) {
+    return new Date(Date.UTC(year, month, day - 1));
+  }
+  if (weekday === 0) {
+    return new Date(Date.UTC(year, month, day + 1));
+  }
+  return date;
+}
+
+/**
+ * Move a fixed-date Canadian holiday falling on a weekend to the Monday after.
+ */
+function observedMonday(year: number, month: number, day: number): Date {
+  const date = new Date(Date.UTC(year, month, day));
+  const weekday = date.getUTCDay();
+  if (weekday === 6) {
+    return new Date(Date.UTC(year, month, day + 2));
+  }
+  if (weekday === 0) {
+    return new Date(Date.UTC(year, month, day + 1));
+  }
+  return date;
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm).
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Observed dates of a year's US holidays. New Year's Day on a Saturday is
+ * observed on December 31 of the previous year.
+ */
+function holidaysOfYear(year: number): Array<{ holiday: FederalHoliday; date: Date }> {
+  return [
+    { holiday: "new_years_day", date: observed(year, 0, 1) },
+    { holiday: "mlk_day", date: nthWeekday(year, 0, 1, 3) },
+    { holiday: "presidents_day", date: nthWeekday(year, 1, 1, 3) },
+    { holiday: "memorial_day", date: lastWeekday(year, 4, 1) },
+    { holiday: "juneteenth", date: observed(year, 5, 19) },
+    { holiday: "independence_day", date: observed(year, 6, 4) },
+    { holiday: "labor_day", date: nthWeekday(year, 8, 1, 1) },
+    { holiday: "columbus_day", date: nthWeekday(year, 9, 1, 2) },
+    { holiday: "veterans_day", date: observed(year, 10, 11) },
+    { holiday: "thanksgiving", date: nthWeekday(year, 10, 4, 4) },
+    { holiday: "christmas_day", date: observed(year, 11, 25) },
+  ];
+}
+
+/**
+ * US holidays observed during a calendar year, in date order.
+ */
+export function getFederalHolidays(year: number): HolidayDate[] {
+  return [...holidaysOfYear(year), ...holidaysOfYear(year + 1)]
+    .filter(({ date }) => date.getUTCFullYear() === year)
+    .map(({ holiday, date }) => ({ holiday, date: toDateKey(date) }));
+}
+
+/**
+ * Canadian holidays observed during a calendar year, in date order.
+ * Christmas and Boxing Day on a weekend are observed on the next two weekdays.
+ */
+export function getCanadianHolidays(year: number): HolidayDate[] {
+  const easter = easterSunday(year);
+  const goodFriday = new Date(Date.UTC(year, easter.getUTCMonth(), easter.getUTCDate() - 2));
+  // The Monday before May 25
+  const may24 = new Date(Date.UTC(year, 4, 24));
+  const victoriaDay = new Date(Date.UTC(year, 4, 24 - ((may24.getUTCDay() + 6) % 7)));
+  const christmas = observedMonday(year, 11, 25);
+  const boxingDay = observedMonday(year, 11, 26);
+  if (boxingDay <= christmas) {
+    boxingDay.setUTCDate(christmas.getUTCDate() + 1);
+  }
+
+  const holidays: Array<{ holiday: CanadianHoliday; date: Date }> = [
+    { holiday: "ca_new_years_day", date: observedMonday(year, 0, 1) },
+    { holiday: "good_friday", date: goodFriday },
+    { holiday: "victoria_day", date: victoriaDay },
+    { holiday: "canada_day", date: observedMonday(year, 6, 1) },
+    { holiday: "ca_labour_day", date: nthWeekday(year, 8, 1, 1) },
+    { holiday: "truth_and_reconciliation_day", date: observedMonday(year, 8, 30) },
+    { holiday: "ca_thanksgiving", date: nthWeekday(year, 9, 1, 2) },
+    { holiday: "remembrance_day", date: observedMonday(year, 10, 11) },
+    { holiday: "ca_christmas_day", date: christmas },
+    { holiday: "boxing_day", date: boxingDay },
+  ];
+  return holidays.map(({ holiday, date }) => ({ holiday, date: toDateKey(date) }));
+}
+
+/**
+ * Observed holiday dates by year, computed once per year. US and Canadian
+ * holidays can fall on the same day (e.g. Columbus Day and Thanksgiving).
+ */
+const holidaysByYear = new Map<number, Map<string, Holiday[]>>();
+
+/**
+ * Get the built-in holidays observed on a date.
+ */
+function getHolidaysOn(date: Date): Holiday[] {
+  const year = date.getUTCFullYear();
+  let holidays = holidaysByYear.get(year);
+  if (!holidays) {
+    holidays = new Map();
+    const dates = [...getFederalHolidays(year), ...getCanadianHolidays(year)];
+    for (const { holiday, date: key } of dates) {
+      holidays.set(key, [...(holidays.get(key) ?? []), holiday]);
+    }
+    holidaysByYear.set(year, holidays);
+  }
+  return holidays.get(toDateKey(date)) ?? [];
+}
+
+/**
+ * Get the US holiday observed on a date, if any.
+ */
+export function getFederalHoliday(date: Date): FederalHoliday | null {
+  return US_FEDERAL_HOLIDAYS.find((holiday) => getHolidaysOn(date).includes(holiday)) ?? null;
+}
+
+/**
+ * Check whether a calendar has no deliveries on a date (weekends aside).
+ */
+export function isHoliday(date: Date, calendar: HolidayCalendar): boolean {
+  if (calendar.blackoutDates.includes(toDateKey(date))) {
+    return true;
+  }
+  return getHolidaysOn(date).some((holiday) => calendar.holidays.includes(holiday));
+}
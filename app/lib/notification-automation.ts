@@ -0,0 +1,123 @@
+/**
+ * Notification Automation
+ *
+ * Client-safe model and matcher for automatic delay notifications. Merchants
+ * opt in with MerchantSettings.autoNotifications; once a poll flags a
+ * shipment as delayed, the carrier poll worker queues a notification when the
+ * shipment matches every rule:
+ * - minDaysDelayed: days past expected delivery (checked again on later polls
+ *   until the shipment has been delayed long enough)
+ * - reasons: why the shipment was flagged, Shipment.delayReason (empty for any)
+ * - exceptionCategories: categories of carrier exceptions (empty for any; only
+ *   checked for carrier exception delays)
+ * - carriers: carriers (empty for any)
+ * - minOrderValue: order value threshold (shipments without a value don't match)
+ *
+ * Notifications are queued sendDelayHours after the rules match, on each of
+ * the selected channels, at most once per shipment, and never for shipments
+ * the merchant already notified manually.
+ */
+
+import { z } from "zod";
+import type { Carrier, DelayReason, ExceptionCategory } from "@prisma/client";
+import { SUPPORTED_CARRIERS, type SupportedCarrier } from "~/services/carriers/carrier.registry";
+import { DELAY_REASONS, EXCEPTION_CATEGORIES } from "./exception-taxonomy";
+
+/**
+ * NotificationLog.sentBy of automated notifications
+ */
+export const AUTOMATION_SENDER = "automation";
+
+/**
+ * Longest delay before an automated notification is sent (one week)
+ */
+export const MAX_SEND_DELAY_HOURS = 168;
+
+/**
+ * Automation rules, as stored in MerchantSettings.autoNotifications
+ */
+export const AutoNotificationSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  minDaysDelayed: z.number().int().min(0).max(30).default(0),
+  reasons: z.array(z.enum(DELAY_REASONS as [DelayReason, ...DelayReason[]])).default([]),
+  exceptionCategories: z
+    .array(z.enum(EXCEPTION_CATEGORIES as [ExceptionCategory, ...ExceptionCategory[]]))
+    .default([]),
+  carriers: z
+    .array(z.enum(SUPPORTED_CARRIERS as [SupportedCarrier, ...SupportedCarrier[]]))
+    .default([]),
+  minOrderValue: z.number().min(0).nullable().default(null),
+  sendDelayHours: z.number().min(0).max(MAX_SEND_DELAY_HOURS).default(0),
+  channels: z.array(z.enum(["EMAIL", "SMS"])).min(1).default(["EMAIL"]),
+});
+
+export type AutoNotificationSettings = z.infer<typeof AutoNotificationSettingsSchema>;
+
+/**
+ * What automation rules are checked against
+ */
+export interface AutoNotificationContext {
+  isDelayed: boolean;
+  daysDelayed: number;
+  delayReason: DelayReason | null;
+  exceptionCategory: ExceptionCategory | null;
+  carrier: Carrier;
+  orderValue: number | null;
+  /** The merchant already notified the customer manually */
+  notificationSent: boolean;
+  /** Automation already queued a notification for the shipment */
+  autoNotified: boolean;
+}
+
+/**
+ * Check a delayed shipment against the merchant's automation rules.
+ *
+ * @returns Why no notification should be sent, or null to send one
+ */
+export function getAutoNotificationSkipReason(
+  rules: AutoNotificationSettings,
+  context: AutoNotificationContext
+): string | null {
+  if (!rules.enabled) {
+    return "Automatic notifications are off";
+  }
+  if (!context.isDelayed) {
+    return "Shipment is not delayed";
+  }
+  if (context.autoNotified) {
+    return "Shipment was already notified automatically";
+  }
+  if (context.notificationSent) {
+    return "Customer was already notified";
+  }
+  if (context.daysDelayed < rules.minDaysDelayed) {
+    return `Delayed ${context.daysDelayed} of ${rules.minDaysDelayed} days`;
+  }
+  if (
+    rules.reasons.length > 0 &&
+    (!context.delayReason || !rules.reasons.includes(context.delayReason))
+  ) {
+    return "Delay reason doesn't match";
+  }
+  if (
+    rules.exceptionCategories.length > 0 &&
+    context.delayReason === "CARRIER_EXCEPTION" &&
+    (!context.exceptionCategory || !rules.exceptionCategories.includes(context.exceptionCategory))
+  ) {
+    return "Exception category doesn't match";
+  }
+  if (
+    rules.carriers.length > 0 &&
+    !(rules.carriers as readonly Carrier[]).includes(context.carrier)
+  ) {
+    return "Carrier doesn't match";
+  }
+  if (
+    rules.minOrderValue !== null &&
+    (context.orderValue === null || context.orderValue < rules.minOrderValue)
+  ) {
+    return "Order value is below the threshold";
+  }
+  return null;
+}
+
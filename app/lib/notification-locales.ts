@@ -0,0 +1,149 @@
+/**
+ * Notification Locales
+ *
+ * Client-safe helpers for translated customer notifications. Merchants write
+ * their notification templates in one language (MerchantSettings.templateLocale)
+ * and can add translations by locale (MerchantSettings.templateTranslations).
+ * Each shipment keeps the locale its customer ordered in (Shipment.customerLocale,
+ * from the Shopify order's customerLocale), and the translation to send is
+ * found along a fallback chain: the exact locale ("fr-CA"), then its language
+ * ("fr"), then the untranslated templates. Templates are looked up one at a
+ * time, so a translation doesn't have to cover every scenario.
+ *
+ * Dates and carrier names in a notification are formatted for the language of
+ * the template it's sent with (see getFormattingLocale).
+ */
+
+import type { MerchantSettings } from "./validation";
+
+/**
+ * Canonical BCP 47 locales as stored: language, optional script and region
+ * ("fr", "fr-CA", "zh-Hant-TW", "es-419")
+ */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z][a-z]{3})?(-([A-Z]{2}|\d{3}))?$/;
+
+/**
+ * Locale notification templates are written in unless the merchant says otherwise
+ */
+export const DEFAULT_TEMPLATE_LOCALE = "en-US";
+
+/**
+ * Locales offered when adding a translation in settings (Shopify storefront languages)
+ */
+export const TRANSLATION_LOCALES = [
+  "en",
+  "fr",
+  "fr-CA",
+  "es",
+  "de",
+  "it",
+  "nl",
+  "pt-PT",
+  "pt-BR",
+  "da",
+  "sv",
+  "nb",
+  "fi",
+  "pl",
+  "cs",
+  "ja",
+  "ko",
+  "zh-CN",
+  "zh-TW",
+] as const;
+
+export type TemplateTranslations = MerchantSettings["templateTranslations"];
+
+export type TemplateTranslation = TemplateTranslations[string];
+
+/**
+ * Normalize a locale from Shopify ("fr-ca", "pt_BR") to its canonical form
+ *
+ * @returns The canonical locale, or null if it isn't a valid locale
+ */
+export function normalizeLocale(locale: string | null | undefined): string | null {
+  if (!locale?.trim()) {
+    return null;
+  }
+
+  try {
+    const [canonical] = Intl.getCanonicalLocales(locale.trim().replace(/_/g, "-"));
+    return canonical && LOCALE_PATTERN.test(canonical) ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the locales to look for a translation in, most specific first:
+ * "zh-Hant-TW" -> ["zh-Hant-TW", "zh-Hant", "zh"]
+ */
+export function getLocaleFallbackChain(locale: string | null | undefined): string[] {
+  const normalized = normalizeLocale(locale);
+  if (!normalized) {
+    return [];
+  }
+
+  const subtags = normalized.split("-");
+  return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join("-"));
+}
+
+/**
+ * Get a locale's language ("fr-CA" -> "fr")
+ */
+export function getLanguage(locale: string): string {
+  return locale.split("-")[0];
+}
+
+/**
+ * Find the most specific translation for a customer's locale that has a value.
+ *
+ * @param settings - Parsed merchant settings
+ * @param customerLocale - The customer's locale, if known
+ * @param pick - Reads the value wanted from a translation (empty if it isn't translated)
+ * @returns The locale the value was found in, with the value; null to use the untranslated templates
+ */
+export function findTranslation<T>(
+  settings: Pick<MerchantSettings, "templateTranslations">,
+  customerLocale: string | null | undefined,
+  pick: (translation: TemplateTranslation) => T | null | undefined
+): { locale: string; value: T } | null {
+  for (const locale of getLocaleFallbackChain(customerLocale)) {
+    const translation = settings.templateTranslations[locale];
+    const value = translation ? pick(translation) : null;
+    if (value) {
+      return { locale, value };
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the locale to format dates and carrier names in for a template: the
+ * customer's own locale when it's in the template's language, so a "fr"
+ * translation sent to a "fr-CA" customer reads as Canadian French, and the
+ * template's locale otherwise.
+ *
+ * @param templateLocale - Locale of the template being sent
+ * @param customerLocale - The customer's locale, if known
+ */
+export function getFormattingLocale(
+  templateLocale: string,
+  customerLocale: string | null | undefined
+): string {
+  const normalized = normalizeLocale(customerLocale);
+  return normalized && getLanguage(normalized) === getLanguage(templateLocale)
+    ? normalized
+    : templateLocale;
+}
+
+/**
+ * Display name of a locale in English ("fr-CA" -> "Canadian French")
+ */
+export function getLocaleLabel(locale: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Notification Scenarios
+ *
+ * Client-safe template library for customer notifications. Each scenario has
+ * its own email template, picked from the shipment's delay reason and status
+ * (see selectNotificationScenario); merchants can pick another one when
+ * sending.
+ *
+ * The generic delay and at-risk templates keep their original settings keys
+ * (notificationTemplate, atRiskNotificationTemplate) so templates merchants
+ * saved before the library existed still apply. The other scenarios live in
+ * MerchantSettings.scenarioTemplates.
+ */
+
+import { z } from "zod";
+import type { ExceptionCategory, TrackingStatus } from "@prisma/client";
+import { isAtRisk } from "./delay-risk";
+import type { MerchantSettings } from "./validation";
+
+/**
+ * Display labels for every scenario, in the order they're listed
+ */
+export const NOTIFICATION_SCENARIO_LABELS = {
+  DELAY: "Delay (generic)",
+  AT_RISK: "At risk of a delay",
+  CARRIER_EXCEPTION: "Carrier exception",
+  WEATHER: "Weather delay",
+  ADDRESS_ISSUE: "Address issue",
+  RESCHEDULED: "Rescheduled delivery",
+  LOST: "Lost package",
+  DELIVERED_AFTER_DELAY: "Delivered after a delay",
+} as const;
+
+export type NotificationScenario = keyof typeof NOTIFICATION_SCENARIO_LABELS;
+
+/**
+ * All scenarios
+ */
+export const NOTIFICATION_SCENARIOS = Object.keys(NOTIFICATION_SCENARIO_LABELS) as [
+  NotificationScenario,
+  ...NotificationScenario[],
+];
+
+/**
+ * When each scenario's template is picked, for the settings page
+ */
+export const NOTIFICATION_SCENARIO_DESCRIPTIONS: Record<NotificationScenario, string> = {
+  DELAY: "Delayed shipments no other template fits",
+  AT_RISK: "Shipments likely to be late that aren't delayed yet",
+  CARRIER_EXCEPTION: "Delays the carrier reported an exception for, other than the reasons below",
+  WEATHER: "Delays the carrier put down to weather",
+  ADDRESS_ISSUE: "Delays caused by a problem with the delivery address",
+  RESCHEDULED: "Delayed shipments the carrier gave a new delivery date",
+  LOST: "Packages the carrier can't locate",
+  DELIVERED_AFTER_DELAY: "Delivered shipments that were delayed, to apologize",
+};
+
+/**
+ * An email template: subject and body with {variable} placeholders
+ */
+export interface NotificationTemplate {
+  subject: string;
+  body: string;
+}
+
+export type ScenarioTemplates = Record<NotificationScenario, NotificationTemplate>;
+
+const templateSchema = (subject: string, body: string) =>
+  z
+    .object({
+      subject: z.string().default(subject),
+      body: z.string().default(body),
+    })
+    .default({});
+
+/**
+ * Templates of the scenarios without a settings key of their own, as stored
+ * in MerchantSettings.scenarioTemplates
+ */
+export const ScenarioTemplatesSchema = z.object({
+  CARRIER_EXCEPTION: templateSchema(
+    "Update on your order #{order_number}",
+    `Hi {customer_first_name},
+
+The carrier has reported a problem with the delivery of your order (#{order_number}): {delay_reason}. This may delay its arrival.
+
+Current Status: {carrier_status}
+Carrier: {carrier_name}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+We're following up with {carrier_name} and will let you know if anything else is needed from you. If you have any questions, please don't hesitate to reach out.
+
+Thank you for your patience!
+
+{shop_name}`
+  ),
+  WEATHER: templateSchema(
+    "Weather is delaying your order #{order_number}",
+    `Hi {customer_first_name},
+
+Severe weather is slowing down deliveries in your area, and your order (#{order_number}) is running a little behind as a result.
+
+Current Status: {carrier_status}
+Carrier: {carrier_name}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+{carrier_name} will deliver your package as soon as it's safe to do so. We appreciate your patience while the weather clears.
+
+{shop_name}`
+  ),
+  ADDRESS_ISSUE: templateSchema(
+    "Action needed: delivery address for order #{order_number}",
+    `Hi {customer_first_name},
+
+{carrier_name} couldn't deliver your order (#{order_number}) because of a problem with the delivery address.
+
+Current Status: {carrier_status}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+Please reply to this email to confirm your address, or contact {carrier_name} with your tracking number, so your package can be delivered.
+
+Thank you!
+
+{shop_name}`
+  ),
+  RESCHEDULED: templateSchema(
+    "New delivery date for your order #{order_number}",
+    `Hi {customer_first_name},
+
+Your order (#{order_number}) has been delayed, and {carrier_name} has scheduled a new delivery date.
+
+New Expected Delivery: {expected_delivery_date}
+Current Status: {carrier_status}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+We're sorry for the wait and will keep an eye on your shipment until it arrives.
+
+{shop_name}`
+  ),
+  LOST: templateSchema(
+    "An update on your order #{order_number}",
+    `Hi {customer_first_name},
+
+We're sorry to let you know that {carrier_name} can't currently locate the package for your order (#{order_number}).
+
+Carrier: {carrier_name}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+We're working with the carrier to find it, and we'll be in touch shortly about a replacement or refund if it doesn't turn up. Please don't hesitate to reach out in the meantime.
+
+{shop_name}`
+  ),
+  DELIVERED_AFTER_DELAY: templateSchema(
+    "Your order #{order_number} has arrived",
+    `Hi {customer_first_name},
+
+Your order (#{order_number}) has been delivered. We're sorry it took longer than expected to reach you.
+
+Carrier: {carrier_name}
+Tracking Number: {tracking_number}
+
+Thank you for your patience, and please let us know if anything isn't right with your order.
+
+{shop_name}`
+  ),
+});
+
+/**
+ * What a scenario is picked from
+ */
+export interface NotificationScenarioInput {
+  isDelayed: boolean;
+  isDelivered: boolean;
+  delayFlaggedAt: Date | null;
+  riskScore: number | null;
+  exceptionCategory: ExceptionCategory | null;
+  trackingStatus: TrackingStatus;
+  rescheduledDeliveryDate: Date | null;
+}
+
+/**
+ * Pick the scenario that fits a shipment best. Specific delay reasons come
+ * before a new delivery date, which comes before any other carrier exception.
+ */
+export function selectNotificationScenario(shipment: NotificationScenarioInput): NotificationScenario {
+  if (shipment.isDelivered) {
+    return shipment.delayFlaggedAt ? "DELIVERED_AFTER_DELAY" : "DELAY";
+  }
+  if (shipment.exceptionCategory === "LOST" || shipment.trackingStatus === "LOST") {
+    return "LOST";
+  }
+  if (shipment.exceptionCategory === "WEATHER") {
+    return "WEATHER";
+  }
+  if (shipment.exceptionCategory === "ADDRESS_ISSUE") {
+    return "ADDRESS_ISSUE";
+  }
+  if (shipment.rescheduledDeliveryDate) {
+    return "RESCHEDULED";
+  }
+  if (shipment.exceptionCategory) {
+    return "CARRIER_EXCEPTION";
+  }
+  if (isAtRisk(shipment)) {
+    return "AT_RISK";
+  }
+  return "DELAY";
+}
+
+type TemplateSettings = Pick<
+  MerchantSettings,
+  "notificationTemplate" | "atRiskNotificationTemplate" | "scenarioTemplates"
+>;
+
+/**
+ * Get the template of a scenario from parsed merchant settings
+ */
+export function getScenarioTemplate(
+  settings: TemplateSettings,
+  scenario: NotificationScenario
+): NotificationTemplate {
+  switch (scenario) {
+    case "DELAY":
+      return settings.notificationTemplate;
+    case "AT_RISK":
+      return settings.atRiskNotificationTemplate;
+    default:
+      return settings.scenarioTemplates[scenario];
+  }
+}
+
+/**
+ * Get every scenario's template from parsed merchant settings
+ */
+export function getScenarioTemplates(settings: TemplateSettings): ScenarioTemplates {
+  return Object.fromEntries(
+    NOTIFICATION_SCENARIOS.map((scenario) => [scenario, getScenarioTemplate(settings, scenario)])
+  ) as ScenarioTemplates;
+}
+
+/**
+ * Split a template library back into the settings keys it's stored under
+ */
+export function toTemplateSettings(templates: ScenarioTemplates): TemplateSettings {
+  const { DELAY, AT_RISK, ...scenarioTemplates } = templates;
+  return {
+    notificationTemplate: DELAY,
+    atRiskNotificationTemplate: AT_RISK,
+    scenarioTemplates,
+  };
+}
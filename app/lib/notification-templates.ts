@@ -3,8 +3,47 @@
  *
  * Client-safe utilities for rendering and validating email templates.
  * This file contains NO server-only imports and can be used in client components.
+ *
+ * Templates are written in the template language of template-engine.ts
+ * ({variable}, {#if ...}, {#each line_items}, helpers); the variables are
+ * TEMPLATE_VARIABLES.
  */
 
+import { z } from "zod";
+import type { ExceptionCategory, NotificationChannel } from "@prisma/client";
+import {
+  buildCarrierTrackingUrl,
+  getCarrierDefinition,
+} from "~/services/carriers/carrier.registry";
+import { getCustomerDelayReason } from "./exception-taxonomy";
+import {
+  getScenarioTemplate,
+  selectNotificationScenario,
+  type NotificationScenario,
+  type NotificationScenarioInput,
+  type NotificationTemplate,
+} from "./notification-scenarios";
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  findTranslation,
+  getFormattingLocale,
+  getLocaleFallbackChain,
+} from "./notification-locales";
+import {
+  formatTemplateDate,
+  formatTemplateError,
+  getTemplateVariableNames,
+  parseTemplate,
+  renderTemplateSource,
+  TemplateRenderError,
+  TemplateSyntaxError,
+  validateTemplateSource,
+  type TemplateError,
+  type TemplateScope,
+  type TemplateSyntax,
+} from "./template-engine";
+import type { MerchantSettings } from "./validation";
+
 // ============================================================
 // Template Variables
 // ============================================================
@@ -22,9 +61,31 @@ export const TEMPLATE_VARIABLES = [
   "{carrier_status}",
   "{tracking_url}",
   "{expected_delivery_date}",
+  "{delay_reason}",
   "{shop_name}",
+  "{line_items}",
+  "{shipping_city}",
+  "{days_delayed}",
+  "{last_scan_location}",
+  "{discount_code}",
+  "{order_status_url}",
 ] as const;
 
+/**
+ * Variables of each item inside {#each line_items}
+ */
+export const LINE_ITEM_VARIABLES = ["{title}", "{variant_title}", "{quantity}"] as const;
+
+const toName = (variable: string) => variable.slice(1, -1);
+
+/**
+ * What notification templates may use, for the template engine
+ */
+export const TEMPLATE_SYNTAX: TemplateSyntax = {
+  variables: TEMPLATE_VARIABLES.map(toName),
+  listFields: { line_items: LINE_ITEM_VARIABLES.map(toName) },
+};
+
 /**
  * Required variables that must be present in templates
  */
@@ -33,6 +94,23 @@ export const REQUIRED_TEMPLATE_VARIABLES = [
   "{order_number}",
 ] as const;
 
+/**
+ * Longest email subject and body, after editing
+ */
+export const EMAIL_SUBJECT_MAX_LENGTH = 200;
+export const EMAIL_BODY_MAX_LENGTH = 10000;
+
+/**
+ * A fulfilled item, as stored in Shipment.lineItems
+ */
+export const TemplateLineItemSchema = z.object({
+  title: z.string(),
+  variantTitle: z.string().nullable().default(null),
+  quantity: z.number().int(),
+});
+
+export type TemplateLineItem = z.infer<typeof TemplateLineItemSchema>;
+
 /**
  * Data context for rendering email templates
  */
@@ -45,7 +123,77 @@ export interface TemplateContext {
   carrierStatus: string;
   trackingUrl: string;
   expectedDeliveryDate: string;
+  delayReason: string;
   shopName: string;
+  // Filled in by buildTemplateContext; contexts built by hand may leave them out
+  lineItems?: TemplateLineItem[];
+  shippingCity?: string;
+  daysDelayed?: number;
+  lastScanLocation?: string;
+  discountCode?: string;
+  orderStatusUrl?: string;
+  /** The date behind expectedDeliveryDate (null if unknown), for the date helper */
+  deliveryDate?: Date | null;
+  /** Locale dates are formatted in */
+  locale?: string;
+}
+
+// ============================================================
+// Channels
+// ============================================================
+
+/**
+ * Display labels for the channels notifications are sent on
+ */
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  EMAIL: "Email",
+  SMS: "SMS",
+};
+
+/**
+ * All notification channels
+ */
+export const NOTIFICATION_CHANNELS = Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[];
+
+/**
+ * Characters in a single SMS (GSM-7 encoding)
+ */
+export const SMS_SEGMENT_LENGTH = 160;
+
+/**
+ * Longest SMS body providers accept (Twilio concatenates up to 10 segments)
+ */
+export const SMS_MAX_LENGTH = 1600;
+
+// Basic GSM-7 characters, and the extension characters that take two
+const GSM_BASIC_CHARACTERS =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM_EXTENSION_CHARACTERS = "^{}\\[~]|€";
+
+/**
+ * Count the SMS segments a message is sent (and billed) as. Messages with
+ * characters outside GSM-7, such as emoji, are sent as UCS-2 with 70
+ * characters per SMS; multi-part messages lose a few characters per segment
+ * to the header that joins them.
+ */
+export function countSmsSegments(text: string): number {
+  if (text.length === 0) {
+    return 0;
+  }
+
+  let gsmLength = 0;
+  for (const char of text) {
+    if (GSM_BASIC_CHARACTERS.includes(char)) {
+      gsmLength += 1;
+    } else if (GSM_EXTENSION_CHARACTERS.includes(char)) {
+      gsmLength += 2;
+    } else {
+      // UCS-2 counts UTF-16 code units
+      return text.length <= 70 ? 1 : Math.ceil(text.length / 67);
+    }
+  }
+
+  return gsmLength <= SMS_SEGMENT_LENGTH ? 1 : Math.ceil(gsmLength / 153);
 }
 
 // ============================================================
@@ -59,34 +207,34 @@ export function getCarrierTrackingUrl(
   carrier: string,
   trackingNumber: string
 ): string {
-  switch (carrier.toUpperCase()) {
-    case "UPS":
-      return `https://www.ups.com/track?tracknum=${encodeURIComponent(trackingNumber)}`;
-    case "FEDEX":
-      return `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(trackingNumber)}`;
-    case "USPS":
-      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodeURIComponent(trackingNumber)}`;
-    default:
-      return "";
-  }
+  return buildCarrierTrackingUrl(carrier, trackingNumber) ?? "";
 }
 
 /**
- * Format carrier name for display
+ * Format carrier name for display, in the carrier's name for a locale if it
+ * has one (Canada Post is "Postes Canada" in French)
  */
-export function formatCarrierName(carrier: string): string {
-  switch (carrier.toUpperCase()) {
-    case "UPS":
-      return "UPS";
-    case "FEDEX":
-      return "FedEx";
-    case "USPS":
-      return "USPS";
-    case "UNKNOWN":
-      return "Unknown Carrier";
-    default:
-      return carrier;
+export function formatCarrierName(carrier: string, locale?: string): string {
+  if (carrier.toUpperCase() === "UNKNOWN") {
+    return "Unknown Carrier";
+  }
+
+  const definition = getCarrierDefinition(carrier);
+  if (!definition) {
+    return carrier;
   }
+
+  const localizedName = getLocaleFallbackChain(locale)
+    .map((candidate) => definition.localizedDisplayNames?.[candidate])
+    .find(Boolean);
+  return localizedName ?? definition.displayName;
+}
+
+/**
+ * Format an expected delivery date for a notification ("Friday, February 7, 2026")
+ */
+export function formatDeliveryDate(date: Date, locale: string = DEFAULT_TEMPLATE_LOCALE): string {
+  return formatTemplateDate(date, "full", locale);
 }
 
 /**
@@ -97,9 +245,57 @@ export function extractFirstName(fullName: string): string {
   return parts[0] || fullName;
 }
 
+/**
+ * Format line items as text, one per line ("2 x T-Shirt (Large)")
+ */
+export function formatLineItems(lineItems: TemplateLineItem[]): string {
+  return lineItems
+    .map((item) => `${item.quantity} x ${item.title}${item.variantTitle ? ` (${item.variantTitle})` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Get the variables of a template context by name, for the template engine
+ */
+function getTemplateScope(context: TemplateContext): TemplateScope {
+  const lineItems = context.lineItems ?? [];
+
+  return {
+    customer_first_name: context.customerFirstName,
+    customer_full_name: context.customerFullName,
+    order_number: context.orderNumber,
+    tracking_number: context.trackingNumber,
+    carrier_name: context.carrierName,
+    carrier_status: context.carrierStatus,
+    tracking_url: context.trackingUrl,
+    // A date when there is one, so {#if expected_delivery_date} and the date helper work
+    expected_delivery_date:
+      context.deliveryDate === undefined ? context.expectedDeliveryDate : context.deliveryDate,
+    delay_reason: context.delayReason,
+    shop_name: context.shopName,
+    line_items: {
+      items: lineItems.map((item) => ({
+        title: item.title,
+        variant_title: item.variantTitle,
+        quantity: item.quantity,
+      })),
+      text: formatLineItems(lineItems),
+    },
+    shipping_city: context.shippingCity ?? "",
+    days_delayed: context.daysDelayed ?? 0,
+    last_scan_location: context.lastScanLocation ?? "",
+    discount_code: context.discountCode ?? "",
+    order_status_url: context.orderStatusUrl ?? "",
+  };
+}
+
 /**
  * Render an email template by replacing variables with actual values
  *
+ * Templates saved before the template language that don't parse (a stray
+ * "{" for instance) or that are too complex to render have their variables
+ * replaced one by one instead.
+ *
  * @param template - The template string with {variable} placeholders
  * @param context - The data context for variable replacement
  * @returns The rendered string with all variables replaced
@@ -108,50 +304,217 @@ export function renderTemplate(
   template: string,
   context: TemplateContext
 ): string {
-  const replacements: Record<string, string> = {
-    "{customer_first_name}": context.customerFirstName,
-    "{customer_full_name}": context.customerFullName,
-    "{order_number}": context.orderNumber,
-    "{tracking_number}": context.trackingNumber,
-    "{carrier_name}": context.carrierName,
-    "{carrier_status}": context.carrierStatus,
-    "{tracking_url}": context.trackingUrl,
-    "{expected_delivery_date}": context.expectedDeliveryDate,
-    "{shop_name}": context.shopName,
+  const scope = getTemplateScope(context);
+  const options = {
+    locale: context.locale ?? DEFAULT_TEMPLATE_LOCALE,
+    fallbacks: { expected_delivery_date: "Not available" },
   };
 
-  let result = template;
-  for (const [variable, value] of Object.entries(replacements)) {
-    result = result.replaceAll(variable, value);
+  try {
+    return renderTemplateSource(template, scope, options);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError || error instanceof TemplateRenderError)) {
+      throw error;
+    }
   }
 
+  let result = template;
+  for (const variable of TEMPLATE_VARIABLES) {
+    result = result.replaceAll(variable, () => renderTemplateSource(variable, scope, options));
+  }
   return result;
 }
 
+/**
+ * Check a template's syntax and that it only uses known variables and helpers
+ *
+ * @param template - The template string to check
+ * @returns The problems found, with their line and column (empty if none)
+ */
+export function validateTemplateSyntax(template: string): TemplateError[] {
+  return validateTemplateSource(template, TEMPLATE_SYNTAX);
+}
+
+/**
+ * Describe a template's syntax errors in one line: the first one, with a
+ * count of the rest
+ */
+export function describeTemplateErrors(errors: TemplateError[]): string {
+  const [first, ...rest] = errors;
+  if (!first) {
+    return "";
+  }
+  return formatTemplateError(first) + (rest.length > 0 ? ` (and ${rest.length} more)` : "");
+}
+
 /**
  * Validate that a template contains all required variables
  *
  * @param template - The template string to validate
- * @returns Object with isValid boolean and missing variables array
+ * @returns Object with isValid boolean, missing variables array and the
+ *   template's syntax errors
  */
 export function validateTemplate(template: string): {
   isValid: boolean;
   missingVariables: string[];
+  syntaxErrors: TemplateError[];
 } {
-  const missingVariables: string[] = [];
+  const syntaxErrors = validateTemplateSyntax(template);
+
+  let usedVariables: Set<string> | null = null;
+  try {
+    usedVariables = getTemplateVariableNames(parseTemplate(template));
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) {
+      throw error;
+    }
+  }
 
+  const missingVariables: string[] = [];
   for (const variable of REQUIRED_TEMPLATE_VARIABLES) {
-    if (!template.includes(variable)) {
+    const isUsed = usedVariables ? usedVariables.has(toName(variable)) : template.includes(variable);
+    if (!isUsed) {
       missingVariables.push(variable);
     }
   }
 
+  return {
+    isValid: missingVariables.length === 0 && syntaxErrors.length === 0,
+    missingVariables,
+    syntaxErrors,
+  };
+}
+
+/**
+ * Validate an email template's subject and body, as edited in settings
+ *
+ * @param template - The template to validate
+ * @returns Object with isValid boolean, an error per invalid field and the
+ *   body's missing variables
+ */
+export function validateNotificationTemplate(template: NotificationTemplate): {
+  isValid: boolean;
+  subjectError?: string;
+  bodyError?: string;
+  missingVariables: string[];
+} {
+  let subjectError: string | undefined;
+  if (!template.subject.trim()) {
+    subjectError = "Subject is required";
+  } else if (template.subject.length > EMAIL_SUBJECT_MAX_LENGTH) {
+    subjectError = `Subject is too long (max ${EMAIL_SUBJECT_MAX_LENGTH} characters)`;
+  } else {
+    subjectError = describeTemplateErrors(validateTemplateSyntax(template.subject)) || undefined;
+  }
+
+  const { missingVariables, syntaxErrors } = validateTemplate(template.body);
+  let bodyError: string | undefined;
+  if (!template.body.trim()) {
+    bodyError = "Body is required";
+  } else if (template.body.length > EMAIL_BODY_MAX_LENGTH) {
+    bodyError = `Body is too long (max ${EMAIL_BODY_MAX_LENGTH.toLocaleString("en-US")} characters)`;
+  } else if (syntaxErrors.length > 0) {
+    bodyError = describeTemplateErrors(syntaxErrors);
+  } else if (missingVariables.length > 0) {
+    bodyError = `Body must include: ${missingVariables.join(", ")}`;
+  }
+
+  return {
+    isValid: !subjectError && !bodyError,
+    subjectError,
+    bodyError,
+    missingVariables,
+  };
+}
+
+/**
+ * Validate that a rendered message still identifies the shipment: the
+ * rendered counterpart of validateTemplate, for messages edited before sending.
+ * A required variable counts as present if its value or the variable itself is.
+ *
+ * @param message - The rendered message
+ * @param shipment - The shipment the message is about
+ * @returns Object with isValid boolean and missing variables array
+ */
+export function validateRenderedMessage(
+  message: string,
+  shipment: { orderNumber: string; trackingNumber: string }
+): {
+  isValid: boolean;
+  missingVariables: string[];
+} {
+  const values: Record<(typeof REQUIRED_TEMPLATE_VARIABLES)[number], string> = {
+    "{tracking_number}": shipment.trackingNumber,
+    "{order_number}": shipment.orderNumber,
+  };
+  const missingVariables = REQUIRED_TEMPLATE_VARIABLES.filter(
+    (variable) => !message.includes(values[variable]) && !message.includes(variable)
+  );
+
   return {
     isValid: missingVariables.length === 0,
     missingVariables,
   };
 }
 
+/**
+ * Pick the template to notify a customer about a shipment with: the template
+ * of the scenario that fits the shipment (see selectNotificationScenario),
+ * unless the merchant chose one, translated for the customer's locale when
+ * there's a translation (see notification-locales.ts)
+ *
+ * @param settings - Parsed merchant settings
+ * @param shipment - The shipment being notified about
+ * @param scenario - Scenario chosen by the merchant
+ * @returns The scenario, with its subject and body templates to render and
+ *   the locale to render them in
+ */
+export function selectNotificationTemplate(
+  settings: Pick<
+    MerchantSettings,
+    | "notificationTemplate"
+    | "atRiskNotificationTemplate"
+    | "scenarioTemplates"
+    | "templateLocale"
+    | "templateTranslations"
+  >,
+  shipment: NotificationScenarioInput & { customerLocale?: string | null },
+  scenario: NotificationScenario = selectNotificationScenario(shipment)
+): NotificationTemplate & { scenario: NotificationScenario; locale: string } {
+  const translation = findTranslation(
+    settings,
+    shipment.customerLocale,
+    (candidate) => candidate.templates[scenario]
+  );
+  const template = translation?.value ?? getScenarioTemplate(settings, scenario);
+  const templateLocale = translation?.locale ?? settings.templateLocale;
+
+  return {
+    scenario,
+    subject: template.subject,
+    body: template.body,
+    locale: getFormattingLocale(templateLocale, shipment.customerLocale),
+  };
+}
+
+/**
+ * Pick the SMS template for a customer's locale, like selectNotificationTemplate
+ *
+ * @returns The template body and the locale to render it in
+ */
+export function selectSmsTemplate(
+  settings: Pick<MerchantSettings, "smsTemplate" | "templateLocale" | "templateTranslations">,
+  customerLocale: string | null | undefined
+): { body: string; locale: string } {
+  const translation = findTranslation(settings, customerLocale, (candidate) => candidate.smsBody);
+  const templateLocale = translation?.locale ?? settings.templateLocale;
+
+  return {
+    body: translation?.value ?? settings.smsTemplate.body,
+    locale: getFormattingLocale(templateLocale, customerLocale),
+  };
+}
+
 /**
  * Format shop domain to a nice shop name
  * e.g., "my-store.myshopify.com" -> "My Store"
@@ -169,11 +532,21 @@ export function formatShopName(shopDomain: string): string {
   return name;
 }
 
+/**
+ * Read the fulfilled items stored on a shipment (Shipment.lineItems)
+ */
+export function parseLineItems(value: unknown): TemplateLineItem[] {
+  const parsed = z.array(TemplateLineItemSchema).safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
 /**
  * Build a template context from shipment data
  *
- * @param shipment - The shipment to build context for
+ * @param shipment - The shipment to build context for; {delay_reason} reads its exception category
  * @param shopDomain - The merchant's shop domain for shop name
+ * @param locale - Locale to format the delivery date and carrier name in
+ * @param discountCode - The merchant's discount code for {discount_code}
  * @returns TemplateContext for rendering templates
  */
 export function buildTemplateContext(
@@ -185,28 +558,42 @@ export function buildTemplateContext(
     currentStatus: string;
     lastCarrierStatus: string | null;
     expectedDeliveryDate: Date | null;
+    rescheduledDeliveryDate?: Date | null;
+    exceptionCategory?: ExceptionCategory | null;
+    lineItems?: unknown;
+    shippingAddress?: unknown;
+    daysDelayed?: number;
+    lastScanLocation?: string | null;
+    orderStatusUrl?: string | null;
   },
-  shopDomain: string
+  shopDomain: string,
+  locale: string = DEFAULT_TEMPLATE_LOCALE,
+  discountCode: string = ""
 ): TemplateContext {
   const carrierStatus = shipment.lastCarrierStatus || shipment.currentStatus;
-  const expectedDate = shipment.expectedDeliveryDate
-    ? shipment.expectedDeliveryDate.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      })
-    : "Not available";
+  // A date the carrier rescheduled delivery to replaces the original estimate
+  const deliveryDate = shipment.rescheduledDeliveryDate ?? shipment.expectedDeliveryDate;
+  const expectedDate = deliveryDate ? formatDeliveryDate(deliveryDate, locale) : "Not available";
+  const address = z.object({ city: z.string() }).safeParse(shipment.shippingAddress);
 
   return {
     customerFirstName: extractFirstName(shipment.customerName),
     customerFullName: shipment.customerName,
     orderNumber: shipment.orderNumber,
     trackingNumber: shipment.trackingNumber,
-    carrierName: formatCarrierName(shipment.carrier),
+    carrierName: formatCarrierName(shipment.carrier, locale),
     carrierStatus,
     trackingUrl: getCarrierTrackingUrl(shipment.carrier, shipment.trackingNumber),
     expectedDeliveryDate: expectedDate,
+    delayReason: getCustomerDelayReason(shipment.exceptionCategory),
     shopName: formatShopName(shopDomain),
+    lineItems: parseLineItems(shipment.lineItems),
+    shippingCity: address.success ? address.data.city : "",
+    daysDelayed: shipment.daysDelayed ?? 0,
+    lastScanLocation: shipment.lastScanLocation ?? "",
+    discountCode,
+    orderStatusUrl: shipment.orderStatusUrl ?? "",
+    deliveryDate,
+    locale,
   };
 }
@@ -0,0 +1,103 @@
+/**
+ * Phone Number Utility
+ *
+ * Normalizes the phone numbers Shopify stores on orders (as customers typed
+ * them) to E.164, the format SMS providers require: "+" followed by the
+ * country calling code and the national number, at most 15 digits.
+ *
+ * This module is client-safe: the notification modal validates numbers with it.
+ */
+
+/**
+ * Used for national numbers when the shipping country is unknown.
+ */
+export const DEFAULT_PHONE_COUNTRY = "US";
+
+/**
+ * Country calling code of each country we ship to most, keyed by ISO country code.
+ * National numbers from other countries can't be normalized without a "+" prefix.
+ */
+const COUNTRY_CALLING_CODES: Record<string, string> = {
+  US: "1",
+  CA: "1",
+  PR: "1",
+  GB: "44",
+  IE: "353",
+  AU: "61",
+  NZ: "64",
+  DE: "49",
+  FR: "33",
+  NL: "31",
+  BE: "32",
+  ES: "34",
+  IT: "39",
+  MX: "52",
+};
+
+/**
+ * Countries sharing the North American Numbering Plan (10-digit national
+ * numbers, optionally written with a leading 1).
+ */
+const NANP_COUNTRIES = new Set(["US", "CA", "PR"]);
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Whether a phone number is already in E.164 format, e.g. "+14155550123".
+ */
+export function isE164PhoneNumber(phone: string): boolean {
+  return E164_PATTERN.test(phone);
+}
+
+/**
+ * Normalize a phone number to E.164.
+ *
+ * Numbers written with a "+" or "00" international prefix keep their country
+ * code; national numbers get the calling code of the shipping country.
+ * Formatting characters (spaces, dashes, dots, parentheses) are ignored.
+ *
+ * @param phone - Phone number as entered by the customer
+ * @param countryCode - ISO code of the shipping country (defaults to the US)
+ * @returns The E.164 number, or null if it isn't a valid phone number
+ */
+export function normalizePhoneNumber(
+  phone: string | null | undefined,
+  countryCode?: string | null
+): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  // Drop extensions ("ext. 12", "x12") and formatting characters
+  const withoutExtension = phone.split(/\s*(?:ext\.?|x)\s*\d+\s*$/i)[0];
+  const cleaned = withoutExtension.replace(/[\s\-.()]/g, "");
+  if (!/^\+?\d+$/.test(cleaned)) {
+    return null;
+  }
+
+  let candidate: string;
+  if (cleaned.startsWith("+")) {
+    candidate = cleaned;
+  } else if (cleaned.startsWith("00")) {
+    candidate = `+${cleaned.slice(2)}`;
+  } else {
+    const country = (countryCode || DEFAULT_PHONE_COUNTRY).toUpperCase();
+    const callingCode = COUNTRY_CALLING_CODES[country];
+    if (!callingCode) {
+      return null;
+    }
+
+    if (NANP_COUNTRIES.has(country)) {
+      const national = cleaned.length === 11 && cleaned.startsWith("1") ? cleaned.slice(1) : cleaned;
+      if (national.length !== 10) {
+        return null;
+      }
+      candidate = `+1${national}`;
+    } else {
+      // Other countries write national numbers with a trunk prefix 0
+      candidate = `+${callingCode}${cleaned.replace(/^0/, "")}`;
+    }
+  }
+
+  return isE164PhoneNumber(candidate) ? candidate : null;
+}
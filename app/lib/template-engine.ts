@@ -0,0 +1,723 @@
+/**
+ * Template Engine
+ *
+ * Small, sandboxed template language for customer notifications. Templates
+ * are plain text with tags in single braces:
+ * - {order_number}: a variable
+ * - {expected_delivery_date | date: "short"}, {customer_first_name | default: "there"}:
+ *   a variable through helpers (see TEMPLATE_HELPERS)
+ * - {#if days_delayed > 3}...{#else}...{/if}, {#unless ...}...{/unless}: conditionals
+ *   on a variable being set, or compared with a number or "text"
+ * - {#each line_items}{quantity} x {title}{/each}: one copy per list item,
+ *   with the item's fields as variables ({#else} renders for empty lists)
+ *
+ * A "{" that isn't followed by a lowercase letter, "#" or "/" is plain text.
+ *
+ * Templates are parsed, never evaluated: variables are looked up by name in
+ * the scope passed in (own properties only), and nesting, list lengths,
+ * output size and the work a render does are capped; {#each} blocks can't
+ * be nested, as each level would multiply the work. This module is client-safe; settings previews
+ * render with it.
+ */
+
+/**
+ * A value a template can show or test
+ */
+export type TemplateValue = string | number | Date | null | TemplateList;
+
+/**
+ * A list variable: items for {#each}, text for showing the list as a variable
+ */
+export interface TemplateList {
+  items: TemplateScope[];
+  text: string;
+}
+
+/**
+ * Variables available to a template, by name
+ */
+export type TemplateScope = Record<string, TemplateValue>;
+
+/**
+ * The variables a template may use, for validation
+ */
+export interface TemplateSyntax {
+  variables: readonly string[];
+  /** Fields of each list variable's items, available inside {#each} */
+  listFields: Record<string, readonly string[]>;
+}
+
+/**
+ * A problem with a template, at a position in its source
+ */
+export interface TemplateError {
+  message: string;
+  /** Offset in the template (0-based) */
+  index: number;
+  /** Line and column (1-based) */
+  line: number;
+  column: number;
+}
+
+/**
+ * Thrown by parseTemplate for templates that can't be parsed
+ */
+export class TemplateSyntaxError extends Error {
+  readonly index: number;
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, source: string, index: number) {
+    const { line, column } = getPosition(source, index);
+    super(message);
+    this.name = "TemplateSyntaxError";
+    this.index = index;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Thrown by renderTemplateNodes for templates that take too long to render
+ */
+export class TemplateRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateRenderError";
+  }
+}
+
+/**
+ * Formats of the date helper
+ */
+export const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { year: "numeric", month: "numeric", day: "numeric" },
+  medium: { year: "numeric", month: "short", day: "numeric" },
+  long: { year: "numeric", month: "long", day: "numeric" },
+  full: { weekday: "long", year: "numeric", month: "long", day: "numeric" },
+  weekday: { weekday: "long" },
+};
+
+/**
+ * Helpers a variable can be passed through, with what they take
+ */
+export const TEMPLATE_HELPERS = {
+  default: { argument: "required", description: "Text to show when the variable is empty" },
+  date: { argument: "optional", description: `Date format: ${Object.keys(DATE_FORMATS).join(", ")}` },
+  upper: { argument: "none", description: "UPPERCASE" },
+  lower: { argument: "none", description: "lowercase" },
+  capitalize: { argument: "none", description: "Capitalize the first letter" },
+} as const;
+
+type TemplateHelper = keyof typeof TEMPLATE_HELPERS;
+
+/** Deepest nesting of {#if}, {#unless} and {#each} blocks */
+export const MAX_NESTING_DEPTH = 8;
+/** Most list items {#each} renders */
+export const MAX_LIST_ITEMS = 100;
+/** Longest rendered output; the rest is cut off */
+export const MAX_OUTPUT_LENGTH = 100_000;
+/**
+ * Most steps (nodes visited and list items iterated) a render takes before
+ * giving up. Valid templates stay well below it, with a single {#each}
+ * level of at most MAX_LIST_ITEMS.
+ */
+export const MAX_RENDER_STEPS = 1_000_000;
+
+// ============================================================
+// Syntax tree
+// ============================================================
+
+type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+interface HelperCall {
+  name: string;
+  argument: string | null;
+  index: number;
+}
+
+interface Condition {
+  name: string;
+  index: number;
+  comparison: { operator: ComparisonOperator; value: string | number } | null;
+}
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: string; helpers: HelperCall[]; source: string; index: number }
+  | { type: "if"; negate: boolean; condition: Condition; body: TemplateNode[]; otherwise: TemplateNode[]; index: number }
+  | { type: "each"; name: string; body: TemplateNode[]; otherwise: TemplateNode[]; index: number };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+// ============================================================
+// Parsing
+// ============================================================
+
+const TAG_START = /[a-z#/]/;
+const OPERATORS: ComparisonOperator[] = ["==", "!=", ">=", "<=", ">", "<"];
+
+type TagToken =
+  | { type: "identifier"; value: string; index: number }
+  | { type: "string"; value: string; index: number }
+  | { type: "number"; value: number; index: number }
+  | { type: "symbol"; value: string; index: number };
+
+/**
+ * Get the 1-based line and column of an offset in a template
+ */
+function getPosition(source: string, index: number): { line: number; column: number } {
+  const before = source.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Split a tag's content into tokens, with offsets in the whole template
+ */
+function tokenizeTag(source: string, start: number, end: number): TagToken[] {
+  const tokens: TagToken[] = [];
+  let i = start;
+
+  while (i < end) {
+    const char = source[i];
+    if (char === " " || char === "\t") {
+      i++;
+      continue;
+    }
+
+    const rest = source.slice(i, end);
+    const identifier = /^[a-z_][a-z0-9_]*/.exec(rest);
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], index: i });
+      i += identifier[0].length;
+    } else if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), index: i });
+      i += number[0].length;
+    } else if (char === '"' || char === "'") {
+      const close = source.indexOf(char, i + 1);
+      if (close === -1 || close >= end) {
+        throw new TemplateSyntaxError("Unclosed quote", source, i);
+      }
+      tokens.push({ type: "string", value: source.slice(i + 1, close), index: i });
+      i = close + 1;
+    } else if (operator) {
+      tokens.push({ type: "symbol", value: operator, index: i });
+      i += operator.length;
+    } else if (char === "|" || char === ":" || char === "#" || char === "/") {
+      tokens.push({ type: "symbol", value: char, index: i });
+      i++;
+    } else {
+      throw new TemplateSyntaxError(`Unexpected "${char}"`, source, i);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the "}" closing the tag opened at start, skipping quoted text
+ */
+function findTagEnd(source: string, start: number): number {
+  let quote: { char: string; index: number } | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\n") {
+      break;
+    }
+    if (quote) {
+      if (char === quote.char) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = { char, index: i };
+    } else if (char === "}") {
+      return i;
+    } else if (char === "{") {
+      break;
+    }
+  }
+  if (quote) {
+    throw new TemplateSyntaxError("Unclosed quote", source, quote.index);
+  }
+  throw new TemplateSyntaxError('Unclosed tag: add "}"', source, start);
+}
+
+/**
+ * Reads the tokens of one tag
+ */
+class TagReader {
+  private position = 0;
+  private readonly source: string;
+  private readonly tokens: TagToken[];
+  private readonly end: number;
+
+  constructor(source: string, tokens: TagToken[], end: number) {
+    this.source = source;
+    this.tokens = tokens;
+    this.end = end;
+  }
+
+  peek(): TagToken | undefined {
+    return this.tokens[this.position];
+  }
+
+  next(): TagToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  fail(message: string, token: TagToken | undefined = this.peek()): never {
+    throw new TemplateSyntaxError(message, this.source, token?.index ?? this.end);
+  }
+
+  identifier(what: string): Extract<TagToken, { type: "identifier" }> {
+    const token = this.next();
+    if (token?.type !== "identifier") {
+      this.fail(`Expected ${what}`, token);
+    }
+    return token;
+  }
+
+  symbol(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === "symbol" && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  done(): void {
+    const token = this.peek();
+    if (token) {
+      this.fail(`Unexpected "${token.value}"`, token);
+    }
+  }
+}
+
+/**
+ * Parse a template into its syntax tree.
+ *
+ * @throws TemplateSyntaxError for tags that can't be parsed and unbalanced blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the list new nodes go into
+  const stack: { block: BlockNode; keyword: string; target: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  let text = "";
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char !== "{" || !TAG_START.test(source[i + 1] ?? "")) {
+      text += char;
+      i++;
+      continue;
+    }
+
+    if (text) {
+      current().push({ type: "text", value: text });
+      text = "";
+    }
+
+    const end = findTagEnd(source, i);
+    // Annotated so reader.fail() narrows like a throw
+    const reader: TagReader = new TagReader(source, tokenizeTag(source, i + 1, end), end);
+
+    if (reader.symbol("#")) {
+      const keyword = reader.identifier('a block: "#if", "#unless", "#each" or "#else"');
+
+      if (keyword.value === "else") {
+        reader.done();
+        const open = stack[stack.length - 1];
+        if (!open || open.target === open.block.otherwise) {
+          reader.fail("{#else} must be inside an {#if}, {#unless} or {#each} block", keyword);
+        }
+        open.target = open.block.otherwise;
+      } else if (keyword.value === "if" || keyword.value === "unless" || keyword.value === "each") {
+        if (stack.length >= MAX_NESTING_DEPTH) {
+          reader.fail(`Blocks can't be nested more than ${MAX_NESTING_DEPTH} deep`, keyword);
+        }
+        const name = reader.identifier("a variable name");
+        let block: BlockNode;
+        if (keyword.value === "each") {
+          block = { type: "each", name: name.value, body: [], otherwise: [], index: i };
+        } else {
+          const condition: Condition = { name: name.value, index: name.index, comparison: null };
+          const operator = reader.peek();
+          if (operator?.type === "symbol" && OPERATORS.includes(operator.value as ComparisonOperator)) {
+            reader.next();
+            const value = reader.next();
+            if (value?.type !== "number" && value?.type !== "string") {
+              reader.fail(`Expected a number or "text" after ${operator.value}`, value);
+            }
+            condition.comparison = { operator: operator.value as ComparisonOperator, value: value.value };
+          }
+          block = {
+            type: "if",
+            negate: keyword.value === "unless",
+            condition,
+            body: [],
+            otherwise: [],
+            index: i,
+          };
+        }
+        reader.done();
+        current().push(block);
+        stack.push({ block, keyword: keyword.value, target: block.body });
+      } else {
+        reader.fail(`Unknown block "#${keyword.value}"`, keyword);
+      }
+    } else if (reader.symbol("/")) {
+      const keyword = reader.identifier('"/if", "/unless" or "/each"');
+      reader.done();
+      const open = stack.pop();
+      if (!open) {
+        reader.fail(`{/${keyword.value}} has no matching {#${keyword.value}}`, keyword);
+      }
+      if (open.keyword !== keyword.value) {
+        const { line, column } = getPosition(source, open.block.index);
+        reader.fail(
+          `Expected {/${open.keyword}} to close the {#${open.keyword}} at line ${line}, column ${column}`,
+          keyword
+        );
+      }
+    } else {
+      const name = reader.identifier("a variable name");
+      const helpers: HelperCall[] = [];
+      while (reader.symbol("|")) {
+        const helper = reader.identifier("a helper name");
+        let argument: string | null = null;
+        if (reader.symbol(":")) {
+          const value = reader.next();
+          if (value?.type !== "string" && value?.type !== "number") {
+            reader.fail(`Expected "text" after ${helper.value}:`, value);
+          }
+          argument = String(value.value);
+        }
+        helpers.push({ name: helper.value, argument, index: helper.index });
+      }
+      reader.done();
+      current().push({
+        type: "variable",
+        name: name.value,
+        helpers,
+        source: source.slice(i, end + 1),
+        index: i,
+      });
+    }
+
+    i = end + 1;
+  }
+
+  if (text) {
+    current().push({ type: "text", value: text });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `Unclosed {#${unclosed.keyword}}: add {/${unclosed.keyword}}`,
+      source,
+      unclosed.block.index
+    );
+  }
+
+  return root;
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Check a template's syntax and that it only uses known variables and helpers.
+ *
+ * @returns Every problem found, in template order (empty for valid templates);
+ *   only the first syntax error is reported, as parsing stops there
+ */
+export function validateTemplateSource(source: string, syntax: TemplateSyntax): TemplateError[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return [{ message: error.message, index: error.index, line: error.line, column: error.column }];
+    }
+    throw error;
+  }
+
+  const errors: { message: string; index: number }[] = [];
+  const checkVariable = (name: string, index: number, scope: readonly string[]) => {
+    if (!scope.includes(name)) {
+      errors.push({ message: `Unknown variable "${name}"`, index });
+    }
+  };
+
+  const visit = (list: TemplateNode[], scope: readonly string[], inEach = false) => {
+    for (const node of list) {
+      if (node.type === "variable") {
+        checkVariable(node.name, node.index, scope);
+        for (const helper of node.helpers) {
+          const definition = (TEMPLATE_HELPERS as Record<string, (typeof TEMPLATE_HELPERS)[TemplateHelper]>)[
+            helper.name
+          ];
+          if (!definition) {
+            errors.push({ message: `Unknown helper "${helper.name}"`, index: helper.index });
+          } else if (definition.argument === "required" && helper.argument === null) {
+            errors.push({ message: `${helper.name} needs a value, like ${helper.name}: "..."`, index: helper.index });
+          } else if (definition.argument === "none" && helper.argument !== null) {
+            errors.push({ message: `${helper.name} doesn't take a value`, index: helper.index });
+          } else if (helper.name === "date" && helper.argument !== null && !DATE_FORMATS[helper.argument]) {
+            errors.push({
+              message: `Unknown date format "${helper.argument}" (use ${Object.keys(DATE_FORMATS).join(", ")})`,
+              index: helper.index,
+            });
+          }
+        }
+      } else if (node.type === "if") {
+        checkVariable(node.condition.name, node.condition.index, scope);
+        const comparison = node.condition.comparison;
+        if (comparison && typeof comparison.value === "string" && !["==", "!="].includes(comparison.operator)) {
+          errors.push({ message: `${comparison.operator} compares numbers`, index: node.condition.index });
+        }
+        visit(node.body, scope, inEach);
+        visit(node.otherwise, scope, inEach);
+      } else if (node.type === "each") {
+        if (inEach) {
+          errors.push({ message: "{#each} can't be inside another {#each}", index: node.index });
+        }
+        const fields = Object.prototype.hasOwnProperty.call(syntax.listFields, node.name)
+          ? syntax.listFields[node.name]
+          : null;
+        if (!fields) {
+          errors.push({
+            message: `{#each} needs a list: ${Object.keys(syntax.listFields).join(", ")}`,
+            index: node.index,
+          });
+        }
+        visit(node.body, [...scope, ...(fields ?? [])], true);
+        visit(node.otherwise, scope, inEach);
+      }
+    }
+  };
+  visit(nodes, syntax.variables);
+
+  return errors
+    .sort((a, b) => a.index - b.index)
+    .map((error) => ({ ...error, ...getPosition(source, error.index) }));
+}
+
+/**
+ * Format a template error for display ("Line 2, column 5: Unknown variable ...")
+ */
+export function formatTemplateError(error: TemplateError): string {
+  return `Line ${error.line}, column ${error.column}: ${error.message}`;
+}
+
+/**
+ * Get the names of the variables a template uses, in conditions too
+ */
+export function getTemplateVariableNames(nodes: TemplateNode[]): Set<string> {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === "variable") {
+        names.add(node.name);
+      } else if (node.type === "if") {
+        names.add(node.condition.name);
+        visit(node.body);
+        visit(node.otherwise);
+      } else if (node.type === "each") {
+        names.add(node.name);
+        visit(node.body);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(nodes);
+  return names;
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+
+export interface RenderTemplateOptions {
+  /** Locale dates are formatted in */
+  locale: string;
+  /** Text for variables that render empty without a default helper */
+  fallbacks?: Record<string, string>;
+}
+
+/**
+ * Format a date with one of DATE_FORMATS
+ */
+export function formatTemplateDate(date: Date, format: string, locale: string): string {
+  return date.toLocaleDateString(locale, DATE_FORMATS[format] ?? DATE_FORMATS.full);
+}
+
+function isList(value: TemplateValue): value is TemplateList {
+  return typeof value === "object" && value !== null && !(value instanceof Date);
+}
+
+function isEmpty(value: TemplateValue): boolean {
+  return value === null || value === "" || (isList(value) && value.items.length === 0);
+}
+
+function toText(value: TemplateValue, locale: string): string {
+  if (value === null) return "";
+  if (value instanceof Date) return formatTemplateDate(value, "full", locale);
+  if (isList(value)) return value.text;
+  return String(value);
+}
+
+function toNumber(value: TemplateValue): number {
+  if (typeof value === "number") return value;
+  if (isList(value)) return value.items.length;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return NaN;
+}
+
+/**
+ * Look a variable up in the innermost scope that has it (own properties only)
+ */
+function lookup(name: string, scopes: TemplateScope[]): { found: boolean; value: TemplateValue } {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (Object.prototype.hasOwnProperty.call(scopes[i], name)) {
+      return { found: true, value: scopes[i][name] ?? null };
+    }
+  }
+  return { found: false, value: null };
+}
+
+function testCondition(condition: Condition, scopes: TemplateScope[], locale: string): boolean {
+  const { value } = lookup(condition.name, scopes);
+  if (!condition.comparison) {
+    return !isEmpty(value) && value !== 0;
+  }
+
+  const { operator, value: expected } = condition.comparison;
+  if (typeof expected === "string") {
+    const equal = toText(value, locale) === expected;
+    return operator === "==" ? equal : !equal;
+  }
+
+  const actual = toNumber(value);
+  switch (operator) {
+    case "==":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+  }
+}
+
+function applyHelper(value: TemplateValue, helper: HelperCall, locale: string): TemplateValue {
+  switch (helper.name) {
+    case "default":
+      return isEmpty(value) ? (helper.argument ?? "") : value;
+    case "date":
+      return value instanceof Date ? formatTemplateDate(value, helper.argument ?? "full", locale) : value;
+    case "upper":
+      return toText(value, locale).toLocaleUpperCase(locale);
+    case "lower":
+      return toText(value, locale).toLocaleLowerCase(locale);
+    case "capitalize": {
+      const text = toText(value, locale);
+      return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+    }
+    default:
+      // Unknown helpers are reported by validation and skipped here
+      return value;
+  }
+}
+
+/**
+ * Render a parsed template. Unknown variables are left as written.
+ *
+ * @throws TemplateRenderError if rendering takes more than MAX_RENDER_STEPS (templates that
+ *   nest {#each}, which validation rejects)
+ */
+export function renderTemplateNodes(
+  nodes: TemplateNode[],
+  scope: TemplateScope,
+  options: RenderTemplateOptions
+): string {
+  let output = "";
+  let steps = 0;
+  const countStep = () => {
+    if (++steps > MAX_RENDER_STEPS) {
+      throw new TemplateRenderError(`Template is too complex to render (over ${MAX_RENDER_STEPS.toLocaleString("en-US")} steps)`);
+    }
+  };
+  const append = (text: string) => {
+    if (output.length < MAX_OUTPUT_LENGTH) {
+      output += text.slice(0, MAX_OUTPUT_LENGTH - output.length);
+    }
+  };
+
+  const render = (list: TemplateNode[], scopes: TemplateScope[]) => {
+    for (const node of list) {
+      if (output.length >= MAX_OUTPUT_LENGTH) {
+        return;
+      }
+      countStep();
+
+      if (node.type === "text") {
+        append(node.value);
+      } else if (node.type === "variable") {
+        const { found, value } = lookup(node.name, scopes);
+        if (!found) {
+          append(node.source);
+          continue;
+        }
+        const result = node.helpers.reduce(
+          (current, helper) => applyHelper(current, helper, options.locale),
+          value
+        );
+        const text = toText(result, options.locale);
+        append(text === "" && node.helpers.length === 0 ? (options.fallbacks?.[node.name] ?? "") : text);
+      } else if (node.type === "if") {
+        const passed = testCondition(node.condition, scopes, options.locale) !== node.negate;
+        render(passed ? node.body : node.otherwise, scopes);
+      } else {
+        const { value } = lookup(node.name, scopes);
+        const items = isList(value) ? value.items.slice(0, MAX_LIST_ITEMS) : [];
+        if (items.length === 0) {
+          render(node.otherwise, scopes);
+        }
+        for (const item of items) {
+          // Each item counts, so empty bodies can't loop for free
+          countStep();
+          render(node.body, [...scopes, item]);
+        }
+      }
+    }
+  };
+  render(nodes, [scope]);
+
+  return output;
+}
+
+/**
+ * Parse and render a template.
+ *
+ * @throws TemplateSyntaxError for templates that can't be parsed
+ * @throws TemplateRenderError for templates that take too long to render
+ */
+export function renderTemplateSource(
+  source: string,
+  scope: TemplateScope,
+  options: RenderTemplateOptions
+): string {
+  return renderTemplateNodes(parseTemplate(source), scope, options);
+}
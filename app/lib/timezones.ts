@@ -0,0 +1,296 @@
+/**
+ * Timezone Utility
+ *
+ * Converts between instants and calendar days in an IANA timezone, so
+ * delivery days and deadlines follow the customer's (or merchant's) clock
+ * instead of UTC. Offsets come from Intl, so DST transitions are handled.
+ *
+ * Calendar days are represented the same way as in business-days.ts: a Date
+ * at UTC midnight of that day.
+ */
+
+import { z } from "zod";
+import { ShippingAddressSchema } from "./validation";
+
+/**
+ * Used when a merchant has no valid timezone.
+ */
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+/**
+ * Primary timezone of each US state and territory (for states spanning two
+ * zones, the zone covering most of the population).
+ */
+const US_STATE_TIME_ZONES: Record<string, string> = {
+  AL: "America/Chicago",
+  AK: "America/Anchorage",
+  AZ: "America/Phoenix",
+  AR: "America/Chicago",
+  CA: "America/Los_Angeles",
+  CO: "America/Denver",
+  CT: "America/New_York",
+  DE: "America/New_York",
+  DC: "America/New_York",
+  FL: "America/New_York",
+  GA: "America/New_York",
+  HI: "Pacific/Honolulu",
+  ID: "America/Boise",
+  IL: "America/Chicago",
+  IN: "America/Indiana/Indianapolis",
+  IA: "America/Chicago",
+  KS: "America/Chicago",
+  KY: "America/New_York",
+  LA: "America/Chicago",
+  ME: "America/New_York",
+  MD: "America/New_York",
+  MA: "America/New_York",
+  MI: "America/Detroit",
+  MN: "America/Chicago",
+  MS: "America/Chicago",
+  MO: "America/Chicago",
+  MT: "America/Denver",
+  NE: "America/Chicago",
+  NV: "America/Los_Angeles",
+  NH: "America/New_York",
+  NJ: "America/New_York",
+  NM: "America/Denver",
+  NY: "America/New_York",
+  NC: "America/New_York",
+  ND: "America/Chicago",
+  OH: "America/New_York",
+  OK: "America/Chicago",
+  OR: "America/Los_Angeles",
+  PA: "America/New_York",
+  RI: "America/New_York",
+  SC: "America/New_York",
+  SD: "America/Chicago",
+  TN: "America/Chicago",
+  TX: "America/Chicago",
+  UT: "America/Denver",
+  VT: "America/New_York",
+  VA: "America/New_York",
+  WA: "America/Los_Angeles",
+  WV: "America/New_York",
+  WI: "America/Chicago",
+  WY: "America/Denver",
+  PR: "America/Puerto_Rico",
+  VI: "America/St_Thomas",
+  GU: "Pacific/Guam",
+  AS: "Pacific/Pago_Pago",
+  MP: "Pacific/Saipan",
+};
+
+/**
+ * Primary timezone of each Canadian province and territory.
+ */
+const CA_PROVINCE_TIME_ZONES: Record<string, string> = {
+  AB: "America/Edmonton",
+  BC: "America/Vancouver",
+  MB: "America/Winnipeg",
+  NB: "America/Moncton",
+  NL: "America/St_Johns",
+  NS: "America/Halifax",
+  NT: "America/Yellowknife",
+  NU: "America/Iqaluit",
+  ON: "America/Toronto",
+  PE: "America/Halifax",
+  QC: "America/Toronto",
+  SK: "America/Regina",
+  YT: "America/Whitehorse",
+};
+
+/**
+ * Formatters by timezone (creating them is comparatively slow).
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is a timezone Intl recognizes.
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local wall-clock time of an instant, as if it were UTC.
+ */
+function wallClockUTC(instant: Date, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+
+  return Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ * (e.g. -8 hours for Los Angeles in winter, -7 in summer).
+ */
+export function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const wholeSeconds = instant.getTime() - instant.getUTCMilliseconds();
+  return wallClockUTC(instant, timeZone) - wholeSeconds;
+}
+
+/**
+ * The calendar day an instant falls on in a timezone.
+ *
+ * @example
+ * // 7pm in Los Angeles on Feb 4 is already Feb 5 in UTC
+ * toCalendarDay(new Date("2026-02-05T03:00:00Z"), "America/Los_Angeles") // 2026-02-04T00:00:00Z
+ */
+export function toCalendarDay(instant: Date, timeZone: string): Date {
+  const local = new Date(wallClockUTC(instant, timeZone));
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()));
+}
+
+/**
+ * The instant a calendar day starts in a timezone (local midnight).
+ *
+ * @param day - The calendar day (any time on it, read in UTC)
+ * @param timeZone - IANA timezone
+ */
+export function startOfDayInTimeZone(day: Date, timeZone: string): Date {
+  const midnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  // Guess with the offset at UTC midnight, then correct with the offset at the guess,
+  // which differs when a DST change falls between the two
+  const guess = midnight - getTimeZoneOffsetMs(new Date(midnight), timeZone);
+  return new Date(midnight - getTimeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * Start and end instants of the local day containing an instant, e.g. for
+ * "delivered today" counts.
+ */
+export function getDayRangeInTimeZone(
+  instant: Date,
+  timeZone: string
+): { start: Date; end: Date } {
+  const day = toCalendarDay(instant, timeZone);
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  return {
+    start: startOfDayInTimeZone(day, timeZone),
+    end: new Date(startOfDayInTimeZone(nextDay, timeZone).getTime() - 1),
+  };
+}
+
+/**
+ * Stored shipping addresses use camelCase keys (see formatShippingAddress in
+ * shipment.service.ts), Shopify payloads snake_case.
+ */
+const StoredAddressCodesSchema = z.object({
+  provinceCode: z.string().nullable().optional(),
+  countryCode: z.string().nullable().optional(),
+});
+
+/**
+ * Country and state/province codes of a shipping address (upper case), or
+ * null when it has no province code.
+ *
+ * @param shippingAddress - Shipment.shippingAddress JSON, or a Shopify shipping address
+ */
+export function getAddressRegion(
+  shippingAddress: unknown
+): { country: string | null; province: string } | null {
+  const parsed = ShippingAddressSchema.safeParse(shippingAddress);
+  const stored = StoredAddressCodesSchema.safeParse(shippingAddress);
+  if (!parsed.success || !stored.success) {
+    return null;
+  }
+
+  const country = (parsed.data.country_code ?? stored.data.countryCode)?.toUpperCase() ?? null;
+  const province = (parsed.data.province_code ?? stored.data.provinceCode)?.toUpperCase();
+  return province ? { country, province } : null;
+}
+
+/**
+ * Country code of a shipping address (upper case), or null if it has none.
+ *
+ * @param shippingAddress - Shipment.shippingAddress JSON, or a Shopify shipping address
+ */
+export function getAddressCountry(shippingAddress: unknown): string | null {
+  const parsed = ShippingAddressSchema.safeParse(shippingAddress);
+  const stored = StoredAddressCodesSchema.safeParse(shippingAddress);
+  if (!parsed.success || !stored.success) {
+    return null;
+  }
+
+  return (parsed.data.country_code ?? stored.data.countryCode)?.toUpperCase() ?? null;
+}
+
+/**
+ * Timezone of a shipping address, from its state or province (US and Canada).
+ * Returns null when it can't be determined.
+ *
+ * @param shippingAddress - Shipment.shippingAddress JSON, or a Shopify shipping address
+ */
+export function getAddressTimeZone(shippingAddress: unknown): string | null {
+  const region = getAddressRegion(shippingAddress);
+  if (!region) {
+    return null;
+  }
+
+  const { country, province } = region;
+  if (country === "US" || (!country && province in US_STATE_TIME_ZONES)) {
+    return US_STATE_TIME_ZONES[province] ?? null;
+  }
+  if (country === "CA") {
+    return CA_PROVINCE_TIME_ZONES[province] ?? null;
+  }
+  return null;
+}
+
+/**
+ * A merchant's timezone, or the default if it isn't a valid timezone.
+ *
+ * @param merchantTimeZone - Merchant.timezone
+ */
+export function getMerchantTimeZone(merchantTimeZone: string | null | undefined): string {
+  return isValidTimeZone(merchantTimeZone) ? merchantTimeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Timezone deliveries of a shipment are evaluated in: the destination's,
+ * falling back to the merchant's.
+ *
+ * @param shippingAddress - Shipment.shippingAddress JSON
+ * @param merchantTimeZone - Merchant.timezone
+ */
+export function getDeliveryTimeZone(
+  shippingAddress: unknown,
+  merchantTimeZone: string | null | undefined
+): string {
+  return getAddressTimeZone(shippingAddress) ?? getMerchantTimeZone(merchantTimeZone);
+}
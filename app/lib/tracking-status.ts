@@ -0,0 +1,166 @@
+/**
+ * Tracking Status Vocabulary
+ *
+ * Carrier-independent tracking statuses stored in Shipment.trackingStatus
+ * beside the raw carrier status. Each carrier adapter maps its native status
+ * codes to a TrackingStatus, falling back to the description keywords below
+ * when a code is missing or too coarse (e.g. UPS reports "Out For Delivery
+ * Today" as a plain in-transit activity).
+ *
+ * This module is client-safe: dashboard filters and badges read from it.
+ */
+
+import type { TrackingStatus } from "@prisma/client";
+
+/**
+ * Display labels for every tracking status, in journey order.
+ * Keyed by status so a new TrackingStatus value fails type-checking until it is labelled.
+ */
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  LABEL_CREATED: "Label created",
+  PICKED_UP: "Picked up",
+  IN_TRANSIT: "In transit",
+  OUT_FOR_DELIVERY: "Out for delivery",
+  DELIVERY_ATTEMPTED: "Delivery attempted",
+  AVAILABLE_FOR_PICKUP: "Available for pickup",
+  EXCEPTION: "Exception",
+  RETURNED_TO_SENDER: "Returned to sender",
+  DELIVERED: "Delivered",
+  LOST: "Lost",
+};
+
+/**
+ * All tracking statuses, in journey order.
+ */
+export const TRACKING_STATUSES = Object.keys(TRACKING_STATUS_LABELS) as TrackingStatus[];
+
+/**
+ * Statuses that need merchant attention.
+ */
+export const PROBLEM_TRACKING_STATUSES: TrackingStatus[] = [
+  "DELIVERY_ATTEMPTED",
+  "EXCEPTION",
+  "RETURNED_TO_SENDER",
+  "LOST",
+];
+
+/**
+ * Description keywords for statuses that are more specific than any carrier
+ * status code, checked in order. These override a mapped carrier code.
+ */
+const SPECIFIC_STATUS_KEYWORDS: Array<[TrackingStatus, string[]]> = [
+  [
+    "RETURNED_TO_SENDER",
+    ["return to sender", "returned to sender", "return to shipper", "returned to shipper", "being returned"],
+  ],
+  ["LOST", ["lost", "missing", "unable to locate", "cannot be located"]],
+  [
+    "DELIVERY_ATTEMPTED",
+    ["attempted", "delivery attempt", "notice left", "notice card", "recipient not available", "unable to deliver"],
+  ],
+  [
+    "AVAILABLE_FOR_PICKUP",
+    ["available for pickup", "ready for pickup", "ready for collection", "awaiting collection", "hold at location"],
+  ],
+  ["OUT_FOR_DELIVERY", ["out for delivery", "on vehicle for delivery", "with delivery courier"]],
+];
+
+/**
+ * Description keywords for broad journey stages, checked in order. These only
+ * apply when neither a carrier code nor an exception says otherwise.
+ */
+const GENERAL_STATUS_KEYWORDS: Array<[TrackingStatus, string[]]> = [
+  [
+    "LABEL_CREATED",
+    ["label created", "pre-shipment", "shipment information received", "electronic notification", "shipping label"],
+  ],
+  ["PICKED_UP", ["picked up", "pickup scan", "accepted", "acceptance", "origin scan"]],
+  ["IN_TRANSIT", ["in transit", "arrived", "departed", "processed", "on its way", "on the way"]],
+];
+
+/**
+ * Find the first status whose keywords appear in a description.
+ */
+function matchStatusKeywords(
+  description: string | null | undefined,
+  keywords: Array<[TrackingStatus, string[]]>
+): TrackingStatus | null {
+  if (!description) {
+    return null;
+  }
+
+  const lowerDescription = description.toLowerCase();
+  for (const [status, phrases] of keywords) {
+    if (phrases.some((phrase) => lowerDescription.includes(phrase))) {
+      return status;
+    }
+  }
+  return null;
+}
+
+/**
+ * Inputs for normalizing a carrier status.
+ */
+export interface TrackingStatusInput {
+  /** Status mapped from the carrier's native status code, if the code is known */
+  codeStatus?: TrackingStatus | null;
+  /** Carrier's status description for the latest scan */
+  description: string | null | undefined;
+  /** Whether the carrier reports the package delivered */
+  isDelivered: boolean;
+  /** Whether the carrier reports an exception */
+  isException: boolean;
+  /** Whether the carrier has any scans for the package */
+  hasEvents: boolean;
+}
+
+/**
+ * Resolve the canonical tracking status for a carrier status.
+ *
+ * Precedence: delivered, specific description keywords, the mapped carrier
+ * code, the carrier's exception flag, broad description keywords, and finally
+ * whether any scan exists. Delivered results are always DELIVERED so the
+ * canonical status never disagrees with isDelivered.
+ */
+export function normalizeTrackingStatus(input: TrackingStatusInput): TrackingStatus {
+  if (input.isDelivered) {
+    return "DELIVERED";
+  }
+
+  const codeStatus = input.codeStatus === "DELIVERED" ? null : input.codeStatus;
+
+  return (
+    matchStatusKeywords(input.description, SPECIFIC_STATUS_KEYWORDS) ??
+    codeStatus ??
+    (input.isException ? "EXCEPTION" : null) ??
+    matchStatusKeywords(input.description, GENERAL_STATUS_KEYWORDS) ??
+    (input.hasEvents ? "IN_TRANSIT" : "LABEL_CREATED")
+  );
+}
+
+/**
+ * Shopify fulfillment shipment_status values mapped to tracking statuses.
+ * @see https://shopify.dev/docs/api/admin-rest/latest/resources/fulfillment
+ */
+const SHOPIFY_SHIPMENT_STATUS_MAP: Record<string, TrackingStatus> = {
+  label_printed: "LABEL_CREATED",
+  label_purchased: "LABEL_CREATED",
+  confirmed: "LABEL_CREATED",
+  in_transit: "IN_TRANSIT",
+  out_for_delivery: "OUT_FOR_DELIVERY",
+  attempted_delivery: "DELIVERY_ATTEMPTED",
+  ready_for_pickup: "AVAILABLE_FOR_PICKUP",
+  delivered: "DELIVERED",
+  failure: "EXCEPTION",
+};
+
+/**
+ * Map a Shopify fulfillment shipment_status to a tracking status.
+ * Returns null for missing or unrecognized values.
+ */
+export function trackingStatusFromShopify(shipmentStatus: string | null | undefined): TrackingStatus | null {
+  if (!shipmentStatus) {
+    return null;
+  }
+  return SHOPIFY_SHIPMENT_STATUS_MAP[shipmentStatus] ?? null;
+}
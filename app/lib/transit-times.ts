@@ -0,0 +1,186 @@
+/**
+ * Transit Times
+ *
+ * Client-safe helpers for delivery windows learned from past transit times.
+ * The transit-stats job stores how many business days each merchant's
+ * delivered shipments took (see transit-stats.service.ts); a service level's
+ * suggested window is the merchant's chosen percentile of those times.
+ *
+ * "Would have flagged" counts are shipments delivered after a window's last
+ * day, ignoring the delay threshold's grace hours.
+ */
+
+import type { Carrier } from "@prisma/client";
+import type { MerchantSettings } from "./validation";
+
+type LearnedWindowSettings = MerchantSettings["learnedDeliveryWindows"];
+
+/**
+ * Number of delivered shipments by business days in transit, e.g. {"3": 12, "4": 5}.
+ */
+export type TransitDayCounts = Record<string, number>;
+
+export type LearnedWindowPercentile = LearnedWindowSettings["percentile"];
+
+/**
+ * Percentiles merchants can base suggested windows on.
+ */
+export const LEARNED_WINDOW_PERCENTILES: readonly LearnedWindowPercentile[] = [75, 90, 95];
+
+/**
+ * Transit times on one lane (origin location to destination region).
+ */
+export interface TransitLane {
+  originLocationName: string | null;
+  /** "US-CA" (country-state) */
+  destinationRegion: string | null;
+  sampleSize: number;
+  p50Days: number;
+  p90Days: number;
+}
+
+/**
+ * Past transit times of one service level, across all lanes.
+ */
+export interface TransitTimeSummary {
+  /** Normalized service level key, e.g. "ups_ground" */
+  serviceLevel: string;
+  carrier: Carrier;
+  /** Window in business days without a merchant override */
+  defaultDays: number;
+  sampleSize: number;
+  transitDayCounts: TransitDayCounts;
+  /** Lanes with enough shipments to compare, slowest first */
+  lanes: TransitLane[];
+  /** When the stats were computed (ISO string) */
+  computedAt: string;
+}
+
+/**
+ * A delivery window override suggested from past transit times.
+ */
+export interface DeliveryWindowSuggestion {
+  serviceLevel: string;
+  /** Window in use: the merchant's override or the default */
+  currentDays: number;
+  suggestedDays: number;
+  sampleSize: number;
+  /** Past shipments delivered after the current window */
+  flaggedAtCurrent: number;
+  /** Past shipments delivered after the suggested window */
+  flaggedAtSuggested: number;
+}
+
+/**
+ * Total number of shipments in transit day counts.
+ */
+export function countTransitSamples(counts: TransitDayCounts): number {
+  return Object.values(counts).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Combine transit day counts, e.g. of all lanes of a service level.
+ */
+export function mergeTransitDayCounts(countsList: readonly TransitDayCounts[]): TransitDayCounts {
+  const merged: TransitDayCounts = {};
+  for (const counts of countsList) {
+    for (const [days, count] of Object.entries(counts)) {
+      merged[days] = (merged[days] ?? 0) + count;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Transit time (business days) that a percentage of shipments were delivered
+ * within, by the nearest-rank method.
+ *
+ * @param counts - Shipments by business days in transit
+ * @param percentile - Percentage of shipments, 1-100
+ * @returns Business days, or null without shipments
+ */
+export function getTransitPercentile(counts: TransitDayCounts, percentile: number): number | null {
+  const total = countTransitSamples(counts);
+  if (total === 0) {
+    return null;
+  }
+
+  const rank = Math.max(1, Math.ceil((percentile / 100) * total));
+  const days = Object.keys(counts)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  let seen = 0;
+  for (const day of days) {
+    seen += counts[day];
+    if (seen >= rank) {
+      return day;
+    }
+  }
+  return days[days.length - 1];
+}
+
+/**
+ * Count shipments that took longer than a window, i.e. that a window of that
+ * many business days would have flagged as delayed.
+ */
+export function countDeliveredAfterWindow(counts: TransitDayCounts, windowDays: number): number {
+  return Object.entries(counts)
+    .filter(([days]) => Number(days) > windowDays)
+    .reduce((total, [, count]) => total + count, 0);
+}
+
+/**
+ * Suggest delivery window overrides for service levels with enough delivered
+ * shipments whose window differs from the chosen percentile of their transit
+ * times.
+ *
+ * @param summaries - Past transit times by service level
+ * @param settings - The merchant's windows and learned window settings
+ * @returns Suggestions, service levels with the most shipments first
+ */
+export function getDeliveryWindowSuggestions(
+  summaries: readonly TransitTimeSummary[],
+  settings: Pick<MerchantSettings, "deliveryWindows" | "learnedDeliveryWindows">
+): DeliveryWindowSuggestion[] {
+  const { percentile, minSamples } = settings.learnedDeliveryWindows;
+  const suggestions: DeliveryWindowSuggestion[] = [];
+
+  for (const summary of summaries) {
+    if (summary.sampleSize < minSamples) {
+      continue;
+    }
+
+    const currentDays = settings.deliveryWindows[summary.serviceLevel] ?? summary.defaultDays;
+    const suggestedDays = Math.max(1, getTransitPercentile(summary.transitDayCounts, percentile) ?? 0);
+    if (suggestedDays === currentDays) {
+      continue;
+    }
+
+    suggestions.push({
+      serviceLevel: summary.serviceLevel,
+      currentDays,
+      suggestedDays,
+      sampleSize: summary.sampleSize,
+      flaggedAtCurrent: countDeliveredAfterWindow(summary.transitDayCounts, currentDays),
+      flaggedAtSuggested: countDeliveredAfterWindow(summary.transitDayCounts, suggestedDays),
+    });
+  }
+
+  return suggestions.sort((a, b) => b.sampleSize - a.sampleSize);
+}
+
+/**
+ * Delivery windows with suggestions applied.
+ */
+export function applyDeliveryWindowSuggestions(
+  deliveryWindows: Record<string, number>,
+  suggestions: readonly DeliveryWindowSuggestion[]
+): Record<string, number> {
+  return {
+    ...deliveryWindows,
+    ...Object.fromEntries(
+      suggestions.map((suggestion) => [suggestion.serviceLevel, suggestion.suggestedDays])
+    ),
+  };
+}
@@ -1,4 +1,14 @@
 import { z } from "zod";
+import { SUPPORTED_CARRIERS } from "~/services/carriers/carrier.registry";
+import { DELAY_SEVERITIES, DelayRuleSchema, MAX_DELAY_RULES } from "./delay-rules";
+import { AutoNotificationSettingsSchema } from "./notification-automation";
+import { NOTIFICATION_SCENARIOS, ScenarioTemplatesSchema } from "./notification-scenarios";
+import { DEFAULT_TEMPLATE_LOCALE, LOCALE_PATTERN } from "./notification-locales";
+
+/**
+ * Longest SMS template merchants can save (two SMS segments before variables are filled in)
+ */
+export const SMS_TEMPLATE_MAX_LENGTH = 320;
 
 /**
  * Merchant settings schema - validates the JSON stored in Merchant.settings
@@ -7,6 +17,46 @@ export const MerchantSettingsSchema = z.object({
   delayThresholdHours: z.number().min(0).max(72).default(8),
   autoArchiveDays: z.number().min(1).max(365).default(30),
   deliveryWindows: z.record(z.string(), z.number()).default({}),
+  // Dates with no deliveries counted (YYYY-MM-DD), on top of carrier holidays
+  blackoutDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).max(100).default([]),
+  // Flag in-transit shipments with no carrier scans, and labels never picked up.
+  // Thresholds are full business days; service level keys are normalized
+  // (see normalizeServiceLevel) and override noScanDays.
+  stallDetection: z
+    .object({
+      enabled: z.boolean().default(true),
+      noScanDays: z.number().int().min(1).max(30).default(3),
+      serviceLevelNoScanDays: z.record(z.string(), z.number().int().min(1).max(30)).default({}),
+      pickupDays: z.number().int().min(1).max(30).default(2),
+    })
+    .default({}),
+  // Delivery windows suggested from past transit times (see transit-times.ts):
+  // the percentile of transit times a window should cover, the delivered
+  // shipments a service level needs first, and whether the daily
+  // transit-stats job applies suggestions to deliveryWindows itself
+  learnedDeliveryWindows: z
+    .object({
+      percentile: z.union([z.literal(75), z.literal(90), z.literal(95)]).default(90),
+      minSamples: z.number().int().min(5).max(1000).default(20),
+      autoApply: z.boolean().default(false),
+    })
+    .default({}),
+  // Delivery windows by lane (see zone-windows.ts), checked before deliveryWindows.
+  // originLocationId is a fulfillment location (null for any); destination is
+  // a state/province ("US-CA", or "CA" in any country) or a US ZIP3 ("945").
+  zoneDeliveryWindows: z
+    .array(
+      z.object({
+        originLocationId: z.string().min(1).nullable().default(null),
+        destination: z.string().regex(/^(\d{3}|([A-Z]{2}-)?[A-Z0-9]{1,3})$/),
+        serviceLevel: z.string().min(1),
+        days: z.number().int().min(1).max(60),
+      })
+    )
+    .max(1000)
+    .default([]),
+  // Custom delay rules, checked in order by evaluateDelay (see delay-rules.ts)
+  delayRules: z.array(DelayRuleSchema).max(MAX_DELAY_RULES).default([]),
   columnVisibility: z.array(z.string()).default([
     "orderNumber",
     "trackingNumber",
@@ -50,6 +100,65 @@ Thank you for your patience!
 {shop_name}`),
     })
     .default({}),
+  // Template library by scenario (see notification-scenarios.ts):
+  // notificationTemplate is the generic delay template, atRiskNotificationTemplate
+  // is sent to shipments at risk of a delay but not delayed yet (see
+  // delay-risk.ts), and scenarioTemplates holds the rest
+  atRiskNotificationTemplate: z
+    .object({
+      subject: z.string().default("Update on your order #{order_number}"),
+      body: z.string().default(`Hi {customer_first_name},
+
+We're keeping a close eye on your recent order (#{order_number}). Based on its latest tracking updates, it may arrive later than expected.
+
+Expected Delivery: {expected_delivery_date}
+Current Status: {carrier_status}
+Carrier: {carrier_name}
+Tracking Number: {tracking_number}
+Track your package: {tracking_url}
+
+We'll keep monitoring your shipment and will let you know if anything changes. If you have any questions, please don't hesitate to reach out.
+
+Thank you for your patience!
+
+{shop_name}`),
+    })
+    .default({}),
+  scenarioTemplates: ScenarioTemplatesSchema.default({}),
+  // SMS variant of the delay notification; kept short because rendered
+  // messages over 160 characters are sent (and billed) as several SMS
+  smsTemplate: z
+    .object({
+      body: z
+        .string()
+        .max(SMS_TEMPLATE_MAX_LENGTH)
+        .default("{shop_name}: your order {order_number} is delayed ({delay_reason}). Track it: {tracking_url}"),
+    })
+    .default({}),
+  // Locale the templates above are written in, and their translations by
+  // customer locale ("fr", "fr-CA"; see notification-locales.ts). A translation
+  // may leave out templates; those fall back to the language's translation,
+  // then to the untranslated template.
+  templateLocale: z.string().regex(LOCALE_PATTERN).default(DEFAULT_TEMPLATE_LOCALE),
+  templateTranslations: z
+    .record(
+      z.string().regex(LOCALE_PATTERN),
+      z.object({
+        templates: z
+          .record(
+            z.enum(NOTIFICATION_SCENARIOS),
+            z.object({ subject: z.string(), body: z.string() })
+          )
+          .default({}),
+        smsBody: z.string().max(SMS_TEMPLATE_MAX_LENGTH).nullable().default(null),
+      })
+    )
+    .default({}),
+  // Discount code templates can offer customers for the wait ({discount_code})
+  discountCode: z.string().trim().max(50).default(""),
+  // Opt-in notifications queued when a shipment is flagged as delayed
+  // (see notification-automation.ts)
+  autoNotifications: AutoNotificationSettingsSchema.default({}),
   fromEmail: z.string().email().nullable().default(null),
 
   // ── Email Branding ──────────────────────────────────────────
@@ -94,9 +203,50 @@ export const ResolutionReasonSchema = z.enum([
 export type ResolutionReasonType = z.infer<typeof ResolutionReasonSchema>;
 
 /**
- * Carrier enum values for validation
+ * Canonical tracking status enum values for validation
  */
-export const CarrierSchema = z.enum(["UPS", "FEDEX", "USPS", "UNKNOWN"]);
+export const TrackingStatusSchema = z.enum([
+  "LABEL_CREATED",
+  "PICKED_UP",
+  "IN_TRANSIT",
+  "OUT_FOR_DELIVERY",
+  "DELIVERY_ATTEMPTED",
+  "AVAILABLE_FOR_PICKUP",
+  "EXCEPTION",
+  "RETURNED_TO_SENDER",
+  "DELIVERED",
+  "LOST",
+]);
+
+export type TrackingStatusType = z.infer<typeof TrackingStatusSchema>;
+
+/**
+ * Exception category enum values for validation (see exception-taxonomy.ts)
+ */
+export const ExceptionCategorySchema = z.enum([
+  "WEATHER",
+  "ADDRESS_ISSUE",
+  "CUSTOMS",
+  "DAMAGED",
+  "LOST",
+  "HELD_AT_FACILITY",
+  "DELIVERY_ATTEMPTED",
+  "RECIPIENT_UNAVAILABLE",
+  "REFUSED",
+  "RETURNED_TO_SENDER",
+  "CARRIER_DELAY",
+  "OTHER",
+]);
+
+export type ExceptionCategoryType = z.infer<typeof ExceptionCategorySchema>;
+
+export const DelaySeveritySchema = z.enum(DELAY_SEVERITIES);
+export type DelaySeverityType = z.infer<typeof DelaySeveritySchema>;
+
+/**
+ * Carrier enum values for validation (every registered carrier plus UNKNOWN)
+ */
+export const CarrierSchema = z.enum(["UNKNOWN", ...SUPPORTED_CARRIERS]);
 
 export type CarrierType = z.infer<typeof CarrierSchema>;
 
@@ -132,6 +282,7 @@ export const FulfillmentLineItemSchema = z.object({
   id: z.number(),
   variant_id: z.number().nullable().optional(),
   title: z.string().optional(),
+  variant_title: z.string().nullable().optional(),
   quantity: z.number().optional(),
   sku: z.string().nullable().optional(),
   price: z.string().nullable().optional(),
@@ -175,6 +326,10 @@ export const OrderPartialSchema = z.object({
   phone: z.string().nullable().optional(),
   total_price: z.string().nullable().optional(),
   currency: z.string().nullable().optional(),
+  // Locale the customer placed the order in (e.g. "fr-CA")
+  customer_locale: z.string().nullable().optional(),
+  // Customer-facing order status page
+  order_status_url: z.string().nullable().optional(),
   shipping_address: ShippingAddressSchema.nullable().optional(),
   customer: z
     .object({
@@ -235,10 +390,10 @@ export function safeParseAppUninstalledPayload(data: unknown) {
 // API Query Parameter Schemas
 // ============================================================
 
-export const ShipmentTabSchema = z.enum(["all", "delayed", "pending", "resolved", "delivered"]);
+export const ShipmentTabSchema = z.enum(["all", "delayed", "at_risk", "pending", "resolved", "delivered"]);
 export type ShipmentTab = z.infer<typeof ShipmentTabSchema>;
 
-export const DelayStatusSchema = z.enum(["delayed", "on_time", "pending"]);
+export const DelayStatusSchema = z.enum(["delayed", "at_risk", "on_time", "pending"]);
 export type DelayStatus = z.infer<typeof DelayStatusSchema>;
 
 export const SortDirectionSchema = z.enum(["asc", "desc"]);
@@ -253,6 +408,8 @@ export const ShipmentSortColumnSchema = z.enum([
   "shipDate",
   "expectedDeliveryDate",
   "daysDelayed",
+  "riskScore",
+  "delaySeverity",
   "orderValue",
   "currentStatus",
   "createdAt",
@@ -265,6 +422,9 @@ export const ShipmentsQueryParamsSchema = z.object({
   carrier: CarrierSchema.optional(),
   serviceLevel: z.string().optional(),
   delayStatus: DelayStatusSchema.optional(),
+  trackingStatus: TrackingStatusSchema.optional(),
+  severity: DelaySeveritySchema.optional(),
+  exceptionCategory: ExceptionCategorySchema.optional(),
   orderValueMin: z.coerce.number().min(0).optional(),
   orderValueMax: z.coerce.number().min(0).optional(),
   shipDateFrom: z.string().datetime({ offset: true }).optional().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()),
@@ -281,7 +441,8 @@ export type ShipmentsQueryParams = z.infer<typeof ShipmentsQueryParamsSchema>;
 export function parseShipmentsQueryParams(searchParams: URLSearchParams): ShipmentsQueryParams {
   const rawParams: Record<string, string | undefined> = {};
   const paramNames = [
-    "tab", "carrier", "serviceLevel", "delayStatus",
+    "tab", "carrier", "serviceLevel", "delayStatus", "trackingStatus",
+    "severity", "exceptionCategory",
     "orderValueMin", "orderValueMax",
     "shipDateFrom", "shipDateTo",
     "locationId",
@@ -321,6 +482,19 @@ export interface ShipmentsApiResponse {
   };
 }
 
+/**
+ * Per-package status of a multi-package shipment
+ */
+export interface ShipmentPackageSummary {
+  id: string;
+  trackingNumber: string;
+  carrier: string;
+  currentStatus: string;
+  trackingStatus: TrackingStatusType;
+  isDelayed: boolean;
+  isDelivered: boolean;
+}
+
 export interface ShipmentListItem {
   id: string;
   orderNumber: string;
@@ -332,8 +506,12 @@ export interface ShipmentListItem {
   shipDate: string;
   expectedDeliveryDate: string | null;
   daysDelayed: number;
+  riskScore: number | null;
+  delaySeverity: DelaySeverityType | null;
+  exceptionCategory: ExceptionCategoryType | null;
   orderValue: string | null;
   currentStatus: string;
+  trackingStatus: TrackingStatusType;
   isDelayed: boolean;
   isResolved: boolean;
   isDelivered: boolean;
@@ -344,5 +522,9 @@ export interface ShipmentListItem {
   fulfillmentLocationName: string | null;
   shopifyOrderId: string;
   isTestData: boolean;
+  /** Tracking number failed its carrier check digit (likely mistyped) */
+  trackingNumberInvalid: boolean;
   isDuplicateTracking?: boolean;
+  /** Child packages; empty for single-package shipments */
+  packages: ShipmentPackageSummary[];
 }
@@ -0,0 +1,350 @@
+/**
+ * Zone Delivery Windows
+ *
+ * Client-safe helpers for delivery windows keyed by lane: the fulfillment
+ * location a shipment leaves from, the region it goes to and its service
+ * level. A zone window applies before the merchant's service level overrides
+ * and the default table (see calculateDefaultExpectedDelivery).
+ *
+ * When several zone windows match a shipment, the most specific destination
+ * wins (ZIP3, then country and state, then state alone), then a specific
+ * origin over "any origin".
+ */
+
+import { z } from "zod";
+import { SUPPORTED_CARRIERS } from "~/services/carriers/carrier.registry";
+import { escapeCSVValue } from "./csv";
+import { getAddressRegion } from "./timezones";
+import type { MerchantSettings } from "./validation";
+
+export type ZoneDeliveryWindow = MerchantSettings["zoneDeliveryWindows"][number];
+
+/**
+ * Where a shipment leaves from and goes to
+ */
+export interface ShipmentLane {
+  /** Shopify fulfillment location ID */
+  originLocationId: string | null;
+  /** Shipment.shippingAddress JSON, or a Shopify shipping address */
+  shippingAddress: unknown;
+}
+
+/**
+ * A row of a zone matrix CSV that couldn't be imported
+ */
+export interface ZoneCSVError {
+  /** 1-based line number, counting the header */
+  line: number;
+  message: string;
+}
+
+/**
+ * Columns of a zone matrix CSV, in export order
+ */
+export const ZONE_CSV_HEADERS = ["origin_location_id", "destination", "service_level", "days"] as const;
+
+/**
+ * Most zone windows a merchant can have
+ */
+export const MAX_ZONE_WINDOWS = 1000;
+
+/**
+ * Origin column value for windows that apply to any fulfillment location
+ */
+export const ANY_ORIGIN = "*";
+
+const ZONE_DESTINATION_PATTERN = /^(\d{3}|([A-Z]{2}-)?[A-Z0-9]{1,3})$/;
+
+const AddressZipSchema = z.object({
+  zip: z.string().nullable().optional(),
+});
+
+/**
+ * First three digits of a US ZIP code ("94105-1234" → "941"), or null for
+ * other countries and missing or malformed ZIP codes.
+ */
+export function getAddressZip3(shippingAddress: unknown): string | null {
+  const parsed = AddressZipSchema.safeParse(shippingAddress);
+  const zip = parsed.success ? parsed.data.zip?.trim() : null;
+  if (!zip || !/^\d{5}(-?\d{4})?$/.test(zip)) {
+    return null;
+  }
+
+  const country = getAddressRegion(shippingAddress)?.country;
+  return !country || country === "US" ? zip.slice(0, 3) : null;
+}
+
+/**
+ * Normalize a destination typed or imported by a merchant: upper case,
+ * without spaces, e.g. " us-ca " → "US-CA".
+ *
+ * @returns The destination, or null if it isn't a state or ZIP3
+ */
+export function normalizeZoneDestination(destination: string): string | null {
+  const normalized = destination.replace(/\s+/g, "").toUpperCase();
+  return ZONE_DESTINATION_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Normalize a service level typed or imported by a merchant the way
+ * normalizeServiceLevel keys shipments, e.g. "UPS Ground" → "ups_ground".
+ * A level without its carrier ("2nd Day Air") gets the carrier's prefix when
+ * only one carrier has it.
+ *
+ * @param serviceLevels - Known service level keys (see DEFAULT_DELIVERY_WINDOWS)
+ * @returns The service level key, or null if it isn't a known one
+ */
+export function normalizeZoneServiceLevel(
+  serviceLevel: string,
+  serviceLevels: readonly string[]
+): string | null {
+  const normalized = serviceLevel
+    .toLowerCase()
+    .replace(/®|™|©/g, "")
+    .replace(/[^\w\s]/g, " ")
+    .trim()
+    .replace(/\s+/g, "_");
+  if (serviceLevels.includes(normalized)) {
+    return normalized;
+  }
+
+  const matches = SUPPORTED_CARRIERS.map((carrier) => `${carrier.toLowerCase()}_${normalized}`).filter(
+    (key) => serviceLevels.includes(key)
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * How specifically a zone window's destination matches a shipment, 0 if it
+ * doesn't.
+ */
+function getDestinationSpecificity(
+  destination: string,
+  region: { country: string | null; province: string } | null,
+  zip3: string | null
+): number {
+  if (/^\d{3}$/.test(destination)) {
+    return destination === zip3 ? 3 : 0;
+  }
+  if (!region) {
+    return 0;
+  }
+
+  const [country, province] = destination.includes("-")
+    ? destination.split("-")
+    : [null, destination];
+  if (province !== region.province) {
+    return 0;
+  }
+  if (!country) {
+    return 1;
+  }
+  return country === region.country ? 2 : 0;
+}
+
+/**
+ * Find the zone window for a shipment's lane and service level.
+ *
+ * @param zones - The merchant's zone delivery windows
+ * @param serviceLevelKey - Normalized service level (see normalizeServiceLevel)
+ * @param lane - Where the shipment leaves from and goes to
+ * @returns The most specific matching window, or null
+ */
+export function findZoneDeliveryWindow(
+  zones: readonly ZoneDeliveryWindow[],
+  serviceLevelKey: string | null,
+  lane: ShipmentLane
+): ZoneDeliveryWindow | null {
+  if (!serviceLevelKey || zones.length === 0) {
+    return null;
+  }
+
+  const region = getAddressRegion(lane.shippingAddress);
+  const zip3 = getAddressZip3(lane.shippingAddress);
+
+  let best: ZoneDeliveryWindow | null = null;
+  let bestScore = 0;
+  for (const zone of zones) {
+    if (zone.serviceLevel !== serviceLevelKey) {
+      continue;
+    }
+    if (zone.originLocationId !== null && zone.originLocationId !== lane.originLocationId) {
+      continue;
+    }
+
+    const specificity = getDestinationSpecificity(zone.destination, region, zip3);
+    if (specificity === 0) {
+      continue;
+    }
+
+    const score = specificity * 2 + (zone.originLocationId !== null ? 1 : 0);
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether two zone windows are for the same lane and service level.
+ */
+function isSameZone(a: ZoneDeliveryWindow, b: ZoneDeliveryWindow): boolean {
+  return (
+    a.originLocationId === b.originLocationId &&
+    a.destination === b.destination &&
+    a.serviceLevel === b.serviceLevel
+  );
+}
+
+/**
+ * Add a zone window, replacing any existing window for the same lane and
+ * service level.
+ */
+export function upsertZoneDeliveryWindow(
+  zones: readonly ZoneDeliveryWindow[],
+  zone: ZoneDeliveryWindow
+): ZoneDeliveryWindow[] {
+  const index = zones.findIndex((existing) => isSameZone(existing, zone));
+  if (index === -1) {
+    return [...zones, zone];
+  }
+  return zones.map((existing, i) => (i === index ? zone : existing));
+}
+
+/**
+ * Serialize zone windows as CSV, one row per window.
+ */
+export function generateZoneCSV(zones: readonly ZoneDeliveryWindow[]): string {
+  const rows = zones.map((zone) =>
+    [zone.originLocationId ?? ANY_ORIGIN, zone.destination, zone.serviceLevel, String(zone.days)]
+      .map(escapeCSVValue)
+      .join(",")
+  );
+  return [ZONE_CSV_HEADERS.join(","), ...rows].join("\n");
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields (with doubled
+ * quotes, commas and newlines inside).
+ *
+ * @returns Rows with the line each started on
+ */
+function splitCSVRows(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  rows.push({ line: rowLine, fields });
+
+  return rows.filter((row) => row.fields.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse a zone matrix CSV (see ZONE_CSV_HEADERS; columns may be in any
+ * order). An origin of "*" or blank means any fulfillment location. Rows for
+ * the same lane and service level replace earlier ones.
+ *
+ * @param serviceLevels - Known service level keys (see normalizeZoneServiceLevel)
+ * @returns The valid windows, and an error for each row that was skipped
+ */
+export function parseZoneCSV(
+  text: string,
+  serviceLevels: readonly string[]
+): { zones: ZoneDeliveryWindow[]; errors: ZoneCSVError[] } {
+  const [header, ...rows] = splitCSVRows(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { zones: [], errors: [{ line: 1, message: "The file is empty" }] };
+  }
+
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  const missing = ZONE_CSV_HEADERS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return {
+      zones: [],
+      errors: [{ line: header.line, message: `Missing column: ${missing.join(", ")}` }],
+    };
+  }
+
+  let zones: ZoneDeliveryWindow[] = [];
+  const errors: ZoneCSVError[] = [];
+  for (const row of rows) {
+    const value = (name: (typeof ZONE_CSV_HEADERS)[number]) =>
+      (row.fields[columns.indexOf(name)] ?? "").trim();
+
+    const destination = normalizeZoneDestination(value("destination"));
+    if (!destination) {
+      errors.push({
+        line: row.line,
+        message: `Invalid destination "${value("destination")}": use a state ("US-CA" or "CA") or ZIP3 ("945")`,
+      });
+      continue;
+    }
+
+    if (!value("service_level")) {
+      errors.push({ line: row.line, message: "Missing service level" });
+      continue;
+    }
+    const serviceLevel = normalizeZoneServiceLevel(value("service_level"), serviceLevels);
+    if (!serviceLevel) {
+      errors.push({
+        line: row.line,
+        message: `Unknown service level "${value("service_level")}": use one from the service level list, like "ups_ground"`,
+      });
+      continue;
+    }
+
+    const days = Number(value("days"));
+    if (!Number.isInteger(days) || days < 1 || days > 60) {
+      errors.push({
+        line: row.line,
+        message: `Invalid days "${value("days")}": use a whole number from 1 to 60`,
+      });
+      continue;
+    }
+
+    const origin = value("origin_location_id");
+    zones = upsertZoneDeliveryWindow(zones, {
+      originLocationId: origin === "" || origin === ANY_ORIGIN ? null : origin,
+      destination,
+      serviceLevel,
+      days,
+    });
+  }
+
+  return { zones, errors };
+}
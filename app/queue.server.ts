@@ -8,6 +8,7 @@
 
 import { Queue, type QueueOptions } from "bullmq";
 import Redis from "ioredis";
+import type { Carrier } from "@prisma/client";
 import {
   ALL_QUEUES,
   QUEUE_CARRIER_POLL,
@@ -15,8 +16,16 @@ import {
   QUEUE_FULFILLMENT_SYNC,
   QUEUE_POLL_SCHEDULER,
   QUEUE_SEND_NOTIFICATION,
+  QUEUE_TRANSIT_STATS,
   type QueueName,
 } from "./jobs/queues";
+import { CARRIER_PUSH_JOB_NAME, createCarrierPushJobData } from "./jobs/carrier-poll.job";
+import type { NotificationJobMessage, SendNotificationJobData } from "./jobs/types";
+import {
+  TRANSIT_STATS_JOB_NAME,
+  TRANSIT_STATS_JOB_OPTIONS,
+  TRANSIT_STATS_REPEAT_OPTIONS,
+} from "./jobs/transit-stats.job";
 
 // Singleton pattern for Redis connection (web process)
 let redisConnection: Redis | null = null;
@@ -139,6 +148,14 @@ export async function enqueuePollJob(
   );
 }
 
+/**
+ * Enqueue a verified carrier push notification for processing
+ */
+export async function enqueueCarrierPushJob(carrier: Carrier, payload: unknown) {
+  const queue = getQueue(QUEUE_CARRIER_POLL);
+  return queue.add(CARRIER_PUSH_JOB_NAME, createCarrierPushJobData(carrier, payload));
+}
+
 /**
  * Enqueue a fulfillment sync job for a merchant
  */
@@ -157,36 +174,31 @@ export async function enqueueFulfillmentSyncJob(
 }
 
 /**
- * Enqueue a notification email job
+ * Enqueue a notification job for one channel
  */
 export async function enqueueNotificationJob(
   shipmentId: string,
-  data: {
-    recipientEmail: string;
-    subject: string;
-    body: string;
-    sentBy: string;
-  }
+  data: NotificationJobMessage & { sentBy: string },
+  options?: { jobId?: string; delay?: number }
 ) {
   const queue = getQueue(QUEUE_SEND_NOTIFICATION);
-  return queue.add("send", {
-    shipmentId,
-    ...data,
-  });
+  return queue.add(
+    "send",
+    {
+      shipmentId,
+      ...data,
+    },
+    {
+      jobId: options?.jobId,
+      delay: options?.delay,
+    }
+  );
 }
 
 /**
  * Enqueue multiple notification jobs (for bulk actions)
  */
-export async function enqueueBulkNotificationJobs(
-  jobs: Array<{
-    shipmentId: string;
-    recipientEmail: string;
-    subject: string;
-    body: string;
-    sentBy: string;
-  }>
-) {
+export async function enqueueBulkNotificationJobs(jobs: SendNotificationJobData[]) {
   const queue = getQueue(QUEUE_SEND_NOTIFICATION);
   return queue.addBulk(
     jobs.map((job) => ({
@@ -197,7 +209,7 @@ export async function enqueueBulkNotificationJobs(
 }
 
 /**
- * Setup repeatable jobs (poll scheduler and data cleanup)
+ * Setup repeatable jobs (poll scheduler, data cleanup and transit stats)
  * This should be called once during worker startup
  */
 export async function setupRepeatableJobs(): Promise<void> {
@@ -226,4 +238,16 @@ export async function setupRepeatableJobs(): Promise<void> {
       jobId: "data-cleanup-repeatable",
     }
   );
+
+  // Transit stats run daily at 4 AM UTC
+  const transitStatsQueue = getQueue(QUEUE_TRANSIT_STATS);
+  await transitStatsQueue.add(
+    TRANSIT_STATS_JOB_NAME,
+    {},
+    {
+      ...TRANSIT_STATS_JOB_OPTIONS,
+      repeat: TRANSIT_STATS_REPEAT_OPTIONS,
+      jobId: "transit-stats-repeatable",
+    }
+  );
 }
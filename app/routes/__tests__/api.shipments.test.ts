@@ -496,6 +496,9 @@ describe("api.shipments loader", () => {
           UPS: 3.5,
           FEDEX: 2.8,
           USPS: null,
+          DHL: null,
+          CANADA_POST: null,
+          PUROLATOR: null,
         },
       });
     });
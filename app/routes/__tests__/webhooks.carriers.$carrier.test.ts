@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Import modules after mocking
+import { enqueueCarrierPushJob } from "~/queue.server";
+import { signHmacSha256 } from "~/services/carriers/carrier.signatures";
+import { action } from "../webhooks.carriers.$carrier";
+import trackAlertInTransit from "~/services/carriers/__tests__/fixtures/push/ups-track-alert-in-transit.json";
+import fedexWebhookDelay from "~/services/carriers/__tests__/fixtures/push/fedex-webhook-delay.json";
+
+// Mock the queue (carrier adapters also import the Redis connection from it)
+vi.mock("~/queue.server", () => ({
+  enqueueCarrierPushJob: vi.fn(),
+  getRedisConnection: vi.fn(),
+}));
+
+const mockEnqueueCarrierPushJob = enqueueCarrierPushJob as ReturnType<typeof vi.fn>;
+
+describe("webhooks.carriers.$carrier action", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.UPS_WEBHOOK_CREDENTIAL = "track-alert-secret";
+    process.env.FEDEX_WEBHOOK_SECRET = "fedex-webhook-secret";
+    mockEnqueueCarrierPushJob.mockResolvedValue({ id: "push-job-id" });
+  });
+
+  afterEach(() => {
+    delete process.env.UPS_WEBHOOK_CREDENTIAL;
+    delete process.env.FEDEX_WEBHOOK_SECRET;
+  });
+
+  function createRequest(carrier: string, body: string, headers: Record<string, string>): Request {
+    return new Request(`http://localhost/webhooks/carriers/${carrier}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+    });
+  }
+
+  async function callAction(carrier: string, body: string, headers: Record<string, string> = {}) {
+    return action({ request: createRequest(carrier, body, headers), context: {}, params: { carrier } });
+  }
+
+  it("should queue a UPS Track Alert event with a valid credential", async () => {
+    const response = await callAction("ups", JSON.stringify(trackAlertInTransit), {
+      credential: "track-alert-secret",
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockEnqueueCarrierPushJob).toHaveBeenCalledWith("UPS", trackAlertInTransit);
+  });
+
+  it("should queue a FedEx notification with a valid signature", async () => {
+    const body = JSON.stringify(fedexWebhookDelay);
+    const response = await callAction("fedex", body, {
+      "fdx-signature": signHmacSha256("fedex-webhook-secret", body),
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockEnqueueCarrierPushJob).toHaveBeenCalledWith("FEDEX", fedexWebhookDelay);
+  });
+
+  it("should return 401 for an invalid signature", async () => {
+    const response = await callAction("ups", JSON.stringify(trackAlertInTransit), {
+      credential: "wrong-secret",
+    });
+
+    expect(response.status).toBe(401);
+    expect(mockEnqueueCarrierPushJob).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for carriers without push support", async () => {
+    expect((await callAction("usps", "{}")).status).toBe(404);
+    expect((await callAction("ontrac", "{}")).status).toBe(404);
+    expect(mockEnqueueCarrierPushJob).not.toHaveBeenCalled();
+  });
+
+  it("should return 200 without queueing a body that is not JSON", async () => {
+    const response = await callAction("ups", "not json", { credential: "track-alert-secret" });
+
+    expect(response.status).toBe(200);
+    expect(mockEnqueueCarrierPushJob).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 so the carrier retries when queueing fails", async () => {
+    mockEnqueueCarrierPushJob.mockRejectedValue(new Error("Redis unavailable"));
+
+    const response = await callAction("ups", JSON.stringify(trackAlertInTransit), {
+      credential: "track-alert-secret",
+    });
+
+    expect(response.status).toBe(500);
+  });
+});
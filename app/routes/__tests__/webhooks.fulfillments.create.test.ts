@@ -204,6 +204,25 @@ describe("webhooks.fulfillments.create action", () => {
       expect(mockEnqueuePollJob).not.toHaveBeenCalled();
     });
 
+    it("should not enqueue poll job when the tracking number fails its check digit", async () => {
+      mockCreateShipment.mockResolvedValue({
+        shipment: {
+          id: "shipment-123",
+          carrier: "UPS",
+          orderNumber: "#1001",
+          trackingNumberInvalid: true,
+        },
+        isNew: true,
+        isDuplicate: false,
+      });
+
+      const request = createRequest();
+      const response = await action({ request, context: {}, params: {} });
+
+      expect(response.status).toBe(200);
+      expect(mockEnqueuePollJob).not.toHaveBeenCalled();
+    });
+
     it("should not enqueue poll job for existing shipment", async () => {
       mockCreateShipment.mockResolvedValue({
         shipment: { id: "shipment-123", carrier: "UPS", orderNumber: "#1001" },
@@ -0,0 +1,119 @@
+/**
+ * API Route: /api/settings/carriers
+ *
+ * GET: Status of the merchant's own carrier credentials (never the secrets)
+ * POST: Save, delete or test carrier credentials, selected by the _action field
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { z } from "zod";
+import { authenticate } from "~/shopify.server";
+import { getMerchantByShopId } from "~/services/merchant.service";
+import {
+  deleteCarrierCredentials,
+  getCarrierCredentialStatuses,
+  saveCarrierCredentials,
+  testCarrierConnection,
+} from "~/services/carrier-credentials.service";
+import { SUPPORTED_CARRIERS, type SupportedCarrier } from "~/services/carriers/carrier.registry";
+import { isEncryptionConfigured } from "~/lib/encryption.server";
+
+const CarrierEnum = z.enum(SUPPORTED_CARRIERS as [SupportedCarrier, ...SupportedCarrier[]]);
+
+const CredentialValuesSchema = z.record(z.string());
+
+/**
+ * Request body schema; "test" without credentials tests the saved ones
+ */
+const CarrierCredentialsActionSchema = z.discriminatedUnion("_action", [
+  z.object({ _action: z.literal("save"), carrier: CarrierEnum, credentials: CredentialValuesSchema }),
+  z.object({ _action: z.literal("delete"), carrier: CarrierEnum }),
+  z.object({
+    _action: z.literal("test"),
+    carrier: CarrierEnum,
+    credentials: CredentialValuesSchema.optional(),
+  }),
+]);
+
+/**
+ * GET /api/settings/carriers
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const merchant = await getMerchantByShopId(session.shop);
+
+  if (!merchant) {
+    return json({ error: "Merchant not found" }, { status: 404 });
+  }
+
+  return json({
+    carrierCredentials: await getCarrierCredentialStatuses(merchant.id),
+    encryptionConfigured: isEncryptionConfigured(),
+  });
+}
+
+/**
+ * POST /api/settings/carriers
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { session } = await authenticate.admin(request);
+
+  const merchant = await getMerchantByShopId(session.shop);
+
+  if (!merchant) {
+    return json({ error: "Merchant not found" }, { status: 404 });
+  }
+
+  let body: z.infer<typeof CarrierCredentialsActionSchema>;
+  try {
+    body = CarrierCredentialsActionSchema.parse(await request.json());
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return json({ error: "Validation failed", details: err.errors }, { status: 400 });
+    }
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    switch (body._action) {
+      case "save": {
+        if (!isEncryptionConfigured()) {
+          return json(
+            { error: "Carrier credentials cannot be stored: encryption is not configured" },
+            { status: 503 }
+          );
+        }
+        const result = await saveCarrierCredentials(merchant.id, body.carrier, body.credentials);
+        if (!result.success) {
+          return json({ error: result.error }, { status: 400 });
+        }
+        break;
+      }
+      case "delete":
+        await deleteCarrierCredentials(merchant.id, body.carrier);
+        break;
+      case "test": {
+        const result = await testCarrierConnection(merchant.id, body.carrier, body.credentials);
+        return json({
+          success: result.ok,
+          test: { carrier: body.carrier, ...result },
+          carrierCredentials: await getCarrierCredentialStatuses(merchant.id),
+        });
+      }
+    }
+
+    return json({
+      success: true,
+      carrierCredentials: await getCarrierCredentialStatuses(merchant.id),
+    });
+  } catch (error) {
+    console.error(`Failed to ${body._action} ${body.carrier} credentials:`, error);
+    return json({ error: "Failed to update carrier credentials" }, { status: 500 });
+  }
+}
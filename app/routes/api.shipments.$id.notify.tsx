@@ -1,8 +1,9 @@
 /**
  * API Route: /api/shipments/:id/notify
  *
- * GET: Prepare notification data (rendered template) for preview
- * POST: Send notification email to customer
+ * GET: Prepare notification data (rendered email and SMS templates) for preview.
+ *      ?scenario= renders another scenario's email template than the suggested one.
+ * POST: Send a notification to the customer by email or SMS
  */
 
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
@@ -11,21 +12,42 @@ import { z } from "zod";
 import { authenticate } from "../shopify.server";
 import { prisma } from "../db.server";
 import { enqueueNotificationJob } from "../queue.server";
-import { prepareNotification, validateTemplate } from "../services/notification.service";
+import {
+  getShipmentSmsNumber,
+  prepareNotification,
+  validateRenderedMessage,
+} from "../services/notification.service";
+import { SMS_MAX_LENGTH } from "../lib/notification-templates";
+import { NOTIFICATION_SCENARIOS } from "../lib/notification-scenarios";
 
 /**
- * Request body schema for sending notification
+ * Query parameter schema for the preview
  */
-const SendNotificationSchema = z.object({
-  recipientEmail: z.string().email("Invalid email address"),
-  subject: z.string().min(1, "Subject is required").max(200, "Subject too long"),
-  body: z.string().min(1, "Body is required").max(10000, "Body too long"),
+const PrepareNotificationQuerySchema = z.object({
+  scenario: z.enum(NOTIFICATION_SCENARIOS).optional(),
 });
 
+/**
+ * Request body schema for sending notification
+ */
+const SendNotificationSchema = z.discriminatedUnion("channel", [
+  z.object({
+    channel: z.literal("EMAIL"),
+    recipientEmail: z.string().email("Invalid email address"),
+    subject: z.string().min(1, "Subject is required").max(200, "Subject too long"),
+    body: z.string().min(1, "Body is required").max(10000, "Body too long"),
+  }),
+  z.object({
+    channel: z.literal("SMS"),
+    recipientPhone: z.string().min(1, "Phone number is required"),
+    body: z.string().min(1, "Message is required").max(SMS_MAX_LENGTH, "Message too long"),
+  }),
+]);
+
 /**
  * GET: Prepare notification data for preview
  *
- * Returns the rendered email template with shipment data filled in,
+ * Returns the rendered email and SMS templates with shipment data filled in,
  * ready for display in the notification modal.
  */
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
@@ -46,8 +68,16 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     return json({ error: "Merchant not found" }, { status: 404 });
   }
 
+  const url = new URL(request.url);
+  const query = PrepareNotificationQuerySchema.safeParse({
+    scenario: url.searchParams.get("scenario") || undefined,
+  });
+  if (!query.success) {
+    return json({ error: "Invalid template scenario" }, { status: 400 });
+  }
+
   // Prepare notification data
-  const notification = await prepareNotification(id, merchant.id);
+  const notification = await prepareNotification(id, merchant.id, query.data.scenario);
 
   if (!notification) {
     return json({ error: "Shipment not found" }, { status: 404 });
@@ -57,7 +87,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 };
 
 /**
- * POST: Send notification email
+ * POST: Send notification
  *
  * Validates the request, enqueues a notification job, and returns immediately.
  * The actual email is sent asynchronously by the worker.
@@ -89,18 +119,6 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     return json({ error: "Invalid request body" }, { status: 400 });
   }
 
-  // Validate template still has required variables
-  const templateValidation = validateTemplate(body.body);
-  if (!templateValidation.isValid) {
-    return json(
-      {
-        error: "Template missing required variables",
-        missingVariables: templateValidation.missingVariables,
-      },
-      { status: 400 }
-    );
-  }
-
   // Get merchant
   const merchant = await prisma.merchant.findUnique({
     where: { shopifyShopId: session.shop },
@@ -117,21 +135,56 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       id,
       merchantId: merchant.id,
     },
-    select: { id: true, notificationSent: true },
+    select: {
+      id: true,
+      orderNumber: true,
+      trackingNumber: true,
+      notificationSent: true,
+      shippingAddress: true,
+    },
   });
 
   if (!shipment) {
     return json({ error: "Shipment not found" }, { status: 404 });
   }
 
+  // Validate the edited email still identifies the shipment (SMS messages are
+  // too short to require it)
+  if (body.channel === "EMAIL") {
+    const messageValidation = validateRenderedMessage(body.body, shipment);
+    if (!messageValidation.isValid) {
+      return json(
+        {
+          error: "Message must include the order and tracking numbers",
+          missingVariables: messageValidation.missingVariables,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
   // Enqueue notification job
-  // The worker will send the email and update the shipment status
-  await enqueueNotificationJob(id, {
-    recipientEmail: body.recipientEmail,
-    subject: body.subject,
-    body: body.body,
-    sentBy: merchant.email, // Use merchant email as sender identifier
-  });
+  // The worker will send the email or SMS and update the shipment status
+  const sentBy = merchant.email; // Use merchant email as sender identifier
+  if (body.channel === "SMS") {
+    // Numbers without a country code are read in the shipping country
+    const recipientPhone = getShipmentSmsNumber({
+      customerPhone: body.recipientPhone,
+      shippingAddress: shipment.shippingAddress,
+    });
+    if (!recipientPhone) {
+      return json({ error: "Invalid phone number" }, { status: 400 });
+    }
+    await enqueueNotificationJob(id, { channel: "SMS", recipientPhone, body: body.body, sentBy });
+  } else {
+    await enqueueNotificationJob(id, {
+      channel: "EMAIL",
+      recipientEmail: body.recipientEmail,
+      subject: body.subject,
+      body: body.body,
+      sentBy,
+    });
+  }
 
   return json({
     success: true,
@@ -1,14 +1,16 @@
 /**
  * API Route: /api/shipments/:id
  *
- * GET: Fetch detailed shipment information including tracking events,
- * notification logs, and resolution logs.
+ * GET: Fetch detailed shipment information including packages, tracking
+ * events, notification logs, resolution logs, and matched delay rules.
  */
 
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { prisma } from "../db.server";
+import type { RiskFactor } from "../lib/delay-risk";
+import type { DelayRuleAction } from "../lib/delay-rules";
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -35,6 +37,9 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       merchantId: merchant.id,
     },
     include: {
+      packages: {
+        orderBy: { createdAt: "asc" },
+      },
       trackingEvents: {
         orderBy: { eventTimestamp: "desc" },
       },
@@ -44,6 +49,9 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       resolutionLogs: {
         orderBy: { resolvedAt: "desc" },
       },
+      delayRuleLogs: {
+        orderBy: { matchedAt: "desc" },
+      },
     },
   });
 
@@ -67,14 +75,19 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       expectedDeliveryDate: shipment.expectedDeliveryDate?.toISOString() ?? null,
       expectedDeliverySource: shipment.expectedDeliverySource,
       currentStatus: shipment.currentStatus,
+      trackingStatus: shipment.trackingStatus,
       isDelayed: shipment.isDelayed,
       delayFlaggedAt: shipment.delayFlaggedAt?.toISOString() ?? null,
       daysDelayed: shipment.daysDelayed,
+      delaySeverity: shipment.delaySeverity,
+      riskScore: shipment.riskScore,
+      riskFactors: shipment.riskFactors as RiskFactor[] | null,
       lastCarrierStatus: shipment.lastCarrierStatus,
       lastScanLocation: shipment.lastScanLocation,
       lastScanTime: shipment.lastScanTime?.toISOString() ?? null,
       carrierExceptionCode: shipment.carrierExceptionCode,
       carrierExceptionReason: shipment.carrierExceptionReason,
+      exceptionCategory: shipment.exceptionCategory,
       rescheduledDeliveryDate: shipment.rescheduledDeliveryDate?.toISOString() ?? null,
       isResolved: shipment.isResolved,
       resolvedAt: shipment.resolvedAt?.toISOString() ?? null,
@@ -87,8 +100,24 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       orderValue: shipment.orderValue?.toString() ?? null,
       shopifyOrderId: shipment.shopifyOrderId,
       fulfillmentLocationName: shipment.fulfillmentLocationName,
+      packages: shipment.packages.map((pkg) => ({
+        id: pkg.id,
+        trackingNumber: pkg.trackingNumber,
+        carrier: pkg.carrier,
+        currentStatus: pkg.currentStatus,
+        trackingStatus: pkg.trackingStatus,
+        expectedDeliveryDate: pkg.expectedDeliveryDate?.toISOString() ?? null,
+        isDelayed: pkg.isDelayed,
+        daysDelayed: pkg.daysDelayed,
+        lastScanLocation: pkg.lastScanLocation,
+        lastScanTime: pkg.lastScanTime?.toISOString() ?? null,
+        carrierExceptionReason: pkg.carrierExceptionReason,
+        isDelivered: pkg.isDelivered,
+        deliveredAt: pkg.deliveredAt?.toISOString() ?? null,
+      })),
       trackingEvents: shipment.trackingEvents.map((event) => ({
         id: event.id,
+        packageId: event.packageId,
         eventTimestamp: event.eventTimestamp.toISOString(),
         eventType: event.eventType,
         eventDescription: event.eventDescription,
@@ -100,8 +129,11 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         id: log.id,
         sentAt: log.sentAt.toISOString(),
         sentBy: log.sentBy,
+        channel: log.channel,
         recipientEmail: log.recipientEmail,
+        recipientPhone: log.recipientPhone,
         emailSubject: log.emailSubject,
+        bodyPreview: log.emailBodyPreview,
         status: log.status,
       })),
       resolutionLogs: shipment.resolutionLogs.map((log) => ({
@@ -111,6 +143,13 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         resolutionReason: log.resolutionReason,
         notes: log.notes,
       })),
+      delayRuleLogs: shipment.delayRuleLogs.map((log) => ({
+        id: log.id,
+        matchedAt: log.matchedAt.toISOString(),
+        ruleName: log.ruleName,
+        actions: log.actions as DelayRuleAction[],
+        isDelayed: log.isDelayed,
+      })),
     },
   };
 
@@ -1,8 +1,8 @@
 /**
  * API Route: /api/shipments/bulk-notify
  *
- * POST: Enqueue notification emails for multiple shipments.
- * Jobs are queued and processed in the background.
+ * POST: Enqueue notifications for multiple shipments, by email, SMS or both.
+ * Jobs (one per shipment and channel) are queued and processed in the background.
  */
 
 import type { ActionFunctionArgs } from "@remix-run/node";
@@ -13,8 +13,12 @@ import { prisma } from "~/db.server";
 import { enqueueBulkNotificationJobs } from "~/queue.server";
 import {
   buildTemplateContext,
+  getShipmentSmsNumber,
   renderTemplate,
 } from "~/services/notification.service";
+import type { SendNotificationJobData } from "~/jobs/types";
+import { selectNotificationTemplate, selectSmsTemplate } from "~/lib/notification-templates";
+import { NOTIFICATION_SCENARIOS } from "~/lib/notification-scenarios";
 import { parseMerchantSettings } from "~/services/merchant.service";
 
 /**
@@ -23,6 +27,9 @@ import { parseMerchantSettings } from "~/services/merchant.service";
 const BulkNotifyRequestSchema = z.object({
   shipmentIds: z.array(z.string().uuid()).min(1).max(100),
   skipAlreadyNotified: z.boolean().default(true),
+  channels: z.array(z.enum(["EMAIL", "SMS"])).min(1).default(["EMAIL"]),
+  // Email template for every shipment; picked per shipment when absent
+  scenario: z.enum(NOTIFICATION_SCENARIOS).optional(),
 });
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -63,7 +70,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ error: "Failed to parse request body" }, { status: 400 });
   }
 
-  const { shipmentIds, skipAlreadyNotified } = body;
+  const { shipmentIds, skipAlreadyNotified, channels, scenario } = body;
 
   // Build where clause for fetching shipments
   const whereClause: {
@@ -87,13 +94,27 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       id: true,
       customerName: true,
       customerEmail: true,
+      customerPhone: true,
+      customerLocale: true,
+      shippingAddress: true,
       orderNumber: true,
       trackingNumber: true,
       carrier: true,
       currentStatus: true,
       lastCarrierStatus: true,
       expectedDeliveryDate: true,
+      rescheduledDeliveryDate: true,
+      exceptionCategory: true,
+      lineItems: true,
+      daysDelayed: true,
+      lastScanLocation: true,
+      orderStatusUrl: true,
+      trackingStatus: true,
+      delayFlaggedAt: true,
       notificationSent: true,
+      riskScore: true,
+      isDelayed: true,
+      isDelivered: true,
     },
   });
 
@@ -113,40 +134,66 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const settings = parseMerchantSettings(merchant.settings);
 
   // Prepare notification jobs
-  const notificationJobs: Array<{
-    shipmentId: string;
-    recipientEmail: string;
-    subject: string;
-    body: string;
-    sentBy: string;
-  }> = [];
+  const notificationJobs: SendNotificationJobData[] = [];
+  const sentBy = merchant.email || "bulk-action";
+  // Shipments that can't be texted because they have no valid phone number
+  let noPhoneCount = 0;
 
   for (const shipment of shipments) {
-    // Build template context
-    const context = buildTemplateContext(
-      {
-        customerName: shipment.customerName,
-        orderNumber: shipment.orderNumber,
-        trackingNumber: shipment.trackingNumber,
-        carrier: shipment.carrier,
-        currentStatus: shipment.currentStatus,
-        lastCarrierStatus: shipment.lastCarrierStatus,
-        expectedDeliveryDate: shipment.expectedDeliveryDate,
-      },
-      merchant.shopDomain
-    );
+    // Build template context in the locale of the template it renders
+    const buildContext = (locale: string) =>
+      buildTemplateContext(
+        {
+          customerName: shipment.customerName,
+          orderNumber: shipment.orderNumber,
+          trackingNumber: shipment.trackingNumber,
+          carrier: shipment.carrier,
+          currentStatus: shipment.currentStatus,
+          lastCarrierStatus: shipment.lastCarrierStatus,
+          expectedDeliveryDate: shipment.expectedDeliveryDate,
+          rescheduledDeliveryDate: shipment.rescheduledDeliveryDate,
+          exceptionCategory: shipment.exceptionCategory,
+          lineItems: shipment.lineItems,
+          shippingAddress: shipment.shippingAddress,
+          daysDelayed: shipment.daysDelayed,
+          lastScanLocation: shipment.lastScanLocation,
+          orderStatusUrl: shipment.orderStatusUrl,
+        },
+        merchant.shopDomain,
+        locale,
+        settings.discountCode
+      );
 
-    // Render subject and body
-    const subject = renderTemplate(settings.notificationTemplate.subject, context);
-    const body = renderTemplate(settings.notificationTemplate.body, context);
+    if (channels.includes("EMAIL")) {
+      // Render subject and body with the chosen template, or the one that fits the shipment,
+      // translated for the customer
+      const template = selectNotificationTemplate(settings, shipment, scenario);
+      const context = buildContext(template.locale);
+      notificationJobs.push({
+        channel: "EMAIL",
+        shipmentId: shipment.id,
+        recipientEmail: shipment.customerEmail,
+        subject: renderTemplate(template.subject, context),
+        body: renderTemplate(template.body, context),
+        sentBy,
+      });
+    }
 
-    notificationJobs.push({
-      shipmentId: shipment.id,
-      recipientEmail: shipment.customerEmail,
-      subject,
-      body,
-      sentBy: merchant.email || "bulk-action",
-    });
+    if (channels.includes("SMS")) {
+      const recipientPhone = getShipmentSmsNumber(shipment);
+      if (recipientPhone) {
+        const smsTemplate = selectSmsTemplate(settings, shipment.customerLocale);
+        notificationJobs.push({
+          channel: "SMS",
+          shipmentId: shipment.id,
+          recipientPhone,
+          body: renderTemplate(smsTemplate.body, buildContext(smsTemplate.locale)),
+          sentBy,
+        });
+      } else {
+        noPhoneCount++;
+      }
+    }
   }
 
   // Enqueue all notification jobs
@@ -166,6 +213,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     success: true,
     queuedCount: notificationJobs.length,
     skippedCount,
+    noPhoneCount,
     message: `${notificationJobs.length} notification${notificationJobs.length === 1 ? "" : "s"} queued for delivery`,
   });
 };
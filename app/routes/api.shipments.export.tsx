@@ -13,6 +13,7 @@ import type { Prisma, Carrier } from "@prisma/client";
 import { startOfDay, endOfDay, parseISO } from "date-fns";
 import { generateCSV, generateCSVFilename, type ShipmentExportData } from "~/lib/csv";
 import { safeParseShipmentsQueryParams } from "~/lib/validation";
+import { AT_RISK_SCORE } from "~/lib/delay-risk";
 
 /**
  * Build where clause from query parameters (same logic as api.shipments.tsx)
@@ -42,6 +43,11 @@ function buildWhereClause(
       where.isResolved = false;
       where.isDelivered = false;
       break;
+    case "at_risk":
+      where.riskScore = { gte: AT_RISK_SCORE };
+      where.isDelayed = false;
+      where.isDelivered = false;
+      break;
     case "pending":
       where.currentStatus = "pending";
       where.hasCarrierScan = false;
@@ -74,6 +80,11 @@ function buildWhereClause(
       case "delayed":
         where.isDelayed = true;
         break;
+      case "at_risk":
+        where.riskScore = { gte: AT_RISK_SCORE };
+        where.isDelayed = false;
+        where.isDelivered = false;
+        break;
       case "on_time":
         where.isDelayed = false;
         where.isDelivered = false;
@@ -84,6 +95,19 @@ function buildWhereClause(
     }
   }
 
+  // Canonical tracking status filter
+  if (params.trackingStatus) {
+    where.trackingStatus = params.trackingStatus;
+  }
+
+  // Delay severity and exception category filters
+  if (params.severity) {
+    where.delaySeverity = params.severity;
+  }
+  if (params.exceptionCategory) {
+    where.exceptionCategory = params.exceptionCategory;
+  }
+
   // Order value range
   if (params.orderValueMin !== undefined || params.orderValueMax !== undefined) {
     where.orderValue = {};
@@ -160,6 +184,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       shipDate: true,
       expectedDeliveryDate: true,
       currentStatus: true,
+      trackingStatus: true,
       isDelayed: true,
       daysDelayed: true,
       isDelivered: true,
@@ -190,6 +215,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     shipDate: s.shipDate,
     expectedDeliveryDate: s.expectedDeliveryDate,
     currentStatus: s.currentStatus,
+    trackingStatus: s.trackingStatus,
     isDelayed: s.isDelayed,
     daysDelayed: s.daysDelayed,
     isDelivered: s.isDelivered,
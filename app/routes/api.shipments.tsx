@@ -9,7 +9,7 @@ import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { prisma } from "../db.server";
-import type { Prisma, Carrier } from "@prisma/client";
+import type { Prisma, Carrier, DelaySeverity, ExceptionCategory, TrackingStatus } from "@prisma/client";
 import { startOfDay, endOfDay, parseISO } from "date-fns";
 import {
   safeParseShipmentsQueryParams,
@@ -17,6 +17,9 @@ import {
   type ShipmentListItem,
   type ShipmentsQueryParams,
 } from "~/lib/validation";
+import { createCarrierRecord } from "~/services/carriers/carrier.registry";
+import { getDayRangeInTimeZone, getMerchantTimeZone } from "~/lib/timezones";
+import { AT_RISK_SCORE } from "~/lib/delay-risk";
 
 /**
  * Build Prisma where clause from query parameters
@@ -38,6 +41,11 @@ function buildWhereClause(
       where.isResolved = false;
       where.isDelivered = false;
       break;
+    case "at_risk":
+      where.riskScore = { gte: AT_RISK_SCORE };
+      where.isDelayed = false;
+      where.isDelivered = false;
+      break;
     case "pending":
       where.currentStatus = "pending";
       where.hasCarrierScan = false;
@@ -71,6 +79,11 @@ function buildWhereClause(
       case "delayed":
         where.isDelayed = true;
         break;
+      case "at_risk":
+        where.riskScore = { gte: AT_RISK_SCORE };
+        where.isDelayed = false;
+        where.isDelivered = false;
+        break;
       case "on_time":
         where.isDelayed = false;
         where.isDelivered = false;
@@ -81,6 +94,19 @@ function buildWhereClause(
     }
   }
 
+  // Canonical tracking status filter
+  if (params.trackingStatus) {
+    where.trackingStatus = params.trackingStatus;
+  }
+
+  // Delay severity and exception category filters
+  if (params.severity) {
+    where.delaySeverity = params.severity;
+  }
+  if (params.exceptionCategory) {
+    where.exceptionCategory = params.exceptionCategory;
+  }
+
   // Order value range
   if (params.orderValueMin !== undefined || params.orderValueMax !== undefined) {
     where.orderValue = {};
@@ -131,6 +157,8 @@ function buildOrderByClause(
     shipDate: "shipDate",
     expectedDeliveryDate: "expectedDeliveryDate",
     daysDelayed: "daysDelayed",
+    riskScore: "riskScore",
+    delaySeverity: "delaySeverity",
     orderValue: "orderValue",
     currentStatus: "currentStatus",
     createdAt: "createdAt",
@@ -139,6 +167,17 @@ function buildOrderByClause(
 
   const field = sortFieldMap[params.sortBy] || "daysDelayed";
 
+  // Unscored shipments sort after scored ones either way
+  if (field === "riskScore") {
+    return { riskScore: { sort: direction, nulls: "last" } };
+  }
+
+  // Severity sorts in LOW, MEDIUM, CRITICAL order; shipments that were never
+  // delayed have none and sort last
+  if (field === "delaySeverity") {
+    return { delaySeverity: { sort: direction, nulls: "last" } };
+  }
+
   return { [field]: direction };
 }
 
@@ -157,8 +196,12 @@ function transformShipment(
     shipDate: Date;
     expectedDeliveryDate: Date | null;
     daysDelayed: number;
+    riskScore: number | null;
+    delaySeverity: DelaySeverity | null;
+    exceptionCategory: ExceptionCategory | null;
     orderValue: Prisma.Decimal | null;
     currentStatus: string;
+    trackingStatus: TrackingStatus;
     isDelayed: boolean;
     isResolved: boolean;
     isDelivered: boolean;
@@ -169,6 +212,16 @@ function transformShipment(
     fulfillmentLocationName: string | null;
     shopifyOrderId: string;
     isTestData: boolean;
+    trackingNumberInvalid: boolean;
+    packages: Array<{
+      id: string;
+      trackingNumber: string;
+      carrier: Carrier;
+      currentStatus: string;
+      trackingStatus: TrackingStatus;
+      isDelayed: boolean;
+      isDelivered: boolean;
+    }>;
   },
   isDuplicateTracking: boolean = false
 ): ShipmentListItem {
@@ -183,8 +236,12 @@ function transformShipment(
     shipDate: shipment.shipDate.toISOString(),
     expectedDeliveryDate: shipment.expectedDeliveryDate?.toISOString() ?? null,
     daysDelayed: shipment.daysDelayed,
+    riskScore: shipment.riskScore,
+    delaySeverity: shipment.delaySeverity,
+    exceptionCategory: shipment.exceptionCategory,
     orderValue: shipment.orderValue?.toString() ?? null,
     currentStatus: shipment.currentStatus,
+    trackingStatus: shipment.trackingStatus,
     isDelayed: shipment.isDelayed,
     isResolved: shipment.isResolved,
     isDelivered: shipment.isDelivered,
@@ -195,7 +252,9 @@ function transformShipment(
     fulfillmentLocationName: shipment.fulfillmentLocationName,
     shopifyOrderId: shipment.shopifyOrderId,
     isTestData: shipment.isTestData,
+    trackingNumberInvalid: shipment.trackingNumberInvalid,
     isDuplicateTracking,
+    packages: shipment.packages,
   };
 }
 
@@ -205,7 +264,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Get merchant
   const merchant = await prisma.merchant.findUnique({
     where: { shopifyShopId: session.shop },
-    select: { id: true },
+    select: { id: true, timezone: true },
   });
 
   if (!merchant) {
@@ -227,10 +286,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const skip = (params.page - 1) * params.pageSize;
   const take = params.pageSize;
 
-  // Get today's date range for summary
-  const now = new Date();
-  const todayStart = startOfDay(now);
-  const todayEnd = endOfDay(now);
+  // Get today's date range (in the merchant's timezone) for summary
+  const { start: todayStart, end: todayEnd } = getDayRangeInTimeZone(
+    new Date(),
+    getMerchantTimeZone(merchant.timezone)
+  );
 
   // Execute queries in parallel
   const [shipments, total, summaryData] = await Promise.all([
@@ -251,8 +311,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         shipDate: true,
         expectedDeliveryDate: true,
         daysDelayed: true,
+        riskScore: true,
+        delaySeverity: true,
+        exceptionCategory: true,
         orderValue: true,
         currentStatus: true,
+        trackingStatus: true,
         isDelayed: true,
         isResolved: true,
         isDelivered: true,
@@ -263,6 +327,19 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         fulfillmentLocationName: true,
         shopifyOrderId: true,
         isTestData: true,
+        trackingNumberInvalid: true,
+        packages: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            trackingNumber: true,
+            carrier: true,
+            currentStatus: true,
+            trackingStatus: true,
+            isDelayed: true,
+            isDelivered: true,
+          },
+        },
       },
     }),
 
@@ -308,7 +385,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         WHERE "merchantId" = ${merchant.id}
           AND "isDelivered" = true
           AND "deliveredAt" IS NOT NULL
-          AND carrier IN ('UPS', 'FEDEX', 'USPS')
+          AND carrier <> 'UNKNOWN'
         GROUP BY carrier
       `,
     ]),
@@ -317,11 +394,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Process summary data
   const [totalActive, delayed, deliveredToday, avgDeliveryTimes] = summaryData;
 
-  const avgDeliveryTimeByCarrier: Record<string, number | null> = {
-    UPS: null,
-    FEDEX: null,
-    USPS: null,
-  };
+  const avgDeliveryTimeByCarrier: Record<string, number | null> = createCarrierRecord(null);
 
   for (const row of avgDeliveryTimes) {
     if (row.avg_days !== null) {
@@ -12,18 +12,24 @@ import {
   FilterBar,
   ColumnCustomization,
   BulkActionBar,
+  CarrierStatusBanner,
+  type DegradedCarrier,
   type TabId,
   type SummaryData,
   type FilterValues,
 } from "~/components/dashboard";
-import { startOfDay, endOfDay } from "date-fns";
 import type { Carrier } from "@prisma/client";
 import type { ShipmentsApiResponse, ShipmentListItem, MerchantSettings } from "~/lib/validation";
 import { parseMerchantSettings } from "~/services/merchant.service";
+import { getDayRangeInTimeZone, getMerchantTimeZone } from "~/lib/timezones";
+import { AT_RISK_SCORE } from "~/lib/delay-risk";
+import { createCarrierRecord } from "~/services/carriers/carrier.registry";
+import { getDegradedCarriers } from "~/services/carriers/carrier.circuit-breaker";
 
 interface TabCounts {
   all: number;
   delayed: number;
+  at_risk: number;
   pending: number;
   resolved: number;
   delivered: number;
@@ -42,6 +48,7 @@ interface LoaderData {
   settings: MerchantSettings;
   locations: Location[];
   serviceLevels: string[];
+  degradedCarriers: DegradedCarrier[];
 }
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -50,7 +57,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Get selected tab from URL params
   const url = new URL(request.url);
   const tabParam = url.searchParams.get("tab") as TabId | null;
-  const selectedTab: TabId = tabParam && ["all", "delayed", "pending", "resolved", "delivered"].includes(tabParam)
+  const selectedTab: TabId = tabParam && ["all", "delayed", "at_risk", "pending", "resolved", "delivered"].includes(tabParam)
     ? tabParam
     : "all";
 
@@ -70,15 +77,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         totalActive: 0,
         delayed: 0,
         deliveredToday: 0,
-        avgDeliveryTimeByCarrier: {
-          UPS: null,
-          FEDEX: null,
-          USPS: null,
-        },
+        avgDeliveryTimeByCarrier: createCarrierRecord(null),
       },
       tabCounts: {
         all: 0,
         delayed: 0,
+        at_risk: 0,
         pending: 0,
         resolved: 0,
         delivered: 0,
@@ -87,6 +91,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       settings: defaultSettings,
       locations: [],
       serviceLevels: [],
+      degradedCarriers: await getDegradedCarriers(),
     });
   }
 
@@ -96,15 +101,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const settings = parseMerchantSettings(merchant.settings);
 
-  // Get today's date range for delivered today count
-  const now = new Date();
-  const todayStart = startOfDay(now);
-  const todayEnd = endOfDay(now);
+  // Get today's date range (in the merchant's timezone) for delivered today count
+  const { start: todayStart, end: todayEnd } = getDayRangeInTimeZone(
+    new Date(),
+    getMerchantTimeZone(merchant.timezone)
+  );
 
   // Query summary statistics and additional data in parallel
   const [
     totalActive,
     delayed,
+    atRisk,
     deliveredToday,
     pendingPickup,
     resolved,
@@ -130,6 +137,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         isArchived: false,
       },
     }),
+    // At risk: scored high, not yet delayed or delivered
+    prisma.shipment.count({
+      where: {
+        merchantId: merchant.id,
+        riskScore: { gte: AT_RISK_SCORE },
+        isDelayed: false,
+        isDelivered: false,
+        isArchived: false,
+      },
+    }),
     // Delivered today
     prisma.shipment.count({
       where: {
@@ -210,15 +227,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     WHERE "merchantId" = ${merchant.id}
       AND "isDelivered" = true
       AND "deliveredAt" IS NOT NULL
-      AND carrier IN ('UPS', 'FEDEX', 'USPS')
+      AND carrier <> 'UNKNOWN'
     GROUP BY carrier
   `;
 
-  const avgByCarrier: SummaryData["avgDeliveryTimeByCarrier"] = {
-    UPS: null,
-    FEDEX: null,
-    USPS: null,
-  };
+  const avgByCarrier: SummaryData["avgDeliveryTimeByCarrier"] = createCarrierRecord(null);
 
   for (const row of avgDeliveryTimes) {
     if (row.avg_days !== null) {
@@ -236,6 +249,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const tabCounts: TabCounts = {
     all: allShipments,
     delayed,
+    at_risk: atRisk,
     pending: pendingPickup,
     resolved,
     delivered: totalDelivered,
@@ -262,12 +276,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     settings,
     locations,
     serviceLevels,
+    degradedCarriers: await getDegradedCarriers(),
   });
 };
 
 export default function Index() {
-  const { shop, summary, tabCounts, selectedTab, settings, locations, serviceLevels } =
-    useLoaderData<typeof loader>();
+  const {
+    shop,
+    summary,
+    tabCounts,
+    selectedTab,
+    settings,
+    locations,
+    serviceLevels,
+    degradedCarriers,
+  } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
   const shipmentsFetcher = useFetcher<ShipmentsApiResponse>();
   const settingsFetcher = useFetcher();
@@ -287,6 +310,9 @@ export default function Index() {
     const carriers = searchParams.get("carrier");
     const serviceLevel = searchParams.get("serviceLevel");
     const delayStatus = searchParams.get("delayStatus");
+    const trackingStatus = searchParams.get("trackingStatus");
+    const severity = searchParams.get("severity");
+    const exceptionCategory = searchParams.get("exceptionCategory");
     const orderValueMin = searchParams.get("orderValueMin");
     const orderValueMax = searchParams.get("orderValueMax");
     const shipDateFrom = searchParams.get("shipDateFrom");
@@ -297,6 +323,9 @@ export default function Index() {
       carrier: carriers ? (carriers.split(",") as FilterValues["carrier"]) : undefined,
       serviceLevel: serviceLevel || undefined,
       delayStatus: delayStatus as FilterValues["delayStatus"],
+      trackingStatus: (trackingStatus || undefined) as FilterValues["trackingStatus"],
+      severity: (severity || undefined) as FilterValues["severity"],
+      exceptionCategory: (exceptionCategory || undefined) as FilterValues["exceptionCategory"],
       orderValueMin: orderValueMin ? parseFloat(orderValueMin) : undefined,
       orderValueMax: orderValueMax ? parseFloat(orderValueMax) : undefined,
       shipDateFrom: shipDateFrom || undefined,
@@ -331,6 +360,15 @@ export default function Index() {
     if (currentFilters.delayStatus) {
       params.set("delayStatus", currentFilters.delayStatus);
     }
+    if (currentFilters.trackingStatus) {
+      params.set("trackingStatus", currentFilters.trackingStatus);
+    }
+    if (currentFilters.severity) {
+      params.set("severity", currentFilters.severity);
+    }
+    if (currentFilters.exceptionCategory) {
+      params.set("exceptionCategory", currentFilters.exceptionCategory);
+    }
     if (currentFilters.orderValueMin !== undefined) {
       params.set("orderValueMin", String(currentFilters.orderValueMin));
     }
@@ -443,6 +481,24 @@ export default function Index() {
           newParams.delete("delayStatus");
         }
 
+        if (filters.trackingStatus) {
+          newParams.set("trackingStatus", filters.trackingStatus);
+        } else {
+          newParams.delete("trackingStatus");
+        }
+
+        if (filters.severity) {
+          newParams.set("severity", filters.severity);
+        } else {
+          newParams.delete("severity");
+        }
+
+        if (filters.exceptionCategory) {
+          newParams.set("exceptionCategory", filters.exceptionCategory);
+        } else {
+          newParams.delete("exceptionCategory");
+        }
+
         if (filters.orderValueMin !== undefined) {
           newParams.set("orderValueMin", String(filters.orderValueMin));
         } else {
@@ -576,6 +632,8 @@ export default function Index() {
           </BlockStack>
         </Card>
 
+        <CarrierStatusBanner degradedCarriers={degradedCarriers} />
+
         <SummaryCards data={summary} />
 
         <Card padding="0">
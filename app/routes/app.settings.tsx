@@ -3,10 +3,11 @@
  *
  * Main settings page for merchant configuration.
  * Includes sections for:
- * - Polling & Detection (delay threshold, delivery windows)
+ * - Polling & Detection (delay threshold, delivery windows, zone windows)
  * - Dashboard Preferences (column visibility, sort order)
- * - Notifications (email template customization)
+ * - Notifications (email template library, SMS template, automation)
  * - Display (timezone, auto-archive)
+ * - Carrier Accounts (merchant's own carrier API credentials)
  * - Account & Billing (plan, usage, upgrade)
  */
 
@@ -14,20 +15,39 @@ import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { useLoaderData, useFetcher } from "@remix-run/react";
 import { Page, Layout, BlockStack, Banner, Tabs, Card, Text, Spinner, Box } from "@shopify/polaris";
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { authenticate } from "~/shopify.server";
 import { getMerchantByShopId, parseMerchantSettings } from "~/services/merchant.service";
 import { getBillingInfo, getAllPlans } from "~/services/billing.service";
+import { getCarrierCredentialStatuses } from "~/services/carrier-credentials.service";
+import { getTransitTimeSummaries } from "~/services/transit-stats.service";
+import { isEncryptionConfigured } from "~/lib/encryption.server";
+import { prisma } from "~/db.server";
 import {
   NotificationSettings,
+  AutoNotificationSettings,
   PollingSettings,
   DashboardPreferences,
   DisplaySettings,
+  CarrierAccounts,
   AccountBilling,
 } from "~/components/settings";
 import type { MerchantSettings } from "~/lib/validation";
+import {
+  getScenarioTemplates,
+  toTemplateSettings,
+  type ScenarioTemplates,
+} from "~/lib/notification-scenarios";
+import type { TransitTimeSummary } from "~/lib/transit-times";
 import type { PlanTier } from "@prisma/client";
-import type { SerializedBillingInfo, PlanInfo } from "~/components/settings";
+import type { SupportedCarrier } from "~/services/carriers/carrier.registry";
+import type {
+  SerializedBillingInfo,
+  PlanInfo,
+  SerializedCarrierCredentialStatus,
+  CarrierConnectionTest,
+  FulfillmentLocationOption,
+} from "~/components/settings";
 
 interface LoaderData {
   settings: MerchantSettings;
@@ -36,6 +56,10 @@ interface LoaderData {
   billingInfo: SerializedBillingInfo | null;
   allPlans: PlanInfo[];
   hasActiveSubscription: boolean;
+  carrierCredentials: SerializedCarrierCredentialStatus[];
+  encryptionConfigured: boolean;
+  transitTimes: TransitTimeSummary[];
+  locations: FulfillmentLocationOption[];
 }
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -51,6 +75,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
       billingInfo: null,
       allPlans: getAllPlans(),
       hasActiveSubscription: false,
+      carrierCredentials: [],
+      encryptionConfigured: isEncryptionConfigured(),
+      transitTimes: [],
+      locations: [],
     });
   }
 
@@ -87,6 +115,19 @@ export async function loader({ request }: LoaderFunctionArgs) {
     console.error("Failed to get billing info:", error);
   }
 
+  // Fulfillment locations shipped from, for zone delivery window origins
+  const distinctLocations = await prisma.shipment.findMany({
+    where: {
+      merchantId: merchant.id,
+      fulfillmentLocationId: { not: null },
+    },
+    select: {
+      fulfillmentLocationId: true,
+      fulfillmentLocationName: true,
+    },
+    distinct: ["fulfillmentLocationId"],
+  });
+
   return json<LoaderData>({
     settings: parseMerchantSettings(merchant.settings),
     timezone: merchant.timezone,
@@ -94,6 +135,15 @@ export async function loader({ request }: LoaderFunctionArgs) {
     billingInfo,
     allPlans: getAllPlans(),
     hasActiveSubscription,
+    carrierCredentials: await getCarrierCredentialStatuses(merchant.id),
+    encryptionConfigured: isEncryptionConfigured(),
+    transitTimes: await getTransitTimeSummaries(merchant.id),
+    locations: distinctLocations
+      .filter((l) => l.fulfillmentLocationId !== null)
+      .map((l) => ({
+        id: l.fulfillmentLocationId!,
+        name: l.fulfillmentLocationName || l.fulfillmentLocationId!,
+      })),
   });
 }
 
@@ -104,10 +154,20 @@ export default function SettingsPage() {
     billingInfo,
     allPlans,
     hasActiveSubscription,
+    carrierCredentials: initialCarrierCredentials,
+    encryptionConfigured,
+    transitTimes,
+    locations,
   } = useLoaderData<typeof loader>();
 
   const settingsFetcher = useFetcher<{ success?: boolean; error?: string; settings?: MerchantSettings }>();
   const billingFetcher = useFetcher<{ success?: boolean; confirmationUrl?: string; error?: string }>();
+  const carrierFetcher = useFetcher<{
+    success?: boolean;
+    error?: string;
+    test?: CarrierConnectionTest;
+    carrierCredentials?: SerializedCarrierCredentialStatus[];
+  }>();
 
   // Tab state
   const [selectedTab, setSelectedTab] = useState(0);
@@ -117,14 +177,23 @@ export default function SettingsPage() {
     // Polling settings
     delayThresholdHours: initialSettings.delayThresholdHours,
     deliveryWindows: initialSettings.deliveryWindows,
+    blackoutDates: initialSettings.blackoutDates,
+    stallDetection: initialSettings.stallDetection,
+    zoneDeliveryWindows: initialSettings.zoneDeliveryWindows,
+    delayRules: initialSettings.delayRules,
+    learnedDeliveryWindows: initialSettings.learnedDeliveryWindows,
     // Dashboard preferences
     columnVisibility: initialSettings.columnVisibility,
     columnOrder: initialSettings.columnOrder,
     defaultSortColumn: initialSettings.defaultSortColumn,
     defaultSortDirection: initialSettings.defaultSortDirection,
-    // Notification template
-    notificationSubject: initialSettings.notificationTemplate.subject,
-    notificationBody: initialSettings.notificationTemplate.body,
+    // Notification templates
+    notificationTemplates: getScenarioTemplates(initialSettings),
+    smsBody: initialSettings.smsTemplate.body,
+    templateLocale: initialSettings.templateLocale,
+    templateTranslations: initialSettings.templateTranslations,
+    discountCode: initialSettings.discountCode,
+    autoNotifications: initialSettings.autoNotifications,
     // Display settings
     autoArchiveDays: initialSettings.autoArchiveDays,
   });
@@ -136,6 +205,7 @@ export default function SettingsPage() {
   const [hasPollingChanges, setHasPollingChanges] = useState(false);
   const [hasDashboardChanges, setHasDashboardChanges] = useState(false);
   const [hasNotificationChanges, setHasNotificationChanges] = useState(false);
+  const [hasAutomationChanges, setHasAutomationChanges] = useState(false);
   const [hasDisplayChanges, setHasDisplayChanges] = useState(false);
 
   // Success/error banners
@@ -146,9 +216,25 @@ export default function SettingsPage() {
   useEffect(() => {
     const changed =
       settings.delayThresholdHours !== initialSettings.delayThresholdHours ||
-      JSON.stringify(settings.deliveryWindows) !== JSON.stringify(initialSettings.deliveryWindows);
+      JSON.stringify(settings.deliveryWindows) !== JSON.stringify(initialSettings.deliveryWindows) ||
+      JSON.stringify(settings.blackoutDates) !== JSON.stringify(initialSettings.blackoutDates) ||
+      JSON.stringify(settings.stallDetection) !== JSON.stringify(initialSettings.stallDetection) ||
+      JSON.stringify(settings.zoneDeliveryWindows) !==
+        JSON.stringify(initialSettings.zoneDeliveryWindows) ||
+      JSON.stringify(settings.delayRules) !== JSON.stringify(initialSettings.delayRules) ||
+      JSON.stringify(settings.learnedDeliveryWindows) !==
+        JSON.stringify(initialSettings.learnedDeliveryWindows);
     setHasPollingChanges(changed);
-  }, [settings.delayThresholdHours, settings.deliveryWindows, initialSettings]);
+  }, [
+    settings.delayThresholdHours,
+    settings.deliveryWindows,
+    settings.blackoutDates,
+    settings.stallDetection,
+    settings.zoneDeliveryWindows,
+    settings.delayRules,
+    settings.learnedDeliveryWindows,
+    initialSettings,
+  ]);
 
   // Track changes for dashboard section
   useEffect(() => {
@@ -167,12 +253,39 @@ export default function SettingsPage() {
   ]);
 
   // Track changes for notification section
+  const initialNotificationTemplates = useMemo(
+    () => getScenarioTemplates(initialSettings),
+    [initialSettings]
+  );
   useEffect(() => {
     const changed =
-      settings.notificationSubject !== initialSettings.notificationTemplate.subject ||
-      settings.notificationBody !== initialSettings.notificationTemplate.body;
+      JSON.stringify(settings.notificationTemplates) !==
+        JSON.stringify(initialNotificationTemplates) ||
+      settings.smsBody !== initialSettings.smsTemplate.body ||
+      settings.templateLocale !== initialSettings.templateLocale ||
+      JSON.stringify(settings.templateTranslations) !==
+        JSON.stringify(initialSettings.templateTranslations) ||
+      settings.discountCode !== initialSettings.discountCode;
     setHasNotificationChanges(changed);
-  }, [settings.notificationSubject, settings.notificationBody, initialSettings.notificationTemplate]);
+  }, [
+    settings.notificationTemplates,
+    settings.smsBody,
+    settings.templateLocale,
+    settings.templateTranslations,
+    settings.discountCode,
+    initialNotificationTemplates,
+    initialSettings.smsTemplate,
+    initialSettings.templateLocale,
+    initialSettings.templateTranslations,
+    initialSettings.discountCode,
+  ]);
+
+  // Track changes for automation section
+  useEffect(() => {
+    const changed =
+      JSON.stringify(settings.autoNotifications) !== JSON.stringify(initialSettings.autoNotifications);
+    setHasAutomationChanges(changed);
+  }, [settings.autoNotifications, initialSettings.autoNotifications]);
 
   // Track changes for display section
   useEffect(() => {
@@ -184,8 +297,40 @@ export default function SettingsPage() {
 
   // Handlers for polling settings
   const handlePollingChange = useCallback(
-    (delayThresholdHours: number, deliveryWindows: Record<string, number>) => {
-      setSettings((prev) => ({ ...prev, delayThresholdHours, deliveryWindows }));
+    (
+      delayThresholdHours: number,
+      deliveryWindows: Record<string, number>,
+      blackoutDates: string[]
+    ) => {
+      setSettings((prev) => ({ ...prev, delayThresholdHours, deliveryWindows, blackoutDates }));
+    },
+    []
+  );
+
+  const handleStallDetectionChange = useCallback(
+    (stallDetection: MerchantSettings["stallDetection"]) => {
+      setSettings((prev) => ({ ...prev, stallDetection }));
+    },
+    []
+  );
+
+  const handleZoneDeliveryWindowsChange = useCallback(
+    (zoneDeliveryWindows: MerchantSettings["zoneDeliveryWindows"]) => {
+      setSettings((prev) => ({ ...prev, zoneDeliveryWindows }));
+    },
+    []
+  );
+
+  const handleDelayRulesChange = useCallback(
+    (delayRules: MerchantSettings["delayRules"]) => {
+      setSettings((prev) => ({ ...prev, delayRules }));
+    },
+    []
+  );
+
+  const handleLearnedDeliveryWindowsChange = useCallback(
+    (learnedDeliveryWindows: MerchantSettings["learnedDeliveryWindows"]) => {
+      setSettings((prev) => ({ ...prev, learnedDeliveryWindows }));
     },
     []
   );
@@ -196,6 +341,11 @@ export default function SettingsPage() {
       {
         delayThresholdHours: settings.delayThresholdHours,
         deliveryWindows: settings.deliveryWindows,
+        blackoutDates: settings.blackoutDates,
+        stallDetection: settings.stallDetection,
+        zoneDeliveryWindows: settings.zoneDeliveryWindows,
+        delayRules: settings.delayRules,
+        learnedDeliveryWindows: settings.learnedDeliveryWindows,
       },
       {
         method: "POST",
@@ -203,7 +353,16 @@ export default function SettingsPage() {
         encType: "application/json",
       }
     );
-  }, [settingsFetcher, settings.delayThresholdHours, settings.deliveryWindows]);
+  }, [
+    settingsFetcher,
+    settings.delayThresholdHours,
+    settings.deliveryWindows,
+    settings.blackoutDates,
+    settings.stallDetection,
+    settings.zoneDeliveryWindows,
+    settings.delayRules,
+    settings.learnedDeliveryWindows,
+  ]);
 
   // Handlers for dashboard preferences
   const handleDashboardChange = useCallback(
@@ -248,22 +407,69 @@ export default function SettingsPage() {
   ]);
 
   // Handlers for notification settings
-  const handleNotificationChange = useCallback((subject: string, body: string) => {
-    setSettings((prev) => ({
-      ...prev,
-      notificationSubject: subject,
-      notificationBody: body,
-    }));
+  const handleNotificationChange = useCallback((notificationTemplates: ScenarioTemplates) => {
+    setSettings((prev) => ({ ...prev, notificationTemplates }));
+  }, []);
+
+  const handleSmsBodyChange = useCallback((smsBody: string) => {
+    setSettings((prev) => ({ ...prev, smsBody }));
+  }, []);
+
+  const handleTemplateLocaleChange = useCallback((templateLocale: string) => {
+    setSettings((prev) => ({ ...prev, templateLocale }));
+  }, []);
+
+  const handleTemplateTranslationsChange = useCallback(
+    (templateTranslations: MerchantSettings["templateTranslations"]) => {
+      setSettings((prev) => ({ ...prev, templateTranslations }));
+    },
+    []
+  );
+
+  const handleDiscountCodeChange = useCallback((discountCode: string) => {
+    setSettings((prev) => ({ ...prev, discountCode }));
   }, []);
 
   const handleNotificationSave = useCallback(() => {
     setActiveSection("notification");
     settingsFetcher.submit(
       {
-        notificationTemplate: {
-          subject: settings.notificationSubject,
-          body: settings.notificationBody,
+        ...toTemplateSettings(settings.notificationTemplates),
+        smsTemplate: {
+          body: settings.smsBody,
         },
+        templateLocale: settings.templateLocale,
+        templateTranslations: settings.templateTranslations,
+        discountCode: settings.discountCode,
+      },
+      {
+        method: "POST",
+        action: "/api/settings",
+        encType: "application/json",
+      }
+    );
+  }, [
+    settingsFetcher,
+    settings.notificationTemplates,
+    settings.smsBody,
+    settings.templateLocale,
+    settings.templateTranslations,
+    settings.discountCode,
+  ]);
+
+  // Handlers for automation settings
+  const handleAutoNotificationsChange = useCallback(
+    (autoNotifications: MerchantSettings["autoNotifications"]) => {
+      setSettings((prev) => ({ ...prev, autoNotifications }));
+    },
+    []
+  );
+
+  const handleAutomationSave = useCallback(() => {
+    setActiveSection("automation");
+    settingsFetcher.submit(
+      {
+        autoNotifications: settings.autoNotifications,
       },
       {
         method: "POST",
@@ -271,7 +477,7 @@ export default function SettingsPage() {
         encType: "application/json",
       }
     );
-  }, [settingsFetcher, settings.notificationSubject, settings.notificationBody]);
+  }, [settingsFetcher, settings.autoNotifications]);
 
   // Handlers for display settings
   const handleTimezoneChange = useCallback((newTimezone: string) => {
@@ -316,6 +522,46 @@ export default function SettingsPage() {
     [billingFetcher]
   );
 
+  // Handlers for carrier accounts
+  const [carrierInFlight, setCarrierInFlight] = useState<SupportedCarrier | null>(null);
+
+  const submitCarrierAction = useCallback(
+    (body: {
+      _action: "save" | "delete" | "test";
+      carrier: SupportedCarrier;
+      credentials?: Record<string, string>;
+    }) => {
+      setCarrierInFlight(body.carrier);
+      carrierFetcher.submit(body, {
+        method: "POST",
+        action: "/api/settings/carriers",
+        encType: "application/json",
+      });
+    },
+    [carrierFetcher]
+  );
+
+  const handleCarrierSave = useCallback(
+    (carrier: SupportedCarrier, credentials: Record<string, string>) => {
+      submitCarrierAction({ _action: "save", carrier, credentials });
+    },
+    [submitCarrierAction]
+  );
+
+  const handleCarrierDelete = useCallback(
+    (carrier: SupportedCarrier) => {
+      submitCarrierAction({ _action: "delete", carrier });
+    },
+    [submitCarrierAction]
+  );
+
+  const handleCarrierTest = useCallback(
+    (carrier: SupportedCarrier, credentials?: Record<string, string>) => {
+      submitCarrierAction({ _action: "test", carrier, credentials });
+    },
+    [submitCarrierAction]
+  );
+
   // Handle billing response - redirect to Shopify confirmation
   useEffect(() => {
     if (billingFetcher.data?.confirmationUrl) {
@@ -331,6 +577,7 @@ export default function SettingsPage() {
       if (activeSection === "polling") setHasPollingChanges(false);
       if (activeSection === "dashboard") setHasDashboardChanges(false);
       if (activeSection === "notification") setHasNotificationChanges(false);
+      if (activeSection === "automation") setHasAutomationChanges(false);
       if (activeSection === "display") setHasDisplayChanges(false);
 
       const timeout = setTimeout(() => {
@@ -345,6 +592,8 @@ export default function SettingsPage() {
   const isChangingPlan = billingFetcher.state === "submitting";
   const saveError = settingsFetcher.data?.error;
   const billingError = billingFetcher.data?.error;
+  const isCarrierBusy = carrierFetcher.state !== "idle";
+  const carrierCredentials = carrierFetcher.data?.carrierCredentials ?? initialCarrierCredentials;
 
   // Tab configuration
   const tabs = [
@@ -352,6 +601,7 @@ export default function SettingsPage() {
     { id: "dashboard", content: "Dashboard", accessibilityLabel: "Dashboard preferences" },
     { id: "notifications", content: "Notifications", accessibilityLabel: "Notification settings" },
     { id: "display", content: "Display", accessibilityLabel: "Display settings" },
+    { id: "carriers", content: "Carrier Accounts", accessibilityLabel: "Carrier account settings" },
     { id: "billing", content: "Account & Billing", accessibilityLabel: "Billing settings" },
   ];
 
@@ -398,7 +648,18 @@ export default function SettingsPage() {
                     <PollingSettings
                       delayThresholdHours={settings.delayThresholdHours}
                       deliveryWindows={settings.deliveryWindows}
+                      blackoutDates={settings.blackoutDates}
                       onChange={handlePollingChange}
+                      stallDetection={settings.stallDetection}
+                      onStallDetectionChange={handleStallDetectionChange}
+                      zoneDeliveryWindows={settings.zoneDeliveryWindows}
+                      locations={locations}
+                      onZoneDeliveryWindowsChange={handleZoneDeliveryWindowsChange}
+                      delayRules={settings.delayRules}
+                      onDelayRulesChange={handleDelayRulesChange}
+                      transitTimes={transitTimes}
+                      learnedDeliveryWindows={settings.learnedDeliveryWindows}
+                      onLearnedDeliveryWindowsChange={handleLearnedDeliveryWindowsChange}
                       onSave={handlePollingSave}
                       isSaving={isSaving && activeSection === "polling"}
                       hasChanges={hasPollingChanges}
@@ -421,14 +682,30 @@ export default function SettingsPage() {
 
                   {/* Notifications Tab */}
                   {selectedTab === 2 && (
-                    <NotificationSettings
-                      subject={settings.notificationSubject}
-                      body={settings.notificationBody}
-                      onChange={handleNotificationChange}
-                      onSave={handleNotificationSave}
-                      isSaving={isSaving && activeSection === "notification"}
-                      hasChanges={hasNotificationChanges}
-                    />
+                    <BlockStack gap="400">
+                      <NotificationSettings
+                        templates={settings.notificationTemplates}
+                        onChange={handleNotificationChange}
+                        smsBody={settings.smsBody}
+                        onSmsBodyChange={handleSmsBodyChange}
+                        templateLocale={settings.templateLocale}
+                        onTemplateLocaleChange={handleTemplateLocaleChange}
+                        translations={settings.templateTranslations}
+                        onTranslationsChange={handleTemplateTranslationsChange}
+                        discountCode={settings.discountCode}
+                        onDiscountCodeChange={handleDiscountCodeChange}
+                        onSave={handleNotificationSave}
+                        isSaving={isSaving && activeSection === "notification"}
+                        hasChanges={hasNotificationChanges}
+                      />
+                      <AutoNotificationSettings
+                        autoNotifications={settings.autoNotifications}
+                        onChange={handleAutoNotificationsChange}
+                        onSave={handleAutomationSave}
+                        isSaving={isSaving && activeSection === "automation"}
+                        hasChanges={hasAutomationChanges}
+                      />
+                    </BlockStack>
                   )}
 
                   {/* Display Tab */}
@@ -444,8 +721,22 @@ export default function SettingsPage() {
                     />
                   )}
 
-                  {/* Account & Billing Tab */}
+                  {/* Carrier Accounts Tab */}
                   {selectedTab === 4 && (
+                    <CarrierAccounts
+                      carrierCredentials={carrierCredentials}
+                      encryptionConfigured={encryptionConfigured}
+                      onSave={handleCarrierSave}
+                      onDelete={handleCarrierDelete}
+                      onTest={handleCarrierTest}
+                      busyCarrier={isCarrierBusy ? carrierInFlight : null}
+                      lastTest={isCarrierBusy ? null : carrierFetcher.data?.test}
+                      error={isCarrierBusy ? null : carrierFetcher.data?.error}
+                    />
+                  )}
+
+                  {/* Account & Billing Tab */}
+                  {selectedTab === 5 && (
                     <>
                       {billingInfo ? (
                         <AccountBilling
@@ -497,6 +788,10 @@ export default function SettingsPage() {
                   Delivery window overrides let you customize expected delivery times
                   for specific service levels when carriers don't provide estimates.
                 </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Zone delivery windows narrow this down by where shipments leave from
+                  and go to. Export the zones as CSV to edit them in a spreadsheet.
+                </Text>
               </>
             )}
 
@@ -518,14 +813,29 @@ export default function SettingsPage() {
                   Notification Templates
                 </Text>
                 <Text as="p" variant="bodySm" tone="subdued">
-                  When you send a delay notification to a customer, the email will use
-                  this template. Variables like {"{tracking_number}"} are replaced with
-                  the actual shipment data.
+                  When you send a delay notification to a customer, the email uses the
+                  template for the shipment's situation: weather, an address issue, a
+                  lost package and so on. Variables like {"{tracking_number}"} are
+                  replaced with the actual shipment data.
                 </Text>
                 <Text as="p" variant="bodySm" tone="subdued">
-                  The template must include both {"{tracking_number}"} and{" "}
+                  Every template must include both {"{tracking_number}"} and{" "}
                   {"{order_number}"} so customers can identify their shipment.
                 </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Templates can also show text only when it applies, such as{" "}
+                  {"{#if expected_delivery_date}...{/if}"}, list the order's items and
+                  format dates. Mistakes are pointed out by line and column as you type.
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Add translations for customers who shop in other languages. Each
+                  notification uses the customer's language from their order when
+                  there's a translation, with dates and carrier names to match.
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Automatic notifications use the same templates. They show up in a
+                  shipment's notification history as sent by "automation".
+                </Text>
               </>
             )}
 
@@ -543,6 +853,23 @@ export default function SettingsPage() {
             )}
 
             {selectedTab === 4 && (
+              <>
+                <Text as="h3" variant="headingSm">
+                  Carrier Accounts
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Connect your own UPS, FedEx, USPS, DHL, Canada Post or Purolator API
+                  credentials. They are encrypted before being stored and are only used
+                  to track your shipments.
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Use "Test connection" to check that the carrier accepts your
+                  credentials before relying on them.
+                </Text>
+              </>
+            )}
+
+            {selectedTab === 5 && (
               <>
                 <Text as="h3" variant="headingSm">
                   Billing & Plans
@@ -0,0 +1,47 @@
+/**
+ * Webhook Handler: carrier push notifications
+ *
+ * Receives tracking updates pushed by carriers (UPS Track Alert at
+ * /webhooks/carriers/ups, FedEx webhooks at /webhooks/carriers/fedex).
+ * Notifications are verified with the carrier's signature scheme, then
+ * queued for the carrier poll worker, which applies them like a poll.
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { getCarrierAdapter } from "~/services/carriers/carrier.service";
+import { isSupportedCarrier } from "~/services/carriers/carrier.registry";
+import { enqueueCarrierPushJob } from "~/queue.server";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const carrier = params.carrier?.toUpperCase() ?? "";
+  const adapter = isSupportedCarrier(carrier) ? getCarrierAdapter(carrier) : null;
+
+  if (!adapter?.verifyPushNotification || !adapter.parsePushNotification) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rawBody = await request.text();
+
+  if (!adapter.verifyPushNotification(rawBody, request.headers)) {
+    console.warn(`[Webhook] Rejected ${carrier} push notification with invalid signature`);
+    return new Response(null, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    console.error(`[Webhook] ${carrier} push notification is not valid JSON`);
+    // Return 200 to prevent retries of a notification we can never parse
+    return new Response(null, { status: 200 });
+  }
+
+  try {
+    await enqueueCarrierPushJob(adapter.carrier, payload);
+    return new Response(null, { status: 200 });
+  } catch (error) {
+    console.error(`[Webhook] Error queueing ${carrier} push notification:`, error);
+    // Let the carrier redeliver; polling still covers the shipment meanwhile
+    return new Response(null, { status: 500 });
+  }
+}
@@ -36,6 +36,8 @@ async function fetchOrderDetails(
           name
           email
           phone
+          customerLocale
+          statusPageUrl
           totalPriceSet {
             shopMoney {
               amount
@@ -87,6 +89,8 @@ async function fetchOrderDetails(
       phone: order.phone,
       total_price: order.totalPriceSet?.shopMoney?.amount,
       currency: order.totalPriceSet?.shopMoney?.currencyCode,
+      customer_locale: order.customerLocale,
+      order_status_url: order.statusPageUrl,
       shipping_address: order.shippingAddress
         ? {
             first_name: order.shippingAddress.firstName,
@@ -245,7 +249,11 @@ export async function action({ request }: ActionFunctionArgs) {
         console.warn(`Duplicate tracking number detected: ${trackingNumber}`);
       }
 
-      if (isNew && trackingNumber && shipment.carrier !== "UNKNOWN") {
+      if (shipment.trackingNumberInvalid) {
+        console.warn(`Tracking number failed its check digit, not polling: ${trackingNumber}`);
+      }
+
+      if (isNew && trackingNumber && shipment.carrier !== "UNKNOWN" && !shipment.trackingNumberInvalid) {
         await enqueuePollJob(shipment.id);
         console.log(`Enqueued poll job for new shipment: ${shipment.id}`);
       }
@@ -278,8 +286,15 @@ export async function action({ request }: ActionFunctionArgs) {
       // We still create the shipment, but merchants will see a warning in the dashboard
     }
 
-    // Enqueue carrier poll job if we have a tracking number and known carrier
-    if (trackingNumber && shipment.carrier !== "UNKNOWN") {
+    if (shipment.trackingNumberInvalid) {
+      console.warn(
+        `Tracking number ${trackingNumber} for order ${shipment.orderNumber} failed its check digit, not polling`
+      );
+      // Merchants see a warning in the dashboard; polling starts once the number is corrected
+    }
+
+    // Enqueue carrier poll job if we have a valid tracking number and known carrier
+    if (trackingNumber && shipment.carrier !== "UNKNOWN" && !shipment.trackingNumberInvalid) {
       await enqueuePollJob(shipment.id);
       console.log(`Enqueued initial poll job for shipment: ${shipment.id}`);
     }
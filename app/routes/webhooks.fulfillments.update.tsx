@@ -36,6 +36,8 @@ async function fetchOrderDetails(
           name
           email
           phone
+          customerLocale
+          statusPageUrl
           totalPriceSet {
             shopMoney {
               amount
@@ -86,6 +88,8 @@ async function fetchOrderDetails(
       phone: order.phone,
       total_price: order.totalPriceSet?.shopMoney?.amount,
       currency: order.totalPriceSet?.shopMoney?.currencyCode,
+      customer_locale: order.customerLocale,
+      order_status_url: order.statusPageUrl,
       shipping_address: order.shippingAddress
         ? {
             first_name: order.shippingAddress.firstName,
@@ -216,7 +220,7 @@ export async function action({ request }: ActionFunctionArgs) {
         const trackingNumber = fulfillment.tracking_number ||
           (fulfillment.tracking_numbers && fulfillment.tracking_numbers[0]);
 
-        if (trackingNumber && shipment.carrier !== "UNKNOWN") {
+        if (trackingNumber && shipment.carrier !== "UNKNOWN" && !shipment.trackingNumberInvalid) {
           await enqueuePollJob(shipment.id);
           console.log(`Enqueued poll job for new shipment: ${shipment.id}`);
         }
@@ -245,8 +249,18 @@ export async function action({ request }: ActionFunctionArgs) {
 
     console.log(`Updated shipment: ${updatedShipment.id} for fulfillment ${fulfillment.id}`);
 
+    if (updatedShipment.trackingNumberInvalid) {
+      console.warn(
+        `Tracking number ${updatedShipment.trackingNumber} failed its check digit, not polling: ${updatedShipment.id}`
+      );
+    }
+
     // If tracking number was just added or changed, enqueue a poll job
-    if ((trackingChanged || hadNoTracking) && updatedShipment.carrier !== "UNKNOWN") {
+    if (
+      (trackingChanged || hadNoTracking) &&
+      updatedShipment.carrier !== "UNKNOWN" &&
+      !updatedShipment.trackingNumberInvalid
+    ) {
       await enqueuePollJob(updatedShipment.id);
       console.log(
         `Enqueued poll job for shipment with updated tracking: ${updatedShipment.id}`
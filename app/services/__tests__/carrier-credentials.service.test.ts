@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Import after mock setup
+import { prisma } from "~/db.server";
+import { encryptSecret } from "~/lib/encryption.server";
+import { getCarrierAdapter } from "../carriers/carrier.service";
+import {
+  buildCarrierAccount,
+  getCarrierAccounts,
+  getCarrierCredentialStatuses,
+  saveCarrierCredentials,
+  testCarrierConnection,
+} from "../carrier-credentials.service";
+
+// Mock Prisma
+vi.mock("~/db.server", () => ({
+  prisma: {
+    carrierCredential: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock carrier adapters
+vi.mock("../carriers/carrier.service", () => ({
+  getCarrierAdapter: vi.fn(),
+}));
+
+// Get typed mocks
+const mockFindMany = prisma.carrierCredential.findMany as ReturnType<typeof vi.fn>;
+const mockFindUnique = prisma.carrierCredential.findUnique as ReturnType<typeof vi.fn>;
+const mockUpsert = prisma.carrierCredential.upsert as ReturnType<typeof vi.fn>;
+const mockUpdate = prisma.carrierCredential.update as ReturnType<typeof vi.fn>;
+
+const TEST_KEY = Buffer.alloc(32, 7).toString("base64");
+
+const UPS_CREDENTIALS = { clientId: "merchant-client-1234", clientSecret: "s3cret" };
+
+function createRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "cred-1",
+    merchantId: "merchant-1",
+    carrier: "UPS",
+    encryptedData: encryptSecret(JSON.stringify(UPS_CREDENTIALS)),
+    lastTestedAt: null,
+    lastTestOk: null,
+    createdAt: new Date("2026-02-01T00:00:00Z"),
+    updatedAt: new Date("2026-02-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("carrier-credentials.service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CREDENTIALS_ENCRYPTION_KEY = TEST_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+  });
+
+  describe("buildCarrierAccount", () => {
+    it("should scope the account id to the merchant and credentials", () => {
+      const account = buildCarrierAccount("merchant-1", UPS_CREDENTIALS);
+
+      expect(account.id).toMatch(/^merchant-1:[0-9a-f]{12}$/);
+      expect(account.credentials).toEqual(UPS_CREDENTIALS);
+      expect(buildCarrierAccount("merchant-1", { ...UPS_CREDENTIALS }).id).toBe(account.id);
+      expect(buildCarrierAccount("merchant-1", { ...UPS_CREDENTIALS, clientSecret: "new" }).id).not.toBe(
+        account.id
+      );
+    });
+  });
+
+  describe("saveCarrierCredentials", () => {
+    it("should store the credential fields encrypted", async () => {
+      const result = await saveCarrierCredentials("merchant-1", "UPS", {
+        clientId: " merchant-client-1234 ",
+        clientSecret: "s3cret",
+        extra: "ignored",
+      });
+
+      expect(result).toEqual({ success: true });
+      const args = mockUpsert.mock.calls[0][0];
+      expect(args.where).toEqual({ merchantId_carrier: { merchantId: "merchant-1", carrier: "UPS" } });
+      expect(args.create.encryptedData).not.toContain("s3cret");
+      expect(args.update).toMatchObject({ lastTestedAt: null, lastTestOk: null });
+    });
+
+    it("should reject missing fields and unsupported carriers", async () => {
+      expect(await saveCarrierCredentials("merchant-1", "UPS", { clientId: "abc" })).toEqual({
+        success: false,
+        error: "UPS Client secret is required",
+      });
+      expect((await saveCarrierCredentials("merchant-1", "UNKNOWN", {})).success).toBe(false);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCarrierCredentialStatuses", () => {
+    it("should list every carrier without exposing secrets", async () => {
+      mockFindMany.mockResolvedValue([createRecord({ lastTestOk: true })]);
+
+      const statuses = await getCarrierCredentialStatuses("merchant-1");
+
+      expect(statuses).toHaveLength(6);
+      expect(statuses.find((status) => status.carrier === "UPS")).toMatchObject({
+        configured: true,
+        hint: "…1234",
+        lastTestOk: true,
+      });
+      expect(statuses.find((status) => status.carrier === "FEDEX")?.configured).toBe(false);
+      expect(JSON.stringify(statuses)).not.toContain("s3cret");
+    });
+  });
+
+  describe("getCarrierAccounts", () => {
+    it("should skip credentials that cannot be decrypted", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockFindMany.mockResolvedValue([
+        createRecord(),
+        createRecord({ id: "cred-2", carrier: "FEDEX", encryptedData: "v1.broken" }),
+      ]);
+
+      const accounts = await getCarrierAccounts("merchant-1");
+
+      expect([...accounts.keys()]).toEqual(["UPS"]);
+      expect(accounts.get("UPS")?.credentials).toEqual(UPS_CREDENTIALS);
+    });
+  });
+
+  describe("testCarrierConnection", () => {
+    const track = vi.fn();
+
+    beforeEach(() => {
+      vi.mocked(getCarrierAdapter).mockReturnValue({ carrier: "UPS", track } as never);
+    });
+
+    it("should accept credentials when the carrier answers about the test number", async () => {
+      track.mockResolvedValue({
+        success: false,
+        error: { code: "TRACKING_NOT_FOUND", message: "Not found", retryable: false },
+      });
+
+      const result = await testCarrierConnection("merchant-1", "UPS", UPS_CREDENTIALS);
+
+      expect(result.ok).toBe(true);
+      expect(track).toHaveBeenCalledWith(
+        "1Z999AA10123456784",
+        expect.objectContaining({ credentials: UPS_CREDENTIALS })
+      );
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should record a rejected test of the saved credentials", async () => {
+      mockFindUnique.mockResolvedValue(createRecord());
+      track.mockResolvedValue({
+        success: false,
+        error: { code: "AUTH_FAILED", message: "Unauthorized", retryable: true },
+      });
+
+      const result = await testCarrierConnection("merchant-1", "UPS");
+
+      expect(result).toEqual({ ok: false, message: "UPS rejected these credentials" });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { merchantId_carrier: { merchantId: "merchant-1", carrier: "UPS" } },
+        data: { lastTestedAt: expect.any(Date), lastTestOk: false },
+      });
+    });
+
+    it("should report when no credentials are saved", async () => {
+      mockFindUnique.mockResolvedValue(null);
+
+      const result = await testCarrierConnection("merchant-1", "UPS");
+
+      expect(result.ok).toBe(false);
+      expect(track).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -12,6 +12,9 @@ import {
   getDelayUpdateFields,
   getCarrierServiceLevels,
   getServiceLevelLabel,
+  getStaleDataGraceHours,
+  getNoScanThresholdDays,
+  getLastScanTime,
   type ShipmentData,
 } from "../delay-detection.service";
 
@@ -96,6 +99,20 @@ describe("delay-detection.service", () => {
       });
     });
 
+    describe("Canada Post service levels", () => {
+      it('should normalize "Expedited Parcel" with CANADA_POST carrier to "canada_post_expedited_parcel"', () => {
+        expect(normalizeServiceLevel("Expedited Parcel", "CANADA_POST")).toBe(
+          "canada_post_expedited_parcel"
+        );
+      });
+
+      it('should not double-prefix "Canada Post Xpresspost"', () => {
+        expect(normalizeServiceLevel("Canada Post Xpresspost", "CANADA_POST")).toBe(
+          "canada_post_xpresspost"
+        );
+      });
+    });
+
     describe("edge cases", () => {
       it("should return null for null service level", () => {
         expect(normalizeServiceLevel(null, "UPS")).toBeNull();
@@ -234,6 +251,42 @@ describe("delay-detection.service", () => {
       const result = calculateDefaultExpectedDelivery(shipDate, "Ground", "UPS", overrides);
       expect(result.toISOString()).toBe("2026-02-05T00:00:00.000Z"); // Monday + 3 = Thursday
     });
+
+    it("should skip the carrier's holidays and merchant blackout dates", () => {
+      // Monday before Thanksgiving + 5 business days = next Tuesday (skipping Thursday)
+      const shipDate = utcDate("2026-11-23");
+      expect(calculateDefaultExpectedDelivery(shipDate, "Ground", "UPS").toISOString()).toBe(
+        "2026-12-01T00:00:00.000Z"
+      );
+      // Friday Nov 27 blacked out as well
+      expect(
+        calculateDefaultExpectedDelivery(shipDate, "Ground", "UPS", {}, ["2026-11-27"]).toISOString()
+      ).toBe("2026-12-02T00:00:00.000Z");
+    });
+
+    it("should use a matching zone window before service level overrides", () => {
+      const shipDate = utcDate("2026-02-02");
+      const zones = [
+        { originLocationId: "loc-1", destination: "US-CA", serviceLevel: "ups_ground", days: 2 },
+      ];
+      const lane = {
+        originLocationId: "loc-1",
+        shippingAddress: { provinceCode: "CA", countryCode: "US", zip: "94105" },
+      };
+
+      expect(
+        calculateDefaultExpectedDelivery(
+          shipDate, "Ground", "UPS", { ups_ground: 3 }, [], undefined, zones, lane
+        ).toISOString()
+      ).toBe("2026-02-04T00:00:00.000Z"); // Monday + 2 = Wednesday
+      // Other origins fall back to the override
+      expect(
+        calculateDefaultExpectedDelivery(
+          shipDate, "Ground", "UPS", { ups_ground: 3 }, [], undefined, zones,
+          { ...lane, originLocationId: "loc-2" }
+        ).toISOString()
+      ).toBe("2026-02-05T00:00:00.000Z");
+    });
   });
 
   describe("evaluateDelay", () => {
@@ -245,6 +298,8 @@ describe("delay-detection.service", () => {
       carrier: "UPS",
       rescheduledDeliveryDate: null,
       isDelivered: false,
+      trackingStatus: "IN_TRANSIT",
+      lastScanTime: null,
       ...overrides,
     });
 
@@ -252,9 +307,11 @@ describe("delay-detection.service", () => {
       trackingNumber: "1Z999AA10123456784",
       carrier: "UPS",
       currentStatus: "In Transit",
+      status: "IN_TRANSIT",
       isException: false,
       exceptionCode: null,
       exceptionReason: null,
+      exceptionCategory: null,
       expectedDeliveryDate: null,
       rescheduledDeliveryDate: null,
       isDelivered: false,
@@ -421,6 +478,239 @@ describe("delay-detection.service", () => {
         expect(result.delayReason).toBe("PAST_EXPECTED_DELIVERY");
         expect(result.expectedDeliverySource).toBe("DEFAULT");
       });
+
+      it("should evaluate the deadline in the delivery timezone", () => {
+        const shipment = createShipmentData({
+          expectedDeliveryDate: utcDate("2026-02-04"),
+          expectedDeliverySource: "CARRIER",
+        });
+        // 12:30am Feb 5 in Los Angeles: past the UTC deadline, within 8 hours of local midnight
+        const now = new Date("2026-02-05T08:30:00Z");
+
+        expect(evaluateDelay(shipment, null, merchantSettings, now).isDelayed).toBe(true);
+        expect(
+          evaluateDelay(shipment, null, merchantSettings, now, { timeZone: "America/Los_Angeles" }).isDelayed
+        ).toBe(false);
+      });
+
+      it("should not flag a delay over a holiday", () => {
+        // UPS expected Wednesday before Thanksgiving; no delivery on Thursday
+        const shipment = createShipmentData({
+          expectedDeliveryDate: utcDate("2026-11-25"),
+          expectedDeliverySource: "CARRIER",
+        });
+
+        expect(evaluateDelay(shipment, null, merchantSettings, new Date("2026-11-27T06:00:00Z")).isDelayed).toBe(
+          false
+        );
+
+        const result = evaluateDelay(shipment, null, merchantSettings, new Date("2026-11-28T12:00:00Z"));
+        expect(result.isDelayed).toBe(true);
+        expect(result.daysDelayed).toBe(2);
+      });
+    });
+
+    describe("carrier outages", () => {
+      const shipment = createShipmentData({
+        expectedDeliveryDate: utcDate("2026-02-02"),
+        expectedDeliverySource: "CARRIER",
+      });
+      const now = new Date("2026-02-04T12:00:00Z");
+      const staleResult = createTrackingResult({ lastScanTime: new Date("2026-02-01T12:00:00Z") });
+
+      it("should not flag missing updates as past expected delivery during an outage", () => {
+        const carrierOutage = { startedAt: new Date("2026-02-02T00:00:00Z"), endedAt: null };
+
+        const result = evaluateDelay(shipment, staleResult, merchantSettings, now, { carrierOutage });
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should flag once a scan arrives after the outage ended", () => {
+        const carrierOutage = {
+          startedAt: new Date("2026-02-02T00:00:00Z"),
+          endedAt: new Date("2026-02-04T06:00:00Z"),
+        };
+
+        const result = evaluateDelay(shipment, createTrackingResult(), merchantSettings, now, {
+          carrierOutage,
+        });
+
+        expect(result.isDelayed).toBe(true);
+        expect(result.delayReason).toBe("PAST_EXPECTED_DELIVERY");
+      });
+
+      it("should still flag carrier exceptions during an outage", () => {
+        const carrierOutage = { startedAt: new Date("2026-02-02T00:00:00Z"), endedAt: null };
+        const exceptionResult = createTrackingResult({
+          isException: true,
+          exceptionCode: "X1",
+          exceptionReason: "Weather delay",
+        });
+
+        const result = evaluateDelay(shipment, exceptionResult, merchantSettings, now, {
+          carrierOutage,
+        });
+
+        expect(result.delayReason).toBe("CARRIER_EXCEPTION");
+      });
+    });
+
+    describe("stalled shipments", () => {
+      // Expected Feb 17, well after the dates below
+      const shipment = createShipmentData({
+        expectedDeliveryDate: utcDate("2026-02-17"),
+        expectedDeliverySource: "CARRIER",
+      });
+      // Last scanned Friday Feb 6
+      const stalledResult = createTrackingResult({
+        expectedDeliveryDate: utcDate("2026-02-17"),
+        lastScanTime: new Date("2026-02-06T15:00:00Z"),
+      });
+
+      it("should flag an in-transit shipment with no scans for 3 business days", () => {
+        // Thursday: Mon, Tue and Wed passed without a scan
+        const now = new Date("2026-02-12T09:00:00Z");
+
+        const result = evaluateDelay(shipment, stalledResult, merchantSettings, now);
+
+        expect(result.isDelayed).toBe(true);
+        expect(result.delayReason).toBe("STALLED_NO_SCANS");
+        expect(result.daysDelayed).toBe(0);
+        expect(result.expectedDeliveryDate).toEqual(utcDate("2026-02-17"));
+      });
+
+      it("should not flag before the threshold", () => {
+        const now = new Date("2026-02-11T20:00:00Z");
+
+        const result = evaluateDelay(shipment, stalledResult, merchantSettings, now);
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should use the newest event in the tracking history", () => {
+        const now = new Date("2026-02-12T09:00:00Z");
+        const tracking = createTrackingResult({
+          expectedDeliveryDate: utcDate("2026-02-17"),
+          lastScanTime: null,
+          events: [
+            {
+              timestamp: new Date("2026-02-05T10:00:00Z"),
+              type: "I",
+              description: "Departed facility",
+              city: "Louisville",
+              state: "KY",
+              country: "US",
+              rawData: null,
+            },
+            {
+              timestamp: new Date("2026-02-09T10:00:00Z"),
+              type: "I",
+              description: "Arrived at facility",
+              city: "Chicago",
+              state: "IL",
+              country: "US",
+              rawData: null,
+            },
+          ],
+        });
+
+        const result = evaluateDelay(shipment, tracking, merchantSettings, now);
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should use per-service-level thresholds", () => {
+        const now = new Date("2026-02-11T09:00:00Z");
+        const settings: MerchantSettings = {
+          ...merchantSettings,
+          stallDetection: {
+            ...merchantSettings.stallDetection,
+            serviceLevelNoScanDays: { ups_ground: 2 },
+          },
+        };
+
+        const result = evaluateDelay(shipment, stalledResult, settings, now);
+
+        expect(result.delayReason).toBe("STALLED_NO_SCANS");
+      });
+
+      it("should not flag shipments waiting on the customer", () => {
+        const now = new Date("2026-02-12T09:00:00Z");
+        const tracking = { ...stalledResult, status: "AVAILABLE_FOR_PICKUP" as const };
+
+        const result = evaluateDelay(shipment, tracking, merchantSettings, now);
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should not flag stalls while carrier data may be stale", () => {
+        const now = new Date("2026-02-12T09:00:00Z");
+        const carrierOutage = { startedAt: new Date("2026-02-09T00:00:00Z"), endedAt: null };
+
+        const result = evaluateDelay(shipment, stalledResult, merchantSettings, now, {
+          carrierOutage,
+        });
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should not flag stalls when disabled", () => {
+        const now = new Date("2026-02-12T09:00:00Z");
+        const settings: MerchantSettings = {
+          ...merchantSettings,
+          stallDetection: { ...merchantSettings.stallDetection, enabled: false },
+        };
+
+        const result = evaluateDelay(shipment, stalledResult, settings, now);
+
+        expect(result.isDelayed).toBe(false);
+      });
+
+      it("should prefer past expected delivery over stalled", () => {
+        const now = new Date("2026-02-19T09:00:00Z");
+
+        const result = evaluateDelay(shipment, stalledResult, merchantSettings, now);
+
+        expect(result.delayReason).toBe("PAST_EXPECTED_DELIVERY");
+      });
+
+      it("should flag a label not picked up after 2 business days", () => {
+        // Shipped Monday Feb 2; Tue and Wed passed by Thursday
+        const labelOnly = createTrackingResult({
+          status: "LABEL_CREATED",
+          currentStatus: "Label Created",
+          expectedDeliveryDate: utcDate("2026-02-17"),
+          lastScanTime: null,
+        });
+
+        expect(
+          evaluateDelay(shipment, labelOnly, merchantSettings, new Date("2026-02-04T20:00:00Z"))
+            .isDelayed
+        ).toBe(false);
+
+        const result = evaluateDelay(
+          shipment,
+          labelOnly,
+          merchantSettings,
+          new Date("2026-02-05T09:00:00Z")
+        );
+        expect(result.isDelayed).toBe(true);
+        expect(result.delayReason).toBe("LABEL_NOT_PICKED_UP");
+      });
+
+      it("should fall back to the stored status and last scan without a tracking result", () => {
+        const stored = createShipmentData({
+          expectedDeliveryDate: utcDate("2026-02-17"),
+          expectedDeliverySource: "CARRIER",
+          trackingStatus: "IN_TRANSIT",
+          lastScanTime: new Date("2026-02-06T15:00:00Z"),
+        });
+
+        const result = evaluateDelay(stored, null, merchantSettings, new Date("2026-02-12T09:00:00Z"));
+
+        expect(result.delayReason).toBe("STALLED_NO_SCANS");
+      });
     });
 
     describe("expected delivery date determination", () => {
@@ -484,6 +774,26 @@ describe("delay-detection.service", () => {
         expect(result.expectedDeliveryDate?.toISOString()).toBe("2026-02-03T00:00:00.000Z");
         expect(result.expectedDeliverySource).toBe("DEFAULT");
       });
+
+      it("should calculate from the zone window for the shipment's lane", () => {
+        const shipment = createShipmentData({
+          shipDate: utcDate("2026-02-02"), // Monday
+          originLocationId: "loc-1",
+          shippingAddress: { provinceCode: "NY", countryCode: "US", zip: "10001" },
+        });
+        const settings: MerchantSettings = {
+          ...merchantSettings,
+          zoneDeliveryWindows: [
+            { originLocationId: null, destination: "100", serviceLevel: "ups_ground", days: 7 },
+          ],
+        };
+
+        const result = evaluateDelay(shipment, null, settings);
+
+        // Monday + 7 business days = Wednesday Feb 11
+        expect(result.expectedDeliveryDate?.toISOString()).toBe("2026-02-11T00:00:00.000Z");
+        expect(result.expectedDeliverySource).toBe("DEFAULT");
+      });
     });
 
     describe("rescheduled delivery handling", () => {
@@ -523,6 +833,280 @@ describe("delay-detection.service", () => {
         expect(result.delayReason).toBe("PAST_EXPECTED_DELIVERY");
       });
     });
+
+    describe("merchant delay rules", () => {
+      const withRules = (delayRules: MerchantSettings["delayRules"]): MerchantSettings => ({
+        ...merchantSettings,
+        delayRules,
+      });
+
+      // Expected Feb 2: flagged after Feb 3 08:00 with the default 8 grace hours
+      const pastDue = { expectedDeliveryDate: utcDate("2026-02-02"), expectedDeliverySource: "CARRIER" as const };
+
+      it("should never flag shipments a rule ignores", () => {
+        const settings = withRules([
+          {
+            id: "rule-1",
+            name: "Never flag test data",
+            enabled: true,
+            conditions: [{ field: "isTestData", operator: "is", value: true }],
+            actions: [{ type: "ignore" }],
+          },
+        ]);
+
+        const result = evaluateDelay(createShipmentData({ ...pastDue, isTestData: true }), null, settings);
+
+        expect(result.isDelayed).toBe(false);
+        expect(result.expectedDeliveryDate?.toISOString()).toBe("2026-02-02T00:00:00.000Z");
+        expect(result.matchedRules).toEqual([
+          { ruleId: "rule-1", ruleName: "Never flag test data", actions: [{ type: "ignore" }] },
+        ]);
+        expect(evaluateDelay(createShipmentData(pastDue), null, settings).isDelayed).toBe(true);
+      });
+
+      it("should replace the delay threshold with a rule's grace hours", () => {
+        const settings = withRules([
+          {
+            id: "high-value",
+            name: "High-value orders",
+            enabled: true,
+            conditions: [{ field: "orderValue", operator: "greater_than", value: 200 }],
+            actions: [{ type: "set_grace_hours", hours: 4 }],
+          },
+          {
+            id: "others",
+            name: "Other orders",
+            enabled: true,
+            conditions: [{ field: "orderValue", operator: "at_most", value: 200 }],
+            actions: [{ type: "set_grace_hours", hours: 24 }],
+          },
+        ]);
+        const now = new Date("2026-02-03T06:00:00Z");
+
+        expect(
+          evaluateDelay(createShipmentData({ ...pastDue, orderValue: 350 }), null, settings, now).isDelayed
+        ).toBe(true);
+        expect(
+          evaluateDelay(createShipmentData({ ...pastDue, orderValue: 50 }), null, settings, now).isDelayed
+        ).toBe(false);
+        // Past the 24 hours
+        expect(
+          evaluateDelay(
+            createShipmentData({ ...pastDue, orderValue: 50 }),
+            null,
+            settings,
+            new Date("2026-02-04T01:00:00Z")
+          ).isDelayed
+        ).toBe(true);
+      });
+
+      it("should match carrier status text", () => {
+        const settings = withRules([
+          {
+            id: "notice-left",
+            name: "USPS Notice Left after 2 days",
+            enabled: true,
+            conditions: [
+              { field: "carrier", operator: "equals", value: "USPS" },
+              { field: "carrierStatus", operator: "contains", value: "notice left" },
+            ],
+            actions: [{ type: "set_grace_hours", hours: 48 }],
+          },
+        ]);
+        const shipment = createShipmentData({ ...pastDue, carrier: "USPS", serviceLevel: "Priority Mail" });
+        // As the USPS adapter reports Notice Left: an exception
+        const tracking = createTrackingResult({
+          carrier: "USPS",
+          status: "DELIVERY_ATTEMPTED",
+          currentStatus: "Notice Left (No Authorized Recipient Available)",
+          isException: true,
+          exceptionCode: "Delivery Attempt",
+          exceptionReason: "Notice Left (No Authorized Recipient Available)",
+          exceptionCategory: "DELIVERY_ATTEMPTED",
+          lastScanTime: new Date("2026-02-03T15:00:00Z"),
+        });
+
+        const result = evaluateDelay(shipment, tracking, settings, new Date("2026-02-04T12:00:00Z"));
+
+        expect(result.isDelayed).toBe(false);
+        expect(result.matchedRules.map((rule) => rule.ruleId)).toEqual(["notice-left"]);
+        // 48 hours after the Notice Left scan
+        expect(evaluateDelay(shipment, tracking, settings, new Date("2026-02-05T15:00:00Z")).delayReason).toBe(
+          "CARRIER_EXCEPTION"
+        );
+      });
+
+      it("should ignore carrier exceptions a rule ignores, but not missed deadlines", () => {
+        const settings = withRules([
+          {
+            id: "fedex-x",
+            name: "Ignore FedEx code X",
+            enabled: true,
+            conditions: [
+              { field: "carrier", operator: "equals", value: "FEDEX" },
+              { field: "exceptionCode", operator: "equals", value: "X" },
+            ],
+            actions: [{ type: "ignore_exception" }],
+          },
+        ]);
+        const shipment = createShipmentData({
+          carrier: "FEDEX",
+          serviceLevel: "FedEx Ground",
+          expectedDeliveryDate: utcDate("2026-02-06"),
+          expectedDeliverySource: "CARRIER",
+        });
+        const exception = (exceptionCode: string) =>
+          createTrackingResult({ carrier: "FEDEX", isException: true, exceptionCode });
+
+        expect(evaluateDelay(shipment, exception("X"), settings).isDelayed).toBe(false);
+        expect(evaluateDelay(shipment, exception("Y"), settings).delayReason).toBe("CARRIER_EXCEPTION");
+        expect(
+          evaluateDelay({ ...shipment, ...pastDue }, exception("X"), settings).delayReason
+        ).toBe("PAST_EXPECTED_DELIVERY");
+      });
+
+      it("should set the severity of delays only", () => {
+        const settings = withRules([
+          {
+            id: "critical",
+            name: "High-value is critical",
+            enabled: true,
+            conditions: [{ field: "orderValue", operator: "at_least", value: 500 }],
+            actions: [{ type: "set_severity", severity: "CRITICAL" }],
+          },
+        ]);
+
+        const delayed = evaluateDelay(createShipmentData({ ...pastDue, orderValue: 800 }), null, settings);
+        const onTime = evaluateDelay(createShipmentData({ orderValue: 800 }), null, settings);
+
+        expect(delayed.severity).toBe("CRITICAL");
+        expect(onTime.isDelayed).toBe(false);
+        expect(onTime.severity).toBeNull();
+        expect(onTime.matchedRules).toHaveLength(1);
+      });
+
+      it("should derive the severity when no rule sets one", () => {
+        const settings = withRules([]);
+        const damaged = createTrackingResult({ isException: true, exceptionCategory: "DAMAGED" });
+        const weather = createTrackingResult({ isException: true, exceptionCategory: "WEATHER" });
+
+        expect(evaluateDelay(createShipmentData(), damaged, settings).severity).toBe("CRITICAL");
+        expect(evaluateDelay(createShipmentData(), weather, settings).severity).toBe("LOW");
+        // Without a new tracking result the stored category still counts
+        expect(
+          evaluateDelay(createShipmentData({ exceptionCategory: "ADDRESS_ISSUE", ...pastDue }), null, settings)
+            .severity
+        ).toBe("MEDIUM");
+      });
+
+      it("should skip disabled rules and not evaluate delivered shipments", () => {
+        const settings = withRules([
+          {
+            id: "off",
+            name: "Disabled",
+            enabled: false,
+            conditions: [{ field: "isTestData", operator: "is", value: false }],
+            actions: [{ type: "ignore" }],
+          },
+        ]);
+
+        expect(evaluateDelay(createShipmentData(pastDue), null, settings).isDelayed).toBe(true);
+        expect(
+          evaluateDelay(createShipmentData({ isDelivered: true }), null, withRules([
+            { ...settings.delayRules[0], enabled: true },
+          ])).matchedRules
+        ).toEqual([]);
+      });
+    });
+  });
+
+  describe("getStaleDataGraceHours", () => {
+    const outage = {
+      startedAt: new Date("2026-02-03T00:00:00Z"),
+      endedAt: new Date("2026-02-04T06:00:00Z"),
+    };
+    const now = new Date("2026-02-04T12:00:00Z");
+
+    it("should return 0 without an outage", () => {
+      expect(getStaleDataGraceHours(null, null, now)).toBe(0);
+    });
+
+    it("should return the outage length while data predates its end", () => {
+      expect(getStaleDataGraceHours(null, outage, now)).toBe(30);
+    });
+
+    it("should measure an ongoing outage up to now", () => {
+      expect(getStaleDataGraceHours(null, { ...outage, endedAt: null }, now)).toBe(36);
+    });
+
+    it("should return 0 once a scan arrives after the outage", () => {
+      const trackingResult = { lastScanTime: new Date("2026-02-04T08:00:00Z") } as TrackingResult;
+
+      expect(getStaleDataGraceHours(trackingResult, outage, now)).toBe(0);
+    });
+  });
+
+  describe("getNoScanThresholdDays", () => {
+    const stallDetection = {
+      ...DEFAULT_MERCHANT_SETTINGS.stallDetection,
+      serviceLevelNoScanDays: { fedex_priority_overnight: 1 },
+    };
+
+    it("should use the merchant's service level override", () => {
+      expect(getNoScanThresholdDays("Priority Overnight", "FEDEX", stallDetection)).toBe(1);
+    });
+
+    it("should fall back to the default threshold", () => {
+      expect(getNoScanThresholdDays("Ground", "FEDEX", stallDetection)).toBe(3);
+      expect(getNoScanThresholdDays(null, "FEDEX", stallDetection)).toBe(3);
+    });
+  });
+
+  describe("getLastScanTime", () => {
+    it("should use the newest of the carrier's last scan and events, falling back to the stored scan", () => {
+      const shipment = {
+        shipDate: utcDate("2026-02-02"),
+        expectedDeliveryDate: null,
+        expectedDeliverySource: "DEFAULT" as const,
+        serviceLevel: null,
+        carrier: "UPS" as const,
+        rescheduledDeliveryDate: null,
+        isDelivered: false,
+        trackingStatus: "IN_TRANSIT" as const,
+        lastScanTime: new Date("2026-02-03T10:00:00Z"),
+      };
+
+      expect(getLastScanTime(shipment, null)).toEqual(new Date("2026-02-03T10:00:00Z"));
+      expect(
+        getLastScanTime(shipment, {
+          trackingNumber: "1Z999AA10123456784",
+          carrier: "UPS",
+          currentStatus: "In Transit",
+          status: "IN_TRANSIT",
+          isException: false,
+          exceptionCode: null,
+          exceptionReason: null,
+          exceptionCategory: null,
+          expectedDeliveryDate: null,
+          rescheduledDeliveryDate: null,
+          isDelivered: false,
+          deliveredAt: null,
+          lastScanLocation: null,
+          lastScanTime: new Date("2026-02-04T08:00:00Z"),
+          events: [
+            {
+              timestamp: new Date("2026-02-04T11:00:00Z"),
+              type: "I",
+              description: "Arrived at facility",
+              city: null,
+              state: null,
+              country: null,
+              rawData: null,
+            },
+          ],
+        })
+      ).toEqual(new Date("2026-02-04T11:00:00Z"));
+    });
   });
 
   describe("getDelayUpdateFields", () => {
@@ -533,6 +1117,8 @@ describe("delay-detection.service", () => {
         daysDelayed: 2,
         expectedDeliveryDate: utcDate("2026-02-02"),
         expectedDeliverySource: "CARRIER" as const,
+        severity: null,
+        matchedRules: [],
       };
 
       const update = getDelayUpdateFields(result, false);
@@ -541,6 +1127,23 @@ describe("delay-detection.service", () => {
       expect(update.daysDelayed).toBe(2);
       expect(update.expectedDeliveryDate).toEqual(utcDate("2026-02-02"));
       expect(update.expectedDeliverySource).toBe("CARRIER");
+      expect(update.delayReason).toBe("CARRIER_EXCEPTION");
+    });
+
+    it("should clear the delay reason when not delayed", () => {
+      const result = {
+        isDelayed: false,
+        delayReason: null,
+        daysDelayed: 0,
+        expectedDeliveryDate: utcDate("2026-02-06"),
+        expectedDeliverySource: "CARRIER" as const,
+        severity: null,
+        matchedRules: [],
+      };
+
+      const update = getDelayUpdateFields(result, false);
+
+      expect(update.delayReason).toBeNull();
     });
 
     it("should set delayFlaggedAt when newly delayed", () => {
@@ -550,6 +1153,8 @@ describe("delay-detection.service", () => {
         daysDelayed: 1,
         expectedDeliveryDate: utcDate("2026-02-02"),
         expectedDeliverySource: "CARRIER" as const,
+        severity: null,
+        matchedRules: [],
       };
       const now = new Date("2026-02-04T12:00:00Z");
 
@@ -565,6 +1170,8 @@ describe("delay-detection.service", () => {
         daysDelayed: 2,
         expectedDeliveryDate: utcDate("2026-02-02"),
         expectedDeliverySource: "CARRIER" as const,
+        severity: null,
+        matchedRules: [],
       };
 
       const update = getDelayUpdateFields(result, true);
@@ -579,6 +1186,8 @@ describe("delay-detection.service", () => {
         daysDelayed: 0,
         expectedDeliveryDate: utcDate("2026-02-05"),
         expectedDeliverySource: "CARRIER" as const,
+        severity: null,
+        matchedRules: [],
       };
 
       const update = getDelayUpdateFields(result, false);
@@ -593,6 +1202,8 @@ describe("delay-detection.service", () => {
         daysDelayed: 0,
         expectedDeliveryDate: null,
         expectedDeliverySource: "DEFAULT" as const,
+        severity: null,
+        matchedRules: [],
       };
 
       const update = getDelayUpdateFields(result, false);
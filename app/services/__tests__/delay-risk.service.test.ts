@@ -0,0 +1,465 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+import type { TrackingEvent, TrackingResult } from "../carriers/carrier.interface";
+import type { DelayEvaluationResult, ShipmentData } from "../delay-detection.service";
+import { DEFAULT_MERCHANT_SETTINGS } from "~/lib/validation";
+import { prisma } from "~/db.server";
+import {
+  assessDelayRisk,
+  getLaneHistory,
+  getRiskUpdateFields,
+  getScanState,
+  scoreDelayRisk,
+  type DelayRiskContext,
+} from "../delay-risk.service";
+
+vi.mock("~/db.server", () => ({
+  prisma: {
+    shipment: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+/**
+ * Helper to create a UTC date at midnight
+ */
+function utcDate(dateStr: string): Date {
+  return new Date(dateStr + "T00:00:00.000Z");
+}
+
+// Wednesday, February 4, 2026 at noon
+const NOW = new Date("2026-02-04T12:00:00Z");
+
+const createShipmentData = (overrides: Partial<ShipmentData> = {}): ShipmentData => ({
+  shipDate: utcDate("2026-02-02"), // Monday
+  expectedDeliveryDate: null,
+  expectedDeliverySource: "DEFAULT",
+  serviceLevel: "Ground",
+  carrier: "UPS",
+  rescheduledDeliveryDate: null,
+  isDelivered: false,
+  trackingStatus: "IN_TRANSIT",
+  lastScanTime: null,
+  ...overrides,
+});
+
+const createTrackingResult = (overrides: Partial<TrackingResult> = {}): TrackingResult => ({
+  trackingNumber: "1Z999AA10123456784",
+  carrier: "UPS",
+  currentStatus: "In Transit",
+  status: "IN_TRANSIT",
+  isException: false,
+  exceptionCode: null,
+  exceptionReason: null,
+  exceptionCategory: null,
+  expectedDeliveryDate: null,
+  rescheduledDeliveryDate: null,
+  isDelivered: false,
+  deliveredAt: null,
+  lastScanLocation: "Louisville, KY",
+  lastScanTime: new Date("2026-02-04T08:00:00Z"),
+  events: [],
+  ...overrides,
+});
+
+const createEvent = (timestamp: string, state: string | null = "KY"): TrackingEvent => ({
+  timestamp: new Date(timestamp),
+  type: "I",
+  description: "Departed facility",
+  city: "Louisville",
+  state,
+  country: "US",
+  rawData: null,
+});
+
+const createDelayResult = (overrides: Partial<DelayEvaluationResult> = {}): DelayEvaluationResult => ({
+  isDelayed: false,
+  delayReason: null,
+  daysDelayed: 0,
+  expectedDeliveryDate: utcDate("2026-02-10"),
+  expectedDeliverySource: "DEFAULT",
+  severity: null,
+  matchedRules: [],
+  ...overrides,
+});
+
+const context: DelayRiskContext = {
+  destinationState: "CA",
+  laneHistory: null,
+};
+
+describe("delay-risk.service", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("assessDelayRisk", () => {
+    it("should not score delivered shipments", () => {
+      const result = assessDelayRisk(
+        createShipmentData({ isDelivered: true }),
+        createTrackingResult(),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should not score shipments that are already delayed", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult({ isDelayed: true, delayReason: "PAST_EXPECTED_DELIVERY" }),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should score zero for a recently scanned shipment with time to spare", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result).toEqual({ score: 0, level: "LOW", factors: [] });
+    });
+
+    it("should scale no-scan points against the stall threshold", () => {
+      // Last scan Friday: Monday and Tuesday without scans, threshold 3
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult({ lastScanTime: new Date("2026-01-30T15:00:00Z") }),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.factors).toEqual([
+        { code: "NO_RECENT_SCAN", points: 20, description: "No carrier scan for 2 business days" },
+      ]);
+      expect(result?.score).toBe(20);
+    });
+
+    it("should measure time since the ship date for labels not picked up", () => {
+      const result = assessDelayRisk(
+        createShipmentData({ trackingStatus: "LABEL_CREATED" }),
+        createTrackingResult({ status: "LABEL_CREATED", lastScanTime: null, lastScanLocation: null }),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      // 1 of 2 pickup days
+      expect(result?.factors).toEqual([
+        {
+          code: "NO_RECENT_SCAN",
+          points: 15,
+          description: "Not picked up by the carrier for 1 business day",
+        },
+      ]);
+    });
+
+    it("should flag a gap between scans much longer than usual", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult({
+          lastScanTime: null,
+          events: [
+            createEvent("2026-02-01T00:00:00Z"),
+            createEvent("2026-02-01T12:00:00Z"),
+            createEvent("2026-02-02T00:00:00Z"),
+          ],
+        }),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.factors.find((factor) => factor.code === "SLOW_SCAN_CADENCE")).toEqual({
+        code: "SLOW_SCAN_CADENCE",
+        points: 15,
+        description: "No scan for 60 hours, usually every 12 hours",
+      });
+    });
+
+    it("should not judge cadence with fewer than three scans", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult({
+          lastScanTime: null,
+          events: [createEvent("2026-02-01T00:00:00Z"), createEvent("2026-02-01T12:00:00Z")],
+        }),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.factors.map((factor) => factor.code)).not.toContain("SLOW_SCAN_CADENCE");
+    });
+
+    it("should flag a shipment outside the destination state due tomorrow", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-05") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.factors).toEqual([
+        {
+          code: "OUTSIDE_DESTINATION",
+          points: 25,
+          description: "Last scanned in KY, delivering to CA",
+        },
+        { code: "DEADLINE_NEAR", points: 8, description: "Due in 1 business day" },
+      ]);
+      expect(result?.score).toBe(33);
+      expect(result?.level).toBe("MEDIUM");
+    });
+
+    it("should weigh being outside the destination less with two business days left", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-06") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.factors).toEqual([
+        {
+          code: "OUTSIDE_DESTINATION",
+          points: 10,
+          description: "Last scanned in KY, delivering to CA",
+        },
+      ]);
+    });
+
+    it("should not flag location or deadline once out for delivery", () => {
+      const result = assessDelayRisk(
+        createShipmentData({ trackingStatus: "OUT_FOR_DELIVERY" }),
+        createTrackingResult({ status: "OUT_FOR_DELIVERY" }),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-04") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        context,
+        NOW
+      );
+
+      expect(result?.score).toBe(0);
+    });
+
+    it("should use the rescheduled delivery date for the deadline", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult({ rescheduledDeliveryDate: utcDate("2026-02-04") }),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-10") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        { ...context, destinationState: "KY" },
+        NOW
+      );
+
+      expect(result?.factors).toEqual([
+        { code: "DEADLINE_NEAR", points: 15, description: "Due today" },
+      ]);
+    });
+
+    it("should scale lane points by the lane's problem rate", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        { ...context, laneHistory: { shipments: 20, problems: 5 } },
+        NOW
+      );
+
+      expect(result?.factors).toEqual([
+        {
+          code: "LANE_EXCEPTIONS",
+          points: 10,
+          description: "25% of recent shipments on this lane had exceptions or delays",
+        },
+      ]);
+    });
+
+    it("should ignore lanes with too few shipments", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult(),
+        DEFAULT_MERCHANT_SETTINGS,
+        { ...context, laneHistory: { shipments: 9, problems: 9 } },
+        NOW
+      );
+
+      expect(result?.score).toBe(0);
+    });
+
+    it("should cap the score at 100 and sort factors by points", () => {
+      const result = assessDelayRisk(
+        createShipmentData(),
+        createTrackingResult({
+          lastScanTime: null,
+          events: [
+            createEvent("2026-01-27T00:00:00Z"),
+            createEvent("2026-01-27T12:00:00Z"),
+            createEvent("2026-01-28T00:00:00Z"),
+          ],
+        }),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-04") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        { ...context, laneHistory: { shipments: 10, problems: 6 } },
+        NOW
+      );
+
+      expect(result?.factors.map((factor) => factor.points)).toEqual([30, 25, 20, 15, 15]);
+      expect(result?.score).toBe(100);
+      expect(result?.level).toBe("HIGH");
+    });
+  });
+
+  describe("getScanState", () => {
+    it("should prefer the state of the newest tracking event", () => {
+      const trackingResult = createTrackingResult({
+        events: [createEvent("2026-02-03T08:00:00Z", "tn"), createEvent("2026-02-02T08:00:00Z", "GA")],
+      });
+
+      expect(getScanState(trackingResult, null)).toBe("TN");
+    });
+
+    it("should parse the state from the last scan location", () => {
+      expect(getScanState(createTrackingResult({ lastScanLocation: "Memphis, TN, US" }), null)).toBe("TN");
+      expect(getScanState(createTrackingResult({ lastScanLocation: "Memphis, TN" }), null)).toBe("TN");
+      expect(getScanState(null, "Toronto, ON, CA")).toBe("ON");
+    });
+
+    it("should return null without a state", () => {
+      expect(getScanState(createTrackingResult({ lastScanLocation: "Memphis, US" }), null)).toBeNull();
+      expect(getScanState(createTrackingResult({ lastScanLocation: null }), null)).toBeNull();
+    });
+  });
+
+  describe("getLaneHistory", () => {
+    it("should count recent shipments and problems on the lane", async () => {
+      vi.mocked(prisma.shipment.count).mockResolvedValueOnce(40).mockResolvedValueOnce(6);
+
+      const history = await getLaneHistory("merchant-1", "UPS", "CA", "location-1", "shipment-1", NOW);
+
+      expect(history).toEqual({ shipments: 40, problems: 6 });
+      const lane = {
+        merchantId: "merchant-1",
+        carrier: "UPS",
+        id: { not: "shipment-1" },
+        shipDate: { gte: new Date("2025-11-06T12:00:00Z") },
+        shippingAddress: { path: ["provinceCode"], equals: "CA" },
+        fulfillmentLocationId: "location-1",
+      };
+      expect(prisma.shipment.count).toHaveBeenNthCalledWith(1, { where: lane });
+      expect(prisma.shipment.count).toHaveBeenNthCalledWith(2, {
+        where: {
+          ...lane,
+          OR: [{ carrierExceptionCode: { not: null } }, { delayFlaggedAt: { not: null } }],
+        },
+      });
+    });
+
+    it("should match any origin without a fulfillment location", async () => {
+      vi.mocked(prisma.shipment.count).mockResolvedValue(0);
+
+      await getLaneHistory("merchant-1", "UPS", "CA", null, "shipment-1", NOW);
+
+      expect(vi.mocked(prisma.shipment.count).mock.calls[0][0]?.where).not.toHaveProperty(
+        "fulfillmentLocationId"
+      );
+    });
+  });
+
+  describe("scoreDelayRisk", () => {
+    const shipment = {
+      id: "shipment-1",
+      merchantId: "merchant-1",
+      shippingAddress: { city: "Los Angeles", provinceCode: "CA", countryCode: "US" },
+      fulfillmentLocationId: null,
+      lastScanLocation: "Louisville, KY",
+    };
+
+    it("should score with the destination state and lane history", async () => {
+      vi.mocked(prisma.shipment.count).mockResolvedValueOnce(10).mockResolvedValueOnce(5);
+
+      const result = await scoreDelayRisk(
+        shipment,
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-05") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        undefined,
+        NOW
+      );
+
+      expect(result?.factors.map((factor) => factor.code)).toEqual([
+        "OUTSIDE_DESTINATION",
+        "LANE_EXCEPTIONS",
+        "DEADLINE_NEAR",
+      ]);
+      expect(result?.score).toBe(53);
+    });
+
+    it("should skip lane history outside the US and Canada", async () => {
+      const result = await scoreDelayRisk(
+        { ...shipment, shippingAddress: { provinceCode: "NSW", countryCode: "AU" } },
+        createShipmentData(),
+        createTrackingResult(),
+        createDelayResult({ expectedDeliveryDate: utcDate("2026-02-05") }),
+        DEFAULT_MERCHANT_SETTINGS,
+        undefined,
+        NOW
+      );
+
+      expect(prisma.shipment.count).not.toHaveBeenCalled();
+      expect(result?.factors.map((factor) => factor.code)).toEqual(["DEADLINE_NEAR"]);
+    });
+  });
+
+  describe("getRiskUpdateFields", () => {
+    it("should store the score and factors", () => {
+      const factors = [{ code: "DEADLINE_NEAR" as const, points: 15, description: "Due today" }];
+
+      expect(getRiskUpdateFields({ score: 15, level: "LOW", factors }, NOW)).toEqual({
+        riskScore: 15,
+        riskFactors: factors,
+        riskScoredAt: NOW,
+      });
+    });
+
+    it("should clear the score for shipments that aren't scored", () => {
+      expect(getRiskUpdateFields(null, NOW)).toEqual({
+        riskScore: null,
+        riskFactors: Prisma.DbNull,
+        riskScoredAt: NOW,
+      });
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { enqueueNotificationJob } from "~/queue.server";
+import { MerchantSettingsSchema, type MerchantSettings } from "~/lib/validation";
+import { prepareNotification } from "../notification.service";
+import {
+  getDueAutoNotification,
+  queueAutoNotification,
+} from "../notification-automation.service";
+
+vi.mock("~/db.server", () => ({
+  prisma: {
+    shipment: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/queue.server", () => ({
+  enqueueNotificationJob: vi.fn(),
+}));
+
+vi.mock("../notification.service", () => ({
+  prepareNotification: vi.fn(),
+}));
+
+const NOW = new Date("2026-02-10T12:00:00Z");
+
+const settings = (autoNotifications: Record<string, unknown> = {}): MerchantSettings =>
+  MerchantSettingsSchema.parse({ autoNotifications: { enabled: true, ...autoNotifications } });
+
+const createShipment = (overrides: Record<string, unknown> = {}) => ({
+  id: "shipment-1",
+  merchantId: "merchant-1",
+  isDelayed: true,
+  daysDelayed: 1,
+  delayReason: "CARRIER_EXCEPTION",
+  exceptionCategory: "WEATHER",
+  carrier: "UPS",
+  orderValue: new Prisma.Decimal(80),
+  notificationSent: false,
+  autoNotifiedAt: null,
+  ...overrides,
+});
+
+const notification = {
+  scenario: "WEATHER" as const,
+  suggestedScenario: "WEATHER" as const,
+  locale: "en-US",
+  recipientEmail: "john@example.com",
+  subject: "Update on your order #1001",
+  body: "Your order is delayed",
+  htmlPreview: null,
+  recipientPhone: "+14155550123",
+  smsBody: "Order #1001 is delayed",
+  shipment: {
+    id: "shipment-1",
+    orderNumber: "#1001",
+    trackingNumber: "1Z999AA10123456784",
+    customerName: "John Smith",
+    customerEmail: "john@example.com",
+    carrier: "UPS",
+  },
+};
+
+describe("notification-automation.service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.mocked(prisma.shipment.findUnique).mockResolvedValue(createShipment() as never);
+    vi.mocked(prisma.shipment.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prepareNotification).mockResolvedValue(notification);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("queueAutoNotification", () => {
+    it("should do nothing when automation is off", async () => {
+      const result = await queueAutoNotification("shipment-1", MerchantSettingsSchema.parse({}), NOW);
+
+      expect(result).toEqual([]);
+      expect(prisma.shipment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should claim the shipment and queue its notification as automation", async () => {
+      const result = await queueAutoNotification("shipment-1", settings({ sendDelayHours: 2 }), NOW);
+
+      expect(result).toEqual(["EMAIL"]);
+      expect(prisma.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: "shipment-1", autoNotifiedAt: null },
+        data: { autoNotifiedAt: NOW },
+      });
+      expect(enqueueNotificationJob).toHaveBeenCalledWith(
+        "shipment-1",
+        {
+          channel: "EMAIL",
+          recipientEmail: "john@example.com",
+          subject: "Update on your order #1001",
+          body: "Your order is delayed",
+          sentBy: "automation",
+        },
+        { jobId: "auto-notify-shipment-1-EMAIL", delay: 2 * 60 * 60 * 1000 }
+      );
+    });
+
+    it("should queue SMS only for customers with a valid phone number", async () => {
+      const result = await queueAutoNotification("shipment-1", settings({ channels: ["EMAIL", "SMS"] }), NOW);
+
+      expect(result).toEqual(["EMAIL", "SMS"]);
+      expect(enqueueNotificationJob).toHaveBeenCalledWith(
+        "shipment-1",
+        {
+          channel: "SMS",
+          recipientPhone: "+14155550123",
+          body: "Order #1001 is delayed",
+          sentBy: "automation",
+        },
+        { jobId: "auto-notify-shipment-1-SMS", delay: 0 }
+      );
+
+      vi.mocked(prepareNotification).mockResolvedValue({ ...notification, recipientPhone: null });
+      vi.mocked(enqueueNotificationJob).mockClear();
+
+      expect(await queueAutoNotification("shipment-1", settings({ channels: ["SMS"] }), NOW)).toEqual([]);
+      expect(prisma.shipment.updateMany).toHaveBeenCalledTimes(1);
+      expect(enqueueNotificationJob).not.toHaveBeenCalled();
+    });
+
+    it("should skip shipments that don't match the rules", async () => {
+      expect(await queueAutoNotification("shipment-1", settings({ minDaysDelayed: 2 }), NOW)).toEqual([]);
+      expect(await queueAutoNotification("shipment-1", settings({ minOrderValue: 100 }), NOW)).toEqual([]);
+      expect(await queueAutoNotification("shipment-1", settings({ carriers: ["FEDEX"] }), NOW)).toEqual([]);
+
+      expect(prepareNotification).not.toHaveBeenCalled();
+      expect(enqueueNotificationJob).not.toHaveBeenCalled();
+    });
+
+    it("should not queue a second notification", async () => {
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(
+        createShipment({ autoNotifiedAt: new Date("2026-02-09T12:00:00Z") }) as never
+      );
+      expect(await queueAutoNotification("shipment-1", settings(), NOW)).toEqual([]);
+
+      // Another poll claimed the shipment first
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(createShipment() as never);
+      vi.mocked(prisma.shipment.updateMany).mockResolvedValue({ count: 0 });
+      expect(await queueAutoNotification("shipment-1", settings(), NOW)).toEqual([]);
+
+      expect(enqueueNotificationJob).not.toHaveBeenCalled();
+    });
+
+    it("should release the claim when the job can't be queued", async () => {
+      vi.mocked(enqueueNotificationJob).mockRejectedValue(new Error("Redis unavailable"));
+
+      await expect(queueAutoNotification("shipment-1", settings(), NOW)).rejects.toThrow(
+        "Redis unavailable"
+      );
+      expect(prisma.shipment.update).toHaveBeenCalledWith({
+        where: { id: "shipment-1" },
+        data: { autoNotifiedAt: null },
+      });
+    });
+  });
+
+  describe("getDueAutoNotification", () => {
+    const open = {
+      merchantId: "merchant-1",
+      isDelayed: true,
+      isDelivered: false,
+      isResolved: false,
+      isArchived: false,
+      notificationSent: false,
+      notificationLogs: [],
+    };
+    const emailJob = {
+      channel: "EMAIL" as const,
+      shipmentId: "shipment-1",
+      recipientEmail: "john@example.com",
+      subject: "Queued subject",
+      body: "Queued body",
+      sentBy: "automation",
+    };
+
+    it("should only send to shipments that are still delayed and open", async () => {
+      vi.mocked(prepareNotification).mockResolvedValue(notification);
+
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(open as never);
+      expect(await getDueAutoNotification(emailJob)).not.toBeNull();
+
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue({ ...open, isDelivered: true } as never);
+      expect(await getDueAutoNotification(emailJob)).toBeNull();
+
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue({ ...open, isResolved: true } as never);
+      expect(await getDueAutoNotification(emailJob)).toBeNull();
+
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(null);
+      expect(await getDueAutoNotification(emailJob)).toBeNull();
+    });
+
+    it("should not send once the merchant has notified the customer", async () => {
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue({
+        ...open,
+        notificationSent: true,
+        notificationLogs: [{ id: "log-1" }],
+      } as never);
+
+      expect(await getDueAutoNotification(emailJob)).toBeNull();
+      expect(prepareNotification).not.toHaveBeenCalled();
+    });
+
+    it("should still send after the automated notification on another channel", async () => {
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue({ ...open, notificationSent: true } as never);
+      vi.mocked(prepareNotification).mockResolvedValue(notification);
+
+      expect(
+        await getDueAutoNotification({
+          channel: "SMS",
+          shipmentId: "shipment-1",
+          recipientPhone: "+14155550123",
+          body: "Queued body",
+          sentBy: "automation",
+        })
+      ).toEqual({
+        channel: "SMS",
+        shipmentId: "shipment-1",
+        recipientPhone: "+14155550123",
+        body: "Order #1001 is delayed",
+        sentBy: "automation",
+      });
+    });
+
+    it("should render the message from the shipment's current data", async () => {
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(open as never);
+      vi.mocked(prepareNotification).mockResolvedValue(notification);
+
+      expect(await getDueAutoNotification(emailJob)).toEqual({
+        ...emailJob,
+        subject: "Update on your order #1001",
+        body: "Your order is delayed",
+      });
+      expect(prepareNotification).toHaveBeenCalledWith("shipment-1", "merchant-1");
+    });
+  });
+});
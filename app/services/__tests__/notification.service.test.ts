@@ -5,14 +5,18 @@ import { prisma } from "~/db.server";
 import {
   renderTemplate,
   validateTemplate,
+  validateRenderedMessage,
   buildTemplateContext,
   extractFirstName,
   formatCarrierName,
   getCarrierTrackingUrl,
   TEMPLATE_VARIABLES,
   REQUIRED_TEMPLATE_VARIABLES,
+  prepareNotification,
+  sendAndLogNotification,
   type TemplateContext,
 } from "../notification.service";
+import { countSmsSegments, validateNotificationTemplate } from "~/lib/notification-templates";
 
 // Mock Prisma
 vi.mock("~/db.server", () => ({
@@ -90,12 +94,22 @@ describe("notification.service", () => {
       expect(formatCarrierName("usps")).toBe("USPS");
     });
 
+    it("should format DHL", () => {
+      expect(formatCarrierName("DHL")).toBe("DHL Express");
+      expect(formatCarrierName("dhl")).toBe("DHL Express");
+    });
+
+    it("should format Canada Post and Purolator", () => {
+      expect(formatCarrierName("CANADA_POST")).toBe("Canada Post");
+      expect(formatCarrierName("PUROLATOR")).toBe("Purolator");
+    });
+
     it("should handle UNKNOWN carrier", () => {
       expect(formatCarrierName("UNKNOWN")).toBe("Unknown Carrier");
     });
 
     it("should return original for unknown carriers", () => {
-      expect(formatCarrierName("DHL")).toBe("DHL");
+      expect(formatCarrierName("ONTRAC")).toBe("ONTRAC");
     });
   });
 
@@ -149,6 +163,7 @@ describe("notification.service", () => {
       carrierStatus: "In Transit",
       trackingUrl: "https://www.ups.com/track?tracknum=1Z999AA10123456784",
       expectedDeliveryDate: "Monday, February 10, 2026",
+      delayReason: "weather delay",
       shopName: "Test Store",
     };
 
@@ -204,6 +219,11 @@ describe("notification.service", () => {
       expect(result).toBe("Expected: Monday, February 10, 2026");
     });
 
+    it("should replace {delay_reason}", () => {
+      const result = renderTemplate("Sorry for the {delay_reason}.", sampleContext);
+      expect(result).toBe("Sorry for the weather delay.");
+    });
+
     it("should replace {shop_name}", () => {
       const result = renderTemplate("Thanks, {shop_name}", sampleContext);
       expect(result).toBe("Thanks, Test Store");
@@ -235,6 +255,58 @@ describe("notification.service", () => {
       expect(result).toBe("");
     });
 
+    it("should render conditionals, helpers and line items", () => {
+      const context: TemplateContext = {
+        ...sampleContext,
+        lineItems: [
+          { title: "T-Shirt", variantTitle: "Large", quantity: 2 },
+          { title: "Mug", variantTitle: null, quantity: 1 },
+        ],
+        daysDelayed: 4,
+        discountCode: "",
+        deliveryDate: new Date("2026-02-10T12:00:00Z"),
+        locale: "en-US",
+      };
+      const template = `{#if days_delayed > 3}Sorry for the long wait.{/if}
+Arriving {expected_delivery_date | date: "short"}
+{#each line_items}- {quantity} x {title}
+{/each}{line_items}
+Code: {discount_code | default: "none"}`;
+
+      expect(renderTemplate(template, context)).toBe(`Sorry for the long wait.
+Arriving 2/10/2026
+- 2 x T-Shirt
+- 1 x Mug
+2 x T-Shirt (Large)
+1 x Mug
+Code: none`);
+    });
+
+    it("should render a missing delivery date as not available unless the template says otherwise", () => {
+      const context: TemplateContext = { ...sampleContext, deliveryDate: null };
+      expect(renderTemplate("Expected: {expected_delivery_date}", context)).toBe("Expected: Not available");
+      expect(
+        renderTemplate("{#if expected_delivery_date}Expected: {expected_delivery_date}{#else}Soon{/if}", context)
+      ).toBe("Soon");
+    });
+
+    it("should replace variables in templates that don't parse", () => {
+      const result = renderTemplate("Order {order_number} {#if", sampleContext);
+      expect(result).toBe("Order #1001 {#if");
+    });
+
+    it("should replace variables in templates that are too complex to render", () => {
+      const context: TemplateContext = {
+        ...sampleContext,
+        lineItems: Array.from({ length: 100 }, () => ({ title: "Mug", variantTitle: null, quantity: 1 })),
+      };
+      const template = "Order {order_number} " + "{#each line_items}".repeat(4) + "{/each}".repeat(4);
+
+      expect(renderTemplate(template, context)).toBe(
+        "Order #1001 " + "{#each line_items}".repeat(4) + "{/each}".repeat(4)
+      );
+    });
+
     it("should handle multiline templates", () => {
       const template = `Hi {customer_first_name},
 
@@ -292,6 +364,18 @@ Thanks,
       expect(result.isValid).toBe(false);
     });
 
+    it("should return invalid for templates with syntax errors", () => {
+      const result = validateTemplate("{order_number} {tracking_number} {#if shop_name}");
+      expect(result.isValid).toBe(false);
+      expect(result.missingVariables).toHaveLength(0);
+      expect(result.syntaxErrors[0].message).toBe("Unclosed {#if}: add {/if}");
+    });
+
+    it("should count required variables used inside blocks", () => {
+      const result = validateTemplate("{#if tracking_url}{order_number} {tracking_number}{/if}");
+      expect(result.isValid).toBe(true);
+    });
+
     it("should accept templates with extra variables", () => {
       const template =
         "Hi {customer_first_name}, order {order_number}, tracking {tracking_number}";
@@ -300,6 +384,79 @@ Thanks,
     });
   });
 
+  describe("validateNotificationTemplate", () => {
+    it("should accept a subject and a body with the required variables", () => {
+      const result = validateNotificationTemplate({
+        subject: "Order #{order_number}",
+        body: "Order {order_number} tracking: {tracking_number}",
+      });
+      expect(result).toEqual({ isValid: true, missingVariables: [] });
+    });
+
+    it("should flag an empty subject", () => {
+      const result = validateNotificationTemplate({
+        subject: "  ",
+        body: "Order {order_number} tracking: {tracking_number}",
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.subjectError).toBe("Subject is required");
+      expect(result.bodyError).toBeUndefined();
+    });
+
+    it("should flag a body missing required variables", () => {
+      const result = validateNotificationTemplate({
+        subject: "Your order",
+        body: "Order {order_number}",
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.bodyError).toBe("Body must include: {tracking_number}");
+      expect(result.missingVariables).toEqual(["{tracking_number}"]);
+    });
+
+    it("should flag syntax errors with their position", () => {
+      const result = validateNotificationTemplate({
+        subject: "Order {order_numbr}",
+        body: "Order {order_number}\nTracking: {tracking_number | upper: \"x\"} {shop}",
+      });
+      expect(result.subjectError).toBe('Line 1, column 7: Unknown variable "order_numbr"');
+      expect(result.bodyError).toBe("Line 2, column 30: upper doesn't take a value (and 1 more)");
+    });
+
+    it("should flag a body that is too long", () => {
+      const result = validateNotificationTemplate({
+        subject: "Your order",
+        body: `{order_number} {tracking_number} ${"x".repeat(10000)}`,
+      });
+      expect(result.bodyError).toBe("Body is too long (max 10,000 characters)");
+    });
+  });
+
+  describe("validateRenderedMessage", () => {
+    const shipment = { orderNumber: "#1001", trackingNumber: "1Z999AA10123456784" };
+
+    it("should accept a message with the order and tracking numbers", () => {
+      const result = validateRenderedMessage(
+        "Your order #1001 is delayed. Tracking Number: 1Z999AA10123456784",
+        shipment
+      );
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should accept variables left in the message", () => {
+      const result = validateRenderedMessage(
+        "Your order {order_number} is delayed. Tracking Number: 1Z999AA10123456784",
+        shipment
+      );
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should flag a message without the tracking number", () => {
+      const result = validateRenderedMessage("Your order #1001 is delayed.", shipment);
+      expect(result.isValid).toBe(false);
+      expect(result.missingVariables).toEqual(["{tracking_number}"]);
+    });
+  });
+
   describe("buildTemplateContext", () => {
     it("should build context from shipment data", () => {
       const shipment = {
@@ -325,6 +482,73 @@ Thanks,
       expect(context.shopName).toBe("Test Store");
     });
 
+    it("should format the delivery date and carrier name for a locale", () => {
+      const shipment = {
+        customerName: "Marie Tremblay",
+        orderNumber: "#1003",
+        trackingNumber: "1371134583769923",
+        carrier: "CANADA_POST",
+        currentStatus: "In Transit",
+        lastCarrierStatus: null,
+        expectedDeliveryDate: new Date("2026-02-10T12:00:00Z"),
+      };
+
+      const context = buildTemplateContext(shipment, "test-store.myshopify.com", "fr-CA");
+
+      expect(context.expectedDeliveryDate).toBe("mardi 10 février 2026");
+      expect(context.carrierName).toBe("Postes Canada");
+    });
+
+    it("should fill in order details for the richer variables", () => {
+      const context = buildTemplateContext(
+        {
+          customerName: "John Doe",
+          orderNumber: "#1001",
+          trackingNumber: "1Z999AA10123456784",
+          carrier: "UPS",
+          currentStatus: "In Transit",
+          lastCarrierStatus: null,
+          expectedDeliveryDate: null,
+          lineItems: [{ title: "T-Shirt", variantTitle: "Large", quantity: 2 }],
+          shippingAddress: { city: "Portland", countryCode: "US" },
+          daysDelayed: 3,
+          lastScanLocation: "Louisville, KY",
+          orderStatusUrl: "https://test-store.myshopify.com/orders/abc",
+        },
+        "test-store.myshopify.com",
+        "en-US",
+        "SORRY10"
+      );
+
+      expect(context.lineItems).toEqual([{ title: "T-Shirt", variantTitle: "Large", quantity: 2 }]);
+      expect(context.shippingCity).toBe("Portland");
+      expect(context.daysDelayed).toBe(3);
+      expect(context.lastScanLocation).toBe("Louisville, KY");
+      expect(context.discountCode).toBe("SORRY10");
+      expect(context.orderStatusUrl).toBe("https://test-store.myshopify.com/orders/abc");
+      expect(context.deliveryDate).toBeNull();
+    });
+
+    it("should ignore line items and addresses that aren't stored as expected", () => {
+      const context = buildTemplateContext(
+        {
+          customerName: "John Doe",
+          orderNumber: "#1001",
+          trackingNumber: "1Z999AA10123456784",
+          carrier: "UPS",
+          currentStatus: "In Transit",
+          lastCarrierStatus: null,
+          expectedDeliveryDate: null,
+          lineItems: { title: "T-Shirt" },
+          shippingAddress: null,
+        },
+        "test-store.myshopify.com"
+      );
+
+      expect(context.lineItems).toEqual([]);
+      expect(context.shippingCity).toBe("");
+    });
+
     it("should use currentStatus when lastCarrierStatus is null", () => {
       const shipment = {
         customerName: "Jane Smith",
@@ -379,6 +603,26 @@ Thanks,
       context = buildTemplateContext(shipment, "teststore.myshopify.com");
       expect(context.shopName).toBe("Teststore");
     });
+
+    it("should describe the delay from the exception category", () => {
+      const shipment = {
+        customerName: "Test User",
+        orderNumber: "#1004",
+        trackingNumber: "123",
+        carrier: "UPS",
+        currentStatus: "Exception",
+        lastCarrierStatus: null,
+        expectedDeliveryDate: null,
+      };
+
+      expect(
+        buildTemplateContext({ ...shipment, exceptionCategory: "WEATHER" }, "teststore.myshopify.com")
+          .delayReason
+      ).toBe("weather delay");
+      expect(buildTemplateContext(shipment, "teststore.myshopify.com").delayReason).toBe(
+        "shipping delay"
+      );
+    });
   });
 
   describe("TEMPLATE_VARIABLES constant", () => {
@@ -391,6 +635,7 @@ Thanks,
       expect(TEMPLATE_VARIABLES).toContain("{carrier_status}");
       expect(TEMPLATE_VARIABLES).toContain("{tracking_url}");
       expect(TEMPLATE_VARIABLES).toContain("{expected_delivery_date}");
+      expect(TEMPLATE_VARIABLES).toContain("{delay_reason}");
       expect(TEMPLATE_VARIABLES).toContain("{shop_name}");
     });
   });
@@ -443,4 +688,256 @@ Thank you for your patience!
       expect(result).toContain("Pioneer Feeders");
     });
   });
+
+  describe("prepareNotification", () => {
+    const createShipment = (overrides: Record<string, unknown> = {}) => ({
+      id: "shipment-1",
+      customerName: "John Doe",
+      customerEmail: "john@example.com",
+      orderNumber: "#1001",
+      trackingNumber: "1Z999AA10123456784",
+      carrier: "UPS",
+      currentStatus: "pending",
+      lastCarrierStatus: "In Transit",
+      expectedDeliveryDate: new Date("2026-02-10T12:00:00Z"),
+      riskScore: null,
+      isDelayed: true,
+      isDelivered: false,
+      merchant: { shopDomain: "pioneer-feeders.myshopify.com", settings: {} },
+      ...overrides,
+    });
+
+    it("should render the delay template for delayed shipments", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment());
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.recipientEmail).toBe("john@example.com");
+      expect(result?.body).toContain("is experiencing a slight delay");
+    });
+
+    it("should render the at-risk template for shipments at risk of a delay", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment({ riskScore: 60, isDelayed: false }));
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.body).toContain("may arrive later than expected");
+      expect(result?.body).toContain("Tracking Number: 1Z999AA10123456784");
+      expect(result?.scenario).toBe("AT_RISK");
+    });
+
+    it("should render the template of the shipment's delay reason", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment({ exceptionCategory: "WEATHER" }));
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.scenario).toBe("WEATHER");
+      expect(result?.suggestedScenario).toBe("WEATHER");
+      expect(result?.subject).toBe("Weather is delaying your order ##1001");
+    });
+
+    it("should render the rescheduled template with the new delivery date", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(
+        createShipment({ rescheduledDeliveryDate: new Date("2026-02-14T12:00:00Z") })
+      );
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.scenario).toBe("RESCHEDULED");
+      expect(result?.body).toContain("New Expected Delivery: Saturday, February 14, 2026");
+    });
+
+    it("should render the scenario the merchant chose instead of the suggested one", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment({ exceptionCategory: "WEATHER" }));
+
+      const result = await prepareNotification("shipment-1", "merchant-1", "LOST");
+
+      expect(result?.scenario).toBe("LOST");
+      expect(result?.suggestedScenario).toBe("WEATHER");
+      expect(result?.body).toContain("can't currently locate the package");
+    });
+
+    it("should return null when the shipment isn't found", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(null);
+
+      expect(await prepareNotification("missing", "merchant-1")).toBeNull();
+    });
+  });
+
+  describe("prepareNotification translations", () => {
+    const frenchSettings = {
+      templateTranslations: {
+        fr: {
+          templates: {
+            DELAY: {
+              subject: "Mise à jour de votre commande {order_number}",
+              body: "Livraison prévue : {expected_delivery_date} ({carrier_name}, {tracking_number})",
+            },
+          },
+          smsBody: "{shop_name} : commande {order_number} retardée",
+        },
+      },
+    };
+    const createShipment = (customerLocale: string | null) => ({
+      id: "shipment-1",
+      customerName: "Marie Tremblay",
+      customerEmail: "marie@example.com",
+      customerLocale,
+      orderNumber: "#1001",
+      trackingNumber: "1371134583769923",
+      carrier: "CANADA_POST",
+      currentStatus: "pending",
+      lastCarrierStatus: "In Transit",
+      expectedDeliveryDate: new Date("2026-02-10T12:00:00Z"),
+      riskScore: null,
+      isDelayed: true,
+      isDelivered: false,
+      merchant: { shopDomain: "pioneer-feeders.myshopify.com", settings: frenchSettings },
+    });
+
+    it("should render the language's translation for a regional locale", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment("fr-CA"));
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.locale).toBe("fr-CA");
+      expect(result?.subject).toBe("Mise à jour de votre commande #1001");
+      expect(result?.body).toBe(
+        "Livraison prévue : mardi 10 février 2026 (Postes Canada, 1371134583769923)"
+      );
+      expect(result?.smsBody).toBe("Pioneer Feeders : commande #1001 retardée");
+    });
+
+    it("should fall back to the original template when a scenario isn't translated", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment("fr-CA"));
+
+      const result = await prepareNotification("shipment-1", "merchant-1", "LOST");
+
+      expect(result?.locale).toBe("en-US");
+      expect(result?.body).toContain("can't currently locate the package");
+      expect(result?.body).toContain("Canada Post");
+    });
+
+    it("should use the original templates for customers without a locale", async () => {
+      _mockShipmentFindFirst.mockResolvedValue(createShipment(null));
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.locale).toBe("en-US");
+      expect(result?.body).toContain("is experiencing a slight delay");
+    });
+  });
+
+  describe("prepareNotification SMS", () => {
+    it("should normalize the customer's phone with the shipping country and render the SMS template", async () => {
+      _mockShipmentFindFirst.mockResolvedValue({
+        id: "shipment-1",
+        customerName: "John Doe",
+        customerEmail: "john@example.com",
+        customerPhone: "07911 123456",
+        shippingAddress: { countryCode: "GB" },
+        orderNumber: "#1001",
+        trackingNumber: "1Z999AA10123456784",
+        carrier: "UPS",
+        currentStatus: "pending",
+        lastCarrierStatus: "In Transit",
+        expectedDeliveryDate: new Date("2026-02-10T12:00:00Z"),
+        riskScore: null,
+        isDelayed: true,
+        isDelivered: false,
+        merchant: {
+          shopDomain: "pioneer-feeders.myshopify.com",
+          settings: { smsTemplate: { body: "{shop_name}: order {order_number} is delayed" } },
+        },
+      });
+
+      const result = await prepareNotification("shipment-1", "merchant-1");
+
+      expect(result?.recipientPhone).toBe("+447911123456");
+      expect(result?.smsBody).toBe("Pioneer Feeders: order #1001 is delayed");
+    });
+  });
+
+  describe("countSmsSegments", () => {
+    it("should count GSM-7 messages in 160/153 character segments", () => {
+      expect(countSmsSegments("")).toBe(0);
+      expect(countSmsSegments("a".repeat(160))).toBe(1);
+      expect(countSmsSegments("a".repeat(161))).toBe(2);
+      expect(countSmsSegments("a".repeat(306))).toBe(2);
+      expect(countSmsSegments("a".repeat(307))).toBe(3);
+    });
+
+    it("should count extension characters twice", () => {
+      expect(countSmsSegments("{".repeat(80))).toBe(1);
+      expect(countSmsSegments("{".repeat(81))).toBe(2);
+    });
+
+    it("should count other characters as UCS-2 in 70/67 character segments", () => {
+      expect(countSmsSegments("ł".repeat(70))).toBe(1);
+      expect(countSmsSegments("ł".repeat(71))).toBe(2);
+    });
+  });
+
+  describe("sendAndLogNotification", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      _mockShipmentFindUnique.mockResolvedValue({
+        id: "shipment-1",
+        merchantId: "merchant-1",
+        merchant: { settings: {} },
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should log SMS notifications with the recipient phone and no subject", async () => {
+      const result = await sendAndLogNotification({
+        shipmentId: "shipment-1",
+        sentBy: "user-1",
+        channel: "SMS",
+        recipientPhone: "+14155550123",
+        body: "Your order is delayed",
+      });
+
+      expect(result.success).toBe(true);
+      expect(_mockNotificationLogCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          channel: "SMS",
+          recipientPhone: "+14155550123",
+          recipientEmail: null,
+          emailSubject: null,
+          emailBodyPreview: "Your order is delayed",
+          status: "SENT",
+        }),
+      });
+      expect(_mockShipmentUpdate).toHaveBeenCalled();
+    });
+
+    it("should log email notifications that fail to send", async () => {
+      delete process.env.RESEND_API_KEY;
+
+      const result = await sendAndLogNotification({
+        shipmentId: "shipment-1",
+        sentBy: "user-1",
+        recipientEmail: "john@example.com",
+        subject: "Order #1001 delayed",
+        body: "Your order is delayed",
+      });
+
+      expect(result.success).toBe(false);
+      expect(_mockNotificationLogCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          channel: "EMAIL",
+          recipientEmail: "john@example.com",
+          recipientPhone: null,
+          emailSubject: "Order #1001 delayed",
+          status: "FAILED",
+        }),
+      });
+      expect(_mockShipmentUpdate).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -12,6 +12,10 @@ import {
   scheduleNextPoll,
   markShipmentHasCarrierScan,
   archiveOldDeliveredShipments,
+  getPackageTrackingNumbers,
+  rollUpPackages,
+  hasInvalidCheckDigit,
+  type PackageRollupInput,
 } from "../shipment.service";
 
 // Mock Prisma
@@ -104,6 +108,7 @@ describe("shipment.service", () => {
       shippingAddress: {},
       shipDate: new Date("2026-02-04T15:00:00Z"),
       currentStatus: "pending",
+      trackingStatus: "LABEL_CREATED",
       isDelayed: false,
       isDelivered: false,
       isArchived: false,
@@ -184,6 +189,50 @@ describe("shipment.service", () => {
       });
     });
 
+    it("should seed the tracking status from Shopify's shipment status", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue({
+        ...mockCreatedShipment,
+        trackingStatus: "IN_TRANSIT",
+      });
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: { ...mockFulfillment, shipment_status: "in_transit" },
+        order: mockOrder,
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          trackingStatus: "IN_TRANSIT",
+        }),
+      });
+    });
+
+    it("should flag a tracking number that fails its check digit and not poll it", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue({
+        ...mockCreatedShipment,
+        trackingNumberInvalid: true,
+      });
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: { ...mockFulfillment, tracking_number: "1Z999AA10123456785" },
+        order: mockOrder,
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          carrier: "UPS",
+          trackingNumberInvalid: true,
+          nextPollAt: null,
+        }),
+      });
+    });
+
     it("should set carrier to UNKNOWN when tracking number is missing", async () => {
       mockFindUnique.mockResolvedValue(null);
       mockCreate.mockResolvedValue({
@@ -256,6 +305,66 @@ describe("shipment.service", () => {
       });
     });
 
+    it("should store the order's customer locale in canonical form", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue(mockCreatedShipment);
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: mockFulfillment,
+        order: { ...mockOrder, customer_locale: "fr-ca" },
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ customerLocale: "fr-CA" }),
+      });
+    });
+
+    it("should leave the customer locale empty when the order has none", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue(mockCreatedShipment);
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: mockFulfillment,
+        order: mockOrder,
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ customerLocale: null }),
+      });
+    });
+
+    it("should store the fulfilled items and order status page for notifications", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue(mockCreatedShipment);
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: {
+          ...mockFulfillment,
+          line_items: [
+            { id: 1, title: "T-Shirt", variant_title: "Large", quantity: 2 },
+            { id: 2, title: "Mug", variant_title: "", quantity: 1 },
+          ],
+        },
+        order: { ...mockOrder, order_status_url: "https://test-store.myshopify.com/orders/abc" },
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          lineItems: [
+            { title: "T-Shirt", variantTitle: "Large", quantity: 2 },
+            { title: "Mug", variantTitle: null, quantity: 1 },
+          ],
+          orderStatusUrl: "https://test-store.myshopify.com/orders/abc",
+        }),
+      });
+    });
+
     it("should use tracking_numbers array when tracking_number is null", async () => {
       mockFindUnique.mockResolvedValue(null);
       mockFindFirst.mockResolvedValue(null);
@@ -280,6 +389,47 @@ describe("shipment.service", () => {
       });
     });
 
+    it("should create a package per tracking number for multi-package fulfillments", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue(mockCreatedShipment);
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: {
+          ...mockFulfillment,
+          tracking_numbers: ["1Z999AA10123456784", "1Z999AA10123456785"],
+        },
+        order: mockOrder,
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          trackingNumber: "1Z999AA10123456784",
+          packages: {
+            create: [
+              { trackingNumber: "1Z999AA10123456784", carrier: "UPS" },
+              { trackingNumber: "1Z999AA10123456785", carrier: "UPS" },
+            ],
+          },
+        }),
+      });
+    });
+
+    it("should not create packages for single-package fulfillments", async () => {
+      mockFindUnique.mockResolvedValue(null);
+      mockFindFirst.mockResolvedValue(null);
+      mockCreate.mockResolvedValue(mockCreatedShipment);
+
+      await createShipmentFromFulfillment({
+        merchantId: "merchant-456",
+        fulfillment: { ...mockFulfillment, tracking_numbers: ["1Z999AA10123456784"] },
+        order: mockOrder,
+      });
+
+      expect(mockCreate.mock.calls[0][0].data).not.toHaveProperty("packages");
+    });
+
     it("should normalize service level", async () => {
       mockFindUnique.mockResolvedValue(null);
       mockFindFirst.mockResolvedValue(null);
@@ -331,8 +481,11 @@ describe("shipment.service", () => {
       carrier: "UNKNOWN",
       serviceLevel: null,
       currentStatus: "pending",
+      trackingStatus: "LABEL_CREATED",
       nextPollAt: null,
       pollErrorCount: 0,
+      trackingNumberInvalid: false,
+      packages: [] as Array<{ trackingNumber: string }>,
     };
 
     it("should return null if shipment does not exist", async () => {
@@ -390,6 +543,61 @@ describe("shipment.service", () => {
       });
     });
 
+    it("should start polling once a mistyped tracking number is corrected", async () => {
+      mockFindUnique.mockResolvedValue({
+        ...existingShipment,
+        trackingNumber: "1Z999AA10123456785",
+        carrier: "UPS",
+        trackingNumberInvalid: true,
+      });
+      mockUpdate.mockResolvedValue(existingShipment);
+
+      await updateShipmentFromFulfillment("merchant-456", mockFulfillment);
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: "shipment-123" },
+        data: expect.objectContaining({
+          trackingNumber: "1Z999AA10123456784",
+          trackingNumberInvalid: false,
+          nextPollAt: new Date("2026-02-05T12:30:00Z"),
+        }),
+      });
+    });
+
+    it("should add and remove packages when tracking numbers change", async () => {
+      const multiPackageShipment = {
+        ...existingShipment,
+        trackingNumber: "1Z999AA10123456784",
+        carrier: "UPS",
+        nextPollAt: new Date("2026-02-05T14:00:00Z"),
+        packages: [
+          { trackingNumber: "1Z999AA10123456784" },
+          { trackingNumber: "1Z999AA10123456785" },
+        ],
+      };
+      mockFindUnique.mockResolvedValue(multiPackageShipment);
+      mockUpdate.mockResolvedValue(multiPackageShipment);
+
+      await updateShipmentFromFulfillment("merchant-456", {
+        ...mockFulfillment,
+        tracking_company: undefined,
+        tracking_numbers: ["1Z999AA10123456784", "1Z999AA10123456786"],
+      });
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        where: { id: "shipment-123" },
+        data: expect.objectContaining({
+          isDelivered: false,
+          packages: {
+            deleteMany: {
+              trackingNumber: { notIn: ["1Z999AA10123456784", "1Z999AA10123456786"] },
+            },
+            create: [{ trackingNumber: "1Z999AA10123456786", carrier: "UPS" }],
+          },
+        }),
+      });
+    });
+
     it("should not update if no tracking changes", async () => {
       const shipmentWithTracking = {
         ...existingShipment,
@@ -549,4 +757,165 @@ describe("shipment.service", () => {
       });
     });
   });
+
+  describe("getPackageTrackingNumbers", () => {
+    it("should return no packages for a single tracking number", () => {
+      expect(getPackageTrackingNumbers(mockFulfillment)).toEqual([]);
+    });
+
+    it("should list the primary tracking number first without duplicates", () => {
+      expect(
+        getPackageTrackingNumbers({
+          ...mockFulfillment,
+          tracking_number: "1Z999AA10123456785",
+          tracking_numbers: ["1Z999AA10123456784", "1Z999AA10123456785"],
+        })
+      ).toEqual(["1Z999AA10123456785", "1Z999AA10123456784"]);
+    });
+  });
+
+  describe("hasInvalidCheckDigit", () => {
+    it("should check the number against the given carrier's formats", () => {
+      expect(hasInvalidCheckDigit("UPS", "1Z999AA10123456785")).toBe(true);
+      expect(hasInvalidCheckDigit("UPS", "1Z999AA10123456784")).toBe(false);
+    });
+
+    it("should not flag numbers it cannot check", () => {
+      expect(hasInvalidCheckDigit("UNKNOWN", "1Z999AA10123456785")).toBe(false);
+      expect(hasInvalidCheckDigit("UPS", null)).toBe(false);
+      expect(hasInvalidCheckDigit("DHL", "1234567890")).toBe(false);
+    });
+  });
+
+  describe("rollUpPackages", () => {
+    function createPackage(overrides: Partial<PackageRollupInput> = {}): PackageRollupInput {
+      return {
+        currentStatus: "In Transit",
+        trackingStatus: "IN_TRANSIT",
+        lastCarrierStatus: "In Transit",
+        isDelayed: false,
+        daysDelayed: 0,
+        delaySeverity: null,
+        delayReason: null,
+        expectedDeliveryDate: new Date("2026-02-09T00:00:00Z"),
+        expectedDeliverySource: "CARRIER",
+        lastScanLocation: null,
+        lastScanTime: null,
+        carrierExceptionCode: null,
+        carrierExceptionReason: null,
+        exceptionCategory: null,
+        rescheduledDeliveryDate: null,
+        isDelivered: false,
+        deliveredAt: null,
+        ...overrides,
+      };
+    }
+
+    it("should be delayed when any undelivered package is delayed", () => {
+      const rollup = rollUpPackages([
+        createPackage(),
+        createPackage({
+          currentStatus: "Exception",
+          isDelayed: true,
+          daysDelayed: 2,
+          carrierExceptionReason: "Weather delay",
+          exceptionCategory: "WEATHER",
+        }),
+      ]);
+
+      expect(rollup.isDelayed).toBe(true);
+      expect(rollup.daysDelayed).toBe(2);
+      expect(rollup.currentStatus).toBe("Exception");
+      expect(rollup.carrierExceptionReason).toBe("Weather delay");
+      expect(rollup.exceptionCategory).toBe("WEATHER");
+      expect(rollup.isDelivered).toBe(false);
+    });
+
+    it("should take the highest severity and the most delayed package's reason", () => {
+      const rollup = rollUpPackages([
+        createPackage({
+          isDelayed: true,
+          daysDelayed: 3,
+          delaySeverity: "LOW",
+          delayReason: "PAST_EXPECTED_DELIVERY",
+        }),
+        createPackage({ isDelayed: true, daysDelayed: 1, delaySeverity: "CRITICAL", delayReason: "CARRIER_EXCEPTION" }),
+        createPackage({ delaySeverity: null }),
+      ]);
+
+      expect(rollup.delaySeverity).toBe("CRITICAL");
+      expect(rollup.delayReason).toBe("PAST_EXPECTED_DELIVERY");
+      expect(rollUpPackages([createPackage()]).delaySeverity).toBeNull();
+      expect(rollUpPackages([createPackage()]).delayReason).toBeNull();
+    });
+
+    it("should be delivered only when every package is delivered", () => {
+      const partial = rollUpPackages([
+        createPackage({ isDelivered: true, deliveredAt: new Date("2026-02-06T10:00:00Z") }),
+        createPackage(),
+      ]);
+      expect(partial.isDelivered).toBe(false);
+      expect(partial.deliveredAt).toBeNull();
+
+      const complete = rollUpPackages([
+        createPackage({ isDelivered: true, deliveredAt: new Date("2026-02-06T10:00:00Z") }),
+        createPackage({
+          currentStatus: "Delivered",
+          isDelivered: true,
+          deliveredAt: new Date("2026-02-07T15:00:00Z"),
+        }),
+      ]);
+      expect(complete.isDelivered).toBe(true);
+      expect(complete.deliveredAt).toEqual(new Date("2026-02-07T15:00:00Z"));
+      expect(complete.currentStatus).toBe("Delivered");
+    });
+
+    it("should report the problem package's tracking status over the lead package", () => {
+      const rollup = rollUpPackages([
+        createPackage({ trackingStatus: "OUT_FOR_DELIVERY" }),
+        createPackage({ trackingStatus: "DELIVERY_ATTEMPTED" }),
+      ]);
+
+      expect(rollup.trackingStatus).toBe("DELIVERY_ATTEMPTED");
+    });
+
+    it("should ignore delay flags on delivered packages", () => {
+      const rollup = rollUpPackages([
+        createPackage({ isDelivered: true, isDelayed: true, daysDelayed: 1 }),
+        createPackage(),
+      ]);
+
+      expect(rollup.isDelayed).toBe(false);
+      expect(rollup.daysDelayed).toBe(0);
+    });
+
+    it("should use the latest expected date of undelivered packages", () => {
+      const rollup = rollUpPackages([
+        createPackage({ expectedDeliveryDate: new Date("2026-02-12T00:00:00Z") }),
+        createPackage({ expectedDeliveryDate: new Date("2026-02-10T00:00:00Z") }),
+        createPackage({
+          isDelivered: true,
+          expectedDeliveryDate: new Date("2026-02-20T00:00:00Z"),
+        }),
+      ]);
+
+      expect(rollup.expectedDeliveryDate).toEqual(new Date("2026-02-12T00:00:00Z"));
+    });
+
+    it("should report the most recent scan across packages", () => {
+      const rollup = rollUpPackages([
+        createPackage({
+          lastScanLocation: "Chicago, IL",
+          lastScanTime: new Date("2026-02-05T08:00:00Z"),
+        }),
+        createPackage({
+          lastScanLocation: "Louisville, KY",
+          lastScanTime: new Date("2026-02-05T11:00:00Z"),
+        }),
+      ]);
+
+      expect(rollup.lastScanLocation).toBe("Louisville, KY");
+      expect(rollup.lastScanTime).toEqual(new Date("2026-02-05T11:00:00Z"));
+    });
+  });
 });
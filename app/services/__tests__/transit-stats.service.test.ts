@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { prisma } from "~/db.server";
+import { updateMerchantSettings } from "../merchant.service";
+import {
+  autoApplyDeliveryWindowSuggestions,
+  computeTransitStats,
+  getDestinationRegion,
+  getTransitTimeSummaries,
+} from "../transit-stats.service";
+import { DEFAULT_MERCHANT_SETTINGS, MerchantSettingsSchema } from "~/lib/validation";
+
+vi.mock("~/db.server", () => ({
+  prisma: {
+    shipment: {
+      findMany: vi.fn(),
+    },
+    transitTimeStat: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("../merchant.service", () => ({
+  updateMerchantSettings: vi.fn(),
+}));
+
+const NOW = new Date("2026-02-04T04:00:00Z");
+
+const merchant = {
+  id: "merchant-1",
+  timezone: "America/New_York",
+  settings: DEFAULT_MERCHANT_SETTINGS,
+};
+
+const createDeliveredShipment = (
+  id: string,
+  shipDate: string,
+  deliveredAt: string,
+  overrides: Record<string, unknown> = {}
+) => ({
+  id,
+  carrier: "UPS",
+  serviceLevel: "UPS Ground",
+  shippingAddress: { city: "Columbus", provinceCode: "OH", countryCode: "US" },
+  fulfillmentLocationId: "location-1",
+  fulfillmentLocationName: "Main Warehouse",
+  shipDate: new Date(shipDate),
+  deliveredAt: new Date(deliveredAt),
+  ...overrides,
+});
+
+const createStat = (overrides: Record<string, unknown> = {}) => ({
+  id: "stat-1",
+  merchantId: "merchant-1",
+  carrier: "UPS",
+  serviceLevel: "ups_ground",
+  originLocationId: "location-1",
+  originLocationName: "Main Warehouse",
+  destinationRegion: "US-OH",
+  sampleSize: 10,
+  p50Days: 3,
+  p75Days: 3,
+  p90Days: 4,
+  p95Days: 4,
+  transitDayCounts: { "3": 8, "4": 2 },
+  computedAt: NOW,
+  ...overrides,
+});
+
+describe("transit-stats.service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.transitTimeStat.deleteMany).mockReturnValue("delete" as never);
+    vi.mocked(prisma.transitTimeStat.createMany).mockReturnValue("create" as never);
+  });
+
+  describe("getDestinationRegion", () => {
+    it("should combine the country and state", () => {
+      expect(getDestinationRegion({ provinceCode: "oh", countryCode: "us" })).toBe("US-OH");
+      expect(getDestinationRegion({ province_code: "ON" })).toBe("ON");
+      expect(getDestinationRegion(null)).toBeNull();
+    });
+  });
+
+  describe("computeTransitStats", () => {
+    it("should count business days in transit by lane and replace stored stats", async () => {
+      vi.mocked(prisma.shipment.findMany).mockResolvedValueOnce([
+        // Monday to Wednesday: 2 days
+        createDeliveredShipment("s1", "2026-01-05T15:00:00Z", "2026-01-07T18:00:00Z"),
+        createDeliveredShipment("s2", "2026-01-05T15:00:00Z", "2026-01-07T20:00:00Z"),
+        // Monday to Friday: 4 days
+        createDeliveredShipment("s3", "2026-01-12T15:00:00Z", "2026-01-16T18:00:00Z"),
+        // Another destination
+        createDeliveredShipment("s4", "2026-01-12T15:00:00Z", "2026-01-13T18:00:00Z", {
+          shippingAddress: { provinceCode: "CA", countryCode: "US" },
+        }),
+        // No service level: skipped
+        createDeliveredShipment("s5", "2026-01-12T15:00:00Z", "2026-01-13T18:00:00Z", {
+          serviceLevel: null,
+        }),
+      ] as never);
+
+      const result = await computeTransitStats(merchant, NOW);
+
+      expect(result).toEqual({ shipmentsMeasured: 4, lanes: 2 });
+      expect(prisma.shipment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            merchantId: "merchant-1",
+            isDelivered: true,
+            isTestData: false,
+            deliveredAt: { not: null },
+            shipDate: { gte: new Date("2025-08-08T04:00:00Z") },
+          },
+        })
+      );
+      expect(prisma.transitTimeStat.deleteMany).toHaveBeenCalledWith({
+        where: { merchantId: "merchant-1" },
+      });
+      expect(prisma.transitTimeStat.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            carrier: "UPS",
+            serviceLevel: "ups_ground",
+            originLocationId: "location-1",
+            originLocationName: "Main Warehouse",
+            destinationRegion: "US-OH",
+            sampleSize: 3,
+            p50Days: 2,
+            p90Days: 4,
+            transitDayCounts: { "2": 2, "4": 1 },
+            computedAt: NOW,
+          }),
+          expect.objectContaining({
+            destinationRegion: "US-CA",
+            sampleSize: 1,
+            transitDayCounts: { "1": 1 },
+          }),
+        ],
+      });
+      expect(prisma.$transaction).toHaveBeenCalledWith(["delete", "create"]);
+    });
+
+    it("should read the delivery day in the destination's timezone", async () => {
+      vi.mocked(prisma.shipment.findMany).mockResolvedValueOnce([
+        // Delivered 7pm Tuesday in Los Angeles, Wednesday in UTC
+        createDeliveredShipment("s1", "2026-01-05T18:00:00Z", "2026-01-07T03:00:00Z", {
+          shippingAddress: { provinceCode: "CA", countryCode: "US" },
+        }),
+      ] as never);
+
+      await computeTransitStats(merchant, NOW);
+
+      expect(prisma.transitTimeStat.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ transitDayCounts: { "1": 1 } })],
+      });
+    });
+
+    it("should read shipments in batches", async () => {
+      const fullBatch = Array.from({ length: 1000 }, (_, i) =>
+        createDeliveredShipment(`s${String(i).padStart(4, "0")}`, "2026-01-05T15:00:00Z", "2026-01-07T18:00:00Z")
+      );
+      vi.mocked(prisma.shipment.findMany)
+        .mockResolvedValueOnce(fullBatch as never)
+        .mockResolvedValueOnce([] as never);
+
+      const result = await computeTransitStats(merchant, NOW);
+
+      expect(result.shipmentsMeasured).toBe(1000);
+      expect(prisma.shipment.findMany).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(prisma.shipment.findMany).mock.calls[1][0]?.where).toMatchObject({
+        id: { gt: "s0999" },
+      });
+    });
+  });
+
+  describe("getTransitTimeSummaries", () => {
+    it("should sum up lanes by service level", async () => {
+      vi.mocked(prisma.transitTimeStat.findMany).mockResolvedValueOnce([
+        createStat(),
+        createStat({
+          id: "stat-2",
+          destinationRegion: "US-CA",
+          sampleSize: 6,
+          p50Days: 5,
+          p90Days: 6,
+          transitDayCounts: { "5": 4, "6": 2 },
+        }),
+        createStat({ id: "stat-3", destinationRegion: "US-WA", sampleSize: 2, transitDayCounts: { "7": 2 } }),
+        createStat({
+          id: "stat-4",
+          carrier: "USPS",
+          serviceLevel: "usps_priority_mail",
+          sampleSize: 1,
+          transitDayCounts: { "2": 1 },
+        }),
+      ] as never);
+
+      const summaries = await getTransitTimeSummaries("merchant-1");
+
+      expect(summaries).toEqual([
+        {
+          serviceLevel: "ups_ground",
+          carrier: "UPS",
+          defaultDays: 5,
+          sampleSize: 18,
+          transitDayCounts: { "3": 8, "4": 2, "5": 4, "6": 2, "7": 2 },
+          lanes: [
+            {
+              originLocationName: "Main Warehouse",
+              destinationRegion: "US-CA",
+              sampleSize: 6,
+              p50Days: 5,
+              p90Days: 6,
+            },
+            {
+              originLocationName: "Main Warehouse",
+              destinationRegion: "US-OH",
+              sampleSize: 10,
+              p50Days: 3,
+              p90Days: 4,
+            },
+          ],
+          computedAt: NOW.toISOString(),
+        },
+        expect.objectContaining({ serviceLevel: "usps_priority_mail", defaultDays: 3, lanes: [] }),
+      ]);
+    });
+  });
+
+  describe("autoApplyDeliveryWindowSuggestions", () => {
+    const settings = MerchantSettingsSchema.parse({
+      deliveryWindows: { fedex_ground: 4 },
+      learnedDeliveryWindows: { minSamples: 10, autoApply: true },
+    });
+
+    it("should save suggested windows", async () => {
+      vi.mocked(prisma.transitTimeStat.findMany).mockResolvedValueOnce([createStat()] as never);
+
+      const applied = await autoApplyDeliveryWindowSuggestions("merchant-1", settings);
+
+      expect(applied.map((suggestion) => suggestion.suggestedDays)).toEqual([4]);
+      expect(updateMerchantSettings).toHaveBeenCalledWith("merchant-1", {
+        deliveryWindows: { fedex_ground: 4, ups_ground: 4 },
+      });
+    });
+
+    it("should leave settings alone without suggestions", async () => {
+      vi.mocked(prisma.transitTimeStat.findMany).mockResolvedValueOnce([
+        createStat({ sampleSize: 9 }),
+      ] as never);
+
+      expect(await autoApplyDeliveryWindowSuggestions("merchant-1", settings)).toEqual([]);
+      expect(updateMerchantSettings).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Carrier Credentials Service
+ *
+ * Stores merchants' own carrier API credentials ("bring your own account"),
+ * encrypted at rest, and turns them into CarrierAccounts for the carrier
+ * adapters. Merchants without stored credentials use the platform credentials
+ * from the environment.
+ */
+
+import { createHash } from "node:crypto";
+import type { Carrier } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { decryptSecret, encryptSecret } from "~/lib/encryption.server";
+import type { CarrierAccount } from "./carriers/carrier.interface";
+import { getCarrierAdapter } from "./carriers/carrier.service";
+import {
+  CARRIER_DEFINITIONS,
+  getCarrierDefinition,
+  type SupportedCarrier,
+} from "./carriers/carrier.registry";
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * Stored credentials for one carrier, without any secret values.
+ */
+export interface CarrierCredentialStatus {
+  carrier: SupportedCarrier;
+  configured: boolean;
+  /** Last characters of the first non-secret field, to tell accounts apart */
+  hint: string | null;
+  updatedAt: Date | null;
+  lastTestedAt: Date | null;
+  lastTestOk: boolean | null;
+}
+
+/**
+ * Result of saving carrier credentials
+ */
+export interface SaveCarrierCredentialsResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Result of a "test connection" request
+ */
+export interface CarrierConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Number of fingerprint hex characters in a CarrierAccount id.
+ */
+const ACCOUNT_FINGERPRINT_LENGTH = 12;
+
+/**
+ * Build the CarrierAccount for a merchant's credentials.
+ * The id includes a fingerprint of the credentials, so cached OAuth tokens
+ * are not reused after the merchant changes them.
+ */
+export function buildCarrierAccount(
+  merchantId: string,
+  credentials: Record<string, string>
+): CarrierAccount {
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify(Object.entries(credentials).sort(([a], [b]) => a.localeCompare(b))))
+    .digest("hex")
+    .slice(0, ACCOUNT_FINGERPRINT_LENGTH);
+
+  return { id: `${merchantId}:${fingerprint}`, credentials };
+}
+
+/**
+ * Keep only the carrier's credential fields, trimmed.
+ * Returns an error message when a field is missing.
+ */
+function normalizeCredentialValues(
+  carrier: SupportedCarrier,
+  values: Record<string, unknown>
+): { credentials: Record<string, string> } | { error: string } {
+  const definition = getCarrierDefinition(carrier)!;
+  const credentials: Record<string, string> = {};
+
+  for (const field of definition.credentialFields) {
+    const value = values[field.key];
+    if (typeof value !== "string" || value.trim() === "") {
+      return { error: `${definition.displayName} ${field.label} is required` };
+    }
+    credentials[field.key] = value.trim();
+  }
+
+  return { credentials };
+}
+
+/**
+ * Decrypt a stored credential record's values.
+ */
+function decryptCredentials(encryptedData: string): Record<string, string> {
+  return JSON.parse(decryptSecret(encryptedData)) as Record<string, string>;
+}
+
+/**
+ * Build the display hint for stored credentials.
+ */
+function buildHint(carrier: SupportedCarrier, credentials: Record<string, string>): string | null {
+  const definition = getCarrierDefinition(carrier)!;
+  const field = definition.credentialFields.find((candidate) => !candidate.secret);
+  const value = field ? credentials[field.key] : undefined;
+  return value ? `…${value.slice(-4)}` : null;
+}
+
+// ============================================================
+// Credential storage
+// ============================================================
+
+/**
+ * Save (or replace) a merchant's credentials for a carrier.
+ */
+export async function saveCarrierCredentials(
+  merchantId: string,
+  carrier: Carrier,
+  values: Record<string, unknown>
+): Promise<SaveCarrierCredentialsResult> {
+  const definition = getCarrierDefinition(carrier);
+  if (!definition) {
+    return { success: false, error: `Unsupported carrier "${carrier}"` };
+  }
+
+  const normalized = normalizeCredentialValues(definition.carrier, values);
+  if ("error" in normalized) {
+    return { success: false, error: normalized.error };
+  }
+
+  const encryptedData = encryptSecret(JSON.stringify(normalized.credentials));
+
+  await prisma.carrierCredential.upsert({
+    where: { merchantId_carrier: { merchantId, carrier: definition.carrier } },
+    create: { merchantId, carrier: definition.carrier, encryptedData },
+    update: { encryptedData, lastTestedAt: null, lastTestOk: null },
+  });
+
+  return { success: true };
+}
+
+/**
+ * Remove a merchant's credentials for a carrier, returning it to the
+ * platform credentials.
+ */
+export async function deleteCarrierCredentials(merchantId: string, carrier: Carrier): Promise<void> {
+  await prisma.carrierCredential.deleteMany({ where: { merchantId, carrier } });
+}
+
+/**
+ * Get the credential status of every supported carrier for a merchant.
+ * Never includes secret values.
+ */
+export async function getCarrierCredentialStatuses(
+  merchantId: string
+): Promise<CarrierCredentialStatus[]> {
+  const records = await prisma.carrierCredential.findMany({ where: { merchantId } });
+  const recordsByCarrier = new Map(records.map((record) => [record.carrier, record]));
+
+  return CARRIER_DEFINITIONS.map((definition) => {
+    const record = recordsByCarrier.get(definition.carrier);
+    if (!record) {
+      return {
+        carrier: definition.carrier,
+        configured: false,
+        hint: null,
+        updatedAt: null,
+        lastTestedAt: null,
+        lastTestOk: null,
+      };
+    }
+
+    let hint: string | null = null;
+    try {
+      hint = buildHint(definition.carrier, decryptCredentials(record.encryptedData));
+    } catch {
+      // Undecryptable credentials still show as configured so they can be replaced
+    }
+
+    return {
+      carrier: definition.carrier,
+      configured: true,
+      hint,
+      updatedAt: record.updatedAt,
+      lastTestedAt: record.lastTestedAt,
+      lastTestOk: record.lastTestOk,
+    };
+  });
+}
+
+/**
+ * Get a merchant's carrier accounts, keyed by carrier.
+ * Carriers without stored credentials (or whose credentials cannot be
+ * decrypted) are absent, so their requests use the platform credentials.
+ */
+export async function getCarrierAccounts(
+  merchantId: string
+): Promise<Map<Carrier, CarrierAccount>> {
+  const records = await prisma.carrierCredential.findMany({ where: { merchantId } });
+  const accounts = new Map<Carrier, CarrierAccount>();
+
+  for (const record of records) {
+    try {
+      accounts.set(record.carrier, buildCarrierAccount(merchantId, decryptCredentials(record.encryptedData)));
+    } catch (error) {
+      console.error(
+        `[CarrierCredentials] Could not decrypt ${record.carrier} credentials for merchant ${merchantId}, using platform credentials:`,
+        error
+      );
+    }
+  }
+
+  return accounts;
+}
+
+// ============================================================
+// Connection test
+// ============================================================
+
+/**
+ * Check carrier credentials by tracking the carrier's test tracking number.
+ *
+ * Tests the given values, or the merchant's stored credentials when no values
+ * are given (recording the outcome on the stored record). Unlike polling, a
+ * rejected account does not fall back to the platform credentials.
+ */
+export async function testCarrierConnection(
+  merchantId: string,
+  carrier: Carrier,
+  values?: Record<string, unknown>
+): Promise<CarrierConnectionTestResult> {
+  const definition = getCarrierDefinition(carrier);
+  const adapter = getCarrierAdapter(carrier);
+  if (!definition || !adapter) {
+    return { ok: false, message: `Unsupported carrier "${carrier}"` };
+  }
+
+  let credentials: Record<string, string>;
+  if (values) {
+    const normalized = normalizeCredentialValues(definition.carrier, values);
+    if ("error" in normalized) {
+      return { ok: false, message: normalized.error };
+    }
+    credentials = normalized.credentials;
+  } else {
+    const record = await prisma.carrierCredential.findUnique({
+      where: { merchantId_carrier: { merchantId, carrier: definition.carrier } },
+    });
+    if (!record) {
+      return { ok: false, message: `No ${definition.displayName} credentials saved` };
+    }
+    try {
+      credentials = decryptCredentials(record.encryptedData);
+    } catch {
+      return {
+        ok: false,
+        message: `Saved ${definition.displayName} credentials could not be read, please enter them again`,
+      };
+    }
+  }
+
+  const response = await adapter.track(
+    definition.testTrackingNumber,
+    buildCarrierAccount(merchantId, credentials)
+  );
+
+  let result: CarrierConnectionTestResult;
+  if (
+    response.success ||
+    response.error.code === "TRACKING_NOT_FOUND" ||
+    response.error.code === "INVALID_TRACKING_NUMBER"
+  ) {
+    // Any answer about the tracking number means the credentials were accepted
+    result = { ok: true, message: `Connected to ${definition.displayName}` };
+  } else if (response.error.code === "AUTH_FAILED") {
+    result = { ok: false, message: `${definition.displayName} rejected these credentials` };
+  } else {
+    result = {
+      ok: false,
+      message: `Could not reach ${definition.displayName}: ${response.error.message}`,
+    };
+  }
+
+  if (!values) {
+    await prisma.carrierCredential.update({
+      where: { merchantId_carrier: { merchantId, carrier: definition.carrier } },
+      data: { lastTestedAt: new Date(), lastTestOk: result.ok },
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Now import the adapter after mocks are set up
+const { CanadaPostAdapter, getCanadaPostAdapter } = await import("../canadapost.adapter");
+
+// Helper to build a Canada Post occurrence element
+function buildOccurrence(
+  eventId: string,
+  date: string,
+  time: string,
+  description: string,
+  site: string,
+  province: string
+): string {
+  return `
+    <occurrence>
+      <event-identifier>${eventId}</event-identifier>
+      <event-date>${date}</event-date>
+      <event-time>${time}</event-time>
+      <event-time-zone>EST</event-time-zone>
+      <event-description>${description}</event-description>
+      <signatory-name/>
+      <event-site>${site}</event-site>
+      <event-province>${province}</event-province>
+      <event-retail-location-id/>
+      <event-retail-name/>
+    </occurrence>`;
+}
+
+// Helper to build a Canada Post tracking-detail XML response
+function buildTrackingDetailXml(fields: string, occurrences: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tracking-detail xmlns="http://www.canadapost.ca/ws/track-v2">
+  <pin>1371134583769923</pin>
+  <active-exists>1</active-exists>
+  <archive-exists/>
+  ${fields}
+  <service-name>Expedited Parcels</service-name>
+  <significant-events>${occurrences.join("")}
+  </significant-events>
+</tracking-detail>`;
+}
+
+// Helper to build a Canada Post messages (error) XML response
+function buildMessagesXml(code: string, description: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<messages xmlns="http://www.canadapost.ca/ws/messages">
+  <message>
+    <code>${code}</code>
+    <description>${description}</description>
+  </message>
+</messages>`;
+}
+
+describe("CanadaPostAdapter", () => {
+  let adapter: InstanceType<typeof CanadaPostAdapter>;
+
+  const sampleInTransitXml = buildTrackingDetailXml(
+    "<expected-delivery-date>2026-02-10</expected-delivery-date>",
+    [
+      buildOccurrence("0174", "2026-02-06", "14:30:00", "Item processed", "MISSISSAUGA", "ON"),
+      buildOccurrence("0100", "2026-02-05", "17:00:00", "Item accepted at the Post Office", "TORONTO", "ON"),
+    ]
+  );
+
+  const sampleDeliveredXml = buildTrackingDetailXml(
+    "<expected-delivery-date>2026-02-10</expected-delivery-date>",
+    [
+      buildOccurrence("1496", "2026-02-09", "13:20:11", "Item successfully delivered", "OTTAWA", "ON"),
+      buildOccurrence("0500", "2026-02-09", "08:00:00", "Out for delivery", "OTTAWA", "ON"),
+    ]
+  );
+
+  const sampleExceptionXml = buildTrackingDetailXml(
+    `<expected-delivery-date>2026-02-10</expected-delivery-date>
+  <changed-expected-date>2026-02-12</changed-expected-date>
+  <changed-expected-delivery-reason>Delayed by weather</changed-expected-delivery-reason>`,
+    [
+      buildOccurrence("1415", "2026-02-08", "10:00:00", "Item delayed due to weather", "OTTAWA", "ON"),
+    ]
+  );
+
+  beforeEach(() => {
+    adapter = new CanadaPostAdapter();
+    vi.clearAllMocks();
+
+    // Setup environment variables
+    process.env.CANADA_POST_USERNAME = "test-user";
+    process.env.CANADA_POST_PASSWORD = "test-password";
+  });
+
+  afterEach(() => {
+    delete process.env.CANADA_POST_USERNAME;
+    delete process.env.CANADA_POST_PASSWORD;
+  });
+
+  describe("track", () => {
+    it("should track a package successfully", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleInTransitXml,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.trackingNumber).toBe("1371134583769923");
+        expect(result.data.carrier).toBe("CANADA_POST");
+        expect(result.data.currentStatus).toBe("Item processed");
+        expect(result.data.status).toBe("IN_TRANSIT");
+        expect(result.data.isDelivered).toBe(false);
+        expect(result.data.isException).toBe(false);
+        expect(result.data.events).toHaveLength(2);
+        expect(result.data.events[0].type).toBe("0174");
+        expect(result.data.lastScanLocation).toBe("MISSISSAUGA, ON");
+        expect(result.data.expectedDeliveryDate).toEqual(new Date("2026-02-10"));
+        expect(result.data.rescheduledDeliveryDate).toBeNull();
+      }
+    });
+
+    it("should call the PIN detail endpoint with basic auth", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleInTransitXml,
+      });
+
+      await adapter.track("1371134583769923");
+
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://soa-gw.canadapost.ca/vis/track/pin/1371134583769923/detail");
+      expect(options.headers.Authorization).toBe(
+        `Basic ${Buffer.from("test-user:test-password").toString("base64")}`
+      );
+      expect(options.headers.Accept).toBe("application/vnd.cpc.track-v2+xml");
+    });
+
+    it("should detect delivered status from event identifier", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleDeliveredXml,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isDelivered).toBe(true);
+        expect(result.data.currentStatus).toBe("Item successfully delivered");
+        expect(result.data.status).toBe("DELIVERED");
+        expect(result.data.deliveredAt).toEqual(result.data.events[0].timestamp);
+      }
+    });
+
+    it("should detect exception status and changed expected date", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleExceptionXml,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isException).toBe(true);
+        expect(result.data.exceptionCode).toBe("1415");
+        expect(result.data.exceptionReason).toBe("Delayed by weather");
+        expect(result.data.exceptionCategory).toBe("WEATHER");
+        expect(result.data.rescheduledDeliveryDate).toEqual(new Date("2026-02-12"));
+      }
+    });
+
+    it("should handle empty significant events", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          `<tracking-detail xmlns="http://www.canadapost.ca/ws/track-v2"><pin>1371134583769923</pin><significant-events/></tracking-detail>`,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.events).toHaveLength(0);
+        expect(result.data.currentStatus).toBe("Unknown");
+      }
+    });
+
+    it("should handle tracking not found", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => buildMessagesXml("004", "No Pin History"),
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+        expect(result.error.message).toContain("No Pin History");
+        expect(result.error.retryable).toBe(false);
+      }
+    });
+
+    it("should handle rate limiting with retryable error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("RATE_LIMITED");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle auth failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+      }
+    });
+
+    it("should handle API errors with retryable flag for server errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("API_ERROR");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle missing credentials", async () => {
+      delete process.env.CANADA_POST_PASSWORD;
+
+      const result = await adapter.track("1371134583769923");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+        expect(result.error.retryable).toBe(false);
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getTrackingUrl", () => {
+    it("should return correct Canada Post tracking URL", () => {
+      const url = adapter.getTrackingUrl("1371134583769923");
+      expect(url).toBe(
+        "https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=1371134583769923"
+      );
+    });
+  });
+
+  describe("getCanadaPostAdapter singleton", () => {
+    it("should return the same instance", () => {
+      const adapter1 = getCanadaPostAdapter();
+      const adapter2 = getCanadaPostAdapter();
+      expect(adapter1).toBe(adapter2);
+    });
+
+    it("should return an instance with carrier CANADA_POST", () => {
+      const adapter = getCanadaPostAdapter();
+      expect(adapter.carrier).toBe("CANADA_POST");
+    });
+  });
+});
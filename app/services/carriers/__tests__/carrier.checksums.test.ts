@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  isValidFedexExpressCheckDigit,
+  isValidFedexGroundCheckDigit,
+  isValidMod10CheckDigit,
+  isValidS10CheckDigit,
+  isValidUpsCheckDigit,
+  isValidUspsCheckDigit,
+} from "../carrier.checksums";
+
+describe("carrier checksums", () => {
+  describe("isValidUpsCheckDigit", () => {
+    it("should accept valid 1Z numbers, including letters in the body", () => {
+      expect(isValidUpsCheckDigit("1Z999AA10123456784")).toBe(true);
+      expect(isValidUpsCheckDigit("1Z5R89390357567127")).toBe(true);
+      expect(isValidUpsCheckDigit("1ZXX3150YW44070023")).toBe(true);
+    });
+
+    it("should reject a mistyped digit", () => {
+      expect(isValidUpsCheckDigit("1Z999AA10123456785")).toBe(false);
+      expect(isValidUpsCheckDigit("1Z999AA10123465784")).toBe(false);
+    });
+
+    it("should reject a non-numeric check digit", () => {
+      expect(isValidUpsCheckDigit("1Z999AA1012345678X")).toBe(false);
+    });
+  });
+
+  describe("isValidFedexExpressCheckDigit", () => {
+    it("should accept valid 12-digit numbers", () => {
+      expect(isValidFedexExpressCheckDigit("986578788855")).toBe(true);
+      expect(isValidFedexExpressCheckDigit("477179081230")).toBe(true);
+    });
+
+    it("should reject a mistyped digit", () => {
+      expect(isValidFedexExpressCheckDigit("986578788856")).toBe(false);
+    });
+  });
+
+  describe("isValidFedexGroundCheckDigit", () => {
+    it("should accept valid 15-digit Ground numbers", () => {
+      expect(isValidFedexGroundCheckDigit("041441760228964")).toBe(true);
+    });
+
+    it("should check the trailing Ground number of a 22-digit 96 barcode", () => {
+      expect(isValidFedexGroundCheckDigit("9611020987654312345672")).toBe(true);
+      expect(isValidFedexGroundCheckDigit("9611020987654312345673")).toBe(false);
+    });
+  });
+
+  describe("isValidUspsCheckDigit", () => {
+    it("should accept valid IMpb numbers", () => {
+      expect(isValidUspsCheckDigit("9400111899223033317619")).toBe(true);
+      expect(isValidUspsCheckDigit("92748931507708513018050063")).toBe(true);
+      expect(isValidUspsCheckDigit("03071790000523483741")).toBe(true);
+    });
+
+    it("should ignore a 420 ZIP routing prefix", () => {
+      expect(isValidUspsCheckDigit("420221539101026837331000039521")).toBe(true);
+    });
+
+    it("should reject transposed digits", () => {
+      expect(isValidUspsCheckDigit("9400111899223033317691")).toBe(false);
+    });
+  });
+
+  describe("isValidS10CheckDigit", () => {
+    it("should accept valid international numbers", () => {
+      expect(isValidS10CheckDigit("EE123456785US")).toBe(true);
+    });
+
+    it("should reject a mismatched check digit", () => {
+      expect(isValidS10CheckDigit("EE123456784US")).toBe(false);
+      expect(isValidS10CheckDigit("LM123456789CA")).toBe(false);
+    });
+  });
+
+  describe("isValidMod10CheckDigit", () => {
+    it("should reject non-digit input", () => {
+      expect(isValidMod10CheckDigit("12A4")).toBe(false);
+      expect(isValidMod10CheckDigit("")).toBe(false);
+    });
+  });
+});
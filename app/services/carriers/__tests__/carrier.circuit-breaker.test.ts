@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * In-memory stand-in for the Redis commands the breaker uses (expiry ignored)
+ */
+const store = new Map<string, string>();
+const mockRedis = {
+  get: vi.fn(async (key: string) => store.get(key) ?? null),
+  mget: vi.fn(async (...keys: string[]) => keys.map((key) => store.get(key) ?? null)),
+  set: vi.fn(async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes("NX") && store.has(key)) {
+      return null;
+    }
+    store.set(key, value);
+    return "OK";
+  }),
+  del: vi.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+  incr: vi.fn(async (key: string) => {
+    const value = Number(store.get(key) ?? 0) + 1;
+    store.set(key, String(value));
+    return value;
+  }),
+  pexpire: vi.fn(async () => 1),
+};
+
+vi.mock("~/queue.server", () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+const {
+  CIRCUIT_BREAKER_CONFIG,
+  allowCarrierRequest,
+  getCarrierCircuitStatus,
+  getDegradedCarriers,
+  getRecentCarrierOutage,
+  isCarrierOutageResponse,
+  recordCarrierOutcome,
+} = await import("../carrier.circuit-breaker");
+
+const START = new Date("2026-02-04T12:00:00Z");
+
+function minutesAfterStart(minutes: number): Date {
+  return new Date(START.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Record enough failures in one window to open the circuit
+ */
+async function openCircuit(carrier: "UPS" | "FEDEX" = "UPS") {
+  for (let i = 0; i < CIRCUIT_BREAKER_CONFIG.minRequests; i++) {
+    await recordCarrierOutcome(carrier, true, false, START);
+  }
+}
+
+describe("carrier.circuit-breaker", () => {
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("isCarrierOutageResponse", () => {
+    it("should count network and retryable API errors as outage failures", () => {
+      const failure = (code: "NETWORK_ERROR" | "API_ERROR" | "TRACKING_NOT_FOUND", retryable: boolean) =>
+        ({ success: false, error: { code, message: "error", retryable } }) as const;
+
+      expect(isCarrierOutageResponse(failure("NETWORK_ERROR", true))).toBe(true);
+      expect(isCarrierOutageResponse(failure("API_ERROR", true))).toBe(true);
+      expect(isCarrierOutageResponse(failure("API_ERROR", false))).toBe(false);
+      expect(isCarrierOutageResponse(failure("TRACKING_NOT_FOUND", false))).toBe(false);
+    });
+  });
+
+  describe("opening", () => {
+    it("should stay closed below the minimum request count", async () => {
+      for (let i = 0; i < CIRCUIT_BREAKER_CONFIG.minRequests - 1; i++) {
+        await recordCarrierOutcome("UPS", true, false, START);
+      }
+
+      expect((await getCarrierCircuitStatus("UPS", START)).state).toBe("closed");
+      expect((await allowCarrierRequest("UPS", START)).allowed).toBe(true);
+    });
+
+    it("should stay closed while the error rate is under the threshold", async () => {
+      for (let i = 0; i < 30; i++) {
+        await recordCarrierOutcome("UPS", i % 3 === 0, false, START);
+      }
+
+      expect((await getCarrierCircuitStatus("UPS", START)).state).toBe("closed");
+    });
+
+    it("should open at the error-rate threshold and refuse requests", async () => {
+      await openCircuit();
+
+      const status = await getCarrierCircuitStatus("UPS", START);
+      expect(status.state).toBe("open");
+      expect(status.openedAt).toEqual(START);
+      expect((await allowCarrierRequest("UPS", minutesAfterStart(1))).allowed).toBe(false);
+      // Other carriers are unaffected
+      expect((await allowCarrierRequest("FEDEX", minutesAfterStart(1))).allowed).toBe(true);
+    });
+  });
+
+  describe("half-open probes", () => {
+    it("should let a single probe through after the cooldown", async () => {
+      await openCircuit();
+      const afterCooldown = minutesAfterStart(6);
+
+      expect((await getCarrierCircuitStatus("UPS", afterCooldown)).state).toBe("half_open");
+      expect(await allowCarrierRequest("UPS", afterCooldown)).toEqual({ allowed: true, probe: true });
+      expect(await allowCarrierRequest("UPS", afterCooldown)).toEqual({ allowed: false, probe: false });
+    });
+
+    it("should ignore outcomes of requests that aren't the probe", async () => {
+      await openCircuit();
+      const afterCooldown = minutesAfterStart(6);
+      await allowCarrierRequest("UPS", afterCooldown);
+
+      // A request sent before the circuit opened finishes while it is open
+      await recordCarrierOutcome("UPS", false, false, minutesAfterStart(1));
+      expect((await getCarrierCircuitStatus("UPS", minutesAfterStart(1))).state).toBe("open");
+
+      // A failure outside the probe neither restarts the cooldown nor frees the probe slot
+      await recordCarrierOutcome("UPS", true, false, afterCooldown);
+      expect((await getCarrierCircuitStatus("UPS", afterCooldown)).state).toBe("half_open");
+      expect((await allowCarrierRequest("UPS", afterCooldown)).allowed).toBe(false);
+    });
+
+    it("should close and remember the outage when a probe succeeds", async () => {
+      await openCircuit();
+      const recoveredAt = minutesAfterStart(30);
+      await allowCarrierRequest("UPS", recoveredAt);
+
+      await recordCarrierOutcome("UPS", false, true, recoveredAt);
+
+      expect((await getCarrierCircuitStatus("UPS", recoveredAt)).state).toBe("closed");
+      expect((await allowCarrierRequest("UPS", recoveredAt)).allowed).toBe(true);
+      expect(await getRecentCarrierOutage("UPS", recoveredAt)).toEqual({
+        startedAt: START,
+        endedAt: recoveredAt,
+      });
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        "carrier_circuit:ups:last_outage",
+        expect.any(String),
+        "PX",
+        30 * 60 * 1000
+      );
+    });
+
+    it("should restart the cooldown when a probe fails", async () => {
+      await openCircuit();
+      const probeAt = minutesAfterStart(6);
+      await allowCarrierRequest("UPS", probeAt);
+
+      await recordCarrierOutcome("UPS", true, true, probeAt);
+
+      const status = await getCarrierCircuitStatus("UPS", probeAt);
+      expect(status.state).toBe("open");
+      expect(status.openedAt).toEqual(START);
+      expect(status.retryAt).toEqual(new Date(probeAt.getTime() + CIRCUIT_BREAKER_CONFIG.cooldownMs));
+    });
+  });
+
+  describe("getDegradedCarriers", () => {
+    it("should list only carriers whose circuit is not closed", async () => {
+      await openCircuit("FEDEX");
+
+      const degraded = await getDegradedCarriers(minutesAfterStart(1));
+
+      expect(degraded).toEqual([
+        {
+          carrier: "FEDEX",
+          state: "open",
+          openedAt: START,
+          retryAt: new Date(START.getTime() + CIRCUIT_BREAKER_CONFIG.cooldownMs),
+        },
+      ]);
+    });
+  });
+
+  describe("getRecentCarrierOutage", () => {
+    it("should report an ongoing outage", async () => {
+      await openCircuit();
+
+      expect(await getRecentCarrierOutage("UPS", minutesAfterStart(1))).toEqual({
+        startedAt: START,
+        endedAt: null,
+      });
+      expect(await getRecentCarrierOutage("FEDEX", minutesAfterStart(1))).toBeNull();
+    });
+  });
+
+  describe("Redis failures", () => {
+    it("should allow requests when Redis is unavailable", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRedis.get.mockRejectedValueOnce(new Error("Connection refused"));
+
+      expect((await allowCarrierRequest("UPS", START)).allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockRedis = {
+  eval: vi.fn(),
+  scan: vi.fn(),
+  hmget: vi.fn(),
+};
+
+vi.mock("~/queue.server", () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+const {
+  acquireCarrierToken,
+  getAvailableTokens,
+  getCarrierRateLimit,
+  getCarrierRateLimitMetrics,
+  parseRateLimit,
+} = await import("../carrier.rate-limiter");
+
+describe("carrier.rate-limiter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.CARRIER_RATE_LIMIT_UPS;
+    vi.restoreAllMocks();
+  });
+
+  describe("parseRateLimit", () => {
+    it("should parse a rate with an optional burst", () => {
+      expect(parseRateLimit("10:20")).toEqual({ requestsPerSecond: 10, burst: 20 });
+      expect(parseRateLimit("2.5")).toEqual({ requestsPerSecond: 2.5, burst: 3 });
+      expect(parseRateLimit("0.2")).toEqual({ requestsPerSecond: 0.2, burst: 1 });
+    });
+
+    it("should reject malformed and non-positive values", () => {
+      expect(parseRateLimit("fast")).toBeNull();
+      expect(parseRateLimit("10:")).toBeNull();
+      expect(parseRateLimit("0")).toBeNull();
+      expect(parseRateLimit("5:0")).toBeNull();
+    });
+  });
+
+  describe("getCarrierRateLimit", () => {
+    it("should use the carrier definition by default", () => {
+      expect(getCarrierRateLimit("UPS")).toEqual({ requestsPerSecond: 10, burst: 20 });
+    });
+
+    it("should apply a valid environment override", () => {
+      process.env.CARRIER_RATE_LIMIT_UPS = "3:6";
+
+      expect(getCarrierRateLimit("UPS")).toEqual({ requestsPerSecond: 3, burst: 6 });
+    });
+
+    it("should ignore an invalid environment override", () => {
+      process.env.CARRIER_RATE_LIMIT_UPS = "lots";
+
+      expect(getCarrierRateLimit("UPS")).toEqual({ requestsPerSecond: 10, burst: 20 });
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe("getAvailableTokens", () => {
+    const limit = { requestsPerSecond: 10, burst: 20 };
+
+    it("should refill for the elapsed time up to the burst", () => {
+      expect(getAvailableTokens(limit, 0, 1_000, 1_500)).toBe(5);
+      expect(getAvailableTokens(limit, 15, 1_000, 61_000)).toBe(20);
+    });
+  });
+
+  describe("acquireCarrierToken", () => {
+    it("should take a token from the platform bucket", async () => {
+      mockRedis.eval.mockResolvedValue([1, 0]);
+
+      expect(await acquireCarrierToken("UPS")).toBe(true);
+      const args = mockRedis.eval.mock.calls[0];
+      expect(args[2]).toBe("carrier_rate:ups:platform");
+      expect(args[3]).toMatch(/^carrier_rate_stats:ups:platform:\d+$/);
+      expect(args.slice(4, 6)).toEqual([20, 0.01]);
+    });
+
+    it("should use a separate bucket per merchant carrier account", async () => {
+      mockRedis.eval.mockResolvedValue([1, 0]);
+
+      await acquireCarrierToken("UPS", "merchant-1:abc123");
+
+      expect(mockRedis.eval.mock.calls[0][2]).toBe("carrier_rate:ups:merchant-1:abc123");
+    });
+
+    it("should wait for the bucket to refill", async () => {
+      mockRedis.eval.mockResolvedValueOnce([0, 5]).mockResolvedValueOnce([1, 0]);
+
+      expect(await acquireCarrierToken("UPS")).toBe(true);
+      expect(mockRedis.eval).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up when no token is available within the wait limit", async () => {
+      mockRedis.eval.mockResolvedValue([0, 5_000]);
+
+      expect(await acquireCarrierToken("UPS", undefined, 1_000)).toBe(false);
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+    });
+
+    it("should allow requests when Redis is unavailable", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockRedis.eval.mockRejectedValue(new Error("Connection refused"));
+
+      expect(await acquireCarrierToken("UPS")).toBe(true);
+    });
+  });
+
+  describe("getCarrierRateLimitMetrics", () => {
+    it("should report utilization and last-window counts per bucket", async () => {
+      const now = new Date("2026-02-04T12:00:30Z");
+      mockRedis.scan.mockResolvedValue([
+        "0",
+        ["carrier_rate:ups:platform", "carrier_rate:usps:merchant-1:abc123"],
+      ]);
+      mockRedis.hmget.mockImplementation(async (key: string) => {
+        if (key === "carrier_rate:ups:platform") {
+          return ["5", String(now.getTime())];
+        }
+        if (key.startsWith("carrier_rate_stats:ups:platform:")) {
+          return ["120", "8"];
+        }
+        return [null, null];
+      });
+
+      const metrics = await getCarrierRateLimitMetrics(now);
+
+      expect(metrics).toEqual([
+        {
+          carrier: "UPS",
+          scope: "platform",
+          requestsPerSecond: 10,
+          burst: 20,
+          tokens: 5,
+          utilization: 0.75,
+          granted: 120,
+          refused: 8,
+        },
+        {
+          carrier: "USPS",
+          scope: "merchant-1:abc123",
+          requestsPerSecond: 5,
+          burst: 10,
+          tokens: 10,
+          utilization: 0,
+          granted: 0,
+          refused: 0,
+        },
+      ]);
+      expect(mockRedis.hmget).toHaveBeenCalledWith(
+        `carrier_rate_stats:ups:platform:${Math.floor(now.getTime() / 60_000) - 1}`,
+        "granted",
+        "refused"
+      );
+    });
+  });
+});
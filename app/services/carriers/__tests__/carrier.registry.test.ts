@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  CARRIER_DEFINITIONS,
+  CARRIER_REGISTRY,
+  SUPPORTED_CARRIERS,
+  buildCarrierTrackingUrl,
+  createCarrierRecord,
+  getCarrierDefinition,
+  getTrackingNumberPatterns,
+  isSupportedCarrier,
+} from "../carrier.registry";
+import { CARRIER_CONFIGS, resolveCarrierApiConfig } from "../carrier.types";
+import {
+  DEFAULT_CARRIER_WINDOWS,
+  DEFAULT_DELIVERY_WINDOWS,
+} from "../../delay-detection.service";
+
+describe("carrier registry", () => {
+  describe("definitions", () => {
+    it("should key every definition by its own carrier", () => {
+      for (const [carrier, definition] of Object.entries(CARRIER_REGISTRY)) {
+        expect(definition.carrier).toBe(carrier);
+      }
+    });
+
+    it("should include a {trackingNumber} placeholder in every tracking URL template", () => {
+      for (const definition of CARRIER_DEFINITIONS) {
+        expect(definition.trackingUrlTemplate).toContain("{trackingNumber}");
+      }
+    });
+
+    it("should not claim the same name alias for two carriers", () => {
+      const seen = new Map<string, string>();
+      for (const definition of CARRIER_DEFINITIONS) {
+        for (const alias of definition.nameAliases) {
+          expect(seen.get(alias) ?? definition.carrier).toBe(definition.carrier);
+          seen.set(alias, definition.carrier);
+        }
+      }
+    });
+
+    it("should map service level aliases to keys with a default window", () => {
+      for (const definition of CARRIER_DEFINITIONS) {
+        for (const key of Object.values(definition.serviceLevelAliases)) {
+          expect(key.startsWith(`${definition.carrier.toLowerCase()}_`)).toBe(true);
+        }
+        for (const key of Object.keys(definition.deliveryWindows)) {
+          expect(key.startsWith(`${definition.carrier.toLowerCase()}_`)).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe("lookups", () => {
+    it("should list supported carriers in registration order", () => {
+      expect(SUPPORTED_CARRIERS).toEqual(["UPS", "FEDEX", "USPS", "DHL", "CANADA_POST", "PUROLATOR"]);
+    });
+
+    it("should not treat UNKNOWN as supported", () => {
+      expect(isSupportedCarrier("UNKNOWN")).toBe(false);
+      expect(getCarrierDefinition("UNKNOWN")).toBeNull();
+    });
+
+    it("should look up definitions case-insensitively", () => {
+      expect(getCarrierDefinition("fedex")?.displayName).toBe("FedEx");
+      expect(getCarrierDefinition("Canada_Post")?.shortName).toBe("Canada Post");
+    });
+
+    it("should return null for unregistered carriers", () => {
+      expect(getCarrierDefinition("ONTRAC")).toBeNull();
+      expect(buildCarrierTrackingUrl("ONTRAC", "C10000000000000")).toBeNull();
+    });
+
+    it("should render tracking URLs with an encoded tracking number", () => {
+      expect(buildCarrierTrackingUrl("UPS", "1Z 999")).toBe("https://www.ups.com/track?tracknum=1Z%20999");
+    });
+
+    it("should create a record with an entry for every supported carrier", () => {
+      expect(createCarrierRecord(null)).toEqual({
+        UPS: null,
+        FEDEX: null,
+        USPS: null,
+        DHL: null,
+        CANADA_POST: null,
+        PUROLATOR: null,
+      });
+    });
+  });
+
+  describe("getTrackingNumberPatterns", () => {
+    it("should return every prefix pattern before any length pattern", () => {
+      const patterns = getTrackingNumberPatterns();
+      const lengthPatterns = new Set(
+        CARRIER_DEFINITIONS.flatMap((definition) =>
+          definition.trackingNumberPatterns
+            .filter((entry) => entry.specificity === "length")
+            .map((entry) => entry.pattern)
+        )
+      );
+
+      const firstLengthIndex = patterns.findIndex((entry) => lengthPatterns.has(entry.pattern));
+      expect(firstLengthIndex).toBeGreaterThan(0);
+      expect(
+        patterns.slice(firstLengthIndex).every((entry) => lengthPatterns.has(entry.pattern))
+      ).toBe(true);
+    });
+  });
+
+  describe("derived configuration", () => {
+    it("should build CARRIER_CONFIGS from definition API config", () => {
+      expect(CARRIER_CONFIGS.DHL.baseUrl).toBe(CARRIER_REGISTRY.DHL.api.baseUrl);
+      expect(CARRIER_CONFIGS.UPS.tokenUrl).toBe(CARRIER_REGISTRY.UPS.api.tokenUrl);
+    });
+
+    it("should point carriers at a mock carrier server", () => {
+      const env = { CARRIER_API_MOCK_URL: "http://localhost:4010/" };
+
+      expect(resolveCarrierApiConfig("UPS", CARRIER_REGISTRY.UPS.api, env)).toEqual({
+        baseUrl: "http://localhost:4010/ups",
+        tokenUrl: "http://localhost:4010/ups/oauth/token",
+      });
+      expect(resolveCarrierApiConfig("USPS", CARRIER_REGISTRY.USPS.api, env)).toEqual({
+        baseUrl: "http://localhost:4010/usps",
+      });
+    });
+
+    it("should let a per-carrier override win over the mock server", () => {
+      const env = {
+        CARRIER_API_MOCK_URL: "http://localhost:4010",
+        CARRIER_API_BASE_URL_FEDEX: "https://apis-sandbox.fedex.com",
+      };
+
+      expect(resolveCarrierApiConfig("FEDEX", CARRIER_REGISTRY.FEDEX.api, env)).toEqual({
+        baseUrl: "https://apis-sandbox.fedex.com",
+        tokenUrl: CARRIER_REGISTRY.FEDEX.api.tokenUrl,
+      });
+    });
+
+    it("should build default windows from definitions", () => {
+      expect(DEFAULT_CARRIER_WINDOWS.PUROLATOR).toBe(CARRIER_REGISTRY.PUROLATOR.defaultDeliveryWindow);
+      expect(DEFAULT_CARRIER_WINDOWS.UNKNOWN).toBe(7);
+      expect(DEFAULT_DELIVERY_WINDOWS.canada_post_xpresspost).toBe(2);
+      expect(DEFAULT_DELIVERY_WINDOWS.ground).toBe(5);
+    });
+  });
+});
@@ -1,13 +1,36 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import {
   detectCarrierFromCompany,
   detectCarrierFromTrackingNumber,
+  detectTrackingNumber,
   detectCarrier,
   normalizeServiceLevel,
   buildTrackingUrl,
   isValidTrackingNumber,
   extractServiceLevelFromCompany,
+  getCarrierBatchSize,
+  trackShipment,
+  trackShipmentsBatch,
 } from "../carrier.service";
+import { getFedexAdapter } from "../fedex.adapter";
+import { getUpsAdapter } from "../ups.adapter";
+import { allowCarrierRequest, recordCarrierOutcome } from "../carrier.circuit-breaker";
+import { acquireCarrierToken } from "../carrier.rate-limiter";
+import type * as CircuitBreaker from "../carrier.circuit-breaker";
+import type { CarrierTrackingResponse } from "../carrier.interface";
+import { FEDEX_MAX_BATCH_SIZE } from "../carrier.types";
+
+// Mock the circuit breaker's Redis-backed state
+vi.mock("../carrier.circuit-breaker", async (importOriginal) => ({
+  ...(await importOriginal<typeof CircuitBreaker>()),
+  allowCarrierRequest: vi.fn(async () => ({ allowed: true, probe: false })),
+  recordCarrierOutcome: vi.fn(async () => {}),
+}));
+
+// Mock the Redis-backed rate limiter
+vi.mock("../carrier.rate-limiter", () => ({
+  acquireCarrierToken: vi.fn(async () => true),
+}));
 
 describe("carrier.service", () => {
   describe("detectCarrierFromCompany", () => {
@@ -42,8 +65,25 @@ describe("carrier.service", () => {
       expect(detectCarrierFromCompany("US Postal Service")).toBe("USPS");
     });
 
+    it("should detect DHL from company name variations", () => {
+      expect(detectCarrierFromCompany("DHL")).toBe("DHL");
+      expect(detectCarrierFromCompany("dhl")).toBe("DHL");
+      expect(detectCarrierFromCompany("DHL Express")).toBe("DHL");
+      expect(detectCarrierFromCompany("DHL Express Worldwide")).toBe("DHL");
+    });
+
+    it("should detect Canada Post from company name variations", () => {
+      expect(detectCarrierFromCompany("Canada Post")).toBe("CANADA_POST");
+      expect(detectCarrierFromCompany("Postes Canada")).toBe("CANADA_POST");
+      expect(detectCarrierFromCompany("Canada Post Xpresspost")).toBe("CANADA_POST");
+    });
+
+    it("should detect Purolator from company name variations", () => {
+      expect(detectCarrierFromCompany("Purolator")).toBe("PUROLATOR");
+      expect(detectCarrierFromCompany("purolator express")).toBe("PUROLATOR");
+    });
+
     it("should return UNKNOWN for unrecognized carriers", () => {
-      expect(detectCarrierFromCompany("DHL")).toBe("UNKNOWN");
       expect(detectCarrierFromCompany("Amazon Logistics")).toBe("UNKNOWN");
       expect(detectCarrierFromCompany("OnTrac")).toBe("UNKNOWN");
     });
@@ -103,6 +143,38 @@ describe("carrier.service", () => {
       });
     });
 
+    describe("DHL tracking numbers", () => {
+      it("should detect 10-digit DHL Express waybills", () => {
+        expect(detectCarrierFromTrackingNumber("1234567890")).toBe("DHL");
+      });
+
+      it("should detect JJD/JD piece IDs", () => {
+        expect(detectCarrierFromTrackingNumber("JJD0099999999999999999")).toBe("DHL");
+        expect(detectCarrierFromTrackingNumber("JD014600006101234567")).toBe("DHL");
+      });
+    });
+
+    describe("Canada Post tracking numbers", () => {
+      it("should detect 16-digit domestic PINs", () => {
+        expect(detectCarrierFromTrackingNumber("1371134583769923")).toBe("CANADA_POST");
+      });
+
+      it("should detect international format with CA suffix", () => {
+        expect(detectCarrierFromTrackingNumber("LM123456789CA")).toBe("CANADA_POST");
+      });
+    });
+
+    describe("Purolator tracking numbers", () => {
+      it("should detect 3-letter prefix PINs", () => {
+        expect(detectCarrierFromTrackingNumber("ABC123456789")).toBe("PUROLATOR");
+      });
+
+      it("should leave 12-digit PINs to FedEx without a company name", () => {
+        expect(detectCarrierFromTrackingNumber("329015209366")).toBe("FEDEX");
+        expect(detectCarrier("Purolator", "329015209366")).toBe("PUROLATOR");
+      });
+    });
+
     it("should return UNKNOWN for unrecognized formats", () => {
       expect(detectCarrierFromTrackingNumber("ABC123")).toBe("UNKNOWN");
       expect(detectCarrierFromTrackingNumber("12345")).toBe("UNKNOWN");
@@ -127,7 +199,7 @@ describe("carrier.service", () => {
     });
 
     it("should return UNKNOWN when both are unrecognized", () => {
-      expect(detectCarrier("DHL", "ABC123")).toBe("UNKNOWN");
+      expect(detectCarrier("OnTrac", "ABC123")).toBe("UNKNOWN");
       expect(detectCarrier(null, null)).toBe("UNKNOWN");
     });
   });
@@ -174,6 +246,24 @@ describe("carrier.service", () => {
       );
     });
 
+    it("should build DHL tracking URL", () => {
+      expect(buildTrackingUrl("DHL", "1234567890")).toBe(
+        "https://www.dhl.com/us-en/home/tracking/tracking-express.html?submit=1&tracking-id=1234567890"
+      );
+    });
+
+    it("should build Canada Post tracking URL", () => {
+      expect(buildTrackingUrl("CANADA_POST", "1371134583769923")).toBe(
+        "https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor=1371134583769923"
+      );
+    });
+
+    it("should build Purolator tracking URL", () => {
+      expect(buildTrackingUrl("PUROLATOR", "329015209366")).toBe(
+        "https://www.purolator.com/en/shipping/tracker?pin=329015209366"
+      );
+    });
+
     it("should return null for UNKNOWN carrier", () => {
       expect(buildTrackingUrl("UNKNOWN", "ABC123")).toBe(null);
     });
@@ -185,6 +275,70 @@ describe("carrier.service", () => {
     });
   });
 
+  describe("detectTrackingNumber", () => {
+    it("should score a prefix match with a valid check digit highest", () => {
+      expect(detectTrackingNumber("1Z999AA10123456784")).toEqual({
+        carrier: "UPS",
+        confidence: 0.95,
+        checksum: "valid",
+      });
+    });
+
+    it("should use check digits to settle overlapping 22-digit formats", () => {
+      // Valid USPS IMpb check digit
+      expect(detectTrackingNumber("9400111899223033317619")).toMatchObject({
+        carrier: "USPS",
+        checksum: "valid",
+      });
+      // Fails the USPS check but passes FedEx Ground's check over the last 15 digits
+      expect(detectTrackingNumber("9611020987654312345672")).toMatchObject({
+        carrier: "FEDEX",
+        checksum: "valid",
+      });
+    });
+
+    it("should keep the carrier but flag a likely typo", () => {
+      const detection = detectTrackingNumber("1Z999AA10123456785");
+      expect(detection.carrier).toBe("UPS");
+      expect(detection.checksum).toBe("invalid");
+      expect(detection.confidence).toBeLessThan(0.4);
+    });
+
+    it("should score formats without a check digit by specificity", () => {
+      expect(detectTrackingNumber("ABC123456789")).toEqual({
+        carrier: "PUROLATOR",
+        confidence: 0.7,
+        checksum: "unchecked",
+      });
+      expect(detectTrackingNumber("1371134583769923")).toEqual({
+        carrier: "CANADA_POST",
+        confidence: 0.4,
+        checksum: "unchecked",
+      });
+    });
+
+    it("should only score the given carrier's formats", () => {
+      expect(detectTrackingNumber("9400111899223033317619", "FEDEX")).toMatchObject({
+        carrier: "FEDEX",
+        checksum: "invalid",
+      });
+      expect(detectTrackingNumber("ABC123456789", "UPS")).toEqual({
+        carrier: "UPS",
+        confidence: 0,
+        checksum: "unchecked",
+      });
+    });
+
+    it("should return UNKNOWN with zero confidence when nothing matches", () => {
+      expect(detectTrackingNumber("ABC123")).toEqual({
+        carrier: "UNKNOWN",
+        confidence: 0,
+        checksum: "unchecked",
+      });
+      expect(detectTrackingNumber(null).confidence).toBe(0);
+    });
+  });
+
   describe("isValidTrackingNumber", () => {
     it("should return false for null, undefined, or empty", () => {
       expect(isValidTrackingNumber(null)).toBe(false);
@@ -200,7 +354,16 @@ describe("carrier.service", () => {
     it("should return true for valid length tracking numbers", () => {
       expect(isValidTrackingNumber("1Z999AA10123456784")).toBe(true);
       expect(isValidTrackingNumber("123456789012")).toBe(true);
-      expect(isValidTrackingNumber("9400111899223033317615")).toBe(true);
+      expect(isValidTrackingNumber("9400111899223033317619")).toBe(true);
+    });
+
+    it("should return false when the check digit does not match", () => {
+      expect(isValidTrackingNumber("1Z999AA10123456785")).toBe(false);
+      expect(isValidTrackingNumber("9400111899223033317615")).toBe(false);
+    });
+
+    it("should accept formats without a check digit", () => {
+      expect(isValidTrackingNumber("1371134583769923")).toBe(true);
     });
 
     it("should handle spaces and dashes", () => {
@@ -248,4 +411,186 @@ describe("carrier.service", () => {
       expect(extractServiceLevelFromCompany("USPS")).toBe(null);
     });
   });
+
+  describe("getCarrierBatchSize", () => {
+    it("should return the adapter batch size for carriers with a batch endpoint", () => {
+      expect(getCarrierBatchSize("USPS")).toBe(35);
+      expect(getCarrierBatchSize("FEDEX")).toBe(30);
+    });
+
+    it("should return 1 for carriers without a batch endpoint", () => {
+      expect(getCarrierBatchSize("UPS")).toBe(1);
+      expect(getCarrierBatchSize("DHL")).toBe(1);
+      expect(getCarrierBatchSize("UNKNOWN")).toBe(1);
+    });
+  });
+
+  describe("merchant carrier accounts", () => {
+    const account = { id: "merchant-1:abc123", credentials: { clientId: "id", clientSecret: "secret" } };
+    const authFailed: CarrierTrackingResponse = {
+      success: false,
+      error: { code: "AUTH_FAILED", message: "Invalid credentials", retryable: true },
+    };
+    const notFound: CarrierTrackingResponse = {
+      success: false,
+      error: { code: "TRACKING_NOT_FOUND", message: "Not found", retryable: false },
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should track with the merchant's account", async () => {
+      const track = vi.spyOn(getUpsAdapter(), "track").mockResolvedValue(notFound);
+
+      expect(await trackShipment("UPS", "1Z999AA10123456784", account)).toBe(notFound);
+      expect(track).toHaveBeenCalledTimes(1);
+      expect(track).toHaveBeenCalledWith("1Z999AA10123456784", account);
+    });
+
+    it("should fall back to the platform credentials when the account is rejected", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const track = vi
+        .spyOn(getUpsAdapter(), "track")
+        .mockResolvedValueOnce(authFailed)
+        .mockResolvedValueOnce(notFound);
+
+      expect(await trackShipment("UPS", "1Z999AA10123456784", account)).toBe(notFound);
+      expect(track).toHaveBeenLastCalledWith("1Z999AA10123456784");
+    });
+
+    it("should retry a rejected batch with the platform credentials", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const trackBatch = vi
+        .spyOn(getFedexAdapter(), "trackBatch")
+        .mockResolvedValueOnce(new Map([["123456789012", authFailed]]))
+        .mockResolvedValueOnce(new Map([["123456789012", notFound]]));
+
+      const results = await trackShipmentsBatch("FEDEX", ["123456789012"], account);
+
+      expect(results.get("123456789012")).toBe(notFound);
+      expect(trackBatch).toHaveBeenNthCalledWith(1, ["123456789012"], account);
+      expect(trackBatch).toHaveBeenNthCalledWith(2, ["123456789012"]);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const networkError: CarrierTrackingResponse = {
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "Timed out", retryable: true },
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.mocked(allowCarrierRequest).mockResolvedValue({ allowed: true, probe: false });
+    });
+
+    it("should not call the carrier while its circuit is open", async () => {
+      vi.mocked(allowCarrierRequest).mockResolvedValue({ allowed: false, probe: false });
+      const track = vi.spyOn(getUpsAdapter(), "track");
+
+      const response = await trackShipment("UPS", "1Z999AA10123456784");
+
+      expect(response).toMatchObject({
+        success: false,
+        error: { code: "CARRIER_UNAVAILABLE", retryable: false },
+      });
+      expect(track).not.toHaveBeenCalled();
+      expect(recordCarrierOutcome).not.toHaveBeenCalled();
+    });
+
+    it("should record outage failures", async () => {
+      vi.spyOn(getUpsAdapter(), "track").mockResolvedValue(networkError);
+
+      await trackShipment("UPS", "1Z999AA10123456784");
+
+      expect(recordCarrierOutcome).toHaveBeenCalledWith("UPS", true, false);
+    });
+
+    it("should record a probe's outcome as the probe", async () => {
+      vi.mocked(allowCarrierRequest).mockResolvedValue({ allowed: true, probe: true });
+      vi.spyOn(getUpsAdapter(), "track").mockResolvedValue(networkError);
+
+      await trackShipment("UPS", "1Z999AA10123456784");
+
+      expect(recordCarrierOutcome).toHaveBeenCalledWith("UPS", true, true);
+    });
+
+    it("should defer a whole batch while the circuit is open", async () => {
+      vi.mocked(allowCarrierRequest).mockResolvedValue({ allowed: false, probe: false });
+      const trackBatch = vi.spyOn(getFedexAdapter(), "trackBatch");
+
+      const results = await trackShipmentsBatch("FEDEX", ["123456789012", "123456789013"]);
+
+      expect(trackBatch).not.toHaveBeenCalled();
+      expect([...results.values()].map((result) => !result.success && result.error.code)).toEqual([
+        "CARRIER_UNAVAILABLE",
+        "CARRIER_UNAVAILABLE",
+      ]);
+    });
+  });
+
+  describe("rate limiting", () => {
+    const account = { id: "merchant-1:abc123", credentials: { clientId: "id", clientSecret: "secret" } };
+    const notFound: CarrierTrackingResponse = {
+      success: false,
+      error: { code: "TRACKING_NOT_FOUND", message: "Not found", retryable: false },
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.mocked(acquireCarrierToken).mockResolvedValue(true);
+    });
+
+    it("should take a token for the credentials the request is sent with", async () => {
+      vi.spyOn(getUpsAdapter(), "track").mockResolvedValue(notFound);
+
+      await trackShipment("UPS", "1Z999AA10123456784", account);
+
+      expect(acquireCarrierToken).toHaveBeenCalledTimes(1);
+      expect(acquireCarrierToken).toHaveBeenCalledWith("UPS", "merchant-1:abc123");
+    });
+
+    it("should not call the carrier when no token is available", async () => {
+      vi.mocked(acquireCarrierToken).mockResolvedValue(false);
+      const track = vi.spyOn(getUpsAdapter(), "track");
+
+      const response = await trackShipment("UPS", "1Z999AA10123456784");
+
+      expect(response).toMatchObject({ success: false, error: { code: "THROTTLED", retryable: false } });
+      expect(track).not.toHaveBeenCalled();
+    });
+
+    it("should take one token per batch request", async () => {
+      const trackBatch = vi.spyOn(getFedexAdapter(), "trackBatch").mockResolvedValue(
+        new Map([
+          ["123456789012", notFound],
+          ["123456789013", notFound],
+        ])
+      );
+
+      await trackShipmentsBatch("FEDEX", ["123456789012", "123456789013"]);
+
+      expect(trackBatch).toHaveBeenCalledTimes(1);
+      expect(acquireCarrierToken).toHaveBeenCalledTimes(1);
+      expect(acquireCarrierToken).toHaveBeenCalledWith("FEDEX", undefined);
+    });
+
+    it("should split batches larger than the carrier's limit into one request per chunk", async () => {
+      const trackingNumbers = Array.from({ length: FEDEX_MAX_BATCH_SIZE + 5 }, (_, i) =>
+        String(123456789000 + i)
+      );
+      const trackBatch = vi
+        .spyOn(getFedexAdapter(), "trackBatch")
+        .mockImplementation(async (numbers) => new Map(numbers.map((number) => [number, notFound])));
+
+      const results = await trackShipmentsBatch("FEDEX", trackingNumbers);
+
+      expect(trackBatch.mock.calls.map(([numbers]) => numbers.length)).toEqual([FEDEX_MAX_BATCH_SIZE, 5]);
+      expect(acquireCarrierToken).toHaveBeenCalledTimes(2);
+      expect(allowCarrierRequest).toHaveBeenCalledTimes(2);
+      expect(recordCarrierOutcome).toHaveBeenCalledTimes(2);
+      expect(results.size).toBe(trackingNumbers.length);
+    });
+  });
 });
@@ -0,0 +1,360 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { DhlTrackingResponse } from "../dhl.schemas";
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Now import the adapter after mocks are set up
+const { DhlAdapter, getDhlAdapter } = await import("../dhl.adapter");
+
+describe("DhlAdapter", () => {
+  let adapter: InstanceType<typeof DhlAdapter>;
+
+  // Sample successful DHL response - in transit
+  const sampleInTransitResponse: DhlTrackingResponse = {
+    shipments: [
+      {
+        id: "1234567890",
+        service: "express",
+        origin: {
+          address: { addressLocality: "LEIPZIG - GERMANY", countryCode: "DE" },
+        },
+        destination: {
+          address: { addressLocality: "NEW YORK - USA", countryCode: "US" },
+        },
+        status: {
+          timestamp: "2026-02-06T14:30:00",
+          location: {
+            address: { addressLocality: "CINCINNATI HUB - CINCINNATI - USA" },
+          },
+          statusCode: "transit",
+          status: "transit",
+          description: "Arrived at DHL Sort Facility CINCINNATI HUB - USA",
+        },
+        estimatedTimeOfDelivery: "2026-02-10T18:00:00Z",
+        details: {
+          product: { productName: "EXPRESS WORLDWIDE" },
+          totalNumberOfPieces: 1,
+        },
+        events: [
+          {
+            timestamp: "2026-02-06T14:30:00Z",
+            location: {
+              address: { addressLocality: "CINCINNATI HUB - CINCINNATI - USA" },
+            },
+            statusCode: "transit",
+            description: "Arrived at DHL Sort Facility CINCINNATI HUB - USA",
+          },
+          {
+            timestamp: "2026-02-05T20:00:00Z",
+            location: {
+              address: { addressLocality: "LEIPZIG - GERMANY", countryCode: "DE" },
+            },
+            statusCode: "transit",
+            description: "Departed Facility in LEIPZIG - GERMANY",
+          },
+          {
+            timestamp: "2026-02-05T08:00:00Z",
+            location: {
+              address: { addressLocality: "LEIPZIG - GERMANY", countryCode: "DE" },
+            },
+            statusCode: "pre-transit",
+            description: "Shipment picked up",
+          },
+        ],
+      },
+    ],
+  };
+
+  // Sample delivered response
+  const sampleDeliveredResponse: DhlTrackingResponse = {
+    shipments: [
+      {
+        id: "1234567890",
+        service: "express",
+        status: {
+          timestamp: "2026-02-10T10:25:00Z",
+          location: {
+            address: { addressLocality: "NEW YORK - NEW YORK - USA" },
+          },
+          statusCode: "delivered",
+          description: "Delivered",
+        },
+        events: [
+          {
+            timestamp: "2026-02-10T10:25:00Z",
+            location: {
+              address: { addressLocality: "NEW YORK - NEW YORK - USA" },
+            },
+            statusCode: "delivered",
+            description: "Delivered",
+          },
+          {
+            timestamp: "2026-02-10T07:00:00Z",
+            location: {
+              address: { addressLocality: "NEW YORK - NEW YORK - USA" },
+            },
+            statusCode: "transit",
+            description: "Shipment is out with courier for delivery",
+          },
+        ],
+      },
+    ],
+  };
+
+  // Sample exception response
+  const sampleExceptionResponse: DhlTrackingResponse = {
+    shipments: [
+      {
+        id: "1234567890",
+        service: "express",
+        status: {
+          timestamp: "2026-02-07T09:00:00Z",
+          location: {
+            address: { addressLocality: "CINCINNATI HUB - CINCINNATI - USA" },
+          },
+          statusCode: "failure",
+          description: "Clearance event",
+        },
+        estimatedDeliveryTimeFrame: {
+          estimatedFrom: "2026-02-10T09:00:00Z",
+          estimatedThrough: "2026-02-11T18:00:00Z",
+        },
+        events: [
+          {
+            timestamp: "2026-02-07T09:00:00Z",
+            location: {
+              address: { addressLocality: "CINCINNATI HUB - CINCINNATI - USA" },
+            },
+            statusCode: "failure",
+            description: "Clearance event",
+          },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    adapter = new DhlAdapter();
+    vi.clearAllMocks();
+
+    // Setup environment variables
+    process.env.DHL_API_KEY = "test-api-key";
+  });
+
+  afterEach(() => {
+    delete process.env.DHL_API_KEY;
+  });
+
+  describe("track", () => {
+    it("should track a package successfully", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => sampleInTransitResponse,
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.trackingNumber).toBe("1234567890");
+        expect(result.data.carrier).toBe("DHL");
+        expect(result.data.currentStatus).toBe("In Transit");
+        expect(result.data.status).toBe("IN_TRANSIT");
+        expect(result.data.isDelivered).toBe(false);
+        expect(result.data.isException).toBe(false);
+        expect(result.data.events).toHaveLength(3);
+        expect(result.data.lastScanLocation).toBe("CINCINNATI, USA");
+        expect(result.data.expectedDeliveryDate).toEqual(new Date("2026-02-10T18:00:00Z"));
+      }
+    });
+
+    it("should send the API key and express service parameter", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => sampleInTransitResponse,
+      });
+
+      await adapter.track("1234567890");
+
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toContain("trackingNumber=1234567890");
+      expect(url).toContain("service=express");
+      expect(options.headers["DHL-API-Key"]).toBe("test-api-key");
+    });
+
+    it("should detect delivered status", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => sampleDeliveredResponse,
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isDelivered).toBe(true);
+        expect(result.data.currentStatus).toBe("Delivered");
+        expect(result.data.status).toBe("DELIVERED");
+        expect(result.data.deliveredAt).toEqual(new Date("2026-02-10T10:25:00Z"));
+      }
+    });
+
+    it("should detect exception status from failure status code", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => sampleExceptionResponse,
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isException).toBe(true);
+        expect(result.data.exceptionCode).toBe("failure");
+        expect(result.data.exceptionReason).toBe("Clearance event");
+        expect(result.data.exceptionCategory).toBe("CUSTOMS");
+        expect(result.data.expectedDeliveryDate).toEqual(new Date("2026-02-11T18:00:00Z"));
+      }
+    });
+
+    it("should handle rate limiting with retryable error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("RATE_LIMITED");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle tracking not found", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () =>
+          JSON.stringify({
+            title: "No result found",
+            status: 404,
+            detail: "No shipment with given tracking number found.",
+          }),
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+        expect(result.error.message).toBe("No shipment with given tracking number found.");
+        expect(result.error.retryable).toBe(false);
+      }
+    });
+
+    it("should handle auth failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+      }
+    });
+
+    it("should handle API errors with retryable flag for server errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("API_ERROR");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle invalid JSON response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new Error("Invalid JSON");
+        },
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("PARSE_ERROR");
+      }
+    });
+
+    it("should handle missing credentials", async () => {
+      delete process.env.DHL_API_KEY;
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+        expect(result.error.retryable).toBe(false);
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should handle empty shipments array", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ shipments: [] }),
+      });
+
+      const result = await adapter.track("1234567890");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+      }
+    });
+  });
+
+  describe("getTrackingUrl", () => {
+    it("should return correct DHL tracking URL", () => {
+      const url = adapter.getTrackingUrl("1234567890");
+      expect(url).toBe(
+        "https://www.dhl.com/us-en/home/tracking/tracking-express.html?submit=1&tracking-id=1234567890"
+      );
+    });
+  });
+
+  describe("getDhlAdapter singleton", () => {
+    it("should return the same instance", () => {
+      const adapter1 = getDhlAdapter();
+      const adapter2 = getDhlAdapter();
+      expect(adapter1).toBe(adapter2);
+    });
+
+    it("should return an instance with carrier DHL", () => {
+      const adapter = getDhlAdapter();
+      expect(adapter.carrier).toBe("DHL");
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { FedexTrackingResponse } from "../fedex.schemas";
+import { signHmacSha256 } from "../carrier.signatures";
+import webhookDelay from "./fixtures/push/fedex-webhook-delay.json";
 
 // Mock Redis connection
 const mockRedis = {
@@ -281,6 +283,7 @@ describe("FedexAdapter", () => {
         expect(result.data.trackingNumber).toBe("794644790218");
         expect(result.data.carrier).toBe("FEDEX");
         expect(result.data.currentStatus).toBe("In transit");
+        expect(result.data.status).toBe("IN_TRANSIT");
         expect(result.data.isDelivered).toBe(false);
         expect(result.data.isException).toBe(false);
         expect(result.data.events).toHaveLength(3);
@@ -309,6 +312,7 @@ describe("FedexAdapter", () => {
       if (result.success) {
         expect(result.data.isDelivered).toBe(true);
         expect(result.data.currentStatus).toBe("Delivered");
+        expect(result.data.status).toBe("DELIVERED");
         expect(result.data.deliveredAt).toBeInstanceOf(Date);
       }
     });
@@ -335,6 +339,7 @@ describe("FedexAdapter", () => {
         expect(result.data.isException).toBe(true);
         expect(result.data.exceptionCode).toBeTruthy();
         expect(result.data.exceptionReason).toBeTruthy();
+        expect(result.data.exceptionCategory).toBe("RECIPIENT_UNAVAILABLE");
       }
     });
 
@@ -712,6 +717,195 @@ describe("FedexAdapter", () => {
     });
   });
 
+  describe("trackBatch", () => {
+    const secondTrackingNumber = "794644790219";
+
+    beforeEach(() => {
+      mockRedis.get.mockResolvedValue(
+        JSON.stringify({ accessToken: "cached-token", expiresAt: Date.now() + 3600000 })
+      );
+    });
+
+    it("should track several packages in one request", async () => {
+      const deliveredResult = sampleDeliveredResponse.output!.completeTrackResults![0];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          output: {
+            completeTrackResults: [
+              { ...deliveredResult, trackingNumber: secondTrackingNumber },
+              sampleInTransitResponse.output!.completeTrackResults![0],
+            ],
+          },
+        }),
+      });
+
+      const results = await adapter.trackBatch(["794644790218", secondTrackingNumber]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const requestBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.trackingInfo).toEqual([
+        { trackingNumberInfo: { trackingNumber: "794644790218" } },
+        { trackingNumberInfo: { trackingNumber: secondTrackingNumber } },
+      ]);
+
+      const inTransit = results.get("794644790218");
+      const delivered = results.get(secondTrackingNumber);
+      expect(inTransit?.success && inTransit.data.isDelivered).toBe(false);
+      expect(delivered?.success && delivered.data.isDelivered).toBe(true);
+      expect(delivered?.success && delivered.data.trackingNumber).toBe(secondTrackingNumber);
+    });
+
+    it("should return per-tracking-number errors without failing the batch", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          output: {
+            completeTrackResults: [
+              sampleInTransitResponse.output!.completeTrackResults![0],
+              {
+                trackingNumber: secondTrackingNumber,
+                trackResults: [
+                  {
+                    trackingNumberInfo: { trackingNumber: secondTrackingNumber },
+                    error: {
+                      code: "TRACKING.TRACKINGNUMBER.NOTFOUND",
+                      message: "Tracking number cannot be found.",
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      });
+
+      const results = await adapter.trackBatch(["794644790218", secondTrackingNumber]);
+
+      expect(results.get("794644790218")?.success).toBe(true);
+      const notFound = results.get(secondTrackingNumber);
+      expect(notFound?.success).toBe(false);
+      if (notFound && !notFound.success) {
+        expect(notFound.error.code).toBe("TRACKING_NOT_FOUND");
+        expect(notFound.error.retryable).toBe(false);
+      }
+    });
+
+    it("should apply rate limiting to every tracking number", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+      });
+
+      const results = await adapter.trackBatch(["794644790218", secondTrackingNumber]);
+
+      expect(results.size).toBe(2);
+      for (const result of results.values()) {
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.code).toBe("RATE_LIMITED");
+        }
+      }
+    });
+
+    it("should split lists longer than the FedEx limit into several requests", async () => {
+      const trackingNumbers = Array.from({ length: 31 }, (_, i) => String(794644790300 + i));
+      const resultFor = (trackingNumber: string) => ({
+        ...sampleInTransitResponse.output!.completeTrackResults![0],
+        trackingNumber,
+      });
+
+      for (const chunk of [trackingNumbers.slice(0, 30), trackingNumbers.slice(30)]) {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ output: { completeTrackResults: chunk.map(resultFor) } }),
+        });
+      }
+
+      const results = await adapter.trackBatch(trackingNumbers);
+
+      expect(adapter.maxBatchSize).toBe(30);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(results.size).toBe(31);
+      expect([...results.values()].every((result) => result.success)).toBe(true);
+    });
+  });
+
+  describe("push notifications", () => {
+    const body = JSON.stringify(webhookDelay);
+
+    afterEach(() => {
+      delete process.env.FEDEX_WEBHOOK_SECRET;
+    });
+
+    it("should accept notifications signed with the webhook secret", () => {
+      process.env.FEDEX_WEBHOOK_SECRET = "fedex-webhook-secret";
+      const signature = signHmacSha256("fedex-webhook-secret", body);
+
+      expect(
+        adapter.verifyPushNotification(body, new Headers({ "fdx-signature": signature }))
+      ).toBe(true);
+      expect(
+        adapter.verifyPushNotification(
+          body,
+          new Headers({ "fdx-signature": signature.toUpperCase() })
+        )
+      ).toBe(true);
+    });
+
+    it("should reject tampered, unsigned, or unconfigured notifications", () => {
+      const signature = signHmacSha256("fedex-webhook-secret", body);
+      expect(
+        adapter.verifyPushNotification(body, new Headers({ "fdx-signature": signature }))
+      ).toBe(false);
+
+      process.env.FEDEX_WEBHOOK_SECRET = "fedex-webhook-secret";
+      expect(
+        adapter.verifyPushNotification(
+          body.replace("986578788855", "986578788856"),
+          new Headers({ "fdx-signature": signature })
+        )
+      ).toBe(false);
+      expect(adapter.verifyPushNotification(body, new Headers())).toBe(false);
+    });
+
+    it("should parse every track result in a notification", () => {
+      const responses = adapter.parsePushNotification(webhookDelay);
+
+      expect(responses).toHaveLength(2);
+      const [delayed, outForDelivery] = responses;
+
+      expect(delayed.success).toBe(true);
+      if (delayed.success) {
+        expect(delayed.data.trackingNumber).toBe("986578788855");
+        expect(delayed.data.isException).toBe(true);
+        expect(delayed.data.exceptionCode).toBe("08");
+        expect(delayed.data.exceptionReason).toBe("Weather delay");
+        expect(delayed.data.exceptionCategory).toBe("WEATHER");
+        expect(delayed.data.lastScanLocation).toBe("Indianapolis, IN, US");
+        expect(delayed.data.events).toHaveLength(2);
+      }
+
+      expect(outForDelivery.success).toBe(true);
+      if (outForDelivery.success) {
+        expect(outForDelivery.data.trackingNumber).toBe("477179081230");
+        expect(outForDelivery.data.status).toBe("OUT_FOR_DELIVERY");
+      }
+    });
+
+    it("should return a parse error for a malformed notification", () => {
+      const [response] = adapter.parsePushNotification({ output: "not-an-object" });
+
+      expect(response.success).toBe(false);
+      if (!response.success) {
+        expect(response.error.code).toBe("PARSE_ERROR");
+      }
+    });
+  });
+
   describe("getTrackingUrl", () => {
     it("should return correct FedEx tracking URL", () => {
       const url = adapter.getTrackingUrl("794644790218");
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Now import the adapter after mocks are set up
+const { PurolatorAdapter, getPurolatorAdapter } = await import("../purolator.adapter");
+
+// Helper to build a Purolator scan element
+function buildScan(
+  scanType: string,
+  date: string,
+  time: string,
+  description: string,
+  depot: string
+): string {
+  return `
+              <Scan>
+                <ScanType>${scanType}</ScanType>
+                <PIN><Value>329015209366</Value></PIN>
+                <Depot><Name>${depot}</Name></Depot>
+                <ScanDate>${date}</ScanDate>
+                <ScanTime>${time}</ScanTime>
+                <Description>${description}</Description>
+                <Comment/>
+                <SummaryScanIndicator>false</SummaryScanIndicator>
+              </Scan>`;
+}
+
+// Helper to build a TrackPackagesByPin SOAP response
+function buildSoapResponse(trackingInformation: string, responseErrors = ""): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
+  <s:Header>
+    <h:ResponseContext xmlns:h="http://purolator.com/pws/datatypes/v1">
+      <h:ResponseReference>DelayGuard</h:ResponseReference>
+    </h:ResponseContext>
+  </s:Header>
+  <s:Body>
+    <TrackPackagesByPinResponse xmlns="http://purolator.com/pws/datatypes/v1">
+      <ResponseInformation>
+        <Errors>${responseErrors}</Errors>
+        <InformationalMessages/>
+      </ResponseInformation>
+      <TrackingInformationList>${trackingInformation}
+      </TrackingInformationList>
+    </TrackPackagesByPinResponse>
+  </s:Body>
+</s:Envelope>`;
+}
+
+function buildTrackingInformation(scans: string[], pinErrors = ""): string {
+  return `
+        <TrackingInformation>
+          <PIN><Value>329015209366</Value></PIN>
+          <Scans>${scans.join("")}
+          </Scans>
+          <ResponseInformation>
+            <Errors>${pinErrors}</Errors>
+          </ResponseInformation>
+        </TrackingInformation>`;
+}
+
+describe("PurolatorAdapter", () => {
+  let adapter: InstanceType<typeof PurolatorAdapter>;
+
+  const sampleInTransitXml = buildSoapResponse(
+    buildTrackingInformation([
+      buildScan("Other", "2026-02-06", "143000", "Arrived at sort facility", "Toronto South, ON"),
+      buildScan("Other", "2026-02-05", "170000", "Picked up by Purolator", "MISSISSAUGA"),
+    ])
+  );
+
+  const sampleDeliveredXml = buildSoapResponse(
+    buildTrackingInformation([
+      buildScan("ProofOfDelivery", "2026-02-09", "132011", "Shipment delivered to", "Ottawa, ON"),
+      buildScan("OnDelivery", "2026-02-09", "080000", "On vehicle for delivery", "Ottawa, ON"),
+    ])
+  );
+
+  const sampleExceptionXml = buildSoapResponse(
+    buildTrackingInformation([
+      buildScan("Undeliverable", "2026-02-08", "100000", "Attempted delivery - customer not available", "Ottawa, ON"),
+    ])
+  );
+
+  beforeEach(() => {
+    adapter = new PurolatorAdapter();
+    vi.clearAllMocks();
+
+    // Setup environment variables
+    process.env.PUROLATOR_API_KEY = "test-key";
+    process.env.PUROLATOR_API_PASSWORD = "test-password";
+  });
+
+  afterEach(() => {
+    delete process.env.PUROLATOR_API_KEY;
+    delete process.env.PUROLATOR_API_PASSWORD;
+  });
+
+  describe("track", () => {
+    it("should track a package successfully", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleInTransitXml,
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.trackingNumber).toBe("329015209366");
+        expect(result.data.carrier).toBe("PUROLATOR");
+        expect(result.data.currentStatus).toBe("Arrived at sort facility");
+        expect(result.data.status).toBe("IN_TRANSIT");
+        expect(result.data.isDelivered).toBe(false);
+        expect(result.data.isException).toBe(false);
+        expect(result.data.events).toHaveLength(2);
+        expect(result.data.lastScanLocation).toBe("Toronto South, ON");
+        expect(result.data.expectedDeliveryDate).toBeNull();
+      }
+    });
+
+    it("should send a SOAP request with basic auth", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleInTransitXml,
+      });
+
+      await adapter.track("329015209366");
+
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://webservices.purolator.com/EWS/V1/Tracking/TrackingService.asmx");
+      expect(options.method).toBe("POST");
+      expect(options.headers.SOAPAction).toBe(
+        "http://purolator.com/pws/service/v1/TrackPackagesByPin"
+      );
+      expect(options.headers.Authorization).toBe(
+        `Basic ${Buffer.from("test-key:test-password").toString("base64")}`
+      );
+      expect(options.body).toContain("<v1:Value>329015209366</v1:Value>");
+    });
+
+    it("should detect delivered status from scan type", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleDeliveredXml,
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isDelivered).toBe(true);
+        expect(result.data.isException).toBe(false);
+        expect(result.data.status).toBe("DELIVERED");
+        expect(result.data.deliveredAt).toEqual(result.data.events[0].timestamp);
+      }
+    });
+
+    it("should detect exception status from undeliverable scan", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => sampleExceptionXml,
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.isException).toBe(true);
+        expect(result.data.exceptionCode).toBe("Undeliverable");
+        expect(result.data.status).toBe("DELIVERY_ATTEMPTED");
+        expect(result.data.exceptionReason).toBe("Attempted delivery - customer not available");
+        expect(result.data.exceptionCategory).toBe("RECIPIENT_UNAVAILABLE");
+      }
+    });
+
+    it("should handle tracking not found from per-PIN errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          buildSoapResponse(
+            buildTrackingInformation(
+              [],
+              "<Error><Code>3001</Code><Description>PIN not found</Description></Error>"
+            )
+          ),
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+        expect(result.error.message).toBe("PIN not found");
+        expect(result.error.retryable).toBe(false);
+      }
+    });
+
+    it("should handle a PIN without scans as not found", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => buildSoapResponse(buildTrackingInformation([])),
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+      }
+    });
+
+    it("should handle request-level errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () =>
+          buildSoapResponse(
+            "",
+            "<Error><Code>1100</Code><Description>Invalid request</Description></Error>"
+          ),
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("API_ERROR");
+        expect(result.error.message).toContain("Invalid request");
+      }
+    });
+
+    it("should handle rate limiting with retryable error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("RATE_LIMITED");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle auth failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+      }
+    });
+
+    it("should handle SOAP faults as retryable API errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: async () => "<s:Envelope><s:Body><s:Fault><faultstring>Server error</faultstring></s:Fault></s:Body></s:Envelope>",
+      });
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("API_ERROR");
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+
+    it("should handle missing credentials", async () => {
+      delete process.env.PUROLATOR_API_KEY;
+
+      const result = await adapter.track("329015209366");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("AUTH_FAILED");
+        expect(result.error.retryable).toBe(false);
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getTrackingUrl", () => {
+    it("should return correct Purolator tracking URL", () => {
+      const url = adapter.getTrackingUrl("329015209366");
+      expect(url).toBe("https://www.purolator.com/en/shipping/tracker?pin=329015209366");
+    });
+  });
+
+  describe("getPurolatorAdapter singleton", () => {
+    it("should return the same instance", () => {
+      const adapter1 = getPurolatorAdapter();
+      const adapter2 = getPurolatorAdapter();
+      expect(adapter1).toBe(adapter2);
+    });
+
+    it("should return an instance with carrier PUROLATOR", () => {
+      const adapter = getPurolatorAdapter();
+      expect(adapter.carrier).toBe("PUROLATOR");
+    });
+  });
+});
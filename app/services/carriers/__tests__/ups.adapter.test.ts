@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { UpsTrackingResponse } from "../ups.schemas";
 import { formatLocation, parseCarrierDate, parseCarrierDateTime } from "../carrier.types";
+import trackAlertInTransit from "./fixtures/push/ups-track-alert-in-transit.json";
+import trackAlertDelivered from "./fixtures/push/ups-track-alert-delivered.json";
 
 // Mock Redis connection
 const mockRedis = {
@@ -252,6 +254,7 @@ describe("UpsAdapter", () => {
         expect(result.data.trackingNumber).toBe("1Z999AA10123456784");
         expect(result.data.carrier).toBe("UPS");
         expect(result.data.currentStatus).toBe("In Transit");
+        expect(result.data.status).toBe("IN_TRANSIT");
         expect(result.data.isDelivered).toBe(false);
         expect(result.data.isException).toBe(false);
         expect(result.data.events).toHaveLength(3);
@@ -281,6 +284,7 @@ describe("UpsAdapter", () => {
       if (result.success) {
         expect(result.data.isDelivered).toBe(true);
         expect(result.data.currentStatus).toBe("Delivered");
+        expect(result.data.status).toBe("DELIVERED");
         expect(result.data.deliveredAt).toBeInstanceOf(Date);
       }
     });
@@ -308,6 +312,7 @@ describe("UpsAdapter", () => {
         expect(result.data.exceptionCode).toBe("X1");
         expect(result.data.exceptionReason).toContain("weather");
         expect(result.data.currentStatus).toBe("Exception");
+        expect(result.data.status).toBe("EXCEPTION");
       }
     });
 
@@ -442,6 +447,37 @@ describe("UpsAdapter", () => {
       expect(mockRedis.del).toHaveBeenCalled();
     });
 
+    it("should use a merchant account's credentials and token cache", async () => {
+      const account = {
+        id: "merchant-1:abc123",
+        credentials: { clientId: "merchant-client-id", clientSecret: "merchant-client-secret" },
+      };
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ access_token: "merchant-token", expires_in: 3600 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => sampleSuccessResponse,
+        });
+
+      const result = await adapter.track("1Z999AA10123456784", account);
+
+      expect(result.success).toBe(true);
+      expect(mockRedis.get).toHaveBeenCalledWith("carrier_token:ups:merchant-1:abc123");
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(
+        `Basic ${Buffer.from("merchant-client-id:merchant-client-secret").toString("base64")}`
+      );
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        "carrier_token:ups:merchant-1:abc123",
+        expect.stringContaining("merchant-token"),
+        "EX",
+        3540
+      );
+    });
+
     it("should handle API errors with retryable flag for server errors", async () => {
       mockFetch
         .mockResolvedValueOnce({
@@ -647,6 +683,68 @@ describe("UpsAdapter", () => {
     });
   });
 
+  describe("push notifications", () => {
+    afterEach(() => {
+      delete process.env.UPS_WEBHOOK_CREDENTIAL;
+    });
+
+    it("should accept Track Alert events carrying the subscription credential", () => {
+      process.env.UPS_WEBHOOK_CREDENTIAL = "track-alert-secret";
+      const body = JSON.stringify(trackAlertInTransit);
+
+      expect(
+        adapter.verifyPushNotification(body, new Headers({ credential: "track-alert-secret" }))
+      ).toBe(true);
+      expect(
+        adapter.verifyPushNotification(body, new Headers({ credential: "wrong-secret" }))
+      ).toBe(false);
+      expect(adapter.verifyPushNotification(body, new Headers())).toBe(false);
+    });
+
+    it("should reject every event when no credential is configured", () => {
+      expect(
+        adapter.verifyPushNotification("{}", new Headers({ credential: "" }))
+      ).toBe(false);
+    });
+
+    it("should parse an in-transit event like a Track API activity", () => {
+      const [response] = adapter.parsePushNotification(trackAlertInTransit);
+
+      expect(response.success).toBe(true);
+      if (response.success) {
+        expect(response.data.trackingNumber).toBe("1Z999AA10123456784");
+        expect(response.data.currentStatus).toBe("In Transit");
+        expect(response.data.status).toBe("IN_TRANSIT");
+        expect(response.data.isDelivered).toBe(false);
+        expect(response.data.lastScanLocation).toBe("Hodgkins, IL, US");
+        expect(response.data.lastScanTime).toEqual(parseCarrierDateTime("20260206", "091500"));
+        expect(response.data.expectedDeliveryDate).toEqual(parseCarrierDate("20260210"));
+        expect(response.data.events).toHaveLength(1);
+        expect(response.data.events[0].description).toBe("Arrived at Facility");
+      }
+    });
+
+    it("should parse a delivered event with the actual delivery time", () => {
+      const [response] = adapter.parsePushNotification(trackAlertDelivered);
+
+      expect(response.success).toBe(true);
+      if (response.success) {
+        expect(response.data.isDelivered).toBe(true);
+        expect(response.data.status).toBe("DELIVERED");
+        expect(response.data.deliveredAt).toEqual(parseCarrierDateTime("20260209", "142200"));
+      }
+    });
+
+    it("should return a parse error for a malformed event", () => {
+      const [response] = adapter.parsePushNotification({ activityStatus: { type: "I" } });
+
+      expect(response.success).toBe(false);
+      if (!response.success) {
+        expect(response.error.code).toBe("PARSE_ERROR");
+      }
+    });
+  });
+
   describe("getTrackingUrl", () => {
     it("should return correct UPS tracking URL", () => {
       const url = adapter.getTrackingUrl("1Z999AA10123456784");
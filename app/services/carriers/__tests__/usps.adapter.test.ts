@@ -180,6 +180,7 @@ describe("UspsAdapter", () => {
         expect(result.data.trackingNumber).toBe("9400111899223456789012");
         expect(result.data.carrier).toBe("USPS");
         expect(result.data.currentStatus).toBe("In Transit to Next Facility");
+        expect(result.data.status).toBe("IN_TRANSIT");
         expect(result.data.isDelivered).toBe(false);
         expect(result.data.isException).toBe(false);
         expect(result.data.events).toHaveLength(3); // 1 summary + 2 details
@@ -202,6 +203,7 @@ describe("UspsAdapter", () => {
       if (result.success) {
         expect(result.data.isDelivered).toBe(true);
         expect(result.data.currentStatus).toBe("Delivered");
+        expect(result.data.status).toBe("DELIVERED");
         expect(result.data.deliveredAt).toBeInstanceOf(Date);
       }
     });
@@ -518,6 +520,129 @@ describe("UspsAdapter", () => {
     });
   });
 
+  describe("trackBatch", () => {
+    const secondTrackingNumber = "9400111899223456789029";
+
+    it("should track several packages in one request", async () => {
+      const xmlResponse = buildUspsXmlResponse([
+        sampleInTransitTrackInfo,
+        { ...sampleDeliveredTrackInfo, _ID: secondTrackingNumber },
+      ]);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => xmlResponse,
+      });
+
+      const results = await adapter.trackBatch([
+        "9400111899223456789012",
+        secondTrackingNumber,
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const requestXml = new URL(mockFetch.mock.calls[0][0]).searchParams.get("XML");
+      expect(requestXml).toContain('<TrackID ID="9400111899223456789012">');
+      expect(requestXml).toContain(`<TrackID ID="${secondTrackingNumber}">`);
+
+      const inTransit = results.get("9400111899223456789012");
+      const delivered = results.get(secondTrackingNumber);
+      expect(inTransit?.success && inTransit.data.isDelivered).toBe(false);
+      expect(delivered?.success && delivered.data.isDelivered).toBe(true);
+      expect(delivered?.success && delivered.data.trackingNumber).toBe(secondTrackingNumber);
+    });
+
+    it("should match results by ID regardless of response order", async () => {
+      const xmlResponse = buildUspsXmlResponse([
+        { ...sampleDeliveredTrackInfo, _ID: secondTrackingNumber },
+        sampleInTransitTrackInfo,
+      ]);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => xmlResponse,
+      });
+
+      const results = await adapter.trackBatch([
+        "9400111899223456789012",
+        secondTrackingNumber,
+      ]);
+
+      const inTransit = results.get("9400111899223456789012");
+      expect(inTransit?.success && inTransit.data.currentStatus).toBe("In Transit to Next Facility");
+    });
+
+    it("should return per-tracking-number errors without failing the batch", async () => {
+      const xmlResponse = buildUspsXmlResponse([
+        sampleInTransitTrackInfo,
+        {
+          _ID: "INVALIDTRACKING",
+          Error: {
+            Number: "-2147219302",
+            Description: "A valid tracking number was not provided.",
+          },
+        },
+      ]);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => xmlResponse,
+      });
+
+      const results = await adapter.trackBatch(["9400111899223456789012", "INVALIDTRACKING"]);
+
+      expect(results.get("9400111899223456789012")?.success).toBe(true);
+      const invalid = results.get("INVALIDTRACKING");
+      expect(invalid?.success).toBe(false);
+      if (invalid && !invalid.success) {
+        expect(invalid.error.code).toBe("TRACKING_NOT_FOUND");
+      }
+    });
+
+    it("should apply request-level errors to every tracking number", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+
+      const results = await adapter.trackBatch(["9400111899223456789012", secondTrackingNumber]);
+
+      expect(results.size).toBe(2);
+      for (const result of results.values()) {
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.code).toBe("API_ERROR");
+          expect(result.error.retryable).toBe(true);
+        }
+      }
+    });
+
+    it("should split lists longer than the USPS limit into several requests", async () => {
+      const trackingNumbers = Array.from({ length: 40 }, (_, i) =>
+        `94001118992234567${String(i).padStart(5, "0")}`
+      );
+
+      for (const chunk of [trackingNumbers.slice(0, 35), trackingNumbers.slice(35)]) {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () =>
+            buildUspsXmlResponse(chunk.map((id) => ({ ...sampleInTransitTrackInfo, _ID: id }))),
+        });
+      }
+
+      const results = await adapter.trackBatch(trackingNumbers);
+
+      expect(adapter.maxBatchSize).toBe(35);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(results.size).toBe(40);
+      expect([...results.values()].every((result) => result.success)).toBe(true);
+    });
+  });
+
   describe("getTrackingUrl", () => {
     it("should return correct USPS tracking URL", () => {
       const url = adapter.getTrackingUrl("9400111899223456789012");
@@ -0,0 +1,425 @@
+/**
+ * Canada Post Carrier Adapter
+ *
+ * Implements the CarrierAdapter interface for the Canada Post Tracking API (track-v2).
+ * Canada Post uses HTTP Basic authentication (API username/password) and an XML API format.
+ *
+ * @see https://www.canadapost-postescanada.ca/information/app/drc/developer/services/tracking.jsf
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import type {
+  CarrierAccount,
+  CarrierAdapter,
+  CarrierError,
+  CarrierTrackingResponse,
+  TrackingEvent,
+  TrackingResult,
+} from "./carrier.interface";
+import {
+  CARRIER_CONFIGS,
+  CANADA_POST_DELIVERED_EVENT_IDS,
+  CANADA_POST_EXCEPTION_KEYWORDS,
+  formatLocation,
+  parseCarrierDate,
+  parseCarrierDateTime,
+} from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
+import {
+  CanadaPostApiResponseSchema,
+  type CanadaPostOccurrence,
+  type CanadaPostTrackingDetail,
+  extractOccurrences,
+  normalizeMessages,
+} from "./canadapost.schemas";
+
+/**
+ * Canada Post Tracking API endpoint (PIN lookups).
+ */
+const CANADA_POST_TRACK_URL = `${CARRIER_CONFIGS.CANADA_POST.baseUrl}/vis/track/pin`;
+
+/**
+ * Canada Post message code returned when a PIN has no tracking history.
+ */
+const CANADA_POST_NOT_FOUND_CODE = "004";
+
+/**
+ * XML Parser configuration for Canada Post responses.
+ * Tag values are kept as strings so 16-digit PINs and event identifiers
+ * are not coerced to numbers.
+ */
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+/**
+ * Canada Post API credentials.
+ */
+interface CanadaPostCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Get Canada Post API credentials from the merchant's account, falling back
+ * to environment variables.
+ */
+function getCredentials(account?: CarrierAccount): CanadaPostCredentials {
+  if (account) {
+    const { username, password } = account.credentials;
+    if (!username || !password) {
+      throw new Error("Canada Post account is missing an API username or password");
+    }
+    return { username, password };
+  }
+
+  const username = process.env.CANADA_POST_USERNAME;
+  const password = process.env.CANADA_POST_PASSWORD;
+
+  if (!username || !password) {
+    throw new Error("CANADA_POST_USERNAME and CANADA_POST_PASSWORD environment variables are required");
+  }
+
+  return { username, password };
+}
+
+/**
+ * Check if an event description indicates an exception/delay.
+ */
+function isExceptionStatus(status: string | null | undefined): boolean {
+  if (!status) {
+    return false;
+  }
+
+  const lowerStatus = status.toLowerCase();
+  return CANADA_POST_EXCEPTION_KEYWORDS.some((keyword) => lowerStatus.includes(keyword));
+}
+
+/**
+ * Check if an event identifier indicates delivery.
+ */
+function isDeliveredEvent(eventId: string | null | undefined): boolean {
+  if (!eventId) {
+    return false;
+  }
+
+  return (CANADA_POST_DELIVERED_EVENT_IDS as readonly string[]).includes(eventId);
+}
+
+/**
+ * Parse a Canada Post occurrence into a TrackingEvent.
+ */
+function parseOccurrence(occurrence: CanadaPostOccurrence): TrackingEvent | null {
+  const timestamp = parseCarrierDateTime(occurrence["event-date"], occurrence["event-time"]);
+  if (!timestamp) {
+    return null;
+  }
+
+  return {
+    timestamp,
+    type: occurrence["event-identifier"] ?? "UNKNOWN",
+    description: occurrence["event-description"] ?? "Status update",
+    city: occurrence["event-site"] || null,
+    state: occurrence["event-province"] || null,
+    country: null,
+    rawData: occurrence,
+  };
+}
+
+/**
+ * Parse all tracking events from a Canada Post tracking detail.
+ */
+function parseEvents(detail: CanadaPostTrackingDetail): TrackingEvent[] {
+  return extractOccurrences(detail)
+    .map(parseOccurrence)
+    .filter((event): event is TrackingEvent => event !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()); // Most recent first
+}
+
+/**
+ * Create a CarrierError from various error conditions.
+ */
+function createError(
+  code: CarrierError["code"],
+  message: string,
+  retryable: boolean,
+  rawError?: unknown
+): CarrierError {
+  return { code, message, retryable, rawError };
+}
+
+/**
+ * Canada Post Carrier Adapter Implementation
+ */
+export class CanadaPostAdapter implements CarrierAdapter {
+  readonly carrier = "CANADA_POST" as const;
+
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
+    try {
+      // Get credentials
+      let credentials: CanadaPostCredentials;
+      try {
+        credentials = getCredentials(account);
+      } catch (error) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "Canada Post credentials not configured",
+            false,
+            error
+          ),
+        };
+      }
+
+      const authHeader = Buffer.from(
+        `${credentials.username}:${credentials.password}`
+      ).toString("base64");
+
+      // Call Canada Post Tracking API
+      const response = await fetch(
+        `${CANADA_POST_TRACK_URL}/${encodeURIComponent(trackingNumber)}/detail`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Basic ${authHeader}`,
+            Accept: "application/vnd.cpc.track-v2+xml",
+            "Accept-Language": "en-CA",
+          },
+        }
+      );
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        return {
+          success: false,
+          error: createError(
+            "RATE_LIMITED",
+            "Canada Post API rate limit exceeded",
+            true
+          ),
+        };
+      }
+
+      // Handle auth errors
+      if (response.status === 401 || response.status === 403) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "Canada Post authentication failed, credentials may be invalid",
+            false
+          ),
+        };
+      }
+
+      // Read XML body (error responses carry <messages> too)
+      let rawXml: string;
+      try {
+        rawXml = await response.text();
+      } catch {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            "Failed to read Canada Post API response",
+            false
+          ),
+        };
+      }
+
+      // Handle other HTTP errors
+      if (!response.ok && response.status !== 404) {
+        return {
+          success: false,
+          error: createError(
+            "API_ERROR",
+            `Canada Post API error: ${response.status} ${rawXml}`,
+            response.status >= 500,
+            { status: response.status, body: rawXml }
+          ),
+        };
+      }
+
+      // Parse XML to JS object
+      let parsedResponse: unknown;
+      try {
+        parsedResponse = xmlParser.parse(rawXml);
+      } catch {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            "Failed to parse Canada Post XML response",
+            false,
+            { rawXml }
+          ),
+        };
+      }
+
+      // Validate response schema
+      const parseResult = CanadaPostApiResponseSchema.safeParse(parsedResponse);
+      if (!parseResult.success) {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            `Invalid Canada Post API response format: ${parseResult.error.message}`,
+            false,
+            { raw: parsedResponse, zodError: parseResult.error }
+          ),
+        };
+      }
+
+      const cpResponse = parseResult.data;
+
+      // Check for error messages
+      const messages = normalizeMessages(cpResponse.messages?.message);
+      if (messages.length > 0 || response.status === 404) {
+        const message = messages[0];
+        const description = message?.description ?? "No Pin History";
+
+        if (response.status === 404 || message?.code === CANADA_POST_NOT_FOUND_CODE) {
+          return {
+            success: false,
+            error: createError(
+              "TRACKING_NOT_FOUND",
+              `Tracking number ${trackingNumber} not found: ${description}`,
+              false,
+              cpResponse
+            ),
+          };
+        }
+
+        return {
+          success: false,
+          error: createError(
+            "API_ERROR",
+            `Canada Post API error: ${description}`,
+            false,
+            cpResponse
+          ),
+        };
+      }
+
+      const detail = cpResponse["tracking-detail"];
+      if (!detail) {
+        return {
+          success: false,
+          error: createError(
+            "TRACKING_NOT_FOUND",
+            `No tracking data returned for ${trackingNumber}`,
+            false,
+            cpResponse
+          ),
+        };
+      }
+
+      // Parse tracking events
+      const events = parseEvents(detail);
+
+      // Current status is the most recent significant event
+      const lastEvent = events[0];
+      const currentStatus = lastEvent?.description ?? "Unknown";
+
+      // Check for delivery
+      const deliveryEvent = events.find((e) => isDeliveredEvent(e.type));
+      const isDelivered = lastEvent ? isDeliveredEvent(lastEvent.type) : false;
+      const deliveredAt = isDelivered ? deliveryEvent?.timestamp ?? null : null;
+
+      // Check for exception (only while undelivered)
+      const isException = !isDelivered && isExceptionStatus(currentStatus);
+      const exceptionReason = isException
+        ? detail["changed-expected-delivery-reason"] ?? currentStatus
+        : null;
+
+      // Get last scan info
+      const lastScanLocation = lastEvent
+        ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
+        : null;
+      const lastScanTime = lastEvent?.timestamp ?? null;
+
+      // Normalize status and exception category
+      const status = normalizeTrackingStatus({
+        description: currentStatus,
+        isDelivered,
+        isException,
+        hasEvents: events.length > 0,
+      });
+      const exceptionCategory = normalizeExceptionCategory({
+        reason: exceptionReason,
+        description: currentStatus,
+        isException,
+        status,
+      });
+
+      // Build result
+      const result: TrackingResult = {
+        trackingNumber,
+        carrier: "CANADA_POST",
+        currentStatus,
+        status,
+        isException,
+        exceptionCode: isException ? lastEvent?.type ?? null : null,
+        exceptionReason,
+        exceptionCategory,
+        expectedDeliveryDate: parseCarrierDate(detail["expected-delivery-date"]),
+        rescheduledDeliveryDate: parseCarrierDate(detail["changed-expected-date"]),
+        isDelivered,
+        deliveredAt,
+        lastScanLocation,
+        lastScanTime,
+        events,
+      };
+
+      return { success: true, data: result };
+    } catch (error) {
+      // Handle network errors
+      if (error instanceof TypeError && error.message.includes("fetch")) {
+        return {
+          success: false,
+          error: createError(
+            "NETWORK_ERROR",
+            "Network error connecting to Canada Post API",
+            true,
+            error
+          ),
+        };
+      }
+
+      return {
+        success: false,
+        error: createError(
+          "API_ERROR",
+          `Unexpected error tracking Canada Post package: ${error instanceof Error ? error.message : String(error)}`,
+          true,
+          error
+        ),
+      };
+    }
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return renderTrackingUrl(CARRIER_REGISTRY.CANADA_POST, trackingNumber);
+  }
+}
+
+/**
+ * Singleton instance of the Canada Post adapter.
+ */
+let canadaPostAdapterInstance: CanadaPostAdapter | null = null;
+
+/**
+ * Get the Canada Post adapter singleton.
+ */
+export function getCanadaPostAdapter(): CanadaPostAdapter {
+  if (!canadaPostAdapterInstance) {
+    canadaPostAdapterInstance = new CanadaPostAdapter();
+  }
+  return canadaPostAdapterInstance;
+}
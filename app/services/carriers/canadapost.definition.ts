@@ -0,0 +1,60 @@
+/**
+ * Canada Post Carrier Definition
+ *
+ * Client-safe Canada Post metadata registered in the carrier registry.
+ */
+
+import { CANADIAN_STATUTORY_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+import { isValidS10CheckDigit } from "./carrier.checksums";
+
+export const canadaPostDefinition: CarrierDefinition = {
+  carrier: "CANADA_POST",
+  displayName: "Canada Post",
+  localizedDisplayNames: { fr: "Postes Canada" },
+  shortName: "Canada Post",
+  api: {
+    baseUrl: "https://soa-gw.canadapost.ca",
+  },
+  trackingUrlTemplate:
+    "https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor={trackingNumber}",
+  trackingNumberPatterns: [
+    {
+      pattern: /^[A-Z]{2}[0-9]{9}CA$/i,
+      specificity: "prefix",
+      description: "International format with CA suffix",
+      checksum: isValidS10CheckDigit,
+    },
+    { pattern: /^[0-9]{16}$/, specificity: "length", description: "Canada Post domestic PIN (16 digits)" },
+  ],
+  nameAliases: [
+    "canada post",
+    "postes canada",
+    "canada post xpresspost",
+    "canada post expedited parcel",
+    "canada post regular parcel",
+    "canada post priority",
+  ],
+  serviceLevelAliases: {
+    "canada post priority": "canada_post_priority",
+    "canada post xpresspost": "canada_post_xpresspost",
+    "canada post expedited parcel": "canada_post_expedited_parcel",
+    "canada post regular parcel": "canada_post_regular_parcel",
+    "canada post tracked packet": "canada_post_tracked_packet",
+  },
+  deliveryWindows: {
+    canada_post_priority: 1,
+    canada_post_xpresspost: 2,
+    canada_post_expedited_parcel: 5,
+    canada_post_regular_parcel: 7,
+    canada_post_tracked_packet: 7,
+  },
+  defaultDeliveryWindow: 7,
+  credentialFields: [
+    { key: "username", label: "API username", secret: false },
+    { key: "password", label: "API password", secret: true },
+  ],
+  testTrackingNumber: "1371134583769923",
+  rateLimit: { requestsPerSecond: 2, burst: 5 },
+  holidays: CANADIAN_STATUTORY_HOLIDAYS,
+};
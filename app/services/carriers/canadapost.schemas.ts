@@ -0,0 +1,132 @@
+/**
+ * Canada Post API Response Schemas
+ *
+ * Zod schemas for validating Canada Post Tracking API (track-v2) responses.
+ * Canada Post uses an XML API, so these schemas validate the parsed XML structure.
+ *
+ * @see https://www.canadapost-postescanada.ca/information/app/drc/developer/services/tracking.jsf
+ */
+
+import { z } from "zod";
+
+/**
+ * Canada Post occurrence (single tracking event) schema.
+ */
+export const CanadaPostOccurrenceSchema = z
+  .object({
+    "event-identifier": z.string().nullable().optional(),
+    "event-date": z.string().nullable().optional(),
+    "event-time": z.string().nullable().optional(),
+    "event-time-zone": z.string().nullable().optional(),
+    "event-description": z.string().nullable().optional(),
+    "signatory-name": z.string().nullable().optional(),
+    "event-site": z.string().nullable().optional(),
+    "event-province": z.string().nullable().optional(),
+    "event-retail-location-id": z.string().nullable().optional(),
+    "event-retail-name": z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type CanadaPostOccurrence = z.infer<typeof CanadaPostOccurrenceSchema>;
+
+/**
+ * Canada Post tracking detail schema (main tracking data for one PIN).
+ */
+export const CanadaPostTrackingDetailSchema = z
+  .object({
+    pin: z.string().nullable().optional(),
+    "active-exists": z.string().nullable().optional(),
+    "archive-exists": z.string().nullable().optional(),
+    "changed-expected-date": z.string().nullable().optional(),
+    "changed-expected-delivery-reason": z.string().nullable().optional(),
+    "destination-postal-id": z.string().nullable().optional(),
+    "expected-delivery-date": z.string().nullable().optional(),
+    "service-name": z.string().nullable().optional(),
+    // Empty <significant-events/> parses as an empty string
+    "significant-events": z
+      .union([
+        z
+          .object({
+            occurrence: z
+              .union([z.array(CanadaPostOccurrenceSchema), CanadaPostOccurrenceSchema])
+              .nullable()
+              .optional(),
+          })
+          .passthrough(),
+        z.string(),
+      ])
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export type CanadaPostTrackingDetail = z.infer<typeof CanadaPostTrackingDetailSchema>;
+
+/**
+ * Canada Post message (error) schema.
+ */
+export const CanadaPostMessageSchema = z
+  .object({
+    code: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type CanadaPostMessage = z.infer<typeof CanadaPostMessageSchema>;
+
+/**
+ * Full Canada Post API response schema.
+ * Successful calls return <tracking-detail>, failures return <messages>.
+ */
+export const CanadaPostApiResponseSchema = z
+  .object({
+    "tracking-detail": CanadaPostTrackingDetailSchema.nullable().optional(),
+    messages: z
+      .object({
+        message: z
+          .union([z.array(CanadaPostMessageSchema), CanadaPostMessageSchema])
+          .nullable()
+          .optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export type CanadaPostApiResponse = z.infer<typeof CanadaPostApiResponseSchema>;
+
+/**
+ * Helper function to normalize occurrences to array.
+ */
+export function normalizeOccurrences(
+  occurrences: CanadaPostOccurrence | CanadaPostOccurrence[] | null | undefined
+): CanadaPostOccurrence[] {
+  if (!occurrences) {
+    return [];
+  }
+  return Array.isArray(occurrences) ? occurrences : [occurrences];
+}
+
+/**
+ * Helper function to extract occurrences from a tracking detail as an array.
+ */
+export function extractOccurrences(detail: CanadaPostTrackingDetail): CanadaPostOccurrence[] {
+  const significantEvents = detail["significant-events"];
+  if (!significantEvents || typeof significantEvents === "string") {
+    return [];
+  }
+  return normalizeOccurrences(significantEvents.occurrence);
+}
+
+/**
+ * Helper function to normalize messages to array.
+ */
+export function normalizeMessages(
+  messages: CanadaPostMessage | CanadaPostMessage[] | null | undefined
+): CanadaPostMessage[] {
+  if (!messages) {
+    return [];
+  }
+  return Array.isArray(messages) ? messages : [messages];
+}
@@ -0,0 +1,121 @@
+/**
+ * Tracking Number Check Digits
+ *
+ * Check-digit algorithms used by carrier tracking number patterns. Each
+ * function takes a cleaned tracking number (no spaces/dashes, uppercased)
+ * that already matched the pattern it is attached to, and returns whether the
+ * final check digit is consistent with the rest of the number.
+ *
+ * This module is client-safe: carrier definitions import it.
+ */
+
+/**
+ * Convert a tracking number character to its check-digit value.
+ * Letters use the UPS convention: (char code - 63) mod 10, so A=2, B=3, ... J=1.
+ */
+function characterValue(character: string): number {
+  if (/[0-9]/.test(character)) {
+    return Number(character);
+  }
+  return (character.charCodeAt(0) - 63) % 10;
+}
+
+/**
+ * GS1 mod-10 check digit: digits are weighted 3, 1, 3, ... starting from the
+ * digit next to the check digit, and the check digit brings the sum to a
+ * multiple of 10. Used by FedEx Ground and USPS IMpb barcodes.
+ */
+export function isValidMod10CheckDigit(digits: string): boolean {
+  if (!/^[0-9]{2,}$/.test(digits)) {
+    return false;
+  }
+
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const weight = i % 2 === 0 ? 3 : 1;
+    sum += Number(body[body.length - 1 - i]) * weight;
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * UPS 1Z check digit: the 15 characters after "1Z" are summed with every
+ * second character doubled, and the check digit brings the sum to a multiple of 10.
+ */
+export function isValidUpsCheckDigit(trackingNumber: string): boolean {
+  if (!/^1Z[A-Z0-9]{15}[0-9]$/.test(trackingNumber)) {
+    return false;
+  }
+
+  const body = trackingNumber.slice(2, 17);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const value = characterValue(body[i]);
+    sum += i % 2 === 1 ? value * 2 : value;
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(trackingNumber[17]);
+}
+
+/**
+ * FedEx Express 12-digit check digit: the first 11 digits are weighted
+ * 1, 3, 7 repeating from the right, and the check digit is the sum mod 11, mod 10.
+ */
+export function isValidFedexExpressCheckDigit(trackingNumber: string): boolean {
+  if (!/^[0-9]{12}$/.test(trackingNumber)) {
+    return false;
+  }
+
+  const weights = [1, 3, 7];
+  let sum = 0;
+  for (let i = 0; i < 11; i++) {
+    sum += Number(trackingNumber[10 - i]) * weights[i % 3];
+  }
+
+  return (sum % 11) % 10 === Number(trackingNumber[11]);
+}
+
+/**
+ * FedEx Ground check digit: GS1 mod-10 over the last 15 digits. Covers both
+ * the 15-digit Ground number and the 22-digit "96" barcode that embeds it.
+ */
+export function isValidFedexGroundCheckDigit(trackingNumber: string): boolean {
+  return trackingNumber.length >= 15 && isValidMod10CheckDigit(trackingNumber.slice(-15));
+}
+
+/**
+ * USPS IMpb check digit: GS1 mod-10 over the whole barcode. Barcodes that
+ * carry a "420" + ZIP (5 or 9 digit) routing prefix are checked without it.
+ */
+export function isValidUspsCheckDigit(trackingNumber: string): boolean {
+  if (trackingNumber.startsWith("420")) {
+    return [8, 12].some((prefixLength) =>
+      isValidMod10CheckDigit(trackingNumber.slice(prefixLength))
+    );
+  }
+  return isValidMod10CheckDigit(trackingNumber);
+}
+
+/**
+ * UPU S10 check digit for international items (e.g. "EE123456785US"): the
+ * eight serial digits are weighted 8, 6, 4, 2, 3, 5, 9, 7 and the check digit
+ * is 11 minus the sum mod 11, with 10 mapped to 0 and 11 mapped to 5.
+ */
+export function isValidS10CheckDigit(trackingNumber: string): boolean {
+  if (!/^[A-Z]{2}[0-9]{9}[A-Z]{2}$/.test(trackingNumber)) {
+    return false;
+  }
+
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  let sum = 0;
+  for (let i = 0; i < weights.length; i++) {
+    sum += Number(trackingNumber[2 + i]) * weights[i];
+  }
+
+  const remainder = 11 - (sum % 11);
+  const checkDigit = remainder === 10 ? 0 : remainder === 11 ? 5 : remainder;
+
+  return checkDigit === Number(trackingNumber[10]);
+}
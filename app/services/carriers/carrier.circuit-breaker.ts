@@ -0,0 +1,332 @@
+/**
+ * Carrier Circuit Breaker
+ *
+ * Per-carrier circuit breaker shared by the web and worker processes through
+ * Redis. When too many requests to a carrier fail with outage errors
+ * (network failures, retryable API errors), the circuit opens and requests
+ * to that carrier are refused without calling it. After a cooldown the
+ * circuit half-opens: one probe request at a time goes through, and the
+ * first probe that succeeds closes the circuit again. Outcomes of other
+ * requests (e.g. sent before the circuit opened) don't change an open circuit.
+ *
+ * Redis failures never block tracking; the breaker then lets requests through.
+ */
+
+import type { Carrier } from "@prisma/client";
+import { getRedisConnection } from "~/queue.server";
+import type { CarrierError, CarrierTrackingResponse } from "./carrier.interface";
+import { SUPPORTED_CARRIERS } from "./carrier.registry";
+
+/**
+ * Circuit breaker thresholds and timings.
+ */
+export const CIRCUIT_BREAKER_CONFIG = {
+  /** Length of the fixed window the error rate is measured over */
+  windowMs: 60 * 1000,
+  /** Minimum requests in a window before its error rate can open the circuit */
+  minRequests: 20,
+  /** Share of outage errors in a window that opens the circuit */
+  errorRateThreshold: 0.5,
+  /** How long the circuit stays open before a probe is let through */
+  cooldownMs: 5 * 60 * 1000,
+  /** How long a probe holds the half-open slot if its outcome is never recorded */
+  probeTimeoutMs: 60 * 1000,
+  /** Longest period after an outage during which its stale data is allowed for */
+  maxRecoveryMs: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Redis key prefix for circuit breaker state.
+ */
+const CIRCUIT_KEY_PREFIX = "carrier_circuit:";
+
+/**
+ * Circuit state: closed (normal), open (refusing requests) or half-open
+ * (letting probe requests through).
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker status of one carrier.
+ */
+export interface CarrierCircuitStatus {
+  carrier: Carrier;
+  state: CircuitState;
+  /** When the circuit opened (null when closed) */
+  openedAt: Date | null;
+  /** When the next probe may be sent (null when closed) */
+  retryAt: Date | null;
+}
+
+/**
+ * Whether a request to a carrier may be sent.
+ */
+export interface CarrierRequestPermission {
+  allowed: boolean;
+  /** Whether the request is the half-open probe (pass to recordCarrierOutcome) */
+  probe: boolean;
+}
+
+/**
+ * A carrier outage, ongoing (endedAt null) or recently ended.
+ */
+export interface CarrierOutage {
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+/**
+ * Open circuit as stored in Redis (timestamps in Unix milliseconds).
+ */
+interface StoredCircuit {
+  openedAt: number;
+  retryAt: number;
+}
+
+/**
+ * Ended outage as stored in Redis (timestamps in Unix milliseconds).
+ */
+interface StoredOutage {
+  startedAt: number;
+  endedAt: number;
+}
+
+/**
+ * Build a Redis key for a carrier's circuit.
+ */
+function circuitKey(carrier: Carrier, suffix: string): string {
+  return `${CIRCUIT_KEY_PREFIX}${carrier.toLowerCase()}:${suffix}`;
+}
+
+/**
+ * Parse a JSON value stored in Redis, ignoring malformed values.
+ */
+function parseStored<T>(value: string | null): T | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a carrier's status from its stored circuit.
+ */
+function toStatus(
+  carrier: Carrier,
+  circuit: StoredCircuit | null,
+  now: Date
+): CarrierCircuitStatus {
+  if (!circuit) {
+    return { carrier, state: "closed", openedAt: null, retryAt: null };
+  }
+  return {
+    carrier,
+    state: now.getTime() >= circuit.retryAt ? "half_open" : "open",
+    openedAt: new Date(circuit.openedAt),
+    retryAt: new Date(circuit.retryAt),
+  };
+}
+
+/**
+ * Whether a carrier error suggests the carrier API itself is failing, rather
+ * than a problem with one tracking number or credential set.
+ */
+export function isCarrierOutageError(error: CarrierError): boolean {
+  return error.code === "NETWORK_ERROR" || (error.code === "API_ERROR" && error.retryable);
+}
+
+/**
+ * Whether a tracking response counts as a failed request for the breaker.
+ */
+export function isCarrierOutageResponse(response: CarrierTrackingResponse): boolean {
+  return !response.success && isCarrierOutageError(response.error);
+}
+
+/**
+ * Get the circuit breaker status of a carrier.
+ */
+export async function getCarrierCircuitStatus(
+  carrier: Carrier,
+  now: Date = new Date()
+): Promise<CarrierCircuitStatus> {
+  try {
+    const redis = getRedisConnection();
+    const circuit = parseStored<StoredCircuit>(await redis.get(circuitKey(carrier, "state")));
+    return toStatus(carrier, circuit, now);
+  } catch (error) {
+    console.error(`[CircuitBreaker] Could not read ${carrier} circuit:`, error);
+    return toStatus(carrier, null, now);
+  }
+}
+
+/**
+ * Get every carrier whose circuit is open or half-open.
+ */
+export async function getDegradedCarriers(now: Date = new Date()): Promise<CarrierCircuitStatus[]> {
+  try {
+    const redis = getRedisConnection();
+    const values = await redis.mget(
+      ...SUPPORTED_CARRIERS.map((carrier) => circuitKey(carrier, "state"))
+    );
+    return SUPPORTED_CARRIERS.map((carrier, index) =>
+      toStatus(carrier, parseStored<StoredCircuit>(values[index]), now)
+    ).filter((status) => status.state !== "closed");
+  } catch (error) {
+    console.error("[CircuitBreaker] Could not read carrier circuits:", error);
+    return [];
+  }
+}
+
+/**
+ * Check whether a request to a carrier may be sent.
+ * Always allowed while the circuit is closed. While half-open, only the
+ * caller that takes the probe slot is allowed.
+ */
+export async function allowCarrierRequest(
+  carrier: Carrier,
+  now: Date = new Date()
+): Promise<CarrierRequestPermission> {
+  try {
+    const redis = getRedisConnection();
+    const status = toStatus(
+      carrier,
+      parseStored<StoredCircuit>(await redis.get(circuitKey(carrier, "state"))),
+      now
+    );
+
+    if (status.state === "closed") {
+      return { allowed: true, probe: false };
+    }
+    if (status.state === "open") {
+      return { allowed: false, probe: false };
+    }
+
+    const probe = await redis.set(
+      circuitKey(carrier, "probe"),
+      String(now.getTime()),
+      "PX",
+      CIRCUIT_BREAKER_CONFIG.probeTimeoutMs,
+      "NX"
+    );
+    if (probe === "OK") {
+      console.log(`[CircuitBreaker] Sending ${carrier} probe request`);
+    }
+    return { allowed: probe === "OK", probe: probe === "OK" };
+  } catch (error) {
+    console.error(`[CircuitBreaker] Could not check ${carrier} circuit, allowing request:`, error);
+    return { allowed: true, probe: false };
+  }
+}
+
+/**
+ * Record the outcome of a request to a carrier.
+ *
+ * While closed, failures are counted per window and the circuit opens once
+ * the window's error rate reaches the threshold. While open or half-open,
+ * only the probe's outcome counts: a success closes the circuit and a
+ * failure restarts the cooldown.
+ *
+ * @param probe - Whether the request was the half-open probe (see allowCarrierRequest)
+ */
+export async function recordCarrierOutcome(
+  carrier: Carrier,
+  failed: boolean,
+  probe: boolean = false,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const redis = getRedisConnection();
+    const stateKey = circuitKey(carrier, "state");
+    const circuit = parseStored<StoredCircuit>(await redis.get(stateKey));
+
+    if (circuit) {
+      if (!probe) {
+        return;
+      }
+      await redis.del(circuitKey(carrier, "probe"));
+
+      if (failed) {
+        const reopened: StoredCircuit = {
+          openedAt: circuit.openedAt,
+          retryAt: now.getTime() + CIRCUIT_BREAKER_CONFIG.cooldownMs,
+        };
+        await redis.set(stateKey, JSON.stringify(reopened));
+        return;
+      }
+
+      const outage: StoredOutage = { startedAt: circuit.openedAt, endedAt: now.getTime() };
+      const recoveryMs = Math.min(
+        now.getTime() - circuit.openedAt,
+        CIRCUIT_BREAKER_CONFIG.maxRecoveryMs
+      );
+      await redis.del(stateKey);
+      if (recoveryMs > 0) {
+        await redis.set(circuitKey(carrier, "last_outage"), JSON.stringify(outage), "PX", recoveryMs);
+      }
+      console.log(`[CircuitBreaker] ${carrier} circuit closed after probe succeeded`);
+      return;
+    }
+
+    const bucket = Math.floor(now.getTime() / CIRCUIT_BREAKER_CONFIG.windowMs);
+    const requestsKey = circuitKey(carrier, `requests:${bucket}`);
+    const failuresKey = circuitKey(carrier, `failures:${bucket}`);
+
+    const requests = await redis.incr(requestsKey);
+    await redis.pexpire(requestsKey, CIRCUIT_BREAKER_CONFIG.windowMs * 2);
+    if (!failed) {
+      return;
+    }
+
+    const failures = await redis.incr(failuresKey);
+    await redis.pexpire(failuresKey, CIRCUIT_BREAKER_CONFIG.windowMs * 2);
+
+    if (
+      requests >= CIRCUIT_BREAKER_CONFIG.minRequests &&
+      failures / requests >= CIRCUIT_BREAKER_CONFIG.errorRateThreshold
+    ) {
+      const opened: StoredCircuit = {
+        openedAt: now.getTime(),
+        retryAt: now.getTime() + CIRCUIT_BREAKER_CONFIG.cooldownMs,
+      };
+      // Only the first process to see the threshold opens the circuit
+      const set = await redis.set(stateKey, JSON.stringify(opened), "NX");
+      if (set === "OK") {
+        console.warn(
+          `[CircuitBreaker] ${carrier} circuit opened (${failures}/${requests} requests failed)`
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`[CircuitBreaker] Could not record ${carrier} outcome:`, error);
+  }
+}
+
+/**
+ * Get a carrier's ongoing outage, or the last one if it ended recently
+ * enough that carrier data may still be catching up.
+ */
+export async function getRecentCarrierOutage(
+  carrier: Carrier,
+  now: Date = new Date()
+): Promise<CarrierOutage | null> {
+  try {
+    const redis = getRedisConnection();
+    const circuit = parseStored<StoredCircuit>(await redis.get(circuitKey(carrier, "state")));
+    if (circuit) {
+      return { startedAt: new Date(circuit.openedAt), endedAt: null };
+    }
+
+    const outage = parseStored<StoredOutage>(await redis.get(circuitKey(carrier, "last_outage")));
+    if (outage && now.getTime() - outage.endedAt < CIRCUIT_BREAKER_CONFIG.maxRecoveryMs) {
+      return { startedAt: new Date(outage.startedAt), endedAt: new Date(outage.endedAt) };
+    }
+    return null;
+  } catch (error) {
+    console.error(`[CircuitBreaker] Could not read ${carrier} outage:`, error);
+    return null;
+  }
+}
@@ -1,12 +1,12 @@
 /**
  * Carrier Adapter Interface
  *
- * Defines the common interface that all carrier adapters (UPS, FedEx, USPS)
+ * Defines the common interface that all carrier adapters (UPS, FedEx, USPS, DHL, Canada Post, Purolator)
  * must implement. This allows the carrier service to delegate to the correct
  * adapter based on the shipment's carrier field.
  */
 
-import type { Carrier } from "@prisma/client";
+import type { Carrier, ExceptionCategory, TrackingStatus } from "@prisma/client";
 
 /**
  * A single tracking event from a carrier's tracking history.
@@ -40,12 +40,16 @@ export interface TrackingResult {
   carrier: Carrier;
   /** Current human-readable status (e.g., "In Transit", "Delivered", "Exception") */
   currentStatus: string;
+  /** Carrier-independent status normalized from the carrier's native codes */
+  status: TrackingStatus;
   /** Whether the carrier reports an exception/delay condition */
   isException: boolean;
   /** Carrier-specific exception code (e.g., "X1" for UPS) */
   exceptionCode: string | null;
   /** Human-readable exception reason (e.g., "Weather delay") */
   exceptionReason: string | null;
+  /** Carrier-independent exception category (see normalizeExceptionCategory) */
+  exceptionCategory: ExceptionCategory | null;
   /** Expected delivery date from carrier, if available */
   expectedDeliveryDate: Date | null;
   /** New expected delivery date if carrier rescheduled, if available */
@@ -70,6 +74,12 @@ export type CarrierTrackingResponse =
   | { success: true; data: TrackingResult }
   | { success: false; error: CarrierError };
 
+/**
+ * Results of a batch tracking request, keyed by tracking number.
+ * Every requested tracking number has an entry.
+ */
+export type CarrierBatchTrackingResponse = Map<string, CarrierTrackingResponse>;
+
 /**
  * Structured error information from carrier API calls.
  */
@@ -82,7 +92,9 @@ export interface CarrierError {
     | "AUTH_FAILED" // OAuth token refresh failed or credentials invalid
     | "API_ERROR" // Carrier API returned an error response
     | "NETWORK_ERROR" // Connection timeout or network failure
-    | "PARSE_ERROR"; // Failed to parse carrier response
+    | "PARSE_ERROR" // Failed to parse carrier response
+    | "CARRIER_UNAVAILABLE" // Carrier circuit breaker is open, request not sent
+    | "THROTTLED"; // Carrier rate limit bucket stayed empty, request not sent
   /** Human-readable error message */
   message: string;
   /** Whether this error should trigger a retry */
@@ -91,9 +103,24 @@ export interface CarrierError {
   rawError?: unknown;
 }
 
+/**
+ * A merchant's own carrier account ("bring your own credentials").
+ * Adapters use the platform credentials from the environment when no account
+ * is given.
+ */
+export interface CarrierAccount {
+  /**
+   * Identifies the credential set, e.g. "<merchantId>:<fingerprint>". Scopes
+   * OAuth token caching so accounts never share tokens.
+   */
+  id: string;
+  /** Credential values keyed by the carrier definition's credentialFields */
+  credentials: Record<string, string>;
+}
+
 /**
  * Interface that all carrier adapters must implement.
- * Each carrier (UPS, FedEx, USPS) has its own adapter that handles
+ * Each carrier (UPS, FedEx, USPS, DHL, Canada Post, Purolator) has its own adapter that handles
  * the carrier-specific API format and authentication.
  */
 export interface CarrierAdapter {
@@ -105,9 +132,51 @@ export interface CarrierAdapter {
    * Returns a structured result that includes either success data or error info.
    *
    * @param trackingNumber - The carrier tracking number to look up
+   * @param account - Merchant carrier account to track with (platform credentials if omitted)
    * @returns Tracking result with status, events, and delivery info, or error
    */
-  track(trackingNumber: string): Promise<CarrierTrackingResponse>;
+  track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse>;
+
+  /**
+   * Maximum tracking numbers the carrier accepts in one request.
+   * Only set by adapters that implement trackBatch.
+   */
+  readonly maxBatchSize?: number;
+
+  /**
+   * Fetch tracking info for several tracking numbers, using as few carrier
+   * requests as the carrier allows (optional; only for carriers whose API
+   * accepts multiple tracking numbers per request). Lists longer than
+   * maxBatchSize are split into several requests.
+   *
+   * @param trackingNumbers - The carrier tracking numbers to look up
+   * @param account - Merchant carrier account to track with (platform credentials if omitted)
+   * @returns A result or error for every requested tracking number
+   */
+  trackBatch?(
+    trackingNumbers: string[],
+    account?: CarrierAccount
+  ): Promise<CarrierBatchTrackingResponse>;
+
+  /**
+   * Check that an inbound push notification was sent by the carrier
+   * (optional; only for carriers that push tracking updates to
+   * /webhooks/carriers/:carrier). Implemented together with parsePushNotification.
+   *
+   * @param rawBody - The request body exactly as received
+   * @param headers - The request headers
+   * @returns Whether the notification is authentic
+   */
+  verifyPushNotification?(rawBody: string, headers: Headers): boolean;
+
+  /**
+   * Parse a verified push notification into tracking results, using the same
+   * parsing as track(). One notification may carry several tracking numbers.
+   *
+   * @param payload - The JSON-decoded notification body
+   * @returns A result or error for every tracking number in the notification
+   */
+  parsePushNotification?(payload: unknown): CarrierTrackingResponse[];
 
   /**
    * Build a public tracking URL that customers can use to track their package.
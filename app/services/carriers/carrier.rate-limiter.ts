@@ -0,0 +1,304 @@
+/**
+ * Carrier Rate Limiter
+ *
+ * Distributed token buckets shared by the web and worker processes through
+ * Redis, one per carrier and credential set (DelayGuard's platform
+ * credentials, or a merchant's own carrier account). A request to a carrier
+ * takes a token first and waits briefly for one when the bucket is empty, so
+ * carrier quotas are respected before the carrier starts answering 429.
+ *
+ * Limits default to each carrier's registry definition and can be overridden
+ * with CARRIER_RATE_LIMIT_<CARRIER>="<requestsPerSecond>[:<burst>]".
+ *
+ * Redis failures never block tracking; the limiter then lets requests through.
+ */
+
+import type { Carrier } from "@prisma/client";
+import { getRedisConnection } from "~/queue.server";
+import { getCarrierDefinition, type CarrierRateLimit } from "./carrier.registry";
+
+/**
+ * Rate limiter timings.
+ */
+export const RATE_LIMITER_CONFIG = {
+  /** Longest a request waits for a token before it is deferred */
+  maxWaitMs: 10 * 1000,
+  /** Length of the windows request counts are reported over */
+  statsWindowMs: 60 * 1000,
+  /** How long an idle bucket is kept after it has refilled */
+  idleTtlMs: 60 * 1000,
+} as const;
+
+/**
+ * Redis key prefixes for buckets and their request counts.
+ */
+const BUCKET_KEY_PREFIX = "carrier_rate:";
+const STATS_KEY_PREFIX = "carrier_rate_stats:";
+
+/**
+ * Bucket scope used for DelayGuard's own carrier credentials.
+ */
+export const PLATFORM_SCOPE = "platform";
+
+/**
+ * Used when a carrier has no registered definition.
+ */
+const FALLBACK_RATE_LIMIT: CarrierRateLimit = { requestsPerSecond: 1, burst: 1 };
+
+/**
+ * Takes a token from a bucket, refilling it for the time elapsed since its
+ * last update. Returns {acquired (0/1), milliseconds until a token is available}.
+ *
+ * KEYS[1] bucket hash, KEYS[2] stats hash
+ * ARGV: burst, tokens per millisecond, now (ms), bucket TTL (ms), stats TTL (ms)
+ */
+const TAKE_TOKEN_SCRIPT = `
+local burst = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or burst
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+local acquired = 0
+local waitMs = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  acquired = 1
+else
+  waitMs = math.ceil((1 - tokens) / refillPerMs)
+end
+
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", KEYS[1], ARGV[4])
+redis.call("HINCRBY", KEYS[2], acquired == 1 and "granted" or "refused", 1)
+redis.call("PEXPIRE", KEYS[2], ARGV[5])
+return {acquired, waitMs}
+`;
+
+/**
+ * Live state of one bucket.
+ */
+export interface CarrierRateLimitMetrics {
+  carrier: Carrier;
+  /** "platform" or the merchant carrier account id */
+  scope: string;
+  requestsPerSecond: number;
+  burst: number;
+  /** Tokens currently available */
+  tokens: number;
+  /** Share of the burst currently in use (0 when the bucket is full) */
+  utilization: number;
+  /** Requests granted during the last complete stats window */
+  granted: number;
+  /** Token requests refused during the last complete stats window */
+  refused: number;
+}
+
+/**
+ * Result of one attempt to take a token.
+ */
+interface TokenAttempt {
+  acquired: boolean;
+  /** Milliseconds until a token is available (0 when acquired) */
+  waitMs: number;
+}
+
+/**
+ * Parse a CARRIER_RATE_LIMIT_<CARRIER> value ("<requestsPerSecond>[:<burst>]").
+ * The burst defaults to one second of requests.
+ */
+export function parseRateLimit(value: string): CarrierRateLimit | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(?::(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const requestsPerSecond = parseFloat(match[1]);
+  const burst = match[2] ? parseInt(match[2], 10) : Math.max(1, Math.ceil(requestsPerSecond));
+  if (requestsPerSecond <= 0 || burst < 1) {
+    return null;
+  }
+  return { requestsPerSecond, burst };
+}
+
+/**
+ * Get the rate limit applied to each credential set of a carrier.
+ */
+export function getCarrierRateLimit(carrier: Carrier): CarrierRateLimit {
+  const defaults = getCarrierDefinition(carrier)?.rateLimit ?? FALLBACK_RATE_LIMIT;
+  const override = process.env[`CARRIER_RATE_LIMIT_${carrier}`];
+  if (!override) {
+    return defaults;
+  }
+
+  const parsed = parseRateLimit(override);
+  if (!parsed) {
+    console.warn(`[RateLimiter] Ignoring invalid CARRIER_RATE_LIMIT_${carrier}: "${override}"`);
+    return defaults;
+  }
+  return parsed;
+}
+
+/**
+ * Build a Redis key for a bucket.
+ */
+function bucketKey(carrier: Carrier, scope: string): string {
+  return `${BUCKET_KEY_PREFIX}${carrier.toLowerCase()}:${scope}`;
+}
+
+/**
+ * Build a Redis key for a bucket's request counts in a stats window.
+ */
+function statsKey(carrier: Carrier, scope: string, window: number): string {
+  return `${STATS_KEY_PREFIX}${carrier.toLowerCase()}:${scope}:${window}`;
+}
+
+/**
+ * Tokens available in a bucket, refilled up to now.
+ */
+export function getAvailableTokens(
+  limit: CarrierRateLimit,
+  tokens: number,
+  updatedAt: number,
+  now: number
+): number {
+  return Math.min(
+    limit.burst,
+    tokens + (Math.max(0, now - updatedAt) * limit.requestsPerSecond) / 1000
+  );
+}
+
+/**
+ * Try once to take a token from a bucket.
+ */
+async function takeToken(carrier: Carrier, scope: string, now: Date): Promise<TokenAttempt> {
+  const limit = getCarrierRateLimit(carrier);
+  const refillPerMs = limit.requestsPerSecond / 1000;
+  const window = Math.floor(now.getTime() / RATE_LIMITER_CONFIG.statsWindowMs);
+
+  const result = (await getRedisConnection().eval(
+    TAKE_TOKEN_SCRIPT,
+    2,
+    bucketKey(carrier, scope),
+    statsKey(carrier, scope, window),
+    limit.burst,
+    refillPerMs,
+    now.getTime(),
+    Math.ceil(limit.burst / refillPerMs) + RATE_LIMITER_CONFIG.idleTtlMs,
+    RATE_LIMITER_CONFIG.statsWindowMs * 2
+  )) as [number, number];
+
+  return { acquired: result[0] === 1, waitMs: result[1] };
+}
+
+/**
+ * Take a token for a request to a carrier, waiting up to maxWaitMs for the
+ * bucket to refill.
+ *
+ * @param carrier - The carrier the request goes to
+ * @param accountId - Merchant carrier account sending the request (platform credentials if omitted)
+ * @returns false when no token became available in time
+ */
+export async function acquireCarrierToken(
+  carrier: Carrier,
+  accountId?: string,
+  maxWaitMs: number = RATE_LIMITER_CONFIG.maxWaitMs
+): Promise<boolean> {
+  const scope = accountId ?? PLATFORM_SCOPE;
+  const deadline = Date.now() + maxWaitMs;
+
+  try {
+    for (;;) {
+      const attempt = await takeToken(carrier, scope, new Date());
+      if (attempt.acquired) {
+        return true;
+      }
+      if (Date.now() + attempt.waitMs > deadline) {
+        console.warn(
+          `[RateLimiter] ${carrier} ${scope} bucket stayed empty for ${maxWaitMs}ms, deferring request`
+        );
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, attempt.waitMs));
+    }
+  } catch (error) {
+    console.error(`[RateLimiter] Could not take ${carrier} token, allowing request:`, error);
+    return true;
+  }
+}
+
+/**
+ * Get the live state of every bucket used recently.
+ */
+export async function getCarrierRateLimitMetrics(
+  now: Date = new Date()
+): Promise<CarrierRateLimitMetrics[]> {
+  try {
+    const redis = getRedisConnection();
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await redis.scan(cursor, "MATCH", `${BUCKET_KEY_PREFIX}*`, "COUNT", 100);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== "0");
+
+    const lastWindow = Math.floor(now.getTime() / RATE_LIMITER_CONFIG.statsWindowMs) - 1;
+    const metrics: CarrierRateLimitMetrics[] = [];
+
+    for (const key of keys.sort()) {
+      const [carrierKey, ...scopeParts] = key.slice(BUCKET_KEY_PREFIX.length).split(":");
+      const carrier = getCarrierDefinition(carrierKey)?.carrier;
+      if (!carrier) {
+        continue;
+      }
+      const scope = scopeParts.join(":");
+      const limit = getCarrierRateLimit(carrier);
+
+      const [tokens, updatedAt] = await redis.hmget(key, "tokens", "updatedAt");
+      const [granted, refused] = await redis.hmget(
+        statsKey(carrier, scope, lastWindow),
+        "granted",
+        "refused"
+      );
+      const available = getAvailableTokens(
+        limit,
+        Number(tokens ?? limit.burst),
+        Number(updatedAt ?? now.getTime()),
+        now.getTime()
+      );
+
+      metrics.push({
+        carrier,
+        scope,
+        requestsPerSecond: limit.requestsPerSecond,
+        burst: limit.burst,
+        tokens: available,
+        utilization: 1 - available / limit.burst,
+        granted: Number(granted ?? 0),
+        refused: Number(refused ?? 0),
+      });
+    }
+
+    return metrics;
+  } catch (error) {
+    console.error("[RateLimiter] Could not read rate limit metrics:", error);
+    return [];
+  }
+}
+
+/**
+ * Log the live state of every bucket used recently.
+ */
+export async function logCarrierRateLimitMetrics(now: Date = new Date()): Promise<void> {
+  for (const bucket of await getCarrierRateLimitMetrics(now)) {
+    console.log(
+      `[RateLimiter] ${bucket.carrier} ${bucket.scope}: ` +
+        `${Math.round(bucket.utilization * 100)}% utilized ` +
+        `(${bucket.tokens.toFixed(1)}/${bucket.burst} tokens, ${bucket.requestsPerSecond}/s), ` +
+        `last minute: ${bucket.granted} granted, ${bucket.refused} refused`
+    );
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Carrier Registry
+ *
+ * Single source of truth for per-carrier metadata. Each carrier declares a
+ * CarrierDefinition in its own `<carrier>.definition.ts` module (detection
+ * patterns, name aliases, tracking URL template, default delivery windows and
+ * display names) and is registered here.
+ *
+ * This module is client-safe: it must not import adapters or anything that
+ * touches Redis, Prisma or environment variables, because dashboard components
+ * and notification template previews read from it.
+ */
+
+import type { Carrier } from "@prisma/client";
+import type { Holiday } from "~/lib/holidays";
+import type { CarrierApiConfig } from "./carrier.types";
+import { upsDefinition } from "./ups.definition";
+import { fedexDefinition } from "./fedex.definition";
+import { uspsDefinition } from "./usps.definition";
+import { dhlDefinition } from "./dhl.definition";
+import { canadaPostDefinition } from "./canadapost.definition";
+import { purolatorDefinition } from "./purolator.definition";
+
+/**
+ * Carriers that have a registered definition (every Carrier except UNKNOWN).
+ */
+export type SupportedCarrier = Exclude<Carrier, "UNKNOWN">;
+
+/**
+ * A tracking number pattern declared by a carrier.
+ *
+ * Prefix patterns are distinctive and are checked before any length-only
+ * pattern, regardless of which carrier declares them.
+ */
+export interface CarrierTrackingNumberPattern {
+  /** Pattern tested against the cleaned (no spaces/dashes, uppercased) tracking number */
+  pattern: RegExp;
+  /** "prefix" for distinctive formats, "length" for digit-count fallbacks */
+  specificity: "prefix" | "length";
+  /** Short description of the format, for documentation */
+  description: string;
+  /** Check-digit validation for numbers matching the pattern, if the format has one */
+  checksum?: (trackingNumber: string) => boolean;
+}
+
+/**
+ * A credential a merchant enters to track through their own carrier account.
+ */
+export interface CarrierCredentialField {
+  /** Key of the value in the adapter's credentials */
+  key: string;
+  /** Form label in settings */
+  label: string;
+  /** Whether the value is masked in settings */
+  secret: boolean;
+}
+
+/**
+ * Request quota for one set of carrier API credentials.
+ */
+export interface CarrierRateLimit {
+  /** Sustained requests per second */
+  requestsPerSecond: number;
+  /** Requests that may be sent at once after an idle period */
+  burst: number;
+}
+
+/**
+ * Everything the app needs to know about a carrier outside of its adapter.
+ */
+export interface CarrierDefinition {
+  /** Carrier enum value */
+  carrier: SupportedCarrier;
+  /** Customer-facing name used in notification emails (e.g. "DHL Express") */
+  displayName: string;
+  /**
+   * displayName in other languages, by locale or language ("fr"), for
+   * translated notifications (see formatCarrierName)
+   */
+  localizedDisplayNames?: Record<string, string>;
+  /** Compact name used in the dashboard, filters and CSV exports (e.g. "DHL") */
+  shortName: string;
+  /** API endpoints used by the carrier's adapter */
+  api: CarrierApiConfig;
+  /** Public tracking page URL, with `{trackingNumber}` as the placeholder */
+  trackingUrlTemplate: string;
+  /** Tracking number formats used for detection */
+  trackingNumberPatterns: CarrierTrackingNumberPattern[];
+  /** Lowercased tracking_company values that identify this carrier */
+  nameAliases: string[];
+  /**
+   * Lowercased phrases found in tracking_company mapped to normalized service
+   * level keys. Longer phrases must come before their prefixes.
+   */
+  serviceLevelAliases: Record<string, string>;
+  /** Default delivery windows (business days) by normalized service level key */
+  deliveryWindows: Record<string, number>;
+  /** Fallback delivery window (business days) when the service level is unknown */
+  defaultDeliveryWindow: number;
+  /** Credentials a merchant provides to use their own carrier account */
+  credentialFields: CarrierCredentialField[];
+  /**
+   * Tracking number looked up by the settings "Test connection" action.
+   * A not-found response still proves the credentials were accepted.
+   */
+  testTrackingNumber: string;
+  /** Default request quota per credential set (overridable per deployment) */
+  rateLimit: CarrierRateLimit;
+  /** Built-in holidays the carrier does not deliver on */
+  holidays: readonly Holiday[];
+}
+
+/**
+ * Registered carriers, in detection priority order.
+ * Keyed by carrier so a new Carrier enum value fails type-checking until it is registered.
+ */
+export const CARRIER_REGISTRY: Record<SupportedCarrier, CarrierDefinition> = {
+  UPS: upsDefinition,
+  FEDEX: fedexDefinition,
+  USPS: uspsDefinition,
+  DHL: dhlDefinition,
+  CANADA_POST: canadaPostDefinition,
+  PUROLATOR: purolatorDefinition,
+};
+
+/**
+ * All carrier definitions, in registration order.
+ */
+export const CARRIER_DEFINITIONS: CarrierDefinition[] = Object.values(CARRIER_REGISTRY);
+
+/**
+ * All supported carriers, in registration order.
+ */
+export const SUPPORTED_CARRIERS: SupportedCarrier[] = CARRIER_DEFINITIONS.map(
+  (definition) => definition.carrier
+);
+
+/**
+ * Check whether a carrier enum string has a registered definition.
+ */
+export function isSupportedCarrier(carrier: string): carrier is SupportedCarrier {
+  return Object.prototype.hasOwnProperty.call(CARRIER_REGISTRY, carrier);
+}
+
+/**
+ * Look up a carrier definition. Accepts any casing; returns null for UNKNOWN
+ * and unregistered carriers.
+ */
+export function getCarrierDefinition(carrier: string): CarrierDefinition | null {
+  const normalized = carrier.toUpperCase();
+  return isSupportedCarrier(normalized) ? CARRIER_REGISTRY[normalized] : null;
+}
+
+/**
+ * Render a definition's tracking URL template for a tracking number.
+ */
+export function renderTrackingUrl(definition: CarrierDefinition, trackingNumber: string): string {
+  return definition.trackingUrlTemplate.replace(
+    "{trackingNumber}",
+    encodeURIComponent(trackingNumber)
+  );
+}
+
+/**
+ * Build the public tracking URL for a carrier, or null if the carrier is not registered.
+ */
+export function buildCarrierTrackingUrl(carrier: string, trackingNumber: string): string | null {
+  const definition = getCarrierDefinition(carrier);
+  return definition ? renderTrackingUrl(definition, trackingNumber) : null;
+}
+
+/**
+ * Get all tracking number patterns in detection order: every carrier's prefix
+ * patterns first, then every carrier's length-based fallbacks.
+ */
+export function getTrackingNumberPatterns(): Array<
+  CarrierTrackingNumberPattern & { carrier: SupportedCarrier }
+> {
+  const ordered: Array<CarrierTrackingNumberPattern & { carrier: SupportedCarrier }> = [];
+
+  for (const specificity of ["prefix", "length"] as const) {
+    for (const definition of CARRIER_DEFINITIONS) {
+      for (const entry of definition.trackingNumberPatterns) {
+        if (entry.specificity === specificity) {
+          ordered.push({ carrier: definition.carrier, ...entry });
+        }
+      }
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Build a record with one entry per supported carrier, all set to the same value.
+ */
+export function createCarrierRecord<T>(value: T): Record<SupportedCarrier, T> {
+  return Object.fromEntries(
+    SUPPORTED_CARRIERS.map((carrier) => [carrier, value])
+  ) as Record<SupportedCarrier, T>;
+}
@@ -6,80 +6,60 @@
  * by analyzing the tracking number format.
  *
  * Also provides a unified interface to route tracking requests to the
- * appropriate carrier adapter (UPS, FedEx, USPS).
+ * appropriate carrier adapter (UPS, FedEx, USPS, DHL, Canada Post, Purolator).
+ * Per-carrier patterns, aliases and tracking URLs come from the carrier registry.
+ * Tracking requests go through each carrier's circuit breaker, so a carrier
+ * outage is not hammered with requests, and take a token from the carrier's
+ * rate limiter for the credentials they are sent with.
  */
 
 import type { Carrier } from "@prisma/client";
-import type { CarrierAdapter, CarrierTrackingResponse, CarrierError } from "./carrier.interface";
+import type {
+  CarrierAccount,
+  CarrierAdapter,
+  CarrierBatchTrackingResponse,
+  CarrierTrackingResponse,
+  CarrierError,
+} from "./carrier.interface";
 import { getUpsAdapter } from "./ups.adapter";
 import { getFedexAdapter } from "./fedex.adapter";
 import { getUspsAdapter } from "./usps.adapter";
+import { getDhlAdapter } from "./dhl.adapter";
+import { getCanadaPostAdapter } from "./canadapost.adapter";
+import { getPurolatorAdapter } from "./purolator.adapter";
+import {
+  allowCarrierRequest,
+  isCarrierOutageResponse,
+  recordCarrierOutcome,
+} from "./carrier.circuit-breaker";
+import { acquireCarrierToken } from "./carrier.rate-limiter";
+import { chunkTrackingNumbers } from "./carrier.types";
+import {
+  CARRIER_DEFINITIONS,
+  buildCarrierTrackingUrl,
+  getTrackingNumberPatterns,
+  isSupportedCarrier,
+  type SupportedCarrier,
+} from "./carrier.registry";
 
 /**
- * Carrier tracking number patterns based on spec section 6.2
+ * Carrier tracking number patterns based on spec section 6.2, collected from
+ * the carrier registry.
  *
  * Pattern matching order is critical - more specific patterns must be checked first.
- * Using a flat ordered list where each entry is checked in sequence.
+ * The registry returns every prefix-based pattern before any length-based fallback.
  */
-const CARRIER_PATTERN_ORDER: Array<{ carrier: Exclude<Carrier, "UNKNOWN">; pattern: RegExp }> = [
-  // === HIGHLY SPECIFIC PATTERNS (prefix-based) ===
-
-  // UPS - very distinctive 1Z prefix
-  { carrier: "UPS", pattern: /^1Z[A-Z0-9]{16}$/i }, // Standard 1Z tracking number
-  { carrier: "UPS", pattern: /^T[A-Z0-9]{10}$/i }, // UPS Mail Innovations
-
-  // USPS - specific prefixes
-  { carrier: "USPS", pattern: /^94[0-9]{20}$/ }, // Priority Mail Express (22 digits, starts with 94)
-  { carrier: "USPS", pattern: /^92[0-9]{20}$/ }, // Priority Mail (22 digits, starts with 92)
-  { carrier: "USPS", pattern: /^93[0-9]{20}$/ }, // Certified Mail (22 digits, starts with 93)
-  { carrier: "USPS", pattern: /^420[0-9]{5,9}[0-9]{16,22}$/ }, // USPS with ZIP prefix
-  { carrier: "USPS", pattern: /^[A-Z]{2}[0-9]{9}US$/i }, // International format
-
-  // FedEx - specific prefixes
-  { carrier: "FEDEX", pattern: /^96[0-9]{10,22}$/ }, // SmartPost (starts with 96)
-  { carrier: "FEDEX", pattern: /^61[0-9]{18}$/ }, // FedEx Ground 96
-
-  // === LENGTH-BASED PATTERNS (less specific, checked last) ===
-  // These are fallbacks when no specific prefix matches
-
-  { carrier: "FEDEX", pattern: /^[0-9]{12}$/ }, // Express (12 digits)
-  { carrier: "FEDEX", pattern: /^[0-9]{15}$/ }, // Ground (15 digits)
-  { carrier: "USPS", pattern: /^[0-9]{20}$/ }, // USPS Standard 20 digits
-  { carrier: "FEDEX", pattern: /^[0-9]{22}$/ }, // Ground/Home Delivery (22 digits) - FedEx uses 22 digits too
-];
+const CARRIER_PATTERN_ORDER = getTrackingNumberPatterns();
 
 /**
- * Mapping of common carrier name variations to our Carrier enum
+ * Mapping of common carrier name variations to our Carrier enum,
+ * built from each registered carrier's name aliases.
  */
-const CARRIER_NAME_MAP: Record<string, Carrier> = {
-  // UPS variants
-  ups: "UPS",
-  "united parcel service": "UPS",
-  "ups ground": "UPS",
-  "ups next day air": "UPS",
-  "ups 2nd day air": "UPS",
-  "ups surepost": "UPS",
-  "ups mail innovations": "UPS",
-
-  // FedEx variants
-  fedex: "FEDEX",
-  "federal express": "FEDEX",
-  "fedex ground": "FEDEX",
-  "fedex express": "FEDEX",
-  "fedex home delivery": "FEDEX",
-  "fedex smartpost": "FEDEX",
-  "fedex 2day": "FEDEX",
-  "fedex overnight": "FEDEX",
-
-  // USPS variants
-  usps: "USPS",
-  "usps priority mail": "USPS",
-  "usps priority mail express": "USPS",
-  "usps ground advantage": "USPS",
-  "usps first class": "USPS",
-  "united states postal service": "USPS",
-  "us postal service": "USPS",
-};
+const CARRIER_NAME_MAP: Record<string, Carrier> = Object.fromEntries(
+  CARRIER_DEFINITIONS.flatMap((definition) =>
+    definition.nameAliases.map((alias) => [alias, definition.carrier])
+  )
+);
 
 /**
  * Detect carrier from tracking company name provided by Shopify.
@@ -109,24 +89,96 @@ export function detectCarrierFromCompany(trackingCompany: string | null | undefi
 }
 
 /**
- * Detect carrier from tracking number format.
- * Falls back to UNKNOWN if no pattern matches.
+ * Outcome of a tracking number's check digit for a carrier.
+ * "unchecked" means none of the carrier's matching formats defines a check digit.
  */
-export function detectCarrierFromTrackingNumber(trackingNumber: string | null | undefined): Carrier {
+export type TrackingNumberChecksumStatus = "valid" | "invalid" | "unchecked";
+
+/**
+ * Carrier detected from a tracking number, with how much the format supports it.
+ */
+export interface TrackingNumberDetection {
+  carrier: Carrier;
+  /** 0-1 score; see DETECTION_CONFIDENCE */
+  confidence: number;
+  checksum: TrackingNumberChecksumStatus;
+}
+
+/**
+ * Detection confidence by pattern specificity and check-digit outcome.
+ * A failed check digit means the number is most likely mistyped, whatever its format.
+ */
+const DETECTION_CONFIDENCE = {
+  prefix: { valid: 0.95, unchecked: 0.7 },
+  length: { valid: 0.75, unchecked: 0.4 },
+  invalid: 0.1,
+} as const;
+
+/**
+ * Detect the carrier for a tracking number and score the match.
+ *
+ * Every carrier whose patterns match is scored, and the highest score wins, so
+ * overlapping formats (e.g. 22-digit FedEx and USPS numbers) are settled by
+ * whichever check digit passes. Ties go to the carrier matched first in
+ * pattern order. Pass `carrier` to score only that carrier's formats, e.g. to
+ * check a number whose carrier came from Shopify's tracking_company.
+ */
+export function detectTrackingNumber(
+  trackingNumber: string | null | undefined,
+  carrier?: Carrier
+): TrackingNumberDetection {
+  const unmatched: TrackingNumberDetection = {
+    carrier: carrier ?? "UNKNOWN",
+    confidence: 0,
+    checksum: "unchecked",
+  };
+
   if (!trackingNumber) {
-    return "UNKNOWN";
+    return unmatched;
   }
 
   const cleaned = trackingNumber.replace(/[\s-]/g, "").toUpperCase();
 
-  // Check patterns in order - more specific patterns are first in the list
-  for (const { carrier, pattern } of CARRIER_PATTERN_ORDER) {
-    if (pattern.test(cleaned)) {
-      return carrier;
+  // Collect evidence per carrier; the first (most specific) match sets the specificity
+  const candidates = new Map<
+    SupportedCarrier,
+    { specificity: "prefix" | "length"; checksum: TrackingNumberChecksumStatus }
+  >();
+  for (const entry of CARRIER_PATTERN_ORDER) {
+    if ((carrier && entry.carrier !== carrier) || !entry.pattern.test(cleaned)) {
+      continue;
     }
+
+    const candidate = candidates.get(entry.carrier) ?? {
+      specificity: entry.specificity,
+      checksum: "unchecked",
+    };
+    if (entry.checksum && candidate.checksum !== "valid") {
+      candidate.checksum = entry.checksum(cleaned) ? "valid" : "invalid";
+    }
+    candidates.set(entry.carrier, candidate);
   }
 
-  return "UNKNOWN";
+  let best: TrackingNumberDetection | null = null;
+  for (const [candidateCarrier, { specificity, checksum }] of candidates) {
+    const confidence =
+      checksum === "invalid"
+        ? DETECTION_CONFIDENCE.invalid
+        : DETECTION_CONFIDENCE[specificity][checksum];
+    if (!best || confidence > best.confidence) {
+      best = { carrier: candidateCarrier, confidence, checksum };
+    }
+  }
+
+  return best ?? unmatched;
+}
+
+/**
+ * Detect carrier from tracking number format.
+ * Falls back to UNKNOWN if no pattern matches.
+ */
+export function detectCarrierFromTrackingNumber(trackingNumber: string | null | undefined): Carrier {
+  return detectTrackingNumber(trackingNumber).carrier;
 }
 
 /**
@@ -167,24 +219,13 @@ export function normalizeServiceLevel(serviceLevel: string | null | undefined):
  * Build tracking URL for a given carrier and tracking number.
  */
 export function buildTrackingUrl(carrier: Carrier, trackingNumber: string): string | null {
-  const encodedNumber = encodeURIComponent(trackingNumber);
-
-  switch (carrier) {
-    case "UPS":
-      return `https://www.ups.com/track?tracknum=${encodedNumber}`;
-    case "FEDEX":
-      return `https://www.fedex.com/fedextrack/?trknbr=${encodedNumber}`;
-    case "USPS":
-      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodedNumber}`;
-    case "UNKNOWN":
-    default:
-      return null;
-  }
+  return buildCarrierTrackingUrl(carrier, trackingNumber);
 }
 
 /**
  * Validate that a tracking number appears to be in a valid format.
- * This is a basic validation, not a guarantee that the number exists.
+ * Numbers in a format with a check digit must pass it. This is still not a
+ * guarantee that the number exists.
  */
 export function isValidTrackingNumber(trackingNumber: string | null | undefined): boolean {
   if (!trackingNumber) {
@@ -208,7 +249,8 @@ export function isValidTrackingNumber(trackingNumber: string | null | undefined)
     return false;
   }
 
-  return true;
+  // Reject numbers whose best carrier match fails its check digit (likely typos)
+  return detectTrackingNumber(cleaned).checksum !== "invalid";
 }
 
 /**
@@ -221,26 +263,10 @@ export function extractServiceLevelFromCompany(trackingCompany: string | null |
   }
 
   // Common patterns where service level is embedded in company name
-  const serviceLevelPatterns: Record<string, string> = {
-    // UPS
-    "ups ground": "ups_ground",
-    "ups next day air": "ups_next_day_air",
-    "ups 2nd day air": "ups_2nd_day_air",
-    "ups surepost": "ups_surepost",
-    "ups mail innovations": "ups_mail_innovations",
-    // FedEx
-    "fedex ground": "fedex_ground",
-    "fedex express": "fedex_express",
-    "fedex home delivery": "fedex_home_delivery",
-    "fedex smartpost": "fedex_smartpost",
-    "fedex 2day": "fedex_2day",
-    "fedex overnight": "fedex_overnight",
-    // USPS
-    "usps priority mail express": "usps_priority_mail_express",
-    "usps priority mail": "usps_priority_mail",
-    "usps ground advantage": "usps_ground_advantage",
-    "usps first class": "usps_first_class",
-  };
+  const serviceLevelPatterns: Record<string, string> = Object.assign(
+    {},
+    ...CARRIER_DEFINITIONS.map((definition) => definition.serviceLevelAliases)
+  );
 
   const normalized = trackingCompany.toLowerCase().trim();
 
@@ -253,35 +279,78 @@ export function extractServiceLevelFromCompany(trackingCompany: string | null |
   return null;
 }
 
+/**
+ * Adapter singleton getters for every registered carrier.
+ */
+const CARRIER_ADAPTERS: Record<SupportedCarrier, () => CarrierAdapter> = {
+  UPS: getUpsAdapter,
+  FEDEX: getFedexAdapter,
+  USPS: getUspsAdapter,
+  DHL: getDhlAdapter,
+  CANADA_POST: getCanadaPostAdapter,
+  PUROLATOR: getPurolatorAdapter,
+};
+
 /**
  * Get the appropriate carrier adapter for a given carrier.
  * Returns null for UNKNOWN carrier.
  */
 export function getCarrierAdapter(carrier: Carrier): CarrierAdapter | null {
-  switch (carrier) {
-    case "UPS":
-      return getUpsAdapter();
-    case "FEDEX":
-      return getFedexAdapter();
-    case "USPS":
-      return getUspsAdapter();
-    case "UNKNOWN":
-    default:
-      return null;
-  }
+  return isSupportedCarrier(carrier) ? CARRIER_ADAPTERS[carrier]() : null;
+}
+
+/**
+ * Response for requests refused by an open carrier circuit.
+ */
+function carrierUnavailable(carrier: Carrier): CarrierTrackingResponse {
+  return {
+    success: false,
+    error: {
+      code: "CARRIER_UNAVAILABLE",
+      message: `${carrier} API is degraded, request deferred until it recovers`,
+      retryable: false,
+    },
+  };
+}
+
+/**
+ * Response for a request not sent because the carrier's rate limit was reached.
+ */
+function carrierThrottled(carrier: Carrier): CarrierTrackingResponse {
+  return {
+    success: false,
+    error: {
+      code: "THROTTLED",
+      message: `${carrier} rate limit reached, request deferred`,
+      retryable: false,
+    },
+  };
+}
+
+/**
+ * Whether a response means a merchant's carrier account was rejected.
+ */
+function isAccountAuthFailure(response: CarrierTrackingResponse | undefined): boolean {
+  return response?.success === false && response.error.code === "AUTH_FAILED";
 }
 
 /**
  * Track a shipment using the appropriate carrier adapter.
  * Automatically routes to the correct adapter based on carrier.
  *
+ * When the merchant's own carrier account is rejected, the request is retried
+ * with the platform credentials so tracking keeps working until the merchant
+ * fixes their account.
+ *
  * @param carrier - The carrier to use for tracking
  * @param trackingNumber - The tracking number to look up
+ * @param account - Merchant carrier account to track with (platform credentials if omitted)
  * @returns Tracking result or error
  */
 export async function trackShipment(
   carrier: Carrier,
-  trackingNumber: string
+  trackingNumber: string,
+  account?: CarrierAccount
 ): Promise<CarrierTrackingResponse> {
   const adapter = getCarrierAdapter(carrier);
 
@@ -294,7 +363,135 @@ export async function trackShipment(
     return { success: false, error };
   }
 
-  return adapter.track(trackingNumber);
+  const permission = await allowCarrierRequest(carrier);
+  if (!permission.allowed) {
+    return carrierUnavailable(carrier);
+  }
+
+  let response: CarrierTrackingResponse | null = null;
+  if (account) {
+    if (!(await acquireCarrierToken(carrier, account.id))) {
+      return carrierThrottled(carrier);
+    }
+    response = await adapter.track(trackingNumber, account);
+    if (isAccountAuthFailure(response)) {
+      console.warn(
+        `[Carrier] ${carrier} account ${account.id} was rejected, falling back to platform credentials`
+      );
+      response = null;
+    }
+  }
+  if (!response) {
+    if (!(await acquireCarrierToken(carrier))) {
+      return carrierThrottled(carrier);
+    }
+    response = await adapter.track(trackingNumber);
+  }
+
+  await recordCarrierOutcome(carrier, isCarrierOutageResponse(response), permission.probe);
+  return response;
+}
+
+/**
+ * Track several shipments of the same carrier.
+ * Uses the adapter's batch endpoint when it has one, in requests of up to
+ * its maxBatchSize numbers, otherwise tracks each number in turn. Every requested tracking number has an entry in the result.
+ * A rejected merchant account falls back to the platform credentials, as in
+ * trackShipment.
+ *
+ * @param carrier - The carrier to use for tracking
+ * @param trackingNumbers - The tracking numbers to look up
+ * @param account - Merchant carrier account to track with (platform credentials if omitted)
+ * @returns Tracking result or error keyed by tracking number
+ */
+export async function trackShipmentsBatch(
+  carrier: Carrier,
+  trackingNumbers: string[],
+  account?: CarrierAccount
+): Promise<CarrierBatchTrackingResponse> {
+  const adapter = getCarrierAdapter(carrier);
+  const results: CarrierBatchTrackingResponse = new Map();
+
+  if (adapter?.trackBatch) {
+    // Each chunk is one request to the carrier
+    const chunks = chunkTrackingNumbers(trackingNumbers, adapter.maxBatchSize ?? trackingNumbers.length);
+    for (const chunk of chunks) {
+      const chunkResults = await trackBatchRequest(
+        carrier,
+        adapter.trackBatch.bind(adapter),
+        chunk,
+        account
+      );
+      for (const [trackingNumber, response] of chunkResults) {
+        results.set(trackingNumber, response);
+      }
+    }
+
+    for (const trackingNumber of trackingNumbers) {
+      if (!results.has(trackingNumber)) {
+        results.set(trackingNumber, await trackShipment(carrier, trackingNumber, account));
+      }
+    }
+    return results;
+  }
+
+  for (const trackingNumber of trackingNumbers) {
+    if (!results.has(trackingNumber)) {
+      results.set(trackingNumber, await trackShipment(carrier, trackingNumber, account));
+    }
+  }
+  return results;
+}
+
+/**
+ * Send one batch request (up to the adapter's maxBatchSize tracking numbers),
+ * taking a rate-limit token and recording its outcome with the circuit breaker.
+ * Numbers missing from the carrier's response are left out of the result.
+ */
+async function trackBatchRequest(
+  carrier: Carrier,
+  trackBatch: NonNullable<CarrierAdapter["trackBatch"]>,
+  trackingNumbers: string[],
+  account?: CarrierAccount
+): Promise<CarrierBatchTrackingResponse> {
+  const notSent = (response: CarrierTrackingResponse): CarrierBatchTrackingResponse =>
+    new Map(trackingNumbers.map((trackingNumber) => [trackingNumber, response]));
+
+  const permission = await allowCarrierRequest(carrier);
+  if (!permission.allowed) {
+    return notSent(carrierUnavailable(carrier));
+  }
+
+  if (!(await acquireCarrierToken(carrier, account?.id))) {
+    return notSent(carrierThrottled(carrier));
+  }
+
+  let batchResults = await trackBatch(trackingNumbers, account);
+  if (account && trackingNumbers.some((number) => isAccountAuthFailure(batchResults.get(number)))) {
+    console.warn(
+      `[Carrier] ${carrier} account ${account.id} was rejected, falling back to platform credentials`
+    );
+    if (!(await acquireCarrierToken(carrier))) {
+      return notSent(carrierThrottled(carrier));
+    }
+    batchResults = await trackBatch(trackingNumbers);
+  }
+
+  await recordCarrierOutcome(
+    carrier,
+    [...batchResults.values()].some(isCarrierOutageResponse),
+    permission.probe
+  );
+  return batchResults;
+}
+
+/**
+ * Get how many tracking numbers a carrier can track in one request.
+ * Returns 1 for carriers without a batch endpoint.
+ */
+export function getCarrierBatchSize(carrier: Carrier): number {
+  const adapter = getCarrierAdapter(carrier);
+  return adapter?.trackBatch && adapter.maxBatchSize ? adapter.maxBatchSize : 1;
 }
 
 /**
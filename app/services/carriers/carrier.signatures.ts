@@ -0,0 +1,57 @@
+/**
+ * Carrier Push Signatures
+ *
+ * Helpers for authenticating carrier push notifications. Carriers either
+ * echo a shared credential in a header (UPS Track Alert) or sign the raw
+ * body with a shared secret (FedEx). Comparisons are constant-time.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Compare two strings without leaking where they differ.
+ */
+function safeEqual(expected: string, received: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * Check a credential the carrier echoes back with each notification.
+ * Fails closed when no credential is configured.
+ */
+export function verifySharedCredential(
+  expected: string | undefined,
+  received: string | null
+): boolean {
+  if (!expected || !received) {
+    return false;
+  }
+  return safeEqual(expected, received);
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a request body.
+ */
+export function signHmacSha256(secret: string, rawBody: string): string {
+  return createHmac("sha256", secret).update(rawBody, "utf8").digest("hex");
+}
+
+/**
+ * Check a hex HMAC-SHA256 signature of the raw request body.
+ * Fails closed when no secret is configured.
+ */
+export function verifyHmacSha256Signature(
+  secret: string | undefined,
+  rawBody: string,
+  signature: string | null
+): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+  return safeEqual(signHmacSha256(secret, rawBody), signature.trim().toLowerCase());
+}
@@ -4,7 +4,8 @@
  * Shared types and constants used across carrier adapters.
  */
 
-import type { Carrier } from "@prisma/client";
+import type { ExceptionCategory, TrackingStatus } from "@prisma/client";
+import { CARRIER_DEFINITIONS, type SupportedCarrier } from "./carrier.registry";
 
 /**
  * Configuration for carrier API endpoints.
@@ -14,41 +15,80 @@ export interface CarrierApiConfig {
   baseUrl: string;
   /** OAuth token endpoint (for UPS/FedEx) */
   tokenUrl?: string;
-  /** Public tracking URL base for customer-facing links */
-  trackingUrlBase: string;
 }
 
 /**
- * Carrier API configurations.
- */
-export const CARRIER_CONFIGS: Record<Exclude<Carrier, "UNKNOWN">, CarrierApiConfig> = {
-  UPS: {
-    baseUrl: "https://onlinetools.ups.com/api",
-    tokenUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
-    trackingUrlBase: "https://www.ups.com/track?tracknum=",
-  },
-  FEDEX: {
-    baseUrl: "https://apis.fedex.com",
-    tokenUrl: "https://apis.fedex.com/oauth/token",
-    trackingUrlBase: "https://www.fedex.com/fedextrack/?trknbr=",
-  },
-  USPS: {
-    baseUrl: "https://secure.shippingapis.com",
-    trackingUrlBase: "https://tools.usps.com/go/TrackConfirmAction?tLabels=",
-  },
-};
+ * Apply environment overrides to a carrier's API endpoints, so adapters can be
+ * pointed at a local mock carrier server:
+ * - CARRIER_API_BASE_URL_<CARRIER> / CARRIER_API_TOKEN_URL_<CARRIER> override one carrier
+ * - CARRIER_API_MOCK_URL serves every other carrier from `<mock url>/<carrier>`
+ *   (OAuth tokens from `<mock url>/<carrier>/oauth/token`)
+ */
+export function resolveCarrierApiConfig(
+  carrier: SupportedCarrier,
+  api: CarrierApiConfig,
+  env: Record<string, string | undefined>
+): CarrierApiConfig {
+  const baseUrl = env[`CARRIER_API_BASE_URL_${carrier}`];
+  const tokenUrl = env[`CARRIER_API_TOKEN_URL_${carrier}`];
+  if (baseUrl || tokenUrl) {
+    return { ...api, ...(baseUrl && { baseUrl }), ...(tokenUrl && { tokenUrl }) };
+  }
+
+  const mockUrl = env.CARRIER_API_MOCK_URL?.replace(/\/+$/, "");
+  if (mockUrl) {
+    const mockBaseUrl = `${mockUrl}/${carrier.toLowerCase()}`;
+    return {
+      baseUrl: mockBaseUrl,
+      ...(api.tokenUrl && { tokenUrl: `${mockBaseUrl}/oauth/token` }),
+    };
+  }
+
+  return api;
+}
+
+/**
+ * Carrier API configurations, read from each carrier's registry definition
+ * with any environment overrides (see resolveCarrierApiConfig).
+ */
+export const CARRIER_CONFIGS = Object.fromEntries(
+  CARRIER_DEFINITIONS.map((definition) => [
+    definition.carrier,
+    resolveCarrierApiConfig(definition.carrier, definition.api, process.env),
+  ])
+) as Record<SupportedCarrier, CarrierApiConfig>;
 
 /**
  * Redis key prefix for cached carrier OAuth tokens.
  */
 export const CARRIER_TOKEN_CACHE_PREFIX = "carrier_token:";
 
+/**
+ * Redis key for a carrier's cached OAuth token. Tokens for a merchant's own
+ * carrier account are scoped to that account; platform tokens keep the
+ * unscoped key.
+ */
+export function getTokenCacheKey(carrier: SupportedCarrier, accountId?: string): string {
+  const key = `${CARRIER_TOKEN_CACHE_PREFIX}${carrier.toLowerCase()}`;
+  return accountId ? `${key}:${accountId}` : key;
+}
+
 /**
  * Buffer time to subtract from token expiration (in seconds).
  * Refresh tokens 60 seconds before they expire.
  */
 export const TOKEN_REFRESH_BUFFER_SECONDS = 60;
 
+/**
+ * Maximum tracking numbers per USPS TrackV2 request.
+ */
+export const USPS_MAX_BATCH_SIZE = 35;
+
+/**
+ * Maximum tracking numbers per FedEx Track API request.
+ */
+export const FEDEX_MAX_BATCH_SIZE = 30;
+
 /**
  * UPS status type codes.
  * @see https://developer.ups.com/api/reference/tracking
@@ -68,6 +108,19 @@ export const UPS_STATUS_TYPES = {
   UNKNOWN: "NA",
 } as const;
 
+/**
+ * UPS status types mapped to tracking statuses.
+ */
+export const UPS_TRACKING_STATUS_MAP: Record<string, TrackingStatus> = {
+  M: "LABEL_CREATED",
+  P: "PICKED_UP",
+  I: "IN_TRANSIT",
+  O: "OUT_FOR_DELIVERY",
+  X: "EXCEPTION",
+  RS: "RETURNED_TO_SENDER",
+  D: "DELIVERED",
+};
+
 /**
  * FedEx status codes that indicate delivery.
  */
@@ -87,6 +140,45 @@ export const FEDEX_EXCEPTION_KEYWORDS = [
   "customs",
 ] as const;
 
+/**
+ * FedEx latest status (derived) codes mapped to tracking statuses.
+ */
+export const FEDEX_TRACKING_STATUS_MAP: Record<string, TrackingStatus> = {
+  OC: "LABEL_CREATED",
+  IN: "LABEL_CREATED",
+  PU: "PICKED_UP",
+  PX: "PICKED_UP",
+  IT: "IN_TRANSIT",
+  AR: "IN_TRANSIT",
+  DP: "IN_TRANSIT",
+  OD: "OUT_FOR_DELIVERY",
+  DE: "DELIVERY_ATTEMPTED",
+  HL: "AVAILABLE_FOR_PICKUP",
+  SE: "EXCEPTION",
+  CD: "EXCEPTION",
+  RS: "RETURNED_TO_SENDER",
+  DL: "DELIVERED",
+};
+
+/**
+ * FedEx exception codes mapped to exception categories: delivery exception
+ * (DEX) reasons from ancillary details, and delay types and subtypes.
+ */
+export const FEDEX_EXCEPTION_CATEGORY_MAP: Record<string, ExceptionCategory> = {
+  DEX03: "ADDRESS_ISSUE",
+  DEX07: "REFUSED",
+  DEX08: "RECIPIENT_UNAVAILABLE",
+  WEATHER: "WEATHER",
+  SNOW: "WEATHER",
+  TORNADO: "WEATHER",
+  EARTHQUAKE: "WEATHER",
+  CLEARANCE: "CUSTOMS",
+  CUSTOMS: "CUSTOMS",
+  OPERATIONAL: "CARRIER_DELAY",
+  LOCAL: "CARRIER_DELAY",
+  GENERAL: "CARRIER_DELAY",
+};
+
 /**
  * USPS status keywords that indicate an exception/delay.
  */
@@ -97,6 +189,137 @@ export const USPS_EXCEPTION_KEYWORDS = ["Arriving Late", "Alert", "Exception", "
  */
 export const USPS_DELIVERED_KEYWORDS = ["Delivered", "Available for Pickup"] as const;
 
+/**
+ * DHL Unified Tracking API status codes.
+ * @see https://developer.dhl.com/api-reference/shipment-tracking
+ */
+export const DHL_STATUS_CODES = {
+  /** Shipment information received, not yet picked up */
+  PRE_TRANSIT: "pre-transit",
+  /** In Transit */
+  TRANSIT: "transit",
+  /** Delivered */
+  DELIVERED: "delivered",
+  /** Failure - delivery problem or exception */
+  FAILURE: "failure",
+  /** Unknown */
+  UNKNOWN: "unknown",
+} as const;
+
+/**
+ * USPS status categories (lowercased) mapped to tracking statuses.
+ */
+export const USPS_TRACKING_STATUS_MAP: Record<string, TrackingStatus> = {
+  "pre-shipment": "LABEL_CREATED",
+  accepted: "PICKED_UP",
+  "in transit": "IN_TRANSIT",
+  "out for delivery": "OUT_FOR_DELIVERY",
+  "delivery attempt": "DELIVERY_ATTEMPTED",
+  "available for pickup": "AVAILABLE_FOR_PICKUP",
+  alert: "EXCEPTION",
+  "return to sender": "RETURNED_TO_SENDER",
+  delivered: "DELIVERED",
+};
+
+/**
+ * DHL status codes mapped to tracking statuses.
+ */
+export const DHL_TRACKING_STATUS_MAP: Record<string, TrackingStatus> = {
+  [DHL_STATUS_CODES.PRE_TRANSIT]: "LABEL_CREATED",
+  [DHL_STATUS_CODES.TRANSIT]: "IN_TRANSIT",
+  [DHL_STATUS_CODES.FAILURE]: "EXCEPTION",
+  [DHL_STATUS_CODES.DELIVERED]: "DELIVERED",
+};
+
+/**
+ * DHL status keywords that indicate an exception/delay.
+ */
+export const DHL_EXCEPTION_KEYWORDS = [
+  "delay",
+  "exception",
+  "held",
+  "on hold",
+  "clearance event",
+  "incorrect address",
+  "recipient not available",
+  "returned",
+  "damaged",
+] as const;
+
+/**
+ * Canada Post event identifiers that indicate delivery.
+ * @see https://www.canadapost-postescanada.ca/information/app/drc/testing/trackingEventCodes
+ */
+export const CANADA_POST_DELIVERED_EVENT_IDS = [
+  "1408",
+  "1409",
+  "1421",
+  "1422",
+  "1423",
+  "1424",
+  "1425",
+  "1426",
+  "1427",
+  "1428",
+  "1429",
+  "1430",
+  "1431",
+  "1432",
+  "1433",
+  "1434",
+  "1441",
+  "1442",
+  "1496",
+  "1497",
+  "1498",
+  "1499",
+] as const;
+
+/**
+ * Canada Post event description keywords that indicate an exception/delay.
+ */
+export const CANADA_POST_EXCEPTION_KEYWORDS = [
+  "delay",
+  "attempted",
+  "unable to deliver",
+  "incorrect address",
+  "notice card",
+  "return to sender",
+  "held",
+  "damaged",
+] as const;
+
+/**
+ * Purolator scan types that indicate delivery.
+ */
+export const PUROLATOR_DELIVERED_SCAN_TYPES = ["Delivery", "ProofOfDelivery"] as const;
+
+/**
+ * Purolator scan types mapped to tracking statuses.
+ */
+export const PUROLATOR_TRACKING_STATUS_MAP: Record<string, TrackingStatus> = {
+  Pickup: "PICKED_UP",
+  OnDelivery: "OUT_FOR_DELIVERY",
+  Undeliverable: "EXCEPTION",
+  Delivery: "DELIVERED",
+  ProofOfDelivery: "DELIVERED",
+};
+
+/**
+ * Purolator scan description keywords that indicate an exception/delay.
+ */
+export const PUROLATOR_EXCEPTION_KEYWORDS = [
+  "delay",
+  "attempted",
+  "undeliverable",
+  "unable",
+  "incorrect address",
+  "held",
+  "returned",
+  "damaged",
+  "weather",
+] as const;
+
 /**
  * Format a location from city, state, and country components.
  */
@@ -190,3 +413,15 @@ export function parseCarrierDateTime(
 
   return date;
 }
+
+/**
+ * Split tracking numbers into request-sized batches, dropping duplicates.
+ */
+export function chunkTrackingNumbers(trackingNumbers: string[], batchSize: number): string[][] {
+  const unique = Array.from(new Set(trackingNumbers));
+  const batches: string[][] = [];
+  for (let i = 0; i < unique.length; i += batchSize) {
+    batches.push(unique.slice(i, i + batchSize));
+  }
+  return batches;
+}
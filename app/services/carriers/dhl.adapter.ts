@@ -0,0 +1,444 @@
+/**
+ * DHL Carrier Adapter
+ *
+ * Implements the CarrierAdapter interface for DHL Express using the
+ * DHL Shipment Tracking - Unified API.
+ * Uses a static API key (DHL-API-Key header), so no OAuth token caching is needed.
+ *
+ * @see https://developer.dhl.com/api-reference/shipment-tracking
+ */
+
+import type {
+  CarrierAccount,
+  CarrierAdapter,
+  CarrierError,
+  CarrierTrackingResponse,
+  TrackingEvent,
+  TrackingResult,
+} from "./carrier.interface";
+import {
+  CARRIER_CONFIGS,
+  DHL_STATUS_CODES,
+  DHL_EXCEPTION_KEYWORDS,
+  DHL_TRACKING_STATUS_MAP,
+  formatLocation,
+} from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
+import {
+  DhlTrackingResponseSchema,
+  DhlErrorResponseSchema,
+  type DhlShipment,
+  type DhlEvent,
+} from "./dhl.schemas";
+
+/**
+ * DHL Unified Tracking API endpoint.
+ */
+const DHL_TRACK_URL = `${CARRIER_CONFIGS.DHL.baseUrl}/track/shipments`;
+
+/**
+ * Get the DHL API key from the merchant's account, falling back to
+ * environment variables.
+ */
+function getApiKey(account?: CarrierAccount): string {
+  if (account) {
+    if (!account.credentials.apiKey) {
+      throw new Error("DHL account is missing an API key");
+    }
+    return account.credentials.apiKey;
+  }
+
+  const apiKey = process.env.DHL_API_KEY;
+
+  if (!apiKey) {
+    throw new Error("DHL_API_KEY environment variable is required");
+  }
+
+  return apiKey;
+}
+
+/**
+ * Parse ISO 8601 date string to Date object.
+ */
+function parseDate(dateStr: string | null | undefined): Date | null {
+  if (!dateStr) {
+    return null;
+  }
+
+  const date = new Date(dateStr);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check if a status description indicates an exception based on keywords.
+ */
+function isExceptionStatus(status: string | null | undefined): boolean {
+  if (!status) {
+    return false;
+  }
+
+  const lowerStatus = status.toLowerCase();
+  return DHL_EXCEPTION_KEYWORDS.some((keyword) => lowerStatus.includes(keyword));
+}
+
+/**
+ * Map DHL status code to human-readable status.
+ */
+function mapStatusCode(statusCode: string | null | undefined): string | null {
+  switch (statusCode) {
+    case DHL_STATUS_CODES.PRE_TRANSIT:
+      return "Label Created";
+    case DHL_STATUS_CODES.TRANSIT:
+      return "In Transit";
+    case DHL_STATUS_CODES.DELIVERED:
+      return "Delivered";
+    case DHL_STATUS_CODES.FAILURE:
+      return "Exception";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a DHL addressLocality into city and (optionally) country.
+ * DHL Express reports locations like "CINCINNATI HUB - CINCINNATI - USA".
+ */
+function parseLocality(locality: string | null | undefined): {
+  city: string | null;
+  country: string | null;
+} {
+  if (!locality) {
+    return { city: null, country: null };
+  }
+
+  const parts = locality.split(" - ").map((part) => part.trim()).filter(Boolean);
+  if (parts.length >= 3) {
+    return { city: parts[parts.length - 2], country: parts[parts.length - 1] };
+  }
+
+  return { city: parts[0] ?? null, country: null };
+}
+
+/**
+ * Parse DHL events into TrackingEvents.
+ */
+function parseEvents(events: DhlEvent[] | null | undefined): TrackingEvent[] {
+  if (!events) {
+    return [];
+  }
+
+  return events
+    .map((event): TrackingEvent | null => {
+      const timestamp = parseDate(event.timestamp);
+      if (!timestamp) {
+        return null;
+      }
+
+      const address = event.location?.address;
+      const locality = parseLocality(address?.addressLocality);
+
+      return {
+        timestamp,
+        type: event.statusCode ?? "UNKNOWN",
+        description: event.description ?? event.status ?? "Status update",
+        city: locality.city,
+        state: address?.addressRegion ?? null,
+        country: address?.countryCode ?? locality.country,
+        rawData: event,
+      };
+    })
+    .filter((event): event is TrackingEvent => event !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()); // Most recent first
+}
+
+/**
+ * Extract expected delivery date from DHL response.
+ */
+function extractExpectedDeliveryDate(shipment: DhlShipment): Date | null {
+  // Try estimatedTimeOfDelivery first
+  if (shipment.estimatedTimeOfDelivery) {
+    return parseDate(shipment.estimatedTimeOfDelivery);
+  }
+
+  // Fall back to end of the estimated delivery time frame
+  const timeFrame = shipment.estimatedDeliveryTimeFrame;
+  if (timeFrame?.estimatedThrough) {
+    return parseDate(timeFrame.estimatedThrough);
+  }
+
+  return null;
+}
+
+/**
+ * Extract delivery timestamp from DHL response.
+ */
+function extractDeliveredAt(shipment: DhlShipment, events: TrackingEvent[]): Date | null {
+  // Find delivery event in history
+  const deliveryEvent = events.find((e) => e.type === DHL_STATUS_CODES.DELIVERED);
+  if (deliveryEvent) {
+    return deliveryEvent.timestamp;
+  }
+
+  // Fall back to the current status timestamp
+  return parseDate(shipment.status?.timestamp);
+}
+
+/**
+ * Create a CarrierError from various error conditions.
+ */
+function createError(
+  code: CarrierError["code"],
+  message: string,
+  retryable: boolean,
+  rawError?: unknown
+): CarrierError {
+  return { code, message, retryable, rawError };
+}
+
+/**
+ * DHL Carrier Adapter Implementation
+ */
+export class DhlAdapter implements CarrierAdapter {
+  readonly carrier = "DHL" as const;
+
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
+    try {
+      // Get API key
+      let apiKey: string;
+      try {
+        apiKey = getApiKey(account);
+      } catch (error) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "DHL_API_KEY not configured",
+            false,
+            error
+          ),
+        };
+      }
+
+      // Build URL with query parameters
+      const url = new URL(DHL_TRACK_URL);
+      url.searchParams.set("trackingNumber", trackingNumber);
+      url.searchParams.set("service", "express");
+
+      // Call DHL Tracking API
+      const response = await fetch(url.toString(), {
+        method: "GET",
+        headers: {
+          "DHL-API-Key": apiKey,
+          Accept: "application/json",
+        },
+      });
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        return {
+          success: false,
+          error: createError(
+            "RATE_LIMITED",
+            "DHL API rate limit exceeded",
+            true
+          ),
+        };
+      }
+
+      // Handle auth errors (invalid or revoked API key)
+      if (response.status === 401 || response.status === 403) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "DHL authentication failed, API key may be invalid",
+            false
+          ),
+        };
+      }
+
+      // Handle not found
+      if (response.status === 404) {
+        const errorText = await response.text();
+        let detail: string | null = null;
+        try {
+          const parsed = DhlErrorResponseSchema.safeParse(JSON.parse(errorText));
+          detail = parsed.success ? parsed.data.detail ?? parsed.data.title ?? null : null;
+        } catch {
+          // Body is not JSON, use default message
+        }
+
+        return {
+          success: false,
+          error: createError(
+            "TRACKING_NOT_FOUND",
+            detail ?? `Tracking number ${trackingNumber} not found in DHL system`,
+            false,
+            { status: response.status, body: errorText }
+          ),
+        };
+      }
+
+      // Handle other errors
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          error: createError(
+            "API_ERROR",
+            `DHL API error: ${response.status} ${errorText}`,
+            response.status >= 500,
+            { status: response.status, body: errorText }
+          ),
+        };
+      }
+
+      // Parse response
+      let rawResponse: unknown;
+      try {
+        rawResponse = await response.json();
+      } catch {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            "Failed to parse DHL API response as JSON",
+            false
+          ),
+        };
+      }
+
+      // Validate response schema
+      const parseResult = DhlTrackingResponseSchema.safeParse(rawResponse);
+      if (!parseResult.success) {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            `Invalid DHL API response format: ${parseResult.error.message}`,
+            false,
+            { raw: rawResponse, zodError: parseResult.error }
+          ),
+        };
+      }
+
+      const shipment = parseResult.data.shipments?.[0];
+      if (!shipment) {
+        return {
+          success: false,
+          error: createError(
+            "TRACKING_NOT_FOUND",
+            `No shipment data returned for tracking number ${trackingNumber}`,
+            false,
+            rawResponse
+          ),
+        };
+      }
+
+      // Parse tracking events
+      const events = parseEvents(shipment.events);
+
+      // Get current status
+      const currentEvent = shipment.status ?? shipment.events?.[0];
+      const statusCode = currentEvent?.statusCode ?? null;
+      const statusDescription = currentEvent?.description ?? currentEvent?.status ?? "Unknown";
+
+      // Check for exception
+      const isException =
+        statusCode === DHL_STATUS_CODES.FAILURE || isExceptionStatus(statusDescription);
+      const exceptionCode = isException ? statusCode : null;
+      const exceptionReason = isException ? statusDescription : null;
+
+      // Check for delivery
+      const isDelivered = statusCode === DHL_STATUS_CODES.DELIVERED;
+      const deliveredAt = isDelivered ? extractDeliveredAt(shipment, events) : null;
+
+      // Get last scan info
+      const lastEvent = events[0];
+      const lastScanLocation = lastEvent
+        ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
+        : null;
+      const lastScanTime = lastEvent?.timestamp ?? null;
+
+      // Normalize status and exception category
+      const status = normalizeTrackingStatus({
+        codeStatus: statusCode ? DHL_TRACKING_STATUS_MAP[statusCode] : null,
+        description: statusDescription,
+        isDelivered,
+        isException,
+        hasEvents: events.length > 0,
+      });
+      const exceptionCategory = normalizeExceptionCategory({
+        reason: exceptionReason,
+        description: statusDescription,
+        isException,
+        status,
+      });
+
+      // Build result
+      const result: TrackingResult = {
+        trackingNumber,
+        carrier: "DHL",
+        currentStatus: mapStatusCode(statusCode) ?? statusDescription,
+        status,
+        isException,
+        exceptionCode,
+        exceptionReason,
+        exceptionCategory,
+        expectedDeliveryDate: extractExpectedDeliveryDate(shipment),
+        rescheduledDeliveryDate: null, // DHL updates estimatedTimeOfDelivery in place
+        isDelivered,
+        deliveredAt,
+        lastScanLocation,
+        lastScanTime,
+        events,
+      };
+
+      return { success: true, data: result };
+    } catch (error) {
+      // Handle network errors
+      if (error instanceof TypeError && error.message.includes("fetch")) {
+        return {
+          success: false,
+          error: createError(
+            "NETWORK_ERROR",
+            "Network error connecting to DHL API",
+            true,
+            error
+          ),
+        };
+      }
+
+      return {
+        success: false,
+        error: createError(
+          "API_ERROR",
+          `Unexpected error tracking DHL package: ${error instanceof Error ? error.message : String(error)}`,
+          true,
+          error
+        ),
+      };
+    }
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return renderTrackingUrl(CARRIER_REGISTRY.DHL, trackingNumber);
+  }
+}
+
+/**
+ * Singleton instance of the DHL adapter.
+ */
+let dhlAdapterInstance: DhlAdapter | null = null;
+
+/**
+ * Get the DHL adapter singleton.
+ */
+export function getDhlAdapter(): DhlAdapter {
+  if (!dhlAdapterInstance) {
+    dhlAdapterInstance = new DhlAdapter();
+  }
+  return dhlAdapterInstance;
+}
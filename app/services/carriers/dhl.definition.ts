@@ -0,0 +1,51 @@
+/**
+ * DHL Carrier Definition
+ *
+ * Client-safe DHL Express metadata registered in the carrier registry.
+ */
+
+import { MAJOR_CARRIER_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+
+export const dhlDefinition: CarrierDefinition = {
+  carrier: "DHL",
+  displayName: "DHL Express",
+  shortName: "DHL",
+  api: {
+    baseUrl: "https://api-eu.dhl.com",
+  },
+  trackingUrlTemplate:
+    "https://www.dhl.com/us-en/home/tracking/tracking-express.html?submit=1&tracking-id={trackingNumber}",
+  trackingNumberPatterns: [
+    { pattern: /^JJD[0-9]{10,20}$/i, specificity: "prefix", description: "DHL Express piece ID" },
+    { pattern: /^JD[0-9]{18}$/i, specificity: "prefix", description: "DHL Express piece ID (short prefix)" },
+    { pattern: /^[0-9]{10}$/, specificity: "length", description: "DHL Express waybill (10 digits)" },
+  ],
+  nameAliases: [
+    "dhl",
+    "dhl express",
+    "dhl express worldwide",
+    "dhl worldwide express",
+    "dhl economy select",
+  ],
+  serviceLevelAliases: {
+    "dhl express worldwide": "dhl_express_worldwide",
+    "dhl express 9:00": "dhl_express_9_00",
+    "dhl express 10:30": "dhl_express_10_30",
+    "dhl express 12:00": "dhl_express_12_00",
+    "dhl economy select": "dhl_economy_select",
+  },
+  deliveryWindows: {
+    dhl_express_9_00: 1,
+    dhl_express_10_30: 1,
+    dhl_express_12_00: 1,
+    dhl_express_worldwide: 4,
+    dhl_express_easy: 4,
+    dhl_economy_select: 7,
+  },
+  defaultDeliveryWindow: 5,
+  credentialFields: [{ key: "apiKey", label: "API key", secret: true }],
+  testTrackingNumber: "00340434161094042557",
+  rateLimit: { requestsPerSecond: 1, burst: 3 },
+  holidays: MAJOR_CARRIER_HOLIDAYS,
+};
@@ -0,0 +1,122 @@
+/**
+ * DHL API Response Schemas
+ *
+ * Zod schemas for validating DHL Shipment Tracking - Unified API responses.
+ * Used for DHL Express shipments (service=express).
+ *
+ * @see https://developer.dhl.com/api-reference/shipment-tracking
+ */
+
+import { z } from "zod";
+
+/**
+ * DHL Address schema.
+ */
+export const DhlAddressSchema = z
+  .object({
+    addressLocality: z.string().nullable().optional(),
+    addressRegion: z.string().nullable().optional(),
+    postalCode: z.string().nullable().optional(),
+    countryCode: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlAddress = z.infer<typeof DhlAddressSchema>;
+
+/**
+ * DHL Location schema.
+ */
+export const DhlLocationSchema = z
+  .object({
+    address: DhlAddressSchema.nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlLocation = z.infer<typeof DhlLocationSchema>;
+
+/**
+ * DHL Status / Event schema.
+ * The shipment's current status and each history event share this shape.
+ */
+export const DhlEventSchema = z
+  .object({
+    timestamp: z.string().nullable().optional(),
+    location: DhlLocationSchema.nullable().optional(),
+    statusCode: z.string().nullable().optional(),
+    status: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+    remark: z.string().nullable().optional(),
+    nextSteps: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlEvent = z.infer<typeof DhlEventSchema>;
+
+/**
+ * DHL Estimated Delivery Time Frame schema.
+ */
+export const DhlDeliveryTimeFrameSchema = z
+  .object({
+    estimatedFrom: z.string().nullable().optional(),
+    estimatedThrough: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlDeliveryTimeFrame = z.infer<typeof DhlDeliveryTimeFrameSchema>;
+
+/**
+ * DHL Shipment schema (main tracking data for one waybill).
+ */
+export const DhlShipmentSchema = z
+  .object({
+    id: z.string().nullable().optional(),
+    service: z.string().nullable().optional(),
+    origin: DhlLocationSchema.nullable().optional(),
+    destination: DhlLocationSchema.nullable().optional(),
+    status: DhlEventSchema.nullable().optional(),
+    estimatedTimeOfDelivery: z.string().nullable().optional(),
+    estimatedDeliveryTimeFrame: DhlDeliveryTimeFrameSchema.nullable().optional(),
+    details: z
+      .object({
+        product: z
+          .object({
+            productName: z.string().nullable().optional(),
+          })
+          .passthrough()
+          .nullable()
+          .optional(),
+        totalNumberOfPieces: z.number().nullable().optional(),
+        pieceIds: z.array(z.string()).nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    events: z.array(DhlEventSchema).nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlShipment = z.infer<typeof DhlShipmentSchema>;
+
+/**
+ * Full DHL API Tracking Response schema.
+ */
+export const DhlTrackingResponseSchema = z
+  .object({
+    shipments: z.array(DhlShipmentSchema).nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlTrackingResponse = z.infer<typeof DhlTrackingResponseSchema>;
+
+/**
+ * DHL API Error Response schema (RFC 7807 problem details).
+ */
+export const DhlErrorResponseSchema = z
+  .object({
+    title: z.string().nullable().optional(),
+    status: z.number().nullable().optional(),
+    detail: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type DhlErrorResponse = z.infer<typeof DhlErrorResponseSchema>;
@@ -3,13 +3,17 @@
  *
  * Implements the CarrierAdapter interface for FedEx Track API.
  * Uses OAuth 2.0 client credentials for authentication with token caching in Redis.
+ * A single Track API request accepts up to 30 tracking numbers.
  *
  * @see https://developer.fedex.com/api/en-us/catalog/track.html
  */
 
+import type { TrackingStatus } from "@prisma/client";
 import { getRedisConnection } from "~/queue.server";
 import type {
+  CarrierAccount,
   CarrierAdapter,
+  CarrierBatchTrackingResponse,
   CarrierError,
   CarrierTrackingResponse,
   CachedToken,
@@ -18,23 +22,27 @@ import type {
 } from "./carrier.interface";
 import {
   CARRIER_CONFIGS,
-  CARRIER_TOKEN_CACHE_PREFIX,
   TOKEN_REFRESH_BUFFER_SECONDS,
   FEDEX_DELIVERED_CODES,
+  FEDEX_EXCEPTION_CATEGORY_MAP,
   FEDEX_EXCEPTION_KEYWORDS,
+  FEDEX_MAX_BATCH_SIZE,
+  FEDEX_TRACKING_STATUS_MAP,
+  chunkTrackingNumbers,
   formatLocation,
+  getTokenCacheKey,
 } from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
+import { verifyHmacSha256Signature } from "./carrier.signatures";
 import {
   FedexTrackingResponseSchema,
+  type FedexCompleteTrackResult,
   type FedexTrackingInfo,
   type FedexScanEvent,
 } from "./fedex.schemas";
 
-/**
- * Redis key for FedEx OAuth token cache.
- */
-const FEDEX_TOKEN_CACHE_KEY = `${CARRIER_TOKEN_CACHE_PREFIX}fedex`;
-
 /**
  * FedEx OAuth token endpoint.
  */
@@ -46,14 +54,23 @@ const FEDEX_TOKEN_URL = CARRIER_CONFIGS.FEDEX.tokenUrl!;
 const FEDEX_TRACK_URL = `${CARRIER_CONFIGS.FEDEX.baseUrl}/track/v1/trackingnumbers`;
 
 /**
- * FedEx Tracking URL base for customer-facing links.
+ * Header carrying the HMAC-SHA256 signature of a FedEx webhook body.
  */
-const FEDEX_TRACKING_URL_BASE = CARRIER_CONFIGS.FEDEX.trackingUrlBase;
+const FEDEX_SIGNATURE_HEADER = "fdx-signature";
 
 /**
- * Get FedEx API credentials from environment variables.
+ * Get FedEx API credentials from the merchant's account, falling back to
+ * environment variables.
  */
-function getCredentials(): { clientId: string; clientSecret: string } {
+function getCredentials(account?: CarrierAccount): { clientId: string; clientSecret: string } {
+  if (account) {
+    const { clientId, clientSecret } = account.credentials;
+    if (!clientId || !clientSecret) {
+      throw new Error("FedEx account is missing an API key or secret key");
+    }
+    return { clientId, clientSecret };
+  }
+
   const clientId = process.env.FEDEX_CLIENT_ID;
   const clientSecret = process.env.FEDEX_CLIENT_SECRET;
 
@@ -67,11 +84,12 @@ function getCredentials(): { clientId: string; clientSecret: string } {
 /**
  * Get a valid OAuth token, using cache or refreshing if needed.
  */
-async function getAccessToken(): Promise<string> {
+async function getAccessToken(account?: CarrierAccount): Promise<string> {
   const redis = getRedisConnection();
+  const cacheKey = getTokenCacheKey("FEDEX", account?.id);
 
   // Try to get cached token
-  const cachedTokenStr = await redis.get(FEDEX_TOKEN_CACHE_KEY);
+  const cachedTokenStr = await redis.get(cacheKey);
   if (cachedTokenStr) {
     try {
       const cachedToken: CachedToken = JSON.parse(cachedTokenStr);
@@ -85,7 +103,7 @@ async function getAccessToken(): Promise<string> {
   }
 
   // Refresh token using client credentials grant
-  const { clientId, clientSecret } = getCredentials();
+  const { clientId, clientSecret } = getCredentials(account);
 
   const params = new URLSearchParams();
   params.append("grant_type", "client_credentials");
@@ -113,7 +131,7 @@ async function getAccessToken(): Promise<string> {
   const cachedToken: CachedToken = { accessToken: access_token, expiresAt };
   const ttlSeconds = expires_in - TOKEN_REFRESH_BUFFER_SECONDS;
 
-  await redis.set(FEDEX_TOKEN_CACHE_KEY, JSON.stringify(cachedToken), "EX", ttlSeconds);
+  await redis.set(cacheKey, JSON.stringify(cachedToken), "EX", ttlSeconds);
 
   return access_token;
 }
@@ -167,6 +185,13 @@ function mapStatus(trackingInfo: FedexTrackingInfo): string {
   return latestStatus.statusByLocale ?? latestStatus.description ?? "Unknown";
 }
 
+/**
+ * Map a FedEx status code to a tracking status, if the code is known.
+ */
+function mapTrackingStatus(code: string | null | undefined): TrackingStatus | null {
+  return code ? FEDEX_TRACKING_STATUS_MAP[code] ?? null : null;
+}
+
 /**
  * Parse FedEx scan events into TrackingEvents.
  */
@@ -289,40 +314,190 @@ function createError(
   return { code, message, retryable, rawError };
 }
 
+/**
+ * Build a result map that gives every tracking number the same error.
+ */
+function failAll(trackingNumbers: string[], error: CarrierError): CarrierBatchTrackingResponse {
+  return new Map(trackingNumbers.map((trackingNumber) => [trackingNumber, { success: false, error }]));
+}
+
+/**
+ * Parse the complete track result for one tracking number.
+ */
+function parseCompleteTrackResult(
+  trackingNumber: string,
+  completeTrackResult: FedexCompleteTrackResult | undefined,
+  rawResponse: unknown
+): CarrierTrackingResponse {
+  const trackResults = completeTrackResult?.trackResults;
+  if (!trackResults || trackResults.length === 0) {
+    return {
+      success: false,
+      error: createError(
+        "TRACKING_NOT_FOUND",
+        `No tracking results for tracking number ${trackingNumber}`,
+        false,
+        rawResponse
+      ),
+    };
+  }
+
+  const trackingInfo = trackResults[0];
+
+  // Check for per-tracking-number error
+  if (trackingInfo.error) {
+    return {
+      success: false,
+      error: createError(
+        "TRACKING_NOT_FOUND",
+        trackingInfo.error.message ?? `Tracking number ${trackingNumber} not found`,
+        false,
+        rawResponse
+      ),
+    };
+  }
+
+  // Parse tracking events
+  const events = parseScanEvents(trackingInfo.scanEvents);
+
+  // Get current status
+  const latestStatus = trackingInfo.latestStatusDetail;
+  const statusCode = latestStatus?.code ?? null;
+  const statusDescription = mapStatus(trackingInfo);
+
+  // Check for exception
+  const delayDetail = trackingInfo.delayDetail;
+  const hasDelayException =
+    delayDetail && delayDetail.status && delayDetail.status !== "ON_TIME" && delayDetail.status !== "EARLY";
+  const hasStatusException = isExceptionStatus(statusDescription);
+  const isException = hasDelayException || hasStatusException;
+
+  // Extract exception details
+  let exceptionCode: string | null = null;
+  let exceptionReason: string | null = null;
+
+  if (isException) {
+    if (latestStatus?.ancillaryDetails && latestStatus.ancillaryDetails.length > 0) {
+      const ancillary = latestStatus.ancillaryDetails[0];
+      exceptionCode = ancillary.reason ?? null;
+      exceptionReason = ancillary.reasonDescription ?? ancillary.actionDescription ?? null;
+    } else if (delayDetail) {
+      exceptionCode = delayDetail.subType ?? delayDetail.type ?? null;
+      exceptionReason = delayDetail.status ?? null;
+    } else {
+      exceptionReason = statusDescription;
+    }
+  }
+
+  // Check for delivery
+  const isDelivered = isDeliveredStatus(statusCode);
+  const deliveredAt = isDelivered ? extractDeliveredAt(trackingInfo) : null;
+
+  // Get last scan info
+  const lastEvent = events[0];
+  const lastScanLocation = lastEvent
+    ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
+    : null;
+  const lastScanTime = lastEvent?.timestamp ?? null;
+
+  // Normalize status and exception category
+  const status = normalizeTrackingStatus({
+    codeStatus: mapTrackingStatus(latestStatus?.derivedCode ?? statusCode),
+    description: statusDescription,
+    isDelivered,
+    isException,
+    hasEvents: events.length > 0,
+  });
+  const exceptionCategory = normalizeExceptionCategory({
+    codeCategory: exceptionCode ? FEDEX_EXCEPTION_CATEGORY_MAP[exceptionCode] : null,
+    reason: exceptionReason,
+    description: statusDescription,
+    isException,
+    status,
+  });
+
+  // Build result
+  const result: TrackingResult = {
+    trackingNumber,
+    carrier: "FEDEX",
+    currentStatus: statusDescription,
+    status,
+    isException,
+    exceptionCode,
+    exceptionReason,
+    exceptionCategory,
+    expectedDeliveryDate: extractExpectedDeliveryDate(trackingInfo),
+    rescheduledDeliveryDate: extractRescheduledDeliveryDate(trackingInfo),
+    isDelivered,
+    deliveredAt,
+    lastScanLocation,
+    lastScanTime,
+    events,
+  };
+
+  return { success: true, data: result };
+}
+
 /**
  * FedEx Carrier Adapter Implementation
  */
 export class FedexAdapter implements CarrierAdapter {
   readonly carrier = "FEDEX" as const;
 
-  async track(trackingNumber: string): Promise<CarrierTrackingResponse> {
+  readonly maxBatchSize = FEDEX_MAX_BATCH_SIZE;
+
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
+    const results = await this.requestTracking([trackingNumber], account);
+    return results.get(trackingNumber)!;
+  }
+
+  async trackBatch(
+    trackingNumbers: string[],
+    account?: CarrierAccount
+  ): Promise<CarrierBatchTrackingResponse> {
+    const results: CarrierBatchTrackingResponse = new Map();
+    for (const batch of chunkTrackingNumbers(trackingNumbers, this.maxBatchSize)) {
+      for (const [trackingNumber, response] of await this.requestTracking(batch, account)) {
+        results.set(trackingNumber, response);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Send one Track API request for up to FEDEX_MAX_BATCH_SIZE tracking numbers.
+   */
+  private async requestTracking(
+    trackingNumbers: string[],
+    account?: CarrierAccount
+  ): Promise<CarrierBatchTrackingResponse> {
+    const label = trackingNumbers.join(", ");
+
     try {
       // Get OAuth token
       let accessToken: string;
       try {
-        accessToken = await getAccessToken();
+        accessToken = await getAccessToken(account);
       } catch (error) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "AUTH_FAILED",
             "Failed to obtain FedEx OAuth token",
             true,
             error
-          ),
-        };
+          )
+        );
       }
 
       // Build request body
       const requestBody = {
         includeDetailedScans: true,
-        trackingInfo: [
-          {
-            trackingNumberInfo: {
-              trackingNumber: trackingNumber,
-            },
+        trackingInfo: trackingNumbers.map((trackingNumber) => ({
+          trackingNumberInfo: {
+            trackingNumber,
           },
-        ],
+        })),
       };
 
       // Call FedEx Track API
@@ -338,44 +513,44 @@ export class FedexAdapter implements CarrierAdapter {
 
       // Handle rate limiting
       if (response.status === 429) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "RATE_LIMITED",
             "FedEx API rate limit exceeded",
             true
-          ),
-        };
+          )
+        );
       }
 
       // Handle auth errors (token may have been revoked)
       if (response.status === 401) {
         // Clear cached token
         const redis = getRedisConnection();
-        await redis.del(FEDEX_TOKEN_CACHE_KEY);
+        await redis.del(getTokenCacheKey("FEDEX", account?.id));
 
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "AUTH_FAILED",
             "FedEx authentication failed, token may have expired",
             true
-          ),
-        };
+          )
+        );
       }
 
       // Handle other errors
       if (!response.ok) {
         const errorText = await response.text();
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "API_ERROR",
             `FedEx API error: ${response.status} ${errorText}`,
             response.status >= 500,
             { status: response.status, body: errorText }
-          ),
-        };
+          )
+        );
       }
 
       // Parse response
@@ -383,28 +558,28 @@ export class FedexAdapter implements CarrierAdapter {
       try {
         rawResponse = await response.json();
       } catch {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "PARSE_ERROR",
             "Failed to parse FedEx API response as JSON",
             false
-          ),
-        };
+          )
+        );
       }
 
       // Validate response schema
       const parseResult = FedexTrackingResponseSchema.safeParse(rawResponse);
       if (!parseResult.success) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "PARSE_ERROR",
             `Invalid FedEx API response format: ${parseResult.error.message}`,
             false,
             { raw: rawResponse, zodError: parseResult.error }
-          ),
-        };
+          )
+        );
       }
 
       const fedexResponse = parseResult.data;
@@ -415,136 +590,124 @@ export class FedexAdapter implements CarrierAdapter {
           (a) => a.alertType === "ERROR" || a.code === "TRACKING.TRACKINGNUMBER.NOTFOUND"
         );
         if (errorAlert) {
-          return {
-            success: false,
-            error: createError(
+          return failAll(
+            trackingNumbers,
+            createError(
               "TRACKING_NOT_FOUND",
-              errorAlert.message ?? `Tracking number ${trackingNumber} not found`,
+              errorAlert.message ?? `Tracking number ${label} not found`,
               false,
               rawResponse
-            ),
-          };
+            )
+          );
         }
       }
 
       // Extract tracking info
       const completeTrackResults = fedexResponse.output?.completeTrackResults;
       if (!completeTrackResults || completeTrackResults.length === 0) {
-        return {
-          success: false,
-          error: createError(
-            "TRACKING_NOT_FOUND",
-            `No tracking data returned for tracking number ${trackingNumber}`,
-            false,
-            rawResponse
-          ),
-        };
-      }
-
-      const trackResults = completeTrackResults[0].trackResults;
-      if (!trackResults || trackResults.length === 0) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "TRACKING_NOT_FOUND",
-            `No tracking results for tracking number ${trackingNumber}`,
+            `No tracking data returned for tracking number ${label}`,
             false,
             rawResponse
-          ),
-        };
+          )
+        );
       }
 
-      const trackingInfo = trackResults[0];
-
-      // Parse tracking events
-      const events = parseScanEvents(trackingInfo.scanEvents);
-
-      // Get current status
-      const latestStatus = trackingInfo.latestStatusDetail;
-      const statusCode = latestStatus?.code ?? null;
-      const statusDescription = mapStatus(trackingInfo);
-
-      // Check for exception
-      const delayDetail = trackingInfo.delayDetail;
-      const hasDelayException =
-        delayDetail && delayDetail.status && delayDetail.status !== "ON_TIME" && delayDetail.status !== "EARLY";
-      const hasStatusException = isExceptionStatus(statusDescription);
-      const isException = hasDelayException || hasStatusException;
-
-      // Extract exception details
-      let exceptionCode: string | null = null;
-      let exceptionReason: string | null = null;
-
-      if (isException) {
-        if (latestStatus?.ancillaryDetails && latestStatus.ancillaryDetails.length > 0) {
-          const ancillary = latestStatus.ancillaryDetails[0];
-          exceptionCode = ancillary.reason ?? null;
-          exceptionReason = ancillary.reasonDescription ?? ancillary.actionDescription ?? null;
-        } else if (delayDetail) {
-          exceptionCode = delayDetail.subType ?? delayDetail.type ?? null;
-          exceptionReason = delayDetail.status ?? null;
-        } else {
-          exceptionReason = statusDescription;
+      // Match results to tracking numbers, falling back to request order
+      const resultsByNumber = new Map<string, FedexCompleteTrackResult>();
+      for (const result of completeTrackResults) {
+        if (result.trackingNumber) {
+          resultsByNumber.set(result.trackingNumber, result);
         }
       }
 
-      // Check for delivery
-      const isDelivered = isDeliveredStatus(statusCode);
-      const deliveredAt = isDelivered ? extractDeliveredAt(trackingInfo) : null;
-
-      // Get last scan info
-      const lastEvent = events[0];
-      const lastScanLocation = lastEvent
-        ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
-        : null;
-      const lastScanTime = lastEvent?.timestamp ?? null;
-
-      // Build result
-      const result: TrackingResult = {
-        trackingNumber,
-        carrier: "FEDEX",
-        currentStatus: statusDescription,
-        isException,
-        exceptionCode,
-        exceptionReason,
-        expectedDeliveryDate: extractExpectedDeliveryDate(trackingInfo),
-        rescheduledDeliveryDate: extractRescheduledDeliveryDate(trackingInfo),
-        isDelivered,
-        deliveredAt,
-        lastScanLocation,
-        lastScanTime,
-        events,
-      };
+      const results: CarrierBatchTrackingResponse = new Map();
+      trackingNumbers.forEach((trackingNumber, index) => {
+        const completeTrackResult =
+          resultsByNumber.size > 0
+            ? resultsByNumber.get(trackingNumber)
+            : completeTrackResults[index];
+        results.set(
+          trackingNumber,
+          parseCompleteTrackResult(trackingNumber, completeTrackResult, rawResponse)
+        );
+      });
 
-      return { success: true, data: result };
+      return results;
     } catch (error) {
       // Handle network errors
       if (error instanceof TypeError && error.message.includes("fetch")) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "NETWORK_ERROR",
             "Network error connecting to FedEx API",
             true,
             error
-          ),
-        };
+          )
+        );
       }
 
-      return {
-        success: false,
-        error: createError(
+      return failAll(
+        trackingNumbers,
+        createError(
           "API_ERROR",
           `Unexpected error tracking FedEx package: ${error instanceof Error ? error.message : String(error)}`,
           true,
           error
-        ),
-      };
+        )
+      );
     }
   }
 
+  /**
+   * FedEx signs each webhook body with the project's security token
+   * (HMAC-SHA256, hex encoded).
+   */
+  verifyPushNotification(rawBody: string, headers: Headers): boolean {
+    return verifyHmacSha256Signature(
+      process.env.FEDEX_WEBHOOK_SECRET,
+      rawBody,
+      headers.get(FEDEX_SIGNATURE_HEADER)
+    );
+  }
+
+  /**
+   * FedEx webhook notifications carry track results in the Track API
+   * response format.
+   */
+  parsePushNotification(payload: unknown): CarrierTrackingResponse[] {
+    const parseResult = FedexTrackingResponseSchema.safeParse(payload);
+    if (!parseResult.success) {
+      return [
+        {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            `Invalid FedEx webhook notification format: ${parseResult.error.message}`,
+            false,
+            { raw: payload, zodError: parseResult.error }
+          ),
+        },
+      ];
+    }
+
+    const completeTrackResults = parseResult.data.output?.completeTrackResults ?? [];
+    return completeTrackResults.flatMap((completeTrackResult) => {
+      const trackingNumber =
+        completeTrackResult.trackingNumber ??
+        completeTrackResult.trackResults?.[0]?.trackingNumberInfo?.trackingNumber;
+      return trackingNumber
+        ? [parseCompleteTrackResult(trackingNumber, completeTrackResult, payload)]
+        : [];
+    });
+  }
+
   getTrackingUrl(trackingNumber: string): string {
-    return `${FEDEX_TRACKING_URL_BASE}${encodeURIComponent(trackingNumber)}`;
+    return renderTrackingUrl(CARRIER_REGISTRY.FEDEX, trackingNumber);
   }
 }
 
@@ -0,0 +1,79 @@
+/**
+ * FedEx Carrier Definition
+ *
+ * Client-safe FedEx metadata registered in the carrier registry.
+ */
+
+import { MAJOR_CARRIER_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+import { isValidFedexExpressCheckDigit, isValidFedexGroundCheckDigit } from "./carrier.checksums";
+
+export const fedexDefinition: CarrierDefinition = {
+  carrier: "FEDEX",
+  displayName: "FedEx",
+  shortName: "FedEx",
+  api: {
+    baseUrl: "https://apis.fedex.com",
+    tokenUrl: "https://apis.fedex.com/oauth/token",
+  },
+  trackingUrlTemplate: "https://www.fedex.com/fedextrack/?trknbr={trackingNumber}",
+  trackingNumberPatterns: [
+    { pattern: /^96[0-9]{10,22}$/, specificity: "prefix", description: "SmartPost (starts with 96)" },
+    { pattern: /^61[0-9]{18}$/, specificity: "prefix", description: "FedEx Ground 96" },
+    {
+      pattern: /^[0-9]{12}$/,
+      specificity: "length",
+      description: "Express (12 digits)",
+      checksum: isValidFedexExpressCheckDigit,
+    },
+    {
+      pattern: /^[0-9]{15}$/,
+      specificity: "length",
+      description: "Ground (15 digits)",
+      checksum: isValidFedexGroundCheckDigit,
+    },
+    {
+      pattern: /^[0-9]{22}$/,
+      specificity: "length",
+      description: "Ground/Home Delivery (22 digits) - FedEx uses 22 digits too",
+      checksum: isValidFedexGroundCheckDigit,
+    },
+  ],
+  nameAliases: [
+    "fedex",
+    "federal express",
+    "fedex ground",
+    "fedex express",
+    "fedex home delivery",
+    "fedex smartpost",
+    "fedex 2day",
+    "fedex overnight",
+  ],
+  serviceLevelAliases: {
+    "fedex ground": "fedex_ground",
+    "fedex express": "fedex_express",
+    "fedex home delivery": "fedex_home_delivery",
+    "fedex smartpost": "fedex_smartpost",
+    "fedex 2day": "fedex_2day",
+    "fedex overnight": "fedex_overnight",
+  },
+  deliveryWindows: {
+    fedex_first_overnight: 1,
+    fedex_priority_overnight: 1,
+    fedex_standard_overnight: 1,
+    fedex_overnight: 1,
+    fedex_2day: 2,
+    fedex_2day_am: 2,
+    fedex_express_saver: 3,
+    fedex_ground: 5,
+    fedex_home_delivery: 5,
+  },
+  defaultDeliveryWindow: 5,
+  credentialFields: [
+    { key: "clientId", label: "API key", secret: false },
+    { key: "clientSecret", label: "Secret key", secret: true },
+  ],
+  testTrackingNumber: "123456789012",
+  rateLimit: { requestsPerSecond: 10, burst: 20 },
+  holidays: MAJOR_CARRIER_HOLIDAYS,
+};
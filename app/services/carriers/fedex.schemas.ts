@@ -249,6 +249,15 @@ export const FedexTrackingInfoSchema = z
       .optional(),
     goodsClassificationCode: z.string().nullable().optional(),
     returnDetail: z.unknown().nullable().optional(),
+    // Per-tracking-number error (e.g. not found within a multi-number request)
+    error: z
+      .object({
+        code: z.string().nullable().optional(),
+        message: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
   })
   .passthrough();
 
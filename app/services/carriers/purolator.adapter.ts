@@ -0,0 +1,470 @@
+/**
+ * Purolator Carrier Adapter
+ *
+ * Implements the CarrierAdapter interface for the Purolator Tracking Web Service.
+ * Purolator uses HTTP Basic authentication (activation key/password) and a SOAP API,
+ * so requests and responses are XML.
+ *
+ * @see https://www.purolator.com/en/resources-and-support/developer-resources
+ */
+
+import { XMLParser, XMLBuilder } from "fast-xml-parser";
+import type {
+  CarrierAccount,
+  CarrierAdapter,
+  CarrierError,
+  CarrierTrackingResponse,
+  TrackingEvent,
+  TrackingResult,
+} from "./carrier.interface";
+import {
+  CARRIER_CONFIGS,
+  PUROLATOR_DELIVERED_SCAN_TYPES,
+  PUROLATOR_EXCEPTION_KEYWORDS,
+  PUROLATOR_TRACKING_STATUS_MAP,
+  formatLocation,
+  parseCarrierDateTime,
+} from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
+import {
+  PurolatorTrackResponseSchema,
+  type PurolatorScan,
+  extractErrors,
+  extractScans,
+  extractTrackingInformation,
+} from "./purolator.schemas";
+
+/**
+ * Purolator Tracking Web Service endpoint.
+ */
+const PUROLATOR_TRACK_URL = `${CARRIER_CONFIGS.PUROLATOR.baseUrl}/EWS/V1/Tracking/TrackingService.asmx`;
+
+/**
+ * SOAP action for the TrackPackagesByPin operation.
+ */
+const PUROLATOR_TRACK_SOAP_ACTION = "http://purolator.com/pws/service/v1/TrackPackagesByPin";
+
+/**
+ * XML Parser configuration for Purolator SOAP responses.
+ * Namespace prefixes are removed so the body can be validated by element name.
+ */
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+/**
+ * XML Builder for creating Purolator SOAP request envelopes.
+ */
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "_",
+});
+
+/**
+ * Purolator API credentials.
+ */
+interface PurolatorCredentials {
+  apiKey: string;
+  apiPassword: string;
+}
+
+/**
+ * Get Purolator API credentials from the merchant's account, falling back to
+ * environment variables.
+ */
+function getCredentials(account?: CarrierAccount): PurolatorCredentials {
+  if (account) {
+    const { apiKey, apiPassword } = account.credentials;
+    if (!apiKey || !apiPassword) {
+      throw new Error("Purolator account is missing an activation key or password");
+    }
+    return { apiKey, apiPassword };
+  }
+
+  const apiKey = process.env.PUROLATOR_API_KEY;
+  const apiPassword = process.env.PUROLATOR_API_PASSWORD;
+
+  if (!apiKey || !apiPassword) {
+    throw new Error("PUROLATOR_API_KEY and PUROLATOR_API_PASSWORD environment variables are required");
+  }
+
+  return { apiKey, apiPassword };
+}
+
+/**
+ * Build the TrackPackagesByPin SOAP request envelope.
+ */
+function buildTrackRequest(trackingNumber: string): string {
+  return xmlBuilder.build({
+    "soapenv:Envelope": {
+      "_xmlns:soapenv": "http://schemas.xmlsoap.org/soap/envelope/",
+      "_xmlns:v1": "http://purolator.com/pws/datatypes/v1",
+      "soapenv:Header": {
+        "v1:RequestContext": {
+          "v1:Version": "1.2",
+          "v1:Language": "en",
+          "v1:GroupID": "",
+          "v1:RequestReference": "DelayGuard",
+        },
+      },
+      "soapenv:Body": {
+        "v1:TrackPackagesByPinRequest": {
+          "v1:PINs": {
+            "v1:PIN": {
+              "v1:Value": trackingNumber,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Check if a scan description indicates an exception/delay.
+ */
+function isExceptionStatus(status: string | null | undefined): boolean {
+  if (!status) {
+    return false;
+  }
+
+  const lowerStatus = status.toLowerCase();
+  return PUROLATOR_EXCEPTION_KEYWORDS.some((keyword) => lowerStatus.includes(keyword));
+}
+
+/**
+ * Check if a scan type indicates delivery.
+ */
+function isDeliveredScanType(scanType: string | null | undefined): boolean {
+  if (!scanType) {
+    return false;
+  }
+
+  return (PUROLATOR_DELIVERED_SCAN_TYPES as readonly string[]).includes(scanType);
+}
+
+/**
+ * Split a Purolator depot name into city and province.
+ * Depots are reported like "Toronto South, ON" or just "MISSISSAUGA".
+ */
+function parseDepotName(name: string | null | undefined): {
+  city: string | null;
+  state: string | null;
+} {
+  if (!name) {
+    return { city: null, state: null };
+  }
+
+  const [city, state] = name.split(",").map((part) => part.trim());
+  return { city: city || null, state: state || null };
+}
+
+/**
+ * Parse a Purolator scan into a TrackingEvent.
+ */
+function parseScan(scan: PurolatorScan): TrackingEvent | null {
+  const timestamp = parseCarrierDateTime(scan.ScanDate, scan.ScanTime);
+  if (!timestamp) {
+    return null;
+  }
+
+  const depot = parseDepotName(scan.Depot?.Name);
+
+  return {
+    timestamp,
+    type: scan.ScanType ?? "UNKNOWN",
+    description: scan.Description ?? scan.Comment ?? "Status update",
+    city: depot.city,
+    state: depot.state,
+    country: null,
+    rawData: scan,
+  };
+}
+
+/**
+ * Create a CarrierError from various error conditions.
+ */
+function createError(
+  code: CarrierError["code"],
+  message: string,
+  retryable: boolean,
+  rawError?: unknown
+): CarrierError {
+  return { code, message, retryable, rawError };
+}
+
+/**
+ * Purolator Carrier Adapter Implementation
+ */
+export class PurolatorAdapter implements CarrierAdapter {
+  readonly carrier = "PUROLATOR" as const;
+
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
+    try {
+      // Get credentials
+      let credentials: PurolatorCredentials;
+      try {
+        credentials = getCredentials(account);
+      } catch (error) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "Purolator credentials not configured",
+            false,
+            error
+          ),
+        };
+      }
+
+      const authHeader = Buffer.from(
+        `${credentials.apiKey}:${credentials.apiPassword}`
+      ).toString("base64");
+
+      // Call Purolator Tracking Web Service
+      const response = await fetch(PUROLATOR_TRACK_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${authHeader}`,
+          "Content-Type": "text/xml; charset=utf-8",
+          SOAPAction: PUROLATOR_TRACK_SOAP_ACTION,
+        },
+        body: buildTrackRequest(trackingNumber),
+      });
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        return {
+          success: false,
+          error: createError(
+            "RATE_LIMITED",
+            "Purolator API rate limit exceeded",
+            true
+          ),
+        };
+      }
+
+      // Handle auth errors
+      if (response.status === 401 || response.status === 403) {
+        return {
+          success: false,
+          error: createError(
+            "AUTH_FAILED",
+            "Purolator authentication failed, credentials may be invalid",
+            false
+          ),
+        };
+      }
+
+      // Handle other HTTP errors (SOAP faults are returned as 500)
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          error: createError(
+            "API_ERROR",
+            `Purolator API error: ${response.status} ${errorText}`,
+            response.status >= 500,
+            { status: response.status, body: errorText }
+          ),
+        };
+      }
+
+      // Read XML body
+      let rawXml: string;
+      try {
+        rawXml = await response.text();
+      } catch {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            "Failed to read Purolator API response",
+            false
+          ),
+        };
+      }
+
+      // Parse XML to JS object
+      let parsedResponse: unknown;
+      try {
+        parsedResponse = xmlParser.parse(rawXml);
+      } catch {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            "Failed to parse Purolator XML response",
+            false,
+            { rawXml }
+          ),
+        };
+      }
+
+      // Validate response schema
+      const parseResult = PurolatorTrackResponseSchema.safeParse(parsedResponse);
+      if (!parseResult.success) {
+        return {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            `Invalid Purolator API response format: ${parseResult.error.message}`,
+            false,
+            { raw: parsedResponse, zodError: parseResult.error }
+          ),
+        };
+      }
+
+      const purolatorResponse = parseResult.data;
+      const trackResponse = purolatorResponse.Envelope?.Body?.TrackPackagesByPinResponse;
+
+      // Check for request-level errors
+      const responseErrors = extractErrors(trackResponse?.ResponseInformation);
+      if (responseErrors.length > 0) {
+        const errorDesc = responseErrors[0].Description ?? "Unknown error";
+        return {
+          success: false,
+          error: createError(
+            "API_ERROR",
+            `Purolator API error: ${errorDesc}`,
+            false,
+            purolatorResponse
+          ),
+        };
+      }
+
+      const trackingInfo = extractTrackingInformation(purolatorResponse)[0];
+
+      // Check for per-PIN errors
+      const pinErrors = extractErrors(trackingInfo?.ResponseInformation);
+      if (pinErrors.length > 0) {
+        const errorDesc = pinErrors[0].Description ?? "Tracking number not found";
+        return {
+          success: false,
+          error: createError(
+            "TRACKING_NOT_FOUND",
+            `${errorDesc}`,
+            false,
+            purolatorResponse
+          ),
+        };
+      }
+
+      // Parse tracking events
+      const events = trackingInfo
+        ? extractScans(trackingInfo)
+            .map(parseScan)
+            .filter((event): event is TrackingEvent => event !== null)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()) // Most recent first
+        : [];
+
+      if (events.length === 0) {
+        return {
+          success: false,
+          error: createError(
+            "TRACKING_NOT_FOUND",
+            `No tracking data returned for ${trackingNumber}`,
+            false,
+            purolatorResponse
+          ),
+        };
+      }
+
+      // Current status is the most recent scan
+      const lastEvent = events[0];
+      const currentStatus = lastEvent.description;
+
+      // Check for delivery
+      const isDelivered = isDeliveredScanType(lastEvent.type);
+      const deliveredAt = isDelivered ? lastEvent.timestamp : null;
+
+      // Check for exception
+      const isException =
+        !isDelivered &&
+        (lastEvent.type === "Undeliverable" || isExceptionStatus(currentStatus));
+
+      // Normalize status and exception category
+      const status = normalizeTrackingStatus({
+        codeStatus: PUROLATOR_TRACKING_STATUS_MAP[lastEvent.type],
+        description: currentStatus,
+        isDelivered,
+        isException,
+        hasEvents: true,
+      });
+      const exceptionCategory = normalizeExceptionCategory({
+        reason: null,
+        description: currentStatus,
+        isException,
+        status,
+      });
+
+      // Build result
+      const result: TrackingResult = {
+        trackingNumber,
+        carrier: "PUROLATOR",
+        currentStatus,
+        status,
+        isException,
+        exceptionCode: isException ? lastEvent.type : null,
+        exceptionReason: isException ? currentStatus : null,
+        exceptionCategory,
+        expectedDeliveryDate: null, // TrackPackagesByPin does not return an estimate
+        rescheduledDeliveryDate: null,
+        isDelivered,
+        deliveredAt,
+        lastScanLocation: formatLocation(lastEvent.city, lastEvent.state, lastEvent.country),
+        lastScanTime: lastEvent.timestamp,
+        events,
+      };
+
+      return { success: true, data: result };
+    } catch (error) {
+      // Handle network errors
+      if (error instanceof TypeError && error.message.includes("fetch")) {
+        return {
+          success: false,
+          error: createError(
+            "NETWORK_ERROR",
+            "Network error connecting to Purolator API",
+            true,
+            error
+          ),
+        };
+      }
+
+      return {
+        success: false,
+        error: createError(
+          "API_ERROR",
+          `Unexpected error tracking Purolator package: ${error instanceof Error ? error.message : String(error)}`,
+          true,
+          error
+        ),
+      };
+    }
+  }
+
+  getTrackingUrl(trackingNumber: string): string {
+    return renderTrackingUrl(CARRIER_REGISTRY.PUROLATOR, trackingNumber);
+  }
+}
+
+/**
+ * Singleton instance of the Purolator adapter.
+ */
+let purolatorAdapterInstance: PurolatorAdapter | null = null;
+
+/**
+ * Get the Purolator adapter singleton.
+ */
+export function getPurolatorAdapter(): PurolatorAdapter {
+  if (!purolatorAdapterInstance) {
+    purolatorAdapterInstance = new PurolatorAdapter();
+  }
+  return purolatorAdapterInstance;
+}
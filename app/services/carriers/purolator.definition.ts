@@ -0,0 +1,46 @@
+/**
+ * Purolator Carrier Definition
+ *
+ * Client-safe Purolator metadata registered in the carrier registry.
+ * 12-digit Purolator PINs overlap FedEx Express, so only the 3-letter
+ * prefix format is detected from the number alone; the company name
+ * covers the rest.
+ */
+
+import { CANADIAN_STATUTORY_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+
+export const purolatorDefinition: CarrierDefinition = {
+  carrier: "PUROLATOR",
+  displayName: "Purolator",
+  shortName: "Purolator",
+  api: {
+    baseUrl: "https://webservices.purolator.com",
+  },
+  trackingUrlTemplate: "https://www.purolator.com/en/shipping/tracker?pin={trackingNumber}",
+  trackingNumberPatterns: [
+    { pattern: /^[A-Z]{3}[0-9]{9}$/i, specificity: "prefix", description: "3-letter prefix PIN" },
+  ],
+  nameAliases: ["purolator", "purolator express", "purolator ground"],
+  serviceLevelAliases: {
+    "purolator express 9am": "purolator_express_9am",
+    "purolator express 10:30am": "purolator_express_1030am",
+    "purolator express": "purolator_express",
+    "purolator ground": "purolator_ground",
+  },
+  deliveryWindows: {
+    purolator_express_9am: 1,
+    purolator_express_1030am: 1,
+    purolator_express: 1,
+    purolator_express_2day: 2,
+    purolator_ground: 4,
+  },
+  defaultDeliveryWindow: 4,
+  credentialFields: [
+    { key: "apiKey", label: "Activation key", secret: false },
+    { key: "apiPassword", label: "Password", secret: true },
+  ],
+  testTrackingNumber: "329014521622",
+  rateLimit: { requestsPerSecond: 2, burst: 5 },
+  holidays: CANADIAN_STATUTORY_HOLIDAYS,
+};
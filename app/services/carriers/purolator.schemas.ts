@@ -0,0 +1,202 @@
+/**
+ * Purolator API Response Schemas
+ *
+ * Zod schemas for validating Purolator Tracking Web Service (TrackPackagesByPin) responses.
+ * Purolator uses a SOAP API, so these schemas validate the parsed SOAP body with
+ * namespace prefixes removed.
+ *
+ * @see https://www.purolator.com/en/resources-and-support/developer-resources
+ */
+
+import { z } from "zod";
+
+/**
+ * Purolator Scan (single tracking event) schema.
+ */
+export const PurolatorScanSchema = z
+  .object({
+    ScanType: z.string().nullable().optional(),
+    ScanDate: z.string().nullable().optional(),
+    ScanTime: z.string().nullable().optional(),
+    Description: z.string().nullable().optional(),
+    Comment: z.string().nullable().optional(),
+    SummaryScanIndicator: z.string().nullable().optional(),
+    Depot: z
+      .object({
+        Name: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export type PurolatorScan = z.infer<typeof PurolatorScanSchema>;
+
+/**
+ * Purolator Error schema.
+ */
+export const PurolatorErrorSchema = z
+  .object({
+    Code: z.string().nullable().optional(),
+    Description: z.string().nullable().optional(),
+    AdditionalInformation: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type PurolatorError = z.infer<typeof PurolatorErrorSchema>;
+
+/**
+ * Purolator ResponseInformation schema (errors and informational messages).
+ */
+export const PurolatorResponseInformationSchema = z
+  .object({
+    Errors: z
+      .union([
+        z
+          .object({
+            Error: z
+              .union([z.array(PurolatorErrorSchema), PurolatorErrorSchema])
+              .nullable()
+              .optional(),
+          })
+          .passthrough(),
+        z.string(),
+      ])
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export type PurolatorResponseInformation = z.infer<typeof PurolatorResponseInformationSchema>;
+
+/**
+ * Purolator TrackingInformation schema (main tracking data for one PIN).
+ */
+export const PurolatorTrackingInformationSchema = z
+  .object({
+    PIN: z
+      .object({
+        Value: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    // Empty <Scans/> parses as an empty string
+    Scans: z
+      .union([
+        z
+          .object({
+            Scan: z.union([z.array(PurolatorScanSchema), PurolatorScanSchema]).nullable().optional(),
+          })
+          .passthrough(),
+        z.string(),
+      ])
+      .nullable()
+      .optional(),
+    ResponseInformation: PurolatorResponseInformationSchema.nullable().optional(),
+  })
+  .passthrough();
+
+export type PurolatorTrackingInformation = z.infer<typeof PurolatorTrackingInformationSchema>;
+
+/**
+ * Purolator TrackPackagesByPin SOAP envelope schema.
+ */
+export const PurolatorTrackResponseSchema = z
+  .object({
+    Envelope: z
+      .object({
+        Body: z
+          .object({
+            TrackPackagesByPinResponse: z
+              .object({
+                ResponseInformation: PurolatorResponseInformationSchema.nullable().optional(),
+                TrackingInformationList: z
+                  .union([
+                    z
+                      .object({
+                        TrackingInformation: z
+                          .union([
+                            z.array(PurolatorTrackingInformationSchema),
+                            PurolatorTrackingInformationSchema,
+                          ])
+                          .nullable()
+                          .optional(),
+                      })
+                      .passthrough(),
+                    z.string(),
+                  ])
+                  .nullable()
+                  .optional(),
+              })
+              .passthrough()
+              .nullable()
+              .optional(),
+            Fault: z
+              .object({
+                faultcode: z.string().nullable().optional(),
+                faultstring: z.string().nullable().optional(),
+              })
+              .passthrough()
+              .nullable()
+              .optional(),
+          })
+          .passthrough()
+          .nullable()
+          .optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export type PurolatorTrackResponse = z.infer<typeof PurolatorTrackResponseSchema>;
+
+/**
+ * Helper function to normalize a value-or-array XML node to an array.
+ */
+function toArray<T>(value: T | T[] | null | undefined): T[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Helper function to extract errors from a ResponseInformation node as an array.
+ */
+export function extractErrors(
+  info: PurolatorResponseInformation | null | undefined
+): PurolatorError[] {
+  const errors = info?.Errors;
+  if (!errors || typeof errors === "string") {
+    return [];
+  }
+  return toArray(errors.Error);
+}
+
+/**
+ * Helper function to extract scans from a TrackingInformation node as an array.
+ */
+export function extractScans(info: PurolatorTrackingInformation): PurolatorScan[] {
+  const scans = info.Scans;
+  if (!scans || typeof scans === "string") {
+    return [];
+  }
+  return toArray(scans.Scan);
+}
+
+/**
+ * Helper function to extract TrackingInformation entries from a response as an array.
+ */
+export function extractTrackingInformation(
+  response: PurolatorTrackResponse
+): PurolatorTrackingInformation[] {
+  const list = response.Envelope?.Body?.TrackPackagesByPinResponse?.TrackingInformationList;
+  if (!list || typeof list === "string") {
+    return [];
+  }
+  return toArray(list.TrackingInformation);
+}
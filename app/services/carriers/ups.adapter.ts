@@ -9,6 +9,7 @@
 
 import { getRedisConnection } from "~/queue.server";
 import type {
+  CarrierAccount,
   CarrierAdapter,
   CarrierError,
   CarrierTrackingResponse,
@@ -18,25 +19,27 @@ import type {
 } from "./carrier.interface";
 import {
   CARRIER_CONFIGS,
-  CARRIER_TOKEN_CACHE_PREFIX,
   TOKEN_REFRESH_BUFFER_SECONDS,
   UPS_STATUS_TYPES,
+  UPS_TRACKING_STATUS_MAP,
   formatLocation,
+  getTokenCacheKey,
   parseCarrierDateTime,
   parseCarrierDate,
 } from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
+import { verifySharedCredential } from "./carrier.signatures";
 import {
+  UpsTrackAlertEventSchema,
   UpsTrackingResponseSchema,
+  type UpsTrackAlertEvent,
   type UpsTrackingResponse,
   type UpsActivity,
   type UpsPackage,
 } from "./ups.schemas";
 
-/**
- * Redis key for UPS OAuth token cache.
- */
-const UPS_TOKEN_CACHE_KEY = `${CARRIER_TOKEN_CACHE_PREFIX}ups`;
-
 /**
  * UPS OAuth token endpoint.
  */
@@ -48,14 +51,18 @@ const UPS_TOKEN_URL = CARRIER_CONFIGS.UPS.tokenUrl!;
 const UPS_TRACK_URL = `${CARRIER_CONFIGS.UPS.baseUrl}/track/v1/details`;
 
 /**
- * UPS Tracking URL base for customer-facing links.
+ * Get UPS API credentials from the merchant's account, falling back to
+ * environment variables.
  */
-const UPS_TRACKING_URL_BASE = CARRIER_CONFIGS.UPS.trackingUrlBase;
+function getCredentials(account?: CarrierAccount): { clientId: string; clientSecret: string } {
+  if (account) {
+    const { clientId, clientSecret } = account.credentials;
+    if (!clientId || !clientSecret) {
+      throw new Error("UPS account is missing a client ID or client secret");
+    }
+    return { clientId, clientSecret };
+  }
 
-/**
- * Get UPS API credentials from environment variables.
- */
-function getCredentials(): { clientId: string; clientSecret: string } {
   const clientId = process.env.UPS_CLIENT_ID;
   const clientSecret = process.env.UPS_CLIENT_SECRET;
 
@@ -69,11 +76,12 @@ function getCredentials(): { clientId: string; clientSecret: string } {
 /**
  * Get a valid OAuth token, using cache or refreshing if needed.
  */
-async function getAccessToken(): Promise<string> {
+async function getAccessToken(account?: CarrierAccount): Promise<string> {
   const redis = getRedisConnection();
+  const cacheKey = getTokenCacheKey("UPS", account?.id);
 
   // Try to get cached token
-  const cachedTokenStr = await redis.get(UPS_TOKEN_CACHE_KEY);
+  const cachedTokenStr = await redis.get(cacheKey);
   if (cachedTokenStr) {
     try {
       const cachedToken: CachedToken = JSON.parse(cachedTokenStr);
@@ -87,7 +95,7 @@ async function getAccessToken(): Promise<string> {
   }
 
   // Refresh token
-  const { clientId, clientSecret } = getCredentials();
+  const { clientId, clientSecret } = getCredentials(account);
 
   const response = await fetch(UPS_TOKEN_URL, {
     method: "POST",
@@ -111,7 +119,7 @@ async function getAccessToken(): Promise<string> {
   const cachedToken: CachedToken = { accessToken: access_token, expiresAt };
   const ttlSeconds = expires_in - TOKEN_REFRESH_BUFFER_SECONDS;
 
-  await redis.set(UPS_TOKEN_CACHE_KEY, JSON.stringify(cachedToken), "EX", ttlSeconds);
+  await redis.set(cacheKey, JSON.stringify(cachedToken), "EX", ttlSeconds);
 
   return access_token;
 }
@@ -235,18 +243,105 @@ function createError(
   return { code, message, retryable, rawError };
 }
 
+/**
+ * Build a tracking result from a UPS package.
+ * Shared by Track API responses and Track Alert push events.
+ */
+function buildTrackingResult(trackingNumber: string, pkg: UpsPackage): TrackingResult {
+  // Parse tracking events
+  const events = parseActivities(pkg.activity);
+
+  // Get current status
+  const currentActivity = pkg.currentStatus ?? pkg.activity?.[0];
+  const statusType = currentActivity?.status?.type;
+  const statusDescription = currentActivity?.status?.description ?? "Unknown";
+
+  // Check for exception
+  const isException = statusType === UPS_STATUS_TYPES.EXCEPTION;
+  const exceptionCode = isException ? currentActivity?.status?.code ?? null : null;
+  const exceptionReason = isException ? statusDescription : null;
+
+  // Check for delivery
+  const isDelivered = statusType === UPS_STATUS_TYPES.DELIVERED;
+  const deliveredAt = isDelivered ? extractDeliveredAt(events) : null;
+
+  // Get last scan info
+  const lastEvent = events[0];
+  const lastScanLocation = lastEvent
+    ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
+    : null;
+  const lastScanTime = lastEvent?.timestamp ?? null;
+
+  // Normalize status and exception category
+  const status = normalizeTrackingStatus({
+    codeStatus: statusType ? UPS_TRACKING_STATUS_MAP[statusType] : null,
+    description: statusDescription,
+    isDelivered,
+    isException,
+    hasEvents: events.length > 0,
+  });
+  const exceptionCategory = normalizeExceptionCategory({
+    reason: exceptionReason,
+    description: statusDescription,
+    isException,
+    status,
+  });
+
+  // Build result
+  const result: TrackingResult = {
+    trackingNumber,
+    carrier: "UPS",
+    currentStatus: mapStatusType(statusType) || statusDescription,
+    status,
+    isException,
+    exceptionCode,
+    exceptionReason,
+    exceptionCategory,
+    expectedDeliveryDate: extractExpectedDeliveryDate(pkg),
+    rescheduledDeliveryDate: extractRescheduledDeliveryDate(pkg),
+    isDelivered,
+    deliveredAt,
+    lastScanLocation,
+    lastScanTime,
+    events,
+  };
+  return result;
+}
+
+/**
+ * Convert a Track Alert push event into the package shape the Track API
+ * returns, so push events go through the same parsing as polled responses.
+ */
+function toTrackAlertPackage(event: UpsTrackAlertEvent): UpsPackage {
+  const activity: UpsActivity = {
+    date: event.actualDeliveryDate || event.localActivityDate,
+    time: event.actualDeliveryTime || event.localActivityTime,
+    location: event.activityLocation ? { address: event.activityLocation } : null,
+    status: event.activityStatus,
+  };
+
+  return {
+    trackingNumber: event.trackingNumber,
+    activity: [activity],
+    currentStatus: activity,
+    deliveryDate: event.scheduledDeliveryDate
+      ? [{ type: "SDD", date: event.scheduledDeliveryDate }]
+      : null,
+  };
+}
+
 /**
  * UPS Carrier Adapter Implementation
  */
 export class UpsAdapter implements CarrierAdapter {
   readonly carrier = "UPS" as const;
 
-  async track(trackingNumber: string): Promise<CarrierTrackingResponse> {
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
     try {
       // Get OAuth token
       let accessToken: string;
       try {
-        accessToken = await getAccessToken();
+        accessToken = await getAccessToken(account);
       } catch (error) {
         return {
           success: false,
@@ -287,7 +382,7 @@ export class UpsAdapter implements CarrierAdapter {
       if (response.status === 401) {
         // Clear cached token and retry once
         const redis = getRedisConnection();
-        await redis.del(UPS_TOKEN_CACHE_KEY);
+        await redis.del(getTokenCacheKey("UPS", account?.id));
 
         return {
           success: false,
@@ -400,48 +495,7 @@ export class UpsAdapter implements CarrierAdapter {
         };
       }
 
-      // Parse tracking events
-      const events = parseActivities(pkg.activity);
-
-      // Get current status
-      const currentActivity = pkg.currentStatus ?? pkg.activity?.[0];
-      const statusType = currentActivity?.status?.type;
-      const statusDescription = currentActivity?.status?.description ?? "Unknown";
-
-      // Check for exception
-      const isException = statusType === UPS_STATUS_TYPES.EXCEPTION;
-      const exceptionCode = isException ? currentActivity?.status?.code ?? null : null;
-      const exceptionReason = isException ? statusDescription : null;
-
-      // Check for delivery
-      const isDelivered = statusType === UPS_STATUS_TYPES.DELIVERED;
-      const deliveredAt = isDelivered ? extractDeliveredAt(events) : null;
-
-      // Get last scan info
-      const lastEvent = events[0];
-      const lastScanLocation = lastEvent
-        ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
-        : null;
-      const lastScanTime = lastEvent?.timestamp ?? null;
-
-      // Build result
-      const result: TrackingResult = {
-        trackingNumber,
-        carrier: "UPS",
-        currentStatus: mapStatusType(statusType) || statusDescription,
-        isException,
-        exceptionCode,
-        exceptionReason,
-        expectedDeliveryDate: extractExpectedDeliveryDate(pkg),
-        rescheduledDeliveryDate: extractRescheduledDeliveryDate(pkg),
-        isDelivered,
-        deliveredAt,
-        lastScanLocation,
-        lastScanTime,
-        events,
-      };
-
-      return { success: true, data: result };
+      return { success: true, data: buildTrackingResult(trackingNumber, pkg) };
     } catch (error) {
       // Handle network errors
       if (error instanceof TypeError && error.message.includes("fetch")) {
@@ -468,8 +522,41 @@ export class UpsAdapter implements CarrierAdapter {
     }
   }
 
+  /**
+   * Track Alert echoes the credential registered with the subscription in a
+   * "credential" header.
+   */
+  verifyPushNotification(_rawBody: string, headers: Headers): boolean {
+    return verifySharedCredential(process.env.UPS_WEBHOOK_CREDENTIAL, headers.get("credential"));
+  }
+
+  parsePushNotification(payload: unknown): CarrierTrackingResponse[] {
+    const parseResult = UpsTrackAlertEventSchema.safeParse(payload);
+    if (!parseResult.success) {
+      return [
+        {
+          success: false,
+          error: createError(
+            "PARSE_ERROR",
+            `Invalid UPS Track Alert event format: ${parseResult.error.message}`,
+            false,
+            { raw: payload, zodError: parseResult.error }
+          ),
+        },
+      ];
+    }
+
+    const event = parseResult.data;
+    return [
+      {
+        success: true,
+        data: buildTrackingResult(event.trackingNumber, toTrackAlertPackage(event)),
+      },
+    ];
+  }
+
   getTrackingUrl(trackingNumber: string): string {
-    return `${UPS_TRACKING_URL_BASE}${encodeURIComponent(trackingNumber)}`;
+    return renderTrackingUrl(CARRIER_REGISTRY.UPS, trackingNumber);
   }
 }
 
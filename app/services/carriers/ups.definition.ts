@@ -0,0 +1,63 @@
+/**
+ * UPS Carrier Definition
+ *
+ * Client-safe UPS metadata registered in the carrier registry.
+ */
+
+import { MAJOR_CARRIER_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+import { isValidUpsCheckDigit } from "./carrier.checksums";
+
+export const upsDefinition: CarrierDefinition = {
+  carrier: "UPS",
+  displayName: "UPS",
+  shortName: "UPS",
+  api: {
+    baseUrl: "https://onlinetools.ups.com/api",
+    tokenUrl: "https://onlinetools.ups.com/security/v1/oauth/token",
+  },
+  trackingUrlTemplate: "https://www.ups.com/track?tracknum={trackingNumber}",
+  trackingNumberPatterns: [
+    {
+      pattern: /^1Z[A-Z0-9]{16}$/i,
+      specificity: "prefix",
+      description: "Standard 1Z tracking number",
+      checksum: isValidUpsCheckDigit,
+    },
+    { pattern: /^T[A-Z0-9]{10}$/i, specificity: "prefix", description: "UPS Mail Innovations" },
+  ],
+  nameAliases: [
+    "ups",
+    "united parcel service",
+    "ups ground",
+    "ups next day air",
+    "ups 2nd day air",
+    "ups surepost",
+    "ups mail innovations",
+  ],
+  serviceLevelAliases: {
+    "ups ground": "ups_ground",
+    "ups next day air": "ups_next_day_air",
+    "ups 2nd day air": "ups_2nd_day_air",
+    "ups surepost": "ups_surepost",
+    "ups mail innovations": "ups_mail_innovations",
+  },
+  deliveryWindows: {
+    ups_next_day_air: 1,
+    ups_next_day_air_early: 1,
+    ups_next_day_air_saver: 1,
+    ups_2nd_day_air: 2,
+    ups_2nd_day_air_am: 2,
+    ups_3_day_select: 3,
+    ups_ground: 5,
+    ups_standard: 5,
+  },
+  defaultDeliveryWindow: 5,
+  credentialFields: [
+    { key: "clientId", label: "Client ID", secret: false },
+    { key: "clientSecret", label: "Client secret", secret: true },
+  ],
+  testTrackingNumber: "1Z999AA10123456784",
+  rateLimit: { requestsPerSecond: 10, burst: 20 },
+  holidays: MAJOR_CARRIER_HOLIDAYS,
+};
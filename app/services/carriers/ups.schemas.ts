@@ -214,6 +214,27 @@ export const UpsTrackingResponseSchema = z
 
 export type UpsTrackingResponse = z.infer<typeof UpsTrackingResponseSchema>;
 
+/**
+ * UPS Track Alert push event schema.
+ * Track Alert posts one event per request for each subscribed tracking number.
+ *
+ * @see https://developer.ups.com/api/reference/trackalert
+ */
+export const UpsTrackAlertEventSchema = z
+  .object({
+    trackingNumber: z.string(),
+    localActivityDate: z.string().nullable().optional(),
+    localActivityTime: z.string().nullable().optional(),
+    scheduledDeliveryDate: z.string().nullable().optional(),
+    actualDeliveryDate: z.string().nullable().optional(),
+    actualDeliveryTime: z.string().nullable().optional(),
+    activityLocation: UpsAddressSchema.nullable().optional(),
+    activityStatus: UpsStatusSchema.nullable().optional(),
+  })
+  .passthrough();
+
+export type UpsTrackAlertEvent = z.infer<typeof UpsTrackAlertEventSchema>;
+
 /**
  * UPS OAuth Token Response schema.
  */
@@ -3,13 +3,16 @@
  *
  * Implements the CarrierAdapter interface for USPS Web Tools Track API.
  * USPS uses a simple User ID authentication (no OAuth) and XML API format.
+ * A single TrackV2 request accepts up to 35 tracking numbers.
  *
  * @see https://www.usps.com/business/web-tools-apis/track-and-confirm-api.htm
  */
 
 import { XMLParser, XMLBuilder } from "fast-xml-parser";
 import type {
+  CarrierAccount,
   CarrierAdapter,
+  CarrierBatchTrackingResponse,
   CarrierError,
   CarrierTrackingResponse,
   TrackingEvent,
@@ -19,8 +22,14 @@ import {
   CARRIER_CONFIGS,
   USPS_EXCEPTION_KEYWORDS,
   USPS_DELIVERED_KEYWORDS,
+  USPS_MAX_BATCH_SIZE,
+  USPS_TRACKING_STATUS_MAP,
+  chunkTrackingNumbers,
   formatLocation,
 } from "./carrier.types";
+import { normalizeTrackingStatus } from "~/lib/tracking-status";
+import { normalizeExceptionCategory } from "~/lib/exception-taxonomy";
+import { CARRIER_REGISTRY, renderTrackingUrl } from "./carrier.registry";
 import {
   UspsApiResponseSchema,
   type UspsApiResponse,
@@ -51,11 +60,6 @@ function isTrackResponse(response: UspsApiResponse): response is UspsTrackRespon
  */
 const USPS_API_URL = `${CARRIER_CONFIGS.USPS.baseUrl}/ShippingAPI.dll`;
 
-/**
- * USPS Tracking URL base for customer-facing links.
- */
-const USPS_TRACKING_URL_BASE = CARRIER_CONFIGS.USPS.trackingUrlBase;
-
 /**
  * XML Parser configuration for USPS responses.
  */
@@ -77,9 +81,17 @@ const xmlBuilder = new XMLBuilder({
 });
 
 /**
- * Get USPS API User ID from environment variables.
+ * Get the USPS API User ID from the merchant's account, falling back to
+ * environment variables.
  */
-function getUserId(): string {
+function getUserId(account?: CarrierAccount): string {
+  if (account) {
+    if (!account.credentials.userId) {
+      throw new Error("USPS account is missing a Web Tools user ID");
+    }
+    return account.credentials.userId;
+  }
+
   const userId = process.env.USPS_USER_ID;
 
   if (!userId) {
@@ -314,40 +326,168 @@ function createError(
   return { code, message, retryable, rawError };
 }
 
+/**
+ * Build a result map that gives every tracking number the same error.
+ */
+function failAll(trackingNumbers: string[], error: CarrierError): CarrierBatchTrackingResponse {
+  return new Map(trackingNumbers.map((trackingNumber) => [trackingNumber, { success: false, error }]));
+}
+
+/**
+ * Parse one TrackInfo element into a tracking response.
+ */
+function parseTrackInfo(
+  trackingNumber: string,
+  trackInfo: UspsTrackInfo | undefined,
+  uspsResponse: UspsApiResponse
+): CarrierTrackingResponse {
+  if (!trackInfo) {
+    return {
+      success: false,
+      error: createError(
+        "TRACKING_NOT_FOUND",
+        `No tracking info for ${trackingNumber}`,
+        false,
+        uspsResponse
+      ),
+    };
+  }
+
+  // Check for per-tracking-number error
+  if (trackInfo.Error) {
+    const errorDesc = trackInfo.Error.Description ?? "Tracking number not found";
+    return {
+      success: false,
+      error: createError(
+        "TRACKING_NOT_FOUND",
+        `${errorDesc}`,
+        false,
+        uspsResponse
+      ),
+    };
+  }
+
+  // Parse tracking events
+  const events = parseTrackingEvents(trackInfo);
+
+  // Get current status
+  const currentStatus = extractCurrentStatus(trackInfo);
+
+  // Check for exception
+  const isException = isExceptionStatus(currentStatus) || isExceptionStatus(trackInfo.StatusCategory);
+  const exceptionReason = isException ? currentStatus : null;
+
+  // Check for delivery
+  const isDelivered = isDeliveredStatus(currentStatus) || trackInfo.StatusCategory === "Delivered";
+  const deliveredAt = isDelivered ? extractDeliveredAt(events, trackInfo) : null;
+
+  // Get last scan info
+  const lastEvent = events[0];
+  const lastScanLocation = lastEvent
+    ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
+    : null;
+  const lastScanTime = lastEvent?.timestamp ?? null;
+
+  // Normalize status and exception category
+  const status = normalizeTrackingStatus({
+    codeStatus: trackInfo.StatusCategory
+      ? USPS_TRACKING_STATUS_MAP[trackInfo.StatusCategory.toLowerCase()]
+      : null,
+    description: currentStatus,
+    isDelivered,
+    isException,
+    hasEvents: events.length > 0,
+  });
+  const exceptionCategory = normalizeExceptionCategory({
+    reason: exceptionReason,
+    description: currentStatus,
+    isException,
+    status,
+  });
+
+  // Build result
+  const result: TrackingResult = {
+    trackingNumber,
+    carrier: "USPS",
+    currentStatus,
+    status,
+    isException,
+    exceptionCode: isException ? trackInfo.StatusCategory ?? null : null,
+    exceptionReason,
+    exceptionCategory,
+    expectedDeliveryDate: extractExpectedDeliveryDate(trackInfo),
+    rescheduledDeliveryDate: null, // USPS doesn't typically provide this
+    isDelivered,
+    deliveredAt,
+    lastScanLocation,
+    lastScanTime,
+    events,
+  };
+
+  return { success: true, data: result };
+}
+
 /**
  * USPS Carrier Adapter Implementation
  */
 export class UspsAdapter implements CarrierAdapter {
   readonly carrier = "USPS" as const;
+  readonly maxBatchSize = USPS_MAX_BATCH_SIZE;
+
+  async track(trackingNumber: string, account?: CarrierAccount): Promise<CarrierTrackingResponse> {
+    const results = await this.requestTracking([trackingNumber], account);
+    return results.get(trackingNumber)!;
+  }
+
+  async trackBatch(
+    trackingNumbers: string[],
+    account?: CarrierAccount
+  ): Promise<CarrierBatchTrackingResponse> {
+    const results: CarrierBatchTrackingResponse = new Map();
+    for (const batch of chunkTrackingNumbers(trackingNumbers, this.maxBatchSize)) {
+      for (const [trackingNumber, response] of await this.requestTracking(batch, account)) {
+        results.set(trackingNumber, response);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Send one TrackV2 request for up to USPS_MAX_BATCH_SIZE tracking numbers.
+   */
+  private async requestTracking(
+    trackingNumbers: string[],
+    account?: CarrierAccount
+  ): Promise<CarrierBatchTrackingResponse> {
+    const label = trackingNumbers.join(", ");
 
-  async track(trackingNumber: string): Promise<CarrierTrackingResponse> {
     try {
       // Get User ID
       let userId: string;
       try {
-        userId = getUserId();
+        userId = getUserId(account);
       } catch (error) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "AUTH_FAILED",
             "USPS_USER_ID not configured",
             false,
             error
-          ),
-        };
+          )
+        );
       }
 
-      // Build XML request
+      // Build XML request (one TrackID element per tracking number)
       const requestXml = xmlBuilder.build({
         TrackFieldRequest: {
           _USERID: userId,
           Revision: "1",
           ClientIp: "127.0.0.1",
           SourceId: "DelayGuard",
-          TrackID: {
+          TrackID: trackingNumbers.map((trackingNumber) => ({
             _ID: trackingNumber,
-          },
+          })),
         },
       });
 
@@ -367,15 +507,15 @@ export class UspsAdapter implements CarrierAdapter {
       // Handle HTTP errors
       if (!response.ok) {
         const errorText = await response.text();
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "API_ERROR",
             `USPS API error: ${response.status} ${errorText}`,
             response.status >= 500,
             { status: response.status, body: errorText }
-          ),
-        };
+          )
+        );
       }
 
       // Parse XML response
@@ -383,14 +523,14 @@ export class UspsAdapter implements CarrierAdapter {
       try {
         rawXml = await response.text();
       } catch {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "PARSE_ERROR",
             "Failed to read USPS API response",
             false
-          ),
-        };
+          )
+        );
       }
 
       // Parse XML to JS object
@@ -398,29 +538,29 @@ export class UspsAdapter implements CarrierAdapter {
       try {
         parsedResponse = xmlParser.parse(rawXml);
       } catch {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "PARSE_ERROR",
             "Failed to parse USPS XML response",
             false,
             { rawXml }
-          ),
-        };
+          )
+        );
       }
 
       // Validate response schema
       const parseResult = UspsApiResponseSchema.safeParse(parsedResponse);
       if (!parseResult.success) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "PARSE_ERROR",
             `Invalid USPS API response format: ${parseResult.error.message}`,
             false,
             { raw: parsedResponse, zodError: parseResult.error }
-          ),
-        };
+          )
+        );
       }
 
       const uspsResponse = parseResult.data;
@@ -432,142 +572,92 @@ export class UspsAdapter implements CarrierAdapter {
 
         // Check if it's a "not found" type error
         if (errorNumber === "-2147219302" || errorDesc.toLowerCase().includes("not found")) {
-          return {
-            success: false,
-            error: createError(
+          return failAll(
+            trackingNumbers,
+            createError(
               "TRACKING_NOT_FOUND",
-              `Tracking number ${trackingNumber} not found: ${errorDesc}`,
+              `Tracking number ${label} not found: ${errorDesc}`,
               false,
               uspsResponse
-            ),
-          };
+            )
+          );
         }
 
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "API_ERROR",
             `USPS API error: ${errorDesc}`,
             false,
             uspsResponse
-          ),
-        };
+          )
+        );
       }
 
       // Extract TrackInfo - check if we have a valid track response
       if (!isTrackResponse(uspsResponse) || !uspsResponse.TrackResponse.TrackInfo) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "TRACKING_NOT_FOUND",
-            `No tracking data returned for ${trackingNumber}`,
+            `No tracking data returned for ${label}`,
             false,
             uspsResponse
-          ),
-        };
+          )
+        );
       }
 
-      const trackResponseData = uspsResponse.TrackResponse;
+      const trackInfo = uspsResponse.TrackResponse.TrackInfo;
 
       // Handle array or single TrackInfo
-      const trackInfoArray = Array.isArray(trackResponseData.TrackInfo)
-        ? trackResponseData.TrackInfo
-        : [trackResponseData.TrackInfo];
-
-      const trackInfo = trackInfoArray[0];
-      if (!trackInfo) {
-        return {
-          success: false,
-          error: createError(
-            "TRACKING_NOT_FOUND",
-            `No tracking info for ${trackingNumber}`,
-            false,
-            uspsResponse
-          ),
-        };
+      const trackInfoArray = Array.isArray(trackInfo) ? trackInfo : [trackInfo];
+
+      // Match TrackInfo elements to tracking numbers by ID, or by request order
+      // when USPS omits the ID attribute
+      const trackInfoById = new Map<string, UspsTrackInfo>();
+      for (const info of trackInfoArray) {
+        const id = info._ID ?? info.ID;
+        if (id) {
+          trackInfoById.set(id, info);
+        }
       }
 
-      // Check for per-tracking-number error
-      if (trackInfo.Error) {
-        const errorDesc = trackInfo.Error.Description ?? "Tracking number not found";
-        return {
-          success: false,
-          error: createError(
-            "TRACKING_NOT_FOUND",
-            `${errorDesc}`,
-            false,
-            uspsResponse
-          ),
-        };
-      }
+      const results: CarrierBatchTrackingResponse = new Map();
+      trackingNumbers.forEach((trackingNumber, index) => {
+        const info =
+          trackInfoById.size > 0 ? trackInfoById.get(trackingNumber) : trackInfoArray[index];
+        results.set(trackingNumber, parseTrackInfo(trackingNumber, info, uspsResponse));
+      });
 
-      // Parse tracking events
-      const events = parseTrackingEvents(trackInfo);
-
-      // Get current status
-      const currentStatus = extractCurrentStatus(trackInfo);
-
-      // Check for exception
-      const isException = isExceptionStatus(currentStatus) || isExceptionStatus(trackInfo.StatusCategory);
-      const exceptionReason = isException ? currentStatus : null;
-
-      // Check for delivery
-      const isDelivered = isDeliveredStatus(currentStatus) || trackInfo.StatusCategory === "Delivered";
-      const deliveredAt = isDelivered ? extractDeliveredAt(events, trackInfo) : null;
-
-      // Get last scan info
-      const lastEvent = events[0];
-      const lastScanLocation = lastEvent
-        ? formatLocation(lastEvent.city, lastEvent.state, lastEvent.country)
-        : null;
-      const lastScanTime = lastEvent?.timestamp ?? null;
-
-      // Build result
-      const result: TrackingResult = {
-        trackingNumber,
-        carrier: "USPS",
-        currentStatus,
-        isException,
-        exceptionCode: isException ? trackInfo.StatusCategory ?? null : null,
-        exceptionReason,
-        expectedDeliveryDate: extractExpectedDeliveryDate(trackInfo),
-        rescheduledDeliveryDate: null, // USPS doesn't typically provide this
-        isDelivered,
-        deliveredAt,
-        lastScanLocation,
-        lastScanTime,
-        events,
-      };
-
-      return { success: true, data: result };
+      return results;
     } catch (error) {
       // Handle network errors
       if (error instanceof TypeError && error.message.includes("fetch")) {
-        return {
-          success: false,
-          error: createError(
+        return failAll(
+          trackingNumbers,
+          createError(
             "NETWORK_ERROR",
             "Network error connecting to USPS API",
             true,
             error
-          ),
-        };
+          )
+        );
       }
 
-      return {
-        success: false,
-        error: createError(
+      return failAll(
+        trackingNumbers,
+        createError(
           "API_ERROR",
           `Unexpected error tracking USPS package: ${error instanceof Error ? error.message : String(error)}`,
           true,
           error
-        ),
-      };
+        )
+      );
     }
   }
 
   getTrackingUrl(trackingNumber: string): string {
-    return `${USPS_TRACKING_URL_BASE}${encodeURIComponent(trackingNumber)}`;
+    return renderTrackingUrl(CARRIER_REGISTRY.USPS, trackingNumber);
   }
 }
 
@@ -0,0 +1,87 @@
+/**
+ * USPS Carrier Definition
+ *
+ * Client-safe USPS metadata registered in the carrier registry.
+ */
+
+import { US_FEDERAL_HOLIDAYS } from "~/lib/holidays";
+import type { CarrierDefinition } from "./carrier.registry";
+import { isValidS10CheckDigit, isValidUspsCheckDigit } from "./carrier.checksums";
+
+export const uspsDefinition: CarrierDefinition = {
+  carrier: "USPS",
+  displayName: "USPS",
+  shortName: "USPS",
+  api: {
+    baseUrl: "https://secure.shippingapis.com",
+  },
+  trackingUrlTemplate: "https://tools.usps.com/go/TrackConfirmAction?tLabels={trackingNumber}",
+  trackingNumberPatterns: [
+    {
+      pattern: /^94[0-9]{20}$/,
+      specificity: "prefix",
+      description: "Priority Mail Express (22 digits, starts with 94)",
+      checksum: isValidUspsCheckDigit,
+    },
+    {
+      pattern: /^92[0-9]{20}$/,
+      specificity: "prefix",
+      description: "Priority Mail (22 digits, starts with 92)",
+      checksum: isValidUspsCheckDigit,
+    },
+    {
+      pattern: /^93[0-9]{20}$/,
+      specificity: "prefix",
+      description: "Certified Mail (22 digits, starts with 93)",
+      checksum: isValidUspsCheckDigit,
+    },
+    {
+      pattern: /^420[0-9]{5,9}[0-9]{16,22}$/,
+      specificity: "prefix",
+      description: "USPS with ZIP prefix",
+      checksum: isValidUspsCheckDigit,
+    },
+    {
+      pattern: /^[A-Z]{2}[0-9]{9}US$/i,
+      specificity: "prefix",
+      description: "International format",
+      checksum: isValidS10CheckDigit,
+    },
+    {
+      pattern: /^[0-9]{20}$/,
+      specificity: "length",
+      description: "USPS Standard 20 digits",
+      checksum: isValidUspsCheckDigit,
+    },
+  ],
+  nameAliases: [
+    "usps",
+    "usps priority mail",
+    "usps priority mail express",
+    "usps ground advantage",
+    "usps first class",
+    "united states postal service",
+    "us postal service",
+  ],
+  serviceLevelAliases: {
+    "usps priority mail express": "usps_priority_mail_express",
+    "usps priority mail": "usps_priority_mail",
+    "usps ground advantage": "usps_ground_advantage",
+    "usps first class": "usps_first_class",
+  },
+  deliveryWindows: {
+    usps_priority_mail_express: 2,
+    usps_priority_express: 2,
+    usps_priority_mail: 3,
+    usps_priority: 3,
+    usps_ground_advantage: 7,
+    usps_first_class: 5,
+    usps_parcel_select: 7,
+    usps_retail_ground: 7,
+  },
+  defaultDeliveryWindow: 7,
+  credentialFields: [{ key: "userId", label: "Web Tools user ID", secret: true }],
+  testTrackingNumber: "9400111899223033317619",
+  rateLimit: { requestsPerSecond: 5, burst: 10 },
+  holidays: US_FEDERAL_HOLIDAYS,
+};
@@ -4,23 +4,68 @@
  * Evaluates whether a shipment is delayed based on:
  * 1. Carrier-reported exceptions (explicit delay flag from carrier API)
  * 2. Past expected delivery date + grace period
+ * 3. No carrier movement: no scan for too many business days while in transit,
+ *    or a label that was never picked up (see detectStall)
  *
  * Uses a cascade of expected delivery date sources:
  * 1. Carrier-provided expected delivery date (from tracking API)
  * 2. Previously calculated expected delivery date (stored on shipment)
  * 3. Default delivery window based on service level + ship date
  *
- * Merchants can override default delivery windows in their settings.
+ * Merchants can override default delivery windows in their settings, by
+ * service level or by lane (origin location, destination region and service
+ * level, see zone-windows.ts). Their delay rules (see delay-rules.ts) can
+ * ignore shipments or carrier exceptions, change the grace period and set
+ * the severity of a delay. Delays without a severity from a rule get one
+ * derived from their exception category and days delayed (see
+ * exception-taxonomy.ts).
+ *
+ * Business days skip the carrier's holidays and the merchant's blackout dates,
+ * and holidays are not counted against the grace period or as days delayed.
+ * Days are read in the delivery timezone (see getDeliveryTimeZone), so a
+ * delivery day ends at local midnight rather than UTC midnight.
+ *
+ * During and shortly after a carrier outage, shipments without a scan since
+ * the outage get extra grace, since their tracking data may be stale.
  */
 
-import type { Carrier, Shipment, DeliverySource, Prisma } from "@prisma/client";
+import type {
+  Carrier,
+  Shipment,
+  ShipmentPackage,
+  DelayReason,
+  DelaySeverity,
+  DeliverySource,
+  ExceptionCategory,
+  Prisma,
+  TrackingStatus,
+} from "@prisma/client";
 import type { TrackingResult } from "./carriers/carrier.interface";
+import type { CarrierOutage } from "./carriers/carrier.circuit-breaker";
+import {
+  CARRIER_DEFINITIONS,
+  getCarrierDefinition,
+  type SupportedCarrier,
+} from "./carriers/carrier.registry";
 import type { MerchantSettings } from "~/lib/validation";
 import {
+  businessDaysSince,
   calculateExpectedDeliveryDate,
   calculateDaysDelayed,
   isPastDeadline,
 } from "~/lib/business-days";
+import { US_FEDERAL_HOLIDAYS, type HolidayCalendar } from "~/lib/holidays";
+import {
+  applyDelayRules,
+  type DelayRuleContext,
+  type MatchedDelayRule,
+} from "~/lib/delay-rules";
+import { deriveDelaySeverity } from "~/lib/exception-taxonomy";
+import {
+  findZoneDeliveryWindow,
+  type ShipmentLane,
+  type ZoneDeliveryWindow,
+} from "~/lib/zone-windows";
 
 /**
  * Result of delay evaluation
@@ -36,49 +81,32 @@ export interface DelayEvaluationResult {
   expectedDeliveryDate: Date | null;
   /** Source of the expected delivery date */
   expectedDeliverySource: DeliverySource;
+  /** Severity set by a merchant delay rule or derived (null if not delayed) */
+  severity: DelaySeverity | null;
+  /** The merchant's delay rules that matched the shipment */
+  matchedRules: MatchedDelayRule[];
 }
 
 /**
- * Possible reasons for delay
+ * Possible reasons for delay (stored as Shipment.delayReason)
  */
-export type DelayReason =
-  | "CARRIER_EXCEPTION" // Carrier explicitly reported exception status
-  | "PAST_EXPECTED_DELIVERY"; // Past expected delivery + grace period
+export type { DelayReason };
 
 /**
- * Default delivery windows in business days by normalized service level key.
- * These are used when the carrier doesn't provide an expected delivery date.
+ * Statuses in which a shipment is expected to keep getting scans. Shipments
+ * waiting on the customer (attempted delivery, held for pickup) or already
+ * flagged by the carrier are not considered stalled.
+ */
+const STALL_CHECKED_STATUSES: readonly TrackingStatus[] = [
+  "PICKED_UP",
+  "IN_TRANSIT",
+  "OUT_FOR_DELIVERY",
+];
+
+/**
+ * Generic delivery windows for service levels that don't name a carrier.
  */
-export const DEFAULT_DELIVERY_WINDOWS: Record<string, number> = {
-  // UPS
-  ups_next_day_air: 1,
-  ups_next_day_air_early: 1,
-  ups_next_day_air_saver: 1,
-  ups_2nd_day_air: 2,
-  ups_2nd_day_air_am: 2,
-  ups_3_day_select: 3,
-  ups_ground: 5,
-  ups_standard: 5,
-  // FedEx
-  fedex_first_overnight: 1,
-  fedex_priority_overnight: 1,
-  fedex_standard_overnight: 1,
-  fedex_overnight: 1,
-  fedex_2day: 2,
-  fedex_2day_am: 2,
-  fedex_express_saver: 3,
-  fedex_ground: 5,
-  fedex_home_delivery: 5,
-  // USPS
-  usps_priority_mail_express: 2,
-  usps_priority_express: 2,
-  usps_priority_mail: 3,
-  usps_priority: 3,
-  usps_ground_advantage: 7,
-  usps_first_class: 5,
-  usps_parcel_select: 7,
-  usps_retail_ground: 7,
-  // Generic fallbacks
+const GENERIC_DELIVERY_WINDOWS: Record<string, number> = {
   overnight: 1,
   express: 2,
   priority: 3,
@@ -87,13 +115,24 @@ export const DEFAULT_DELIVERY_WINDOWS: Record<string, number> = {
   economy: 7,
 };
 
+/**
+ * Default delivery windows in business days by normalized service level key.
+ * These are used when the carrier doesn't provide an expected delivery date.
+ * Carrier-specific windows come from the carrier registry.
+ */
+export const DEFAULT_DELIVERY_WINDOWS: Record<string, number> = Object.assign(
+  {},
+  ...CARRIER_DEFINITIONS.map((definition) => definition.deliveryWindows),
+  GENERIC_DELIVERY_WINDOWS
+);
+
 /**
  * Fallback delivery windows by carrier when service level is unknown.
  */
 export const DEFAULT_CARRIER_WINDOWS: Record<Carrier, number> = {
-  UPS: 5,
-  FEDEX: 5,
-  USPS: 7,
+  ...(Object.fromEntries(
+    CARRIER_DEFINITIONS.map((definition) => [definition.carrier, definition.defaultDeliveryWindow])
+  ) as Record<SupportedCarrier, number>),
   UNKNOWN: 7,
 };
 
@@ -105,6 +144,7 @@ export const DEFAULT_CARRIER_WINDOWS: Record<Carrier, number> = {
  * - "Ground" (with UPS carrier) -> "ups_ground"
  * - "FedEx Home Delivery" -> "fedex_home_delivery"
  * - "Priority Mail Express" -> "usps_priority_mail_express"
+ * - "Expedited Parcel" (with CANADA_POST carrier) -> "canada_post_expedited_parcel"
  *
  * @param serviceLevel - The raw service level string from Shopify/carrier
  * @param carrier - The carrier (used for prefix when not in service level)
@@ -127,8 +167,9 @@ export function normalizeServiceLevel(
     .trim();
 
   // If the service level doesn't already contain the carrier prefix,
-  // add it based on the carrier enum
-  const carrierPrefix = carrier.toLowerCase();
+  // add it based on the carrier enum (multi-word enums like CANADA_POST
+  // are compared in their spaced form)
+  const carrierPrefix = carrier.toLowerCase().replace(/_/g, " ");
   if (carrier !== "UNKNOWN" && !normalized.startsWith(carrierPrefix)) {
     normalized = `${carrierPrefix} ${normalized}`;
   }
@@ -172,23 +213,61 @@ export function getDeliveryWindow(
   return DEFAULT_CARRIER_WINDOWS[carrier];
 }
 
+/**
+ * Get the holiday calendar for a carrier's deliveries: the carrier's
+ * holidays (US federal holidays for unknown carriers) plus the merchant's
+ * blackout dates.
+ *
+ * @param carrier - The carrier
+ * @param blackoutDates - Merchant blackout dates (YYYY-MM-DD)
+ */
+export function getHolidayCalendar(
+  carrier: Carrier,
+  blackoutDates: readonly string[] = []
+): HolidayCalendar {
+  return {
+    holidays: getCarrierDefinition(carrier)?.holidays ?? US_FEDERAL_HOLIDAYS,
+    blackoutDates,
+  };
+}
+
 /**
  * Calculate the expected delivery date for a shipment.
+ * The merchant's zone window for the shipment's lane, if any, is used before
+ * the service level windows (see getDeliveryWindow).
  *
  * @param shipDate - When the shipment was created/shipped
  * @param serviceLevel - The shipping service level
  * @param carrier - The carrier
  * @param merchantOverrides - Merchant's custom delivery window overrides
+ * @param blackoutDates - Merchant blackout dates, skipped with the carrier's holidays
+ * @param timeZone - Timezone the ship date's day is read in (UTC if omitted)
+ * @param zoneWindows - Merchant's zone delivery windows
+ * @param lane - The shipment's origin location and shipping address
  * @returns The calculated expected delivery date
  */
 export function calculateDefaultExpectedDelivery(
   shipDate: Date,
   serviceLevel: string | null | undefined,
   carrier: Carrier,
-  merchantOverrides?: Record<string, number>
+  merchantOverrides?: Record<string, number>,
+  blackoutDates?: readonly string[],
+  timeZone?: string,
+  zoneWindows?: readonly ZoneDeliveryWindow[],
+  lane?: ShipmentLane
 ): Date {
-  const businessDays = getDeliveryWindow(serviceLevel, carrier, merchantOverrides);
-  return calculateExpectedDeliveryDate(shipDate, businessDays);
+  const zoneWindow =
+    zoneWindows && lane
+      ? findZoneDeliveryWindow(zoneWindows, normalizeServiceLevel(serviceLevel, carrier), lane)
+      : null;
+  const businessDays =
+    zoneWindow?.days ?? getDeliveryWindow(serviceLevel, carrier, merchantOverrides);
+  return calculateExpectedDeliveryDate(
+    shipDate,
+    businessDays,
+    getHolidayCalendar(carrier, blackoutDates),
+    timeZone
+  );
 }
 
 /**
@@ -202,16 +281,65 @@ export interface ShipmentData {
   carrier: Carrier;
   rescheduledDeliveryDate: Date | null;
   isDelivered: boolean;
+  trackingStatus: TrackingStatus;
+  lastScanTime: Date | null;
+  /** Fulfillment location shipped from (for zone delivery windows) */
+  originLocationId?: string | null;
+  /** Shipment.shippingAddress JSON (for zone delivery windows) */
+  shippingAddress?: unknown;
+  /** Fields below are checked by the merchant's delay rules */
+  orderValue?: number | null;
+  isTestData?: boolean;
+  lastCarrierStatus?: string | null;
+  carrierExceptionCode?: string | null;
+  exceptionCategory?: ExceptionCategory | null;
+}
+
+/**
+ * Optional context for delay evaluation
+ */
+export interface DelayEvaluationOptions {
+  /** Ongoing or recently ended outage of the shipment's carrier */
+  carrierOutage?: CarrierOutage | null;
+  /** Timezone delivery days are read in (UTC if omitted, see getDeliveryTimeZone) */
+  timeZone?: string;
+}
+
+/**
+ * Extra grace hours for tracking data that may be stale because of a carrier
+ * outage: the outage's length, unless the carrier has scanned the shipment
+ * since the outage ended.
+ */
+export function getStaleDataGraceHours(
+  trackingResult: TrackingResult | null,
+  carrierOutage: CarrierOutage | null | undefined,
+  now: Date = new Date()
+): number {
+  if (!carrierOutage) {
+    return 0;
+  }
+
+  const outageEnd = carrierOutage.endedAt ?? now;
+  if (trackingResult?.lastScanTime && trackingResult.lastScanTime >= outageEnd) {
+    return 0;
+  }
+
+  return Math.max(0, outageEnd.getTime() - carrierOutage.startedAt.getTime()) / (60 * 60 * 1000);
 }
 
 /**
  * Evaluate whether a shipment is delayed based on tracking result and shipment data.
  *
  * The evaluation follows this logic:
- * 1. If delivered, not delayed
- * 2. If carrier reports exception, delayed (reason: CARRIER_EXCEPTION)
- * 3. If past expected delivery + grace period, delayed (reason: PAST_EXPECTED_DELIVERY)
- * 4. Otherwise, not delayed
+ * 1. If delivered, or a merchant delay rule says to ignore it, not delayed
+ * 2. If carrier reports exception, delayed (reason: CARRIER_EXCEPTION),
+ *    unless a merchant delay rule ignores carrier exceptions for it
+ * 3. If past expected delivery + grace period, delayed (reason: PAST_EXPECTED_DELIVERY).
+ *    A merchant delay rule can replace the grace period; a carrier outage
+ *    extends it (see getStaleDataGraceHours).
+ * 4. If the carrier has stopped scanning the shipment, delayed
+ *    (reason: STALLED_NO_SCANS or LABEL_NOT_PICKED_UP, see detectStall)
+ * 5. Otherwise, not delayed
  *
  * Expected delivery date is determined from:
  * 1. Carrier-provided date from tracking result (if available)
@@ -223,13 +351,15 @@ export interface ShipmentData {
  * @param trackingResult - The result from carrier tracking API (optional)
  * @param merchantSettings - The merchant's settings (for delay threshold and overrides)
  * @param now - Current date/time (optional, for testing)
+ * @param options - Carrier outage and timezone context (optional)
  * @returns Delay evaluation result
  */
 export function evaluateDelay(
   shipment: ShipmentData,
   trackingResult: TrackingResult | null,
   merchantSettings: MerchantSettings,
-  now: Date = new Date()
+  now: Date = new Date(),
+  options: DelayEvaluationOptions = {}
 ): DelayEvaluationResult {
   // If already delivered, not delayed
   if (shipment.isDelivered || trackingResult?.isDelivered) {
@@ -239,86 +369,236 @@ export function evaluateDelay(
       daysDelayed: 0,
       expectedDeliveryDate: shipment.expectedDeliveryDate,
       expectedDeliverySource: shipment.expectedDeliverySource,
+      severity: null,
+      matchedRules: [],
     };
   }
 
-  // Rule 1: Carrier explicitly reports exception
-  if (trackingResult?.isException) {
-    // Still need to determine expected delivery for daysDelayed calculation
-    const { expectedDeliveryDate, expectedDeliverySource } = determineExpectedDeliveryDate(
-      shipment,
-      trackingResult,
-      merchantSettings
-    );
+  const calendar = getHolidayCalendar(shipment.carrier, merchantSettings.blackoutDates);
+  const { timeZone } = options;
+  const ruleContext = getDelayRuleContext(shipment, trackingResult);
+  const rules = applyDelayRules(merchantSettings.delayRules, ruleContext);
 
+  // Determine the expected delivery date from available sources
+  const { expectedDeliveryDate, expectedDeliverySource } = determineExpectedDeliveryDate(
+    shipment,
+    trackingResult,
+    merchantSettings,
+    timeZone
+  );
+
+  const notDelayed: DelayEvaluationResult = {
+    isDelayed: false,
+    delayReason: null,
+    daysDelayed: 0,
+    expectedDeliveryDate,
+    expectedDeliverySource,
+    severity: null,
+    matchedRules: rules.matchedRules,
+  };
+  const delayed = (delayReason: DelayReason): DelayEvaluationResult => {
     const daysDelayed = expectedDeliveryDate
-      ? calculateDaysDelayed(expectedDeliveryDate, now)
+      ? calculateDaysDelayed(expectedDeliveryDate, now, calendar, timeZone)
       : 0;
-
     return {
       isDelayed: true,
-      delayReason: "CARRIER_EXCEPTION",
+      delayReason,
       daysDelayed,
       expectedDeliveryDate,
       expectedDeliverySource,
+      severity:
+        rules.severity ??
+        deriveDelaySeverity({ exceptionCategory: ruleContext.exceptionCategory, delayReason, daysDelayed }),
+      matchedRules: rules.matchedRules,
     };
+  };
+
+  // A merchant rule says never to flag this shipment
+  if (rules.ignore) {
+    return notDelayed;
   }
 
-  // Determine the expected delivery date from available sources
-  const { expectedDeliveryDate, expectedDeliverySource } = determineExpectedDeliveryDate(
-    shipment,
-    trackingResult,
-    merchantSettings
-  );
+  // Rule 1: Carrier explicitly reports exception (unless a merchant rule ignores it).
+  // A merchant rule's grace hours hold the flag back, counted from the exception scan.
+  if (
+    trackingResult?.isException &&
+    !rules.ignoreException &&
+    !isWithinExceptionGrace(getLastScanTime(shipment, trackingResult), rules.graceHours, now)
+  ) {
+    return delayed("CARRIER_EXCEPTION");
+  }
 
   // If we can't determine expected delivery, we can't evaluate delay
   if (!expectedDeliveryDate) {
-    return {
-      isDelayed: false,
-      delayReason: null,
-      daysDelayed: 0,
-      expectedDeliveryDate: null,
-      expectedDeliverySource: "DEFAULT",
-    };
+    return { ...notDelayed, expectedDeliverySource: "DEFAULT" };
   }
 
-  // Rule 2: Past expected delivery + grace period
-  const graceHours = merchantSettings.delayThresholdHours;
+  // Rule 2: Past expected delivery + grace period (longer while carrier data may be stale).
+  // A merchant rule's grace hours replace the delay threshold.
+  const graceHours =
+    (rules.graceHours ?? merchantSettings.delayThresholdHours) +
+    getStaleDataGraceHours(trackingResult, options.carrierOutage, now);
 
   // If carrier rescheduled delivery, use that date for evaluation
   const dateToCheck = trackingResult?.rescheduledDeliveryDate ?? expectedDeliveryDate;
 
-  if (isPastDeadline(dateToCheck, graceHours, now)) {
-    return {
-      isDelayed: true,
-      delayReason: "PAST_EXPECTED_DELIVERY",
-      daysDelayed: calculateDaysDelayed(expectedDeliveryDate, now),
-      expectedDeliveryDate,
-      expectedDeliverySource,
-    };
+  if (isPastDeadline(dateToCheck, graceHours, now, calendar, timeZone)) {
+    return delayed("PAST_EXPECTED_DELIVERY");
+  }
+
+  // Rule 3: No carrier movement
+  const stallReason = detectStall(
+    shipment,
+    trackingResult,
+    merchantSettings,
+    now,
+    calendar,
+    options
+  );
+  if (stallReason) {
+    return delayed(stallReason);
   }
 
   // Not delayed
+  return notDelayed;
+}
+
+/**
+ * Whether a carrier exception is still within a delay rule's grace hours.
+ * Without grace hours or a scan time the exception is flagged right away.
+ */
+function isWithinExceptionGrace(
+  exceptionScanTime: Date | null,
+  graceHours: number | null,
+  now: Date
+): boolean {
+  if (graceHours === null || !exceptionScanTime) {
+    return false;
+  }
+  return now.getTime() - exceptionScanTime.getTime() < graceHours * 60 * 60 * 1000;
+}
+
+/**
+ * Get the fields a shipment's delay rules are checked against, preferring the
+ * latest tracking result over what's stored on the shipment.
+ */
+export function getDelayRuleContext(
+  shipment: ShipmentData,
+  trackingResult: TrackingResult | null
+): DelayRuleContext {
   return {
-    isDelayed: false,
-    delayReason: null,
-    daysDelayed: 0,
-    expectedDeliveryDate,
-    expectedDeliverySource,
+    orderValue: shipment.orderValue ?? null,
+    isTestData: shipment.isTestData ?? false,
+    carrier: shipment.carrier,
+    serviceLevel: normalizeServiceLevel(shipment.serviceLevel, shipment.carrier),
+    trackingStatus: trackingResult?.status ?? shipment.trackingStatus,
+    carrierStatus: trackingResult?.currentStatus ?? shipment.lastCarrierStatus ?? null,
+    exceptionCode: trackingResult
+      ? trackingResult.exceptionCode
+      : (shipment.carrierExceptionCode ?? null),
+    exceptionCategory: trackingResult
+      ? trackingResult.exceptionCategory
+      : (shipment.exceptionCategory ?? null),
   };
 }
 
+/**
+ * Get the no-scan threshold (in business days) for a service level: the
+ * merchant's override for the normalized service level, or their default.
+ *
+ * @param serviceLevel - The raw service level string
+ * @param carrier - The carrier
+ * @param stallDetection - The merchant's stall detection settings
+ */
+export function getNoScanThresholdDays(
+  serviceLevel: string | null | undefined,
+  carrier: Carrier,
+  stallDetection: MerchantSettings["stallDetection"]
+): number {
+  const normalizedKey = normalizeServiceLevel(serviceLevel, carrier);
+  if (normalizedKey && normalizedKey in stallDetection.serviceLevelNoScanDays) {
+    return stallDetection.serviceLevelNoScanDays[normalizedKey];
+  }
+  return stallDetection.noScanDays;
+}
+
+/**
+ * Get the time of the latest carrier scan: the carrier's last scan time, the
+ * newest event in the tracking history, or the last scan stored on the shipment.
+ */
+export function getLastScanTime(
+  shipment: ShipmentData,
+  trackingResult: TrackingResult | null
+): Date | null {
+  let lastScan = trackingResult?.lastScanTime ?? shipment.lastScanTime;
+  for (const event of trackingResult?.events ?? []) {
+    if (!lastScan || event.timestamp > lastScan) {
+      lastScan = event.timestamp;
+    }
+  }
+  return lastScan;
+}
+
+/**
+ * Detect a shipment the carrier has stopped moving:
+ * - LABEL_NOT_PICKED_UP: still at label created the configured number of
+ *   business days after the ship date
+ * - STALLED_NO_SCANS: in transit with no scan for the service level's
+ *   threshold in business days
+ *
+ * Nothing is flagged while scans may be missing because of a carrier outage.
+ *
+ * @returns The delay reason, or null if the shipment is moving
+ */
+function detectStall(
+  shipment: ShipmentData,
+  trackingResult: TrackingResult | null,
+  merchantSettings: MerchantSettings,
+  now: Date,
+  calendar: HolidayCalendar,
+  options: DelayEvaluationOptions
+): DelayReason | null {
+  const { stallDetection } = merchantSettings;
+  if (!stallDetection.enabled) {
+    return null;
+  }
+  if (getStaleDataGraceHours(trackingResult, options.carrierOutage, now) > 0) {
+    return null;
+  }
+
+  const status = trackingResult?.status ?? shipment.trackingStatus;
+
+  if (status === "LABEL_CREATED") {
+    const daysWaiting = businessDaysSince(shipment.shipDate, now, calendar, options.timeZone);
+    return daysWaiting >= stallDetection.pickupDays ? "LABEL_NOT_PICKED_UP" : null;
+  }
+
+  if (!STALL_CHECKED_STATUSES.includes(status)) {
+    return null;
+  }
+
+  const lastScan = getLastScanTime(shipment, trackingResult);
+  if (!lastScan) {
+    return null;
+  }
+
+  const daysWithoutScan = businessDaysSince(lastScan, now, calendar, options.timeZone);
+  const threshold = getNoScanThresholdDays(shipment.serviceLevel, shipment.carrier, stallDetection);
+  return daysWithoutScan >= threshold ? "STALLED_NO_SCANS" : null;
+}
+
 /**
  * Determine the expected delivery date from available sources.
  * Priority:
  * 1. Carrier-provided date from tracking result
  * 2. Previously stored date on shipment (if source was CARRIER or MERCHANT_OVERRIDE)
- * 3. Default calculation from ship date + service level
+ * 3. Default calculation from ship date + zone or service level window
  */
 function determineExpectedDeliveryDate(
   shipment: ShipmentData,
   trackingResult: TrackingResult | null,
-  merchantSettings: MerchantSettings
+  merchantSettings: MerchantSettings,
+  timeZone?: string
 ): { expectedDeliveryDate: Date | null; expectedDeliverySource: DeliverySource } {
   // 1. Carrier-provided from tracking result
   if (trackingResult?.expectedDeliveryDate) {
@@ -340,12 +620,19 @@ function determineExpectedDeliveryDate(
     };
   }
 
-  // 3. Calculate from ship date + service level window
+  // 3. Calculate from ship date + zone or service level window
   const calculatedDate = calculateDefaultExpectedDelivery(
     shipment.shipDate,
     shipment.serviceLevel,
     shipment.carrier,
-    merchantSettings.deliveryWindows
+    merchantSettings.deliveryWindows,
+    merchantSettings.blackoutDates,
+    timeZone,
+    merchantSettings.zoneDeliveryWindows,
+    {
+      originLocationId: shipment.originLocationId ?? null,
+      shippingAddress: shipment.shippingAddress,
+    }
   );
 
   return {
@@ -368,6 +655,48 @@ export function toShipmentData(shipment: Shipment): ShipmentData {
     carrier: shipment.carrier,
     rescheduledDeliveryDate: shipment.rescheduledDeliveryDate,
     isDelivered: shipment.isDelivered,
+    trackingStatus: shipment.trackingStatus,
+    lastScanTime: shipment.lastScanTime,
+    originLocationId: shipment.fulfillmentLocationId,
+    shippingAddress: shipment.shippingAddress,
+    orderValue: shipment.orderValue?.toNumber() ?? null,
+    isTestData: shipment.isTestData,
+    lastCarrierStatus: shipment.lastCarrierStatus,
+    carrierExceptionCode: shipment.carrierExceptionCode,
+    exceptionCategory: shipment.exceptionCategory,
+  };
+}
+
+/**
+ * Build ShipmentData for one package of a multi-package shipment.
+ * Ship date and service level come from the shipment; carrier and dates come
+ * from the package, except that a merchant override on the shipment applies
+ * to every package.
+ */
+export function toPackageShipmentData(
+  shipment: Shipment,
+  pkg: ShipmentPackage
+): ShipmentData {
+  const hasOverride =
+    shipment.expectedDeliverySource === "MERCHANT_OVERRIDE" && shipment.expectedDeliveryDate;
+
+  return {
+    shipDate: shipment.shipDate,
+    expectedDeliveryDate: hasOverride ? shipment.expectedDeliveryDate : pkg.expectedDeliveryDate,
+    expectedDeliverySource: hasOverride ? "MERCHANT_OVERRIDE" : pkg.expectedDeliverySource,
+    serviceLevel: shipment.serviceLevel,
+    carrier: pkg.carrier,
+    rescheduledDeliveryDate: pkg.rescheduledDeliveryDate,
+    isDelivered: pkg.isDelivered,
+    trackingStatus: pkg.trackingStatus,
+    lastScanTime: pkg.lastScanTime,
+    originLocationId: shipment.fulfillmentLocationId,
+    shippingAddress: shipment.shippingAddress,
+    orderValue: shipment.orderValue?.toNumber() ?? null,
+    isTestData: shipment.isTestData,
+    lastCarrierStatus: pkg.lastCarrierStatus,
+    carrierExceptionCode: pkg.carrierExceptionCode,
+    exceptionCategory: pkg.exceptionCategory,
   };
 }
 
@@ -383,6 +712,8 @@ export function getDelayUpdateFields(
   const update: Prisma.ShipmentUpdateInput = {
     isDelayed: result.isDelayed,
     daysDelayed: result.daysDelayed,
+    delaySeverity: result.isDelayed ? result.severity : null,
+    delayReason: result.isDelayed ? result.delayReason : null,
   };
 
   // Update expected delivery date if we determined one
@@ -0,0 +1,393 @@
+/**
+ * Delay Risk Service
+ *
+ * Scores how likely an undelivered shipment is to miss its expected delivery
+ * date, so merchants can act before the deadline passes. The score (0-100) is
+ * the sum of deterministic rules, one per signal:
+ * 1. Time since the last scan, against the stall threshold (see detectStall)
+ * 2. Scan cadence: the current gap between scans against the usual gap
+ * 3. Location: still outside the destination state with little time left
+ * 4. Lane history: share of recent shipments from the same origin, on the same
+ *    carrier, to the same state that had a carrier exception or were delayed
+ * 5. Remaining business days until the expected (or rescheduled) delivery date
+ *
+ * Shipments that are delivered or already flagged as delayed are not scored.
+ */
+
+import { Prisma, type Carrier, type Shipment } from "@prisma/client";
+import { prisma } from "~/db.server";
+import type { TrackingResult } from "./carriers/carrier.interface";
+import {
+  getHolidayCalendar,
+  getLastScanTime,
+  getNoScanThresholdDays,
+  type DelayEvaluationResult,
+  type ShipmentData,
+} from "./delay-detection.service";
+import type { MerchantSettings } from "~/lib/validation";
+import { businessDaysSince, differenceInBusinessDays } from "~/lib/business-days";
+import { getAddressRegion, toCalendarDay } from "~/lib/timezones";
+import { getRiskLevel, type RiskFactor, type RiskLevel } from "~/lib/delay-risk";
+
+/**
+ * Maximum points each signal contributes (the total is capped at 100).
+ */
+export const RISK_FACTOR_MAX_POINTS = {
+  NO_RECENT_SCAN: 30,
+  SLOW_SCAN_CADENCE: 15,
+  OUTSIDE_DESTINATION: 25,
+  LANE_EXCEPTIONS: 20,
+  DEADLINE_NEAR: 15,
+} as const;
+
+/**
+ * Lane history is only used with at least this many recent shipments.
+ */
+export const MIN_LANE_SHIPMENTS = 10;
+
+/**
+ * How far back lane history goes.
+ */
+const LANE_HISTORY_DAYS = 90;
+
+/**
+ * Lane problem rate at which LANE_EXCEPTIONS contributes its maximum.
+ */
+const LANE_RATE_FOR_MAX_POINTS = 0.5;
+
+/**
+ * Countries whose states/provinces are compared with scan locations.
+ */
+const REGION_COUNTRIES = ["US", "CA"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Result of a risk assessment
+ */
+export interface DelayRiskAssessment {
+  /** Risk score, 0-100 */
+  score: number;
+  level: RiskLevel;
+  /** Signals that contributed, highest first */
+  factors: RiskFactor[];
+}
+
+/**
+ * Recent shipments on a lane (origin, carrier and destination state)
+ */
+export interface LaneHistory {
+  shipments: number;
+  /** Shipments with a carrier exception or flagged as delayed */
+  problems: number;
+}
+
+/**
+ * Context for a risk assessment that isn't part of the shipment data
+ */
+export interface DelayRiskContext {
+  /** Destination state/province code (see getAddressRegion) */
+  destinationState: string | null;
+  /** Recent shipments on the shipment's lane */
+  laneHistory: LaneHistory | null;
+  /** Timezone delivery days are read in (UTC if omitted, see getDeliveryTimeZone) */
+  timeZone?: string;
+}
+
+/**
+ * Pluralize "business day".
+ */
+function businessDays(count: number): string {
+  return `${count} business ${count === 1 ? "day" : "days"}`;
+}
+
+/**
+ * State/province of the latest scan: from the newest tracking event, or parsed
+ * from a "City, ST, Country" last scan location.
+ */
+export function getScanState(
+  trackingResult: TrackingResult | null,
+  lastScanLocation: string | null
+): string | null {
+  const latestEvent = [...(trackingResult?.events ?? [])].sort(
+    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+  )[0];
+  if (latestEvent?.state) {
+    return latestEvent.state.toUpperCase();
+  }
+
+  const parts = (trackingResult?.lastScanLocation ?? lastScanLocation ?? "")
+    .split(",")
+    .map((part) => part.trim().toUpperCase())
+    .filter(Boolean);
+  if (parts.length === 3) {
+    return parts[1];
+  }
+  if (parts.length === 2) {
+    // "City, ST" or "ST, Country" (a city with only a country has no state)
+    if (!REGION_COUNTRIES.includes(parts[1])) {
+      return parts[1];
+    }
+    return parts[0].length === 2 ? parts[0] : null;
+  }
+  return null;
+}
+
+/**
+ * Median gap between consecutive scans, or null with fewer than three scans.
+ */
+function getMedianScanGapMs(trackingResult: TrackingResult | null): number | null {
+  const times = (trackingResult?.events ?? [])
+    .map((event) => event.timestamp.getTime())
+    .sort((a, b) => a - b);
+  if (times.length < 3) {
+    return null;
+  }
+
+  const gaps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  const middle = Math.floor(gaps.length / 2);
+  return gaps.length % 2 === 0 ? (gaps[middle - 1] + gaps[middle]) / 2 : gaps[middle];
+}
+
+/**
+ * Assess the risk of a shipment missing its expected delivery date.
+ *
+ * @param shipment - The shipment (or package) data
+ * @param trackingResult - The latest carrier tracking result (optional)
+ * @param delayResult - The delay evaluation for the same tracking result
+ * @param merchantSettings - The merchant's settings (stall thresholds, blackout dates)
+ * @param context - Destination, lane history and timezone
+ * @param now - Current date/time (optional, for testing)
+ * @returns The assessment, or null if the shipment is delivered or already delayed
+ */
+export function assessDelayRisk(
+  shipment: ShipmentData & { lastScanLocation?: string | null },
+  trackingResult: TrackingResult | null,
+  delayResult: DelayEvaluationResult,
+  merchantSettings: MerchantSettings,
+  context: DelayRiskContext,
+  now: Date = new Date()
+): DelayRiskAssessment | null {
+  if (shipment.isDelivered || trackingResult?.isDelivered || delayResult.isDelayed) {
+    return null;
+  }
+
+  const { timeZone } = context;
+  const calendar = getHolidayCalendar(shipment.carrier, merchantSettings.blackoutDates);
+  const status = trackingResult?.status ?? shipment.trackingStatus;
+  const lastScan = getLastScanTime(shipment, trackingResult);
+  const factors: RiskFactor[] = [];
+
+  // 1. Time since the last scan (or since the label was created), against the
+  //    stall threshold
+  if (status === "LABEL_CREATED") {
+    const days = businessDaysSince(shipment.shipDate, now, calendar, timeZone);
+    const threshold = merchantSettings.stallDetection.pickupDays;
+    if (days > 0) {
+      factors.push({
+        code: "NO_RECENT_SCAN",
+        points: Math.round(RISK_FACTOR_MAX_POINTS.NO_RECENT_SCAN * Math.min(days / threshold, 1)),
+        description: `Not picked up by the carrier for ${businessDays(days)}`,
+      });
+    }
+  } else if (lastScan) {
+    const days = businessDaysSince(lastScan, now, calendar, timeZone);
+    const threshold = getNoScanThresholdDays(
+      shipment.serviceLevel,
+      shipment.carrier,
+      merchantSettings.stallDetection
+    );
+    if (days > 0) {
+      factors.push({
+        code: "NO_RECENT_SCAN",
+        points: Math.round(RISK_FACTOR_MAX_POINTS.NO_RECENT_SCAN * Math.min(days / threshold, 1)),
+        description: `No carrier scan for ${businessDays(days)}`,
+      });
+    }
+  }
+
+  // 2. Scan cadence: the current gap is more than twice the usual one (and at least a day)
+  const medianGap = getMedianScanGapMs(trackingResult);
+  if (lastScan && medianGap !== null) {
+    const currentGap = now.getTime() - lastScan.getTime();
+    if (currentGap >= 24 * HOUR_MS && currentGap > 2 * medianGap) {
+      factors.push({
+        code: "SLOW_SCAN_CADENCE",
+        points: RISK_FACTOR_MAX_POINTS.SLOW_SCAN_CADENCE,
+        description: `No scan for ${Math.round(currentGap / HOUR_MS)} hours, usually every ${Math.max(1, Math.round(medianGap / HOUR_MS))} hours`,
+      });
+    }
+  }
+
+  // Business days left before the (rescheduled) expected delivery date, today included
+  const dueDate = trackingResult?.rescheduledDeliveryDate ?? delayResult.expectedDeliveryDate;
+  const today = timeZone ? toCalendarDay(now, timeZone) : now;
+  const remaining = dueDate ? differenceInBusinessDays(today, dueDate, calendar) : null;
+  const isOutForDelivery = status === "OUT_FOR_DELIVERY";
+
+  // 3. Still outside the destination state with two business days or less left
+  const scanState =
+    status === "LABEL_CREATED"
+      ? null
+      : getScanState(trackingResult, shipment.lastScanLocation ?? null);
+  if (
+    !isOutForDelivery &&
+    remaining !== null &&
+    remaining <= 2 &&
+    context.destinationState &&
+    scanState &&
+    scanState !== context.destinationState
+  ) {
+    factors.push({
+      code: "OUTSIDE_DESTINATION",
+      points:
+        remaining <= 1
+          ? RISK_FACTOR_MAX_POINTS.OUTSIDE_DESTINATION
+          : Math.round(RISK_FACTOR_MAX_POINTS.OUTSIDE_DESTINATION * 0.4),
+      description: `Last scanned in ${scanState}, delivering to ${context.destinationState}`,
+    });
+  }
+
+  // 4. Lane history
+  const lane = context.laneHistory;
+  if (lane && lane.shipments >= MIN_LANE_SHIPMENTS && lane.problems > 0) {
+    const rate = lane.problems / lane.shipments;
+    const points = Math.round(
+      RISK_FACTOR_MAX_POINTS.LANE_EXCEPTIONS * Math.min(rate / LANE_RATE_FOR_MAX_POINTS, 1)
+    );
+    if (points > 0) {
+      factors.push({
+        code: "LANE_EXCEPTIONS",
+        points,
+        description: `${Math.round(rate * 100)}% of recent shipments on this lane had exceptions or delays`,
+      });
+    }
+  }
+
+  // 5. Deadline near: due today or tomorrow
+  if (!isOutForDelivery && remaining !== null && remaining <= 1) {
+    factors.push({
+      code: "DEADLINE_NEAR",
+      points:
+        remaining <= 0
+          ? RISK_FACTOR_MAX_POINTS.DEADLINE_NEAR
+          : Math.round(RISK_FACTOR_MAX_POINTS.DEADLINE_NEAR * 0.5),
+      description: remaining <= 0 ? "Due today" : "Due in 1 business day",
+    });
+  }
+
+  factors.sort((a, b) => b.points - a.points);
+  const score = Math.min(100, factors.reduce((total, factor) => total + factor.points, 0));
+
+  return { score, level: getRiskLevel(score), factors };
+}
+
+/**
+ * Count recent shipments on a lane, and how many of them had a carrier
+ * exception or were flagged as delayed.
+ *
+ * @param merchantId - The merchant
+ * @param carrier - The carrier
+ * @param destinationState - Destination state/province code
+ * @param originLocationId - Fulfillment location (any origin if null)
+ * @param excludeShipmentId - The shipment being scored
+ * @param now - Current date/time (optional, for testing)
+ */
+export async function getLaneHistory(
+  merchantId: string,
+  carrier: Carrier,
+  destinationState: string,
+  originLocationId: string | null,
+  excludeShipmentId: string,
+  now: Date = new Date()
+): Promise<LaneHistory> {
+  const where: Prisma.ShipmentWhereInput = {
+    merchantId,
+    carrier,
+    id: { not: excludeShipmentId },
+    shipDate: { gte: new Date(now.getTime() - LANE_HISTORY_DAYS * 24 * HOUR_MS) },
+    shippingAddress: { path: ["provinceCode"], equals: destinationState },
+    ...(originLocationId && { fulfillmentLocationId: originLocationId }),
+  };
+
+  const [shipments, problems] = await Promise.all([
+    prisma.shipment.count({ where }),
+    prisma.shipment.count({
+      where: {
+        ...where,
+        OR: [{ carrierExceptionCode: { not: null } }, { delayFlaggedAt: { not: null } }],
+      },
+    }),
+  ]);
+
+  return { shipments, problems };
+}
+
+/**
+ * Score a shipment (or one of its packages) after a poll: looks up the lane
+ * history, then assesses the risk.
+ *
+ * @param shipment - The shipment being polled
+ * @param data - Shipment or package data (see toShipmentData, toPackageShipmentData)
+ * @param trackingResult - The poll's tracking result
+ * @param delayResult - The delay evaluation for the same tracking result
+ * @param merchantSettings - The merchant's settings
+ * @param timeZone - Timezone delivery days are read in
+ * @param now - Current date/time (optional, for testing)
+ */
+export async function scoreDelayRisk(
+  shipment: Pick<
+    Shipment,
+    "id" | "merchantId" | "shippingAddress" | "fulfillmentLocationId" | "lastScanLocation"
+  >,
+  data: ShipmentData,
+  trackingResult: TrackingResult,
+  delayResult: DelayEvaluationResult,
+  merchantSettings: MerchantSettings,
+  timeZone?: string,
+  now: Date = new Date()
+): Promise<DelayRiskAssessment | null> {
+  if (trackingResult.isDelivered || delayResult.isDelayed) {
+    return null;
+  }
+
+  const region = getAddressRegion(shipment.shippingAddress);
+  const destinationState =
+    region && (!region.country || REGION_COUNTRIES.includes(region.country))
+      ? region.province
+      : null;
+  const laneHistory = destinationState
+    ? await getLaneHistory(
+        shipment.merchantId,
+        data.carrier,
+        destinationState,
+        shipment.fulfillmentLocationId,
+        shipment.id,
+        now
+      )
+    : null;
+
+  return assessDelayRisk(
+    { ...data, lastScanLocation: shipment.lastScanLocation },
+    trackingResult,
+    delayResult,
+    merchantSettings,
+    { destinationState, laneHistory, timeZone },
+    now
+  );
+}
+
+/**
+ * Generate the database update fields from a risk assessment (cleared when
+ * the shipment isn't scored).
+ */
+export function getRiskUpdateFields(
+  assessment: DelayRiskAssessment | null,
+  now: Date = new Date()
+): Prisma.ShipmentUpdateInput {
+  return {
+    riskScore: assessment?.score ?? null,
+    riskFactors: assessment ? (assessment.factors as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    riskScoredAt: now,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Delay Rules Service
+ *
+ * Records when merchants' delay rules (see delay-rules.ts) match their
+ * shipments. Rules are evaluated again at every poll, so a rule is logged
+ * when it newly matches a shipment: when it didn't match at the shipment's
+ * previous poll.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import type { MatchedDelayRule } from "~/lib/delay-rules";
+
+/**
+ * Log the rules that newly matched a shipment.
+ *
+ * @param shipment - The shipment, with the rules that matched at its previous poll
+ * @param matchedRules - Rules that matched now
+ * @param isDelayed - Whether the shipment was flagged as delayed
+ * @param now - Current date/time (optional, for testing)
+ * @returns IDs of the rules that matched now, to store on the shipment
+ */
+export async function logMatchedDelayRules(
+  shipment: { id: string; merchantId: string; matchedDelayRuleIds: string[] },
+  matchedRules: readonly MatchedDelayRule[],
+  isDelayed: boolean,
+  now: Date = new Date()
+): Promise<string[]> {
+  const previous = new Set(shipment.matchedDelayRuleIds);
+  const newlyMatched = matchedRules.filter((rule) => !previous.has(rule.ruleId));
+
+  if (newlyMatched.length > 0) {
+    await prisma.delayRuleLog.createMany({
+      data: newlyMatched.map((rule) => ({
+        shipmentId: shipment.id,
+        merchantId: shipment.merchantId,
+        ruleId: rule.ruleId,
+        ruleName: rule.ruleName,
+        actions: rule.actions as Prisma.InputJsonValue,
+        isDelayed,
+        matchedAt: now,
+      })),
+    });
+  }
+
+  return matchedRules.map((rule) => rule.ruleId);
+}
+
+/**
+ * Combine the rules that matched the packages of a multi-package shipment,
+ * listing each rule once.
+ */
+export function mergeMatchedDelayRules(
+  matchedRulesList: ReadonlyArray<readonly MatchedDelayRule[]>
+): MatchedDelayRule[] {
+  const byId = new Map<string, MatchedDelayRule>();
+  for (const matchedRules of matchedRulesList) {
+    for (const rule of matchedRules) {
+      if (!byId.has(rule.ruleId)) {
+        byId.set(rule.ruleId, rule);
+      }
+    }
+  }
+  return [...byId.values()];
+}
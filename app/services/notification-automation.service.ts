@@ -0,0 +1,201 @@
+/**
+ * Notification Automation Service
+ *
+ * Queues automatic delay notifications for merchants who opted in (see
+ * notification-automation.ts). The carrier poll worker calls this after
+ * saving a poll that left a shipment delayed; the rules are checked again at
+ * every such poll until the shipment matches them or is notified.
+ *
+ * A shipment is claimed (autoNotifiedAt) before its jobs are queued, so
+ * concurrent polls can't queue a second notification. Jobs are checked and
+ * rendered again when they're sent (see getDueAutoNotification), as the
+ * send delay can be days.
+ */
+
+import type { NotificationChannel } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { enqueueNotificationJob } from "~/queue.server";
+import type { NotificationJobMessage, SendNotificationJobData } from "~/jobs/types";
+import type { MerchantSettings } from "~/lib/validation";
+import {
+  AUTOMATION_SENDER,
+  getAutoNotificationSkipReason,
+} from "~/lib/notification-automation";
+import { prepareNotification } from "./notification.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Queue a shipment's automatic notification if it matches the merchant's rules.
+ *
+ * @param shipmentId - The shipment, as just saved by the poll
+ * @param settings - The merchant's settings
+ * @param now - Current date/time (optional, for testing)
+ * @returns The channels notifications were queued on (empty if none were)
+ */
+export async function queueAutoNotification(
+  shipmentId: string,
+  settings: MerchantSettings,
+  now: Date = new Date()
+): Promise<NotificationChannel[]> {
+  const rules = settings.autoNotifications;
+  if (!rules.enabled) {
+    return [];
+  }
+
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    select: {
+      id: true,
+      merchantId: true,
+      isDelayed: true,
+      daysDelayed: true,
+      delayReason: true,
+      exceptionCategory: true,
+      carrier: true,
+      orderValue: true,
+      notificationSent: true,
+      autoNotifiedAt: true,
+    },
+  });
+  if (!shipment) {
+    return [];
+  }
+
+  const skipReason = getAutoNotificationSkipReason(rules, {
+    isDelayed: shipment.isDelayed,
+    daysDelayed: shipment.daysDelayed,
+    delayReason: shipment.delayReason,
+    exceptionCategory: shipment.exceptionCategory,
+    carrier: shipment.carrier,
+    orderValue: shipment.orderValue?.toNumber() ?? null,
+    notificationSent: shipment.notificationSent,
+    autoNotified: shipment.autoNotifiedAt !== null,
+  });
+  if (skipReason) {
+    console.log(`[notification-automation] Not notifying shipment ${shipmentId}: ${skipReason}`);
+    return [];
+  }
+
+  const notification = await prepareNotification(shipmentId, shipment.merchantId);
+  if (!notification) {
+    return [];
+  }
+
+  const messages: NotificationJobMessage[] = [];
+  for (const channel of rules.channels) {
+    if (channel === "SMS") {
+      if (notification.recipientPhone) {
+        messages.push({ channel, recipientPhone: notification.recipientPhone, body: notification.smsBody });
+      }
+    } else {
+      messages.push({
+        channel,
+        recipientEmail: notification.recipientEmail,
+        subject: notification.subject,
+        body: notification.body,
+      });
+    }
+  }
+  if (messages.length === 0) {
+    console.log(`[notification-automation] Not notifying shipment ${shipmentId}: no recipient on its channels`);
+    return [];
+  }
+
+  // Claim the shipment; another poll may have got here first
+  const claimed = await prisma.shipment.updateMany({
+    where: { id: shipmentId, autoNotifiedAt: null },
+    data: { autoNotifiedAt: now },
+  });
+  if (claimed.count === 0) {
+    return [];
+  }
+
+  const delay = Math.round(rules.sendDelayHours * HOUR_MS);
+  try {
+    for (const message of messages) {
+      await enqueueNotificationJob(
+        shipmentId,
+        { ...message, sentBy: AUTOMATION_SENDER },
+        // Deterministic IDs: a shipment's automated job is never queued twice
+        { jobId: `auto-notify-${shipmentId}-${message.channel}`, delay }
+      );
+    }
+  } catch (error) {
+    // Release the claim so the next poll tries again
+    await prisma.shipment.update({
+      where: { id: shipmentId },
+      data: { autoNotifiedAt: null },
+    });
+    throw error;
+  }
+
+  const channels = messages.map((message) => message.channel ?? "EMAIL");
+  console.log(
+    `[notification-automation] Queued ${channels.join(" and ")} notification for shipment ${shipmentId}` +
+      (delay > 0 ? ` in ${rules.sendDelayHours}h` : "")
+  );
+  return channels;
+}
+
+/**
+ * Get a queued automatic notification as it should be sent now, rendered from
+ * the shipment's current data so dates and days delayed are up to date after
+ * the send delay.
+ *
+ * @returns The job's message to send, or null if it's no longer due: the
+ *   shipment was delivered, resolved or archived, is no longer delayed, or
+ *   the merchant notified the customer themselves in the meantime
+ */
+export async function getDueAutoNotification(
+  job: SendNotificationJobData
+): Promise<SendNotificationJobData | null> {
+  const { shipmentId } = job;
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    select: {
+      merchantId: true,
+      isDelayed: true,
+      isDelivered: true,
+      isResolved: true,
+      isArchived: true,
+      notificationSent: true,
+      // Notifications sent by staff; the job's sibling on another channel doesn't count
+      notificationLogs: {
+        where: { status: "SENT", sentBy: { not: AUTOMATION_SENDER } },
+        select: { id: true },
+        take: 1,
+      },
+    },
+  });
+
+  let skipReason: string | null = null;
+  if (!shipment || !shipment.isDelayed || shipment.isDelivered || shipment.isResolved || shipment.isArchived) {
+    skipReason = "it is no longer delayed";
+  } else if (shipment.notificationSent && shipment.notificationLogs.length > 0) {
+    skipReason = "the customer was notified manually";
+  }
+  if (!shipment || skipReason) {
+    console.log(`[notification-automation] Not sending to shipment ${shipmentId}: ${skipReason}`);
+    return null;
+  }
+
+  const notification = await prepareNotification(shipmentId, shipment.merchantId);
+  if (!notification) {
+    return null;
+  }
+
+  if (job.channel === "SMS") {
+    if (!notification.recipientPhone) {
+      console.log(`[notification-automation] Not sending to shipment ${shipmentId}: no valid phone number`);
+      return null;
+    }
+    return { ...job, recipientPhone: notification.recipientPhone, body: notification.smsBody };
+  }
+  return {
+    ...job,
+    recipientEmail: notification.recipientEmail,
+    subject: notification.subject,
+    body: notification.body,
+  };
+}
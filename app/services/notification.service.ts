@@ -1,17 +1,32 @@
 /**
  * Notification Service (Server-side)
  *
- * Handles sending notification emails to customers via Resend and logging to database.
+ * Handles sending customer notifications on their channel (email via Resend,
+ * SMS via the configured SMS provider) and logging them to the database.
+ * Channels live in ~/services/notifications.
  *
  * NOTE: Template rendering utilities are in ~/lib/notification-templates.ts
  * to allow client-side usage. Re-exported here for backwards compatibility.
  */
 
-import { Resend } from "resend";
+import type { NotificationChannel } from "@prisma/client";
 import { prisma } from "~/db.server";
 import type { MerchantSettings } from "~/lib/validation";
 import { MerchantSettingsSchema } from "~/lib/validation";
 import { renderHtmlEmail, extractBranding, hasBranding } from "~/lib/email-html";
+import { normalizePhoneNumber } from "~/lib/phone";
+import { getAddressCountry } from "~/lib/timezones";
+import {
+  selectNotificationScenario,
+  type NotificationScenario,
+} from "~/lib/notification-scenarios";
+import type { NotificationJobMessage } from "~/jobs/types";
+import type {
+  NotificationChannelAdapter,
+  SendNotificationResult,
+} from "./notifications/channel.interface";
+import { getEmailChannel } from "./notifications/email.channel";
+import { getSmsChannel } from "./notifications/sms.channel";
 
 // Re-export client-safe utilities for backwards compatibility with server code
 export {
@@ -23,102 +38,36 @@ export {
   extractFirstName,
   renderTemplate,
   validateTemplate,
+  validateRenderedMessage,
   buildTemplateContext,
   formatShopName,
 } from "~/lib/notification-templates";
 
 // Import for local use
-import { buildTemplateContext, renderTemplate } from "~/lib/notification-templates";
+import {
+  buildTemplateContext,
+  renderTemplate,
+  selectNotificationTemplate,
+  selectSmsTemplate,
+} from "~/lib/notification-templates";
 
 // ============================================================
-// Email Sending via Resend
+// Channels
 // ============================================================
 
-let resendClient: Resend | null = null;
-
-function getResendClient(): Resend {
-  if (!resendClient) {
-    const apiKey = process.env.RESEND_API_KEY;
-    if (!apiKey) {
-      throw new Error("RESEND_API_KEY environment variable is not set");
-    }
-    resendClient = new Resend(apiKey);
-  }
-  return resendClient;
-}
-
-export interface SendEmailResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
-}
-
 /**
- * Send a notification email via Resend
- *
- * Automatically sends as HTML if the merchant has branding configured
- * (logo or footer contact info). Falls back to plain text otherwise.
- *
- * @param to - Recipient email address
- * @param subject - Email subject
- * @param body - Email body (plain text - will be wrapped in HTML if branding exists)
- * @param fromEmail - Optional custom from email
- * @param settings - Merchant settings (used for branding)
- * @returns SendEmailResult
+ * Channel singleton getters.
  */
-export async function sendNotificationEmail(
-  to: string,
-  subject: string,
-  body: string,
-  fromEmail?: string | null,
-  settings?: MerchantSettings | null
-): Promise<SendEmailResult> {
-  try {
-    const resend = getResendClient();
+const NOTIFICATION_CHANNELS: Record<NotificationChannel, () => NotificationChannelAdapter> = {
+  EMAIL: getEmailChannel,
+  SMS: getSmsChannel,
+};
 
-    const from =
-      fromEmail ||
-      process.env.RESEND_FROM_EMAIL ||
-      "DelayGuard <noreply@delayguard.app>";
-
-    // Build email payload — HTML if branding exists, plain text otherwise
-    const parsedSettings = settings
-      ? MerchantSettingsSchema.parse(settings)
-      : null;
-
-    const useBranding = parsedSettings && hasBranding(parsedSettings);
-
-    const emailPayload: {
-      from: string;
-      to: string;
-      subject: string;
-      text: string;
-      html?: string;
-    } = {
-      from,
-      to,
-      subject,
-      text: body, // Always include plain text as fallback
-    };
-
-    if (useBranding) {
-      const branding = extractBranding(parsedSettings);
-      emailPayload.html = renderHtmlEmail(body, branding);
-    }
-
-    const { data, error } = await resend.emails.send(emailPayload);
-
-    if (error) {
-      console.error("[notification] Failed to send email:", error);
-      return { success: false, error: error.message };
-    }
-
-    return { success: true, messageId: data?.id };
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : "Unknown error";
-    console.error("[notification] Exception sending email:", errorMessage);
-    return { success: false, error: errorMessage };
-  }
+/**
+ * Get the channel to send notifications on.
+ */
+export function getNotificationChannel(channel: NotificationChannel): NotificationChannelAdapter {
+  return NOTIFICATION_CHANNELS[channel]();
 }
 
 // ============================================================
@@ -128,9 +77,11 @@ export async function sendNotificationEmail(
 export async function createNotificationLog(params: {
   shipmentId: string;
   merchantId: string;
+  channel: NotificationChannel;
   sentBy: string;
-  recipientEmail: string;
-  emailSubject: string;
+  recipientEmail?: string | null;
+  recipientPhone?: string | null;
+  emailSubject?: string | null;
   emailBody: string;
   status: "SENT" | "FAILED";
 }) {
@@ -138,9 +89,11 @@ export async function createNotificationLog(params: {
     data: {
       shipmentId: params.shipmentId,
       merchantId: params.merchantId,
+      channel: params.channel,
       sentBy: params.sentBy,
-      recipientEmail: params.recipientEmail,
-      emailSubject: params.emailSubject,
+      recipientEmail: params.recipientEmail ?? null,
+      recipientPhone: params.recipientPhone ?? null,
+      emailSubject: params.emailSubject ?? null,
       emailBodyPreview: params.emailBody.substring(0, 500),
       status: params.status,
     },
@@ -162,19 +115,16 @@ export async function markShipmentNotified(shipmentId: string): Promise<void> {
 // ============================================================
 
 /**
- * Send a notification for a shipment and log the result
+ * Send a notification for a shipment on its channel and log the result
  *
- * Now passes merchant settings through so the email renderer
- * can apply logo header and contact footer branding.
+ * Merchant settings are passed to the channel so emails can be sent from
+ * the merchant's address with their logo header and contact footer.
  */
-export async function sendAndLogNotification(params: {
-  shipmentId: string;
-  recipientEmail: string;
-  subject: string;
-  body: string;
-  sentBy: string;
-}): Promise<SendEmailResult> {
-  const { shipmentId, recipientEmail, subject, body, sentBy } = params;
+export async function sendAndLogNotification(
+  params: NotificationJobMessage & { shipmentId: string; sentBy: string }
+): Promise<SendNotificationResult> {
+  const { shipmentId, sentBy, body } = params;
+  const channel = params.channel ?? "EMAIL";
 
   const shipment = await prisma.shipment.findUnique({
     where: { id: shipmentId },
@@ -194,23 +144,27 @@ export async function sendAndLogNotification(params: {
   }
 
   const settings = shipment.merchant.settings as MerchantSettings | null;
-  const fromEmail = settings?.fromEmail || null;
 
-  // Send the email — settings are passed so branding can be applied
-  const result = await sendNotificationEmail(
-    recipientEmail,
-    subject,
+  const recipient =
+    params.channel === "SMS"
+      ? { to: params.recipientPhone, subject: null, email: null, phone: params.recipientPhone }
+      : { to: params.recipientEmail, subject: params.subject, email: params.recipientEmail, phone: null };
+
+  const result = await getNotificationChannel(channel).send({
+    to: recipient.to,
+    subject: recipient.subject,
     body,
-    fromEmail,
-    settings
-  );
+    settings,
+  });
 
   await createNotificationLog({
     shipmentId,
     merchantId: shipment.merchantId,
+    channel,
     sentBy,
-    recipientEmail,
-    emailSubject: subject,
+    recipientEmail: recipient.email,
+    recipientPhone: recipient.phone,
+    emailSubject: recipient.subject,
     emailBody: body,
     status: result.success ? "SENT" : "FAILED",
   });
@@ -223,16 +177,41 @@ export async function sendAndLogNotification(params: {
 }
 
 /**
- * Prepare a notification email with rendered template for preview
+ * Normalize a shipment's customer phone number for SMS, using its shipping
+ * country for numbers written without a country code.
+ *
+ * @returns The E.164 number, or null if the shipment has no valid phone number
+ */
+export function getShipmentSmsNumber(shipment: {
+  customerPhone: string | null;
+  shippingAddress: unknown;
+}): string | null {
+  return normalizePhoneNumber(shipment.customerPhone, getAddressCountry(shipment.shippingAddress));
+}
+
+/**
+ * Prepare a notification with rendered templates (email and SMS) for preview
+ *
+ * @param scenario - Email template chosen by the merchant (picked from the shipment otherwise)
  */
 export async function prepareNotification(
   shipmentId: string,
-  merchantId: string
+  merchantId: string,
+  scenario?: NotificationScenario
 ): Promise<{
+  /** Scenario of the rendered email template */
+  scenario: NotificationScenario;
+  /** Scenario that fits the shipment best */
+  suggestedScenario: NotificationScenario;
+  /** Locale the email was rendered in (see notification-locales.ts) */
+  locale: string;
   recipientEmail: string;
   subject: string;
   body: string;
   htmlPreview: string | null;
+  /** Customer's phone number in E.164, or null if SMS can't be sent */
+  recipientPhone: string | null;
+  smsBody: string;
   shipment: {
     id: string;
     orderNumber: string;
@@ -264,21 +243,37 @@ export async function prepareNotification(
   const settings = shipment.merchant.settings as MerchantSettings;
   const parsedSettings = MerchantSettingsSchema.parse(settings);
 
-  const context = buildTemplateContext(
-    {
-      customerName: shipment.customerName,
-      orderNumber: shipment.orderNumber,
-      trackingNumber: shipment.trackingNumber,
-      carrier: shipment.carrier,
-      currentStatus: shipment.currentStatus,
-      lastCarrierStatus: shipment.lastCarrierStatus,
-      expectedDeliveryDate: shipment.expectedDeliveryDate,
-    },
-    shipment.merchant.shopDomain
-  );
-
-  const subject = renderTemplate(parsedSettings.notificationTemplate.subject, context);
-  const body = renderTemplate(parsedSettings.notificationTemplate.body, context);
+  // Email and SMS may be translated into different locales
+  const buildContext = (locale: string) =>
+    buildTemplateContext(
+      {
+        customerName: shipment.customerName,
+        orderNumber: shipment.orderNumber,
+        trackingNumber: shipment.trackingNumber,
+        carrier: shipment.carrier,
+        currentStatus: shipment.currentStatus,
+        lastCarrierStatus: shipment.lastCarrierStatus,
+        expectedDeliveryDate: shipment.expectedDeliveryDate,
+        rescheduledDeliveryDate: shipment.rescheduledDeliveryDate,
+        exceptionCategory: shipment.exceptionCategory,
+        lineItems: shipment.lineItems,
+        shippingAddress: shipment.shippingAddress,
+        daysDelayed: shipment.daysDelayed,
+        lastScanLocation: shipment.lastScanLocation,
+        orderStatusUrl: shipment.orderStatusUrl,
+      },
+      shipment.merchant.shopDomain,
+      locale,
+      parsedSettings.discountCode
+    );
+
+  const suggestedScenario = selectNotificationScenario(shipment);
+  const template = selectNotificationTemplate(parsedSettings, shipment, scenario ?? suggestedScenario);
+  const context = buildContext(template.locale);
+  const subject = renderTemplate(template.subject, context);
+  const body = renderTemplate(template.body, context);
+  const smsTemplate = selectSmsTemplate(parsedSettings, shipment.customerLocale);
+  const smsBody = renderTemplate(smsTemplate.body, buildContext(smsTemplate.locale));
 
   // Generate HTML preview if branding is configured
   let htmlPreview: string | null = null;
@@ -288,10 +283,15 @@ export async function prepareNotification(
   }
 
   return {
+    scenario: template.scenario,
+    suggestedScenario,
+    locale: template.locale,
     recipientEmail: shipment.customerEmail,
     subject,
     body,
     htmlPreview,
+    recipientPhone: getShipmentSmsNumber(shipment),
+    smsBody,
     shipment: {
       id: shipment.id,
       orderNumber: shipment.orderNumber,
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { SmsProvider } from "../channel.interface";
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Now import the channel after mocks are set up
+const { SmsChannel, createSmsProvider } = await import("../sms.channel");
+const { TwilioSmsProvider } = await import("../twilio.sms-provider");
+const { ConsoleSmsProvider } = await import("../console.sms-provider");
+
+const TWILIO_ENV = [
+  "SMS_PROVIDER",
+  "TWILIO_ACCOUNT_SID",
+  "TWILIO_AUTH_TOKEN",
+  "TWILIO_FROM_NUMBER",
+  "TWILIO_MESSAGING_SERVICE_SID",
+];
+
+describe("SMS channel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    for (const name of TWILIO_ENV) {
+      delete process.env[name];
+    }
+    vi.restoreAllMocks();
+  });
+
+  describe("createSmsProvider", () => {
+    it("should use the console provider when Twilio isn't configured", () => {
+      expect(createSmsProvider()).toBeInstanceOf(ConsoleSmsProvider);
+    });
+
+    it("should use Twilio when it is configured", () => {
+      process.env.TWILIO_ACCOUNT_SID = "AC123";
+      process.env.TWILIO_AUTH_TOKEN = "token";
+      process.env.TWILIO_FROM_NUMBER = "+15555550100";
+
+      expect(createSmsProvider()).toBeInstanceOf(TwilioSmsProvider);
+    });
+
+    it("should honor SMS_PROVIDER", () => {
+      process.env.TWILIO_ACCOUNT_SID = "AC123";
+      process.env.TWILIO_AUTH_TOKEN = "token";
+      process.env.TWILIO_FROM_NUMBER = "+15555550100";
+      process.env.SMS_PROVIDER = "console";
+
+      expect(createSmsProvider()).toBeInstanceOf(ConsoleSmsProvider);
+    });
+
+    it("should reject unknown providers", () => {
+      process.env.SMS_PROVIDER = "pigeon";
+
+      expect(() => createSmsProvider()).toThrow('Unknown SMS_PROVIDER "pigeon"');
+    });
+  });
+
+  describe("SmsChannel", () => {
+    const provider: SmsProvider = { name: "test", sendSms: vi.fn() };
+
+    it("should send E.164 numbers through the provider", async () => {
+      vi.mocked(provider.sendSms).mockResolvedValue({ success: true, messageId: "SM1" });
+      const channel = new SmsChannel(provider);
+
+      const result = await channel.send({
+        to: "+14155550123",
+        subject: null,
+        body: "Your order is delayed",
+        settings: null,
+      });
+
+      expect(result).toEqual({ success: true, messageId: "SM1" });
+      expect(provider.sendSms).toHaveBeenCalledWith({
+        to: "+14155550123",
+        body: "Your order is delayed",
+      });
+    });
+
+    it("should not send to numbers that aren't normalized", async () => {
+      const channel = new SmsChannel(provider);
+
+      const result = await channel.send({
+        to: "(415) 555-0123",
+        subject: null,
+        body: "Your order is delayed",
+        settings: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("E.164");
+      expect(provider.sendSms).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("TwilioSmsProvider", () => {
+    beforeEach(() => {
+      process.env.TWILIO_ACCOUNT_SID = "AC123";
+      process.env.TWILIO_AUTH_TOKEN = "token";
+      process.env.TWILIO_FROM_NUMBER = "+15555550100";
+    });
+
+    it("should post the message to the Twilio Messages API", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: () => Promise.resolve({ sid: "SM123", status: "queued" }),
+      });
+
+      const result = await new TwilioSmsProvider().sendSms({
+        to: "+14155550123",
+        body: "Your order is delayed",
+      });
+
+      expect(result).toEqual({ success: true, messageId: "SM123" });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json");
+      expect(init.headers.Authorization).toBe(
+        `Basic ${Buffer.from("AC123:token").toString("base64")}`
+      );
+      const form = new URLSearchParams(init.body);
+      expect(form.get("To")).toBe("+14155550123");
+      expect(form.get("From")).toBe("+15555550100");
+      expect(form.get("Body")).toBe("Your order is delayed");
+    });
+
+    it("should send from a messaging service when one is configured", async () => {
+      process.env.TWILIO_MESSAGING_SERVICE_SID = "MG123";
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: () => Promise.resolve({ sid: "SM123" }),
+      });
+
+      await new TwilioSmsProvider().sendSms({ to: "+14155550123", body: "Hi" });
+
+      const form = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(form.get("MessagingServiceSid")).toBe("MG123");
+      expect(form.has("From")).toBe(false);
+    });
+
+    it("should return Twilio's error message on failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () =>
+          Promise.resolve({ code: 21211, message: "The 'To' number is not a valid phone number." }),
+      });
+
+      const result = await new TwilioSmsProvider().sendSms({ to: "+14155550123", body: "Hi" });
+
+      expect(result).toEqual({
+        success: false,
+        error: "The 'To' number is not a valid phone number.",
+      });
+    });
+
+    it("should fail without credentials", async () => {
+      delete process.env.TWILIO_AUTH_TOKEN;
+
+      const result = await new TwilioSmsProvider().sendSms({ to: "+14155550123", body: "Hi" });
+
+      expect(result.success).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ConsoleSmsProvider", () => {
+    it("should append messages to the outbox file", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "sms-outbox-"));
+      const outboxFile = join(dir, "outbox.jsonl");
+
+      try {
+        const provider = new ConsoleSmsProvider(outboxFile);
+        await provider.sendSms({ to: "+14155550123", body: "First" });
+        const result = await provider.sendSms({ to: "+447911123456", body: "Second" });
+
+        expect(result.success).toBe(true);
+        const lines = (await readFile(outboxFile, "utf8")).trim().split("\n");
+        expect(lines.map((line) => JSON.parse(line))).toEqual([
+          expect.objectContaining({ to: "+14155550123", body: "First" }),
+          expect.objectContaining({ to: "+447911123456", body: "Second" }),
+        ]);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
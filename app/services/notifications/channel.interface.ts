@@ -0,0 +1,67 @@
+/**
+ * Notification Channel Interface
+ *
+ * Defines the common interface of the channels customer notifications are
+ * sent on (email, SMS). The notification service delegates to the channel a
+ * notification was queued for, and logs one NotificationLog entry per channel.
+ */
+
+import type { NotificationChannel } from "@prisma/client";
+import type { MerchantSettings } from "~/lib/validation";
+
+/**
+ * A rendered notification, ready to send.
+ */
+export interface OutgoingNotification {
+  /** Email address (EMAIL) or E.164 phone number (SMS) */
+  to: string;
+  /** Email subject; SMS has none */
+  subject: string | null;
+  /** Plain text body */
+  body: string;
+  /** Merchant settings (sender address, email branding) */
+  settings: MerchantSettings | null;
+}
+
+/**
+ * Outcome of sending a notification.
+ */
+export interface SendNotificationResult {
+  success: boolean;
+  /** Provider's message ID (Resend email ID, Twilio message SID) */
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Interface every notification channel implements.
+ */
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+
+  /**
+   * Send a notification. Failures are returned, not thrown, so they can be
+   * logged before the job retries.
+   */
+  send(notification: OutgoingNotification): Promise<SendNotificationResult>;
+}
+
+/**
+ * An SMS message for an SMS provider.
+ */
+export interface SmsMessage {
+  /** E.164 phone number */
+  to: string;
+  body: string;
+}
+
+/**
+ * Interface every SMS provider implements (see twilio.sms-provider.ts and
+ * console.sms-provider.ts).
+ */
+export interface SmsProvider {
+  /** Provider name, for logs */
+  readonly name: string;
+
+  sendSms(message: SmsMessage): Promise<SendNotificationResult>;
+}
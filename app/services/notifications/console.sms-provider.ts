@@ -0,0 +1,40 @@
+/**
+ * Console SMS Provider
+ *
+ * Local stand-in for a real SMS provider: logs each SMS instead of sending it
+ * and, when SMS_OUTBOX_FILE is set, appends it to that file as a JSON line so
+ * messages can be inspected in development and CI.
+ */
+
+import { appendFile } from "node:fs/promises";
+import type { SendNotificationResult, SmsMessage, SmsProvider } from "./channel.interface";
+
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = "console";
+
+  private readonly outboxFile: string | undefined;
+
+  constructor(outboxFile: string | undefined = process.env.SMS_OUTBOX_FILE) {
+    this.outboxFile = outboxFile;
+  }
+
+  async sendSms(message: SmsMessage): Promise<SendNotificationResult> {
+    const sentAt = new Date();
+    const messageId = `console-${sentAt.getTime()}`;
+
+    console.log(`[sms:console] To: ${message.to}\n${message.body}`);
+
+    if (this.outboxFile) {
+      try {
+        const entry = { id: messageId, to: message.to, body: message.body, sentAt: sentAt.toISOString() };
+        await appendFile(this.outboxFile, `${JSON.stringify(entry)}\n`, "utf8");
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Unknown error";
+        console.error(`[notification] Failed to write SMS outbox ${this.outboxFile}:`, errorMessage);
+        return { success: false, error: errorMessage };
+      }
+    }
+
+    return { success: true, messageId };
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Email Notification Channel
+ *
+ * Sends notification emails via Resend. Emails are sent as HTML if the
+ * merchant has branding configured (logo or footer contact info), with the
+ * plain text body as fallback.
+ */
+
+import { Resend } from "resend";
+import { MerchantSettingsSchema } from "~/lib/validation";
+import { renderHtmlEmail, extractBranding, hasBranding } from "~/lib/email-html";
+import type {
+  NotificationChannelAdapter,
+  OutgoingNotification,
+  SendNotificationResult,
+} from "./channel.interface";
+
+let resendClient: Resend | null = null;
+
+function getResendClient(): Resend {
+  if (!resendClient) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error("RESEND_API_KEY environment variable is not set");
+    }
+    resendClient = new Resend(apiKey);
+  }
+  return resendClient;
+}
+
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = "EMAIL" as const;
+
+  async send(notification: OutgoingNotification): Promise<SendNotificationResult> {
+    try {
+      const resend = getResendClient();
+
+      const from =
+        notification.settings?.fromEmail ||
+        process.env.RESEND_FROM_EMAIL ||
+        "DelayGuard <noreply@delayguard.app>";
+
+      // Build email payload — HTML if branding exists, plain text otherwise
+      const parsedSettings = notification.settings
+        ? MerchantSettingsSchema.parse(notification.settings)
+        : null;
+
+      const useBranding = parsedSettings && hasBranding(parsedSettings);
+
+      const emailPayload: {
+        from: string;
+        to: string;
+        subject: string;
+        text: string;
+        html?: string;
+      } = {
+        from,
+        to: notification.to,
+        subject: notification.subject ?? "",
+        text: notification.body, // Always include plain text as fallback
+      };
+
+      if (useBranding) {
+        const branding = extractBranding(parsedSettings);
+        emailPayload.html = renderHtmlEmail(notification.body, branding);
+      }
+
+      const { data, error } = await resend.emails.send(emailPayload);
+
+      if (error) {
+        console.error("[notification] Failed to send email:", error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, messageId: data?.id };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      console.error("[notification] Exception sending email:", errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }
+}
+
+let emailChannelInstance: EmailChannel | null = null;
+
+/**
+ * Get the email channel singleton.
+ */
+export function getEmailChannel(): EmailChannel {
+  if (!emailChannelInstance) {
+    emailChannelInstance = new EmailChannel();
+  }
+  return emailChannelInstance;
+}
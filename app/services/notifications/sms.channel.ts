@@ -0,0 +1,78 @@
+/**
+ * SMS Notification Channel
+ *
+ * Sends notification SMS through the configured SMS provider:
+ * - SMS_PROVIDER=twilio: Twilio (see twilio.sms-provider.ts)
+ * - SMS_PROVIDER=console: logged locally, never sent (see console.sms-provider.ts)
+ *
+ * Without SMS_PROVIDER, Twilio is used when its credentials are configured
+ * and the console stand-in otherwise.
+ */
+
+import { isE164PhoneNumber } from "~/lib/phone";
+import { SMS_MAX_LENGTH } from "~/lib/notification-templates";
+import type {
+  NotificationChannelAdapter,
+  OutgoingNotification,
+  SendNotificationResult,
+  SmsProvider,
+} from "./channel.interface";
+import { ConsoleSmsProvider } from "./console.sms-provider";
+import { TwilioSmsProvider, isTwilioConfigured } from "./twilio.sms-provider";
+
+/**
+ * Create the SMS provider selected by the environment.
+ */
+export function createSmsProvider(): SmsProvider {
+  const provider = process.env.SMS_PROVIDER?.toLowerCase();
+
+  switch (provider) {
+    case "twilio":
+      return new TwilioSmsProvider();
+    case "console":
+      return new ConsoleSmsProvider();
+    case undefined:
+    case "":
+      return isTwilioConfigured() ? new TwilioSmsProvider() : new ConsoleSmsProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${provider}" (expected "twilio" or "console")`);
+  }
+}
+
+export class SmsChannel implements NotificationChannelAdapter {
+  readonly channel = "SMS" as const;
+
+  private readonly provider: SmsProvider;
+
+  constructor(provider: SmsProvider = createSmsProvider()) {
+    this.provider = provider;
+  }
+
+  async send(notification: OutgoingNotification): Promise<SendNotificationResult> {
+    // Numbers are normalized before jobs are queued; anything else is a bug upstream
+    if (!isE164PhoneNumber(notification.to)) {
+      return { success: false, error: `Phone number is not in E.164 format: ${notification.to}` };
+    }
+    if (notification.body.length > SMS_MAX_LENGTH) {
+      return { success: false, error: `SMS is longer than ${SMS_MAX_LENGTH} characters` };
+    }
+
+    const result = await this.provider.sendSms({ to: notification.to, body: notification.body });
+    if (!result.success) {
+      console.error(`[notification] ${this.provider.name} failed to send SMS:`, result.error);
+    }
+    return result;
+  }
+}
+
+let smsChannelInstance: SmsChannel | null = null;
+
+/**
+ * Get the SMS channel singleton.
+ */
+export function getSmsChannel(): SmsChannel {
+  if (!smsChannelInstance) {
+    smsChannelInstance = new SmsChannel();
+  }
+  return smsChannelInstance;
+}
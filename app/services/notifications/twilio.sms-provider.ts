@@ -0,0 +1,94 @@
+/**
+ * Twilio SMS Provider
+ *
+ * Sends SMS through the Twilio Programmable Messaging REST API
+ * (POST /2010-04-01/Accounts/{AccountSid}/Messages.json).
+ *
+ * Configured with TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and either
+ * TWILIO_FROM_NUMBER (an E.164 number) or TWILIO_MESSAGING_SERVICE_SID.
+ */
+
+import type { SendNotificationResult, SmsMessage, SmsProvider } from "./channel.interface";
+
+const TWILIO_API_BASE_URL = "https://api.twilio.com/2010-04-01";
+
+/**
+ * Twilio message resource (the fields we read)
+ */
+interface TwilioMessageResponse {
+  sid?: string;
+  status?: string;
+  /** Error responses */
+  code?: number;
+  message?: string;
+}
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: { From: string } | { MessagingServiceSid: string };
+}
+
+/**
+ * Whether Twilio credentials are configured.
+ */
+export function isTwilioConfigured(): boolean {
+  return Boolean(
+    process.env.TWILIO_ACCOUNT_SID &&
+      process.env.TWILIO_AUTH_TOKEN &&
+      (process.env.TWILIO_FROM_NUMBER || process.env.TWILIO_MESSAGING_SERVICE_SID)
+  );
+}
+
+function getTwilioConfig(): TwilioConfig {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromNumber = process.env.TWILIO_FROM_NUMBER;
+  const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
+
+  if (!accountSid || !authToken) {
+    throw new Error("TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN environment variables are not set");
+  }
+  // A messaging service picks the sender number itself
+  if (messagingServiceSid) {
+    return { accountSid, authToken, from: { MessagingServiceSid: messagingServiceSid } };
+  }
+  if (fromNumber) {
+    return { accountSid, authToken, from: { From: fromNumber } };
+  }
+  throw new Error("TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID environment variable is not set");
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = "twilio";
+
+  async sendSms(message: SmsMessage): Promise<SendNotificationResult> {
+    try {
+      const config = getTwilioConfig();
+      const credentials = Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64");
+
+      const response = await fetch(`${TWILIO_API_BASE_URL}/Accounts/${config.accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: message.to, Body: message.body, ...config.from }).toString(),
+      });
+
+      const data = (await response.json()) as TwilioMessageResponse;
+
+      if (!response.ok) {
+        const error = data.message ?? `HTTP ${response.status}`;
+        console.error(`[notification] Twilio rejected SMS (code ${data.code ?? "unknown"}): ${error}`);
+        return { success: false, error };
+      }
+
+      return { success: true, messageId: data.sid };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      console.error("[notification] Exception sending SMS via Twilio:", errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }
+}
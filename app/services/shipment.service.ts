@@ -5,10 +5,15 @@
  */
 
 import { prisma } from "~/db.server";
-import type { Shipment, Carrier } from "@prisma/client";
+import type { Shipment, ShipmentPackage, Carrier } from "@prisma/client";
 import type { FulfillmentWebhookPayload, OrderPartial, ShippingAddress } from "~/lib/validation";
+import { PROBLEM_TRACKING_STATUSES, trackingStatusFromShopify } from "~/lib/tracking-status";
+import { getHighestSeverity } from "~/lib/delay-rules";
+import { normalizeLocale } from "~/lib/notification-locales";
+import type { TemplateLineItem } from "~/lib/notification-templates";
 import {
   detectCarrier,
+  detectTrackingNumber,
   normalizeServiceLevel,
   extractServiceLevelFromCompany,
 } from "./carriers/carrier.service";
@@ -23,6 +28,35 @@ export interface CreateShipmentFromFulfillmentParams {
   locationName?: string | null;
 }
 
+/**
+ * Package fields that feed the shipment-level roll-up
+ */
+export type PackageRollupInput = Pick<
+  ShipmentPackage,
+  | "currentStatus"
+  | "trackingStatus"
+  | "lastCarrierStatus"
+  | "isDelayed"
+  | "daysDelayed"
+  | "delaySeverity"
+  | "delayReason"
+  | "expectedDeliveryDate"
+  | "expectedDeliverySource"
+  | "lastScanLocation"
+  | "lastScanTime"
+  | "carrierExceptionCode"
+  | "carrierExceptionReason"
+  | "exceptionCategory"
+  | "rescheduledDeliveryDate"
+  | "isDelivered"
+  | "deliveredAt"
+>;
+
+/**
+ * Shipment status fields derived from its packages
+ */
+export type PackageRollup = PackageRollupInput;
+
 /**
  * Result of checking for duplicate tracking numbers
  */
@@ -32,6 +66,18 @@ export interface DuplicateCheckResult {
   existingOrderNumber?: string;
 }
 
+/**
+ * Format fulfilled line items from Shopify format to JSON for storage
+ * (read back with parseLineItems)
+ */
+function formatLineItems(lineItems: FulfillmentWebhookPayload["line_items"]): TemplateLineItem[] {
+  return (lineItems ?? []).map((item) => ({
+    title: item.title ?? "Item",
+    variantTitle: item.variant_title || null,
+    quantity: item.quantity ?? 1,
+  }));
+}
+
 /**
  * Format shipping address from Shopify format to JSON for storage
  */
@@ -121,20 +167,39 @@ function parseOrderValue(order: OrderPartial): number | null {
 }
 
 /**
- * Get the primary tracking number from a fulfillment
+ * Get every tracking number on a fulfillment, primary first, without duplicates
  */
-function getPrimaryTrackingNumber(fulfillment: FulfillmentWebhookPayload): string | null {
-  // Prefer single tracking_number if available
+function getTrackingNumbers(fulfillment: FulfillmentWebhookPayload): string[] {
+  const trackingNumbers: string[] = [];
+
+  // Single tracking_number is the primary when present
   if (fulfillment.tracking_number) {
-    return fulfillment.tracking_number;
+    trackingNumbers.push(fulfillment.tracking_number);
   }
 
-  // Fall back to first tracking number in array
-  if (fulfillment.tracking_numbers && fulfillment.tracking_numbers.length > 0) {
-    return fulfillment.tracking_numbers[0];
+  for (const trackingNumber of fulfillment.tracking_numbers ?? []) {
+    if (trackingNumber && !trackingNumbers.includes(trackingNumber)) {
+      trackingNumbers.push(trackingNumber);
+    }
   }
 
-  return null;
+  return trackingNumbers;
+}
+
+/**
+ * Get the primary tracking number from a fulfillment
+ */
+function getPrimaryTrackingNumber(fulfillment: FulfillmentWebhookPayload): string | null {
+  return getTrackingNumbers(fulfillment)[0] ?? null;
+}
+
+/**
+ * Get the tracking numbers that should be modelled as child packages.
+ * Single-package fulfillments are tracked on the shipment itself.
+ */
+export function getPackageTrackingNumbers(fulfillment: FulfillmentWebhookPayload): string[] {
+  const trackingNumbers = getTrackingNumbers(fulfillment);
+  return trackingNumbers.length > 1 ? trackingNumbers : [];
 }
 
 /**
@@ -166,6 +231,21 @@ export async function checkDuplicateTrackingNumber(
   return { isDuplicate: false };
 }
 
+/**
+ * Check whether a tracking number fails its carrier's check digit, which
+ * almost always means it was mistyped. Such shipments are flagged and not
+ * polled until the number is corrected.
+ */
+export function hasInvalidCheckDigit(
+  carrier: Carrier,
+  trackingNumber: string | null | undefined
+): boolean {
+  if (!trackingNumber || carrier === "UNKNOWN") {
+    return false;
+  }
+  return detectTrackingNumber(trackingNumber, carrier).checksum === "invalid";
+}
+
 /**
  * Create a new shipment record from a Shopify fulfillment webhook payload.
  * Returns existing shipment if one already exists for this fulfillment.
@@ -178,6 +258,7 @@ export async function createShipmentFromFulfillment(
   const shopifyFulfillmentId = String(fulfillment.id);
   const shopifyOrderId = String(fulfillment.order_id);
   const trackingNumber = getPrimaryTrackingNumber(fulfillment);
+  const packageTrackingNumbers = getPackageTrackingNumbers(fulfillment);
 
   // If no tracking number, we still create the shipment but mark carrier as UNKNOWN
   // This allows us to track it when a tracking number is added later
@@ -200,6 +281,7 @@ export async function createShipmentFromFulfillment(
   const carrier: Carrier = trackingNumber
     ? detectCarrier(fulfillment.tracking_company, trackingNumber)
     : "UNKNOWN";
+  const trackingNumberInvalid = hasInvalidCheckDigit(carrier, trackingNumber);
 
   // Determine service level
   let serviceLevel = normalizeServiceLevel(fulfillment.service);
@@ -235,13 +317,27 @@ export async function createShipmentFromFulfillment(
       customerName: extractCustomerName(order),
       customerEmail: extractCustomerEmail(order),
       customerPhone: extractCustomerPhone(order),
+      customerLocale: normalizeLocale(order.customer_locale),
       shippingAddress: formatShippingAddress(order.shipping_address),
+      lineItems: formatLineItems(fulfillment.line_items),
+      orderStatusUrl: order.order_status_url ?? null,
       shipDate: new Date(fulfillment.created_at),
       currentStatus: fulfillment.shipment_status || "pending",
+      trackingStatus: trackingStatusFromShopify(fulfillment.shipment_status) ?? "LABEL_CREATED",
       fulfillmentLocationId: fulfillment.location_id ? String(fulfillment.location_id) : null,
       fulfillmentLocationName: locationName || null,
       orderValue: parseOrderValue(order),
-      nextPollAt: trackingNumber ? nextPollAt : null, // Only poll if we have a tracking number
+      trackingNumberInvalid,
+      // Only poll if we have a tracking number that passes its check digit
+      nextPollAt: trackingNumber && !trackingNumberInvalid ? nextPollAt : null,
+      ...(packageTrackingNumbers.length > 0 && {
+        packages: {
+          create: packageTrackingNumbers.map((packageTrackingNumber) => ({
+            trackingNumber: packageTrackingNumber,
+            carrier: detectCarrier(fulfillment.tracking_company, packageTrackingNumber),
+          })),
+        },
+      }),
     },
   });
 
@@ -258,6 +354,7 @@ export async function updateShipmentFromFulfillment(
 ): Promise<Shipment | null> {
   const shopifyFulfillmentId = String(fulfillment.id);
   const trackingNumber = getPrimaryTrackingNumber(fulfillment);
+  const packageTrackingNumbers = getPackageTrackingNumbers(fulfillment);
 
   // Find the existing shipment
   const existing = await prisma.shipment.findUnique({
@@ -267,6 +364,9 @@ export async function updateShipmentFromFulfillment(
         shopifyFulfillmentId,
       },
     },
+    include: {
+      packages: { select: { trackingNumber: true } },
+    },
   });
 
   if (!existing) {
@@ -276,8 +376,19 @@ export async function updateShipmentFromFulfillment(
   // Check if tracking number changed
   const trackingChanged = trackingNumber && trackingNumber !== existing.trackingNumber;
 
+  // Check if packages were added to or removed from the fulfillment
+  const existingPackageNumbers = existing.packages.map((pkg) => pkg.trackingNumber);
+  const addedPackageNumbers = packageTrackingNumbers.filter(
+    (packageTrackingNumber) => !existingPackageNumbers.includes(packageTrackingNumber)
+  );
+  const packagesChanged =
+    addedPackageNumbers.length > 0 ||
+    existingPackageNumbers.some(
+      (packageTrackingNumber) => !packageTrackingNumbers.includes(packageTrackingNumber)
+    );
+
   // Only update if tracking info has changed
-  if (!trackingChanged && fulfillment.tracking_company === undefined) {
+  if (!trackingChanged && !packagesChanged && fulfillment.tracking_company === undefined) {
     return existing;
   }
 
@@ -298,11 +409,24 @@ export async function updateShipmentFromFulfillment(
     newServiceLevel = extractServiceLevelFromCompany(fulfillment.tracking_company);
   }
 
-  // Calculate next poll time if tracking number was just added
-  const shouldStartPolling = trackingNumber && !existing.trackingNumber;
-  const nextPollAt = shouldStartPolling
+  // Re-check the check digit against the (possibly corrected) number and carrier
+  const trackingNumberInvalid = hasInvalidCheckDigit(
+    newCarrier,
+    trackingNumber || existing.trackingNumber
+  );
+
+  // Calculate next poll time if tracking number or a new package was just added,
+  // or a mistyped tracking number was corrected
+  const shouldStartPolling =
+    (trackingNumber && !existing.trackingNumber) ||
+    (addedPackageNumbers.length > 0 && !existing.nextPollAt) ||
+    (existing.trackingNumberInvalid && !trackingNumberInvalid);
+  let nextPollAt = shouldStartPolling
     ? new Date(Date.now() + 30 * 60 * 1000) // 30 minutes from now
     : existing.nextPollAt;
+  if (trackingNumberInvalid) {
+    nextPollAt = null;
+  }
 
   // Update the shipment
   const updated = await prisma.shipment.update({
@@ -312,15 +436,104 @@ export async function updateShipmentFromFulfillment(
       carrier: newCarrier,
       serviceLevel: newServiceLevel,
       currentStatus: fulfillment.shipment_status || existing.currentStatus,
+      trackingStatus: trackingStatusFromShopify(fulfillment.shipment_status) ?? existing.trackingStatus,
+      trackingNumberInvalid,
       nextPollAt,
       // Reset poll error count if tracking number changed
       pollErrorCount: trackingChanged ? 0 : existing.pollErrorCount,
+      // A newly added package has not been delivered yet
+      ...(addedPackageNumbers.length > 0 && { isDelivered: false, deliveredAt: null }),
+      ...(packagesChanged && {
+        packages: {
+          deleteMany: { trackingNumber: { notIn: packageTrackingNumbers } },
+          create: addedPackageNumbers.map((packageTrackingNumber) => ({
+            trackingNumber: packageTrackingNumber,
+            carrier: detectCarrier(fulfillment.tracking_company ?? null, packageTrackingNumber),
+          })),
+        },
+      }),
     },
   });
 
   return updated;
 }
 
+/**
+ * Get the item with the highest score (first one wins on ties)
+ */
+function latest<T>(items: T[], score: (item: T) => number): T | undefined {
+  let best: T | undefined;
+  for (const item of items) {
+    if (best === undefined || score(item) > score(best)) {
+      best = item;
+    }
+  }
+  return best;
+}
+
+/**
+ * Epoch milliseconds for a nullable date (null sorts first)
+ */
+function time(date: Date | null): number {
+  return date?.getTime() ?? 0;
+}
+
+/**
+ * Roll the status of a multi-package shipment up from its packages.
+ *
+ * The shipment is delayed when any undelivered package is delayed, with the
+ * highest severity among them and the most delayed one's reason, and
+ * delivered only when every package is.
+ * Status and exception fields come from the package that drives the
+ * outcome: the most delayed package, else
+ * the last package expected to arrive, else the last package delivered.
+ * The tracking status is that of an outstanding package with a problem
+ * (exception, failed attempt, return or loss) if there is one.
+ */
+export function rollUpPackages(packages: PackageRollupInput[]): PackageRollup {
+  const outstanding = packages.filter((pkg) => !pkg.isDelivered);
+  const delayed = outstanding.filter((pkg) => pkg.isDelayed);
+  const isDelivered = packages.length > 0 && outstanding.length === 0;
+
+  const expected = latest(
+    outstanding.length > 0 ? outstanding : packages,
+    (pkg) => time(pkg.expectedDeliveryDate)
+  );
+  const lead =
+    latest(delayed, (pkg) => pkg.daysDelayed) ??
+    (outstanding.length > 0 ? expected : latest(packages, (pkg) => time(pkg.deliveredAt)));
+  const lastScanned = latest(
+    packages.filter((pkg) => pkg.lastScanTime),
+    (pkg) => time(pkg.lastScanTime)
+  );
+
+  const problem = outstanding.find((pkg) =>
+    PROBLEM_TRACKING_STATUSES.includes(pkg.trackingStatus)
+  );
+
+  return {
+    currentStatus: lead?.currentStatus ?? "pending",
+    trackingStatus: (problem ?? lead)?.trackingStatus ?? "LABEL_CREATED",
+    lastCarrierStatus: lead?.lastCarrierStatus ?? null,
+    isDelayed: delayed.length > 0,
+    daysDelayed: delayed.length > 0 ? Math.max(...delayed.map((pkg) => pkg.daysDelayed)) : 0,
+    delaySeverity: getHighestSeverity(delayed.map((pkg) => pkg.delaySeverity)),
+    delayReason: delayed.length > 0 ? (lead?.delayReason ?? null) : null,
+    expectedDeliveryDate: expected?.expectedDeliveryDate ?? null,
+    expectedDeliverySource: expected?.expectedDeliverySource ?? "DEFAULT",
+    lastScanLocation: lastScanned?.lastScanLocation ?? null,
+    lastScanTime: lastScanned?.lastScanTime ?? null,
+    carrierExceptionCode: lead?.carrierExceptionCode ?? null,
+    carrierExceptionReason: lead?.carrierExceptionReason ?? null,
+    exceptionCategory: lead?.exceptionCategory ?? null,
+    rescheduledDeliveryDate: lead?.rescheduledDeliveryDate ?? null,
+    isDelivered,
+    deliveredAt: isDelivered
+      ? (latest(packages, (pkg) => time(pkg.deliveredAt))?.deliveredAt ?? null)
+      : null,
+  };
+}
+
 /**
  * Get a shipment by ID
  */
@@ -39,6 +39,8 @@ const FULFILLMENT_FRAGMENT = `
       name
       email
       phone
+      customerLocale
+      statusPageUrl
       totalPriceSet {
         shopMoney {
           amount
@@ -71,6 +73,17 @@ const FULFILLMENT_FRAGMENT = `
     service {
       serviceName
     }
+    fulfillmentLineItems(first: 50) {
+      nodes {
+        id
+        quantity
+        lineItem {
+          title
+          variantTitle
+          sku
+        }
+      }
+    }
   }
 `;
 
@@ -131,7 +144,8 @@ function transformFulfillmentFromGraphQL(node: any): {
   order: OrderPartial;
   locationName: string | null;
 } {
-  const trackingInfo = node.trackingInfo?.[0] ?? {};
+  const trackingInfoList: any[] = node.trackingInfo ?? [];
+  const trackingInfo = trackingInfoList[0] ?? {};
 
   // Build fulfillment payload matching webhook format
   const fulfillment: FulfillmentWebhookPayload = {
@@ -142,14 +156,22 @@ function transformFulfillmentFromGraphQL(node: any): {
     updated_at: node.updatedAt,
     tracking_company: trackingInfo.company ?? null,
     tracking_number: trackingInfo.number ?? null,
-    tracking_numbers: trackingInfo.number ? [trackingInfo.number] : [],
+    // Multi-package fulfillments have one trackingInfo entry per package
+    tracking_numbers: trackingInfoList.map((info) => info.number).filter(Boolean),
     tracking_url: trackingInfo.url ?? null,
-    tracking_urls: trackingInfo.url ? [trackingInfo.url] : [],
+    tracking_urls: trackingInfoList.map((info) => info.url).filter(Boolean),
     shipment_status: null, // Not available from GraphQL
     location_id: node.location?.legacyResourceId
       ? parseInt(node.location.legacyResourceId, 10)
       : null,
     service: node.service?.serviceName ?? null,
+    line_items: (node.fulfillmentLineItems?.nodes ?? []).map((item: any) => ({
+      id: parseInt(String(item.id).split("/").pop() ?? "", 10),
+      title: item.lineItem?.title ?? undefined,
+      variant_title: item.lineItem?.variantTitle ?? null,
+      quantity: item.quantity,
+      sku: item.lineItem?.sku ?? null,
+    })),
   };
 
   // Build order data
@@ -161,6 +183,8 @@ function transformFulfillmentFromGraphQL(node: any): {
     phone: orderNode?.phone ?? null,
     total_price: orderNode?.totalPriceSet?.shopMoney?.amount ?? null,
     currency: orderNode?.totalPriceSet?.shopMoney?.currencyCode ?? null,
+    customer_locale: orderNode?.customerLocale ?? null,
+    order_status_url: orderNode?.statusPageUrl ?? null,
     shipping_address: orderNode?.shippingAddress
       ? {
           first_name: orderNode.shippingAddress.firstName ?? null,
@@ -409,9 +433,9 @@ export async function syncFulfillments(
           result.duplicates++;
         }
 
-        // Enqueue poll job if we have tracking and known carrier
+        // Enqueue poll job if we have valid tracking and known carrier
         const trackingNumber = fulfillment.tracking_number || fulfillment.tracking_numbers?.[0];
-        if (trackingNumber && shipment.carrier !== "UNKNOWN") {
+        if (trackingNumber && shipment.carrier !== "UNKNOWN" && !shipment.trackingNumberInvalid) {
           await enqueuePollJob(shipment.id);
           result.pollJobsEnqueued++;
         }
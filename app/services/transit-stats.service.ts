@@ -0,0 +1,262 @@
+/**
+ * Transit Stats Service
+ *
+ * Learns how long a merchant's shipments actually take. The daily
+ * transit-stats job measures the business days each recently delivered
+ * shipment spent in transit and stores percentiles per lane: carrier, service
+ * level, origin location and destination region. Summed up by service level,
+ * they become suggested delivery windows (see transit-times.ts), which
+ * merchants apply in the settings page or have the job apply for them.
+ */
+
+import type { Carrier, Prisma } from "@prisma/client";
+import { subDays } from "date-fns";
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import {
+  DEFAULT_CARRIER_WINDOWS,
+  DEFAULT_DELIVERY_WINDOWS,
+  getHolidayCalendar,
+  normalizeServiceLevel,
+} from "./delay-detection.service";
+import { updateMerchantSettings } from "./merchant.service";
+import type { MerchantSettings } from "~/lib/validation";
+import { businessDaysInTransit } from "~/lib/business-days";
+import { getAddressRegion, getDeliveryTimeZone } from "~/lib/timezones";
+import {
+  applyDeliveryWindowSuggestions,
+  getDeliveryWindowSuggestions,
+  getTransitPercentile,
+  mergeTransitDayCounts,
+  type DeliveryWindowSuggestion,
+  type TransitDayCounts,
+  type TransitTimeSummary,
+} from "~/lib/transit-times";
+
+/**
+ * How far back delivered shipments are measured (by ship date).
+ */
+export const TRANSIT_STATS_LOOKBACK_DAYS = 180;
+
+/**
+ * Lanes with fewer shipments count towards their service level but aren't
+ * listed on their own.
+ */
+export const MIN_LANE_SAMPLES = 5;
+
+/**
+ * Delivered shipments read per query.
+ */
+const TRANSIT_STATS_BATCH_SIZE = 1000;
+
+const TransitDayCountsSchema = z.record(z.string(), z.number());
+
+/**
+ * Result of recomputing a merchant's transit stats
+ */
+export interface TransitStatsResult {
+  /** Delivered shipments measured */
+  shipmentsMeasured: number;
+  /** Lanes stored */
+  lanes: number;
+}
+
+/**
+ * A lane's transit times while they're being counted
+ */
+interface LaneTally {
+  carrier: Carrier;
+  serviceLevel: string;
+  originLocationId: string | null;
+  originLocationName: string | null;
+  destinationRegion: string | null;
+  counts: TransitDayCounts;
+}
+
+/**
+ * Destination region of a shipping address, e.g. "US-CA", or just the
+ * state/province code when the country is unknown.
+ *
+ * @param shippingAddress - Shipment.shippingAddress JSON
+ */
+export function getDestinationRegion(shippingAddress: unknown): string | null {
+  const region = getAddressRegion(shippingAddress);
+  if (!region) {
+    return null;
+  }
+  return region.country ? `${region.country}-${region.province}` : region.province;
+}
+
+/**
+ * Measure a merchant's recently delivered shipments and replace their stored
+ * transit stats. Shipments without a service level are skipped, as delivery
+ * windows can't target them.
+ *
+ * @param merchant - The merchant, with parsed settings (for blackout dates)
+ * @param now - Current date/time (optional, for testing)
+ */
+export async function computeTransitStats(
+  merchant: { id: string; timezone: string; settings: MerchantSettings },
+  now: Date = new Date()
+): Promise<TransitStatsResult> {
+  const lanes = new Map<string, LaneTally>();
+  let shipmentsMeasured = 0;
+  let afterId: string | null = null;
+
+  for (;;) {
+    const batch = await prisma.shipment.findMany({
+      where: {
+        merchantId: merchant.id,
+        isDelivered: true,
+        isTestData: false,
+        deliveredAt: { not: null },
+        shipDate: { gte: subDays(now, TRANSIT_STATS_LOOKBACK_DAYS) },
+        ...(afterId && { id: { gt: afterId } }),
+      },
+      select: {
+        id: true,
+        carrier: true,
+        serviceLevel: true,
+        shippingAddress: true,
+        fulfillmentLocationId: true,
+        fulfillmentLocationName: true,
+        shipDate: true,
+        deliveredAt: true,
+      },
+      orderBy: { id: "asc" },
+      take: TRANSIT_STATS_BATCH_SIZE,
+    });
+
+    for (const shipment of batch) {
+      const serviceLevel = normalizeServiceLevel(shipment.serviceLevel, shipment.carrier);
+      if (!serviceLevel || !shipment.deliveredAt) {
+        continue;
+      }
+
+      const days = businessDaysInTransit(
+        shipment.shipDate,
+        shipment.deliveredAt,
+        getHolidayCalendar(shipment.carrier, merchant.settings.blackoutDates),
+        getDeliveryTimeZone(shipment.shippingAddress, merchant.timezone)
+      );
+      const destinationRegion = getDestinationRegion(shipment.shippingAddress);
+      const key = [
+        shipment.carrier,
+        serviceLevel,
+        shipment.fulfillmentLocationId,
+        destinationRegion,
+      ].join("|");
+
+      let lane = lanes.get(key);
+      if (!lane) {
+        lane = {
+          carrier: shipment.carrier,
+          serviceLevel,
+          originLocationId: shipment.fulfillmentLocationId,
+          originLocationName: shipment.fulfillmentLocationName,
+          destinationRegion,
+          counts: {},
+        };
+        lanes.set(key, lane);
+      }
+      lane.counts[days] = (lane.counts[days] ?? 0) + 1;
+      shipmentsMeasured++;
+    }
+
+    if (batch.length < TRANSIT_STATS_BATCH_SIZE) {
+      break;
+    }
+    const lastId: string = batch[batch.length - 1].id;
+    afterId = lastId;
+  }
+
+  const rows: Prisma.TransitTimeStatCreateManyInput[] = [...lanes.values()].map((lane) => ({
+    merchantId: merchant.id,
+    carrier: lane.carrier,
+    serviceLevel: lane.serviceLevel,
+    originLocationId: lane.originLocationId,
+    originLocationName: lane.originLocationName,
+    destinationRegion: lane.destinationRegion,
+    sampleSize: Object.values(lane.counts).reduce((total, count) => total + count, 0),
+    p50Days: getTransitPercentile(lane.counts, 50) ?? 0,
+    p75Days: getTransitPercentile(lane.counts, 75) ?? 0,
+    p90Days: getTransitPercentile(lane.counts, 90) ?? 0,
+    p95Days: getTransitPercentile(lane.counts, 95) ?? 0,
+    transitDayCounts: lane.counts,
+    computedAt: now,
+  }));
+
+  await prisma.$transaction([
+    prisma.transitTimeStat.deleteMany({ where: { merchantId: merchant.id } }),
+    prisma.transitTimeStat.createMany({ data: rows }),
+  ]);
+
+  return { shipmentsMeasured, lanes: rows.length };
+}
+
+/**
+ * Get a merchant's stored transit times by service level, service levels with
+ * the most shipments first.
+ *
+ * @param merchantId - The merchant
+ */
+export async function getTransitTimeSummaries(merchantId: string): Promise<TransitTimeSummary[]> {
+  const stats = await prisma.transitTimeStat.findMany({
+    where: { merchantId },
+  });
+
+  const byServiceLevel = new Map<string, typeof stats>();
+  for (const stat of stats) {
+    byServiceLevel.set(stat.serviceLevel, [...(byServiceLevel.get(stat.serviceLevel) ?? []), stat]);
+  }
+
+  return [...byServiceLevel.entries()]
+    .map(([serviceLevel, laneStats]) => {
+      const { carrier, computedAt } = laneStats[0];
+      return {
+        serviceLevel,
+        carrier,
+        defaultDays: DEFAULT_DELIVERY_WINDOWS[serviceLevel] ?? DEFAULT_CARRIER_WINDOWS[carrier],
+        sampleSize: laneStats.reduce((total, stat) => total + stat.sampleSize, 0),
+        transitDayCounts: mergeTransitDayCounts(
+          laneStats.map((stat) => TransitDayCountsSchema.catch({}).parse(stat.transitDayCounts))
+        ),
+        lanes: laneStats
+          .filter((stat) => stat.sampleSize >= MIN_LANE_SAMPLES)
+          .sort((a, b) => b.p90Days - a.p90Days || b.sampleSize - a.sampleSize)
+          .map((stat) => ({
+            originLocationName: stat.originLocationName,
+            destinationRegion: stat.destinationRegion,
+            sampleSize: stat.sampleSize,
+            p50Days: stat.p50Days,
+            p90Days: stat.p90Days,
+          })),
+        computedAt: computedAt.toISOString(),
+      };
+    })
+    .sort((a, b) => b.sampleSize - a.sampleSize);
+}
+
+/**
+ * Apply a merchant's delivery window suggestions to their settings (for
+ * merchants who chose to have them applied automatically).
+ *
+ * @param merchantId - The merchant
+ * @param settings - The merchant's parsed settings
+ * @returns The suggestions applied
+ */
+export async function autoApplyDeliveryWindowSuggestions(
+  merchantId: string,
+  settings: MerchantSettings
+): Promise<DeliveryWindowSuggestion[]> {
+  const suggestions = getDeliveryWindowSuggestions(
+    await getTransitTimeSummaries(merchantId),
+    settings
+  );
+  if (suggestions.length > 0) {
+    await updateMerchantSettings(merchantId, {
+      deliveryWindows: applyDeliveryWindowSuggestions(settings.deliveryWindows, suggestions),
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CARRIER_CONFIGS } from "~/services/carriers/carrier.types";
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  describeRequest,
+  loadFixtures,
+  redact,
+  saveFixture,
+  type CarrierFixture,
+} from "../fixtures";
+
+const UPS_BASE = CARRIER_CONFIGS.UPS.baseUrl;
+
+describe("carrier fixtures", () => {
+  describe("redact", () => {
+    it("should redact credentials and recipient details in JSON", () => {
+      expect(
+        redact({
+          access_token: "secret",
+          shipment: [{ deliveryInformation: { receivedBy: "FRONT DOOR", signedByName: "J SMITH" } }],
+          recipient: { address: { city: "Miami", streetLines: ["1 Main St"] } },
+        })
+      ).toEqual({
+        access_token: "REDACTED",
+        shipment: [{ deliveryInformation: { receivedBy: "FRONT DOOR", signedByName: "REDACTED" } }],
+        recipient: { address: { city: "Miami", streetLines: "REDACTED" } },
+      });
+    });
+
+    it("should redact USPS credentials and names in XML", () => {
+      expect(
+        redact('<TrackFieldRequest USERID="ABC123"><TrackID ID="9400"/><Name>Jane</Name></TrackFieldRequest>')
+      ).toBe('<TrackFieldRequest USERID="REDACTED"><TrackID ID="9400"/><Name>REDACTED</Name></TrackFieldRequest>');
+    });
+
+    it("should redact form-encoded OAuth parameters", () => {
+      expect(redact("grant_type=client_credentials&client_id=abc&client_secret=xyz")).toBe(
+        "grant_type=client_credentials&client_id=REDACTED&client_secret=REDACTED"
+      );
+    });
+  });
+
+  describe("describeRequest", () => {
+    it("should decode and redact query values", () => {
+      const xml = '<TrackFieldRequest USERID="ABC123"><TrackID ID="9400"/></TrackFieldRequest>';
+
+      expect(
+        describeRequest("get", `/ShippingAPI.dll?API=TrackV2&XML=${encodeURIComponent(xml)}`, null)
+      ).toEqual({
+        method: "GET",
+        path: '/ShippingAPI.dll?API=TrackV2&XML=<TrackFieldRequest USERID="REDACTED"><TrackID ID="9400"/></TrackFieldRequest>',
+        body: null,
+      });
+    });
+  });
+
+  describe("record and replay", () => {
+    it("should replay recorded exchanges without touching the network", async () => {
+      const live: typeof fetch = async (input) =>
+        String(input).startsWith(CARRIER_CONFIGS.UPS.tokenUrl!)
+          ? new Response(JSON.stringify({ access_token: "live-token" }))
+          : new Response(JSON.stringify({ trackResponse: { shipment: [] } }), {
+              headers: { "Content-Type": "application/json" },
+            });
+      const recorder = createRecordingFetch(live);
+
+      await recorder.fetch(CARRIER_CONFIGS.UPS.tokenUrl!, { method: "POST", body: "client_id=abc" });
+      await recorder.fetch(`${UPS_BASE}/track/v1/details/1Z999AA10123456784`);
+      const exchanges = recorder.takeExchanges();
+
+      // Token exchanges are never recorded
+      expect(exchanges).toEqual([
+        {
+          request: { method: "GET", path: "/track/v1/details/1Z999AA10123456784", body: null },
+          response: {
+            status: 200,
+            contentType: "application/json",
+            body: { trackResponse: { shipment: [] } },
+          },
+        },
+      ]);
+      expect(recorder.takeExchanges()).toEqual([]);
+
+      const replay = createReplayFetch([
+        { carrier: "UPS", trackingNumber: "1Z999AA10123456784", recordedAt: "", exchanges },
+      ]);
+      const token = await replay(CARRIER_CONFIGS.UPS.tokenUrl!, { method: "POST" });
+      const tracked = await replay(`${UPS_BASE}/track/v1/details/1Z999AA10123456784`);
+
+      expect(await token.json()).toMatchObject({ access_token: "mock-access-token" });
+      expect(await tracked.json()).toEqual({ trackResponse: { shipment: [] } });
+      await expect(replay(`${UPS_BASE}/track/v1/details/1Z999AA10000000001`)).rejects.toThrow(
+        "No UPS fixture"
+      );
+    });
+  });
+
+  describe("saveFixture / loadFixtures", () => {
+    it("should round-trip fixtures through a directory", async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "carrier-fixtures-"));
+      const fixture: CarrierFixture = {
+        carrier: "USPS",
+        trackingNumber: "9400111899223033005282",
+        recordedAt: "2026-02-04T12:00:00.000Z",
+        exchanges: [
+          {
+            request: { method: "GET", path: "/ShippingAPI.dll?API=TrackV2", body: null },
+            response: { status: 200, contentType: "text/xml", body: "<TrackResponse/>" },
+          },
+        ],
+      };
+
+      try {
+        const file = await saveFixture(dir, fixture);
+
+        expect(file).toBe(path.join(dir, "usps", "9400111899223033005282.json"));
+        expect(await loadFixtures(dir)).toEqual([fixture]);
+        expect(await loadFixtures(path.join(dir, "missing"))).toEqual([]);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import type { CarrierAdapter } from "~/services/carriers/carrier.interface";
+import type { CarrierFixture } from "../fixtures";
+import type { MockScenario } from "../scenarios";
+import { startMockCarrierServer, type MockCarrierServer } from "../server";
+
+// In-memory OAuth token cache
+const store = new Map<string, string>();
+const mockRedis = {
+  get: vi.fn(async (key: string) => store.get(key) ?? null),
+  set: vi.fn(async (key: string, value: string) => {
+    store.set(key, value);
+    return "OK";
+  }),
+  del: vi.fn(async (key: string) => (store.delete(key) ? 1 : 0)),
+};
+
+vi.mock("~/queue.server", () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+const UPS_NUMBER = "1Z999AA10123456784";
+const FEDEX_NUMBER = "794644790132";
+const USPS_NUMBER = "9400111899223033005282";
+const RECORDED_NUMBER = "1Z999AA10000000001";
+
+const recordedFixture: CarrierFixture = {
+  carrier: "UPS",
+  trackingNumber: RECORDED_NUMBER,
+  recordedAt: "2026-02-04T12:00:00.000Z",
+  exchanges: [
+    {
+      request: { method: "GET", path: `/track/v1/details/${RECORDED_NUMBER}`, body: null },
+      response: {
+        status: 200,
+        contentType: "application/json",
+        body: {
+          trackResponse: {
+            shipment: [
+              {
+                inquiryNumber: RECORDED_NUMBER,
+                package: [
+                  {
+                    trackingNumber: RECORDED_NUMBER,
+                    activity: [
+                      {
+                        date: "20260203",
+                        time: "101500",
+                        location: { address: { city: "Atlanta", stateProvince: "GA", country: "US" } },
+                        status: { type: "D", code: "KB", description: "Delivered" },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    },
+  ],
+};
+
+const credentials = {
+  UPS_CLIENT_ID: "mock-ups-client",
+  UPS_CLIENT_SECRET: "mock-ups-secret",
+  FEDEX_CLIENT_ID: "mock-fedex-client",
+  FEDEX_CLIENT_SECRET: "mock-fedex-secret",
+  USPS_USER_ID: "mock-usps-user",
+};
+
+let mock: MockCarrierServer;
+let ups: CarrierAdapter;
+let fedex: CarrierAdapter;
+let usps: CarrierAdapter;
+
+/**
+ * Track a number through an adapter with the given scenario scripted.
+ */
+async function trackWith(adapter: CarrierAdapter, trackingNumber: string, scenario: MockScenario) {
+  mock.setScenario(trackingNumber, scenario);
+  return adapter.track(trackingNumber);
+}
+
+describe("mock carrier server", () => {
+  beforeAll(async () => {
+    mock = await startMockCarrierServer(0, { fixtures: [recordedFixture] });
+    Object.assign(process.env, credentials, { CARRIER_API_MOCK_URL: mock.url });
+
+    // Carrier URLs are resolved at load time, so reload the adapters now the server is up
+    vi.resetModules();
+    ups = (await import("~/services/carriers/ups.adapter")).getUpsAdapter();
+    fedex = (await import("~/services/carriers/fedex.adapter")).getFedexAdapter();
+    usps = (await import("~/services/carriers/usps.adapter")).getUspsAdapter();
+  });
+
+  afterAll(async () => {
+    for (const key of [...Object.keys(credentials), "CARRIER_API_MOCK_URL"]) {
+      delete process.env[key];
+    }
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.resetScenarios();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe.each([
+    ["UPS", () => ups, UPS_NUMBER],
+    ["FedEx", () => fedex, FEDEX_NUMBER],
+    ["USPS", () => usps, USPS_NUMBER],
+  ] as const)("%s", (_name, getAdapter, trackingNumber) => {
+    it("should report an in-transit package", async () => {
+      const result = await trackWith(getAdapter(), trackingNumber, "in_transit");
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.trackingNumber).toBe(trackingNumber);
+      expect(result.data.isDelivered).toBe(false);
+      expect(result.data.isException).toBe(false);
+      expect(result.data.expectedDeliveryDate).not.toBeNull();
+      expect(result.data.events.length).toBeGreaterThan(0);
+    });
+
+    it("should report a delivered package", async () => {
+      const result = await trackWith(getAdapter(), trackingNumber, "delivered");
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.isDelivered).toBe(true);
+      expect(result.data.deliveredAt).not.toBeNull();
+    });
+
+    it("should report a carrier exception", async () => {
+      const result = await trackWith(getAdapter(), trackingNumber, "exception");
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.isException).toBe(true);
+      expect(result.data.exceptionReason).toBeTruthy();
+    });
+
+    it("should report a later delivery date when rescheduled", async () => {
+      const original = await trackWith(getAdapter(), trackingNumber, "in_transit");
+      const result = await trackWith(getAdapter(), trackingNumber, "rescheduled");
+
+      expect(original.success && result.success).toBe(true);
+      if (!original.success || !result.success) return;
+      // USPS has no rescheduled date and moves its expected date instead
+      const newDate = result.data.rescheduledDeliveryDate ?? result.data.expectedDeliveryDate;
+      expect(newDate!.getTime()).toBeGreaterThan(original.data.expectedDeliveryDate!.getTime());
+    });
+
+    it("should report an unknown tracking number", async () => {
+      const result = await trackWith(getAdapter(), trackingNumber, "not_found");
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.code).toBe("TRACKING_NOT_FOUND");
+    });
+
+    it("should report a server error as retryable", async () => {
+      const result = await trackWith(getAdapter(), trackingNumber, "server_error");
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.retryable).toBe(true);
+    });
+  });
+
+  it.each([
+    ["UPS", () => ups, UPS_NUMBER],
+    ["FedEx", () => fedex, FEDEX_NUMBER],
+  ] as const)("should report %s rate limiting", async (_name, getAdapter, trackingNumber) => {
+    const result = await trackWith(getAdapter(), trackingNumber, "rate_limited");
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe("RATE_LIMITED");
+    expect(result.error.retryable).toBe(true);
+  });
+
+  it("should answer every number in a FedEx batch", async () => {
+    mock.setScenario("794644790133", "delivered");
+    mock.setScenario("794644790134", "not_found");
+
+    const results = await fedex.trackBatch!(["794644790133", "794644790134"]);
+
+    expect(results.get("794644790133")).toMatchObject({ success: true, data: { isDelivered: true } });
+    expect(results.get("794644790134")).toMatchObject({
+      success: false,
+      error: { code: "TRACKING_NOT_FOUND" },
+    });
+  });
+
+  it("should replay a recorded fixture for an unscripted number", async () => {
+    const result = await ups.track(RECORDED_NUMBER);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.isDelivered).toBe(true);
+    expect(result.data.lastScanLocation).toContain("Atlanta");
+  });
+
+  it("should let a scripted scenario take precedence over a fixture", async () => {
+    const result = await trackWith(ups, RECORDED_NUMBER, "not_found");
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should script scenarios through the control endpoint", async () => {
+    const response = await fetch(`${mock.url}/__scenarios/${UPS_NUMBER}`, {
+      method: "PUT",
+      body: JSON.stringify({ scenario: "delivered" }),
+    });
+    expect(response.status).toBe(200);
+
+    const result = await ups.track(UPS_NUMBER);
+    expect(result).toMatchObject({ success: true, data: { isDelivered: true } });
+
+    const rejected = await fetch(`${mock.url}/__scenarios/${UPS_NUMBER}`, {
+      method: "PUT",
+      body: JSON.stringify({ scenario: "lost_at_sea" }),
+    });
+    expect(rejected.status).toBe(400);
+  });
+});
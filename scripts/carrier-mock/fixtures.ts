@@ -0,0 +1,374 @@
+/**
+ * Carrier API Fixtures
+ *
+ * Records carrier adapter HTTP exchanges to sanitized fixture files and
+ * replays them, either through a fetch replacement (tests) or the mock
+ * carrier server (dev and CI).
+ *
+ * A fixture holds every exchange made while tracking one tracking number.
+ * Requests are stored relative to the carrier's API base URL, so fixtures
+ * recorded against the live APIs replay against any host. OAuth token
+ * exchanges are never recorded; replay answers them with a mock token.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Carrier } from "@prisma/client";
+import { CARRIER_CONFIGS } from "~/services/carriers/carrier.types";
+import { SUPPORTED_CARRIERS, type SupportedCarrier } from "~/services/carriers/carrier.registry";
+
+/**
+ * Default fixture directory, next to the adapter tests' other fixtures.
+ */
+export const DEFAULT_FIXTURES_DIR = path.resolve(
+  "app/services/carriers/__tests__/fixtures/recorded"
+);
+
+/**
+ * Replaces secrets and personal data in fixtures.
+ */
+const REDACTED = "REDACTED";
+
+/**
+ * JSON keys whose values are credentials or recipient details.
+ */
+const SENSITIVE_JSON_KEYS = new Set([
+  "access_token",
+  "client_id",
+  "client_secret",
+  "clientid",
+  "clientsecret",
+  "apikey",
+  "api_key",
+  "password",
+  "userid",
+  "name",
+  "attentionname",
+  "personname",
+  "companyname",
+  "addressline",
+  "addressline1",
+  "addressline2",
+  "addressline3",
+  "streetlines",
+  "phonenumber",
+  "email",
+  "signedbyname",
+  "receivedbyname",
+]);
+
+/**
+ * XML attributes and elements holding credentials or recipient details.
+ */
+const SENSITIVE_XML_PATTERNS: RegExp[] = [
+  /(USERID=)"[^"]*"/gi,
+  /(PASSWORD=)"[^"]*"/gi,
+  /(<(?:Name|FirmName|AuthorizedAgent|Password|UserName|Key)>)[^<]*(?=<\/)/g,
+];
+
+/**
+ * An HTTP request to a carrier, relative to its API base URL.
+ */
+export interface RecordedRequest {
+  method: string;
+  /** Path and query, relative to the carrier's base URL (query values decoded) */
+  path: string;
+  /** Request body (parsed when JSON) */
+  body: unknown;
+}
+
+/**
+ * A carrier HTTP response.
+ */
+export interface RecordedResponse {
+  status: number;
+  contentType: string;
+  /** Response body (parsed when JSON) */
+  body: unknown;
+}
+
+/**
+ * One request/response exchange with a carrier API.
+ */
+export interface CarrierExchange {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/**
+ * Every exchange made while tracking one tracking number.
+ */
+export interface CarrierFixture {
+  carrier: SupportedCarrier;
+  trackingNumber: string;
+  recordedAt: string;
+  exchanges: CarrierExchange[];
+}
+
+/**
+ * Parse a body as JSON when possible.
+ */
+function parseBody(text: string | null): unknown {
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Redact sensitive values from a parsed body.
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === "string") {
+    let text = value;
+    for (const pattern of SENSITIVE_XML_PATTERNS) {
+      text = text.replace(pattern, (_match, prefix: string) =>
+        prefix.endsWith("=") ? `${prefix}"${REDACTED}"` : `${prefix}${REDACTED}`
+      );
+    }
+    // Form-encoded OAuth requests
+    return text.replace(/((?:client_id|client_secret|password)=)[^&]*/gi, `$1${REDACTED}`);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SENSITIVE_JSON_KEYS.has(key.toLowerCase()) && entry !== null ? REDACTED : redact(entry),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Build a sanitized request from a path relative to the carrier's base URL.
+ * Query values are decoded so redaction also covers XML passed in the query.
+ */
+export function describeRequest(
+  method: string,
+  relativeUrl: string,
+  body: string | null
+): RecordedRequest {
+  const url = new URL(relativeUrl, "http://carrier.invalid");
+  const query = [...url.searchParams.entries()]
+    .map(([key, value]) => `${key}=${redact(value)}`)
+    .join("&");
+
+  return {
+    method: method.toUpperCase(),
+    path: `${decodeURIComponent(url.pathname)}${query ? `?${query}` : ""}`,
+    body: redact(parseBody(body)),
+  };
+}
+
+/**
+ * Whether two sanitized requests are the same request.
+ */
+export function isSameRequest(a: RecordedRequest, b: RecordedRequest): boolean {
+  return (
+    a.method === b.method && a.path === b.path && JSON.stringify(a.body) === JSON.stringify(b.body)
+  );
+}
+
+/**
+ * Find the carrier whose API a URL belongs to, with the URL relative to its
+ * base URL. Token URLs are reported separately so they can be skipped.
+ */
+export function matchCarrierUrl(
+  url: string,
+  configs = CARRIER_CONFIGS
+): { carrier: SupportedCarrier; relativeUrl: string; isToken: boolean } | null {
+  for (const carrier of SUPPORTED_CARRIERS) {
+    const config = configs[carrier];
+    if (config.tokenUrl && url.startsWith(config.tokenUrl)) {
+      return { carrier, relativeUrl: "", isToken: true };
+    }
+    if (url.startsWith(config.baseUrl)) {
+      return { carrier, relativeUrl: url.slice(config.baseUrl.length) || "/", isToken: false };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a fetch request body as text.
+ */
+function requestBodyText(init: RequestInit | undefined): string | null {
+  const body = init?.body;
+  if (body === undefined || body === null) {
+    return null;
+  }
+  return typeof body === "string" ? body : body.toString();
+}
+
+/**
+ * Mock OAuth token response, used wherever token exchanges are replayed.
+ */
+export function mockTokenResponse(): RecordedResponse {
+  return {
+    status: 200,
+    contentType: "application/json",
+    body: { access_token: "mock-access-token", token_type: "Bearer", expires_in: 3600 },
+  };
+}
+
+/**
+ * Build a fetch Response from a recorded response.
+ */
+export function toFetchResponse(response: RecordedResponse): Response {
+  const body =
+    response.body === null
+      ? null
+      : typeof response.body === "string"
+        ? response.body
+        : JSON.stringify(response.body);
+  return new Response(body, {
+    status: response.status,
+    headers: { "Content-Type": response.contentType },
+  });
+}
+
+/**
+ * A fetch that records carrier exchanges as it passes them to the real fetch.
+ */
+export interface RecordingFetch {
+  fetch: typeof fetch;
+  /** Return and clear the exchanges recorded so far */
+  takeExchanges(): CarrierExchange[];
+}
+
+/**
+ * Wrap fetch so every carrier API exchange (except OAuth token requests) is recorded.
+ */
+export function createRecordingFetch(baseFetch: typeof fetch = fetch): RecordingFetch {
+  let exchanges: CarrierExchange[] = [];
+
+  const recordingFetch: typeof fetch = async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const response = await baseFetch(input, init);
+
+    const match = matchCarrierUrl(url);
+    if (match && !match.isToken) {
+      const text = await response.clone().text();
+      exchanges.push({
+        request: describeRequest(init?.method ?? "GET", match.relativeUrl, requestBodyText(init)),
+        response: {
+          status: response.status,
+          contentType: response.headers.get("content-type") ?? "application/json",
+          body: redact(parseBody(text)),
+        },
+      });
+    }
+
+    return response;
+  };
+
+  return {
+    fetch: recordingFetch,
+    takeExchanges() {
+      const taken = exchanges;
+      exchanges = [];
+      return taken;
+    },
+  };
+}
+
+/**
+ * Find the recorded response for a request, if any fixture has one.
+ */
+export function findRecordedResponse(
+  fixtures: CarrierFixture[],
+  carrier: Carrier,
+  request: RecordedRequest
+): RecordedResponse | null {
+  for (const fixture of fixtures) {
+    if (fixture.carrier !== carrier) {
+      continue;
+    }
+    const exchange = fixture.exchanges.find((entry) => isSameRequest(entry.request, request));
+    if (exchange) {
+      return exchange.response;
+    }
+  }
+  return null;
+}
+
+/**
+ * A fetch that answers carrier requests from fixtures and OAuth token
+ * requests with a mock token. Unmatched requests fail loudly.
+ */
+export function createReplayFetch(fixtures: CarrierFixture[]): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const match = matchCarrierUrl(url);
+    if (!match) {
+      throw new Error(`No carrier API matches ${url}`);
+    }
+    if (match.isToken) {
+      return toFetchResponse(mockTokenResponse());
+    }
+
+    const request = describeRequest(init?.method ?? "GET", match.relativeUrl, requestBodyText(init));
+    const response = findRecordedResponse(fixtures, match.carrier, request);
+    if (!response) {
+      throw new Error(`No ${match.carrier} fixture for ${request.method} ${request.path}`);
+    }
+    return toFetchResponse(response);
+  };
+}
+
+/**
+ * Path of a tracking number's fixture file.
+ */
+export function fixturePath(dir: string, carrier: SupportedCarrier, trackingNumber: string): string {
+  return path.join(dir, carrier.toLowerCase(), `${trackingNumber}.json`);
+}
+
+/**
+ * Write a fixture file.
+ */
+export async function saveFixture(dir: string, fixture: CarrierFixture): Promise<string> {
+  const file = fixturePath(dir, fixture.carrier, fixture.trackingNumber);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return file;
+}
+
+/**
+ * Load every fixture file under a directory (missing directories have none).
+ */
+export async function loadFixtures(dir: string): Promise<CarrierFixture[]> {
+  const fixtures: CarrierFixture[] = [];
+
+  let carrierDirs: string[];
+  try {
+    carrierDirs = await readdir(dir);
+  } catch {
+    return fixtures;
+  }
+
+  for (const carrierDir of carrierDirs) {
+    let files: string[];
+    try {
+      files = await readdir(path.join(dir, carrierDir));
+    } catch {
+      continue;
+    }
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const content = await readFile(path.join(dir, carrierDir, file), "utf8");
+      fixtures.push(JSON.parse(content) as CarrierFixture);
+    }
+  }
+
+  return fixtures;
+}
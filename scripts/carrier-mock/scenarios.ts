@@ -0,0 +1,466 @@
+/**
+ * Mock Carrier Scenarios
+ *
+ * Scripted UPS, FedEx and USPS tracking responses for the mock carrier
+ * server, shaped like the live APIs so they go through the real adapters.
+ * Dates are relative to the time of the request.
+ */
+
+import { XMLBuilder } from "fast-xml-parser";
+import type { RecordedResponse } from "./fixtures";
+
+/**
+ * Scripted tracking outcomes.
+ */
+export const MOCK_SCENARIOS = [
+  "in_transit",
+  "delivered",
+  "exception",
+  "rescheduled",
+  "not_found",
+  "rate_limited",
+  "server_error",
+] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+/**
+ * Scenarios that fail at the HTTP level.
+ */
+type HttpFailureScenario = "rate_limited" | "server_error";
+
+/**
+ * Scenarios answered with tracking data (or a per-number "not found").
+ */
+type TrackScenario = Exclude<MockScenario, HttpFailureScenario>;
+
+/**
+ * Carriers the mock server can script responses for.
+ */
+export type MockCarrier = "UPS" | "FEDEX" | "USPS";
+
+/**
+ * Check whether a string is a scenario name.
+ */
+export function isMockScenario(value: string): value is MockScenario {
+  return (MOCK_SCENARIOS as readonly string[]).includes(value);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scan locations used by every scenario.
+ */
+const ORIGIN = { city: "Louisville", state: "KY", zip: "40209" };
+const DESTINATION = { city: "Miami", state: "FL", zip: "33101" };
+
+/**
+ * Format a date as UPS YYYYMMDD.
+ */
+function upsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Format a time as UPS HHMMSS.
+ */
+function upsTime(date: Date): string {
+  return date.toISOString().slice(11, 19).replace(/:/g, "");
+}
+
+/**
+ * Format a date as USPS "February 10, 2026".
+ */
+function uspsDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(date);
+}
+
+/**
+ * Format a time as USPS "2:30 pm".
+ */
+function uspsTime(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone: "UTC",
+  })
+    .format(date)
+    .toLowerCase();
+}
+
+/**
+ * Check whether a scenario fails at the HTTP level.
+ */
+function isHttpFailure(scenario: MockScenario): scenario is HttpFailureScenario {
+  return scenario === "rate_limited" || scenario === "server_error";
+}
+
+/**
+ * Response for scenarios that fail at the HTTP level, shared by all carriers.
+ */
+function httpFailure(scenario: HttpFailureScenario): RecordedResponse {
+  return scenario === "rate_limited"
+    ? {
+        status: 429,
+        contentType: "application/json",
+        body: { errors: [{ code: "429", message: "Too many requests" }] },
+      }
+    : {
+        status: 500,
+        contentType: "application/json",
+        body: { errors: [{ code: "500", message: "Internal server error" }] },
+      };
+}
+
+/**
+ * Split a batch into its first HTTP-level failure, if any, and its tracked numbers.
+ * An HTTP-level failure for any number fails the whole request.
+ */
+function splitBatch(
+  scenarios: Array<{ trackingNumber: string; scenario: MockScenario }>
+): { failure: RecordedResponse | null; tracked: Array<{ trackingNumber: string; scenario: TrackScenario }> } {
+  const tracked: Array<{ trackingNumber: string; scenario: TrackScenario }> = [];
+  for (const { trackingNumber, scenario } of scenarios) {
+    if (isHttpFailure(scenario)) {
+      return { failure: httpFailure(scenario), tracked: [] };
+    }
+    tracked.push({ trackingNumber, scenario });
+  }
+  return { failure: null, tracked };
+}
+
+// ============================================================
+// UPS
+// ============================================================
+
+/**
+ * Build a UPS Track API response for one tracking number.
+ */
+export function buildUpsResponse(
+  scenario: MockScenario,
+  trackingNumber: string,
+  now: Date = new Date()
+): RecordedResponse {
+  if (isHttpFailure(scenario)) {
+    return httpFailure(scenario);
+  }
+  if (scenario === "not_found") {
+    return {
+      status: 404,
+      contentType: "application/json",
+      body: {
+        response: {
+          errors: [{ code: "TW0001", message: "Tracking Information Not Found" }],
+        },
+      },
+    };
+  }
+
+  const pickedUp = new Date(now.getTime() - 2 * DAY_MS);
+  const lastScan = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+  const expected = new Date(now.getTime() + 2 * DAY_MS);
+  const address = (location: typeof ORIGIN) => ({
+    address: { city: location.city, stateProvince: location.state, country: "US" },
+  });
+
+  const pickup = {
+    date: upsDate(pickedUp),
+    time: upsTime(pickedUp),
+    location: address(ORIGIN),
+    status: { type: "P", code: "PU", description: "Picked Up" },
+  };
+  const latest = {
+    in_transit: {
+      location: address(ORIGIN),
+      status: { type: "I", code: "DP", description: "Departed from Facility" },
+    },
+    delivered: {
+      location: address(DESTINATION),
+      status: { type: "D", code: "KB", description: "Delivered" },
+    },
+    exception: {
+      location: address(ORIGIN),
+      status: {
+        type: "X",
+        code: "WD",
+        description: "A weather emergency has delayed delivery",
+      },
+    },
+    rescheduled: {
+      location: address(ORIGIN),
+      status: {
+        type: "I",
+        code: "RD",
+        description: "The delivery date has been rescheduled",
+      },
+    },
+  }[scenario];
+  const current = { date: upsDate(lastScan), time: upsTime(lastScan), ...latest };
+
+  const deliveryDate =
+    scenario === "delivered"
+      ? [{ type: "DEL", date: upsDate(lastScan) }]
+      : scenario === "rescheduled"
+        ? [
+            { type: "SDD", date: upsDate(expected) },
+            { type: "RDD", date: upsDate(new Date(expected.getTime() + 2 * DAY_MS)) },
+          ]
+        : [{ type: "SDD", date: upsDate(expected) }];
+
+  return {
+    status: 200,
+    contentType: "application/json",
+    body: {
+      trackResponse: {
+        shipment: [
+          {
+            inquiryNumber: trackingNumber,
+            package: [
+              {
+                trackingNumber,
+                deliveryDate,
+                activity: [current, pickup],
+                currentStatus: current,
+              },
+            ],
+          },
+        ],
+      },
+    },
+  };
+}
+
+// ============================================================
+// FedEx
+// ============================================================
+
+/**
+ * Build the FedEx completeTrackResult for one tracking number.
+ */
+function buildFedexTrackResult(scenario: TrackScenario, trackingNumber: string, now: Date) {
+  if (scenario === "not_found") {
+    return {
+      trackingNumber,
+      trackResults: [
+        {
+          trackingNumberInfo: { trackingNumber },
+          error: {
+            code: "TRACKING.TRACKINGNUMBER.NOTFOUND",
+            message: "Tracking number cannot be found. Please correct the tracking number and try again.",
+          },
+        },
+      ],
+    };
+  }
+
+  const pickedUp = new Date(now.getTime() - 2 * DAY_MS);
+  const lastScan = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+  const expected = new Date(now.getTime() + 2 * DAY_MS);
+  const scanLocation = (location: typeof ORIGIN) => ({
+    address: {
+      city: location.city,
+      stateOrProvinceCode: location.state,
+      postalCode: location.zip,
+      countryCode: "US",
+    },
+  });
+
+  const latest = {
+    in_transit: { code: "IT", derivedCode: "IT", description: "In transit", location: ORIGIN },
+    delivered: { code: "DL", derivedCode: "DL", description: "Delivered", location: DESTINATION },
+    exception: {
+      code: "SE",
+      derivedCode: "SE",
+      description: "Shipment exception",
+      location: ORIGIN,
+    },
+    rescheduled: { code: "IT", derivedCode: "IT", description: "In transit", location: ORIGIN },
+  }[scenario];
+
+  return {
+    trackingNumber,
+    trackResults: [
+      {
+        trackingNumberInfo: { trackingNumber },
+        latestStatusDetail: {
+          code: latest.code,
+          derivedCode: latest.derivedCode,
+          statusByLocale: latest.description,
+          description: latest.description,
+          scanLocation: scanLocation(latest.location).address,
+          ...(scenario === "exception" && {
+            ancillaryDetails: [
+              {
+                reason: "08",
+                reasonDescription: "Weather delay",
+                action: "No action is required.",
+              },
+            ],
+          }),
+        },
+        dateAndTimes: [
+          ...(scenario === "delivered"
+            ? [{ type: "ACTUAL_DELIVERY", dateTime: lastScan.toISOString() }]
+            : [{ type: "ESTIMATED_DELIVERY", dateTime: expected.toISOString() }]),
+          ...(scenario === "rescheduled"
+            ? [
+                {
+                  type: "APPOINTMENT_DELIVERY",
+                  dateTime: new Date(expected.getTime() + 2 * DAY_MS).toISOString(),
+                },
+              ]
+            : []),
+          { type: "ACTUAL_PICKUP", dateTime: pickedUp.toISOString() },
+        ],
+        ...(scenario === "rescheduled" && { delayDetail: { status: "DELAYED" } }),
+        scanEvents: [
+          {
+            date: lastScan.toISOString(),
+            eventType: latest.code,
+            eventDescription: latest.description,
+            derivedStatus: latest.description,
+            scanLocation: scanLocation(latest.location),
+          },
+          {
+            date: pickedUp.toISOString(),
+            eventType: "PU",
+            eventDescription: "Picked up",
+            derivedStatus: "Picked up",
+            scanLocation: scanLocation(ORIGIN),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Build a FedEx Track API response for a batch of tracking numbers.
+ */
+export function buildFedexResponse(
+  scenarios: Array<{ trackingNumber: string; scenario: MockScenario }>,
+  now: Date = new Date()
+): RecordedResponse {
+  const { failure, tracked } = splitBatch(scenarios);
+  if (failure) {
+    return failure;
+  }
+
+  return {
+    status: 200,
+    contentType: "application/json",
+    body: {
+      transactionId: `mock-${now.getTime()}`,
+      output: {
+        completeTrackResults: tracked.map(({ trackingNumber, scenario }) =>
+          buildFedexTrackResult(scenario, trackingNumber, now)
+        ),
+      },
+    },
+  };
+}
+
+// ============================================================
+// USPS
+// ============================================================
+
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "_",
+  textNodeName: "_text",
+});
+
+/**
+ * Build the USPS TrackInfo element for one tracking number.
+ */
+function buildUspsTrackInfo(scenario: TrackScenario, trackingNumber: string, now: Date) {
+  if (scenario === "not_found") {
+    return {
+      _ID: trackingNumber,
+      Error: {
+        Number: "-2147219302",
+        Description:
+          "The Postal Service could not locate the tracking information for your request.",
+      },
+    };
+  }
+
+  const acceptedAt = new Date(now.getTime() - 2 * DAY_MS);
+  const lastScan = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+  const expected = new Date(now.getTime() + 2 * DAY_MS);
+  const event = (date: Date, text: string, code: string, location: typeof ORIGIN) => ({
+    EventTime: uspsTime(date),
+    EventDate: uspsDate(date),
+    Event: text,
+    EventCity: location.city.toUpperCase(),
+    EventState: location.state,
+    EventZIPCode: location.zip,
+    EventCountry: "",
+    EventCode: code,
+  });
+
+  const latest = {
+    in_transit: {
+      category: "In Transit",
+      summary: event(lastScan, "In Transit to Next Facility", "NT", ORIGIN),
+    },
+    delivered: {
+      category: "Delivered",
+      summary: event(lastScan, "Delivered, In/At Mailbox", "01", DESTINATION),
+    },
+    exception: {
+      category: "Alert",
+      summary: event(lastScan, "Alert: Delivery Exception, Animal Interference", "53", ORIGIN),
+    },
+    rescheduled: {
+      category: "In Transit",
+      summary: event(lastScan, "Arriving Late", "U1", ORIGIN),
+    },
+  }[scenario];
+
+  const expectedDelivery =
+    scenario === "rescheduled" ? new Date(expected.getTime() + 2 * DAY_MS) : expected;
+
+  return {
+    _ID: trackingNumber,
+    Class: "USPS Ground Advantage",
+    Status: latest.summary.Event,
+    StatusCategory: latest.category,
+    ...(scenario !== "delivered" && { ExpectedDeliveryDate: uspsDate(expectedDelivery) }),
+    TrackSummary: latest.summary,
+    TrackDetail: [event(acceptedAt, "USPS picked up item", "03", ORIGIN)],
+  };
+}
+
+/**
+ * Build a USPS TrackV2 XML response for a batch of tracking numbers.
+ */
+export function buildUspsResponse(
+  scenarios: Array<{ trackingNumber: string; scenario: MockScenario }>,
+  now: Date = new Date()
+): RecordedResponse {
+  const { failure, tracked } = splitBatch(scenarios);
+  if (failure) {
+    return failure;
+  }
+
+  const xml = xmlBuilder.build({
+    TrackResponse: {
+      TrackInfo: tracked.map(({ trackingNumber, scenario }) =>
+        buildUspsTrackInfo(scenario, trackingNumber, now)
+      ),
+    },
+  }) as string;
+
+  return {
+    status: 200,
+    contentType: "application/xml",
+    body: `<?xml version="1.0" encoding="UTF-8"?>\n${xml}`,
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Mock Carrier Server
+ *
+ * A local HTTP server speaking the UPS, FedEx and USPS tracking APIs, for
+ * development and CI without carrier credentials. Point the app at it with
+ * CARRIER_API_MOCK_URL; each carrier is served under /<carrier>.
+ *
+ * A tracking number is answered with, in order:
+ * 1. The scenario set for it through PUT /__scenarios/<trackingNumber>
+ * 2. A recorded fixture matching the request
+ * 3. The server's default scenario
+ *
+ * OAuth token requests always succeed with a mock token.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SupportedCarrier } from "~/services/carriers/carrier.registry";
+import {
+  describeRequest,
+  findRecordedResponse,
+  mockTokenResponse,
+  type CarrierFixture,
+  type RecordedResponse,
+} from "./fixtures";
+import {
+  buildFedexResponse,
+  buildUpsResponse,
+  buildUspsResponse,
+  isMockScenario,
+  type MockCarrier,
+  type MockScenario,
+} from "./scenarios";
+
+/**
+ * Options for the mock carrier server.
+ */
+export interface MockCarrierServerOptions {
+  /** Recorded fixtures to replay */
+  fixtures?: CarrierFixture[];
+  /** Scenario for tracking numbers with no scenario or fixture */
+  defaultScenario?: MockScenario;
+}
+
+/**
+ * A running mock carrier server.
+ */
+export interface MockCarrierServer {
+  server: Server;
+  /** Base URL to use as CARRIER_API_MOCK_URL */
+  url: string;
+  /** Script the response for a tracking number */
+  setScenario(trackingNumber: string, scenario: MockScenario): void;
+  /** Forget every scripted scenario */
+  resetScenarios(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Path prefix of the scenario control endpoints.
+ */
+const CONTROL_PREFIX = "/__scenarios";
+
+/**
+ * Route prefixes per carrier, matching CARRIER_API_MOCK_URL resolution.
+ */
+const CARRIER_PREFIXES: Record<string, SupportedCarrier> = {
+  ups: "UPS",
+  fedex: "FEDEX",
+  usps: "USPS",
+  dhl: "DHL",
+  canada_post: "CANADA_POST",
+  purolator: "PUROLATOR",
+};
+
+/**
+ * Read a request body as text.
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString("utf8") : null;
+}
+
+/**
+ * Write a response.
+ */
+function send(res: ServerResponse, response: RecordedResponse): void {
+  const body =
+    response.body === null
+      ? ""
+      : typeof response.body === "string"
+        ? response.body
+        : JSON.stringify(response.body);
+  res.writeHead(response.status, { "Content-Type": response.contentType });
+  res.end(body);
+}
+
+/**
+ * JSON response helper for control endpoints and errors.
+ */
+function json(status: number, body: unknown): RecordedResponse {
+  return { status, contentType: "application/json", body };
+}
+
+/**
+ * Tracking numbers requested from a carrier's tracking endpoint, or null if
+ * the request is not a tracking request the server can script.
+ */
+function requestedTrackingNumbers(
+  carrier: MockCarrier,
+  method: string,
+  url: URL,
+  carrierPath: string,
+  body: string | null
+): string[] | null {
+  switch (carrier) {
+    case "UPS": {
+      const match = carrierPath.match(/^\/track\/v1\/details\/([^/]+)$/);
+      return method === "GET" && match ? [decodeURIComponent(match[1])] : null;
+    }
+    case "FEDEX": {
+      if (method !== "POST" || carrierPath !== "/track/v1/trackingnumbers") {
+        return null;
+      }
+      try {
+        const parsed = JSON.parse(body ?? "{}") as {
+          trackingInfo?: Array<{ trackingNumberInfo?: { trackingNumber?: string } }>;
+        };
+        return (parsed.trackingInfo ?? [])
+          .map((info) => info.trackingNumberInfo?.trackingNumber)
+          .filter((trackingNumber): trackingNumber is string => Boolean(trackingNumber));
+      } catch {
+        return null;
+      }
+    }
+    case "USPS": {
+      const xml = url.searchParams.get("XML");
+      if (method !== "GET" || carrierPath !== "/ShippingAPI.dll" || !xml) {
+        return null;
+      }
+      return [...xml.matchAll(/<TrackID\s+ID="([^"]+)"/g)].map((match) => match[1]);
+    }
+  }
+}
+
+/**
+ * Build the scripted response for a carrier tracking request.
+ */
+function buildScriptedResponse(
+  carrier: MockCarrier,
+  scenarios: Array<{ trackingNumber: string; scenario: MockScenario }>
+): RecordedResponse {
+  switch (carrier) {
+    case "UPS":
+      return buildUpsResponse(scenarios[0].scenario, scenarios[0].trackingNumber);
+    case "FEDEX":
+      return buildFedexResponse(scenarios);
+    case "USPS":
+      return buildUspsResponse(scenarios);
+  }
+}
+
+/**
+ * Check whether the server can script responses for a carrier.
+ */
+function isMockCarrier(carrier: SupportedCarrier): carrier is MockCarrier {
+  return carrier === "UPS" || carrier === "FEDEX" || carrier === "USPS";
+}
+
+/**
+ * Start the mock carrier server.
+ *
+ * @param port - Port to listen on (0 picks a free port)
+ */
+export async function startMockCarrierServer(
+  port: number,
+  options: MockCarrierServerOptions = {}
+): Promise<MockCarrierServer> {
+  const fixtures = options.fixtures ?? [];
+  const defaultScenario = options.defaultScenario ?? "in_transit";
+  const scenarios = new Map<string, MockScenario>();
+
+  const handle = async (req: IncomingMessage): Promise<RecordedResponse> => {
+    const method = (req.method ?? "GET").toUpperCase();
+    const url = new URL(req.url ?? "/", "http://mock.invalid");
+    const body = await readBody(req);
+
+    // Scenario control endpoints
+    if (url.pathname.startsWith(CONTROL_PREFIX)) {
+      const trackingNumber = decodeURIComponent(url.pathname.slice(CONTROL_PREFIX.length + 1));
+      if (method === "DELETE" && !trackingNumber) {
+        scenarios.clear();
+        return json(200, { ok: true });
+      }
+      if (method === "DELETE") {
+        scenarios.delete(trackingNumber);
+        return json(200, { ok: true });
+      }
+      if (method === "PUT" && trackingNumber) {
+        let scenario: unknown;
+        try {
+          scenario = (JSON.parse(body ?? "{}") as { scenario?: unknown }).scenario;
+        } catch {
+          scenario = undefined;
+        }
+        if (typeof scenario !== "string" || !isMockScenario(scenario)) {
+          return json(400, { error: `Unknown scenario: ${String(scenario)}` });
+        }
+        scenarios.set(trackingNumber, scenario);
+        return json(200, { trackingNumber, scenario });
+      }
+      if (method === "GET") {
+        return json(200, Object.fromEntries(scenarios));
+      }
+      return json(405, { error: "Method not allowed" });
+    }
+
+    const [, prefix = "", ...rest] = url.pathname.split("/");
+    const carrier = CARRIER_PREFIXES[prefix];
+    if (!carrier) {
+      return json(404, { error: `Unknown carrier path: ${url.pathname}` });
+    }
+    const carrierPath = `/${rest.join("/")}`;
+
+    if (method === "POST" && carrierPath === "/oauth/token") {
+      return mockTokenResponse();
+    }
+
+    const trackingNumbers = isMockCarrier(carrier)
+      ? requestedTrackingNumbers(carrier, method, url, carrierPath, body)
+      : null;
+
+    // Scripted scenarios take precedence over fixtures
+    const scripted = trackingNumbers?.some((trackingNumber) => scenarios.has(trackingNumber));
+    if (!scripted) {
+      const relativeUrl = `${carrierPath}${url.search}`;
+      const recorded = findRecordedResponse(
+        fixtures,
+        carrier,
+        describeRequest(method, relativeUrl, body)
+      );
+      if (recorded) {
+        return recorded;
+      }
+    }
+
+    if (!trackingNumbers || !isMockCarrier(carrier)) {
+      return json(501, { error: `No mock response for ${carrier} ${method} ${carrierPath}` });
+    }
+
+    return buildScriptedResponse(
+      carrier,
+      trackingNumbers.map((trackingNumber) => ({
+        trackingNumber,
+        scenario: scenarios.get(trackingNumber) ?? defaultScenario,
+      }))
+    );
+  };
+
+  const server = createServer((req, res) => {
+    handle(req)
+      .then((response) => send(res, response))
+      .catch((error) => {
+        console.error("[MockCarriers] Request failed:", error);
+        send(res, json(500, { error: "Mock server error" }));
+      });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    server,
+    url: `http://localhost:${address.port}`,
+    setScenario(trackingNumber, scenario) {
+      scenarios.set(trackingNumber, scenario);
+    },
+    resetScenarios() {
+      scenarios.clear();
+    },
+    close() {
+      return new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
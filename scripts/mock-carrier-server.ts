@@ -0,0 +1,60 @@
+/**
+ * Local mock carrier server for UPS, FedEx and USPS tracking
+ *
+ * Usage: npx tsx scripts/mock-carrier-server.ts [--port 4010] [--scenario in_transit] [--fixtures <dir>]
+ *
+ * Point the app and worker at it with CARRIER_API_MOCK_URL=http://localhost:<port>.
+ * Script a tracking number's response while it runs:
+ *   curl -X PUT localhost:4010/__scenarios/1Z999AA10123456784 -d '{"scenario":"exception"}'
+ *
+ * Scenarios: in_transit, delivered, exception, rescheduled, not_found, rate_limited, server_error
+ */
+
+import { parseArgs } from "node:util";
+import { DEFAULT_FIXTURES_DIR, loadFixtures } from "./carrier-mock/fixtures";
+import { MOCK_SCENARIOS, isMockScenario } from "./carrier-mock/scenarios";
+import { startMockCarrierServer } from "./carrier-mock/server";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "4010" },
+      scenario: { type: "string", default: "in_transit" },
+      fixtures: { type: "string", default: DEFAULT_FIXTURES_DIR },
+    },
+  });
+
+  const port = parseInt(values.port, 10);
+  if (Number.isNaN(port)) {
+    console.error(`❌ Invalid port: ${values.port}`);
+    process.exit(1);
+  }
+  if (!isMockScenario(values.scenario)) {
+    console.error(`❌ Unknown scenario: ${values.scenario}`);
+    console.error(`   Available: ${MOCK_SCENARIOS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const fixtures = await loadFixtures(values.fixtures);
+  const mock = await startMockCarrierServer(port, {
+    fixtures,
+    defaultScenario: values.scenario,
+  });
+
+  console.log("=== Mock Carrier Server ===\n");
+  console.log(`✓ Listening on ${mock.url}`);
+  console.log(`✓ ${fixtures.length} recorded fixture(s) loaded from ${values.fixtures}`);
+  console.log(`✓ Default scenario: ${values.scenario}`);
+  console.log(`\nSet CARRIER_API_MOCK_URL=${mock.url} to use it.`);
+
+  const shutdown = () => {
+    mock.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
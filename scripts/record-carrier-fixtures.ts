@@ -0,0 +1,60 @@
+/**
+ * Record live carrier tracking responses as sanitized fixtures
+ *
+ * Usage: npx tsx scripts/record-carrier-fixtures.ts <carrier> <tracking_number...>
+ *
+ * Uses the carrier credentials and Redis (OAuth token cache) from .env. Each tracking number's exchanges are
+ * written to app/services/carriers/__tests__/fixtures/recorded/<carrier>/<number>.json
+ * with credentials and recipient details redacted, ready for the mock
+ * carrier server or createReplayFetch. Review fixtures before committing them.
+ */
+
+import "dotenv/config";
+import { DEFAULT_FIXTURES_DIR, createRecordingFetch, saveFixture } from "./carrier-mock/fixtures";
+
+async function main() {
+  const [carrierArg, ...trackingNumbers] = process.argv.slice(2);
+  if (!carrierArg || trackingNumbers.length === 0) {
+    console.error("Usage: npx tsx scripts/record-carrier-fixtures.ts <carrier> <tracking_number...>");
+    process.exit(1);
+  }
+
+  // Record before the adapters are loaded so every request goes through the recorder
+  const recorder = createRecordingFetch(globalThis.fetch);
+  globalThis.fetch = recorder.fetch;
+
+  const { getCarrierDefinition } = await import("~/services/carriers/carrier.registry");
+  const { getCarrierAdapter } = await import("~/services/carriers/carrier.service");
+
+  const definition = getCarrierDefinition(carrierArg);
+  const adapter = definition && getCarrierAdapter(definition.carrier);
+  if (!definition || !adapter) {
+    console.error(`❌ Unknown carrier: ${carrierArg}`);
+    process.exit(1);
+  }
+
+  console.log(`=== Recording ${definition.displayName} fixtures ===\n`);
+
+  for (const trackingNumber of trackingNumbers) {
+    const result = await adapter.track(trackingNumber);
+    const exchanges = recorder.takeExchanges();
+    const outcome = result.success ? result.data.currentStatus : result.error.code;
+    if (exchanges.length === 0) {
+      console.error(`❌ ${trackingNumber}: no carrier requests made (${outcome})`);
+      continue;
+    }
+
+    const file = await saveFixture(DEFAULT_FIXTURES_DIR, {
+      carrier: definition.carrier,
+      trackingNumber,
+      recordedAt: new Date().toISOString(),
+      exchanges,
+    });
+    console.log(`✓ ${trackingNumber}: ${exchanges.length} exchange(s), ${outcome} → ${file}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,26 +1,52 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import type { Job } from "bullmq";
-import type { CarrierPollJobData } from "../../app/jobs/types";
+import type {
+  CarrierPollBatchJobData,
+  CarrierPollJobData,
+  CarrierPushJobData,
+} from "../../app/jobs/types";
 import type { CarrierTrackingResponse, TrackingResult } from "../../app/services/carriers/carrier.interface";
-import type { Merchant, Shipment } from "@prisma/client";
-import { processCarrierPoll } from "../carrier-poll.worker";
+import type { Merchant, Shipment, ShipmentPackage } from "@prisma/client";
+import {
+  processCarrierPoll,
+  processCarrierPollBatch,
+  processCarrierPush,
+} from "../carrier-poll.worker";
+import { UpsAdapter } from "../../app/services/carriers/ups.adapter";
+import trackAlertInTransit from "../../app/services/carriers/__tests__/fixtures/push/ups-track-alert-in-transit.json";
+import trackAlertDelivered from "../../app/services/carriers/__tests__/fixtures/push/ups-track-alert-delivered.json";
 
 // Import mocked modules
 import { prisma } from "../../app/db.server";
-import { trackShipment } from "../../app/services/carriers/carrier.service";
+import {
+  getCarrierAdapter,
+  trackShipment,
+  trackShipmentsBatch,
+} from "../../app/services/carriers/carrier.service";
+import { getCarrierAccounts } from "../../app/services/carrier-credentials.service";
+import { getRecentCarrierOutage } from "../../app/services/carriers/carrier.circuit-breaker";
+import { queueAutoNotification } from "../../app/services/notification-automation.service";
 
 // Mock Prisma
 vi.mock("../../app/db.server", () => ({
   prisma: {
     shipment: {
       findUnique: vi.fn(),
+      findMany: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       count: vi.fn(), // For billing.service.ts plan limit checks
     },
+    shipmentPackage: {
+      update: vi.fn(),
+    },
     trackingEvent: {
       findMany: vi.fn(),
       createMany: vi.fn(),
     },
+    delayRuleLog: {
+      createMany: vi.fn(),
+    },
     merchant: {
       findUnique: vi.fn(), // For billing.service.ts plan limit checks
     },
@@ -29,7 +55,24 @@ vi.mock("../../app/db.server", () => ({
 
 // Mock carrier service
 vi.mock("../../app/services/carriers/carrier.service", () => ({
+  getCarrierAdapter: vi.fn(),
   trackShipment: vi.fn(),
+  trackShipmentsBatch: vi.fn(),
+}));
+
+// Mock merchant carrier accounts
+vi.mock("../../app/services/carrier-credentials.service", () => ({
+  getCarrierAccounts: vi.fn(),
+}));
+
+// Mock carrier circuit breaker
+vi.mock("../../app/services/carriers/carrier.circuit-breaker", () => ({
+  getRecentCarrierOutage: vi.fn(),
+}));
+
+// Mock notification automation
+vi.mock("../../app/services/notification-automation.service", () => ({
+  queueAutoNotification: vi.fn(),
 }));
 
 /**
@@ -43,6 +86,36 @@ function createMockJob(shipmentId: string): Job<CarrierPollJobData> {
   } as unknown as Job<CarrierPollJobData>;
 }
 
+/**
+ * Helper to create a mock batched BullMQ job
+ */
+function createMockBatchJob(
+  carrier: CarrierPollBatchJobData["carrier"],
+  shipmentIds: string[]
+): Job<CarrierPollBatchJobData> {
+  return {
+    id: `poll-batch-${carrier}`,
+    name: "poll-batch",
+    data: { carrier, shipmentIds },
+    updateProgress: vi.fn(),
+  } as unknown as Job<CarrierPollBatchJobData>;
+}
+
+/**
+ * Helper to create a mock push BullMQ job
+ */
+function createMockPushJob(
+  carrier: CarrierPushJobData["carrier"],
+  payload: unknown
+): Job<CarrierPushJobData> {
+  return {
+    id: "push-1",
+    name: "push",
+    data: { carrier, payload },
+    updateProgress: vi.fn(),
+  } as unknown as Job<CarrierPushJobData>;
+}
+
 /**
  * Helper to create a UTC date
  */
@@ -53,7 +126,9 @@ function utcDate(dateStr: string): Date {
 /**
  * Create a mock shipment with merchant
  */
-function createMockShipment(overrides: Partial<Shipment & { merchant: Merchant }> = {}): Shipment & { merchant: Merchant } {
+type MockShipment = Shipment & { merchant: Merchant; packages: ShipmentPackage[] };
+
+function createMockShipment(overrides: Partial<MockShipment> = {}): MockShipment {
   const merchant: Merchant = {
     id: "merchant-1",
     shopifyShopId: "shop-123",
@@ -104,15 +179,20 @@ function createMockShipment(overrides: Partial<Shipment & { merchant: Merchant }
     expectedDeliveryDate: utcDate("2026-02-09"),
     expectedDeliverySource: "DEFAULT",
     currentStatus: "pending",
+    trackingStatus: "LABEL_CREATED",
     isDelayed: false,
     delayFlaggedAt: null,
     daysDelayed: 0,
+    delaySeverity: null,
+    delayReason: null,
     lastCarrierStatus: null,
     lastScanLocation: null,
     lastScanTime: null,
     carrierExceptionCode: null,
     carrierExceptionReason: null,
+    exceptionCategory: null,
     rescheduledDeliveryDate: null,
+    matchedDelayRuleIds: [],
     fulfillmentLocationId: null,
     fulfillmentLocationName: null,
     orderValue: null,
@@ -129,12 +209,49 @@ function createMockShipment(overrides: Partial<Shipment & { merchant: Merchant }
     lastPolledAt: null,
     nextPollAt: null,
     pollErrorCount: 0,
+    lastPushAt: null,
     hasCarrierScan: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     merchant,
+    packages: [],
     ...overrides,
-  } as Shipment & { merchant: Merchant };
+  } as MockShipment;
+}
+
+/**
+ * Create a mock package of a multi-package shipment
+ */
+function createMockPackage(overrides: Partial<ShipmentPackage> = {}): ShipmentPackage {
+  return {
+    id: "package-1",
+    shipmentId: "shipment-1",
+    trackingNumber: "1Z999AA10123456784",
+    carrier: "UPS",
+    currentStatus: "pending",
+    trackingStatus: "LABEL_CREATED",
+    expectedDeliveryDate: null,
+    expectedDeliverySource: "DEFAULT",
+    isDelayed: false,
+    delayFlaggedAt: null,
+    daysDelayed: 0,
+    delaySeverity: null,
+    delayReason: null,
+    lastCarrierStatus: null,
+    lastScanLocation: null,
+    lastScanTime: null,
+    carrierExceptionCode: null,
+    carrierExceptionReason: null,
+    exceptionCategory: null,
+    rescheduledDeliveryDate: null,
+    isDelivered: false,
+    deliveredAt: null,
+    lastPolledAt: null,
+    pollErrorCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
 }
 
 /**
@@ -143,11 +260,13 @@ function createMockShipment(overrides: Partial<Shipment & { merchant: Merchant }
 function createTrackingResult(overrides: Partial<TrackingResult> = {}): TrackingResult {
   return {
     trackingNumber: "1Z999AA10123456784",
+    status: "IN_TRANSIT",
     carrier: "UPS",
     currentStatus: "In Transit",
     isException: false,
     exceptionCode: null,
     exceptionReason: null,
+    exceptionCategory: null,
     expectedDeliveryDate: utcDate("2026-02-09"),
     rescheduledDeliveryDate: null,
     isDelivered: false,
@@ -188,6 +307,12 @@ describe("carrier-poll.worker", () => {
     // These are called when hasCarrierScan transitions from false to true
     vi.mocked(prisma.shipment.count).mockResolvedValue(0); // Under limit
     vi.mocked(prisma.merchant.findUnique).mockResolvedValue({ planTier: "STARTER" } as any);
+
+    // Merchants use the platform carrier credentials unless a test says otherwise
+    vi.mocked(getCarrierAccounts).mockResolvedValue(new Map());
+
+    // Carriers are healthy unless a test says otherwise
+    vi.mocked(getRecentCarrierOutage).mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -297,6 +422,22 @@ describe("carrier-poll.worker", () => {
         });
       });
 
+      it("should track with the merchant's own carrier account", async () => {
+        const shipment = createMockShipment();
+        const account = { id: "merchant-1:abc123", credentials: { clientId: "id", clientSecret: "secret" } };
+        vi.mocked(getCarrierAccounts).mockResolvedValue(new Map([["UPS", account]]));
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 2 });
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({ success: true, data: createTrackingResult() });
+
+        await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(getCarrierAccounts).toHaveBeenCalledWith("merchant-1");
+        expect(trackShipment).toHaveBeenCalledWith("UPS", shipment.trackingNumber, account);
+      });
+
       it("should mark hasCarrierScan when first events received", async () => {
         const shipment = createMockShipment({ hasCarrierScan: false });
         vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
@@ -427,6 +568,35 @@ describe("carrier-poll.worker", () => {
             delayFlaggedAt: expect.any(Date),
           }),
         });
+        expect(queueAutoNotification).toHaveBeenCalledWith(
+          "shipment-1",
+          expect.objectContaining({ autoNotifications: expect.objectContaining({ enabled: false }) }),
+          expect.any(Date)
+        );
+      });
+
+      it("should not fail the poll when the automatic notification can't be queued", async () => {
+        vi.setSystemTime(new Date("2026-02-10T20:00:00Z"));
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        const shipment = createMockShipment({
+          expectedDeliveryDate: utcDate("2026-02-09"),
+          isDelayed: false,
+        });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 1 });
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: true,
+          data: createTrackingResult({ isException: true, exceptionCode: "X1" }),
+        });
+        vi.mocked(queueAutoNotification).mockRejectedValueOnce(new Error("Redis unavailable"));
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.success).toBe(true);
+        expect(result.isDelayed).toBe(true);
       });
 
       it("should detect delay when past expected delivery + grace period", async () => {
@@ -463,6 +633,51 @@ describe("carrier-poll.worker", () => {
           }),
         });
       });
+
+      it("should apply merchant delay rules and log newly matched ones", async () => {
+        const shipment = createMockShipment({
+          isTestData: true,
+          matchedDelayRuleIds: ["rule-old"],
+        });
+        shipment.merchant.settings = {
+          delayRules: [
+            {
+              id: "rule-test-data",
+              name: "Never flag test data",
+              conditions: [{ field: "isTestData", operator: "is", value: true }],
+              actions: [{ type: "ignore" }],
+            },
+          ],
+        };
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 0 });
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: true,
+          data: createTrackingResult({ isException: true, exceptionCode: "X1" }),
+        });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.isDelayed).toBe(false);
+        expect(prisma.delayRuleLog.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({
+              shipmentId: "shipment-1",
+              merchantId: "merchant-1",
+              ruleId: "rule-test-data",
+              ruleName: "Never flag test data",
+              isDelayed: false,
+            }),
+          ],
+        });
+        expect(prisma.shipment.update).toHaveBeenCalledWith({
+          where: { id: "shipment-1" },
+          data: expect.objectContaining({ matchedDelayRuleIds: ["rule-test-data"] }),
+        });
+        expect(queueAutoNotification).not.toHaveBeenCalled();
+      });
     });
 
     describe("error handling", () => {
@@ -546,6 +761,78 @@ describe("carrier-poll.worker", () => {
       });
     });
 
+    describe("carrier outages", () => {
+      const unavailable: CarrierTrackingResponse = {
+        success: false,
+        error: {
+          code: "CARRIER_UNAVAILABLE",
+          message: "UPS API is degraded, request deferred until it recovers",
+          retryable: false,
+        },
+      };
+
+      it("should defer the poll without counting an error while the carrier is degraded", async () => {
+        const shipment = createMockShipment({ pollErrorCount: 2 });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue(unavailable);
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result).toMatchObject({ success: true, skipped: true, skipReason: "Carrier API degraded" });
+        expect(prisma.shipment.update).toHaveBeenCalledTimes(1);
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(Object.keys(updateCall.data)).toEqual(["nextPollAt"]);
+
+        // 15 minute deferral, plus the merchant's offset within a 15 minute spread (15 % 15 = 0)
+        const minutesFromNow = ((updateCall.data.nextPollAt as Date).getTime() - Date.now()) / (60 * 1000);
+        expect(minutesFromNow).toBe(15);
+      });
+
+      it("should defer the poll when the carrier rate limit is reached", async () => {
+        const shipment = createMockShipment({ pollErrorCount: 0 });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: false,
+          error: { code: "THROTTLED", message: "UPS rate limit reached, request deferred", retryable: false },
+        });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result).toMatchObject({ skipped: true, skipReason: "Carrier rate limit reached" });
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data.pollErrorCount).toBeUndefined();
+      });
+
+      it("should not flag missing updates as a delay while the carrier is recovering", async () => {
+        const shipment = createMockShipment({
+          expectedDeliveryDate: utcDate("2026-02-02"),
+          expectedDeliverySource: "CARRIER",
+        });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 1 });
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: true,
+          data: createTrackingResult({
+            expectedDeliveryDate: utcDate("2026-02-02"),
+            lastScanTime: new Date("2026-02-01T12:00:00Z"),
+          }),
+        });
+        vi.mocked(getRecentCarrierOutage).mockResolvedValue({
+          startedAt: new Date("2026-02-02T00:00:00Z"),
+          endedAt: new Date("2026-02-04T11:00:00Z"),
+        });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.isDelayed).toBe(false);
+        expect(getRecentCarrierOutage).toHaveBeenCalledWith("UPS", expect.any(Date));
+      });
+    });
+
     describe("poll interval calculation", () => {
       it("should set correct next poll time for imminent delivery", async () => {
         // Expected delivery tomorrow
@@ -650,5 +937,465 @@ describe("carrier-poll.worker", () => {
         expect(updateCall.data.nextPollAt).toBeNull();
       });
     });
+
+    describe("multi-package shipments", () => {
+      const firstPackage = createMockPackage();
+      const secondPackage = createMockPackage({
+        id: "package-2",
+        trackingNumber: "1Z999AA10123456785",
+      });
+
+      /**
+       * Echo package updates back as the updated package row
+       */
+      function mockPackageUpdates() {
+        vi.mocked(prisma.shipmentPackage.update).mockImplementation((async (args: {
+          where: { id: string };
+          data: Partial<ShipmentPackage>;
+        }) => {
+          const pkg = [firstPackage, secondPackage].find((p) => p.id === args.where.id)!;
+          return { ...pkg, ...args.data };
+        }) as never);
+      }
+
+      beforeEach(() => {
+        vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 2 });
+        mockPackageUpdates();
+      });
+
+      it("should poll each package and tag its tracking events", async () => {
+        const shipment = createMockShipment({ packages: [firstPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({ success: true, data: createTrackingResult() });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(trackShipment).toHaveBeenCalledWith("UPS", "1Z999AA10123456784", undefined);
+        expect(trackShipment).toHaveBeenCalledWith("UPS", "1Z999AA10123456785", undefined);
+        expect(prisma.shipmentPackage.update).toHaveBeenCalledTimes(2);
+
+        const createCall = vi.mocked(prisma.trackingEvent.createMany).mock.calls[1][0]!;
+        expect((createCall.data as Array<{ packageId: string }>)[0].packageId).toBe("package-2");
+
+        expect(result.success).toBe(true);
+        expect(result.newEventsCount).toBe(4);
+      });
+
+      it("should roll up to delayed when any package is delayed", async () => {
+        const shipment = createMockShipment({ packages: [firstPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment)
+          .mockResolvedValueOnce({ success: true, data: createTrackingResult() })
+          .mockResolvedValueOnce({
+            success: true,
+            data: createTrackingResult({
+              isException: true,
+              exceptionCode: "X1",
+              exceptionReason: "Weather delay",
+            }),
+          });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.isDelayed).toBe(true);
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data).toMatchObject({
+          isDelayed: true,
+          isDelivered: false,
+          carrierExceptionReason: "Weather delay",
+          delayFlaggedAt: new Date("2026-02-04T12:00:00Z"),
+        });
+      });
+
+      it("should not roll up to delivered until every package is delivered", async () => {
+        const shipment = createMockShipment({ packages: [firstPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment)
+          .mockResolvedValueOnce({
+            success: true,
+            data: createTrackingResult({
+              isDelivered: true,
+              deliveredAt: new Date("2026-02-04T10:30:00Z"),
+            }),
+          })
+          .mockResolvedValueOnce({ success: true, data: createTrackingResult() });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.isDelivered).toBe(false);
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data.isDelivered).toBe(false);
+        expect(updateCall.data.nextPollAt).toBeInstanceOf(Date);
+      });
+
+      it("should roll up to delivered and stop polling when the last package is delivered", async () => {
+        const deliveredPackage = {
+          ...firstPackage,
+          isDelivered: true,
+          deliveredAt: new Date("2026-02-03T10:00:00Z"),
+        };
+        const shipment = createMockShipment({ packages: [deliveredPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: true,
+          data: createTrackingResult({
+            isDelivered: true,
+            deliveredAt: new Date("2026-02-04T10:30:00Z"),
+          }),
+        });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        // The delivered package is not polled again
+        expect(trackShipment).toHaveBeenCalledTimes(1);
+        expect(result.isDelivered).toBe(true);
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data).toMatchObject({
+          isDelivered: true,
+          deliveredAt: new Date("2026-02-04T10:30:00Z"),
+          nextPollAt: null,
+        });
+      });
+
+      it("should only count a failed poll when every package fails", async () => {
+        const shipment = createMockShipment({ packages: [firstPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment)
+          .mockResolvedValueOnce({
+            success: false,
+            error: { code: "TRACKING_NOT_FOUND", message: "Not found", retryable: false },
+          })
+          .mockResolvedValueOnce({ success: true, data: createTrackingResult() });
+
+        const result = await processCarrierPoll(createMockJob("shipment-1"));
+
+        expect(result.success).toBe(true);
+        expect(prisma.shipmentPackage.update).toHaveBeenCalledWith({
+          where: { id: "package-1" },
+          data: expect.objectContaining({ pollErrorCount: 1 }),
+        });
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data.pollErrorCount).toBe(0);
+      });
+
+      it("should throw for BullMQ retry when every package fails with a retryable error", async () => {
+        const shipment = createMockShipment({ packages: [firstPackage, secondPackage] });
+        vi.mocked(prisma.shipment.findUnique).mockResolvedValue(shipment);
+        vi.mocked(prisma.shipment.update).mockResolvedValue(shipment);
+        vi.mocked(trackShipment).mockResolvedValue({
+          success: false,
+          error: { code: "NETWORK_ERROR", message: "Connection refused", retryable: true },
+        });
+
+        await expect(processCarrierPoll(createMockJob("shipment-1"))).rejects.toThrow(
+          "NETWORK_ERROR: Connection refused"
+        );
+
+        const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+        expect(updateCall.data.pollErrorCount).toBe(1);
+      });
+    });
+  });
+
+  describe("processCarrierPollBatch", () => {
+    const firstShipment = createMockShipment({
+      id: "shipment-1",
+      carrier: "USPS",
+      trackingNumber: "9400111899223456789012",
+    });
+    const secondShipment = createMockShipment({
+      id: "shipment-2",
+      carrier: "USPS",
+      trackingNumber: "9400111899223456789029",
+    });
+
+    beforeEach(() => {
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue([firstShipment, secondShipment]);
+      vi.mocked(prisma.shipment.findUnique).mockImplementation((async (args: { where: { id: string } }) =>
+        args.where.id === "shipment-1" ? firstShipment : secondShipment) as any);
+      vi.mocked(prisma.shipment.update).mockResolvedValue(firstShipment);
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 1 });
+    });
+
+    it("should fetch tracking for all shipments with one batch call", async () => {
+      vi.mocked(trackShipmentsBatch).mockResolvedValue(
+        new Map<string, CarrierTrackingResponse>([
+          [
+            "9400111899223456789012",
+            { success: true, data: createTrackingResult({ trackingNumber: "9400111899223456789012" }) },
+          ],
+          [
+            "9400111899223456789029",
+            {
+              success: true,
+              data: createTrackingResult({
+                trackingNumber: "9400111899223456789029",
+                isDelivered: true,
+                deliveredAt: new Date("2026-02-04T10:30:00Z"),
+              }),
+            },
+          ],
+        ])
+      );
+
+      const result = await processCarrierPollBatch(
+        createMockBatchJob("USPS", ["shipment-1", "shipment-2"])
+      );
+
+      expect(trackShipmentsBatch).toHaveBeenCalledTimes(1);
+      expect(trackShipmentsBatch).toHaveBeenCalledWith(
+        "USPS",
+        ["9400111899223456789012", "9400111899223456789029"],
+        undefined
+      );
+      expect(trackShipment).not.toHaveBeenCalled();
+      expect(result.failedCount).toBe(0);
+      expect(result.results.map((r) => r.isDelivered)).toEqual([false, true]);
+      expect(prisma.shipment.update).toHaveBeenCalledTimes(2);
+    });
+
+    it("should batch each merchant carrier account separately", async () => {
+      const account = { id: "merchant-2:abc123", credentials: { userId: "merchant-usps" } };
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue([
+        firstShipment,
+        { ...secondShipment, merchantId: "merchant-2" },
+      ]);
+      vi.mocked(getCarrierAccounts).mockImplementation(async (merchantId) =>
+        merchantId === "merchant-2" ? new Map([["USPS", account]]) : new Map()
+      );
+      vi.mocked(trackShipmentsBatch).mockImplementation(async (_carrier, trackingNumbers) =>
+        new Map<string, CarrierTrackingResponse>(
+          trackingNumbers.map((trackingNumber) => [
+            trackingNumber,
+            { success: true, data: createTrackingResult({ trackingNumber }) },
+          ])
+        )
+      );
+
+      const result = await processCarrierPollBatch(
+        createMockBatchJob("USPS", ["shipment-1", "shipment-2"])
+      );
+
+      expect(trackShipmentsBatch).toHaveBeenCalledTimes(2);
+      expect(trackShipmentsBatch).toHaveBeenCalledWith("USPS", ["9400111899223456789012"], undefined);
+      expect(trackShipmentsBatch).toHaveBeenCalledWith("USPS", ["9400111899223456789029"], account);
+      expect(result.failedCount).toBe(0);
+    });
+
+    it("should record a failed shipment without failing the batch", async () => {
+      vi.mocked(trackShipmentsBatch).mockResolvedValue(
+        new Map<string, CarrierTrackingResponse>([
+          ["9400111899223456789012", { success: true, data: createTrackingResult() }],
+          [
+            "9400111899223456789029",
+            {
+              success: false,
+              error: { code: "NETWORK_ERROR", message: "Connection refused", retryable: true },
+            },
+          ],
+        ])
+      );
+
+      const result = await processCarrierPollBatch(
+        createMockBatchJob("USPS", ["shipment-1", "shipment-2"])
+      );
+
+      expect(result.failedCount).toBe(1);
+      expect(result.results[0].success).toBe(true);
+      expect(result.results[1]).toMatchObject({
+        shipmentId: "shipment-2",
+        success: false,
+        error: "NETWORK_ERROR: Connection refused",
+      });
+      const errorUpdate = vi.mocked(prisma.shipment.update).mock.calls[1][0];
+      expect(errorUpdate.data.pollErrorCount).toBe(1);
+    });
+
+    it("should throw for BullMQ retry when every shipment fails", async () => {
+      const error = { code: "RATE_LIMITED" as const, message: "Rate limited", retryable: true };
+      vi.mocked(trackShipmentsBatch).mockResolvedValue(
+        new Map<string, CarrierTrackingResponse>([
+          ["9400111899223456789012", { success: false, error }],
+          ["9400111899223456789029", { success: false, error }],
+        ])
+      );
+
+      await expect(
+        processCarrierPollBatch(createMockBatchJob("USPS", ["shipment-1", "shipment-2"]))
+      ).rejects.toThrow("RATE_LIMITED: Rate limited");
+
+      expect(prisma.shipment.update).toHaveBeenCalledTimes(2);
+    });
+
+    it("should defer every shipment without failing while the carrier is degraded", async () => {
+      const error = {
+        code: "CARRIER_UNAVAILABLE" as const,
+        message: "USPS API is degraded, request deferred until it recovers",
+        retryable: false,
+      };
+      vi.mocked(trackShipmentsBatch).mockResolvedValue(
+        new Map<string, CarrierTrackingResponse>([
+          ["9400111899223456789012", { success: false, error }],
+          ["9400111899223456789029", { success: false, error }],
+        ])
+      );
+
+      const result = await processCarrierPollBatch(
+        createMockBatchJob("USPS", ["shipment-1", "shipment-2"])
+      );
+
+      expect(result.failedCount).toBe(0);
+      expect(result.results.every((r) => r.skipped)).toBe(true);
+      expect(prisma.shipment.update).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fall back to a single call for tracking numbers missing from the batch", async () => {
+      vi.mocked(trackShipmentsBatch).mockResolvedValue(
+        new Map<string, CarrierTrackingResponse>([
+          ["9400111899223456789012", { success: true, data: createTrackingResult() }],
+        ])
+      );
+      vi.mocked(trackShipment).mockResolvedValue({ success: true, data: createTrackingResult() });
+
+      const result = await processCarrierPollBatch(
+        createMockBatchJob("USPS", ["shipment-1", "shipment-2"])
+      );
+
+      expect(trackShipment).toHaveBeenCalledTimes(1);
+      expect(trackShipment).toHaveBeenCalledWith("USPS", "9400111899223456789029", undefined);
+      expect(result.failedCount).toBe(0);
+    });
+  });
+
+  describe("processCarrierPush", () => {
+    const pushedShipment = createMockShipment({ lastPushAt: new Date("2026-02-04T12:00:00Z") });
+
+    function matchShipment(lastScanTime: Date | null = null) {
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue([
+        { id: "shipment-1", carrier: "UPS", trackingNumber: "1Z999AA10123456784", lastScanTime, packages: [] },
+      ] as any);
+    }
+
+    beforeEach(() => {
+      vi.mocked(getCarrierAdapter).mockReturnValue(new UpsAdapter());
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(pushedShipment);
+      vi.mocked(prisma.shipment.update).mockResolvedValue(pushedShipment);
+      vi.mocked(prisma.shipment.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 1 });
+    });
+
+    it("should apply a recorded Track Alert event without calling the carrier", async () => {
+      matchShipment();
+
+      const result = await processCarrierPush(createMockPushJob("UPS", trackAlertInTransit));
+
+      expect(trackShipment).not.toHaveBeenCalled();
+      expect(prisma.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["shipment-1"] } },
+        data: { lastPushAt: new Date("2026-02-04T12:00:00Z") },
+      });
+      expect(prisma.trackingEvent.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ eventDescription: "Arrived at Facility", locationCity: "Hodgkins" })],
+      });
+
+      const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+      expect(updateCall.data).toMatchObject({
+        currentStatus: "In Transit",
+        trackingStatus: "IN_TRANSIT",
+        lastScanLocation: "Hodgkins, IL, US",
+        pollErrorCount: 0,
+      });
+      // Active push subscription: 12 hour safety net + 15 minute merchant offset
+      expect(updateCall.data.nextPollAt).toEqual(new Date("2026-02-05T00:15:00Z"));
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0].success).toBe(true);
+      expect(result.unmatchedCount).toBe(0);
+    });
+
+    it("should keep the stored rescheduled date when the push has none", async () => {
+      const rescheduledDeliveryDate = new Date("2026-02-10T00:00:00Z");
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(
+        createMockShipment({ lastPushAt: new Date("2026-02-04T12:00:00Z"), rescheduledDeliveryDate })
+      );
+      matchShipment();
+
+      await processCarrierPush(createMockPushJob("UPS", trackAlertInTransit));
+
+      const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+      expect(updateCall.data.rescheduledDeliveryDate).toEqual(rescheduledDeliveryDate);
+    });
+
+    it("should mark the shipment delivered from a delivered event", async () => {
+      matchShipment();
+
+      const result = await processCarrierPush(createMockPushJob("UPS", trackAlertDelivered));
+
+      const updateCall = vi.mocked(prisma.shipment.update).mock.calls[0][0];
+      expect(updateCall.data).toMatchObject({ isDelivered: true, nextPollAt: null });
+      expect(result.results[0].isDelivered).toBe(true);
+    });
+
+    it("should only record the push when it is not newer than the last scan", async () => {
+      matchShipment(new Date("2026-02-07T00:00:00Z"));
+
+      const result = await processCarrierPush(createMockPushJob("UPS", trackAlertInTransit));
+
+      expect(prisma.shipment.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.shipment.update).not.toHaveBeenCalled();
+      expect(result.results[0]).toMatchObject({ skipped: true, skipReason: "No new scans in push" });
+    });
+
+    it("should count pushed tracking numbers without an active shipment", async () => {
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue([]);
+
+      const result = await processCarrierPush(createMockPushJob("UPS", trackAlertInTransit));
+
+      expect(result.unmatchedCount).toBe(1);
+      expect(prisma.shipment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should skip notifications the adapter cannot parse", async () => {
+      const result = await processCarrierPush(createMockPushJob("UPS", { unexpected: true }));
+
+      expect(prisma.shipment.findMany).not.toHaveBeenCalled();
+      expect(result.results).toEqual([]);
+    });
+
+    it("should live-track other packages of a multi-package shipment", async () => {
+      const pushedPackage = createMockPackage({ id: "package-1" });
+      const otherPackage = createMockPackage({ id: "package-2", trackingNumber: "1Z5R89390357567127" });
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue([
+        {
+          id: "shipment-1",
+          carrier: "UPS",
+          trackingNumber: "1Z999AA10123456784",
+          lastScanTime: null,
+          packages: [pushedPackage, otherPackage],
+        },
+      ] as any);
+      vi.mocked(prisma.shipment.findUnique).mockResolvedValue(
+        createMockShipment({ lastPushAt: new Date(), packages: [pushedPackage, otherPackage] })
+      );
+      vi.mocked(prisma.shipmentPackage.update).mockImplementation((async (args: { where: { id: string } }) =>
+        createMockPackage({ id: args.where.id })) as any);
+      vi.mocked(trackShipment).mockResolvedValue({
+        success: true,
+        data: createTrackingResult({ trackingNumber: "1Z5R89390357567127" }),
+      });
+
+      await processCarrierPush(createMockPushJob("UPS", trackAlertInTransit));
+
+      expect(trackShipment).toHaveBeenCalledTimes(1);
+      expect(trackShipment).toHaveBeenCalledWith("UPS", "1Z5R89390357567127", undefined);
+      expect(prisma.shipmentPackage.update).toHaveBeenCalledTimes(2);
+    });
   });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import type { Job, Queue } from "bullmq";
+import type { Carrier } from "@prisma/client";
 import type { PollSchedulerJobData } from "../../app/jobs/types";
 import { processPollScheduler } from "../poll-scheduler.worker";
 
@@ -45,10 +46,15 @@ function createMockQueue(): Partial<Queue> {
 /**
  * Create a mock shipment for query results
  */
-function createMockShipmentForQuery(id: string, expectedDeliveryDate: Date | null) {
+function createMockShipmentForQuery(
+  id: string,
+  expectedDeliveryDate: Date | null,
+  carrier: Carrier = "UPS"
+) {
   return {
     id,
     expectedDeliveryDate,
+    carrier,
   };
 }
 
@@ -267,4 +273,84 @@ describe("poll-scheduler.worker", () => {
       expect(result.durationMs).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe("carrier batching", () => {
+    beforeEach(() => {
+      process.env.CARRIER_POLL_BATCHING = "true";
+    });
+
+    afterEach(() => {
+      delete process.env.CARRIER_POLL_BATCHING;
+    });
+
+    it("should group shipments of batch-capable carriers into one job per carrier", async () => {
+      const mockShipments = [
+        createMockShipmentForQuery("usps-1", new Date("2026-02-01"), "USPS"),
+        createMockShipmentForQuery("fedex-1", new Date("2026-02-05"), "FEDEX"),
+        createMockShipmentForQuery("usps-2", new Date("2026-02-10"), "USPS"),
+        createMockShipmentForQuery("fedex-2", new Date("2026-02-15"), "FEDEX"),
+      ];
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue(mockShipments as any);
+
+      await processPollScheduler(createMockJob());
+
+      const jobs = vi.mocked(mockQueue.addBulk!).mock.calls[0][0];
+      expect(jobs).toHaveLength(2);
+
+      const uspsJob = jobs.find((j) => j.data.carrier === "USPS");
+      expect(uspsJob?.name).toBe("poll-batch");
+      expect(uspsJob?.data.shipmentIds).toEqual(["usps-1", "usps-2"]);
+      expect(uspsJob?.opts?.jobId).toMatch(/^poll-batch-USPS-/);
+      // Takes the priority of the most urgent (past-due) shipment
+      expect(uspsJob?.opts?.priority).toBe(1);
+
+      const fedexJob = jobs.find((j) => j.data.carrier === "FEDEX");
+      expect(fedexJob?.data.shipmentIds).toEqual(["fedex-1", "fedex-2"]);
+    });
+
+    it("should keep per-shipment jobs for carriers without a batch endpoint", async () => {
+      const mockShipments = [
+        createMockShipmentForQuery("ups-1", new Date("2026-02-05"), "UPS"),
+        createMockShipmentForQuery("ups-2", new Date("2026-02-06"), "UPS"),
+      ];
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue(mockShipments as any);
+
+      await processPollScheduler(createMockJob());
+
+      const jobs = vi.mocked(mockQueue.addBulk!).mock.calls[0][0];
+      expect(jobs.map((j) => j.name)).toEqual(["poll", "poll"]);
+      expect(jobs.map((j) => j.opts?.jobId)).toEqual(["poll-ups-1", "poll-ups-2"]);
+    });
+
+    it("should split a carrier's shipments by its batch size", async () => {
+      const mockShipments = Array.from({ length: 31 }, (_, i) =>
+        createMockShipmentForQuery(`fedex-${i}`, new Date("2026-02-06"), "FEDEX")
+      );
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue(mockShipments as any);
+
+      await processPollScheduler(createMockJob());
+
+      const jobs = vi.mocked(mockQueue.addBulk!).mock.calls[0][0];
+      expect(jobs).toHaveLength(2);
+      expect(jobs[0].data.shipmentIds).toHaveLength(30);
+      // A lone leftover shipment gets a regular poll job
+      expect(jobs[1]).toEqual(
+        expect.objectContaining({ name: "poll", data: { shipmentId: "fedex-30" } })
+      );
+    });
+
+    it("should derive the same batch job ID from the same shipments", async () => {
+      const mockShipments = [
+        createMockShipmentForQuery("usps-1", new Date("2026-02-05"), "USPS"),
+        createMockShipmentForQuery("usps-2", new Date("2026-02-06"), "USPS"),
+      ];
+      vi.mocked(prisma.shipment.findMany).mockResolvedValue(mockShipments as any);
+
+      await processPollScheduler(createMockJob());
+      await processPollScheduler(createMockJob());
+
+      const [first, second] = vi.mocked(mockQueue.addBulk!).mock.calls;
+      expect(first[0][0].opts?.jobId).toBe(second[0][0].opts?.jobId);
+    });
+  });
 });
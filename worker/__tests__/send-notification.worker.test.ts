@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Job } from "bullmq";
+import type { SendNotificationJobData } from "../../app/jobs/types";
+import { processSendNotification } from "../send-notification.worker";
+
+// Import mocked modules
+import { prisma } from "../../app/db.server";
+import { prepareNotification, sendAndLogNotification } from "../../app/services/notification.service";
+
+// Mock Prisma
+vi.mock("../../app/db.server", () => ({
+  prisma: {
+    shipment: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// Mock the notification service
+vi.mock("../../app/services/notification.service", () => ({
+  prepareNotification: vi.fn(),
+  sendAndLogNotification: vi.fn(),
+}));
+
+/**
+ * Helper to create a mock BullMQ job for a notification
+ */
+function createMockJob(data: Partial<SendNotificationJobData> = {}): Job<SendNotificationJobData> {
+  return {
+    id: "auto-notify-shipment-1-EMAIL",
+    name: "send",
+    data: {
+      channel: "EMAIL",
+      shipmentId: "shipment-1",
+      recipientEmail: "john@example.com",
+      subject: "Queued subject",
+      body: "Queued body",
+      sentBy: "automation",
+      ...data,
+    },
+  } as unknown as Job<SendNotificationJobData>;
+}
+
+const openShipment = {
+  merchantId: "merchant-1",
+  isDelayed: true,
+  isDelivered: false,
+  isResolved: false,
+  isArchived: false,
+  notificationSent: false,
+  notificationLogs: [],
+};
+
+describe("send-notification.worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sendAndLogNotification).mockResolvedValue({ success: true, messageId: "msg-1" });
+  });
+
+  it("should send manual notifications as queued", async () => {
+    const job = createMockJob({ sentBy: "staff@example.com" });
+
+    await processSendNotification(job);
+
+    expect(sendAndLogNotification).toHaveBeenCalledWith(job.data);
+    expect(prisma.shipment.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should skip an automated notification when the merchant notified the customer during the send delay", async () => {
+    vi.mocked(prisma.shipment.findUnique).mockResolvedValue({
+      ...openShipment,
+      notificationSent: true,
+      notificationLogs: [{ id: "log-1" }],
+    } as never);
+
+    await processSendNotification(createMockJob());
+
+    expect(sendAndLogNotification).not.toHaveBeenCalled();
+  });
+
+  it("should send automated notifications rendered when they're due", async () => {
+    vi.mocked(prisma.shipment.findUnique).mockResolvedValue(openShipment as never);
+    vi.mocked(prepareNotification).mockResolvedValue({
+      recipientEmail: "john@example.com",
+      subject: "Update on your order #1001",
+      body: "Your order is now 3 days late",
+    } as never);
+
+    await processSendNotification(createMockJob());
+
+    expect(sendAndLogNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subject: "Update on your order #1001",
+        body: "Your order is now 3 days late",
+        sentBy: "automation",
+      })
+    );
+  });
+
+  it("should throw to retry failed sends", async () => {
+    vi.mocked(sendAndLogNotification).mockResolvedValue({ success: false, error: "Provider down" });
+
+    await expect(processSendNotification(createMockJob({ sentBy: "staff@example.com" }))).rejects.toThrow(
+      "Failed to send notification: Provider down"
+    );
+  });
+});
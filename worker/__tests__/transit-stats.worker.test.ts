@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Job } from "bullmq";
+import type { TransitStatsJobData } from "../../app/jobs/types";
+import { processTransitStats } from "../transit-stats.worker";
+
+// Import mocked modules
+import { prisma } from "../../app/db.server";
+import {
+  autoApplyDeliveryWindowSuggestions,
+  computeTransitStats,
+} from "../../app/services/transit-stats.service";
+
+// Mock Prisma
+vi.mock("../../app/db.server", () => ({
+  prisma: {
+    merchant: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Mock the transit stats service
+vi.mock("../../app/services/transit-stats.service", () => ({
+  computeTransitStats: vi.fn(),
+  autoApplyDeliveryWindowSuggestions: vi.fn(),
+}));
+
+/**
+ * Helper to create a mock BullMQ job
+ */
+function createMockJob(): Job<TransitStatsJobData> {
+  return {
+    id: "transit-stats-repeatable",
+    name: "transit-stats",
+    data: {},
+    updateProgress: vi.fn(),
+  } as unknown as Job<TransitStatsJobData>;
+}
+
+/**
+ * Create a mock merchant for query results
+ */
+function createMockMerchant(id: string, settings: object = {}) {
+  return { id, timezone: "America/New_York", settings };
+}
+
+describe("transit-stats.worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should recompute stats for every active merchant", async () => {
+    vi.mocked(prisma.merchant.findMany).mockResolvedValue([
+      createMockMerchant("merchant-1"),
+      createMockMerchant("merchant-2"),
+    ] as never);
+    vi.mocked(computeTransitStats).mockResolvedValue({ shipmentsMeasured: 40, lanes: 3 });
+
+    const result = await processTransitStats(createMockJob());
+
+    expect(prisma.merchant.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { billingStatus: { not: "CANCELLED" } } })
+    );
+    expect(computeTransitStats).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "merchant-1", timezone: "America/New_York" })
+    );
+    expect(result).toMatchObject({
+      merchantsProcessed: 2,
+      shipmentsMeasured: 80,
+      lanesStored: 6,
+      windowsApplied: 0,
+      errors: [],
+    });
+    expect(autoApplyDeliveryWindowSuggestions).not.toHaveBeenCalled();
+  });
+
+  it("should apply suggestions for merchants who opted in", async () => {
+    vi.mocked(prisma.merchant.findMany).mockResolvedValue([
+      createMockMerchant("merchant-1", { learnedDeliveryWindows: { autoApply: true } }),
+    ] as never);
+    vi.mocked(computeTransitStats).mockResolvedValue({ shipmentsMeasured: 40, lanes: 3 });
+    vi.mocked(autoApplyDeliveryWindowSuggestions).mockResolvedValue([
+      {
+        serviceLevel: "ups_ground",
+        currentDays: 5,
+        suggestedDays: 4,
+        sampleSize: 40,
+        flaggedAtCurrent: 1,
+        flaggedAtSuggested: 3,
+      },
+    ]);
+
+    const result = await processTransitStats(createMockJob());
+
+    expect(autoApplyDeliveryWindowSuggestions).toHaveBeenCalledWith(
+      "merchant-1",
+      expect.objectContaining({ learnedDeliveryWindows: expect.objectContaining({ autoApply: true }) })
+    );
+    expect(result.windowsApplied).toBe(1);
+  });
+
+  it("should continue with other merchants after an error", async () => {
+    vi.mocked(prisma.merchant.findMany).mockResolvedValue([
+      createMockMerchant("merchant-1"),
+      createMockMerchant("merchant-2"),
+    ] as never);
+    vi.mocked(computeTransitStats)
+      .mockRejectedValueOnce(new Error("Database timeout"))
+      .mockResolvedValueOnce({ shipmentsMeasured: 10, lanes: 1 });
+
+    const result = await processTransitStats(createMockJob());
+
+    expect(result.merchantsProcessed).toBe(1);
+    expect(result.errors).toEqual([
+      "Transit stats error for merchant merchant-1: Database timeout",
+    ]);
+  });
+});
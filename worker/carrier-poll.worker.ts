@@ -11,35 +11,91 @@
  * 3. Call carrier adapter
  * 4. Upsert tracking events into TrackingEvent table
  * 5. Update shipment fields (currentStatus, lastScanLocation, etc.)
- * 6. Run delay detection, update isDelayed/delayFlaggedAt
+ * 6. Run delay detection, update isDelayed/delayFlaggedAt, and score the
+ *    delay risk of shipments still on time; queue the merchant's automatic
+ *    notification for delayed shipments
  * 7. Handle delivery (isDelivered, deliveredAt)
  * 8. Calculate nextPollAt using smart scheduling
  * 9. Error handling with pollErrorCount
+ *
+ * Multi-package shipments run steps 3-6 for each undelivered package, then
+ * roll the shipment status up from its packages.
+ *
+ * Batch jobs (CARRIER_POLL_BATCHING=true) fetch tracking for all of a job's
+ * shipments through the carrier's batch endpoint first, then run the same
+ * flow for each shipment against the prefetched results.
+ *
+ * Push jobs run the same flow for shipments matching the tracking numbers of
+ * a carrier push notification, using the pushed results instead of a carrier
+ * call. Recording the push backs polling off to a safety-net interval.
  */
 
 import type { Job } from "bullmq";
-import type { CarrierPollJobData } from "../app/jobs/types";
 import type {
+  CarrierPollBatchJobData,
+  CarrierPollJobData,
+  CarrierPushJobData,
+} from "../app/jobs/types";
+import type {
+  CarrierPollBatchJobResult,
   CarrierPollJobResult,
+  CarrierPushJobResult,
 } from "../app/jobs/carrier-poll.job";
-import type { TrackingEvent as CarrierTrackingEvent, TrackingResult } from "../app/services/carriers/carrier.interface";
-import type { Prisma } from "@prisma/client";
+import type {
+  CarrierAccount,
+  CarrierError,
+  CarrierTrackingResponse,
+  TrackingEvent as CarrierTrackingEvent,
+  TrackingResult,
+} from "../app/services/carriers/carrier.interface";
+import type { Carrier, Merchant, Prisma, Shipment, ShipmentPackage } from "@prisma/client";
 import { prisma } from "../app/db.server";
-import { trackShipment } from "../app/services/carriers/carrier.service";
+import {
+  getCarrierAdapter,
+  trackShipment,
+  trackShipmentsBatch,
+} from "../app/services/carriers/carrier.service";
 import {
   evaluateDelay,
   toShipmentData,
+  toPackageShipmentData,
   getDelayUpdateFields,
 } from "../app/services/delay-detection.service";
+import {
+  getRiskUpdateFields,
+  scoreDelayRisk,
+  type DelayRiskAssessment,
+} from "../app/services/delay-risk.service";
+import {
+  logMatchedDelayRules,
+  mergeMatchedDelayRules,
+} from "../app/services/delay-rules.service";
+import { rollUpPackages } from "../app/services/shipment.service";
+import { queueAutoNotification } from "../app/services/notification-automation.service";
+import { getCarrierAccounts } from "../app/services/carrier-credentials.service";
 import { canRecordFirstScan } from "../app/services/billing.service";
-import { MerchantSettingsSchema } from "../app/lib/validation";
-import { calculateNextPollAt } from "../app/jobs/carrier-poll.job";
+import { MerchantSettingsSchema, type MerchantSettings } from "../app/lib/validation";
+import type { MatchedDelayRule } from "../app/lib/delay-rules";
+import { getDeliveryTimeZone } from "../app/lib/timezones";
+import { calculateDeferredPollAt, calculateNextPollAt } from "../app/jobs/carrier-poll.job";
+import { getRecentCarrierOutage } from "../app/services/carriers/carrier.circuit-breaker";
 
 /**
  * Maximum number of consecutive poll errors before flagging for dashboard warning
  */
 const MAX_POLL_ERROR_COUNT = 2;
 
+/**
+ * Looks up tracking for one tracking number (a live carrier call, or a
+ * prefetched batch result), with the merchant's carrier account if they have one.
+ * Results from a carrier push are flagged with isPush.
+ */
+type TrackFn = (
+  carrier: Carrier,
+  trackingNumber: string,
+  account?: CarrierAccount
+) => Promise<CarrierTrackingResponse & { isPush?: boolean }>;
+
 /**
  * Process a carrier poll job
  *
@@ -57,221 +113,817 @@ export async function processCarrierPoll(
   );
 
   try {
-    // Load shipment with merchant
-    const shipment = await prisma.shipment.findUnique({
-      where: { id: shipmentId },
-      include: { merchant: true },
-    });
+    return await pollShipment(shipmentId, startTime, trackShipment);
+  } catch (error) {
+    const durationMs = Date.now() - startTime;
+    const errorMessage =
+      error instanceof Error ? error.message : String(error);
+    console.error(
+      `[carrier-poll] Failed job ${job.id} for shipment ${shipmentId} after ${durationMs}ms:`,
+      errorMessage
+    );
 
-    if (!shipment) {
-      console.warn(`[carrier-poll] Shipment ${shipmentId} not found, skipping`);
-      return createSkippedResult(shipmentId, startTime, "Shipment not found");
-    }
+    // Re-throw to trigger BullMQ retry
+    throw error;
+  }
+}
+
+/**
+ * Process a batched carrier poll job
+ *
+ * Tracks every shipment of the batch with as few carrier requests as the
+ * carrier allows, then updates each shipment as a single poll job would.
+ * A failed shipment does not fail the batch; the job only throws (so BullMQ
+ * retries it) when every shipment failed.
+ *
+ * @param job - The BullMQ job containing the carrier and shipment IDs
+ * @returns Job result with per-shipment poll outcomes
+ */
+export async function processCarrierPollBatch(
+  job: Job<CarrierPollBatchJobData>
+): Promise<CarrierPollBatchJobResult> {
+  const { carrier, shipmentIds } = job.data;
+  const startTime = Date.now();
+
+  console.log(
+    `[carrier-poll] Processing batch job ${job.id} for ${shipmentIds.length} ${carrier} shipments`
+  );
+
+  // Collect the tracking numbers this carrier will be asked about
+  const shipments = await prisma.shipment.findMany({
+    where: { id: { in: shipmentIds }, isDelivered: false, isArchived: false },
+    select: {
+      merchantId: true,
+      carrier: true,
+      trackingNumber: true,
+      packages: { select: { carrier: true, trackingNumber: true, isDelivered: true } },
+    },
+  });
 
-    // Skip if already delivered or archived
-    if (shipment.isDelivered) {
-      console.log(`[carrier-poll] Shipment ${shipmentId} already delivered, skipping`);
-      return createSkippedResult(shipmentId, startTime, "Already delivered");
+  // Group tracking numbers by the carrier account they are tracked with, so
+  // each merchant's own account (or the platform account) gets its own requests
+  const accountsByMerchant = new Map<string, CarrierAccount | undefined>();
+  for (const merchantId of new Set(shipments.map((shipment) => shipment.merchantId))) {
+    accountsByMerchant.set(merchantId, (await getCarrierAccounts(merchantId)).get(carrier));
+  }
+  const groups = new Map<string, { account?: CarrierAccount; trackingNumbers: string[] }>();
+  for (const shipment of shipments) {
+    const numbers =
+      shipment.packages.length > 0
+        ? shipment.packages
+            .filter((pkg) => !pkg.isDelivered && pkg.carrier === carrier)
+            .map((pkg) => pkg.trackingNumber)
+        : shipment.carrier === carrier
+          ? [shipment.trackingNumber]
+          : [];
+    if (numbers.length === 0) {
+      continue;
     }
 
-    if (shipment.isArchived) {
-      console.log(`[carrier-poll] Shipment ${shipmentId} is archived, skipping`);
-      return createSkippedResult(shipmentId, startTime, "Archived");
+    const account = accountsByMerchant.get(shipment.merchantId);
+    const groupKey = account?.id ?? "";
+    const group = groups.get(groupKey) ?? { account, trackingNumbers: [] };
+    group.trackingNumbers.push(...numbers);
+    groups.set(groupKey, group);
+  }
+
+  const prefetched = new Map<string, CarrierTrackingResponse>();
+  for (const { account, trackingNumbers } of groups.values()) {
+    console.log(
+      `[carrier-poll] Calling ${carrier} batch API for ${trackingNumbers.length} tracking numbers` +
+        (account ? ` with account ${account.id}` : "")
+    );
+    for (const [trackingNumber, response] of await trackShipmentsBatch(
+      carrier,
+      trackingNumbers,
+      account
+    )) {
+      prefetched.set(trackingNumber, response);
     }
+  }
+
+  // Shipments whose carrier changed since the job was enqueued fall back to a live call
+  const track: TrackFn = async (shipmentCarrier, trackingNumber, account) => {
+    const response = shipmentCarrier === carrier ? prefetched.get(trackingNumber) : undefined;
+    return response ?? trackShipment(shipmentCarrier, trackingNumber, account);
+  };
+
+  const results: CarrierPollJobResult[] = [];
+  let failedCount = 0;
+  let lastError: unknown = null;
 
-    // Skip if carrier is UNKNOWN (needs merchant review)
-    if (shipment.carrier === "UNKNOWN") {
-      console.log(
-        `[carrier-poll] Shipment ${shipmentId} has UNKNOWN carrier, skipping`
+  for (const shipmentId of shipmentIds) {
+    const shipmentStartTime = Date.now();
+    try {
+      const result = await pollShipment(shipmentId, shipmentStartTime, track);
+      if (!result.success) {
+        failedCount++;
+      }
+      results.push(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(
+        `[carrier-poll] Failed shipment ${shipmentId} in batch job ${job.id}:`,
+        errorMessage
       );
-      return createSkippedResult(
+      failedCount++;
+      lastError = error;
+      results.push({
         shipmentId,
-        startTime,
-        "Unknown carrier - needs merchant review"
-      );
+        success: false,
+        isDelayed: false,
+        isDelivered: false,
+        newEventsCount: 0,
+        durationMs: Date.now() - shipmentStartTime,
+        error: errorMessage,
+      });
     }
+  }
 
-    // Check merchant is active
-    if (shipment.merchant.billingStatus === "CANCELLED") {
-      console.log(
-        `[carrier-poll] Merchant ${shipment.merchantId} is cancelled, skipping`
-      );
-      return createSkippedResult(
-        shipmentId,
-        startTime,
-        "Merchant subscription cancelled"
+  const durationMs = Date.now() - startTime;
+  console.log(
+    `[carrier-poll] Completed batch job ${job.id} in ${durationMs}ms ` +
+      `(shipments: ${shipmentIds.length}, failed: ${failedCount})`
+  );
+
+  // Re-throw to trigger BullMQ retry when the whole batch failed (e.g. carrier outage)
+  if (lastError && failedCount === shipmentIds.length) {
+    throw lastError;
+  }
+
+  return { carrier, results, failedCount, durationMs };
+}
+
+/**
+ * Process a carrier push notification job
+ *
+ * Parses the notification with the carrier's adapter and updates every active
+ * shipment (or package) with a pushed tracking number, as a poll job would.
+ * Pushes that are not newer than the shipment's last scan (e.g. redelivered
+ * or out of order) only record the push. Other packages of a multi-package
+ * shipment are tracked live.
+ *
+ * @param job - The BullMQ job containing the carrier and notification payload
+ * @returns Job result with per-shipment outcomes
+ */
+export async function processCarrierPush(
+  job: Job<CarrierPushJobData>
+): Promise<CarrierPushJobResult> {
+  const { carrier, payload } = job.data;
+  const startTime = Date.now();
+
+  const adapter = getCarrierAdapter(carrier);
+  if (!adapter?.parsePushNotification) {
+    console.warn(`[carrier-poll] ${carrier} does not support push notifications, skipping job ${job.id}`);
+    return { carrier, results: [], unmatchedCount: 0, durationMs: Date.now() - startTime };
+  }
+
+  const pushed = new Map<string, TrackingResult>();
+  for (const response of adapter.parsePushNotification(payload)) {
+    if (response.success) {
+      pushed.set(response.data.trackingNumber, response.data);
+    } else {
+      console.warn(
+        `[carrier-poll] Ignoring ${carrier} push in job ${job.id}: ${response.error.code} - ${response.error.message}`
       );
     }
+  }
 
-    // Parse merchant settings
-    const merchantSettings = MerchantSettingsSchema.parse(
-      shipment.merchant.settings
-    );
+  const trackingNumbers = [...pushed.keys()];
+  console.log(
+    `[carrier-poll] Processing push job ${job.id} for ${trackingNumbers.length} ${carrier} tracking numbers`
+  );
+  if (trackingNumbers.length === 0) {
+    return { carrier, results: [], unmatchedCount: 0, durationMs: Date.now() - startTime };
+  }
 
-    // Call carrier API
-    console.log(
-      `[carrier-poll] Calling ${shipment.carrier} API for tracking number ${shipment.trackingNumber}`
-    );
-    const trackingResponse = await trackShipment(
-      shipment.carrier,
-      shipment.trackingNumber
-    );
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      isDelivered: false,
+      isArchived: false,
+      OR: [
+        { carrier, trackingNumber: { in: trackingNumbers } },
+        { packages: { some: { carrier, trackingNumber: { in: trackingNumbers } } } },
+      ],
+    },
+    select: {
+      id: true,
+      carrier: true,
+      trackingNumber: true,
+      lastScanTime: true,
+      packages: { select: { carrier: true, trackingNumber: true, lastScanTime: true } },
+    },
+  });
 
-    const now = new Date();
+  const matchedNumbers = new Set(
+    shipments.flatMap((shipment) => [
+      shipment.trackingNumber,
+      ...shipment.packages.map((pkg) => pkg.trackingNumber),
+    ])
+  );
+  const unmatchedCount = trackingNumbers.filter((number) => !matchedNumbers.has(number)).length;
 
-    if (!trackingResponse.success) {
-      // Handle carrier API failure
-      const error = trackingResponse.error;
-      console.error(
-        `[carrier-poll] Carrier API failed for shipment ${shipmentId}: ${error.code} - ${error.message}`
-      );
+  // Record the push first so the poll below schedules the safety-net interval
+  if (shipments.length > 0) {
+    await prisma.shipment.updateMany({
+      where: { id: { in: shipments.map((shipment) => shipment.id) } },
+      data: { lastPushAt: new Date() },
+    });
+  }
 
-      // Increment error count
-      const newErrorCount = shipment.pollErrorCount + 1;
+  const track: TrackFn = async (shipmentCarrier, trackingNumber, account) => {
+    const result = shipmentCarrier === carrier ? pushed.get(trackingNumber) : undefined;
+    return result
+      ? { success: true, data: result, isPush: true }
+      : trackShipment(shipmentCarrier, trackingNumber, account);
+  };
 
-      // Calculate next poll time (with backoff if rate limited)
-      let nextPollAt = calculateNextPollAt(shipment, shipment.merchant, now);
-      if (error.code === "RATE_LIMITED") {
-        // Add extra delay for rate limit errors
-        nextPollAt = nextPollAt
-          ? new Date(nextPollAt.getTime() + 30 * 60 * 1000) // Add 30 minutes
-          : null;
-      }
+  const results: CarrierPollJobResult[] = [];
+  let failedCount = 0;
+  let lastError: unknown = null;
 
-      await prisma.shipment.update({
-        where: { id: shipmentId },
-        data: {
-          pollErrorCount: newErrorCount,
-          lastPolledAt: now,
-          nextPollAt,
-        },
-      });
+  for (const shipment of shipments) {
+    const shipmentStartTime = Date.now();
 
-      if (newErrorCount >= MAX_POLL_ERROR_COUNT) {
-        console.warn(
-          `[carrier-poll] Shipment ${shipmentId} has ${newErrorCount} consecutive errors, flagged for review`
-        );
-      }
+    const tracked =
+      shipment.packages.length > 0
+        ? shipment.packages.filter((pkg) => pkg.carrier === carrier)
+        : [shipment];
+    const hasNewScans = tracked.some((entry) => {
+      const result = pushed.get(entry.trackingNumber);
+      return result !== undefined && isNewerScan(result, entry.lastScanTime);
+    });
+    if (!hasNewScans) {
+      console.log(`[carrier-poll] Push for shipment ${shipment.id} has no new scans, skipping`);
+      results.push(createSkippedResult(shipment.id, shipmentStartTime, "No new scans in push"));
+      continue;
+    }
 
-      // Throw if retryable to trigger BullMQ retry
-      if (error.retryable) {
-        throw new Error(`${error.code}: ${error.message}`);
+    try {
+      const result = await pollShipment(shipment.id, shipmentStartTime, track);
+      if (!result.success) {
+        failedCount++;
       }
-
-      return {
-        shipmentId,
+      results.push(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(
+        `[carrier-poll] Failed shipment ${shipment.id} in push job ${job.id}:`,
+        errorMessage
+      );
+      failedCount++;
+      lastError = error;
+      results.push({
+        shipmentId: shipment.id,
         success: false,
-        isDelayed: shipment.isDelayed,
+        isDelayed: false,
         isDelivered: false,
         newEventsCount: 0,
-        durationMs: Date.now() - startTime,
-        error: `${error.code}: ${error.message}`,
-      };
+        durationMs: Date.now() - shipmentStartTime,
+        error: errorMessage,
+      });
     }
+  }
 
-    // Carrier API succeeded
-    const trackingResult = trackingResponse.data;
+  const durationMs = Date.now() - startTime;
+  console.log(
+    `[carrier-poll] Completed push job ${job.id} in ${durationMs}ms ` +
+      `(shipments: ${shipments.length}, unmatched: ${unmatchedCount}, failed: ${failedCount})`
+  );
+
+  // Re-throw to trigger BullMQ retry when every matched shipment failed
+  if (lastError && failedCount === shipments.length) {
+    throw lastError;
+  }
+
+  return { carrier, results, unmatchedCount, durationMs };
+}
+
+/**
+ * Whether a pushed result carries a scan newer than the last one stored.
+ */
+function isNewerScan(result: TrackingResult, lastScanTime: Date | null): boolean {
+  if (!result.lastScanTime) {
+    return false;
+  }
+  return !lastScanTime || result.lastScanTime > lastScanTime;
+}
+
+/**
+ * Fill in a pushed result from the stored shipment (or package). A push only
+ * carries its latest event, so a rescheduled date it doesn't mention stands.
+ */
+function mergePushedResult(
+  result: TrackingResult,
+  stored: { rescheduledDeliveryDate: Date | null }
+): TrackingResult {
+  return {
+    ...result,
+    rescheduledDeliveryDate: result.rescheduledDeliveryDate ?? stored.rescheduledDeliveryDate,
+  };
+}
+
+/**
+ * Poll one shipment and apply the tracking result.
+ * Throws on retryable carrier errors so the calling job can be retried.
+ */
+async function pollShipment(
+  shipmentId: string,
+  startTime: number,
+  track: TrackFn
+): Promise<CarrierPollJobResult> {
+  // Load shipment with merchant
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: { merchant: true, packages: true },
+  });
+
+  if (!shipment) {
+    console.warn(`[carrier-poll] Shipment ${shipmentId} not found, skipping`);
+    return createSkippedResult(shipmentId, startTime, "Shipment not found");
+  }
+
+  // Skip if already delivered or archived
+  if (shipment.isDelivered) {
+    console.log(`[carrier-poll] Shipment ${shipmentId} already delivered, skipping`);
+    return createSkippedResult(shipmentId, startTime, "Already delivered");
+  }
+
+  if (shipment.isArchived) {
+    console.log(`[carrier-poll] Shipment ${shipmentId} is archived, skipping`);
+    return createSkippedResult(shipmentId, startTime, "Archived");
+  }
+
+  // Skip if carrier is UNKNOWN (needs merchant review).
+  // Multi-package shipments skip unknown packages individually.
+  if (shipment.carrier === "UNKNOWN" && shipment.packages.length === 0) {
     console.log(
-      `[carrier-poll] Got ${trackingResult.events.length} events from carrier for shipment ${shipmentId}`
+      `[carrier-poll] Shipment ${shipmentId} has UNKNOWN carrier, skipping`
     );
-
-    // Upsert tracking events
-    const newEventsCount = await upsertTrackingEvents(
+    return createSkippedResult(
       shipmentId,
-      trackingResult.events
+      startTime,
+      "Unknown carrier - needs merchant review"
     );
+  }
+
+  // Check merchant is active
+  if (shipment.merchant.billingStatus === "CANCELLED") {
     console.log(
-      `[carrier-poll] Added ${newEventsCount} new tracking events for shipment ${shipmentId}`
+      `[carrier-poll] Merchant ${shipment.merchantId} is cancelled, skipping`
+    );
+    return createSkippedResult(
+      shipmentId,
+      startTime,
+      "Merchant subscription cancelled"
+    );
+  }
+
+  // Parse merchant settings
+  const merchantSettings = MerchantSettingsSchema.parse(
+    shipment.merchant.settings
+  );
+
+  // Merchant's own carrier accounts; carriers without one use platform credentials
+  const accounts = await getCarrierAccounts(shipment.merchantId);
+
+  // Multi-package shipments are polled package by package
+  if (shipment.packages.length > 0) {
+    return pollShipmentPackages(shipment, merchantSettings, accounts, startTime, track);
+  }
+
+  // Call carrier API
+  console.log(
+    `[carrier-poll] Calling ${shipment.carrier} API for tracking number ${shipment.trackingNumber}`
+  );
+  const trackingResponse = await track(
+    shipment.carrier,
+    shipment.trackingNumber,
+    accounts.get(shipment.carrier)
+  );
+
+  const now = new Date();
+
+  if (!trackingResponse.success) {
+    const error = trackingResponse.error;
+
+    // Request was not sent (circuit open or rate limit reached): try again later
+    // without counting a poll error
+    if (isDeferredRequest(error)) {
+      return deferPoll(shipment, startTime, now, error);
+    }
+
+    // Handle carrier API failure
+    console.error(
+      `[carrier-poll] Carrier API failed for shipment ${shipmentId}: ${error.code} - ${error.message}`
     );
 
-    // Check if this is the first carrier scan for billing purposes
-    // If shipment doesn't have hasCarrierScan yet and we got new events,
-    // this will count toward the plan limit
-    let allowFirstScan = true;
-    if (!shipment.hasCarrierScan && newEventsCount > 0) {
-      allowFirstScan = await canRecordFirstScan(
-        shipment.merchantId,
-        shipment.merchant.installedAt
+    // Increment error count
+    const newErrorCount = shipment.pollErrorCount + 1;
+
+    // Calculate next poll time (with backoff if rate limited)
+    let nextPollAt = calculateNextPollAt(shipment, shipment.merchant, now);
+    if (error.code === "RATE_LIMITED") {
+      // Add extra delay for rate limit errors
+      nextPollAt = nextPollAt
+        ? new Date(nextPollAt.getTime() + 30 * 60 * 1000) // Add 30 minutes
+        : null;
+    }
+
+    await prisma.shipment.update({
+      where: { id: shipmentId },
+      data: {
+        pollErrorCount: newErrorCount,
+        lastPolledAt: now,
+        nextPollAt,
+      },
+    });
+
+    if (newErrorCount >= MAX_POLL_ERROR_COUNT) {
+      console.warn(
+        `[carrier-poll] Shipment ${shipmentId} has ${newErrorCount} consecutive errors, flagged for review`
       );
-      if (!allowFirstScan) {
-        console.warn(
-          `[carrier-poll] Merchant ${shipment.merchantId} at plan limit. ` +
-          `Shipment ${shipmentId} tracking events recorded but won't count toward limit until upgraded.`
-        );
+    }
+
+    // Throw if retryable to trigger BullMQ retry
+    if (error.retryable) {
+      throw new Error(`${error.code}: ${error.message}`);
+    }
+
+    return {
+      shipmentId,
+      success: false,
+      isDelayed: shipment.isDelayed,
+      isDelivered: false,
+      newEventsCount: 0,
+      durationMs: Date.now() - startTime,
+      error: `${error.code}: ${error.message}`,
+    };
+  }
+
+  // Carrier API succeeded
+  const trackingResult = trackingResponse.isPush
+    ? mergePushedResult(trackingResponse.data, shipment)
+    : trackingResponse.data;
+  console.log(
+    `[carrier-poll] Got ${trackingResult.events.length} events from carrier for shipment ${shipmentId}`
+  );
+
+  // Upsert tracking events
+  const newEventsCount = await upsertTrackingEvents(
+    shipmentId,
+    trackingResult.events
+  );
+  console.log(
+    `[carrier-poll] Added ${newEventsCount} new tracking events for shipment ${shipmentId}`
+  );
+
+  // Check if this is the first carrier scan for billing purposes
+  // If shipment doesn't have hasCarrierScan yet and we got new events,
+  // this will count toward the plan limit
+  let allowFirstScan = true;
+  if (!shipment.hasCarrierScan && newEventsCount > 0) {
+    allowFirstScan = await canRecordFirstScan(
+      shipment.merchantId,
+      shipment.merchant.installedAt
+    );
+    if (!allowFirstScan) {
+      console.warn(
+        `[carrier-poll] Merchant ${shipment.merchantId} at plan limit. ` +
+        `Shipment ${shipmentId} tracking events recorded but won't count toward limit until upgraded.`
+      );
+    }
+  }
+
+  // Run delay detection, allowing for stale data after a carrier outage
+  // (already-delayed shipments keep their flag)
+  const carrierOutage = shipment.isDelayed
+    ? null
+    : await getRecentCarrierOutage(shipment.carrier, now);
+  const timeZone = getDeliveryTimeZone(shipment.shippingAddress, shipment.merchant.timezone);
+  const shipmentData = toShipmentData(shipment);
+  const delayResult = evaluateDelay(shipmentData, trackingResult, merchantSettings, now, {
+    carrierOutage,
+    timeZone,
+  });
+  const risk = await scoreDelayRisk(
+    shipment,
+    shipmentData,
+    trackingResult,
+    delayResult,
+    merchantSettings,
+    timeZone,
+    now
+  );
+
+  // Calculate next poll time (null if delivered)
+  const isNowDelivered = trackingResult.isDelivered;
+  const nextPollAt = isNowDelivered
+    ? null
+    : calculateNextPollAt(
+        {
+          isDelivered: isNowDelivered,
+          isArchived: shipment.isArchived,
+          expectedDeliveryDate:
+            delayResult.expectedDeliveryDate ?? shipment.expectedDeliveryDate,
+          rescheduledDeliveryDate:
+            trackingResult.rescheduledDeliveryDate ??
+            shipment.rescheduledDeliveryDate,
+          lastPushAt: shipment.lastPushAt,
+        },
+        shipment.merchant,
+        now
+      );
+
+  // Build update data
+  // Only set hasCarrierScan if merchant is under plan limit
+  const updateData = buildShipmentUpdate(
+    shipment,
+    trackingResult,
+    delayResult,
+    newEventsCount > 0 && allowFirstScan, // Only count if allowed by plan
+    now,
+    nextPollAt
+  );
+  Object.assign(updateData, getRiskUpdateFields(risk, now));
+  updateData.matchedDelayRuleIds = await logMatchedDelayRules(
+    shipment,
+    delayResult.matchedRules,
+    delayResult.isDelayed,
+    now
+  );
+
+  // Update shipment
+  await prisma.shipment.update({
+    where: { id: shipmentId },
+    data: updateData,
+  });
+
+  if (delayResult.isDelayed && !isNowDelivered) {
+    await queueAutoNotificationSafely(shipmentId, merchantSettings, now);
+  }
+
+  const durationMs = Date.now() - startTime;
+  console.log(
+    `[carrier-poll] Completed poll for shipment ${shipmentId} in ${durationMs}ms ` +
+      `(delayed: ${delayResult.isDelayed}, delivered: ${isNowDelivered})`
+  );
+
+  return {
+    shipmentId,
+    success: true,
+    isDelayed: delayResult.isDelayed,
+    isDelivered: isNowDelivered,
+    newEventsCount,
+    durationMs,
+  };
+}
+
+/**
+ * Poll every undelivered package of a multi-package shipment, evaluate each
+ * one for delay on its own, then roll the shipment status up from them.
+ * The shipment only counts as a failed poll when every package poll failed.
+ */
+async function pollShipmentPackages(
+  shipment: Shipment & { merchant: Merchant; packages: ShipmentPackage[] },
+  merchantSettings: MerchantSettings,
+  accounts: Map<Carrier, CarrierAccount>,
+  startTime: number,
+  track: TrackFn
+): Promise<CarrierPollJobResult> {
+  const now = new Date();
+  const timeZone = getDeliveryTimeZone(shipment.shippingAddress, shipment.merchant.timezone);
+  const packages: ShipmentPackage[] = [];
+  let newEventsCount = 0;
+  let polledCount = 0;
+  let deferredCount = 0;
+  let deferredError: CarrierError | null = null;
+  let failedCount = 0;
+  let rateLimited = false;
+  let lastError: CarrierError | null = null;
+  // The shipment's risk is that of its riskiest package
+  let risk: DelayRiskAssessment | null = null;
+  const matchedRules: MatchedDelayRule[][] = [];
+
+  for (const pkg of shipment.packages) {
+    // Delivered packages and packages we cannot track keep their last state
+    if (pkg.isDelivered || pkg.carrier === "UNKNOWN") {
+      packages.push(pkg);
+      continue;
+    }
+
+    polledCount++;
+    console.log(
+      `[carrier-poll] Calling ${pkg.carrier} API for package ${pkg.trackingNumber} of shipment ${shipment.id}`
+    );
+    const trackingResponse = await track(pkg.carrier, pkg.trackingNumber, accounts.get(pkg.carrier));
+
+    if (!trackingResponse.success) {
+      const error = trackingResponse.error;
+
+      // Request was not sent: keep the package as is without counting a poll error
+      if (isDeferredRequest(error)) {
+        deferredCount++;
+        deferredError = error;
+        packages.push(pkg);
+        continue;
       }
+
+      console.error(
+        `[carrier-poll] Carrier API failed for package ${pkg.trackingNumber} of shipment ${shipment.id}: ${error.code} - ${error.message}`
+      );
+      failedCount++;
+      rateLimited = rateLimited || error.code === "RATE_LIMITED";
+      lastError = error;
+
+      packages.push(
+        await prisma.shipmentPackage.update({
+          where: { id: pkg.id },
+          data: { pollErrorCount: pkg.pollErrorCount + 1, lastPolledAt: now },
+        })
+      );
+      continue;
     }
 
-    // Run delay detection
-    const delayResult = evaluateDelay(
-      toShipmentData(shipment),
+    const trackingResult = trackingResponse.isPush
+      ? mergePushedResult(trackingResponse.data, pkg)
+      : trackingResponse.data;
+    newEventsCount += await upsertTrackingEvents(shipment.id, trackingResult.events, pkg.id);
+
+    const carrierOutage = pkg.isDelayed ? null : await getRecentCarrierOutage(pkg.carrier, now);
+    const packageData = toPackageShipmentData(shipment, pkg);
+    const delayResult = evaluateDelay(packageData, trackingResult, merchantSettings, now, {
+      carrierOutage,
+      timeZone,
+    });
+    const packageRisk = await scoreDelayRisk(
+      shipment,
+      packageData,
       trackingResult,
+      delayResult,
       merchantSettings,
+      timeZone,
       now
     );
+    if (packageRisk && (!risk || packageRisk.score > risk.score)) {
+      risk = packageRisk;
+    }
+    matchedRules.push(delayResult.matchedRules);
 
-    // Calculate next poll time (null if delivered)
-    const isNowDelivered = trackingResult.isDelivered;
-    const nextPollAt = isNowDelivered
-      ? null
-      : calculateNextPollAt(
-          {
-            isDelivered: isNowDelivered,
-            isArchived: shipment.isArchived,
-            expectedDeliveryDate:
-              delayResult.expectedDeliveryDate ?? shipment.expectedDeliveryDate,
-            rescheduledDeliveryDate:
-              trackingResult.rescheduledDeliveryDate ??
-              shipment.rescheduledDeliveryDate,
-          },
-          shipment.merchant,
-          now
-        );
-
-    // Build update data
-    // Only set hasCarrierScan if merchant is under plan limit
-    const updateData = buildShipmentUpdate(
-      shipment,
-      trackingResult,
-      delayResult,
-      newEventsCount > 0 && allowFirstScan, // Only count if allowed by plan
-      now,
-      nextPollAt
+    packages.push(
+      await prisma.shipmentPackage.update({
+        where: { id: pkg.id },
+        data: buildPackageUpdate(pkg, trackingResult, delayResult, now),
+      })
     );
+  }
 
-    // Update shipment
-    await prisma.shipment.update({
-      where: { id: shipmentId },
-      data: updateData,
-    });
+  // Same plan-limit check as single-package shipments
+  let allowFirstScan = true;
+  if (!shipment.hasCarrierScan && newEventsCount > 0) {
+    allowFirstScan = await canRecordFirstScan(
+      shipment.merchantId,
+      shipment.merchant.installedAt
+    );
+  }
 
-    const durationMs = Date.now() - startTime;
-    console.log(
-      `[carrier-poll] Completed poll for shipment ${shipmentId} in ${durationMs}ms ` +
-        `(delayed: ${delayResult.isDelayed}, delivered: ${isNowDelivered})`
+  // No polled package's request was sent: try the shipment again later
+  if (deferredError && deferredCount === polledCount) {
+    return deferPoll(shipment, startTime, now, deferredError);
+  }
+
+  const rollup = rollUpPackages(packages);
+  const allFailed = failedCount > 0 && failedCount === polledCount - deferredCount;
+
+  let nextPollAt = calculateNextPollAt(
+    {
+      isDelivered: rollup.isDelivered,
+      isArchived: shipment.isArchived,
+      expectedDeliveryDate: rollup.expectedDeliveryDate ?? shipment.expectedDeliveryDate,
+      rescheduledDeliveryDate: rollup.rescheduledDeliveryDate,
+      lastPushAt: shipment.lastPushAt,
+    },
+    shipment.merchant,
+    now
+  );
+  if (nextPollAt && rateLimited) {
+    // Add extra delay for rate limit errors
+    nextPollAt = new Date(nextPollAt.getTime() + 30 * 60 * 1000);
+  }
+
+  const update: Prisma.ShipmentUpdateInput = {
+    ...rollup,
+    expectedDeliveryDate: rollup.expectedDeliveryDate ?? shipment.expectedDeliveryDate,
+    expectedDeliverySource: rollup.expectedDeliveryDate
+      ? rollup.expectedDeliverySource
+      : shipment.expectedDeliverySource,
+    lastPolledAt: now,
+    nextPollAt,
+    pollErrorCount: allFailed ? shipment.pollErrorCount + 1 : 0,
+  };
+  if (polledCount > deferredCount + failedCount) {
+    Object.assign(update, getRiskUpdateFields(rollup.isDelayed || rollup.isDelivered ? null : risk, now));
+    update.matchedDelayRuleIds = await logMatchedDelayRules(
+      shipment,
+      mergeMatchedDelayRules(matchedRules),
+      rollup.isDelayed,
+      now
     );
+  }
+  if (rollup.isDelayed && !shipment.isDelayed) {
+    update.delayFlaggedAt = now;
+  }
+  if (!shipment.hasCarrierScan && newEventsCount > 0 && allowFirstScan) {
+    update.hasCarrierScan = true;
+  }
 
-    return {
-      shipmentId,
-      success: true,
-      isDelayed: delayResult.isDelayed,
-      isDelivered: isNowDelivered,
-      newEventsCount,
-      durationMs,
-    };
+  await prisma.shipment.update({
+    where: { id: shipment.id },
+    data: update,
+  });
+
+  if (rollup.isDelayed && !rollup.isDelivered) {
+    await queueAutoNotificationSafely(shipment.id, merchantSettings, now);
+  }
+
+  // Throw if retryable to trigger BullMQ retry, as for single-package shipments
+  if (allFailed && lastError?.retryable) {
+    throw new Error(`${lastError.code}: ${lastError.message}`);
+  }
+
+  const durationMs = Date.now() - startTime;
+  console.log(
+    `[carrier-poll] Completed poll for ${packages.length} packages of shipment ${shipment.id} in ${durationMs}ms ` +
+      `(delayed: ${rollup.isDelayed}, delivered: ${rollup.isDelivered})`
+  );
+
+  return {
+    shipmentId: shipment.id,
+    success: !allFailed,
+    isDelayed: rollup.isDelayed,
+    isDelivered: rollup.isDelivered,
+    newEventsCount,
+    durationMs,
+    ...(allFailed && lastError && { error: `${lastError.code}: ${lastError.message}` }),
+  };
+}
+
+/**
+ * Queue the merchant's automatic notification for a delayed shipment.
+ * Failures are logged rather than thrown: the poll itself was saved, and the
+ * next poll tries again.
+ */
+async function queueAutoNotificationSafely(
+  shipmentId: string,
+  merchantSettings: MerchantSettings,
+  now: Date
+): Promise<void> {
+  try {
+    await queueAutoNotification(shipmentId, merchantSettings, now);
   } catch (error) {
-    const durationMs = Date.now() - startTime;
-    const errorMessage =
-      error instanceof Error ? error.message : String(error);
     console.error(
-      `[carrier-poll] Failed job ${job.id} for shipment ${shipmentId} after ${durationMs}ms:`,
-      errorMessage
+      `[carrier-poll] Failed to queue automatic notification for shipment ${shipmentId}:`,
+      error instanceof Error ? error.message : String(error)
     );
-
-    // Re-throw to trigger BullMQ retry
-    throw error;
   }
 }
 
+/**
+ * Whether a tracking request was not sent to the carrier: its circuit breaker
+ * is open or its rate limit was reached.
+ */
+function isDeferredRequest(error: CarrierError): boolean {
+  return error.code === "CARRIER_UNAVAILABLE" || error.code === "THROTTLED";
+}
+
+/**
+ * Defer a shipment's poll whose tracking request was not sent.
+ * The poll error count is left alone and no error is thrown, so BullMQ does
+ * not retry against the outage or the rate limit.
+ */
+async function deferPoll(
+  shipment: Shipment & { merchant: Merchant },
+  startTime: number,
+  now: Date,
+  error: CarrierError
+): Promise<CarrierPollJobResult> {
+  const reason =
+    error.code === "THROTTLED" ? "Carrier rate limit reached" : "Carrier API degraded";
+  const nextPollAt = calculateDeferredPollAt(shipment.merchant, now);
+  console.log(
+    `[carrier-poll] ${reason}, deferring shipment ${shipment.id} until ${nextPollAt.toISOString()}`
+  );
+
+  await prisma.shipment.update({
+    where: { id: shipment.id },
+    data: { nextPollAt },
+  });
+
+  return createSkippedResult(shipment.id, startTime, reason);
+}
+
 /**
  * Create a skipped result for early-exit scenarios
  */
@@ -298,15 +950,16 @@ function createSkippedResult(
  */
 async function upsertTrackingEvents(
   shipmentId: string,
-  events: CarrierTrackingEvent[]
+  events: CarrierTrackingEvent[],
+  packageId: string | null = null
 ): Promise<number> {
   if (events.length === 0) {
     return 0;
   }
 
-  // Get existing events for this shipment to avoid duplicates
+  // Get existing events for this shipment (or package) to avoid duplicates
   const existingEvents = await prisma.trackingEvent.findMany({
-    where: { shipmentId },
+    where: { shipmentId, ...(packageId && { packageId }) },
     select: { eventTimestamp: true, eventType: true, eventDescription: true },
   });
 
@@ -331,6 +984,7 @@ async function upsertTrackingEvents(
   await prisma.trackingEvent.createMany({
     data: newEvents.map((event) => ({
       shipmentId,
+      ...(packageId && { packageId }),
       eventTimestamp: event.timestamp,
       eventType: event.type,
       eventDescription: event.description,
@@ -344,6 +998,41 @@ async function upsertTrackingEvents(
   return newEvents.length;
 }
 
+/**
+ * Build the Prisma update object for one package of a multi-package shipment
+ */
+function buildPackageUpdate(
+  pkg: { isDelayed: boolean },
+  trackingResult: TrackingResult,
+  delayResult: ReturnType<typeof evaluateDelay>,
+  now: Date
+): Prisma.ShipmentPackageUpdateInput {
+  const update: Prisma.ShipmentPackageUpdateInput = {
+    currentStatus: trackingResult.currentStatus,
+    trackingStatus: trackingResult.status,
+    lastCarrierStatus: trackingResult.currentStatus,
+    lastPolledAt: now,
+    pollErrorCount: 0,
+    lastScanLocation: trackingResult.lastScanLocation,
+    lastScanTime: trackingResult.lastScanTime,
+    carrierExceptionCode: trackingResult.exceptionCode,
+    carrierExceptionReason: trackingResult.exceptionReason,
+    exceptionCategory: trackingResult.exceptionCategory,
+    rescheduledDeliveryDate: trackingResult.rescheduledDeliveryDate,
+  };
+
+  if (trackingResult.isDelivered) {
+    update.isDelivered = true;
+    update.deliveredAt = trackingResult.deliveredAt ?? now;
+    update.isDelayed = false;
+    update.daysDelayed = 0;
+  } else {
+    Object.assign(update, getDelayUpdateFields(delayResult, pkg.isDelayed, now));
+  }
+
+  return update;
+}
+
 /**
  * Build the Prisma update object for the shipment
  */
@@ -361,6 +1050,7 @@ function buildShipmentUpdate(
   const update: Prisma.ShipmentUpdateInput = {
     // Tracking status
     currentStatus: trackingResult.currentStatus,
+    trackingStatus: trackingResult.status,
     lastCarrierStatus: trackingResult.currentStatus,
     lastPolledAt: now,
     nextPollAt,
@@ -373,6 +1063,7 @@ function buildShipmentUpdate(
     // Exception info
     carrierExceptionCode: trackingResult.exceptionCode,
     carrierExceptionReason: trackingResult.exceptionReason,
+    exceptionCategory: trackingResult.exceptionCategory,
 
     // Rescheduled date if carrier provided one
     rescheduledDeliveryDate: trackingResult.rescheduledDeliveryDate,
@@ -17,19 +17,34 @@ import {
   QUEUE_FULFILLMENT_SYNC,
   QUEUE_POLL_SCHEDULER,
   QUEUE_SEND_NOTIFICATION,
+  QUEUE_TRANSIT_STATS,
   type QueueName,
 } from "../app/jobs/queues";
+import {
+  CARRIER_POLL_BATCH_JOB_NAME,
+  CARRIER_PUSH_JOB_NAME,
+} from "../app/jobs/carrier-poll.job";
 
 // Import worker handlers (placeholder implementations for now)
-import { processCarrierPoll } from "./carrier-poll.worker";
+import {
+  processCarrierPoll,
+  processCarrierPollBatch,
+  processCarrierPush,
+} from "./carrier-poll.worker";
 import { processDataCleanup } from "./data-cleanup.worker";
 import { processFulfillmentSync } from "./fulfillment-sync.worker";
 import { processPollScheduler } from "./poll-scheduler.worker";
 import { processSendNotification } from "./send-notification.worker";
+import { processTransitStats } from "./transit-stats.worker";
+import { logCarrierRateLimitMetrics } from "../app/services/carriers/carrier.rate-limiter";
 
 // Worker instances for graceful shutdown
 const workers: Worker[] = [];
 
+// How often carrier rate limit bucket utilization is logged
+const RATE_LIMIT_METRICS_INTERVAL_MS = 60 * 1000;
+let rateLimitMetricsTimer: NodeJS.Timeout | null = null;
+
 // Redis connection for workers
 let redisConnection: Redis | null = null;
 
@@ -94,6 +109,10 @@ function createWorker(
 async function shutdown(signal: string): Promise<void> {
   console.log(`\n[Worker] Received ${signal}, starting graceful shutdown...`);
 
+  if (rateLimitMetricsTimer) {
+    clearInterval(rateLimitMetricsTimer);
+  }
+
   // Stop accepting new jobs and wait for current jobs to finish
   const closePromises = workers.map(async (worker) => {
     try {
@@ -145,12 +164,26 @@ async function main(): Promise<void> {
 
     // Start workers for all queues
     createWorker(QUEUE_POLL_SCHEDULER, processPollScheduler);
-    createWorker(QUEUE_CARRIER_POLL, processCarrierPoll);
+    createWorker(QUEUE_CARRIER_POLL, (job) => {
+      switch (job.name) {
+        case CARRIER_POLL_BATCH_JOB_NAME:
+          return processCarrierPollBatch(job);
+        case CARRIER_PUSH_JOB_NAME:
+          return processCarrierPush(job);
+        default:
+          return processCarrierPoll(job);
+      }
+    });
     createWorker(QUEUE_FULFILLMENT_SYNC, processFulfillmentSync);
     createWorker(QUEUE_SEND_NOTIFICATION, processSendNotification);
     createWorker(QUEUE_DATA_CLEANUP, processDataCleanup);
+    createWorker(QUEUE_TRANSIT_STATS, processTransitStats);
 
     console.log(`[Worker] All ${ALL_QUEUES.length} workers started`);
+
+    rateLimitMetricsTimer = setInterval(() => {
+      void logCarrierRateLimitMetrics();
+    }, RATE_LIMIT_METRICS_INTERVAL_MS);
     console.log("[Worker] Waiting for jobs...");
   } catch (error) {
     console.error("[Worker] Failed to start workers:", error);
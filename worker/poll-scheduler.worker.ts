@@ -9,9 +9,13 @@
  * 1. Query shipments where nextPollAt <= now(), not archived/delivered, merchant active
  * 2. Enqueue carrier-poll jobs with deduplication (jobId = poll-{shipment.id})
  * 3. Priority based on urgency (past-due = higher)
+ *
+ * With CARRIER_POLL_BATCHING=true, due shipments of carriers that have a batch
+ * tracking endpoint are grouped into one poll-batch job per carrier batch.
  */
 
 import type { Job } from "bullmq";
+import type { Carrier, Shipment } from "@prisma/client";
 import type { PollSchedulerJobData } from "../app/jobs/types";
 import type { PollSchedulerJobResult } from "../app/jobs/poll-scheduler.job";
 import { prisma } from "../app/db.server";
@@ -23,8 +27,84 @@ import {
 } from "../app/jobs/poll-scheduler.job";
 import {
   calculatePollPriority,
+  createCarrierPollBatchJobData,
+  createCarrierPollBatchJobId,
+  createCarrierPollJobData,
+  createCarrierPollJobId,
+  isCarrierPollBatchingEnabled,
+  CARRIER_POLL_BATCH_JOB_NAME,
+  CARRIER_POLL_JOB_NAME,
   CARRIER_POLL_JOB_OPTIONS,
 } from "../app/jobs/carrier-poll.job";
+import { getCarrierBatchSize } from "../app/services/carriers/carrier.service";
+import { chunkTrackingNumbers } from "../app/services/carriers/carrier.types";
+
+/**
+ * Due shipment fields the scheduler needs to build poll jobs
+ */
+type DueShipment = Pick<Shipment, "id" | "expectedDeliveryDate" | "carrier">;
+
+/**
+ * Build the poll job for a single shipment
+ */
+function buildPollJob(shipment: DueShipment, now: Date) {
+  return {
+    name: CARRIER_POLL_JOB_NAME,
+    data: createCarrierPollJobData(shipment.id),
+    opts: {
+      ...CARRIER_POLL_JOB_OPTIONS,
+      jobId: createCarrierPollJobId(shipment.id), // Deduplication key
+      priority: calculatePollPriority(shipment, now),
+    },
+  };
+}
+
+/**
+ * Group due shipments by carrier into batch jobs no larger than the carrier's
+ * batch size. Carriers without a batch endpoint keep one job per shipment.
+ * A batch takes the priority of its most urgent shipment.
+ */
+function buildBatchPollJobs(shipments: DueShipment[], now: Date) {
+  const shipmentsByCarrier = new Map<Carrier, DueShipment[]>();
+  for (const shipment of shipments) {
+    const group = shipmentsByCarrier.get(shipment.carrier) ?? [];
+    group.push(shipment);
+    shipmentsByCarrier.set(shipment.carrier, group);
+  }
+
+  const jobs: Array<ReturnType<typeof buildPollJob> | ReturnType<typeof buildBatchPollJob>> = [];
+  for (const [carrier, group] of shipmentsByCarrier) {
+    const batchSize = getCarrierBatchSize(carrier);
+    if (batchSize <= 1) {
+      jobs.push(...group.map((shipment) => buildPollJob(shipment, now)));
+      continue;
+    }
+
+    const shipmentById = new Map(group.map((shipment) => [shipment.id, shipment]));
+    for (const shipmentIds of chunkTrackingNumbers([...shipmentById.keys()], batchSize)) {
+      const batch = shipmentIds.map((id) => shipmentById.get(id)!);
+      jobs.push(batch.length === 1 ? buildPollJob(batch[0], now) : buildBatchPollJob(carrier, batch, now));
+    }
+  }
+
+  return jobs;
+}
+
+/**
+ * Build the poll-batch job for shipments of one carrier
+ */
+function buildBatchPollJob(carrier: Carrier, shipments: DueShipment[], now: Date) {
+  const shipmentIds = shipments.map((shipment) => shipment.id);
+  return {
+    name: CARRIER_POLL_BATCH_JOB_NAME,
+    data: createCarrierPollBatchJobData(carrier, shipmentIds),
+    opts: {
+      ...CARRIER_POLL_JOB_OPTIONS,
+      jobId: createCarrierPollBatchJobId(carrier, shipmentIds), // Deduplication key
+      priority: Math.min(...shipments.map((shipment) => calculatePollPriority(shipment, now))),
+    },
+  };
+}
 
 /**
  * Process a poll scheduler job
@@ -50,6 +130,7 @@ export async function processPollScheduler(
   try {
     const now = new Date();
     const carrierPollQueue = getQueue(QUEUE_CARRIER_POLL);
+    const batching = isCarrierPollBatchingEnabled();
 
     let cursor: string | undefined;
     let totalProcessed = 0;
@@ -84,6 +165,7 @@ export async function processPollScheduler(
         select: {
           id: true,
           expectedDeliveryDate: true,
+          carrier: true,
         },
         orderBy: {
           // Process most urgent shipments first (by expected delivery date)
@@ -100,16 +182,10 @@ export async function processPollScheduler(
       result.shipmentsFound += shipments.length;
       cursor = shipments[shipments.length - 1].id;
 
-      // Prepare bulk job data
-      const jobsToAdd = shipments.map((shipment) => ({
-        name: "poll",
-        data: { shipmentId: shipment.id },
-        opts: {
-          ...CARRIER_POLL_JOB_OPTIONS,
-          jobId: `poll-${shipment.id}`, // Deduplication key
-          priority: calculatePollPriority(shipment, now),
-        },
-      }));
+      // Prepare bulk job data (one job per shipment, or per carrier batch)
+      const jobsToAdd = batching
+        ? buildBatchPollJobs(shipments, now)
+        : shipments.map((shipment) => buildPollJob(shipment, now));
 
       // Add jobs in bulk
       // BullMQ's addBulk handles deduplication based on jobId
@@ -1,20 +1,28 @@
 /**
  * Send Notification Worker
  *
- * This worker sends delay notification emails to customers via Resend.
- * It processes jobs from the send-notification queue, sends emails,
- * creates notification logs, and updates shipment status.
+ * This worker sends delay notifications to customers by email (Resend) or
+ * SMS (the configured SMS provider). It processes jobs from the
+ * send-notification queue, sends each on its channel, creates notification
+ * logs, and updates shipment status.
  */
 
 import type { Job } from "bullmq";
 import type { SendNotificationJobData } from "../app/jobs/types";
 import { sendAndLogNotification } from "../app/services/notification.service";
+import { getDueAutoNotification } from "../app/services/notification-automation.service";
+import { AUTOMATION_SENDER } from "../app/lib/notification-automation";
 
 /**
  * Process a send notification job
  *
- * 1. Sends the email via Resend
- * 2. Creates a NotificationLog record
+ * Automated notifications are dropped when the shipment was delivered,
+ * resolved or archived, is no longer delayed, or was notified manually by
+ * the time they're due, and are rendered again from the shipment's current
+ * data otherwise.
+ *
+ * 1. Sends the email or SMS on the job's channel
+ * 2. Creates a NotificationLog record for the channel
  * 3. Updates shipment.notificationSent and notificationSentAt
  *
  * @param job - The BullMQ job containing notification data
@@ -23,35 +31,42 @@ import { sendAndLogNotification } from "../app/services/notification.service";
 export async function processSendNotification(
   job: Job<SendNotificationJobData>
 ): Promise<void> {
-  const { shipmentId, recipientEmail, subject, body, sentBy } = job.data;
+  const { shipmentId } = job.data;
+  const channel = job.data.channel ?? "EMAIL";
+  const recipient = job.data.channel === "SMS" ? job.data.recipientPhone : job.data.recipientEmail;
 
   console.log(
-    `[send-notification] Processing job ${job.id} for shipment ${shipmentId}`
+    `[send-notification] Processing ${channel} job ${job.id} for shipment ${shipmentId}`
   );
-  console.log(`[send-notification] Sending to: ${recipientEmail}`);
-  console.log(`[send-notification] Subject: ${subject}`);
+  console.log(`[send-notification] Sending to: ${recipient}`);
+  if (job.data.channel !== "SMS") {
+    console.log(`[send-notification] Subject: ${job.data.subject}`);
+  }
+
+  let data: SendNotificationJobData | null = job.data;
+  if (job.data.sentBy === AUTOMATION_SENDER) {
+    data = await getDueAutoNotification(job.data);
+    if (!data) {
+      console.log(`[send-notification] Skipping automated notification for shipment ${shipmentId}`);
+      return;
+    }
+  }
 
   // Send the notification and log the result
-  const result = await sendAndLogNotification({
-    shipmentId,
-    recipientEmail,
-    subject,
-    body,
-    sentBy,
-  });
+  const result = await sendAndLogNotification(data);
 
   if (!result.success) {
     // Throw error to trigger retry logic
     console.error(
-      `[send-notification] Failed to send email: ${result.error}`
+      `[send-notification] Failed to send ${channel}: ${result.error}`
     );
     throw new Error(`Failed to send notification: ${result.error}`);
   }
 
   console.log(
-    `[send-notification] Successfully sent notification to ${recipientEmail}`
+    `[send-notification] Successfully sent notification to ${recipient}`
   );
   if (result.messageId) {
-    console.log(`[send-notification] Resend message ID: ${result.messageId}`);
+    console.log(`[send-notification] Provider message ID: ${result.messageId}`);
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Transit Stats Worker
+ *
+ * This worker runs daily to:
+ * 1. Recompute each merchant's transit time percentiles by carrier, service
+ *    level, origin location and destination region
+ * 2. Apply suggested delivery windows for merchants who turned on
+ *    learnedDeliveryWindows.autoApply
+ */
+
+import type { Job } from "bullmq";
+import type { TransitStatsJobData } from "../app/jobs/types";
+import type { TransitStatsJobResult } from "../app/jobs/transit-stats.job";
+import { prisma } from "../app/db.server";
+import { MerchantSettingsSchema } from "../app/lib/validation";
+import {
+  autoApplyDeliveryWindowSuggestions,
+  computeTransitStats,
+} from "../app/services/transit-stats.service";
+
+/**
+ * Process a transit stats job
+ *
+ * Merchants are processed one at a time; an error for one merchant is
+ * recorded and the others are still processed.
+ *
+ * @param job - The BullMQ job
+ * @returns Job result with statistics
+ */
+export async function processTransitStats(
+  job: Job<TransitStatsJobData>
+): Promise<TransitStatsJobResult> {
+  const startTime = Date.now();
+  console.log(`[transit-stats] Processing job ${job.id}`);
+
+  const result: TransitStatsJobResult = {
+    merchantsProcessed: 0,
+    shipmentsMeasured: 0,
+    lanesStored: 0,
+    windowsApplied: 0,
+    durationMs: 0,
+    errors: [],
+  };
+
+  const merchants = await prisma.merchant.findMany({
+    where: {
+      billingStatus: { not: "CANCELLED" },
+    },
+    select: {
+      id: true,
+      timezone: true,
+      settings: true,
+    },
+  });
+
+  for (const merchant of merchants) {
+    try {
+      const settings = MerchantSettingsSchema.parse(merchant.settings);
+      const stats = await computeTransitStats({ ...merchant, settings });
+
+      result.merchantsProcessed += 1;
+      result.shipmentsMeasured += stats.shipmentsMeasured;
+      result.lanesStored += stats.lanes;
+
+      if (settings.learnedDeliveryWindows.autoApply) {
+        const applied = await autoApplyDeliveryWindowSuggestions(merchant.id, settings);
+        if (applied.length > 0) {
+          console.log(
+            `[transit-stats] Applied ${applied.length} delivery windows for merchant ${merchant.id}: ` +
+              applied.map((s) => `${s.serviceLevel} ${s.currentDays}->${s.suggestedDays}`).join(", ")
+          );
+        }
+        result.windowsApplied += applied.length;
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(
+        `[transit-stats] Error computing transit stats for merchant ${merchant.id}:`,
+        errorMessage
+      );
+      result.errors?.push(`Transit stats error for merchant ${merchant.id}: ${errorMessage}`);
+      // Continue with other merchants
+    }
+  }
+
+  result.durationMs = Date.now() - startTime;
+
+  console.log(
+    `[transit-stats] Completed in ${result.durationMs}ms: ` +
+      `merchants=${result.merchantsProcessed}, shipments=${result.shipmentsMeasured}, ` +
+      `lanes=${result.lanesStored}, windowsApplied=${result.windowsApplied}`
+  );
+
+  return result;
+}